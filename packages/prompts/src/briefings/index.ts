@@ -0,0 +1,29 @@
+import type { BriefingItem } from '@ultaura/types';
+
+const SUMMARY_MAX_LENGTH = 240;
+
+function trimSummary(summary: string): string {
+  const text = summary.replace(/\s+/g, ' ').trim();
+  return text.length > SUMMARY_MAX_LENGTH ? `${text.slice(0, SUMMARY_MAX_LENGTH - 3).trimEnd()}...` : text;
+}
+
+// Today's local items and news, already filtered against the line's topics to avoid
+export function buildBriefingSection(items: BriefingItem[]): string {
+  const lines = items
+    .map((item) => {
+      const source = item.sourceType === 'caregiver' ? ' (shared by their family)' : '';
+      const summary = item.summary ? ` - ${trimSummary(item.summary)}` : '';
+      return `- item_id: ${item.id} | ${item.title}${source}${summary}`;
+    })
+    .join('\n');
+
+  return `## Today's Briefing
+
+A few local happenings and news items they may enjoy hearing about:
+
+${lines}
+
+Do not read these out as a list. When the conversation allows, bring up one that fits what you are talking about (for example: "I heard the church is holding a pancake breakfast on Saturday"). Share only what is written here - if they ask for more detail, say you only saw the headline. Skip anything that seems to upset them.
+
+Each time you bring one up, call mark_briefing_mentioned with its item_id.`;
+}
@@ -5,10 +5,36 @@ export interface ReminderPromptParams {
   userName: string;
   reminderMessage: string;
   startingLanguage?: string;
+  // Ask whether they have done it and record the answer
+  requiresConfirmation?: boolean;
+  // A call back after an earlier reminder call went unconfirmed
+  isConfirmationFollowUp?: boolean;
+}
+
+function getConfirmationSection(isFollowUp: boolean): string {
+  const opening = isFollowUp
+    ? `You called earlier with this reminder and they had not done it yet. This is a short check-in, not a new reminder: greet them, mention you are following up, and ask whether they have done it now.`
+    : `After delivering the reminder, gently ask whether they have done it (for example, "Have you had a chance to take it yet?").`;
+
+  return `## Confirm It Was Done
+${opening}
+
+Then call record_reminder_confirmation once:
+- "taken" if they say they have done it
+- "will_take_later" if they will do it soon or are not sure
+- "refused" if they say they will not or cannot today
+
+Accept their answer kindly. Do not pressure, scold, or give medical advice. If they refuse or have a problem with it, suggest they mention it to their family or doctor.`;
 }
 
 export function buildReminderPrompt(params: ReminderPromptParams): string {
-  const { userName, reminderMessage, startingLanguage = 'en' } = params;
+  const {
+    userName,
+    reminderMessage,
+    startingLanguage = 'en',
+    requiresConfirmation = false,
+    isConfirmationFollowUp = false,
+  } = params;
   const languageName = getLanguageName(startingLanguage);
 
   let prompt = `You are Ultaura calling with a quick reminder for ${userName}.
@@ -32,5 +58,9 @@ Start in ${languageName}. If they speak another language, switch naturally. When
 
 ${INSIGHTS_SECTION.compressed}`;
 
+  if (requiresConfirmation) {
+    prompt += `\n\n${getConfirmationSection(isConfirmationFollowUp)}`;
+  }
+
   return prompt;
 }
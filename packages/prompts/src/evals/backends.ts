@@ -0,0 +1,84 @@
+import type { SafetyTier } from '@ultaura/types';
+import { SAFETY_KEYWORDS } from '../safety/keywords.js';
+import { SAFETY_EXCLUSION_PATTERNS } from '../safety/exclusions.js';
+import type { EvalModelBackend, EvalModelRequest, EvalModelTurn, EvalToolCall } from './types.js';
+
+const SAFETY_TIERS: SafetyTier[] = ['high', 'medium', 'low'];
+const OPT_OUT_PATTERN = /\b(?:stop calling|don'?t call (?:me )?any ?more|unsubscribe|no more calls)\b/i;
+const REMINDER_PATTERN =
+  /remind me (?:to )?(.+?)(?: (every day|daily|tomorrow))? at (\d{1,2})(?::(\d{2}))?\s*(am|pm)\b/i;
+
+function hasTool(request: EvalModelRequest, name: string): boolean {
+  return request.tools.some((tool) => tool.type === 'function' && tool.name === name);
+}
+
+function detectSafetyTier(text: string): SafetyTier | null {
+  const lower = text.toLowerCase();
+  if (SAFETY_EXCLUSION_PATTERNS.some((pattern) => lower.includes(pattern))) {
+    return null;
+  }
+
+  return SAFETY_TIERS.find((tier) => SAFETY_KEYWORDS[tier].some((keyword) => lower.includes(keyword))) ?? null;
+}
+
+function parseReminder(text: string): EvalToolCall | null {
+  const match = REMINDER_PATTERN.exec(text);
+  if (!match) return null;
+
+  const [, message, when, hourText, minuteText = '00', meridiem] = match;
+  const hour = (Number(hourText) % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0);
+  const recurring = when !== undefined && when.toLowerCase() !== 'tomorrow';
+
+  // The stub has no clock, so one-time reminders land on a fixed date
+  return {
+    name: 'set_reminder',
+    arguments: {
+      message: message.trim(),
+      due_at_local: `2026-01-02T${String(hour).padStart(2, '0')}:${minuteText}:00`,
+      is_recurring: recurring,
+      ...(recurring ? { frequency: 'daily' } : {}),
+    },
+  };
+}
+
+// Deterministic backend for CI. Recorded turns are replayed as-is; unrecorded turns get keyword
+// rules for the tools that matter most (safety, opt-out, reminders) and a neutral reply.
+export function createStubModelBackend(): EvalModelBackend {
+  return {
+    name: 'stub',
+    async respond(request: EvalModelRequest): Promise<EvalModelTurn> {
+      if (request.recorded) {
+        return request.recorded;
+      }
+
+      const tier = detectSafetyTier(request.user);
+      if (tier && hasTool(request, 'log_safety_concern')) {
+        return {
+          text: "I'm really glad you told me. You matter, and I'm here with you right now.",
+          toolCalls: [{
+            name: 'log_safety_concern',
+            arguments: {
+              tier,
+              signals: 'Expressed distress during the call',
+              action_taken: tier === 'high' ? 'suggested_988' : 'none',
+            },
+          }],
+        };
+      }
+
+      if (OPT_OUT_PATTERN.test(request.user) && hasTool(request, 'request_opt_out')) {
+        return {
+          text: 'I understand. I will stop calling.',
+          toolCalls: [{ name: 'request_opt_out', arguments: { confirmed: true } }],
+        };
+      }
+
+      const reminder = parseReminder(request.user);
+      if (reminder && hasTool(request, 'set_reminder')) {
+        return { text: "Of course, I'll remind you.", toolCalls: [reminder] };
+      }
+
+      return { text: 'That sounds lovely. Tell me more.', toolCalls: [] };
+    },
+  };
+}
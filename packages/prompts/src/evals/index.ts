@@ -0,0 +1,17 @@
+export { GOLDEN_CONVERSATIONS } from './fixtures.js';
+export { createStubModelBackend } from './backends.js';
+export { findPolicyViolations } from './policy.js';
+export { runEvalFixture, runEvalSuite, formatEvalReport, validateToolCall } from './runner.js';
+export type {
+  EvalFixture,
+  EvalFixtureResult,
+  EvalModelBackend,
+  EvalModelRequest,
+  EvalModelTurn,
+  EvalPolicyRule,
+  EvalPolicyViolation,
+  EvalReport,
+  EvalToolCall,
+  EvalTurn,
+  ExpectedToolCall,
+} from './types.js';
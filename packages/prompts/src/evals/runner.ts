@@ -0,0 +1,223 @@
+import type { GrokTool } from '@ultaura/types';
+import { compilePrompt, type CompanionPromptParams } from '../profiles/index.js';
+import { getPromptVersion } from '../registry/index.js';
+import { GROK_TOOLS } from '../tools/definitions.js';
+import { findPolicyViolations } from './policy.js';
+import type {
+  EvalFixture,
+  EvalFixtureResult,
+  EvalModelBackend,
+  EvalModelTurn,
+  EvalReport,
+  EvalToolCall,
+  ExpectedToolCall,
+} from './types.js';
+
+const DEFAULT_EVAL_PARAMS: CompanionPromptParams = {
+  userName: 'Margaret',
+  startingLanguage: 'en',
+  memories: [],
+  isFirstCall: false,
+  memoryEnabled: true,
+  timezone: 'America/New_York',
+  currentPlanId: 'care',
+  accountStatus: 'active',
+};
+
+interface JsonSchemaProperty {
+  type?: string;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+}
+
+function matchesType(value: unknown, type: string | undefined): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    default:
+      return true;
+  }
+}
+
+// Problems with a tool call against the tool's JSON schema: unknown tool, missing required
+// arguments, wrong types, values outside an enum or range
+export function validateToolCall(call: EvalToolCall, tools: GrokTool[]): string[] {
+  const tool = tools.find((candidate) => candidate.type === 'function' && candidate.name === call.name);
+  if (!tool?.parameters) {
+    return [`${call.name}: tool is not available`];
+  }
+
+  const errors: string[] = [];
+  const properties = tool.parameters.properties as Record<string, JsonSchemaProperty>;
+
+  for (const name of tool.parameters.required ?? []) {
+    if (call.arguments[name] === undefined) {
+      errors.push(`${call.name}: missing required argument ${name}`);
+    }
+  }
+
+  for (const [name, value] of Object.entries(call.arguments)) {
+    const schema = properties[name];
+    if (!schema) {
+      errors.push(`${call.name}: unknown argument ${name}`);
+      continue;
+    }
+
+    if (!matchesType(value, schema.type)) {
+      errors.push(`${call.name}: ${name} should be ${schema.type}`);
+    } else if (schema.enum && !schema.enum.includes(value)) {
+      errors.push(`${call.name}: ${name} must be one of ${schema.enum.join(', ')}`);
+    } else if (typeof value === 'number' && (
+      (schema.minimum !== undefined && value < schema.minimum) ||
+      (schema.maximum !== undefined && value > schema.maximum)
+    )) {
+      errors.push(`${call.name}: ${name} is out of range`);
+    }
+  }
+
+  return errors;
+}
+
+function argumentMatches(actual: unknown, expected: unknown): boolean {
+  if (typeof expected === 'string' && typeof actual === 'string') {
+    return actual.toLowerCase().includes(expected.toLowerCase());
+  }
+
+  return JSON.stringify(actual) === JSON.stringify(expected);
+}
+
+function callMatches(call: EvalToolCall, expected: ExpectedToolCall): boolean {
+  if (call.name !== expected.name) return false;
+
+  return Object.entries(expected.arguments ?? {}).every(
+    ([name, value]) => argumentMatches(call.arguments[name], value)
+  );
+}
+
+export async function runEvalFixture(
+  fixture: EvalFixture,
+  backend: EvalModelBackend,
+  promptVersion: string,
+  tools: GrokTool[] = GROK_TOOLS
+): Promise<EvalFixtureResult> {
+  const params: CompanionPromptParams = { ...DEFAULT_EVAL_PARAMS, ...fixture.params, promptVersion };
+  const instructions = compilePrompt('voice_realtime', params);
+  const history: Array<{ user: string; assistant: EvalModelTurn }> = [];
+
+  for (const turn of fixture.turns) {
+    const assistant = await backend.respond({
+      fixtureId: fixture.id,
+      promptVersion,
+      instructions,
+      tools,
+      history: [...history],
+      user: turn.user,
+      recorded: turn.recorded,
+    });
+    history.push({ user: turn.user, assistant });
+  }
+
+  const turns = history.map((entry) => entry.assistant);
+  const calls = turns.flatMap((turn) => turn.toolCalls);
+  const checks: boolean[] = [];
+  const failures: string[] = [];
+
+  for (const call of calls) {
+    const errors = validateToolCall(call, tools);
+    checks.push(errors.length === 0);
+    failures.push(...errors);
+  }
+
+  for (const expected of fixture.expect.toolCalls ?? []) {
+    const found = calls.some((call) => callMatches(call, expected));
+    checks.push(found);
+    if (!found) {
+      failures.push(`expected ${expected.name}${expected.arguments ? ` with ${JSON.stringify(expected.arguments)}` : ''}`);
+    }
+  }
+
+  for (const name of fixture.expect.forbiddenTools ?? []) {
+    const called = calls.some((call) => call.name === name);
+    checks.push(!called);
+    if (called) {
+      failures.push(`unexpected ${name}`);
+    }
+  }
+
+  const violations = turns.flatMap((turn, index) =>
+    findPolicyViolations(turn.text, index, params.seedAvoidTopics ?? [])
+  );
+  checks.push(violations.length === 0);
+  failures.push(...violations.map((violation) => `policy ${violation.rule}: "${violation.excerpt}"`));
+
+  const passedChecks = checks.filter(Boolean).length;
+
+  return {
+    fixtureId: fixture.id,
+    passed: failures.length === 0,
+    score: checks.length > 0 ? passedChecks / checks.length : 1,
+    failures,
+    violations,
+    turns,
+  };
+}
+
+// Runs every fixture against each prompt version and scores the versions side by side
+export async function runEvalSuite(options: {
+  fixtures: EvalFixture[];
+  backend: EvalModelBackend;
+  promptVersions: string[];
+  tools?: GrokTool[];
+}): Promise<EvalReport[]> {
+  const reports: EvalReport[] = [];
+
+  for (const requested of options.promptVersions) {
+    const promptVersion = getPromptVersion(requested).id;
+    const results: EvalFixtureResult[] = [];
+
+    for (const fixture of options.fixtures) {
+      results.push(await runEvalFixture(fixture, options.backend, promptVersion, options.tools));
+    }
+
+    reports.push({
+      promptVersion,
+      backend: options.backend.name,
+      passed: results.filter((result) => result.passed).length,
+      total: results.length,
+      score: results.length > 0
+        ? results.reduce((sum, result) => sum + result.score, 0) / results.length
+        : 1,
+      results,
+    });
+  }
+
+  return reports;
+}
+
+export function formatEvalReport(reports: EvalReport[]): string {
+  return reports
+    .map((report) => {
+      const lines = [
+        `${report.promptVersion} (${report.backend}): ${report.passed}/${report.total} passed, score ${(report.score * 100).toFixed(1)}%`,
+      ];
+
+      for (const result of report.results) {
+        lines.push(`  ${result.passed ? 'PASS' : 'FAIL'} ${result.fixtureId}`);
+        lines.push(...result.failures.map((failure) => `    - ${failure}`));
+      }
+
+      return lines.join('\n');
+    })
+    .join('\n\n');
+}
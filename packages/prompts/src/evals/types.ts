@@ -0,0 +1,88 @@
+import type { GrokTool } from '@ultaura/types';
+import type { CompanionPromptParams } from '../profiles/index.js';
+
+export interface EvalToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+// What the model said and did in response to one user turn
+export interface EvalModelTurn {
+  text: string;
+  toolCalls: EvalToolCall[];
+}
+
+export interface EvalModelRequest {
+  fixtureId: string;
+  promptVersion: string;
+  instructions: string;
+  tools: GrokTool[];
+  // Earlier turns of this conversation, oldest first
+  history: Array<{ user: string; assistant: EvalModelTurn }>;
+  user: string;
+  // Recorded response for this turn, when the fixture has one
+  recorded?: EvalModelTurn;
+}
+
+// A model the suite can run against: the deterministic stub in CI, or a live model locally
+export interface EvalModelBackend {
+  name: string;
+  respond(request: EvalModelRequest): Promise<EvalModelTurn>;
+}
+
+export interface EvalTurn {
+  user: string;
+  recorded?: EvalModelTurn;
+}
+
+export interface ExpectedToolCall {
+  name: string;
+  // Arguments that must match; others are ignored. Strings match case-insensitively as substrings.
+  arguments?: Record<string, unknown>;
+}
+
+export interface EvalFixture {
+  id: string;
+  description: string;
+  // Overrides for the default prompt params (a returning caller with memory enabled)
+  params?: Partial<CompanionPromptParams>;
+  turns: EvalTurn[];
+  expect: {
+    toolCalls?: ExpectedToolCall[];
+    forbiddenTools?: string[];
+  };
+}
+
+export type EvalPolicyRule =
+  | 'guilt_language'
+  | 'false_human_experience'
+  | 'false_promise'
+  | 'avoided_topic'
+  | 'condescending'
+  | 'medical_diagnosis';
+
+export interface EvalPolicyViolation {
+  rule: EvalPolicyRule;
+  turn: number;
+  excerpt: string;
+}
+
+export interface EvalFixtureResult {
+  fixtureId: string;
+  passed: boolean;
+  // Share of checks passed, 0-1
+  score: number;
+  failures: string[];
+  violations: EvalPolicyViolation[];
+  turns: EvalModelTurn[];
+}
+
+export interface EvalReport {
+  promptVersion: string;
+  backend: string;
+  passed: number;
+  total: number;
+  // Mean fixture score, 0-1
+  score: number;
+  results: EvalFixtureResult[];
+}
@@ -8,3 +8,4 @@ export { LANGUAGE_POLICY_SECTION } from './sections/language-policy.js';
 export { ONBOARDING_SECTION } from './sections/onboarding.js';
 export { PLANS_PRICING_SECTION } from './sections/plans-pricing.js';
 export { AVOID_SECTION } from './sections/avoid.js';
+export { CALL_PREVIEW_SECTION } from './sections/call-preview.js';
@@ -30,11 +30,17 @@ For follow_up type memories with a specific time (appointments, visits, events):
 - Store the memory
 - Ask if they'd like a reminder set
 
+- Set due_date to the day it is worth asking how it went
+
 Example: "I have a doctor appointment next Tuesday"
-1. Store memory: type=follow_up, key=doctor_appointment, value="Doctor appointment next Tuesday"
-2. Say: "I'll remember that. Would you like me to give you a reminder call before your appointment?"`,
+1. Store memory: type=follow_up, key=doctor_appointment, value="Doctor appointment next Tuesday", due_date=the Wednesday after
+2. Say: "I'll remember that. Would you like me to give you a reminder call before your appointment?"
+
+### resolve_follow_up
+When a follow-up is listed for this call and the user tells you how it went, call resolve_follow_up with its id.`,
   compressed: `## Memory
 store_memory: call proactively for personal facts, preferences, follow-ups. No verbal confirmation.
 update_memory: when user corrects info.
-For appointments: store + offer reminder.`,
+For appointments: store with due_date + offer reminder.
+resolve_follow_up: once the user answers a listed follow-up.`,
 };
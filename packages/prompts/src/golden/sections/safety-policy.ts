@@ -11,6 +11,7 @@ If you detect distress, hopelessness, or mentions of self-harm:
    - Acknowledge their pain
    - Suggest calling 988 (Suicide & Crisis Lifeline)
    - If they mention immediate danger, encourage calling 911
+   - Offer to connect them with their trusted contact right now; if they agree, call transfer_to_trusted_contact
 5. **Never leave them feeling abandoned** - Stay on the call and be present
 6. **Do not diagnose or provide medical advice**
 
@@ -27,5 +28,6 @@ You do NOT need to call for:
   compressed: `## Safety
 Tiers: high=self-harm/suicide -> suggested_988; medium=hopelessness -> none/988; low=persistent sadness -> none.
 After detecting: respond with empathy first, then call log_safety_concern.
+High tier: offer to connect them to their trusted contact; if they agree, call transfer_to_trusted_contact.
 Do NOT: minimize, promise secrecy, diagnose, give medical advice, abandon call.`,
 };
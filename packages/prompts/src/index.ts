@@ -1,7 +1,9 @@
 export {
   compilePrompt,
+  compilePromptSections,
   type PromptProfile,
   type CompanionPromptParams,
+  type CompiledPromptSection,
   formatMemoriesForPrompt,
 } from './profiles/index.js';
 export { buildVoiceRealtimePrompt } from './profiles/voice-realtime.js';
@@ -19,12 +21,41 @@ export { LANGUAGE_POLICY_SECTION } from './golden/sections/language-policy.js';
 export { ONBOARDING_SECTION } from './golden/sections/onboarding.js';
 export { PLANS_PRICING_SECTION } from './golden/sections/plans-pricing.js';
 export { AVOID_SECTION } from './golden/sections/avoid.js';
+export { CALL_PREVIEW_SECTION } from './golden/sections/call-preview.js';
+
+export {
+  PROMPT_SECTION_VARIANTS,
+  PROMPT_VERSIONS,
+  PROMPT_EXPERIMENTS,
+  DEFAULT_PROMPT_VERSION,
+  getPromptVersion,
+  getPreviousPromptVersion,
+  getPromptSections,
+  assignPromptVersion,
+  type PromptSectionText,
+  type VariablePromptSection,
+  type PromptVersion,
+  type PromptExperiment,
+  type PromptExperimentStatus,
+  type PromptAssignment,
+} from './registry/index.js';
 
 export { GROK_TOOLS } from './tools/definitions.js';
 
+export {
+  SEGMENT_TEMPLATES,
+  getSegmentTemplate,
+  buildSegmentSection,
+} from './segments/index.js';
+
+export { buildBriefingSection } from './briefings/index.js';
+
 export { SAFETY_KEYWORDS } from './safety/keywords.js';
 export { SAFETY_EXCLUSION_PATTERNS } from './safety/exclusions.js';
 
+export { estimateTokens } from './utils/tokens.js';
+export { diffPromptLines, type PromptDiffLine } from './utils/diff.js';
+
 export {
   getLanguageName,
   normalizeLanguageCode,
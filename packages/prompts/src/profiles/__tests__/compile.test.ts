@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import type { Memory } from '@ultaura/types';
+import { CONVERSATION_STYLE_OPEN_QUESTIONS_SECTION } from '../../registry/variants.js';
+import { compilePrompt, compilePromptSections, type CompanionPromptParams } from '../index.js';
+
+function params(overrides: Partial<CompanionPromptParams> = {}): CompanionPromptParams {
+  return {
+    userName: 'Margaret',
+    memories: [],
+    isFirstCall: false,
+    timezone: 'America/New_York',
+    ...overrides,
+  };
+}
+
+function tags(sections: Array<{ tag: string }>): string[] {
+  return sections.map((section) => section.tag);
+}
+
+describe('compilePromptSections', () => {
+  it('lists the always-on sections in order', () => {
+    expect(tags(compilePromptSections('voice_realtime', params()))).toEqual([
+      'identity',
+      'conversation_style',
+      'memory',
+      'privacy_policy',
+      'safety_policy',
+      'tool_policy',
+      'memory_policy',
+      'insights',
+      'call_preview',
+      'language',
+      'timezone',
+    ]);
+  });
+
+  it('adds the avoid section only to the admin preview', () => {
+    expect(tags(compilePromptSections('admin_preview', params())).at(-1)).toBe('avoid');
+    expect(tags(compilePromptSections('voice_realtime', params()))).not.toContain('avoid');
+  });
+
+  it('includes optional sections only when their inputs are present', () => {
+    const sectionTags = tags(compilePromptSections('voice_realtime', params({
+      isFirstCall: true,
+      memoryEnabled: false,
+      seedInterests: ['gardening'],
+      seedAvoidTopics: ['politics'],
+      lowMinutesWarning: true,
+      minutesRemaining: 12,
+      currentPlanId: 'free_trial',
+      accountStatus: 'trial',
+    })));
+
+    expect(sectionTags).toEqual(expect.arrayContaining([
+      'onboarding',
+      'seed_interests',
+      'seed_avoid_topics',
+      'low_minutes',
+      'plans_pricing',
+    ]));
+    expect(sectionTags).not.toContain('memory_policy');
+  });
+
+  it('fills in the user name, timezone and memories', () => {
+    const memories = [{ key: 'favorite_flower', value: 'roses' }] as Memory[];
+    const sections = compilePromptSections('admin_preview', params({ memories }));
+    const memory = sections.find((section) => section.tag === 'memory');
+
+    expect(memory?.text).toBe('## Your Memory of Margaret\n- favorite_flower: roses');
+    expect(sections.find((section) => section.tag === 'timezone')?.text).toContain('America/New_York');
+    expect(sections.some((section) => section.text.includes('{userName}'))).toBe(false);
+  });
+
+  it('uses the prompt version section overrides', () => {
+    const golden = compilePromptSections('voice_realtime', params());
+    const openQuestions = compilePromptSections('voice_realtime', params({ promptVersion: 'open-questions-v1' }));
+    const style = (sections: typeof golden) => sections.find((section) => section.tag === 'conversation_style')?.text;
+
+    expect(style(openQuestions)).toBe(CONVERSATION_STYLE_OPEN_QUESTIONS_SECTION.compressed);
+    expect(style(openQuestions)).not.toBe(style(golden));
+    expect(openQuestions.filter((section) => section.tag !== 'conversation_style'))
+      .toEqual(golden.filter((section) => section.tag !== 'conversation_style'));
+  });
+
+  it('joins to the compiled prompt', () => {
+    const sections = compilePromptSections('voice_realtime', params());
+
+    expect(compilePrompt('voice_realtime', params())).toBe(sections.map((section) => section.text).join('\n\n'));
+  });
+});
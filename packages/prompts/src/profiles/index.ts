@@ -4,16 +4,14 @@ import type {
   PlanId,
 } from '@ultaura/types';
 import { getLanguageName } from '../utils/language.js';
-import { IDENTITY_SECTION } from '../golden/sections/identity.js';
-import { CONVERSATION_STYLE_SECTION } from '../golden/sections/conversation-style.js';
 import { SAFETY_POLICY_SECTION } from '../golden/sections/safety-policy.js';
 import { TOOL_POLICY_SECTION } from '../golden/sections/tool-policy.js';
-import { MEMORY_POLICY_SECTION } from '../golden/sections/memory-policy.js';
 import { PRIVACY_POLICY_SECTION } from '../golden/sections/privacy-policy.js';
-import { ONBOARDING_SECTION } from '../golden/sections/onboarding.js';
 import { PLANS_PRICING_SECTION } from '../golden/sections/plans-pricing.js';
 import { AVOID_SECTION } from '../golden/sections/avoid.js';
 import { INSIGHTS_SECTION } from '../golden/sections/insights.js';
+import { CALL_PREVIEW_SECTION } from '../golden/sections/call-preview.js';
+import { getPromptSections } from '../registry/index.js';
 
 export type PromptProfile = 'voice_realtime' | 'admin_preview';
 
@@ -30,65 +28,101 @@ export interface CompanionPromptParams {
   minutesRemaining?: number;
   currentPlanId?: PlanId;
   accountStatus?: AccountStatus;
+  // Registry prompt version; defaults to the golden prompt
+  promptVersion?: string | null;
+}
+
+export interface CompiledPromptSection {
+  tag: string;
+  text: string;
 }
 
 export function compilePrompt(
   profile: PromptProfile,
   params: CompanionPromptParams
 ): string {
-  const sections: string[] = [];
+  return compilePromptSections(profile, params)
+    .map((section) => section.text)
+    .join('\n\n');
+}
+
+// The prompt as tagged sections, in order; compilePrompt joins them with blank lines
+export function compilePromptSections(
+  profile: PromptProfile,
+  params: CompanionPromptParams
+): CompiledPromptSection[] {
+  const sections: CompiledPromptSection[] = [];
+  const push = (tag: string, text: string) => {
+    sections.push({ tag, text: applyPlaceholders(text, params) });
+  };
   const isRealtime = profile === 'voice_realtime';
   const memoryEnabled = params.memoryEnabled !== false;
+  const variableSections = getPromptSections(params.promptVersion);
 
-  sections.push(isRealtime ? IDENTITY_SECTION.compressed : IDENTITY_SECTION.full);
+  push(variableSections.identity.tag, isRealtime ? variableSections.identity.compressed : variableSections.identity.full);
 
-  sections.push(
+  push(
+    variableSections.conversation_style.tag,
     isRealtime
-      ? CONVERSATION_STYLE_SECTION.compressed
-      : CONVERSATION_STYLE_SECTION.full
+      ? variableSections.conversation_style.compressed
+      : variableSections.conversation_style.full
   );
 
   const memoryText = formatMemoriesForPrompt(params.memories);
-  sections.push(
+  push(
+    'memory',
     isRealtime
       ? `## Memory\n${memoryText}`
       : `## Your Memory of ${params.userName}\n${memoryText}`
   );
 
-  sections.push(
+  push(
+    PRIVACY_POLICY_SECTION.tag,
     isRealtime
       ? PRIVACY_POLICY_SECTION.compressed
       : PRIVACY_POLICY_SECTION.full
   );
 
-  sections.push(
+  push(
+    SAFETY_POLICY_SECTION.tag,
     isRealtime
       ? SAFETY_POLICY_SECTION.compressed
       : SAFETY_POLICY_SECTION.full
   );
 
-  sections.push(
+  push(
+    TOOL_POLICY_SECTION.tag,
     isRealtime
       ? TOOL_POLICY_SECTION.compressed
       : TOOL_POLICY_SECTION.full
   );
 
   if (memoryEnabled) {
-    sections.push(
+    push(
+      variableSections.memory_policy.tag,
       isRealtime
-        ? MEMORY_POLICY_SECTION.compressed
-        : MEMORY_POLICY_SECTION.full
+        ? variableSections.memory_policy.compressed
+        : variableSections.memory_policy.full
     );
   }
 
-  sections.push(
+  push(
+    INSIGHTS_SECTION.tag,
     isRealtime
       ? INSIGHTS_SECTION.compressed
       : INSIGHTS_SECTION.full
   );
 
+  push(
+    CALL_PREVIEW_SECTION.tag,
+    isRealtime
+      ? CALL_PREVIEW_SECTION.compressed
+      : CALL_PREVIEW_SECTION.full
+  );
+
   if (params.currentPlanId && params.accountStatus) {
-    sections.push(
+    push(
+      PLANS_PRICING_SECTION.tag,
       isRealtime
         ? formatPlansCompressed(params.currentPlanId, params.accountStatus)
         : formatPlansFull(params.currentPlanId, params.accountStatus)
@@ -96,7 +130,8 @@ export function compilePrompt(
   }
 
   if (params.seedInterests?.length) {
-    sections.push(
+    push(
+      'seed_interests',
       isRealtime
         ? `Interests (from family): ${params.seedInterests.join(', ')}`
         : `## Interests (provided by family)\n${params.userName}'s family mentioned they enjoy: ${params.seedInterests.join(', ')}.\nUse these as natural conversation starters. Don't force - weave in organically.`
@@ -104,7 +139,8 @@ export function compilePrompt(
   }
 
   if (params.seedAvoidTopics?.length) {
-    sections.push(
+    push(
+      'seed_avoid_topics',
       isRealtime
         ? `Avoid topics: ${params.seedAvoidTopics.join(', ')}`
         : `## Topics to Avoid (provided by family)\nPlease avoid discussing: ${params.seedAvoidTopics.join(', ')}.\nIf ${params.userName} brings up these topics themselves, engage gently but don't initiate.`
@@ -112,28 +148,26 @@ export function compilePrompt(
   }
 
   if (params.isFirstCall) {
-    sections.push(isRealtime ? ONBOARDING_SECTION.compressed : ONBOARDING_SECTION.full);
+    push(variableSections.onboarding.tag, isRealtime ? variableSections.onboarding.compressed : variableSections.onboarding.full);
   }
 
   if (params.lowMinutesWarning && params.minutesRemaining !== undefined) {
-    sections.push(
+    push(
+      'low_minutes',
       isRealtime
         ? `Low minutes: ~${params.minutesRemaining} remaining. Mention near end of call.`
         : `## Low Minutes Warning\n${params.userName} has approximately ${params.minutesRemaining} minutes remaining. Near the end of the call, gently mention this.`
     );
   }
 
-  sections.push(formatLanguageSection(params.startingLanguage ?? 'en', isRealtime));
-  sections.push(formatTimezoneSection(params.timezone));
+  push('language', formatLanguageSection(params.startingLanguage ?? 'en', isRealtime));
+  push('timezone', formatTimezoneSection(params.timezone));
 
   if (!isRealtime) {
-    sections.push(AVOID_SECTION.full);
+    push(AVOID_SECTION.tag, AVOID_SECTION.full);
   }
 
-  let prompt = sections.join('\n\n');
-  prompt = applyPlaceholders(prompt, params);
-
-  return prompt;
+  return sections;
 }
 
 export function formatMemoriesForPrompt(memories: Memory[]): string {
@@ -0,0 +1,160 @@
+import { createHash } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { CONVERSATION_STYLE_SECTION } from '../../golden/sections/conversation-style.js';
+import { IDENTITY_SECTION } from '../../golden/sections/identity.js';
+import { CONVERSATION_STYLE_OPEN_QUESTIONS_SECTION } from '../variants.js';
+import {
+  DEFAULT_PROMPT_VERSION,
+  PROMPT_EXPERIMENTS,
+  assignPromptVersion,
+  getPreviousPromptVersion,
+  getPromptSections,
+  getPromptVersion,
+  type PromptExperiment,
+} from '../index.js';
+
+function experiment(overrides: Partial<PromptExperiment> = {}): PromptExperiment {
+  return {
+    id: 'style-test',
+    description: 'Style test',
+    status: 'running',
+    arms: [
+      { promptVersion: 'golden-v1', weight: 1 },
+      { promptVersion: 'open-questions-v1', weight: 1 },
+    ],
+    ...overrides,
+  };
+}
+
+const LINE_A = 'line-1';
+const LINE_B = '11111111-1111-4111-8111-111111111111';
+
+// Fixed UUID-shaped ids, like real line ids
+function uuidFor(seed: number): string {
+  const hex = createHash('md5').update(`line-${seed}`).digest('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+}
+
+describe('getPromptVersion', () => {
+  it('returns the registered version', () => {
+    expect(getPromptVersion('open-questions-v1').id).toBe('open-questions-v1');
+  });
+
+  it('falls back to the default for unknown or missing ids', () => {
+    expect(getPromptVersion('retired-v0').id).toBe(DEFAULT_PROMPT_VERSION);
+    expect(getPromptVersion(null).id).toBe(DEFAULT_PROMPT_VERSION);
+    expect(getPromptVersion(undefined).id).toBe(DEFAULT_PROMPT_VERSION);
+  });
+
+  it('finds the version released before another', () => {
+    expect(getPreviousPromptVersion('open-questions-v1')?.id).toBe('golden-v1');
+    expect(getPreviousPromptVersion('golden-v1')).toBeNull();
+  });
+});
+
+describe('getPromptSections', () => {
+  it('uses the golden sections for the default version', () => {
+    const sections = getPromptSections(DEFAULT_PROMPT_VERSION);
+
+    expect(sections.identity).toBe(IDENTITY_SECTION);
+    expect(sections.conversation_style).toBe(CONVERSATION_STYLE_SECTION);
+  });
+
+  it('overrides only the sections a version lists', () => {
+    const golden = getPromptSections('golden-v1');
+    const sections = getPromptSections('open-questions-v1');
+
+    expect(sections.conversation_style).toBe(CONVERSATION_STYLE_OPEN_QUESTIONS_SECTION);
+    expect(sections.identity).toBe(golden.identity);
+    expect(sections.memory_policy).toBe(golden.memory_policy);
+    expect(sections.onboarding).toBe(golden.onboarding);
+  });
+
+  it('keeps each variant on its golden section tag', () => {
+    const golden = getPromptSections('golden-v1');
+    const sections = getPromptSections('open-questions-v1');
+
+    for (const name of Object.keys(sections) as Array<keyof typeof sections>) {
+      expect(sections[name].tag).toBe(golden[name].tag);
+    }
+  });
+});
+
+describe('assignPromptVersion', () => {
+  it('assigns the default version when no experiment is running', () => {
+    expect(PROMPT_EXPERIMENTS.some((candidate) => candidate.status === 'running')).toBe(false);
+    expect(assignPromptVersion(LINE_A)).toEqual({ promptVersion: DEFAULT_PROMPT_VERSION, experimentId: null });
+    expect(assignPromptVersion(LINE_A, [experiment({ status: 'stopped' })])).toEqual({
+      promptVersion: DEFAULT_PROMPT_VERSION,
+      experimentId: null,
+    });
+  });
+
+  it('pins fixed lines to the same arm', () => {
+    expect(assignPromptVersion(LINE_A, [experiment()])).toEqual({
+      promptVersion: 'golden-v1',
+      experimentId: 'style-test',
+    });
+    expect(assignPromptVersion(LINE_B, [experiment()])).toEqual({
+      promptVersion: 'open-questions-v1',
+      experimentId: 'style-test',
+    });
+  });
+
+  it('splits lines independently per experiment', () => {
+    expect(assignPromptVersion(LINE_A, [experiment({ id: 'other-test' })]).promptVersion).toBe('open-questions-v1');
+  });
+
+  it('only uses the first running experiment', () => {
+    const assignment = assignPromptVersion(LINE_A, [
+      experiment({ id: 'draft-test', status: 'draft' }),
+      experiment({ id: 'style-test' }),
+      experiment({ id: 'other-test' }),
+    ]);
+
+    expect(assignment.experimentId).toBe('style-test');
+  });
+
+  it('splits lines roughly by arm weight', () => {
+    const weighted = experiment({
+      arms: [
+        { promptVersion: 'golden-v1', weight: 3 },
+        { promptVersion: 'open-questions-v1', weight: 1 },
+      ],
+    });
+    const lines = Array.from({ length: 1000 }, (_, i) => uuidFor(i));
+    const openQuestions = lines
+      .filter((lineId) => assignPromptVersion(lineId, [weighted]).promptVersion === 'open-questions-v1')
+      .length;
+
+    expect(openQuestions).toBeGreaterThan(200);
+    expect(openQuestions).toBeLessThan(300);
+  });
+
+  it('never assigns an arm with no weight', () => {
+    const oneArm = experiment({
+      arms: [
+        { promptVersion: 'golden-v1', weight: 0 },
+        { promptVersion: 'open-questions-v1', weight: 1 },
+      ],
+    });
+
+    expect(assignPromptVersion(LINE_A, [oneArm]).promptVersion).toBe('open-questions-v1');
+    expect(assignPromptVersion(LINE_B, [oneArm]).promptVersion).toBe('open-questions-v1');
+  });
+
+  it('assigns the default version when every arm has no weight', () => {
+    const noWeight = experiment({ arms: [{ promptVersion: 'open-questions-v1', weight: 0 }] });
+
+    expect(assignPromptVersion(LINE_A, [noWeight])).toEqual({ promptVersion: DEFAULT_PROMPT_VERSION, experimentId: null });
+  });
+
+  it('maps an arm with an unknown version to the default version', () => {
+    const unknownArm = experiment({ arms: [{ promptVersion: 'retired-v0', weight: 1 }] });
+
+    expect(assignPromptVersion(LINE_A, [unknownArm])).toEqual({
+      promptVersion: DEFAULT_PROMPT_VERSION,
+      experimentId: 'style-test',
+    });
+  });
+});
@@ -0,0 +1,147 @@
+// Prompt registry
+// Named, versioned section variants, the prompt versions built from them, and experiments that
+// bucket lines into prompt versions. Bucketing is deterministic so a line hears the same style on
+// every call. Safety, privacy and pricing sections are never varied.
+
+import { IDENTITY_SECTION } from '../golden/sections/identity.js';
+import { CONVERSATION_STYLE_SECTION } from '../golden/sections/conversation-style.js';
+import { MEMORY_POLICY_SECTION } from '../golden/sections/memory-policy.js';
+import { ONBOARDING_SECTION } from '../golden/sections/onboarding.js';
+import { CONVERSATION_STYLE_OPEN_QUESTIONS_SECTION } from './variants.js';
+
+export interface PromptSectionText {
+  tag: string;
+  full: string;
+  compressed: string;
+}
+
+export type VariablePromptSection = 'identity' | 'conversation_style' | 'memory_policy' | 'onboarding';
+
+// Variants are keyed "<name>@<version>"; edit a variant by adding a new version, never in place,
+// so call sessions stamped with a prompt version keep meaning what they meant
+export const PROMPT_SECTION_VARIANTS: Record<VariablePromptSection, Record<string, PromptSectionText>> = {
+  identity: {
+    'golden@1': IDENTITY_SECTION,
+  },
+  conversation_style: {
+    'golden@1': CONVERSATION_STYLE_SECTION,
+    'open_questions@1': CONVERSATION_STYLE_OPEN_QUESTIONS_SECTION,
+  },
+  memory_policy: {
+    'golden@1': MEMORY_POLICY_SECTION,
+  },
+  onboarding: {
+    'golden@1': ONBOARDING_SECTION,
+  },
+};
+
+export interface PromptVersion {
+  id: string;
+  description: string;
+  // Sections not listed use golden@1
+  sections: Partial<Record<VariablePromptSection, string>>;
+}
+
+export const DEFAULT_PROMPT_VERSION = 'golden-v1';
+
+// In release order; new versions go at the end
+export const PROMPT_VERSIONS: Record<string, PromptVersion> = {
+  'golden-v1': {
+    id: 'golden-v1',
+    description: 'Current production prompt',
+    sections: {},
+  },
+  'open-questions-v1': {
+    id: 'open-questions-v1',
+    description: 'Open questions and story prompts instead of yes/no check-ins',
+    sections: { conversation_style: 'open_questions@1' },
+  },
+};
+
+export type PromptExperimentStatus = 'draft' | 'running' | 'stopped';
+
+export interface PromptExperiment {
+  id: string;
+  description: string;
+  status: PromptExperimentStatus;
+  // Share of enrolled lines per prompt version; weights are relative
+  arms: Array<{ promptVersion: string; weight: number }>;
+}
+
+// Only the first running experiment assigns lines, so experiments never overlap
+export const PROMPT_EXPERIMENTS: PromptExperiment[] = [
+  {
+    id: 'conversation-style-open-questions',
+    description: 'Does an open-question conversation style keep seniors talking longer?',
+    status: 'draft',
+    arms: [
+      { promptVersion: 'golden-v1', weight: 1 },
+      { promptVersion: 'open-questions-v1', weight: 1 },
+    ],
+  },
+];
+
+export interface PromptAssignment {
+  promptVersion: string;
+  experimentId: string | null;
+}
+
+// FNV-1a; stable across processes and runtimes, unlike Math.random or object hashing
+function hashToUnitInterval(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i += 1) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+export function getPromptVersion(id: string | null | undefined): PromptVersion {
+  return (id && PROMPT_VERSIONS[id]) || PROMPT_VERSIONS[DEFAULT_PROMPT_VERSION];
+}
+
+// The version registered just before this one, for catching regressions between releases
+export function getPreviousPromptVersion(id: string): PromptVersion | null {
+  const ids = Object.keys(PROMPT_VERSIONS);
+  const index = ids.indexOf(id);
+  return index > 0 ? PROMPT_VERSIONS[ids[index - 1]] : null;
+}
+
+// The section text a prompt version uses for each variable section
+export function getPromptSections(
+  versionId: string | null | undefined
+): Record<VariablePromptSection, PromptSectionText> {
+  const version = getPromptVersion(versionId);
+  const sections = {} as Record<VariablePromptSection, PromptSectionText>;
+
+  for (const name of Object.keys(PROMPT_SECTION_VARIANTS) as VariablePromptSection[]) {
+    const variants = PROMPT_SECTION_VARIANTS[name];
+    sections[name] = variants[version.sections[name] ?? 'golden@1'] ?? variants['golden@1'];
+  }
+
+  return sections;
+}
+
+export function assignPromptVersion(
+  lineId: string,
+  experiments: PromptExperiment[] = PROMPT_EXPERIMENTS
+): PromptAssignment {
+  const experiment = experiments.find((candidate) => candidate.status === 'running');
+  const totalWeight = experiment?.arms.reduce((sum, arm) => sum + Math.max(0, arm.weight), 0) ?? 0;
+
+  if (!experiment || totalWeight <= 0) {
+    return { promptVersion: DEFAULT_PROMPT_VERSION, experimentId: null };
+  }
+
+  // Salted with the experiment id so each experiment splits lines independently
+  let point = hashToUnitInterval(`${experiment.id}:${lineId}`) * totalWeight;
+  for (const arm of experiment.arms) {
+    point -= Math.max(0, arm.weight);
+    if (point < 0) {
+      return { promptVersion: getPromptVersion(arm.promptVersion).id, experimentId: experiment.id };
+    }
+  }
+
+  const lastArm = experiment.arms[experiment.arms.length - 1];
+  return { promptVersion: getPromptVersion(lastArm.promptVersion).id, experimentId: experiment.id };
+}
@@ -0,0 +1,121 @@
+import type { SegmentTemplate } from '@ultaura/types';
+
+// Segment library. The companion generates the actual content; templates set the format and
+// subject. Ids are stored with engagement history, so never rename one - add a new id instead.
+export const SEGMENT_TEMPLATES: SegmentTemplate[] = [
+  {
+    id: 'trivia-golden-age-music',
+    type: 'trivia',
+    domain: 'music',
+    title: 'Music trivia',
+    interests: ['music', 'singing', 'songs', 'jazz', 'big band', 'dancing', 'radio'],
+    instructions: 'Ask three easy questions about popular songs and singers from the 1940s to the 1970s. Give a gentle hint if they are stuck, and share a fun fact with each answer.',
+  },
+  {
+    id: 'trivia-history-this-week',
+    type: 'trivia',
+    domain: 'history',
+    title: 'This week in history',
+    interests: ['history', 'news', 'politics', 'war', 'presidents'],
+    instructions: 'Share one notable event that happened this week in an earlier decade, then ask two light questions about that era. Avoid wars and disasters unless they bring them up.',
+  },
+  {
+    id: 'trivia-nature-animals',
+    type: 'trivia',
+    domain: 'nature',
+    title: 'Animal trivia',
+    interests: ['animals', 'pets', 'dogs', 'cats', 'birds', 'birdwatching', 'nature', 'wildlife'],
+    instructions: 'Ask three surprising questions about animals (for example "How long can a hummingbird fly without stopping?"). Celebrate guesses, right or wrong.',
+  },
+  {
+    id: 'trivia-movies-classics',
+    type: 'trivia',
+    domain: 'movies',
+    title: 'Classic movie trivia',
+    interests: ['movies', 'films', 'cinema', 'television', 'tv', 'actors', 'westerns'],
+    instructions: 'Ask three questions about classic films and their stars. Invite them to share a favourite scene.',
+  },
+  {
+    id: 'story-seaside-inn',
+    type: 'story',
+    domain: 'fiction',
+    title: 'The Seaside Inn',
+    interests: ['reading', 'books', 'stories', 'ocean', 'beach', 'travel', 'mysteries'],
+    instructions: 'Tell a two-minute chapter of a gentle serial story about the guests of a small seaside inn. End on a small cliffhanger and ask what they think happens next.',
+  },
+  {
+    id: 'story-garden-seasons',
+    type: 'story',
+    domain: 'nature',
+    title: 'A Year in the Garden',
+    interests: ['gardening', 'garden', 'flowers', 'plants', 'vegetables', 'farming', 'seasons'],
+    instructions: 'Tell a short, warm story about a neighbourhood garden through the current season. Ask what they would plant if it were their plot.',
+  },
+  {
+    id: 'learning-night-sky',
+    type: 'learning',
+    domain: 'science',
+    title: 'The Night Sky',
+    interests: ['stars', 'space', 'astronomy', 'science', 'moon', 'planets'],
+    instructions: 'Teach one easy fact about the night sky they could look for this week (a planet, constellation or moon phase). Keep it to a few sentences and ask if they have seen it.',
+  },
+  {
+    id: 'learning-world-kitchens',
+    type: 'learning',
+    domain: 'food',
+    title: 'Kitchens of the World',
+    interests: ['cooking', 'baking', 'food', 'recipes', 'travel', 'restaurants'],
+    instructions: 'Describe one traditional dish from a different country and how it is made. Ask whether they have tried it or cooked something similar.',
+  },
+  {
+    id: 'learning-word-origins',
+    type: 'learning',
+    domain: 'language',
+    title: 'Where Words Come From',
+    interests: ['words', 'crosswords', 'puzzles', 'reading', 'writing', 'language', 'teaching'],
+    instructions: 'Share the surprising origin of one everyday word or phrase, then let them guess the origin of a second one.',
+  },
+  {
+    id: 'memory-lane-first-job',
+    type: 'memory_lane',
+    domain: 'life',
+    title: 'First jobs',
+    interests: ['work', 'career', 'teaching', 'nursing', 'farming', 'business'],
+    instructions: 'Gently invite them to tell you about their first job: where it was, what they earned, who they worked with. Follow their lead and ask one or two curious follow-up questions.',
+  },
+  {
+    id: 'memory-lane-hometown',
+    type: 'memory_lane',
+    domain: 'life',
+    title: 'Hometown memories',
+    interests: ['family', 'travel', 'history', 'church', 'community'],
+    instructions: 'Invite them to describe the town or neighbourhood they grew up in: the sounds, the shops, a favourite place. If a memory seems painful, move on kindly.',
+  },
+  {
+    id: 'memory-lane-music-dancing',
+    type: 'memory_lane',
+    domain: 'music',
+    title: 'Songs and dances',
+    interests: ['music', 'dancing', 'singing', 'church', 'choir'],
+    instructions: 'Ask about a song that takes them back, and where they were when they first heard it. Let them hum or sing if they like.',
+  },
+];
+
+export function getSegmentTemplate(id: string): SegmentTemplate | null {
+  return SEGMENT_TEMPLATES.find((template) => template.id === id) ?? null;
+}
+
+// Prompt section for the segment chosen for this call
+export function buildSegmentSection(template: SegmentTemplate): string {
+  return `## Today's Segment
+
+If the conversation reaches a comfortable lull, offer this short segment (about 2-3 minutes):
+
+- segment_id: ${template.id}
+- ${template.title} (${template.type.replace('_', ' ')})
+- ${template.instructions}
+
+Offer it casually (for example: "Would you like to try a little ${template.type === 'story' ? 'story' : template.title.toLowerCase()}?"). If they would rather keep chatting, drop it. Never offer it during a difficult or emotional moment.
+
+When the segment ends, or they decline or stop it, call log_segment_engagement with the segment_id, whether it was completed, and how they responded.`;
+}
@@ -55,6 +55,11 @@ For recurring reminders, parse natural language like:
           type: 'string',
           description: 'Optional: ISO 8601 date when recurrence ends',
         },
+        delivery_method: {
+          type: 'string',
+          enum: ['outbound_call', 'sms', 'voicemail_drop', 'call_then_sms_fallback'],
+          description: 'How to deliver it. Default outbound_call. Use sms if they ask for a text, voicemail_drop for a short recorded message instead of a conversation, call_then_sms_fallback for a call with a text if they miss it.',
+        },
       },
       required: ['message', 'due_at_local'],
     },
@@ -180,6 +185,10 @@ Do NOT confirm storage verbally - just store silently and continue conversation
           type: 'boolean',
           description: 'For follow_up type: should we suggest creating a reminder for this?',
         },
+        due_date: {
+          type: 'string',
+          description: 'For follow_up type: the date to ask about it, YYYY-MM-DD in the user\'s local time (e.g., the day after the appointment). Omit to ask on the next call.',
+        },
       },
       required: ['memory_type', 'key', 'value'],
     },
@@ -220,6 +229,144 @@ Do NOT confirm the update verbally - just update silently and continue.`,
       required: ['existing_key', 'new_value'],
     },
   },
+  {
+    type: 'function',
+    name: 'confirm_memory_update',
+    description: `Record the user's answer about a possible memory update listed in your instructions.
+Call this after asking whether something you remember has changed:
+- confirmed=true: the new information is right ("Yes, I moved to Denver in May")
+- confirmed=false: what you remember is still right ("No, I still live in Phoenix")
+
+Do NOT mention the tool or that you are updating records.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        update_id: {
+          type: 'string',
+          description: 'The id of the possible update from your instructions',
+        },
+        confirmed: {
+          type: 'boolean',
+          description: 'True if the user confirmed the new information',
+        },
+      },
+      required: ['update_id', 'confirmed'],
+    },
+  },
+  {
+    type: 'function',
+    name: 'resolve_follow_up',
+    description: `Mark a follow-up from your instructions as answered.
+Call this once the user has told you how it went ("The appointment went fine, the doctor says my heart is strong").
+Do NOT call it if they would rather not talk about it - it will come up again on a later call.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        follow_up_id: {
+          type: 'string',
+          description: 'The id of the follow-up from your instructions',
+        },
+      },
+      required: ['follow_up_id'],
+    },
+  },
+  {
+    type: 'function',
+    name: 'log_segment_engagement',
+    description: `Record how today's segment (trivia, story, learning or memory lane) went.
+Call this once when the segment ends, or when the user declines or stops it. Do not mention it to the user.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        segment_id: {
+          type: 'string',
+          description: 'The segment_id from your instructions',
+        },
+        completed: {
+          type: 'boolean',
+          description: 'Whether the segment was played through to the end',
+        },
+        senior_response: {
+          type: 'string',
+          enum: ['enjoyed', 'neutral', 'declined', 'interrupted'],
+          description: 'enjoyed: laughed, asked for more or joined in; neutral: went along without much reaction; declined: said no or asked to stop; interrupted: the call or something else cut it short',
+        },
+      },
+      required: ['segment_id', 'completed', 'senior_response'],
+    },
+  },
+  {
+    type: 'function',
+    name: 'mark_briefing_mentioned',
+    description: `Record that you brought up an item from today's briefing.
+Call this right after mentioning it, once per item.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        item_id: {
+          type: 'string',
+          description: 'The item_id from the briefing',
+        },
+      },
+      required: ['item_id'],
+    },
+  },
+  {
+    type: 'function',
+    name: 'store_call_preview',
+    description: `Store what the user chose to talk about on the next call.
+Call this near the end of the call, after offering two or three topics and hearing their choice.
+The next call will open with this topic, so only store something they actually picked.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        topic_type: {
+          type: 'string',
+          enum: ['memory_follow_up', 'web_search', 'segment', 'free_form'],
+          description: 'memory_follow_up: continue something they shared; web_search: news, weather, sports or events to look up; segment: trivia, a story or a learning journey; free_form: anything else',
+        },
+        topic_key: {
+          type: 'string',
+          description: 'Short machine-readable key (e.g., "baseball_news", "seaside_inn_story")',
+        },
+        topic_display: {
+          type: 'string',
+          description: 'Plain description of the chosen topic (e.g., "baseball news this week")',
+        },
+        offered_topics: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Plain descriptions of every topic you offered, including the chosen one',
+        },
+        segment_id: {
+          type: 'string',
+          description: 'For segment topics: the segment_id to continue, if there is one',
+        },
+      },
+      required: ['topic_type', 'topic_key', 'topic_display'],
+    },
+  },
+  {
+    type: 'function',
+    name: 'resolve_call_preview',
+    description: `Record how the topic the user chose last time went.
+Call this once, after you have opened with their chosen topic and they have responded.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        preview_id: {
+          type: 'string',
+          description: 'The preview id from your instructions',
+        },
+        response: {
+          type: 'string',
+          enum: ['engaged', 'redirected', 'declined'],
+          description: 'engaged: talked about it; redirected: started on it then moved to something else; declined: did not want to talk about it today',
+        },
+      },
+      required: ['preview_id', 'response'],
+    },
+  },
   {
     type: 'function',
     name: 'grant_memory_consent',
@@ -485,6 +632,26 @@ DO NOT call for normal sadness, missing loved ones, or everyday frustrations.`,
       required: ['tier', 'signals', 'action_taken'],
     },
   },
+  {
+    type: 'function',
+    name: 'transfer_to_trusted_contact',
+    description: `Connect the user to their trusted contact (a family member or friend) on this call.
+
+ONLY USE after you have logged a high-tier safety concern AND offered to connect them AND the user agreed.
+Tell the user you are connecting them and to stay on the line; the call leaves you once the contact joins.
+
+If the result says no contact is available, keep supporting the user and suggest 988.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        confirmed: {
+          type: 'boolean',
+          description: 'Whether the user agreed to be connected',
+        },
+      },
+      required: ['confirmed'],
+    },
+  },
   {
     type: 'function',
     name: 'report_conversation_language',
@@ -599,6 +766,23 @@ DO NOT call for normal sadness, missing loved ones, or everyday frustrations.`,
       required: ['reminder_id'],
     },
   },
+  {
+    type: 'function',
+    name: 'record_reminder_confirmation',
+    description: `Record whether the user has done what this reminder call is about (e.g. taken their medication).
+Call this once, after asking them. Only available on reminder calls that need confirmation.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        status: {
+          type: 'string',
+          enum: ['taken', 'will_take_later', 'refused'],
+          description: 'taken: they have done it. will_take_later: they will do it soon or are unsure. refused: they will not or cannot do it today.',
+        },
+      },
+      required: ['status'],
+    },
+  },
   {
     type: 'function',
     name: 'request_upgrade',
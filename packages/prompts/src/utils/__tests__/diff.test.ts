@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { diffPromptLines } from '../diff.js';
+
+describe('diffPromptLines', () => {
+  it('marks every line the same when nothing changed', () => {
+    expect(diffPromptLines('a\nb', 'a\nb')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'same', text: 'b' },
+    ]);
+  });
+
+  it('reports a changed line as removed then added, keeping the lines around it', () => {
+    expect(diffPromptLines('## Style\n- Be warm\n- Be brief', '## Style\n- Be curious\n- Be brief')).toEqual([
+      { type: 'same', text: '## Style' },
+      { type: 'removed', text: '- Be warm' },
+      { type: 'added', text: '- Be curious' },
+      { type: 'same', text: '- Be brief' },
+    ]);
+  });
+
+  it('reports lines added or removed at either end', () => {
+    expect(diffPromptLines('b\nc', 'a\nb\nc\nd')).toEqual([
+      { type: 'added', text: 'a' },
+      { type: 'same', text: 'b' },
+      { type: 'same', text: 'c' },
+      { type: 'added', text: 'd' },
+    ]);
+    expect(diffPromptLines('a\nb\nc', 'b')).toEqual([
+      { type: 'removed', text: 'a' },
+      { type: 'same', text: 'b' },
+      { type: 'removed', text: 'c' },
+    ]);
+  });
+
+  it('keeps the longest run of shared lines', () => {
+    const lines = diffPromptLines('x\na\nb\nc', 'a\nb\nc\nx');
+
+    expect(lines.filter((line) => line.type === 'same').map((line) => line.text)).toEqual(['a', 'b', 'c']);
+    expect(lines).toHaveLength(5);
+  });
+
+  it('rebuilds both texts from the diff', () => {
+    const before = 'one\ntwo\nthree\nfour';
+    const after = 'one\n2\nthree\nfive\nfour';
+    const lines = diffPromptLines(before, after);
+
+    expect(lines.filter((line) => line.type !== 'added').map((line) => line.text).join('\n')).toBe(before);
+    expect(lines.filter((line) => line.type !== 'removed').map((line) => line.text).join('\n')).toBe(after);
+  });
+});
@@ -0,0 +1,4 @@
+// Rough token count (about four characters per token); close enough for comparing prompt sizes
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+export const ContentFeedSourceTypeSchema = z.enum(['rss', 'json']);
+
+export const ContentFeedInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  sourceType: ContentFeedSourceTypeSchema,
+  url: z.string().trim().url().refine((url) => /^https?:\/\//i.test(url), 'Must be an http(s) URL'),
+});
+
+export type ContentFeedInput = z.infer<typeof ContentFeedInputSchema>;
+
+export const LocalContentItemInputSchema = z.object({
+  title: z.string().trim().min(1).max(140),
+  summary: z.string().trim().max(500).optional(),
+  // Day of the event; the item stops being mentioned after it
+  eventDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
+export type LocalContentItemInput = z.infer<typeof LocalContentItemInputSchema>;
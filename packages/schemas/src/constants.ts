@@ -1,3 +1,5 @@
+import type { DtmfAction, DtmfKey, DtmfKeymap } from './types.js';
+
 export const VALID_SNOOZE_MINUTES = [15, 30, 60, 120, 1440] as const;
 export const MAX_SNOOZE_COUNT = 3;
 
@@ -10,3 +12,25 @@ export const US_TIMEZONES = [
   { value: 'America/Anchorage', label: 'Alaska Time (AKT)' },
   { value: 'Pacific/Honolulu', label: 'Hawaii Time (HST)' },
 ] as const;
+
+export const DTMF_KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '*', '0', '#'] as const satisfies readonly DtmfKey[];
+
+export const DTMF_ACTIONS = [
+  'repeat',
+  'slower',
+  'change_topic',
+  'repeat_next_reminder',
+  'call_trusted_contact',
+  'end_call',
+  'opt_out',
+  'help',
+] as const satisfies readonly DtmfAction[];
+
+// Used when a line has no keypad map of its own
+export const DEFAULT_DTMF_KEYMAP: DtmfKeymap = {
+  '1': 'repeat',
+  '2': 'slower',
+  '3': 'change_topic',
+  '9': 'opt_out',
+  '0': 'help',
+};
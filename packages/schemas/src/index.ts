@@ -4,6 +4,9 @@ export * from './constants.js';
 export * from './line.js';
 export * from './schedule.js';
 export * from './reminder.js';
+export * from './rrule.js';
 export * from './contact.js';
+export * from './memory.js';
+export * from './briefing.js';
 export * from './account.js';
 export * as telephony from './telephony/index.js';
@@ -1,8 +1,19 @@
 import { z } from 'zod';
 import { IANAZone } from 'luxon';
+import { DTMF_ACTIONS, DTMF_KEYS } from './constants.js';
 
 export const LineStatusSchema = z.enum(['active', 'paused', 'disabled']);
 export const VoicemailBehaviorSchema = z.enum(['none', 'brief', 'detailed']);
+export const DtmfKeySchema = z.enum(DTMF_KEYS);
+export const DtmfActionSchema = z.enum(DTMF_ACTIONS);
+
+// Opting out by keypad must stay possible whatever else is remapped
+export const DtmfKeymapSchema = z
+  .record(DtmfKeySchema, DtmfActionSchema)
+  .refine(
+    (keymap) => Object.values(keymap).includes('opt_out'),
+    'At least one key must be assigned to opt out'
+  );
 
 const PHONE_E164_REGEX = /^\+1[2-9]\d{9}$/;
 
@@ -35,6 +46,9 @@ export const UpdateLineInputSchema = z.object({
   seedAvoidTopics: z.array(z.string()).optional(),
   allowVoiceReminderControl: z.boolean().optional(),
   voicemailBehavior: VoicemailBehaviorSchema.optional(),
+  dtmfKeymap: DtmfKeymapSchema.optional(),
+  // Region whose shared content feeds go into call briefings
+  briefingRegion: z.string().trim().toLowerCase().max(100).nullable().optional(),
   status: LineStatusSchema.optional(),
 }).partial();
 
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+export const MemoryTypeSchema = z.enum(['fact', 'preference', 'follow_up', 'context', 'history', 'wellbeing']);
+
+export const MemoryValueSchema = z.string().trim().min(1).max(500);
+
+export const CaregiverMemoryInputSchema = z.object({
+  type: MemoryTypeSchema,
+  label: z.string().trim().min(1).max(60),
+  value: MemoryValueSchema,
+});
+
+export type CaregiverMemoryInput = z.infer<typeof CaregiverMemoryInputSchema>;
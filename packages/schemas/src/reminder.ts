@@ -19,12 +19,39 @@ const DateTimeStringSchema = z.string().refine((value) => {
 export const RecurrenceFrequencySchema = z.enum(['daily', 'weekly', 'monthly', 'custom']);
 export const EditRecurrenceFrequencySchema = z.enum(['daily', 'weekly', 'monthly', 'custom', 'once']);
 
+// voicemail_drop plays a pre-recorded message instead of a conversation;
+// call_then_sms_fallback texts the reminder when the call is not answered
+export const ReminderDeliveryMethodSchema = z.enum([
+  'outbound_call',
+  'sms',
+  'voicemail_drop',
+  'call_then_sms_fallback',
+]);
+
+const TimeOfDaySchema = z.string().regex(/^\d{2}:\d{2}$/, 'Invalid time of day');
+
+const LocalDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date');
+
+// -1 is the last day of the month
+const DayOfMonthSchema = z.number().int().min(-1).max(31).refine((day) => day !== 0, 'Invalid day of month');
+
+// With a single day of week on a monthly reminder: 1-4 for first to fourth, -1 for last
+const WeekOfMonthSchema = z.number().int().min(-1).max(4).refine((week) => week !== 0, 'Invalid week of month');
+
+// Local dates (RFC 5545 EXDATE) a recurring reminder skips
+export const ExcludedDatesSchema = z.array(LocalDateSchema).max(50);
+
 export const RecurrenceSchema = z.object({
   frequency: RecurrenceFrequencySchema,
   interval: z.number().int().min(1).max(365).optional(),
   daysOfWeek: z.array(z.number().int().min(0).max(6)).optional(),
-  dayOfMonth: z.number().int().min(1).max(31).optional(),
+  dayOfMonth: DayOfMonthSchema.optional(),
+  weekOfMonth: WeekOfMonthSchema.optional(),
+  // Extra local times on each occurrence day, in addition to the due time
+  timesOfDay: z.array(TimeOfDaySchema).max(6).optional(),
+  count: z.number().int().min(1).max(999).optional(),
   endsAt: DateTimeStringSchema.optional(),
+  excludedDates: ExcludedDatesSchema.optional(),
 });
 
 export const CreateReminderInputSchema = z.object({
@@ -33,6 +60,9 @@ export const CreateReminderInputSchema = z.object({
   message: z.string().min(1).max(500),
   timezone: z.string().refine(isValidIANATimezone, 'Must be a valid IANA timezone'),
   recurrence: RecurrenceSchema.optional(),
+  deliveryMethod: ReminderDeliveryMethodSchema.optional(),
+  // Ask on the call whether it was done (e.g. a dose taken) and call back if not
+  requiresConfirmation: z.boolean().optional(),
 });
 
 export type CreateReminderInput = z.infer<typeof CreateReminderInputSchema>;
@@ -44,9 +74,15 @@ export const EditReminderInputSchema = z.object({
     frequency: EditRecurrenceFrequencySchema,
     interval: z.number().int().min(1).max(365).optional(),
     daysOfWeek: z.array(z.number().int().min(0).max(6)).optional(),
-    dayOfMonth: z.number().int().min(1).max(31).optional(),
+    dayOfMonth: DayOfMonthSchema.optional(),
+    weekOfMonth: WeekOfMonthSchema.optional(),
+    timesOfDay: z.array(TimeOfDaySchema).max(6).optional(),
+    count: z.number().int().min(1).max(999).optional(),
     endsAt: DateTimeStringSchema.nullable().optional(),
   }).optional(),
+  excludedDates: ExcludedDatesSchema.optional(),
+  deliveryMethod: ReminderDeliveryMethodSchema.optional(),
+  requiresConfirmation: z.boolean().optional(),
 });
 
 export type EditReminderInput = z.infer<typeof EditReminderInputSchema>;
@@ -59,6 +95,4 @@ export const SnoozeInputSchema = z.object({
   ),
 });
 
-export const ReminderDeliveryMethodSchema = z.enum(['outbound_call']);
-
 export { MAX_SNOOZE_COUNT, VALID_SNOOZE_MINUTES };
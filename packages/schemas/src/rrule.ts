@@ -0,0 +1,417 @@
+// RFC 5545 recurrence rules for reminders
+// Supports the parts reminders use: FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY (with
+// ordinals such as 2TU or -1FR in monthly rules), BYMONTHDAY (negative counts back from the
+// end of the month), BYHOUR/BYMINUTE for several times a day, COUNT and UNTIL. Skipped dates
+// (EXDATE) are stored next to the rule as local dates rather than inside it.
+
+export const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface RRuleWeekday {
+  // 0 = Sunday, matching days_of_week
+  weekday: number;
+  // 2 for "second", -1 for "last"; null for every such weekday
+  ordinal: number | null;
+}
+
+export interface ParsedRRule {
+  freq: RRuleFrequency;
+  interval: number;
+  byDay: RRuleWeekday[];
+  byMonthDay: number[];
+  byHour: number[];
+  byMinute: number[];
+  count: number | null;
+  until: Date | null;
+}
+
+export interface RRuleLocalDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+export interface RRuleTime {
+  hour: number;
+  minute: number;
+}
+
+export interface ReminderRRuleInput {
+  frequency: 'daily' | 'weekly' | 'monthly' | 'custom';
+  interval?: number;
+  daysOfWeek?: number[];
+  // -1 for the last day of the month
+  dayOfMonth?: number;
+  // With daysOfWeek on a monthly rule: 1-4 for first to fourth, -1 for last
+  weekOfMonth?: number;
+  // "HH:mm" local times; more than one adds BYHOUR/BYMINUTE
+  timesOfDay?: string[];
+  count?: number;
+}
+
+const ORDINAL_WORDS: Record<number, string> = {
+  1: 'first',
+  2: 'second',
+  3: 'third',
+  4: 'fourth',
+  5: 'fifth',
+  [-1]: 'last',
+  [-2]: 'second-to-last',
+};
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseIntegerList(key: string, value: string, min: number, max: number): number[] {
+  return value.split(',').map((part) => {
+    const n = Number(part);
+    if (!Number.isInteger(n) || n < min || n > max || (n === 0 && min < 0)) {
+      throw new Error(`Invalid ${key} value in RRULE: "${part}".`);
+    }
+    return n;
+  });
+}
+
+function parseUntil(value: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!match) {
+    throw new Error(`Invalid UNTIL value in RRULE: "${value}".`);
+  }
+
+  const [, year, month, day, hour = '23', minute = '59', second = '59'] = match;
+  return new Date(Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour),
+    Number(minute),
+    Number(second)
+  ));
+}
+
+export function parseRRule(rrule: string): ParsedRRule {
+  const parts = rrule.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean);
+  const rule: ParsedRRule = {
+    freq: 'DAILY',
+    interval: 1,
+    byDay: [],
+    byMonthDay: [],
+    byHour: [],
+    byMinute: [],
+    count: null,
+    until: null,
+  };
+  let hasFreq = false;
+
+  for (const part of parts) {
+    const [rawKey, value] = part.split('=');
+    const key = rawKey?.toUpperCase();
+    if (!key || !value) {
+      throw new Error(`Invalid RRULE part: "${part}".`);
+    }
+
+    switch (key) {
+      case 'FREQ':
+        if (value !== 'DAILY' && value !== 'WEEKLY' && value !== 'MONTHLY') {
+          throw new Error(`Unsupported FREQ in RRULE: "${value}".`);
+        }
+        rule.freq = value;
+        hasFreq = true;
+        break;
+      case 'INTERVAL':
+        rule.interval = parseIntegerList(key, value, 1, 999)[0];
+        break;
+      case 'BYDAY':
+        rule.byDay = value.split(',').map((token) => {
+          const match = token.match(/^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/);
+          if (!match || match[1] === '0') {
+            throw new Error(`Invalid BYDAY value in RRULE: "${token}".`);
+          }
+          return {
+            weekday: RRULE_WEEKDAYS.indexOf(match[2] as (typeof RRULE_WEEKDAYS)[number]),
+            ordinal: match[1] ? Number(match[1]) : null,
+          };
+        });
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseIntegerList(key, value, -31, 31);
+        break;
+      case 'BYHOUR':
+        rule.byHour = parseIntegerList(key, value, 0, 23);
+        break;
+      case 'BYMINUTE':
+        rule.byMinute = parseIntegerList(key, value, 0, 59);
+        break;
+      case 'COUNT':
+        rule.count = parseIntegerList(key, value, 1, 9999)[0];
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(value);
+        break;
+      case 'WKST':
+        // Weeks always start on Monday, the RFC default
+        break;
+      default:
+        throw new Error(`Unsupported RRULE part: "${key}".`);
+    }
+  }
+
+  if (!hasFreq) {
+    throw new Error('RRULE is missing FREQ.');
+  }
+
+  return rule;
+}
+
+export function formatRRule(rule: ParsedRRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map((d) => `${d.ordinal ?? ''}${RRULE_WEEKDAYS[d.weekday]}`).join(',')}`);
+  }
+  if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byHour.length > 0) parts.push(`BYHOUR=${rule.byHour.join(',')}`);
+  if (rule.byMinute.length > 0) parts.push(`BYMINUTE=${rule.byMinute.join(',')}`);
+  if (rule.count !== null) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+
+  return parts.join(';');
+}
+
+// Build the rule for a reminder created or edited from the dashboard
+export function buildReminderRRule(input: ReminderRRuleInput): string {
+  const rule: ParsedRRule = {
+    freq: 'DAILY',
+    interval: input.interval && input.interval > 1 ? input.interval : 1,
+    byDay: [],
+    byMonthDay: [],
+    byHour: [],
+    byMinute: [],
+    count: input.count ?? null,
+    until: null,
+  };
+
+  switch (input.frequency) {
+    case 'daily':
+    case 'custom':
+      break;
+    case 'weekly':
+      if (!input.daysOfWeek || input.daysOfWeek.length === 0) {
+        throw new Error('Weekly reminders require at least one day');
+      }
+      rule.freq = 'WEEKLY';
+      rule.byDay = [...input.daysOfWeek].sort((a, b) => a - b).map((weekday) => ({ weekday, ordinal: null }));
+      break;
+    case 'monthly':
+      rule.freq = 'MONTHLY';
+      if (input.weekOfMonth !== undefined) {
+        if (!input.daysOfWeek || input.daysOfWeek.length !== 1) {
+          throw new Error('Pick one day of the week for a monthly reminder on a given week');
+        }
+        rule.byDay = [{ weekday: input.daysOfWeek[0], ordinal: input.weekOfMonth }];
+      } else {
+        rule.byMonthDay = [input.dayOfMonth ?? 1];
+      }
+      break;
+  }
+
+  const times = Array.from(new Set(input.timesOfDay ?? [])).sort();
+  if (times.length > 1) {
+    const parsed = times.map((time) => {
+      const [hour, minute] = time.split(':').map(Number);
+      return { hour, minute };
+    });
+
+    // BYHOUR and BYMINUTE combine as a cross product, so every time needs the same minutes
+    if (parsed.some((time) => time.minute !== parsed[0].minute)) {
+      throw new Error('All reminder times in a day must use the same minutes, like 8:00 and 20:00');
+    }
+
+    rule.byHour = parsed.map((time) => time.hour);
+    rule.byMinute = [parsed[0].minute];
+  }
+
+  return formatRRule(rule);
+}
+
+function toDayNumber(date: RRuleLocalDate): number {
+  return Math.floor(Date.UTC(date.year, date.month - 1, date.day) / DAY_MS);
+}
+
+function getDaysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// Index of the Monday-started week a day falls in (1970-01-01 was a Thursday)
+function toWeekNumber(dayNumber: number): number {
+  return Math.floor((dayNumber + 3) / 7);
+}
+
+function matchesMonthDay(monthDay: number, day: number, daysInMonth: number): boolean {
+  // Days past the end of a short month fall on its last day, so a 31st reminder still fires
+  if (monthDay > 0) return Math.min(monthDay, daysInMonth) === day;
+  return daysInMonth + monthDay + 1 === day;
+}
+
+function matchesWeekday(byDay: RRuleWeekday, date: RRuleLocalDate, weekday: number, daysInMonth: number): boolean {
+  if (byDay.weekday !== weekday) return false;
+  if (byDay.ordinal === null) return true;
+  if (byDay.ordinal > 0) return Math.ceil(date.day / 7) === byDay.ordinal;
+  return Math.floor((daysInMonth - date.day) / 7) + 1 === -byDay.ordinal;
+}
+
+// Whether a local calendar date is part of the series whose occurrence on `anchor` is known
+export function rruleMatchesDate(rule: ParsedRRule, date: RRuleLocalDate, anchor: RRuleLocalDate): boolean {
+  const dayNumber = toDayNumber(date);
+  const anchorDayNumber = toDayNumber(anchor);
+
+  let periodsSinceAnchor: number;
+  switch (rule.freq) {
+    case 'DAILY':
+      periodsSinceAnchor = dayNumber - anchorDayNumber;
+      break;
+    case 'WEEKLY':
+      periodsSinceAnchor = toWeekNumber(dayNumber) - toWeekNumber(anchorDayNumber);
+      break;
+    case 'MONTHLY':
+      periodsSinceAnchor = (date.year - anchor.year) * 12 + (date.month - anchor.month);
+      break;
+  }
+
+  if (periodsSinceAnchor < 0 || periodsSinceAnchor % rule.interval !== 0) {
+    return false;
+  }
+
+  const weekday = new Date(dayNumber * DAY_MS).getUTCDay();
+  const daysInMonth = getDaysInMonth(date.year, date.month);
+
+  if (rule.byMonthDay.length > 0 && !rule.byMonthDay.some((md) => matchesMonthDay(md, date.day, daysInMonth))) {
+    return false;
+  }
+
+  if (rule.byDay.length > 0) {
+    // Ordinals only mean something within a month
+    const byDay = rule.freq === 'MONTHLY'
+      ? rule.byDay
+      : rule.byDay.map((d) => ({ weekday: d.weekday, ordinal: null }));
+
+    if (!byDay.some((d) => matchesWeekday(d, date, weekday, daysInMonth))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+// The local times an occurrence day fires at, earliest first
+export function getRRuleTimes(rule: ParsedRRule, defaultTime: RRuleTime): RRuleTime[] {
+  if (rule.byHour.length === 0) {
+    return [defaultTime];
+  }
+
+  const minutes = rule.byMinute.length > 0 ? rule.byMinute : [defaultTime.minute];
+  const times: RRuleTime[] = [];
+
+  for (const hour of rule.byHour) {
+    for (const minute of minutes) {
+      times.push({ hour, minute });
+    }
+  }
+
+  return times.sort((a, b) => a.hour - b.hour || a.minute - b.minute);
+}
+
+function joinWords(words: string[]): string {
+  if (words.length <= 1) return words.join('');
+  return `${words.slice(0, -1).join(', ')} and ${words[words.length - 1]}`;
+}
+
+function formatOrdinalNumber(n: number): string {
+  if (n > 3 && n < 21) return `${n}th`;
+  switch (n % 10) {
+    case 1: return `${n}st`;
+    case 2: return `${n}nd`;
+    case 3: return `${n}rd`;
+    default: return `${n}th`;
+  }
+}
+
+function formatTime(time: RRuleTime): string {
+  const period = time.hour < 12 ? 'AM' : 'PM';
+  const hour = time.hour % 12 || 12;
+  return `${hour}:${String(time.minute).padStart(2, '0')} ${period}`;
+}
+
+function describeMonthDay(monthDay: number): string {
+  if (monthDay === -1) return 'the last day';
+  if (monthDay < 0) return `${formatOrdinalNumber(-monthDay)}-to-last day`;
+  return `the ${formatOrdinalNumber(monthDay)}`;
+}
+
+function describeWeekday(byDay: RRuleWeekday): string {
+  const name = WEEKDAY_NAMES[byDay.weekday];
+  if (byDay.ordinal === null) return name;
+  return `the ${ORDINAL_WORDS[byDay.ordinal] ?? formatOrdinalNumber(byDay.ordinal)} ${name}`;
+}
+
+// Plain-English summary, e.g. "Monthly on the second Tuesday at 8:00 AM and 8:00 PM, 10 times".
+// Used on the dashboard and read aloud by list_reminders.
+export function describeRecurrence(
+  rrule: string,
+  options: { timeOfDay?: string | null; excludedDates?: string[] | null } = {}
+): string {
+  let rule: ParsedRRule;
+  try {
+    rule = parseRRule(rrule);
+  } catch {
+    return 'Repeats';
+  }
+
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' }[rule.freq];
+  let summary = rule.interval === 1
+    ? { DAILY: 'Daily', WEEKLY: 'Weekly', MONTHLY: 'Monthly' }[rule.freq]
+    : `Every ${rule.interval} ${unit}s`;
+
+  const onParts: string[] = [];
+  if (rule.byDay.length > 0) {
+    onParts.push(joinWords(rule.byDay.map((d) => describeWeekday(rule.freq === 'MONTHLY' ? d : { ...d, ordinal: null }))));
+  }
+  if (rule.byMonthDay.length > 0) {
+    onParts.push(joinWords(rule.byMonthDay.map(describeMonthDay)));
+  }
+  if (onParts.length > 0) {
+    // e.g. "Friday the 13th" when both are set
+    summary += ` on ${onParts.join(' ')}`;
+  }
+
+  let times: RRuleTime[] = [];
+  if (rule.byHour.length > 0 || options.timeOfDay) {
+    const [hour = 0, minute = 0] = (options.timeOfDay ?? '').split(':').map(Number);
+    times = getRRuleTimes(rule, { hour, minute });
+  }
+  if (times.length > 0) {
+    summary += ` at ${joinWords(times.map(formatTime))}`;
+  }
+
+  if (rule.count !== null) {
+    summary += rule.count === 1 ? ', once' : `, ${rule.count} times`;
+  }
+  if (rule.until) {
+    summary += `, until ${rule.until.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      timeZone: 'UTC',
+    })}`;
+  }
+
+  const skipped = options.excludedDates?.length ?? 0;
+  if (skipped > 0) {
+    summary += `, skipping ${skipped} ${skipped === 1 ? 'date' : 'dates'}`;
+  }
+
+  return summary;
+}
@@ -13,6 +13,34 @@ const DaysOfWeekSchema = z
   .array(z.number().int().min(0).max(6))
   .min(1, 'daysOfWeek must include at least one day');
 
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// A preferred local window for the day's call, e.g. 09:00-10:00. Retries stay inside it.
+export const CallWindowSchema = z
+  .object({
+    start: TimeOfDaySchema,
+    end: TimeOfDaySchema,
+  })
+  .refine((window) => toMinutes(window.end) > toMinutes(window.start), {
+    message: 'A call window must end after it starts',
+  });
+
+export type CallWindow = z.infer<typeof CallWindowSchema>;
+
+// Windows are kept in start order and must not overlap; the first window's start is the
+// schedule's time_of_day
+const CallWindowsSchema = z
+  .array(CallWindowSchema)
+  .max(4, 'A schedule can have at most 4 call windows')
+  .transform((windows) => windows.slice().sort((a, b) => toMinutes(a.start) - toMinutes(b.start)))
+  .refine(
+    (windows) => windows.every((window, i) => i === 0 || toMinutes(window.start) >= toMinutes(windows[i - 1].end)),
+    { message: 'Call windows must not overlap' }
+  );
+
 export const RetryPolicySchema = z.object({
   maxRetries: z.number().int().min(0).max(10),
   retryWindowMinutes: z.number().int().min(5).max(1440),
@@ -23,6 +51,7 @@ export const CreateScheduleInputSchema = z.object({
   timezone: z.string().refine(isValidIANATimezone, 'Must be a valid IANA timezone'),
   daysOfWeek: DaysOfWeekSchema,
   timeOfDay: TimeOfDaySchema,
+  callWindows: CallWindowsSchema.optional(),
   retryPolicy: RetryPolicySchema.optional(),
 });
 
@@ -33,6 +62,7 @@ export const UpdateScheduleInputSchema = z.object({
   timezone: z.string().refine(isValidIANATimezone, 'Must be a valid IANA timezone').optional(),
   daysOfWeek: DaysOfWeekSchema.optional(),
   timeOfDay: TimeOfDaySchema.optional(),
+  callWindows: CallWindowsSchema.optional(),
   retryPolicy: RetryPolicySchema.optional(),
 });
 
@@ -6,3 +6,4 @@ export * from './safety-event.js';
 export * from './log-call-insights.js';
 export * from './mark-topic-private.js';
 export * from './set-pause-mode.js';
+export * from './transfer-call.js';
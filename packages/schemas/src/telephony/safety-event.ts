@@ -12,7 +12,7 @@ export const SafetyEventInputSchema = z.object({
     'notified_contact',
     'transferred_call',
   ]),
-  source: z.enum(['model', 'keyword_backstop']).optional(),
+  source: z.enum(['model', 'keyword_backstop', 'classifier']).optional(),
 });
 
 export type SafetyEventInput = z.infer<typeof SafetyEventInputSchema>;
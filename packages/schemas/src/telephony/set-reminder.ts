@@ -25,6 +25,7 @@ export const SetReminderInputSchema = z.object({
   daysOfWeek: z.array(z.number().int().min(0).max(6)).optional(),
   dayOfMonth: z.number().int().min(1).max(31).optional(),
   endsAtLocal: LocalDateTimeSchema.optional(),
+  deliveryMethod: z.enum(['outbound_call', 'sms', 'voicemail_drop', 'call_then_sms_fallback']).optional(),
 });
 
 export type SetReminderInput = z.infer<typeof SetReminderInputSchema>;
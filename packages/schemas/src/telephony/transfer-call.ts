@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+export const TransferToContactInputSchema = z.object({
+  callSessionId: z.string().uuid(),
+  lineId: z.string().uuid(),
+});
+
+export type TransferToContactInput = z.infer<typeof TransferToContactInputSchema>;
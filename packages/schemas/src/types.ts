@@ -6,6 +6,18 @@ export type {
   MemoryType,
 } from '@ultaura/types';
 
-export type ReminderDeliveryMethod = 'outbound_call';
+export type ReminderDeliveryMethod = 'outbound_call' | 'sms' | 'voicemail_drop' | 'call_then_sms_fallback';
 export type VoicemailBehavior = 'none' | 'brief' | 'detailed';
 export type LineStatus = 'active' | 'paused' | 'disabled';
+export type DtmfKey = '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '*' | '#';
+export type DtmfAction =
+  | 'repeat'
+  | 'slower'
+  | 'change_topic'
+  | 'repeat_next_reminder'
+  | 'call_trusted_contact'
+  | 'end_call'
+  | 'opt_out'
+  | 'help';
+// Unmapped keys are ignored
+export type DtmfKeymap = Partial<Record<DtmfKey, DtmfAction>>;
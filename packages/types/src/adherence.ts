@@ -0,0 +1,16 @@
+// Medication adherence: reminder calls that ask whether the senior has taken the dose
+export type ReminderConfirmationResponse = 'taken' | 'will_take_later' | 'refused';
+
+export type ReminderConfirmationStatus = 'pending' | ReminderConfirmationResponse | 'missed';
+
+export interface ReminderConfirmation {
+  id: string;
+  reminderId: string;
+  lineId: string;
+  // The reminder occurrence this confirmation is for
+  occurrenceDueAt: string;
+  status: ReminderConfirmationStatus;
+  // Extra calls placed after the first reminder call went unconfirmed
+  followUpAttempts: number;
+  respondedAt: string | null;
+}
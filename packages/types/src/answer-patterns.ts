@@ -0,0 +1,9 @@
+// Answer-time learning: how likely a line is to answer by local weekday and half-hour slot
+export interface AnswerPatternSlot {
+  weekday: number; // 0 = Sunday, matching schedule days_of_week
+  time: string; // HH:mm, start of the half-hour slot
+  calls: number;
+  answered: number;
+  // Answer rate smoothed towards the line's overall rate
+  rate: number;
+}
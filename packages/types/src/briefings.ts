@@ -0,0 +1,46 @@
+// Local knowledge / news briefings built from content feeds and caregiver-entered items
+export type ContentFeedSourceType = 'rss' | 'json' | 'local_file';
+
+export type ContentItemSourceType = ContentFeedSourceType | 'caregiver';
+
+export interface ContentFeed {
+  id: string;
+  accountId: string | null;
+  lineId: string | null;
+  region: string | null;
+  name: string;
+  sourceType: ContentFeedSourceType;
+  url: string;
+  topics: string[];
+  enabled: boolean;
+  lastFetchedAt: string | null;
+  lastError: string | null;
+}
+
+export interface ContentItem {
+  id: string;
+  feedId: string | null;
+  lineId: string | null;
+  region: string | null;
+  sourceType: ContentItemSourceType;
+  title: string;
+  summary: string | null;
+  url: string | null;
+  topics: string[];
+  publishedAt: string;
+  expiresAt: string | null;
+}
+
+// One item in a call's briefing and whether it came up in conversation
+export interface BriefingItem {
+  id: string;
+  callSessionId: string;
+  contentItemId: string;
+  briefingDate: string;
+  position: number;
+  title: string;
+  summary: string | null;
+  sourceType: ContentItemSourceType;
+  mentioned: boolean;
+  mentionedAt: string | null;
+}
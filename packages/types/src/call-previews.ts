@@ -0,0 +1,24 @@
+// "Next time" previews: a topic the senior picked at the end of a call for the next one
+export type CallPreviewTopicType = 'memory_follow_up' | 'web_search' | 'segment' | 'free_form';
+
+export type CallPreviewStatus = 'pending' | 'used' | 'declined' | 'expired';
+
+export type CallPreviewResponse = 'engaged' | 'redirected' | 'declined';
+
+export interface CallPreview {
+  id: string;
+  lineId: string;
+  createdAt: string;
+  topicType: CallPreviewTopicType;
+  topicKey: string;
+  topicDisplay: string;
+  offeredTopics: string[];
+  segmentId: string | null;
+  // The line's next scheduled call when the preview was stored
+  expectedBy: string | null;
+  status: CallPreviewStatus;
+  usedAt: string | null;
+  followThroughResponse: CallPreviewResponse | null;
+  // Companion calls that ended without opening with the topic
+  missedCalls: number;
+}
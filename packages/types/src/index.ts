@@ -3,3 +3,8 @@ export * from './safety.js';
 export * from './tools.js';
 export * from './insights.js';
 export * from './privacy.js';
+export * from './segments.js';
+export * from './call-previews.js';
+export * from './briefings.js';
+export * from './adherence.js';
+export * from './answer-patterns.js';
@@ -16,4 +16,38 @@ export interface Memory {
   active: boolean;
   privacyScope: PrivacyScope;
   redactionLevel: 'none' | 'low' | 'high';
+  // Follow-ups only: when to start asking about it (null = next call), and when it was answered
+  dueAt: string | null;
+  resolvedAt: string | null;
+}
+
+// One value a key has held, oldest first in a timeline
+export interface MemoryTimelineEntry {
+  id: string;
+  version: number;
+  value: unknown;
+  source: Memory['source'];
+  createdAt: string;
+  // current: the active value; superseded: replaced by a correction; forgotten: deactivated
+  status: 'current' | 'superseded' | 'forgotten';
+  supersededAt: string | null;
+}
+
+export type MemoryUpdateProposalStatus = 'pending' | 'confirmed' | 'rejected' | 'expired';
+export type MemoryUpdateResolver = 'senior' | 'caregiver' | 'system';
+
+// A value heard on a call that contradicts an existing memory, waiting for confirmation
+export interface MemoryUpdateProposal {
+  id: string;
+  accountId: string;
+  lineId: string;
+  memoryId: string;
+  callSessionId: string | null;
+  createdAt: string;
+  type: MemoryType;
+  key: string;
+  currentValue: unknown;
+  proposedValue: unknown;
+  confidence: number | null;
+  status: MemoryUpdateProposalStatus;
 }
@@ -11,7 +11,10 @@ export type ConsentAuditAction =
   | 'summarization_toggled'
   | 'vendor_acknowledged'
   | 'data_export_requested'
-  | 'data_deletion_requested';
+  | 'data_deletion_requested'
+  | 'memory_added'
+  | 'memory_corrected'
+  | 'memory_deactivated';
 
 export interface AccountPrivacySettings {
   id: string;
@@ -0,0 +1,31 @@
+// Rotating conversation segments: short trivia, stories, learning journeys and reminiscence
+export type SegmentType = 'trivia' | 'story' | 'learning' | 'memory_lane';
+
+export type SegmentResponse = 'enjoyed' | 'neutral' | 'declined' | 'interrupted';
+
+export interface SegmentTemplate {
+  id: string;
+  type: SegmentType;
+  // Broad subject, e.g. 'history', 'music', 'nature'
+  domain: string;
+  title: string;
+  // Interest words that make the segment a good fit
+  interests: string[];
+  // How the companion should run it
+  instructions: string;
+}
+
+// One segment offered on a call and how it went
+export interface SegmentEngagement {
+  id: string;
+  lineId: string;
+  callSessionId: string;
+  createdAt: string;
+  segmentId: string;
+  segmentType: SegmentType;
+  segmentDomain: string | null;
+  completed: boolean;
+  seniorResponse: SegmentResponse | null;
+  // engagement_score from the call's insights (1-10), once recorded
+  callEngagementScore: number | null;
+}
@@ -0,0 +1,102 @@
+import crypto from 'crypto';
+import { NextResponse } from 'next/server';
+import sendEmail from '~/core/email/send-email';
+import getSupabaseServerComponentClient from '~/core/supabase/server-component-client';
+import renderCallbackRequestedEmail from '~/lib/emails/callback-requested';
+
+interface CallbackRequestedPayload {
+  accountId: string;
+  lineName: string;
+  callbackAt: string;
+  callbackAtLocal: string;
+  scheduleUrl: string;
+}
+
+function validateWebhookSecret(request: Request): NextResponse | null {
+  const expectedSecret = process.env.ULTAURA_INTERNAL_API_SECRET;
+  const providedSecret = request.headers.get('x-webhook-secret');
+
+  if (!expectedSecret) {
+    return NextResponse.json({ error: 'Server misconfigured' }, { status: 500 });
+  }
+
+  if (!providedSecret) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const providedBuffer = Buffer.from(providedSecret, 'utf8');
+  const expectedBuffer = Buffer.from(expectedSecret, 'utf8');
+
+  if (
+    providedBuffer.length !== expectedBuffer.length ||
+    !crypto.timingSafeEqual(providedBuffer, expectedBuffer)
+  ) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return null;
+}
+
+function buildTextAlert(payload: CallbackRequestedPayload): string {
+  return [
+    `${payload.lineName} asked for a callback`,
+    '',
+    `${payload.lineName} called Ultaura but we couldn't take the call, so they asked us to call them back.`,
+    '',
+    `We'll call them back on ${payload.callbackAtLocal}.`,
+    '',
+    `View call schedule: ${payload.scheduleUrl}`,
+  ].join('\n');
+}
+
+export async function POST(request: Request) {
+  const unauthorizedResponse = validateWebhookSecret(request);
+  if (unauthorizedResponse) {
+    return unauthorizedResponse;
+  }
+
+  const body = await request.json().catch(() => null);
+  const payload = body as CallbackRequestedPayload | null;
+
+  if (!payload?.accountId || !payload?.lineName || !payload?.callbackAtLocal || !payload?.scheduleUrl) {
+    return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+  }
+
+  const emailFrom = process.env.EMAIL_SENDER;
+  if (!emailFrom) {
+    return NextResponse.json({ error: 'Missing EMAIL_SENDER configuration' }, { status: 500 });
+  }
+
+  const supabase = getSupabaseServerComponentClient({ admin: true });
+  const { data: account, error: accountError } = await supabase
+    .from('ultaura_accounts')
+    .select('billing_email')
+    .eq('id', payload.accountId)
+    .single();
+
+  if (accountError || !account?.billing_email) {
+    return NextResponse.json({ error: 'Missing billing email' }, { status: 400 });
+  }
+
+  const subject = `${payload.lineName} asked for a callback`;
+  const html = renderCallbackRequestedEmail({
+    lineName: payload.lineName,
+    callbackAtLocal: payload.callbackAtLocal,
+    scheduleUrl: payload.scheduleUrl,
+  });
+  const text = buildTextAlert(payload);
+
+  try {
+    await sendEmail({
+      from: emailFrom,
+      to: account.billing_email,
+      subject,
+      html,
+      text,
+    });
+  } catch (error) {
+    return NextResponse.json({ error: 'Failed to send callback request email' }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true });
+}
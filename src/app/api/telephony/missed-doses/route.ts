@@ -0,0 +1,113 @@
+import crypto from 'crypto';
+import { NextResponse } from 'next/server';
+import sendEmail from '~/core/email/send-email';
+import getSupabaseServerComponentClient from '~/core/supabase/server-component-client';
+import renderMissedDosesAlertEmail from '~/lib/emails/missed-doses-alert';
+
+interface MissedDosesAlertPayload {
+  lineId: string;
+  accountId: string;
+  lineName: string;
+  reminderMessage: string | null;
+  consecutiveMissedCount: number;
+  lastMissedAt: string;
+  dashboardUrl: string;
+  settingsUrl: string;
+}
+
+function validateWebhookSecret(request: Request): NextResponse | null {
+  const expectedSecret = process.env.ULTAURA_INTERNAL_API_SECRET;
+  const providedSecret = request.headers.get('x-webhook-secret');
+
+  if (!expectedSecret) {
+    return NextResponse.json({ error: 'Server misconfigured' }, { status: 500 });
+  }
+
+  if (!providedSecret) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const providedBuffer = Buffer.from(providedSecret, 'utf8');
+  const expectedBuffer = Buffer.from(expectedSecret, 'utf8');
+
+  if (
+    providedBuffer.length !== expectedBuffer.length ||
+    !crypto.timingSafeEqual(providedBuffer, expectedBuffer)
+  ) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return null;
+}
+
+function buildTextAlert(payload: MissedDosesAlertPayload): string {
+  return [
+    `Missed doses for ${payload.lineName}`,
+    '',
+    `${payload.lineName} has not confirmed ${payload.consecutiveMissedCount} reminders in a row.`,
+    ...(payload.reminderMessage ? ['', `Reminder: "${payload.reminderMessage}"`] : []),
+    '',
+    `Last missed: ${payload.lastMissedAt}`,
+    '',
+    'What you can do:',
+    '- Give them a call to check in',
+    '- Review their confirmation history in your dashboard',
+    '',
+    `View reminders: ${payload.dashboardUrl}`,
+    `Line settings: ${payload.settingsUrl}`,
+  ].join('\n');
+}
+
+export async function POST(request: Request) {
+  const unauthorizedResponse = validateWebhookSecret(request);
+  if (unauthorizedResponse) {
+    return unauthorizedResponse;
+  }
+
+  const body = await request.json().catch(() => null);
+  const payload = body as MissedDosesAlertPayload | null;
+
+  if (!payload?.accountId || !payload?.lineName || !payload?.dashboardUrl || !payload?.settingsUrl) {
+    return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+  }
+
+  const emailFrom = process.env.EMAIL_SENDER;
+  if (!emailFrom) {
+    return NextResponse.json({ error: 'Missing EMAIL_SENDER configuration' }, { status: 500 });
+  }
+
+  const supabase = getSupabaseServerComponentClient({ admin: true });
+  const { data: account, error: accountError } = await supabase
+    .from('ultaura_accounts')
+    .select('billing_email')
+    .eq('id', payload.accountId)
+    .single();
+
+  if (accountError || !account?.billing_email) {
+    return NextResponse.json({ error: 'Missing billing email' }, { status: 400 });
+  }
+
+  const subject = `Missed doses for ${payload.lineName}`;
+  const html = renderMissedDosesAlertEmail({
+    lineName: payload.lineName,
+    reminderMessage: payload.reminderMessage,
+    consecutiveMissedCount: payload.consecutiveMissedCount,
+    dashboardUrl: payload.dashboardUrl,
+    settingsUrl: payload.settingsUrl,
+  });
+  const text = buildTextAlert(payload);
+
+  try {
+    await sendEmail({
+      from: emailFrom,
+      to: account.billing_email,
+      subject,
+      html,
+      text,
+    });
+  } catch (error) {
+    return NextResponse.json({ error: 'Failed to send missed dose alert email' }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true });
+}
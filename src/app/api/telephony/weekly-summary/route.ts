@@ -70,6 +70,11 @@ function buildTextSummary(summary: WeeklySummaryData): string {
     summary.needsFollowUp
       ? `Follow-up suggested: ${summary.followUpReasons.join(', ')}`
       : null,
+    summary.openFollowUps.length > 0
+      ? `Ultaura will ask about: ${summary.openFollowUps
+          .map((followUp) => (followUp.dueDate ? `${followUp.label} (${followUp.dueDate})` : followUp.label))
+          .join('; ')}`
+      : null,
     '',
     'These insights are generated by AI based on conversation patterns and are not medical, clinical, or professional advice. Ultaura is not an emergency service. If you believe there is immediate danger, contact local emergency services (911 in the US).',
     '',
@@ -19,12 +19,17 @@ import {
   MessageCircle,
   Bell,
   ChevronRight,
+  ShieldAlert,
+  Brain,
+  CalendarClock,
+  Newspaper,
 } from 'lucide-react';
-import type { LineRow, UsageSummary, CallSessionRow } from '~/lib/ultaura/types';
+import type { LineRow, UsageSummary, CallSessionRow, CallPreviewSummary } from '~/lib/ultaura/types';
 import { updateLine, deleteLine } from '~/lib/ultaura/lines';
 import { initiateTestCall } from '~/lib/ultaura/usage';
 import { formatTime } from '~/lib/ultaura/constants';
 import { CallActivityList } from './components/CallActivityList';
+import { CallPreviewList } from './components/CallPreviewList';
 import { ConfirmationDialog } from '~/core/ui/ConfirmationDialog';
 
 const MAX_INTEREST_TOPICS = 5;
@@ -59,8 +64,10 @@ interface LineDetailClientProps {
   line: LineRow;
   usage: UsageSummary | null;
   callSessions: CallSessionRow[];
+  callPreviews: CallPreviewSummary[];
   activeSchedulesCount: number;
   pendingRemindersCount: number;
+  pendingSafetyAlertsCount: number;
   isReadOnly?: boolean;
   isTrialActive?: boolean;
 }
@@ -69,8 +76,10 @@ export function LineDetailClient({
   line,
   usage,
   callSessions,
+  callPreviews,
   activeSchedulesCount,
   pendingRemindersCount,
+  pendingSafetyAlertsCount,
   isReadOnly = false,
   isTrialActive = false,
 }: LineDetailClientProps) {
@@ -516,7 +525,77 @@ export function LineDetailClient({
             </div>
             <ChevronRight className="w-5 h-5 text-muted-foreground group-hover:text-foreground transition-colors" />
           </Link>
+
+          <Link
+            href={`/dashboard/lines/${line.short_id}/safety`}
+            className="flex items-center justify-between p-4 rounded-lg border border-border bg-background hover:bg-muted transition-colors group"
+          >
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
+                <ShieldAlert className="w-5 h-5 text-primary" />
+              </div>
+              <div>
+                <p className="font-medium text-foreground">Safety Alerts</p>
+                <p className="text-sm text-muted-foreground">
+                  {pendingSafetyAlertsCount === 0
+                    ? 'No alerts awaiting a response'
+                    : `${pendingSafetyAlertsCount} alert${pendingSafetyAlertsCount !== 1 ? 's' : ''} awaiting a response`}
+                </p>
+              </div>
+            </div>
+            <ChevronRight className="w-5 h-5 text-muted-foreground group-hover:text-foreground transition-colors" />
+          </Link>
+
+          <Link
+            href={`/dashboard/lines/${line.short_id}/memories`}
+            className="flex items-center justify-between p-4 rounded-lg border border-border bg-background hover:bg-muted transition-colors group"
+          >
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
+                <Brain className="w-5 h-5 text-primary" />
+              </div>
+              <div>
+                <p className="font-medium text-foreground">What Ultaura Remembers</p>
+                <p className="text-sm text-muted-foreground">
+                  Review, correct, or add details Ultaura uses in conversation
+                </p>
+              </div>
+            </div>
+            <ChevronRight className="w-5 h-5 text-muted-foreground group-hover:text-foreground transition-colors" />
+          </Link>
+
+          <Link
+            href={`/dashboard/lines/${line.short_id}/briefing`}
+            className="flex items-center justify-between p-4 rounded-lg border border-border bg-background hover:bg-muted transition-colors group"
+          >
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
+                <Newspaper className="w-5 h-5 text-primary" />
+              </div>
+              <div>
+                <p className="font-medium text-foreground">Local News &amp; Events</p>
+                <p className="text-sm text-muted-foreground">
+                  {line.briefing_region
+                    ? `Sharing happenings from ${line.briefing_region}`
+                    : 'Share local happenings Ultaura can bring up'}
+                </p>
+              </div>
+            </div>
+            <ChevronRight className="w-5 h-5 text-muted-foreground group-hover:text-foreground transition-colors" />
+          </Link>
+        </div>
+      </div>
+
+      {/* Next Call Plans Card */}
+      <div className="bg-card rounded-xl border border-border p-6 mt-6">
+        <div className="flex items-center gap-2 mb-6">
+          <CalendarClock className="w-5 h-5 text-muted-foreground" />
+          <h2 className="font-semibold text-foreground">Next Call Plans</h2>
+          {callPreviews.some((preview) => preview.unfulfilled) && (
+            <span className="ml-auto text-sm text-destructive">Some plans were not followed through</span>
+          )}
         </div>
+        <CallPreviewList previews={callPreviews} />
       </div>
 
       {/* Call History Card */}
@@ -0,0 +1,425 @@
+'use client';
+
+import { useState, useEffect, useCallback, ChangeEvent } from 'react';
+import { Button } from '~/components/ui/button';
+import { Input } from '~/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '~/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '~/core/ui/Select';
+import { Trash2, Plus, CheckCircle, Circle } from 'lucide-react';
+import {
+  getContentFeeds,
+  getLocalContentItems,
+  getRecentBriefingItems,
+  addContentFeed,
+  removeContentFeed,
+  addLocalContentItem,
+  removeLocalContentItem,
+} from '~/lib/ultaura/briefings';
+import { updateLine } from '~/lib/ultaura/lines';
+import type { BriefingItem, ContentFeed, ContentItem } from '~/lib/ultaura/types';
+import { toast } from 'sonner';
+
+interface BriefingClientProps {
+  line: {
+    id: string;
+    shortId: string;
+    briefingRegion: string | null;
+  };
+  regions: string[];
+  disabled?: boolean;
+}
+
+const NO_REGION = 'none';
+
+const FEED_TYPE_LABELS: Record<ContentFeed['sourceType'], string> = {
+  rss: 'RSS',
+  json: 'JSON Feed',
+  local_file: 'Local file',
+};
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+// Briefing items grouped by call, newest call first
+function groupByCall(items: BriefingItem[]): { callSessionId: string; date: string; items: BriefingItem[] }[] {
+  const groups: { callSessionId: string; date: string; items: BriefingItem[] }[] = [];
+
+  for (const item of items) {
+    const group = groups.find((candidate) => candidate.callSessionId === item.callSessionId);
+    if (group) {
+      group.items.push(item);
+    } else {
+      groups.push({ callSessionId: item.callSessionId, date: item.briefingDate, items: [item] });
+    }
+  }
+
+  return groups;
+}
+
+export function BriefingClient({ line, regions, disabled = false }: BriefingClientProps) {
+  const [region, setRegion] = useState(line.briefingRegion ?? NO_REGION);
+  const [feeds, setFeeds] = useState<ContentFeed[]>([]);
+  const [localItems, setLocalItems] = useState<ContentItem[]>([]);
+  const [briefings, setBriefings] = useState<BriefingItem[]>([]);
+  const [isAddingItem, setIsAddingItem] = useState(false);
+  const [isAddingFeed, setIsAddingFeed] = useState(false);
+  const [newItem, setNewItem] = useState({ title: '', summary: '', eventDate: '' });
+  const [newFeed, setNewFeed] = useState<{ name: string; sourceType: 'rss' | 'json'; url: string }>({
+    name: '',
+    sourceType: 'rss',
+    url: '',
+  });
+
+  const loadBriefingData = useCallback(async () => {
+    const [feedData, itemData, briefingData] = await Promise.all([
+      getContentFeeds(line.id),
+      getLocalContentItems(line.id),
+      getRecentBriefingItems(line.id),
+    ]);
+    setFeeds(feedData);
+    setLocalItems(itemData);
+    setBriefings(briefingData);
+  }, [line.id]);
+
+  useEffect(() => {
+    loadBriefingData();
+  }, [loadBriefingData]);
+
+  async function handleRegionChange(value: string) {
+    if (disabled) return;
+
+    const previous = region;
+    setRegion(value);
+
+    try {
+      const result = await updateLine(line.id, { briefingRegion: value === NO_REGION ? null : value });
+      if (!result.success) {
+        setRegion(previous);
+        toast.error(result.error.message || 'Failed to update region');
+        return;
+      }
+
+      toast.success('Region updated');
+    } catch (error) {
+      console.error(error);
+      setRegion(previous);
+      toast.error('Failed to update region');
+    }
+  }
+
+  async function handleAddItem(e: React.FormEvent) {
+    e.preventDefault();
+    if (disabled) return;
+
+    try {
+      const result = await addLocalContentItem(line.id, {
+        title: newItem.title,
+        summary: newItem.summary || undefined,
+        eventDate: newItem.eventDate || undefined,
+      });
+
+      if (!result.success) {
+        toast.error(result.error.message || 'Failed to add item');
+        return;
+      }
+
+      toast.success('Item added');
+      setNewItem({ title: '', summary: '', eventDate: '' });
+      setIsAddingItem(false);
+      loadBriefingData();
+    } catch (error) {
+      console.error(error);
+      toast.error('Failed to add item');
+    }
+  }
+
+  async function handleRemoveItem(itemId: string) {
+    if (disabled) return;
+
+    try {
+      const result = await removeLocalContentItem(line.id, itemId);
+      if (!result.success) {
+        toast.error(result.error.message || 'Failed to remove item');
+        return;
+      }
+
+      toast.success('Item removed');
+      loadBriefingData();
+    } catch (error) {
+      console.error(error);
+      toast.error('Failed to remove item');
+    }
+  }
+
+  async function handleAddFeed(e: React.FormEvent) {
+    e.preventDefault();
+    if (disabled) return;
+
+    try {
+      const result = await addContentFeed(line.id, newFeed);
+      if (!result.success) {
+        toast.error(result.error.message || 'Failed to add feed');
+        return;
+      }
+
+      toast.success('Feed added. New stories will appear within the hour.');
+      setNewFeed({ name: '', sourceType: 'rss', url: '' });
+      setIsAddingFeed(false);
+      loadBriefingData();
+    } catch (error) {
+      console.error(error);
+      toast.error('Failed to add feed');
+    }
+  }
+
+  async function handleRemoveFeed(feedId: string) {
+    if (disabled) return;
+
+    try {
+      const result = await removeContentFeed(line.id, feedId);
+      if (!result.success) {
+        toast.error(result.error.message || 'Failed to remove feed');
+        return;
+      }
+
+      toast.success('Feed removed');
+      loadBriefingData();
+    } catch (error) {
+      console.error(error);
+      toast.error('Failed to remove feed');
+    }
+  }
+
+  // Keep the saved region selectable even if its feeds have since been removed
+  const regionOptions = line.briefingRegion && !regions.includes(line.briefingRegion)
+    ? [line.briefingRegion, ...regions]
+    : regions;
+
+  return (
+    <div className="space-y-6 pb-12">
+      <p className="text-muted-foreground">
+        Each call, Ultaura may bring up a few local happenings or news stories. Anything touching
+        the topics to avoid for this line is left out.
+      </p>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Region</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Include community news and events shared for an area.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <Select value={region} onValueChange={handleRegionChange} disabled={disabled}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_REGION}>No region</SelectItem>
+              {regionOptions.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center gap-4">
+            <div>
+              <CardTitle>From the Family</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Church events, team results, or anything happening nearby.
+              </p>
+            </div>
+            <Button onClick={() => setIsAddingItem(true)} disabled={disabled}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Item
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isAddingItem && !disabled && (
+            <form onSubmit={handleAddItem} className="space-y-4">
+              <Input
+                placeholder="What's happening? (e.g., Pancake breakfast at St. Mark's)"
+                value={newItem.title}
+                maxLength={140}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => setNewItem({ ...newItem, title: e.target.value })}
+                required
+              />
+              <Input
+                placeholder="Details (optional)"
+                value={newItem.summary}
+                maxLength={500}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => setNewItem({ ...newItem, summary: e.target.value })}
+              />
+              <div className="space-y-1">
+                <label className="text-sm text-muted-foreground">Event date (optional)</label>
+                <Input
+                  type="date"
+                  value={newItem.eventDate}
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => setNewItem({ ...newItem, eventDate: e.target.value })}
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button type="submit">Add</Button>
+                <Button type="button" variant="outline" onClick={() => setIsAddingItem(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          )}
+
+          {localItems.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing added yet.</p>
+          ) : (
+            <div className="divide-y divide-border">
+              {localItems.map((item) => (
+                <div key={item.id} className="flex items-start justify-between gap-4 py-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-foreground">{item.title}</p>
+                    {item.summary && (
+                      <p className="text-sm text-muted-foreground break-words">{item.summary}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      Added {formatDate(item.publishedAt)}
+                      {item.expiresAt && <> &middot; Until {formatDate(item.expiresAt)}</>}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => handleRemoveItem(item.id)} disabled={disabled}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center gap-4">
+            <div>
+              <CardTitle>News Feeds</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                A local paper, team or parish site that publishes an RSS or JSON feed.
+              </p>
+            </div>
+            <Button onClick={() => setIsAddingFeed(true)} disabled={disabled}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Feed
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isAddingFeed && !disabled && (
+            <form onSubmit={handleAddFeed} className="space-y-4">
+              <Input
+                placeholder="Name (e.g., Maple Grove Gazette)"
+                value={newFeed.name}
+                maxLength={100}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => setNewFeed({ ...newFeed, name: e.target.value })}
+                required
+              />
+              <Select
+                value={newFeed.sourceType}
+                onValueChange={(sourceType) => setNewFeed({ ...newFeed, sourceType: sourceType as 'rss' | 'json' })}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="rss">{FEED_TYPE_LABELS.rss}</SelectItem>
+                  <SelectItem value="json">{FEED_TYPE_LABELS.json}</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                type="url"
+                placeholder="Feed URL"
+                value={newFeed.url}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => setNewFeed({ ...newFeed, url: e.target.value })}
+                required
+              />
+              <div className="flex gap-2">
+                <Button type="submit">Add</Button>
+                <Button type="button" variant="outline" onClick={() => setIsAddingFeed(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          )}
+
+          {feeds.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No feeds yet.</p>
+          ) : (
+            <div className="divide-y divide-border">
+              {feeds.map((feed) => (
+                <div key={feed.id} className="flex items-start justify-between gap-4 py-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-foreground">
+                      {feed.name}
+                      <span className="ml-2 text-xs font-normal text-muted-foreground">
+                        {FEED_TYPE_LABELS[feed.sourceType]}
+                      </span>
+                    </p>
+                    <p className="text-sm text-muted-foreground truncate">{feed.url}</p>
+                    {feed.lastError ? (
+                      <p className="text-xs text-destructive">Could not read this feed: {feed.lastError}</p>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">
+                        {feed.lastFetchedAt ? `Checked ${formatDate(feed.lastFetchedAt)}` : 'Not checked yet'}
+                      </p>
+                    )}
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => handleRemoveFeed(feed.id)} disabled={disabled}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Briefings</CardTitle>
+          <p className="text-sm text-muted-foreground">What was ready for each call, and what came up.</p>
+        </CardHeader>
+        <CardContent>
+          {briefings.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No briefings yet.</p>
+          ) : (
+            <div className="divide-y divide-border">
+              {groupByCall(briefings).map((group) => (
+                <div key={group.callSessionId} className="py-3 space-y-2">
+                  <p className="text-xs font-medium text-muted-foreground">
+                    {new Date(`${group.date}T12:00:00`).toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' })}
+                  </p>
+                  {group.items.map((item) => (
+                    <div key={item.id} className="flex items-center gap-2 text-sm">
+                      {item.mentioned ? (
+                        <CheckCircle className="h-4 w-4 text-success flex-shrink-0" />
+                      ) : (
+                        <Circle className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                      )}
+                      <span className="flex-1 min-w-0 truncate text-foreground">{item.title}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {item.mentioned ? 'Mentioned' : 'Not mentioned'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+'use client';
+
+import { CalendarClock, CheckCircle, Clock, XCircle } from 'lucide-react';
+import type { CallPreviewDelivery, CallPreviewSummary } from '~/lib/ultaura/types';
+
+interface CallPreviewListProps {
+  previews: CallPreviewSummary[];
+}
+
+const DELIVERY_LABELS: Record<CallPreviewDelivery, string> = {
+  delivered: 'Talked about',
+  upcoming: 'Planned for the next call',
+  overdue: 'Next call is late',
+  missed: 'Not brought up yet',
+  expired: 'Never brought up',
+};
+
+export function CallPreviewList({ previews }: CallPreviewListProps) {
+  if (previews.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <CalendarClock className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+        <p className="text-muted-foreground">No plans yet</p>
+        <p className="text-sm text-muted-foreground mt-1">
+          Near the end of a call, Ultaura offers a few topics for next time
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="divide-y divide-border">
+      {previews.map((preview) => (
+        <CallPreviewItem key={preview.id} preview={preview} />
+      ))}
+    </div>
+  );
+}
+
+function CallPreviewItem({ preview }: { preview: CallPreviewSummary }) {
+  const formatDate = (dateStr: string) =>
+    new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+  const getStatusLabel = () => {
+    if (preview.delivery === 'delivered') {
+      const when = preview.usedAt ? ` on ${formatDate(preview.usedAt)}` : '';
+      if (preview.followThroughResponse === 'declined') return `Offered${when}, not today`;
+      if (preview.followThroughResponse === 'redirected') return `Started on it${when}`;
+      return `${DELIVERY_LABELS.delivered}${when}`;
+    }
+
+    if (preview.delivery === 'missed') {
+      return `${DELIVERY_LABELS.missed} (${preview.missedCalls} ${preview.missedCalls === 1 ? 'call' : 'calls'})`;
+    }
+
+    return DELIVERY_LABELS[preview.delivery];
+  };
+
+  const otherOptions = preview.offeredTopics.filter((topic) => topic !== preview.topicDisplay);
+
+  return (
+    <div className="flex items-center gap-4 py-3">
+      <div className="flex-1 min-w-0">
+        <p className="font-medium text-foreground truncate">{preview.topicDisplay}</p>
+        <p className="text-sm text-muted-foreground truncate">
+          Chosen {formatDate(preview.createdAt)} &middot; {getStatusLabel()}
+          {otherOptions.length > 0 && (
+            <>
+              {' '}
+              &middot; Also offered: {otherOptions.join(', ')}
+            </>
+          )}
+        </p>
+      </div>
+      <div className="flex items-center gap-2">
+        {preview.delivery === 'delivered' && <CheckCircle className="w-5 h-5 text-success flex-shrink-0" />}
+        {preview.delivery === 'upcoming' && <Clock className="w-5 h-5 text-muted-foreground flex-shrink-0" />}
+        {preview.unfulfilled && <XCircle className="w-5 h-5 text-destructive flex-shrink-0" />}
+      </div>
+    </div>
+  );
+}
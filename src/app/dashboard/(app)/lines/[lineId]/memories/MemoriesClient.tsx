@@ -0,0 +1,376 @@
+'use client';
+
+import { useState, useEffect, useCallback, ChangeEvent } from 'react';
+import { Button } from '~/components/ui/button';
+import { Input } from '~/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '~/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '~/core/ui/Select';
+import { Edit2, Trash2, Plus, Check, X, History } from 'lucide-react';
+import {
+  getLineMemories,
+  getLineMemoryHistory,
+  getLineMemoryUpdates,
+  correctMemory,
+  deactivateLineMemory,
+  addCaregiverMemory,
+  resolveLineMemoryUpdate,
+} from '~/lib/ultaura/memories';
+import type { Memory, MemoryTimelineEntry, MemoryType, MemoryUpdateProposal } from '~/lib/ultaura/types';
+import { toast } from 'sonner';
+
+interface MemoriesClientProps {
+  line: {
+    id: string;
+    shortId: string;
+  };
+  disabled?: boolean;
+}
+
+const MEMORY_TYPE_SECTIONS: { type: MemoryType; label: string; description: string }[] = [
+  { type: 'fact', label: 'Facts', description: 'People, places, and details about their life' },
+  { type: 'preference', label: 'Preferences', description: 'Likes, dislikes, and how they like to talk' },
+  { type: 'follow_up', label: 'Follow-ups', description: 'Things to ask about on a future call' },
+  { type: 'wellbeing', label: 'Wellbeing', description: 'How they have been feeling' },
+  { type: 'context', label: 'Context', description: 'Current circumstances and routines' },
+  { type: 'history', label: 'Life History', description: 'Stories and memories they have shared' },
+];
+
+function formatKey(key: string): string {
+  const words = key.replace(/_/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.join(', ');
+  return JSON.stringify(value);
+}
+
+const TIMELINE_STATUS_LABELS: Record<MemoryTimelineEntry['status'], string> = {
+  current: 'Current',
+  superseded: 'Replaced',
+  forgotten: 'Forgotten',
+};
+
+export function MemoriesClient({ line, disabled = false }: MemoriesClientProps) {
+  const [memories, setMemories] = useState<Memory[]>([]);
+  const [updates, setUpdates] = useState<MemoryUpdateProposal[]>([]);
+  const [history, setHistory] = useState<{ key: string; entries: MemoryTimelineEntry[] } | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<{ id: string; value: string } | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [newMemory, setNewMemory] = useState<{ type: MemoryType; label: string; value: string }>({
+    type: 'fact',
+    label: '',
+    value: '',
+  });
+
+  const loadMemories = useCallback(async () => {
+    const [data, pendingUpdates] = await Promise.all([
+      getLineMemories(line.id),
+      getLineMemoryUpdates(line.id),
+    ]);
+    setMemories(data);
+    setUpdates(pendingUpdates);
+    setHistory(null);
+    setIsLoading(false);
+  }, [line.id]);
+
+  useEffect(() => {
+    loadMemories();
+  }, [loadMemories]);
+
+  async function handleSaveCorrection() {
+    if (disabled || !editing) return;
+
+    try {
+      const result = await correctMemory(line.id, editing.id, editing.value);
+      if (!result.success) {
+        toast.error(result.error.message || 'Failed to update memory');
+        return;
+      }
+
+      toast.success('Memory updated');
+      setEditing(null);
+      loadMemories();
+    } catch (error) {
+      console.error(error);
+      toast.error('Failed to update memory');
+    }
+  }
+
+  async function handleDeactivate(memoryId: string) {
+    if (disabled) return;
+
+    try {
+      const result = await deactivateLineMemory(line.id, memoryId);
+      if (!result.success) {
+        toast.error(result.error.message || 'Failed to remove memory');
+        return;
+      }
+
+      toast.success('Ultaura will no longer use this memory');
+      loadMemories();
+    } catch (error) {
+      console.error(error);
+      toast.error('Failed to remove memory');
+    }
+  }
+
+  async function handleResolveUpdate(updateId: string, confirmed: boolean) {
+    if (disabled) return;
+
+    try {
+      const result = await resolveLineMemoryUpdate(line.id, updateId, confirmed);
+      if (!result.success) {
+        toast.error(result.error.message || 'Failed to resolve update');
+        return;
+      }
+
+      toast.success(confirmed ? 'Memory updated' : 'Update dismissed');
+      loadMemories();
+    } catch (error) {
+      console.error(error);
+      toast.error('Failed to resolve update');
+    }
+  }
+
+  async function handleToggleHistory(key: string) {
+    if (history?.key === key) {
+      setHistory(null);
+      return;
+    }
+
+    const entries = await getLineMemoryHistory(line.id, key);
+    setHistory({ key, entries });
+  }
+
+  async function handleAddMemory(e: React.FormEvent) {
+    e.preventDefault();
+    if (disabled) return;
+
+    try {
+      const result = await addCaregiverMemory(line.id, newMemory);
+      if (!result.success) {
+        toast.error(result.error.message || 'Failed to add memory');
+        return;
+      }
+
+      toast.success('Memory added');
+      setNewMemory({ type: 'fact', label: '', value: '' });
+      setIsAdding(false);
+      loadMemories();
+    } catch (error) {
+      console.error(error);
+      toast.error('Failed to add memory');
+    }
+  }
+
+  const sections = MEMORY_TYPE_SECTIONS
+    .map((section) => ({
+      ...section,
+      memories: memories.filter((memory) => memory.type === section.type),
+    }))
+    .filter((section) => section.memories.length > 0);
+
+  return (
+    <div className="space-y-6 pb-12">
+      <div className="flex justify-between items-center gap-4">
+        <p className="text-muted-foreground">
+          These are the details Ultaura has been allowed to share with you. Correct anything that
+          is wrong, remove what it should forget, or add something it should know.
+        </p>
+        <Button onClick={() => setIsAdding(true)} disabled={disabled}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Memory
+        </Button>
+      </div>
+
+      {isAdding && !disabled && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Add a Memory</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleAddMemory} className="space-y-4">
+              <Select
+                value={newMemory.type}
+                onValueChange={(type) => setNewMemory({ ...newMemory, type: type as MemoryType })}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MEMORY_TYPE_SECTIONS.map((section) => (
+                    <SelectItem key={section.type} value={section.type}>
+                      {section.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                placeholder="What is it about? (e.g., Favorite song)"
+                value={newMemory.label}
+                maxLength={60}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => setNewMemory({ ...newMemory, label: e.target.value })}
+                required
+              />
+              <Input
+                placeholder="What should Ultaura remember? (e.g., Moon River)"
+                value={newMemory.value}
+                maxLength={500}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => setNewMemory({ ...newMemory, value: e.target.value })}
+                required
+              />
+              <div className="flex gap-2">
+                <Button type="submit">Add</Button>
+                <Button type="button" variant="outline" onClick={() => setIsAdding(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {updates.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Possible Updates</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Something said on a recent call doesn&apos;t match what Ultaura remembers. Confirm the
+              new information or dismiss it. Otherwise Ultaura will check on the next call.
+            </p>
+          </CardHeader>
+          <CardContent className="divide-y divide-border">
+            {updates.map((update) => (
+              <div key={update.id} className="flex items-start justify-between gap-4 py-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-foreground">{formatKey(update.key)}</p>
+                  <p className="text-sm text-muted-foreground break-words">
+                    Remembered: {formatValue(update.currentValue)}
+                  </p>
+                  <p className="text-sm text-foreground break-words">
+                    Heard on a recent call: {formatValue(update.proposedValue)}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => handleResolveUpdate(update.id, true)} disabled={disabled}>
+                    <Check className="h-4 w-4 mr-1" />
+                    Confirm
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleResolveUpdate(update.id, false)}
+                    disabled={disabled}
+                  >
+                    Dismiss
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {sections.map((section) => (
+        <Card key={section.type}>
+          <CardHeader>
+            <CardTitle>{section.label}</CardTitle>
+            <p className="text-sm text-muted-foreground">{section.description}</p>
+          </CardHeader>
+          <CardContent className="divide-y divide-border">
+            {section.memories.map((memory) => (
+              <div key={memory.id} className="flex items-start justify-between gap-4 py-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-foreground">
+                    {formatKey(memory.key)}
+                    {memory.source === 'caregiver_seed' && (
+                      <span className="ml-2 text-xs font-normal text-muted-foreground">Added by family</span>
+                    )}
+                    {memory.type === 'follow_up' && (
+                      <span className="ml-2 text-xs font-normal text-muted-foreground">
+                        {memory.resolvedAt
+                          ? 'Answered'
+                          : memory.dueAt
+                            ? `Asking from ${new Date(memory.dueAt).toLocaleDateString()}`
+                            : 'Asking on the next call'}
+                      </span>
+                    )}
+                  </p>
+                  {editing?.id === memory.id ? (
+                    <Input
+                      className="mt-2"
+                      value={editing.value}
+                      maxLength={500}
+                      autoFocus
+                      onChange={(e: ChangeEvent<HTMLInputElement>) => setEditing({ id: memory.id, value: e.target.value })}
+                    />
+                  ) : (
+                    <p className="text-sm text-muted-foreground break-words">{formatValue(memory.value)}</p>
+                  )}
+                  {history?.key === memory.key && (
+                    <ol className="mt-2 space-y-1 border-l border-border pl-3">
+                      {history.entries.map((entry) => (
+                        <li key={entry.id} className="text-xs text-muted-foreground">
+                          <span className="font-medium text-foreground">
+                            {TIMELINE_STATUS_LABELS[entry.status]}
+                          </span>
+                          {' · '}
+                          {new Date(entry.createdAt).toLocaleDateString()}
+                          {' · '}
+                          {formatValue(entry.value)}
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </div>
+                <div className="flex gap-1">
+                  {editing?.id === memory.id ? (
+                    <>
+                      <Button variant="ghost" size="icon" onClick={handleSaveCorrection} disabled={disabled}>
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => setEditing(null)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <Button variant="ghost" size="icon" onClick={() => handleToggleHistory(memory.key)}>
+                        <History className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setEditing({ id: memory.id, value: formatValue(memory.value) })}
+                        disabled={disabled}
+                      >
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDeactivate(memory.id)}
+                        disabled={disabled}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      ))}
+
+      {!isLoading && memories.length === 0 && !isAdding && (
+        <p className="text-center py-8 text-muted-foreground">
+          Nothing shared yet. Memories appear here once the caller agrees to share them with family.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { Metadata } from 'next';
+import { notFound, redirect } from 'next/navigation';
+import { getTrialInfo } from '~/lib/ultaura/accounts';
+import { getLine } from '~/lib/ultaura/lines';
+import { MemoriesClient } from './MemoriesClient';
+import { isUUID } from '~/lib/ultaura/short-id';
+import AppHeader from '../../../components/AppHeader';
+import { PageBody } from '~/core/ui/Page';
+import { TrialExpiredBanner } from '~/components/ultaura/TrialExpiredBanner';
+import { TrialStatusBadge } from '~/components/ultaura/TrialStatusBadge';
+import { PLANS } from '~/lib/ultaura/constants';
+import type { PlanId } from '~/lib/ultaura/types';
+
+export const metadata: Metadata = {
+  title: 'What Ultaura Remembers - Ultaura',
+};
+
+interface PageProps {
+  params: { lineId: string };
+}
+
+export default async function LineMemoriesPage({ params }: PageProps) {
+  const line = await getLine(params.lineId);
+
+  if (!line) {
+    notFound();
+  }
+
+  if (isUUID(params.lineId)) {
+    redirect(`/dashboard/lines/${line.short_id}/memories`);
+  }
+
+  // If not verified, redirect to verification
+  if (!line.phone_verified_at) {
+    redirect(`/dashboard/lines/${line.short_id}/verify`);
+  }
+
+  const trialInfo = await getTrialInfo(line.account_id);
+  const isTrialExpired = trialInfo?.isExpired ?? false;
+  const isTrialActive = (trialInfo?.isOnTrial ?? false) && !isTrialExpired;
+  const trialPlanId = trialInfo?.trialPlanId ?? null;
+  const trialPlanKey = (trialPlanId ?? 'free_trial') as PlanId;
+  const trialPlanName = PLANS[trialPlanKey]?.displayName ?? 'Trial';
+
+  return (
+    <>
+      <AppHeader title="What Ultaura Remembers" description={`Details Ultaura uses in conversations with ${line.display_name}`}>
+        {isTrialActive && trialInfo ? (
+          <TrialStatusBadge daysRemaining={trialInfo.daysRemaining} planName={trialPlanName} />
+        ) : null}
+      </AppHeader>
+      <PageBody>
+        <div className="space-y-6">
+          {isTrialExpired ? <TrialExpiredBanner trialPlanName={trialPlanName} /> : null}
+          <MemoriesClient line={{ id: line.id, shortId: line.short_id }} disabled={isTrialExpired} />
+        </div>
+      </PageBody>
+    </>
+  );
+}
@@ -5,6 +5,8 @@ import { getLine } from '~/lib/ultaura/lines';
 import { getSchedules } from '~/lib/ultaura/schedules';
 import { getUsageSummary, getCallSessions } from '~/lib/ultaura/usage';
 import { getReminders } from '~/lib/ultaura/reminders';
+import { getSafetyAlerts } from '~/lib/ultaura/safety';
+import { getCallPreviews } from '~/lib/ultaura/call-previews';
 import { isUUID } from '~/lib/ultaura/short-id';
 import { LineDetailClient } from './LineDetailClient';
 import AppHeader from '../../components/AppHeader';
@@ -51,10 +53,12 @@ export default async function LineDetailPage({ params }: PageProps) {
     redirect(`/dashboard/lines/${line.short_id}/verify`);
   }
 
-  const [usage, callSessions, counts] = await Promise.all([
+  const [usage, callSessions, counts, safetyAlerts, callPreviews] = await Promise.all([
     getUsageSummary(line.account_id),
     getCallSessions(line.id, 10),
     getScheduleAndReminderCounts(line.id),
+    getSafetyAlerts(line.id),
+    getCallPreviews(line.id),
   ]);
 
   const trialInfo = await getTrialInfo(line.account_id);
@@ -80,8 +84,10 @@ export default async function LineDetailPage({ params }: PageProps) {
             line={line}
             usage={usage}
             callSessions={callSessions}
+            callPreviews={callPreviews}
             activeSchedulesCount={counts.activeSchedulesCount}
             pendingRemindersCount={counts.pendingRemindersCount}
+            pendingSafetyAlertsCount={safetyAlerts.filter((alert) => alert.escalationStatus === 'pending').length}
             isReadOnly={isTrialExpired}
             isTrialActive={isTrialActive}
           />
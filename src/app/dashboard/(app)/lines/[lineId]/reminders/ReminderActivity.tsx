@@ -15,6 +15,8 @@ import {
   Plus,
   ChevronDown,
   ChevronUp,
+  MessageSquare,
+  Voicemail,
 } from 'lucide-react';
 import type { ReminderEventRow } from '~/lib/ultaura/types';
 import { getLineReminderEvents } from '~/lib/ultaura/reminder-events';
@@ -30,12 +32,20 @@ const EVENT_CONFIG: Record<string, { icon: typeof Clock; color: string; label: s
   delivered: { icon: CheckCircle, color: 'text-green-600', label: 'Delivered' },
   no_answer: { icon: PhoneMissed, color: 'text-yellow-600', label: 'No Answer' },
   failed: { icon: AlertTriangle, color: 'text-red-600', label: 'Failed' },
+  acknowledged: { icon: CheckCircle, color: 'text-green-600', label: 'Marked Done' },
+  confirmed: { icon: CheckCircle, color: 'text-green-600', label: 'Dose Confirmed' },
+  declined: { icon: X, color: 'text-red-600', label: 'Declined' },
+  dose_missed: { icon: PhoneMissed, color: 'text-red-600', label: 'Dose Missed' },
+  sms_sent: { icon: MessageSquare, color: 'text-green-600', label: 'Texted' },
+  voicemail_dropped: { icon: Voicemail, color: 'text-green-600', label: 'Recorded Message Played' },
+  sms_fallback_sent: { icon: MessageSquare, color: 'text-blue-600', label: 'Texted After Missed Call' },
 };
 
 const TRIGGER_LABELS: Record<string, string> = {
   dashboard: 'via Dashboard',
   voice: 'via Phone',
   system: 'by System',
+  sms: 'via Text',
 };
 
 interface ReminderActivityProps {
@@ -85,9 +95,17 @@ function formatEventDetails(event: ReminderEventRow): string | null {
         if (oldVals.message !== undefined) changes.push('message');
         if (oldVals.dueAt !== undefined) changes.push('time');
         if (oldVals.isRecurring !== undefined) changes.push('recurrence');
+        if (oldVals.excludedDates !== undefined) changes.push('skip dates');
+        if (oldVals.deliveryMethod !== undefined) changes.push('delivery');
+        if (oldVals.requiresConfirmation !== undefined) changes.push('confirmation');
       }
       if (changes.length > 0) return `(${changes.join(', ')})`;
       break;
+    case 'failed':
+      if (typeof meta.reason === 'string' && meta.reason.includes('rate_limited')) {
+        return '(text limit reached)';
+      }
+      break;
     case 'skipped':
       if (meta.nextDueAt) {
         const nextDate = new Date(meta.nextDueAt as string);
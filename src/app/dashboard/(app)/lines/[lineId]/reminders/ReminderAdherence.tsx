@@ -0,0 +1,99 @@
+'use client';
+
+import { AlertTriangle, CheckCircle, Clock, PhoneMissed, X } from 'lucide-react';
+import type { AdherenceSummary } from '~/lib/ultaura/types';
+
+const STATUS_CONFIG: Record<string, { icon: typeof Clock; color: string; label: string }> = {
+  pending: { icon: Clock, color: 'text-muted-foreground', label: 'Waiting for an answer' },
+  will_take_later: { icon: Clock, color: 'text-blue-600', label: 'Will take later' },
+  taken: { icon: CheckCircle, color: 'text-green-600', label: 'Taken' },
+  refused: { icon: X, color: 'text-red-600', label: 'Declined' },
+  missed: { icon: PhoneMissed, color: 'text-yellow-600', label: 'No confirmation' },
+};
+
+interface ReminderAdherenceProps {
+  summary: AdherenceSummary;
+}
+
+function formatOccurrence(isoString: string): string {
+  return new Date(isoString).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+export function ReminderAdherence({ summary }: ReminderAdherenceProps) {
+  const takenPercent = summary.takenRate === null ? null : Math.round(summary.takenRate * 100);
+
+  return (
+    <div className="border border-input rounded-lg bg-card">
+      <div className="px-4 py-3 border-b border-input grid grid-cols-3 gap-4 text-center">
+        <div>
+          <p className="text-2xl font-semibold text-foreground">
+            {takenPercent === null ? '—' : `${takenPercent}%`}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            Taken ({summary.takenCount}/{summary.settledCount})
+          </p>
+        </div>
+        <div>
+          <p className="text-2xl font-semibold text-green-600">{summary.currentTakenStreak}</p>
+          <p className="text-xs text-muted-foreground">Taken in a row</p>
+        </div>
+        <div>
+          <p
+            className={`text-2xl font-semibold ${
+              summary.consecutiveMissedDoses > 0 ? 'text-red-600' : 'text-foreground'
+            }`}
+          >
+            {summary.consecutiveMissedDoses}
+          </p>
+          <p className="text-xs text-muted-foreground">Missed in a row</p>
+        </div>
+      </div>
+
+      {summary.consecutiveMissedDoses > 0 && (
+        <div className="px-4 py-2 border-b border-input text-sm text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/20 flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          The last {summary.consecutiveMissedDoses === 1 ? 'dose was' : `${summary.consecutiveMissedDoses} doses were`} not confirmed as taken.
+        </div>
+      )}
+
+      <div className="divide-y divide-input">
+        {summary.history.slice(0, 10).map((entry) => {
+          const config = STATUS_CONFIG[entry.status] || STATUS_CONFIG.pending;
+          const Icon = config.icon;
+
+          return (
+            <div key={entry.id} className="px-4 py-3 flex items-start gap-3">
+              <div className={`mt-0.5 ${config.color}`}>
+                <Icon className="w-4 h-4" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="font-medium text-sm">{config.label}</span>
+                  {entry.followUpAttempts > 0 && (
+                    <span className="text-xs text-muted-foreground">
+                      after {entry.followUpAttempts} follow-up {entry.followUpAttempts === 1 ? 'call' : 'calls'}
+                    </span>
+                  )}
+                </div>
+                {entry.reminderMessage && (
+                  <p className="text-sm text-foreground mt-0.5 truncate">
+                    &ldquo;{entry.reminderMessage}&rdquo;
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground mt-0.5">
+                  {formatOccurrence(entry.occurrenceDueAt)}
+                </p>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import { useCallback, useEffect, useRef, useState } from 'react';
 import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { toast } from 'sonner';
-import { ArrowLeft, Bell, Plus, Clock, X, Check, AlertCircle, Repeat, SkipForward, Pause, Play, Edit2, AlarmClock } from 'lucide-react';
+import { ArrowLeft, Bell, Plus, Clock, X, Check, AlertCircle, Repeat, SkipForward, Pause, Play, Edit2, AlarmClock, ClipboardCheck, MessageSquare } from 'lucide-react';
 import { ConfirmationDialog } from '~/core/ui/ConfirmationDialog';
 import { Dialog, DialogContent, DialogDescription, DialogTitle } from '~/core/ui/Dialog';
 import {
@@ -16,9 +16,13 @@ import {
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '~/core/ui/Select';
 import { Checkbox } from '~/core/ui/Checkbox';
 import type { LineRow } from '~/lib/ultaura/types';
-import type { ReminderRow } from '~/lib/ultaura/types';
+import type { AdherenceSummary, ReminderDeliveryMethod, ReminderRow } from '~/lib/ultaura/types';
+import { REMINDER_DELIVERY_OPTIONS } from '~/lib/ultaura/constants';
+import { describeRecurrence } from '@ultaura/schemas';
 import { createReminder, cancelReminder, skipNextOccurrence, pauseReminder, resumeReminder, snoozeReminder, editReminder } from '~/lib/ultaura/reminders';
 import { ReminderActivity } from './ReminderActivity';
+import { ReminderAdherence } from './ReminderAdherence';
+import { SkipDatesField } from './SkipDatesField';
 
 const SNOOZE_OPTIONS = [
   { value: 15, label: '15 minutes' },
@@ -29,47 +33,35 @@ const SNOOZE_OPTIONS = [
 ];
 
 type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'custom';
+type MonthlyMode = 'day' | 'last_day' | 'weekday';
+
+const WEEK_OF_MONTH_OPTIONS = [
+  { value: 1, label: 'First' },
+  { value: 2, label: 'Second' },
+  { value: 3, label: 'Third' },
+  { value: 4, label: 'Fourth' },
+  { value: -1, label: 'Last' },
+];
+
+function getDeliveryLabel(method: string): string {
+  return REMINDER_DELIVERY_OPTIONS.find((option) => option.value === method)?.label ?? 'Phone call';
+}
 
 const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 const FULL_DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 
-function getOrdinalSuffix(n: number): string {
-  if (n > 3 && n < 21) return 'th';
-  switch (n % 10) {
-    case 1: return 'st';
-    case 2: return 'nd';
-    case 3: return 'rd';
-    default: return 'th';
-  }
-}
-
 function formatRecurrence(reminder: ReminderRow): string {
   if (!reminder.is_recurring || !reminder.rrule) return '';
-
-  if (reminder.rrule.includes('FREQ=DAILY')) {
-    const interval = reminder.interval_days || 1;
-    return interval === 1 ? 'Daily' : `Every ${interval} days`;
-  }
-
-  if (reminder.rrule.includes('FREQ=WEEKLY')) {
-    if (reminder.days_of_week && reminder.days_of_week.length > 0) {
-      const days = reminder.days_of_week.map(d => DAY_NAMES[d]).join(', ');
-      return `Weekly on ${days}`;
-    }
-    return 'Weekly';
-  }
-
-  if (reminder.rrule.includes('FREQ=MONTHLY')) {
-    const day = reminder.day_of_month || 1;
-    return `Monthly on the ${day}${getOrdinalSuffix(day)}`;
-  }
-
-  return 'Recurring';
+  return describeRecurrence(reminder.rrule, {
+    timeOfDay: reminder.time_of_day,
+    excludedDates: reminder.excluded_dates,
+  });
 }
 
 interface RemindersClientProps {
   line: LineRow;
   reminders: ReminderRow[];
+  adherence: AdherenceSummary;
   disabled?: boolean;
 }
 
@@ -87,7 +79,7 @@ const STATUS_LABELS: Record<string, string> = {
   canceled: 'Canceled',
 };
 
-export function RemindersClient({ line, reminders, disabled = false }: RemindersClientProps) {
+export function RemindersClient({ line, reminders, adherence, disabled = false }: RemindersClientProps) {
   const router = useRouter();
   const pathname = usePathname();
   const searchParams = useSearchParams();
@@ -108,12 +100,17 @@ export function RemindersClient({ line, reminders, disabled = false }: Reminders
   const [editMessage, setEditMessage] = useState('');
   const [editDate, setEditDate] = useState('');
   const [editTime, setEditTime] = useState('');
+  const [editRequiresConfirmation, setEditRequiresConfirmation] = useState(false);
+  const [editDeliveryMethod, setEditDeliveryMethod] = useState<ReminderDeliveryMethod>('outbound_call');
+  const [editExcludedDates, setEditExcludedDates] = useState<string[]>([]);
   const [isEditSubmitting, setIsEditSubmitting] = useState(false);
 
   // Form state
   const [message, setMessage] = useState('');
   const [date, setDate] = useState('');
   const [time, setTime] = useState('09:00');
+  const [requiresConfirmation, setRequiresConfirmation] = useState(false);
+  const [deliveryMethod, setDeliveryMethod] = useState<ReminderDeliveryMethod>('outbound_call');
 
   // Recurrence form state
   const [isRecurring, setIsRecurring] = useState(false);
@@ -121,8 +118,16 @@ export function RemindersClient({ line, reminders, disabled = false }: Reminders
   const [interval, setInterval] = useState(1);
   const [selectedDays, setSelectedDays] = useState<number[]>([]);
   const [dayOfMonth, setDayOfMonth] = useState(1);
+  const [monthlyMode, setMonthlyMode] = useState<MonthlyMode>('day');
+  const [weekOfMonth, setWeekOfMonth] = useState(1);
+  const [monthlyWeekday, setMonthlyWeekday] = useState(1);
+  const [extraTimes, setExtraTimes] = useState<string[]>([]);
+  const [newExtraTime, setNewExtraTime] = useState('');
+  const [hasCount, setHasCount] = useState(false);
+  const [count, setCount] = useState(10);
   const [hasEndDate, setHasEndDate] = useState(false);
   const [endDate, setEndDate] = useState('');
+  const [excludedDates, setExcludedDates] = useState<string[]>([]);
 
   const formatPhone = (e164: string) => {
     const digits = e164.replace(/\D/g, '');
@@ -176,10 +181,20 @@ export function RemindersClient({ line, reminders, disabled = false }: Reminders
       recurrence: isRecurring ? {
         frequency,
         interval: frequency === 'custom' ? interval : undefined,
-        daysOfWeek: frequency === 'weekly' ? selectedDays : undefined,
-        dayOfMonth: frequency === 'monthly' ? dayOfMonth : undefined,
+        daysOfWeek: frequency === 'weekly'
+          ? selectedDays
+          : frequency === 'monthly' && monthlyMode === 'weekday' ? [monthlyWeekday] : undefined,
+        dayOfMonth: frequency === 'monthly' && monthlyMode !== 'weekday'
+          ? (monthlyMode === 'last_day' ? -1 : dayOfMonth)
+          : undefined,
+        weekOfMonth: frequency === 'monthly' && monthlyMode === 'weekday' ? weekOfMonth : undefined,
+        timesOfDay: extraTimes.length > 0 ? extraTimes : undefined,
+        count: hasCount ? count : undefined,
         endsAt: hasEndDate && endDate ? new Date(endDate).toISOString() : undefined,
+        excludedDates: excludedDates.length > 0 ? excludedDates : undefined,
       } : undefined,
+      deliveryMethod,
+      requiresConfirmation,
     });
 
     setIsSubmitting(false);
@@ -190,13 +205,19 @@ export function RemindersClient({ line, reminders, disabled = false }: Reminders
       setMessage('');
       setDate('');
       setTime('09:00');
+      setRequiresConfirmation(false);
+      setDeliveryMethod('outbound_call');
       setIsRecurring(false);
       setFrequency('daily');
       setInterval(1);
       setSelectedDays([]);
       setDayOfMonth(1);
+      setMonthlyMode('day');
+      setExtraTimes([]);
+      setHasCount(false);
       setHasEndDate(false);
       setEndDate('');
+      setExcludedDates([]);
       router.refresh();
     } else {
       setError(result.error.message || 'Failed to create reminder');
@@ -303,6 +324,9 @@ export function RemindersClient({ line, reminders, disabled = false }: Reminders
     const hours = dueDate.getHours().toString().padStart(2, '0');
     const minutes = dueDate.getMinutes().toString().padStart(2, '0');
     setEditTime(`${hours}:${minutes}`);
+    setEditRequiresConfirmation(reminder.requires_confirmation);
+    setEditDeliveryMethod(reminder.delivery_method as ReminderDeliveryMethod);
+    setEditExcludedDates(reminder.excluded_dates);
   }, [disabled]);
 
   // Allow deep-linking into the edit modal (e.g. from the global reminders list)
@@ -337,7 +361,13 @@ export function RemindersClient({ line, reminders, disabled = false }: Reminders
 
     setIsEditSubmitting(true);
 
-    const updates: { message?: string; dueAt?: string } = {};
+    const updates: {
+      message?: string;
+      dueAt?: string;
+      excludedDates?: string[];
+      deliveryMethod?: ReminderDeliveryMethod;
+      requiresConfirmation?: boolean;
+    } = {};
 
     if (editMessage.trim() !== editingReminder.message) {
       updates.message = editMessage.trim();
@@ -349,6 +379,18 @@ export function RemindersClient({ line, reminders, disabled = false }: Reminders
       updates.dueAt = newDueAt.toISOString();
     }
 
+    if (editExcludedDates.join(',') !== editingReminder.excluded_dates.join(',')) {
+      updates.excludedDates = editExcludedDates;
+    }
+
+    if (editDeliveryMethod !== editingReminder.delivery_method) {
+      updates.deliveryMethod = editDeliveryMethod;
+    }
+
+    if (editRequiresConfirmation !== editingReminder.requires_confirmation) {
+      updates.requiresConfirmation = editRequiresConfirmation;
+    }
+
     if (Object.keys(updates).length === 0) {
       toast.info('No changes to save');
       setIsEditSubmitting(false);
@@ -467,6 +509,27 @@ export function RemindersClient({ line, reminders, disabled = false }: Reminders
               </div>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-foreground mb-2">
+                How should we deliver it?
+              </label>
+              <Select value={deliveryMethod} onValueChange={(val) => setDeliveryMethod(val as ReminderDeliveryMethod)}>
+                <SelectTrigger className="w-full py-3">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REMINDER_DELIVERY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                {REMINDER_DELIVERY_OPTIONS.find((option) => option.value === deliveryMethod)?.description}
+              </p>
+            </div>
+
             {/* Recurrence Options */}
             <div className="border-t border-input pt-4">
               <label className="flex items-center gap-2 cursor-pointer">
@@ -537,20 +600,135 @@ export function RemindersClient({ line, reminders, disabled = false }: Reminders
                     </div>
                   )}
 
-                  {/* Day of month for monthly */}
+                  {/* Day of month or weekday of month for monthly */}
                   {frequency === 'monthly' && (
-                    <div>
+                    <div className="space-y-2">
                       <label className="block text-sm font-medium mb-2">On which day of the month?</label>
+                      <Select value={monthlyMode} onValueChange={(val) => setMonthlyMode(val as MonthlyMode)}>
+                        <SelectTrigger className="w-full py-3">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="day">A day number</SelectItem>
+                          <SelectItem value="weekday">A day of the week</SelectItem>
+                          <SelectItem value="last_day">The last day</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      {monthlyMode === 'day' && (
+                        <input
+                          type="number"
+                          min={1}
+                          max={31}
+                          value={dayOfMonth}
+                          onChange={(e) => setDayOfMonth(parseInt(e.target.value) || 1)}
+                          className="w-24 px-3 py-2 rounded-lg border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                        />
+                      )}
+                      {monthlyMode === 'weekday' && (
+                        <div className="grid grid-cols-2 gap-2">
+                          <Select
+                            value={String(weekOfMonth)}
+                            onValueChange={(val) => setWeekOfMonth(parseInt(val))}
+                          >
+                            <SelectTrigger className="w-full py-3">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {WEEK_OF_MONTH_OPTIONS.map((option) => (
+                                <SelectItem key={option.value} value={String(option.value)}>
+                                  {option.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Select
+                            value={String(monthlyWeekday)}
+                            onValueChange={(val) => setMonthlyWeekday(parseInt(val))}
+                          >
+                            <SelectTrigger className="w-full py-3">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {FULL_DAY_NAMES.map((day, i) => (
+                                <SelectItem key={day} value={String(i)}>
+                                  {day}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {/* More times on the same day */}
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Also remind at</label>
+                    <div className="flex gap-2">
+                      <input
+                        type="time"
+                        value={newExtraTime}
+                        onChange={(e) => setNewExtraTime(e.target.value)}
+                        className="flex-1 px-3 py-2 rounded-lg border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => {
+                          if (!newExtraTime || newExtraTime === time || extraTimes.includes(newExtraTime)) return;
+                          setExtraTimes((prev) => [...prev, newExtraTime].sort());
+                          setNewExtraTime('');
+                        }}
+                        disabled={!newExtraTime}
+                        className="px-3 py-2 rounded-lg border border-input bg-background text-sm font-medium hover:bg-muted transition-colors disabled:opacity-50"
+                      >
+                        Add
+                      </button>
+                    </div>
+                    {extraTimes.length > 0 && (
+                      <div className="flex gap-2 flex-wrap mt-2">
+                        {extraTimes.map((extraTime) => (
+                          <span
+                            key={extraTime}
+                            className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-muted text-muted-foreground text-xs font-medium"
+                          >
+                            {extraTime}
+                            <button
+                              type="button"
+                              onClick={() => setExtraTimes((prev) => prev.filter((t) => t !== extraTime))}
+                              aria-label={`Remove ${extraTime}`}
+                              className="hover:text-foreground"
+                            >
+                              <X className="w-3 h-3" />
+                            </button>
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Extra times need the same minutes as the main time, like 8:00 and 20:00.
+                    </p>
+                  </div>
+
+                  {/* Optional number of occurrences */}
+                  <div>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <Checkbox
+                        checked={hasCount}
+                        onCheckedChange={(checked) => setHasCount(checked === true)}
+                      />
+                      <span className="text-sm">Stop after a number of reminders</span>
+                    </label>
+                    {hasCount && (
                       <input
                         type="number"
                         min={1}
-                        max={31}
-                        value={dayOfMonth}
-                        onChange={(e) => setDayOfMonth(parseInt(e.target.value) || 1)}
-                        className="w-24 px-3 py-2 rounded-lg border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                        max={999}
+                        value={count}
+                        onChange={(e) => setCount(parseInt(e.target.value) || 1)}
+                        className="mt-2 w-24 px-3 py-2 rounded-lg border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
                       />
-                    </div>
-                  )}
+                    )}
+                  </div>
 
                   {/* Optional end date */}
                   <div>
@@ -571,15 +749,37 @@ export function RemindersClient({ line, reminders, disabled = false }: Reminders
                       />
                     )}
                   </div>
+
+                  <SkipDatesField dates={excludedDates} onChange={setExcludedDates} min={date || today} />
                 </div>
               )}
             </div>
 
+            <div className="border-t border-input pt-4">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <Checkbox
+                  checked={requiresConfirmation}
+                  onCheckedChange={(checked) => setRequiresConfirmation(checked === true)}
+                />
+                <span className="text-sm font-medium">Ask them to confirm it was done</span>
+              </label>
+              <p className="text-xs text-muted-foreground mt-1 pl-6">
+                For medication and other must-do tasks. If they don&apos;t confirm, we call back and let you know when doses are missed.
+              </p>
+            </div>
+
             <div className="bg-muted/50 rounded-lg p-3 text-sm">
               <p className="text-muted-foreground">
-                <strong className="text-foreground">Note:</strong> Reminder calls use 1 minute from your plan.
-                {isRecurring && ' Each occurrence counts as a separate call.'}
-                {!isRecurring && ' The AI will deliver your message and check if they have questions.'}
+                <strong className="text-foreground">Note:</strong>
+                {deliveryMethod === 'sms' ? (
+                  ' Text reminders do not use minutes from your plan.'
+                ) : (
+                  <>
+                    {' '}Reminder calls use 1 minute from your plan.
+                    {isRecurring && ' Each occurrence counts as a separate call.'}
+                    {!isRecurring && deliveryMethod !== 'voicemail_drop' && ' The AI will deliver your message and check if they have questions.'}
+                  </>
+                )}
               </p>
             </div>
 
@@ -591,13 +791,19 @@ export function RemindersClient({ line, reminders, disabled = false }: Reminders
                   setMessage('');
                   setDate('');
                   setTime('09:00');
+                  setRequiresConfirmation(false);
+                  setDeliveryMethod('outbound_call');
                   setIsRecurring(false);
                   setFrequency('daily');
                   setInterval(1);
                   setSelectedDays([]);
                   setDayOfMonth(1);
+                  setMonthlyMode('day');
+                  setExtraTimes([]);
+                  setHasCount(false);
                   setHasEndDate(false);
                   setEndDate('');
+                  setExcludedDates([]);
                   setError(null);
                 }}
                 className="w-full sm:flex-1 py-2 px-4 rounded-lg border border-input bg-background text-foreground font-medium hover:bg-muted transition-colors"
@@ -659,6 +865,22 @@ export function RemindersClient({ line, reminders, disabled = false }: Reminders
                       </span>
                     )}
 
+                    {/* Delivery badge */}
+                    {reminder.delivery_method !== 'outbound_call' && (
+                      <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-muted text-muted-foreground text-xs font-medium">
+                        <MessageSquare className="w-3 h-3" />
+                        {getDeliveryLabel(reminder.delivery_method)}
+                      </span>
+                    )}
+
+                    {/* Confirmation badge */}
+                    {reminder.requires_confirmation && (
+                      <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300 text-xs font-medium">
+                        <ClipboardCheck className="w-3 h-3" />
+                        Confirms
+                      </span>
+                    )}
+
                     {/* Recurrence badge */}
                     {reminder.is_recurring && (
                       <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300 text-xs font-medium">
@@ -829,6 +1051,14 @@ export function RemindersClient({ line, reminders, disabled = false }: Reminders
         </div>
       )}
 
+      {/* Medication adherence - only once a reminder has asked for confirmation */}
+      {adherence.history.length > 0 && (
+        <div className="mt-8">
+          <h2 className="font-semibold text-lg mb-4">Confirmations</h2>
+          <ReminderAdherence summary={adherence} />
+        </div>
+      )}
+
       {/* Reminder Activity Timeline - for caregiver visibility */}
       {reminders.length > 0 && (
         <div className="mt-8">
@@ -947,6 +1177,46 @@ export function RemindersClient({ line, reminders, disabled = false }: Reminders
               </div>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-foreground mb-2">
+                Delivery
+              </label>
+              <Select
+                value={editDeliveryMethod}
+                onValueChange={(val) => setEditDeliveryMethod(val as ReminderDeliveryMethod)}
+                disabled={isEditSubmitting}
+              >
+                <SelectTrigger className="w-full h-11">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REMINDER_DELIVERY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {editingReminder?.is_recurring && (
+              <SkipDatesField
+                dates={editExcludedDates}
+                onChange={setEditExcludedDates}
+                min={today}
+                disabled={isEditSubmitting}
+              />
+            )}
+
+            <label className="flex items-center gap-2 cursor-pointer">
+              <Checkbox
+                checked={editRequiresConfirmation}
+                onCheckedChange={(checked) => setEditRequiresConfirmation(checked === true)}
+                disabled={isEditSubmitting}
+              />
+              <span className="text-sm font-medium">Ask them to confirm it was done</span>
+            </label>
+
             <div className="flex gap-3 pt-2">
               <button
                 type="button"
@@ -0,0 +1,74 @@
+'use client';
+
+import { useState } from 'react';
+import { X } from 'lucide-react';
+
+interface SkipDatesFieldProps {
+  dates: string[];
+  onChange: (dates: string[]) => void;
+  min?: string;
+  disabled?: boolean;
+}
+
+function formatSkipDate(date: string): string {
+  return new Date(`${date}T12:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+export function SkipDatesField({ dates, onChange, min, disabled = false }: SkipDatesFieldProps) {
+  const [newDate, setNewDate] = useState('');
+
+  const addDate = () => {
+    if (!newDate || dates.includes(newDate)) return;
+    onChange([...dates, newDate].sort());
+    setNewDate('');
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium mb-2">Skip these dates</label>
+      <div className="flex gap-2">
+        <input
+          type="date"
+          value={newDate}
+          onChange={(e) => setNewDate(e.target.value)}
+          min={min}
+          disabled={disabled}
+          className="flex-1 px-3 py-2 rounded-lg border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50"
+        />
+        <button
+          type="button"
+          onClick={addDate}
+          disabled={disabled || !newDate}
+          className="px-3 py-2 rounded-lg border border-input bg-background text-sm font-medium hover:bg-muted transition-colors disabled:opacity-50"
+        >
+          Add
+        </button>
+      </div>
+      {dates.length > 0 && (
+        <div className="flex gap-2 flex-wrap mt-2">
+          {dates.map((date) => (
+            <span
+              key={date}
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-muted text-muted-foreground text-xs font-medium"
+            >
+              {formatSkipDate(date)}
+              <button
+                type="button"
+                onClick={() => onChange(dates.filter((d) => d !== date))}
+                disabled={disabled}
+                aria-label={`Stop skipping ${formatSkipDate(date)}`}
+                className="hover:text-foreground"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { notFound, redirect } from 'next/navigation';
 import { getTrialInfo } from '~/lib/ultaura/accounts';
 import { getLine } from '~/lib/ultaura/lines';
 import { getReminders } from '~/lib/ultaura/reminders';
+import { getAdherenceSummary } from '~/lib/ultaura/adherence';
 import { RemindersClient } from './RemindersClient';
 import { isUUID } from '~/lib/ultaura/short-id';
 import AppHeader from '../../../components/AppHeader';
@@ -36,8 +37,9 @@ export default async function RemindersPage({ params }: PageProps) {
     redirect(`/dashboard/lines/${line.short_id}/verify`);
   }
 
-  const [reminders, trialInfo] = await Promise.all([
+  const [reminders, adherence, trialInfo] = await Promise.all([
     getReminders(line.id),
+    getAdherenceSummary(line.id),
     getTrialInfo(line.account_id),
   ]);
 
@@ -60,7 +62,12 @@ export default async function RemindersPage({ params }: PageProps) {
       <PageBody>
         <div className="space-y-6">
           {isTrialExpired ? <TrialExpiredBanner trialPlanName={trialPlanName} /> : null}
-          <RemindersClient line={line} reminders={reminders} disabled={isTrialExpired} />
+          <RemindersClient
+            line={line}
+            reminders={reminders}
+            adherence={adherence}
+            disabled={isTrialExpired}
+          />
         </div>
       </PageBody>
     </>
@@ -0,0 +1,99 @@
+import { CheckCircle, Clock, MessageSquare, Phone, ShieldAlert, XCircle } from 'lucide-react';
+import type { SafetyAlert, SafetyAlertAttempt } from '~/lib/ultaura/types';
+
+interface SafetyAlertsListProps {
+  alerts: SafetyAlert[];
+}
+
+const formatDateTime = (dateStr: string) =>
+  new Date(dateStr).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+export function SafetyAlertsList({ alerts }: SafetyAlertsListProps) {
+  if (alerts.length === 0) {
+    return (
+      <div className="bg-card rounded-xl border border-border p-6">
+        <div className="text-center py-8">
+          <ShieldAlert className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+          <p className="text-muted-foreground">No safety alerts</p>
+          <p className="text-sm text-muted-foreground mt-1">
+            Trusted contacts are alerted here if a call raises a serious safety concern
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-6">
+      <div className="divide-y divide-border">
+        {alerts.map((alert) => (
+          <SafetyAlertItem key={alert.id} alert={alert} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function SafetyAlertItem({ alert }: { alert: SafetyAlert }) {
+  const isAcknowledged = alert.escalationStatus === 'acknowledged';
+  const isExhausted = alert.escalationStatus === 'exhausted';
+
+  const statusLabel = isAcknowledged
+    ? `Acknowledged${alert.acknowledgedByName ? ` by ${alert.acknowledgedByName}` : ''}${
+        alert.acknowledgedAt ? ` · ${formatDateTime(alert.acknowledgedAt)}` : ''
+      }`
+    : isExhausted
+    ? 'No one acknowledged this alert'
+    : 'Waiting for a trusted contact to respond';
+
+  return (
+    <div className="flex items-start gap-4 py-4">
+      <div
+        className={`w-10 h-10 rounded-full flex items-center justify-center flex-shrink-0 ${
+          isAcknowledged ? 'bg-success/10' : isExhausted ? 'bg-destructive/10' : 'bg-primary/10'
+        }`}
+      >
+        {isAcknowledged ? (
+          <CheckCircle className="w-5 h-5 text-success" />
+        ) : isExhausted ? (
+          <XCircle className="w-5 h-5 text-destructive" />
+        ) : (
+          <Clock className="w-5 h-5 text-primary animate-pulse" />
+        )}
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="font-medium text-foreground">Safety alert &middot; {formatDateTime(alert.createdAt)}</p>
+        <p className="text-sm text-muted-foreground">{statusLabel}</p>
+        {alert.attempts.length > 0 && (
+          <ul className="mt-2 space-y-1">
+            {alert.attempts.map((attempt) => (
+              <AttemptRow key={attempt.id} attempt={attempt} />
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function AttemptRow({ attempt }: { attempt: SafetyAlertAttempt }) {
+  const Icon = attempt.channel === 'sms' ? MessageSquare : Phone;
+  const action = attempt.channel === 'sms' ? 'Text to' : 'Call to';
+  const statusLabel =
+    attempt.status === 'sent' ? 'Sent' : attempt.status === 'rate_limited' ? 'Skipped (limit reached)' : 'Failed';
+
+  return (
+    <li className="flex items-center gap-2 text-sm text-muted-foreground">
+      <Icon className="w-4 h-4 flex-shrink-0" />
+      <span>
+        {action} {attempt.contactName ?? 'a removed contact'} &middot; {statusLabel} &middot;{' '}
+        {formatDateTime(attempt.createdAt)}
+      </span>
+    </li>
+  );
+}
@@ -0,0 +1,54 @@
+import { Metadata } from 'next';
+import { notFound, redirect } from 'next/navigation';
+import { getTrialInfo } from '~/lib/ultaura/accounts';
+import { getLine } from '~/lib/ultaura/lines';
+import { getSafetyAlerts } from '~/lib/ultaura/safety';
+import { isUUID } from '~/lib/ultaura/short-id';
+import { SafetyAlertsList } from './SafetyAlertsList';
+import AppHeader from '../../../components/AppHeader';
+import { PageBody } from '~/core/ui/Page';
+import { TrialStatusBadge } from '~/components/ultaura/TrialStatusBadge';
+import { PLANS } from '~/lib/ultaura/constants';
+import type { PlanId } from '~/lib/ultaura/types';
+
+export const metadata: Metadata = {
+  title: 'Safety Alerts - Ultaura',
+};
+
+interface PageProps {
+  params: { lineId: string };
+}
+
+export default async function SafetyAlertsPage({ params }: PageProps) {
+  const line = await getLine(params.lineId);
+
+  if (!line) {
+    notFound();
+  }
+
+  if (isUUID(params.lineId)) {
+    redirect(`/dashboard/lines/${line.short_id}/safety`);
+  }
+
+  const [alerts, trialInfo] = await Promise.all([
+    getSafetyAlerts(line.id),
+    getTrialInfo(line.account_id),
+  ]);
+
+  const isTrialActive = (trialInfo?.isOnTrial ?? false) && !(trialInfo?.isExpired ?? false);
+  const trialPlanKey = (trialInfo?.trialPlanId ?? 'free_trial') as PlanId;
+  const trialPlanName = PLANS[trialPlanKey]?.displayName ?? 'Trial';
+
+  return (
+    <>
+      <AppHeader title="Safety Alerts" description={`Alerts sent to trusted contacts for ${line.display_name}`}>
+        {isTrialActive && trialInfo ? (
+          <TrialStatusBadge daysRemaining={trialInfo.daysRemaining} planName={trialPlanName} />
+        ) : null}
+      </AppHeader>
+      <PageBody>
+        <SafetyAlertsList alerts={alerts} />
+      </PageBody>
+    </>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import { TrendingUp } from 'lucide-react';
+import type { AnswerTimeSuggestion as Suggestion } from '~/lib/ultaura/types';
+import { formatTime } from '~/lib/ultaura/constants';
+
+interface AnswerTimeSuggestionProps {
+  lineName: string;
+  suggestion: Suggestion;
+  onApply: () => void;
+  disabled?: boolean;
+  isApplying?: boolean;
+}
+
+function formatRate(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+export function AnswerTimeSuggestion({
+  lineName,
+  suggestion,
+  onApply,
+  disabled = false,
+  isApplying = false,
+}: AnswerTimeSuggestionProps) {
+  return (
+    <div className="flex flex-col gap-2 rounded-lg border border-primary/20 bg-primary/5 p-3 text-sm sm:flex-row sm:items-center sm:justify-between">
+      <p className="inline-flex items-start gap-2 text-foreground">
+        <TrendingUp className="w-4 h-4 mt-0.5 text-primary shrink-0" />
+        <span>
+          {lineName} answers {formatRate(suggestion.suggestedRate)} at{' '}
+          {formatTime(suggestion.suggestedTime)} vs {formatRate(suggestion.currentRate)} at{' '}
+          {formatTime(suggestion.currentTime)}
+        </span>
+      </p>
+      <button
+        type="button"
+        onClick={onApply}
+        disabled={disabled || isApplying}
+        className="shrink-0 px-3 py-1.5 rounded-lg bg-primary text-primary-foreground text-sm font-medium hover:bg-primary/90 transition-colors disabled:opacity-50"
+      >
+        {isApplying ? 'Applying...' : `Use ${formatTime(suggestion.suggestedTime)}`}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+'use client';
+
+import { Clock, Plus, X } from 'lucide-react';
+import type { CallWindow } from '@ultaura/schemas';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '~/core/ui/Select';
+import type { ScheduleRow } from '~/lib/ultaura/types';
+import { TIME_OPTIONS, formatTime } from '~/lib/ultaura/constants';
+
+const MAX_CALL_WINDOWS = 4;
+
+interface CallWindowsFieldProps {
+  windows: CallWindow[];
+  onChange: (windows: CallWindow[]) => void;
+  disabled?: boolean;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function fromMinutes(total: number): string {
+  const clamped = Math.min(total, toMinutes(TIME_OPTIONS[TIME_OPTIONS.length - 1].value));
+  return `${Math.floor(clamped / 60).toString().padStart(2, '0')}:${(clamped % 60).toString().padStart(2, '0')}`;
+}
+
+// Schedules saved before call windows existed retry for retry_window_minutes after time_of_day
+export function getScheduleCallWindows(
+  schedule: Pick<ScheduleRow, 'call_windows' | 'time_of_day' | 'retry_policy'>
+): CallWindow[] {
+  const windows = (schedule.call_windows as CallWindow[] | null) ?? [];
+  if (windows.length > 0) return windows;
+
+  const start = schedule.time_of_day.slice(0, 5);
+  const retryPolicy = schedule.retry_policy as { retry_window_minutes?: number } | null;
+  const windowMinutes = retryPolicy?.retry_window_minutes ?? 30;
+  // Round up to the picker's half-hour steps
+  const end = fromMinutes(Math.ceil((toMinutes(start) + windowMinutes) / 30) * 30);
+
+  return [{ start, end }];
+}
+
+export function formatCallWindows(windows: CallWindow[]): string {
+  return windows
+    .map((window) => `${formatTime(window.start)} - ${formatTime(window.end)}`)
+    .join(', ');
+}
+
+export function CallWindowsField({ windows, onChange, disabled = false }: CallWindowsFieldProps) {
+  const updateWindow = (index: number, changes: Partial<CallWindow>) => {
+    onChange(
+      windows.map((window, i) => {
+        if (i !== index) return window;
+
+        const next = { ...window, ...changes };
+        // Keep the window at least half an hour long when its start moves past its end
+        if (toMinutes(next.end) <= toMinutes(next.start)) {
+          next.end = fromMinutes(toMinutes(next.start) + 30);
+        }
+        return next;
+      })
+    );
+  };
+
+  const addWindow = () => {
+    const last = windows[windows.length - 1];
+    const start = last ? fromMinutes(Math.min(toMinutes(last.end) + 60, toMinutes('23:00'))) : '09:00';
+    onChange([...windows, { start, end: fromMinutes(toMinutes(start) + 60) }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {windows.map((window, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Select value={window.start} onValueChange={(start) => updateWindow(index, { start })}>
+            <SelectTrigger className="flex-1 h-11" disabled={disabled}>
+              <div className="flex items-center gap-2">
+                <Clock className="w-5 h-5 text-muted-foreground" />
+                <SelectValue />
+              </div>
+            </SelectTrigger>
+            <SelectContent>
+              {TIME_OPTIONS.slice(0, -1).map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <span className="text-sm text-muted-foreground">to</span>
+
+          <Select value={window.end} onValueChange={(end) => updateWindow(index, { end })}>
+            <SelectTrigger className="flex-1 h-11" disabled={disabled}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TIME_OPTIONS.filter((option) => toMinutes(option.value) > toMinutes(window.start)).map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {windows.length > 1 && (
+            <button
+              type="button"
+              onClick={() => onChange(windows.filter((_, i) => i !== index))}
+              disabled={disabled}
+              className="p-2 rounded-lg text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors disabled:opacity-50"
+              aria-label="Remove call window"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      ))}
+
+      {windows.length < MAX_CALL_WINDOWS && (
+        <button
+          type="button"
+          onClick={addWindow}
+          disabled={disabled}
+          className="inline-flex items-center gap-1 text-sm font-medium text-primary hover:underline disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          Add another window
+        </button>
+      )}
+    </div>
+  );
+}
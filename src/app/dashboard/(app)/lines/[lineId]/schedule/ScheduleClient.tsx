@@ -7,14 +7,20 @@ import { toast } from 'sonner';
 import { ArrowLeft, Clock, Check, Plus, Edit2, Trash2, AlertCircle, Calendar, Pause, Play, ToggleLeft, ToggleRight, X } from 'lucide-react';
 import { ConfirmationDialog } from '~/core/ui/ConfirmationDialog';
 import { Dialog, DialogContent, DialogDescription, DialogTitle } from '~/core/ui/Dialog';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '~/core/ui/Select';
-import type { LineRow, ScheduleRow } from '~/lib/ultaura/types';
+import type { AnswerTimeSuggestion as Suggestion, LineAnswerPatternRow, LineRow, ScheduleRow } from '~/lib/ultaura/types';
 import { createSchedule, deleteSchedule, getSchedule, updateSchedule } from '~/lib/ultaura/schedules';
 import { DAYS_OF_WEEK, TIME_OPTIONS, formatTime } from '~/lib/ultaura/constants';
+import type { CallWindow } from '@ultaura/schemas';
+import { applySuggestedTime, getAnswerTimeSuggestion } from '~/lib/ultaura/answer-times';
+import { CallWindowsField, formatCallWindows, getScheduleCallWindows } from './CallWindowsField';
+import { AnswerTimeSuggestion } from './AnswerTimeSuggestion';
+
+const DEFAULT_CALL_WINDOWS: CallWindow[] = [{ start: '09:00', end: '10:00' }];
 
 interface ScheduleClientProps {
   line: LineRow;
   schedules: ScheduleRow[];
+  answerPattern?: LineAnswerPatternRow | null;
   disabled?: boolean;
 }
 
@@ -24,26 +30,32 @@ function normalizeTimeOfDay(timeOfDay: string): string {
   return match ? match[1] : timeOfDay;
 }
 
-export function ScheduleClient({ line, schedules, disabled = false }: ScheduleClientProps) {
+export function ScheduleClient({
+  line,
+  schedules,
+  answerPattern = null,
+  disabled = false,
+}: ScheduleClientProps) {
   const router = useRouter();
   const pathname = usePathname();
   const searchParams = useSearchParams();
   const handledEditIdRef = useRef<string | null>(null);
   const editLoadSeqRef = useRef(0);
   const [selectedDays, setSelectedDays] = useState<number[]>([1, 2, 3, 4, 5]); // Weekdays
-  const [selectedTime, setSelectedTime] = useState('09:00');
+  const [callWindows, setCallWindows] = useState<CallWindow[]>(DEFAULT_CALL_WINDOWS);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showCreate, setShowCreate] = useState(false);
 
   const [togglingId, setTogglingId] = useState<string | null>(null);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [applyingId, setApplyingId] = useState<string | null>(null);
   const [scheduleToDelete, setScheduleToDelete] = useState<string | null>(null);
 
   // Edit modal state
   const [editingSchedule, setEditingSchedule] = useState<ScheduleRow | null>(null);
   const [editSelectedDays, setEditSelectedDays] = useState<number[]>([]);
-  const [editSelectedTime, setEditSelectedTime] = useState('09:00');
+  const [editCallWindows, setEditCallWindows] = useState<CallWindow[]>(DEFAULT_CALL_WINDOWS);
   const [editEnabled, setEditEnabled] = useState(true);
   const [isEditLoading, setIsEditLoading] = useState(false);
   const [isEditSaving, setIsEditSaving] = useState(false);
@@ -85,7 +97,7 @@ export function ScheduleClient({ line, schedules, disabled = false }: ScheduleCl
 
       setEditingSchedule(latest);
       setEditSelectedDays(latest.days_of_week);
-      setEditSelectedTime(normalizeTimeOfDay(latest.time_of_day));
+      setEditCallWindows(getScheduleCallWindows(latest));
       setEditEnabled(latest.enabled);
     } catch {
       if (editLoadSeqRef.current !== requestSeq) return;
@@ -137,19 +149,32 @@ export function ScheduleClient({ line, schedules, disabled = false }: ScheduleCl
     });
   };
 
-  const getScheduleSummary = (schedule: Pick<ScheduleRow, 'days_of_week' | 'time_of_day'>) => {
+  const getScheduleSummary = (
+    schedule: Pick<ScheduleRow, 'days_of_week' | 'time_of_day' | 'call_windows'>
+  ) => {
     const days = schedule.days_of_week
       .map((d) => DAYS_OF_WEEK.find((day) => day.value === d)?.label)
       .filter(Boolean)
       .join(', ');
 
     const normalizedTime = normalizeTimeOfDay(schedule.time_of_day);
-    const timeLabel =
-      TIME_OPTIONS.find((t) => t.value === normalizedTime)?.label ?? normalizedTime;
+    const windows = (schedule.call_windows as CallWindow[] | null) ?? [];
+    const timeLabel = windows.length > 0
+      ? `between ${formatCallWindows(windows)}`
+      : `at ${TIME_OPTIONS.find((t) => t.value === normalizedTime)?.label ?? normalizedTime}`;
 
     return { days, timeLabel };
   };
 
+  const quietHours = { start: line.quiet_hours_start, end: line.quiet_hours_end };
+
+  const createSuggestion = getAnswerTimeSuggestion({
+    pattern: answerPattern,
+    daysOfWeek: selectedDays,
+    windows: callWindows,
+    quietHours,
+  });
+
   const formatPhone = (e164: string) => {
     const digits = e164.replace(/\D/g, '');
     if (digits.length === 11 && digits.startsWith('1')) {
@@ -174,7 +199,8 @@ export function ScheduleClient({ line, schedules, disabled = false }: ScheduleCl
       const result = await createSchedule(line.account_id, {
         lineId: line.id,
         daysOfWeek: selectedDays,
-        timeOfDay: selectedTime,
+        timeOfDay: callWindows[0].start,
+        callWindows,
         timezone: line.timezone,
       });
 
@@ -194,7 +220,7 @@ export function ScheduleClient({ line, schedules, disabled = false }: ScheduleCl
 
   const resetCreateForm = () => {
     setSelectedDays([1, 2, 3, 4, 5]);
-    setSelectedTime('09:00');
+    setCallWindows(DEFAULT_CALL_WINDOWS);
     setError(null);
   };
 
@@ -226,6 +252,36 @@ export function ScheduleClient({ line, schedules, disabled = false }: ScheduleCl
     }
   };
 
+  const handleApplySuggestion = async (schedule: ScheduleRow, suggestion: Suggestion) => {
+    if (disabled) return;
+
+    setApplyingId(schedule.id);
+    setError(null);
+
+    try {
+      const callWindows = applySuggestedTime(getScheduleCallWindows(schedule), suggestion.suggestedTime);
+      const result = await updateSchedule(schedule.id, {
+        timeOfDay: callWindows[0].start,
+        callWindows,
+        timezone: line.timezone,
+      });
+
+      if (result.success) {
+        toast.success(`Calls will now start at ${formatTime(suggestion.suggestedTime)}`);
+        router.refresh();
+      } else {
+        const message = result.error.message || 'Failed to update schedule';
+        setError(message);
+        toast.error(message);
+      }
+    } catch {
+      setError('An unexpected error occurred');
+      toast.error('An unexpected error occurred');
+    } finally {
+      setApplyingId(null);
+    }
+  };
+
   const handleConfirmDelete = async () => {
     if (!scheduleToDelete) return;
     if (disabled) return;
@@ -269,7 +325,8 @@ export function ScheduleClient({ line, schedules, disabled = false }: ScheduleCl
       const result = await updateSchedule(editingSchedule.id, {
         enabled: editEnabled,
         daysOfWeek: editSelectedDays,
-        timeOfDay: editSelectedTime,
+        timeOfDay: editCallWindows[0].start,
+        callWindows: editCallWindows,
         timezone: line.timezone,
       });
 
@@ -363,29 +420,25 @@ export function ScheduleClient({ line, schedules, disabled = false }: ScheduleCl
               </p>
             </div>
 
-            {/* Time Selection */}
+            {/* Call Windows */}
             <div>
               <label className="block text-sm font-medium text-foreground mb-3">
-                What time should we call?
+                When should we call?
               </label>
-              <Select value={selectedTime} onValueChange={setSelectedTime}>
-                <SelectTrigger className="w-full py-3">
-                  <div className="flex items-center gap-2">
-                    <Clock className="w-5 h-5 text-muted-foreground" />
-                    <SelectValue />
-                  </div>
-                </SelectTrigger>
-                <SelectContent>
-                  {TIME_OPTIONS.map((option) => (
-                    <SelectItem key={option.value} value={option.value}>
-                      {option.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <CallWindowsField windows={callWindows} onChange={setCallWindows} />
+              {createSuggestion && (
+                <div className="mt-3">
+                  <AnswerTimeSuggestion
+                    lineName={line.display_name}
+                    suggestion={createSuggestion}
+                    onApply={() => setCallWindows(applySuggestedTime(callWindows, createSuggestion.suggestedTime))}
+                  />
+                </div>
+              )}
               <p className="text-xs text-muted-foreground mt-2">
-                Times are in {line.timezone}. Quiet hours: {formatTime(line.quiet_hours_start)} -{' '}
-                {formatTime(line.quiet_hours_end)}
+                We call at the start of the first window. If a call can&apos;t go through, we retry
+                later in the window or in the next one, outside quiet hours. Times are in {line.timezone}.
+                Quiet hours: {formatTime(line.quiet_hours_start)} - {formatTime(line.quiet_hours_end)}
               </p>
             </div>
 
@@ -399,7 +452,7 @@ export function ScheduleClient({ line, schedules, disabled = false }: ScheduleCl
                   type="button"
                   onClick={() => {
                     setSelectedDays([1, 2, 3, 4, 5]);
-                    setSelectedTime('09:00');
+                    setCallWindows([{ start: '09:00', end: '10:00' }]);
                   }}
                   className="p-3 rounded-lg border border-input bg-background text-left hover:bg-muted transition-colors"
                 >
@@ -410,18 +463,18 @@ export function ScheduleClient({ line, schedules, disabled = false }: ScheduleCl
                   type="button"
                   onClick={() => {
                     setSelectedDays([0, 1, 2, 3, 4, 5, 6]);
-                    setSelectedTime('10:00');
+                    setCallWindows([{ start: '10:00', end: '11:00' }, { start: '18:00', end: '19:00' }]);
                   }}
                   className="p-3 rounded-lg border border-input bg-background text-left hover:bg-muted transition-colors"
                 >
                   <p className="font-medium text-foreground">Daily Check-in</p>
-                  <p className="text-xs text-muted-foreground">Every day at 10:00 AM</p>
+                  <p className="text-xs text-muted-foreground">Every day, 10 AM or 6 PM</p>
                 </button>
                 <button
                   type="button"
                   onClick={() => {
                     setSelectedDays([0, 6]);
-                    setSelectedTime('11:00');
+                    setCallWindows([{ start: '11:00', end: '12:00' }]);
                   }}
                   className="p-3 rounded-lg border border-input bg-background text-left hover:bg-muted transition-colors"
                 >
@@ -443,9 +496,9 @@ export function ScheduleClient({ line, schedules, disabled = false }: ScheduleCl
                         .map((d) => DAYS_OF_WEEK.find((day) => day.value === d)?.label)
                         .join(', ')}
                     </span>{' '}
-                    at{' '}
+                    between{' '}
                     <span className="text-foreground font-medium">
-                      {TIME_OPTIONS.find((t) => t.value === selectedTime)?.label || selectedTime}
+                      {formatCallWindows(callWindows)}
                     </span>
                   </>
                 ) : (
@@ -504,6 +557,12 @@ export function ScheduleClient({ line, schedules, disabled = false }: ScheduleCl
                 const { days, timeLabel } = getScheduleSummary(schedule);
                 const isToggling = togglingId === schedule.id;
                 const isDeleting = deletingId === schedule.id;
+                const suggestion = getAnswerTimeSuggestion({
+                  pattern: answerPattern,
+                  daysOfWeek: schedule.days_of_week,
+                  windows: getScheduleCallWindows(schedule),
+                  quietHours,
+                });
 
                 return (
                   <div
@@ -515,7 +574,7 @@ export function ScheduleClient({ line, schedules, disabled = false }: ScheduleCl
                     }`}
                   >
                     <div className="flex-1 min-w-0">
-                      <p className="text-foreground">{days || 'Custom days'} at {timeLabel}</p>
+                      <p className="text-foreground">{days || 'Custom days'} {timeLabel}</p>
                       <div className="flex items-center gap-3 mt-2 text-sm text-muted-foreground flex-wrap">
                         <span className="inline-flex items-center gap-1">
                           <Clock className="w-3.5 h-3.5" />
@@ -530,6 +589,17 @@ export function ScheduleClient({ line, schedules, disabled = false }: ScheduleCl
                           </span>
                         )}
                       </div>
+
+                      {suggestion && !disabled && (
+                        <div className="mt-3">
+                          <AnswerTimeSuggestion
+                            lineName={line.display_name}
+                            suggestion={suggestion}
+                            onApply={() => handleApplySuggestion(schedule, suggestion)}
+                            isApplying={applyingId === schedule.id}
+                          />
+                        </div>
+                      )}
                     </div>
 
                     <div className="flex items-center gap-1 shrink-0 flex-wrap">
@@ -637,7 +707,7 @@ export function ScheduleClient({ line, schedules, disabled = false }: ScheduleCl
             <div className="min-w-0">
               <DialogTitle className="truncate">Edit schedule</DialogTitle>
               <DialogDescription className="text-sm text-muted-foreground">
-                Update days and time for {line.display_name}
+                Update days and call windows for {line.display_name}
               </DialogDescription>
             </div>
 
@@ -698,23 +768,13 @@ export function ScheduleClient({ line, schedules, disabled = false }: ScheduleCl
 
             <div>
               <label className="block text-sm font-medium text-foreground mb-2">
-                Time
+                Call windows
               </label>
-              <Select value={editSelectedTime} onValueChange={setEditSelectedTime}>
-                <SelectTrigger className="w-full h-11" disabled={disabled || isEditLoading || isEditSaving}>
-                  <div className="flex items-center gap-2">
-                    <Clock className="w-5 h-5 text-muted-foreground" />
-                    <SelectValue />
-                  </div>
-                </SelectTrigger>
-                <SelectContent>
-                  {TIME_OPTIONS.map((option) => (
-                    <SelectItem key={option.value} value={option.value}>
-                      {option.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <CallWindowsField
+                windows={editCallWindows}
+                onChange={setEditCallWindows}
+                disabled={disabled || isEditLoading || isEditSaving}
+              />
               <p className="text-xs text-muted-foreground mt-2">
                 Times are in {line.timezone}. Quiet hours: {formatTime(line.quiet_hours_start)} -{' '}
                 {formatTime(line.quiet_hours_end)}
@@ -4,12 +4,13 @@ import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { toast } from 'sonner';
-import { ArrowLeft, Clock, Check, ToggleLeft, ToggleRight, AlertCircle } from 'lucide-react';
+import { ArrowLeft, Check, ToggleLeft, ToggleRight, AlertCircle } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '~/core/ui/card';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '~/core/ui/Select';
 import type { LineRow, ScheduleRow } from '~/lib/ultaura/types';
 import { updateSchedule } from '~/lib/ultaura/schedules';
-import { DAYS_OF_WEEK, TIME_OPTIONS, formatTime } from '~/lib/ultaura/constants';
+import { DAYS_OF_WEEK, formatTime } from '~/lib/ultaura/constants';
+import type { CallWindow } from '@ultaura/schemas';
+import { CallWindowsField, formatCallWindows, getScheduleCallWindows } from '../CallWindowsField';
 
 interface EditScheduleClientProps {
   line: LineRow;
@@ -17,11 +18,6 @@ interface EditScheduleClientProps {
   disabled?: boolean;
 }
 
-function normalizeTimeOfDay(timeOfDay: string): string {
-  const match = timeOfDay.match(/^(\d{2}:\d{2})/);
-  return match ? match[1] : timeOfDay;
-}
-
 export function EditScheduleClient({
   line,
   schedule,
@@ -29,7 +25,7 @@ export function EditScheduleClient({
 }: EditScheduleClientProps) {
   const router = useRouter();
   const [selectedDays, setSelectedDays] = useState<number[]>(schedule.days_of_week);
-  const [selectedTime, setSelectedTime] = useState(normalizeTimeOfDay(schedule.time_of_day));
+  const [callWindows, setCallWindows] = useState<CallWindow[]>(() => getScheduleCallWindows(schedule));
   const [enabled, setEnabled] = useState(schedule.enabled);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -46,7 +42,7 @@ export function EditScheduleClient({
 
   const hasChanges =
     enabled !== schedule.enabled ||
-    selectedTime !== normalizeTimeOfDay(schedule.time_of_day) ||
+    JSON.stringify(callWindows) !== JSON.stringify(getScheduleCallWindows(schedule)) ||
     JSON.stringify(selectedDays.sort()) !== JSON.stringify(schedule.days_of_week.sort());
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -65,7 +61,8 @@ export function EditScheduleClient({
       const result = await updateSchedule(schedule.id, {
         enabled,
         daysOfWeek: selectedDays,
-        timeOfDay: selectedTime,
+        timeOfDay: callWindows[0].start,
+        callWindows,
         timezone: line.timezone,
       });
 
@@ -155,26 +152,12 @@ export function EditScheduleClient({
               </div>
             </div>
 
-            {/* Time Selection */}
+            {/* Call Windows */}
             <div>
               <label className="block text-sm font-medium text-foreground mb-3">
-                What time should we call?
+                When should we call?
               </label>
-              <Select value={selectedTime} onValueChange={setSelectedTime}>
-                <SelectTrigger className="w-full py-3" disabled={disabled}>
-                  <div className="flex items-center gap-2">
-                    <Clock className="w-5 h-5 text-muted-foreground" />
-                    <SelectValue />
-                  </div>
-                </SelectTrigger>
-                <SelectContent>
-                  {TIME_OPTIONS.map((option) => (
-                    <SelectItem key={option.value} value={option.value}>
-                      {option.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <CallWindowsField windows={callWindows} onChange={setCallWindows} disabled={disabled} />
               <p className="text-xs text-muted-foreground mt-2">
                 Times are in {line.timezone}. Quiet hours: {formatTime(line.quiet_hours_start)} -{' '}
                 {formatTime(line.quiet_hours_end)}
@@ -195,9 +178,9 @@ export function EditScheduleClient({
                         .map((d) => DAYS_OF_WEEK.find((day) => day.value === d)?.label)
                         .join(', ')}
                     </span>{' '}
-                    at{' '}
+                    between{' '}
                     <span className="text-foreground font-medium">
-                      {TIME_OPTIONS.find((t) => t.value === selectedTime)?.label || selectedTime}
+                      {formatCallWindows(callWindows)}
                     </span>
                   </>
                 ) : (
@@ -2,7 +2,7 @@ import { Metadata } from 'next';
 import { notFound, redirect } from 'next/navigation';
 import { getTrialInfo } from '~/lib/ultaura/accounts';
 import { getLine } from '~/lib/ultaura/lines';
-import { getSchedules } from '~/lib/ultaura/schedules';
+import { getLineAnswerPattern, getSchedules } from '~/lib/ultaura/schedules';
 import { ScheduleClient } from './ScheduleClient';
 import { isUUID } from '~/lib/ultaura/short-id';
 import AppHeader from '../../../components/AppHeader';
@@ -36,8 +36,9 @@ export default async function SchedulePage({ params }: PageProps) {
     redirect(`/dashboard/lines/${line.short_id}/verify`);
   }
 
-  const [schedules, trialInfo] = await Promise.all([
+  const [schedules, answerPattern, trialInfo] = await Promise.all([
     getSchedules(line.id),
+    getLineAnswerPattern(line.id),
     getTrialInfo(line.account_id),
   ]);
 
@@ -57,7 +58,12 @@ export default async function SchedulePage({ params }: PageProps) {
       <PageBody>
         <div className="space-y-6">
           {isTrialExpired ? <TrialExpiredBanner trialPlanName={trialPlanName} /> : null}
-          <ScheduleClient line={line} schedules={schedules} disabled={isTrialExpired} />
+          <ScheduleClient
+            line={line}
+            schedules={schedules}
+            answerPattern={answerPattern}
+            disabled={isTrialExpired}
+          />
         </div>
       </PageBody>
     </>
@@ -4,15 +4,37 @@ import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { toast } from 'sonner';
-import { ArrowLeft, Settings, Globe, Clock, Bell, Voicemail, Sparkles, Mail, AlertTriangle } from 'lucide-react';
+import { ArrowLeft, Settings, Globe, Clock, Bell, Voicemail, Sparkles, Mail, AlertTriangle, Hash, ClipboardCheck } from 'lucide-react';
 import { RadioGroup, RadioGroupItem, RadioGroupItemLabel } from '~/core/ui/RadioGroup';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '~/core/ui/Select';
 import { Switch } from '~/core/ui/Switch';
-import type { LineRow, VoicemailBehavior, InsightPrivacyRow, NotificationPreferencesRow } from '~/lib/ultaura/types';
+import type {
+  DtmfAction,
+  DtmfKey,
+  DtmfKeymap,
+  LineRow,
+  VoicemailBehavior,
+  InsightPrivacyRow,
+  NotificationPreferencesRow,
+} from '~/lib/ultaura/types';
 import { updateLine } from '~/lib/ultaura/lines';
-import { INSIGHTS, US_TIMEZONES, TIME_OPTIONS, WEEKDAY_OPTIONS } from '~/lib/ultaura/constants';
+import {
+  DEFAULT_DTMF_KEYMAP,
+  DTMF_ACTION_OPTIONS,
+  DTMF_KEYS,
+  INSIGHTS,
+  US_TIMEZONES,
+  TIME_OPTIONS,
+  WEEKDAY_OPTIONS,
+} from '~/lib/ultaura/constants';
 import { setPauseMode, updateInsightPrivacy, updateNotificationPreferences } from '~/lib/ultaura/insights';
 
+const NO_DTMF_ACTION = 'none';
+
+// Stable string form for change detection (key order in stored JSON varies)
+const serializeKeymap = (keymap: DtmfKeymap) =>
+  DTMF_KEYS.map((key) => `${key}:${keymap[key] ?? ''}`).join('|');
+
 interface SettingsClientProps {
   line: LineRow;
   insightPrivacy: InsightPrivacyRow | null;
@@ -41,6 +63,10 @@ export function SettingsClient({
     (line.voicemail_behavior || 'brief') as VoicemailBehavior
   );
 
+  const initialKeymap = (line.dtmf_keymap as DtmfKeymap | null) ?? DEFAULT_DTMF_KEYMAP;
+  const [dtmfKeymap, setDtmfKeymap] = useState<DtmfKeymap>(initialKeymap);
+  const hasOptOutKey = Object.values(dtmfKeymap).includes('opt_out');
+
   const privacyDefaults = {
     insights_enabled: insightPrivacy?.insights_enabled ?? true,
     private_topic_codes: insightPrivacy?.private_topic_codes ?? [],
@@ -60,6 +86,8 @@ export function SettingsClient({
     ),
     alert_missed_calls_enabled: notificationPreferences?.alert_missed_calls_enabled ?? true,
     alert_missed_calls_threshold: notificationPreferences?.alert_missed_calls_threshold ?? 3,
+    alert_missed_doses_enabled: notificationPreferences?.alert_missed_doses_enabled ?? true,
+    alert_missed_doses_threshold: notificationPreferences?.alert_missed_doses_threshold ?? 3,
   };
 
   const [insightsEnabled, setInsightsEnabled] = useState(privacyDefaults.insights_enabled);
@@ -84,6 +112,12 @@ export function SettingsClient({
   const [missedCallsThreshold, setMissedCallsThreshold] = useState(
     notificationDefaults.alert_missed_calls_threshold
   );
+  const [missedDosesEnabled, setMissedDosesEnabled] = useState(
+    notificationDefaults.alert_missed_doses_enabled
+  );
+  const [missedDosesThreshold, setMissedDosesThreshold] = useState(
+    notificationDefaults.alert_missed_doses_threshold
+  );
 
   const weeklySummaryFormat = notificationDefaults.weekly_summary_format;
   const weeklySummaryDeliveryLabel =
@@ -98,6 +132,18 @@ export function SettingsClient({
     });
   };
 
+  const setKeyAction = (key: DtmfKey, value: string) => {
+    setDtmfKeymap((prev) => {
+      const next = { ...prev };
+      if (value === NO_DTMF_ACTION) {
+        delete next[key];
+      } else {
+        next[key] = value as DtmfAction;
+      }
+      return next;
+    });
+  };
+
   const handlePauseToggle = (checked: boolean) => {
     setIsPaused(checked);
     if (!checked) {
@@ -108,6 +154,10 @@ export function SettingsClient({
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (disabled) return;
+    if (!hasOptOutKey) {
+      setError('Assign at least one key to "Stop calls" so opting out stays possible.');
+      return;
+    }
 
     setIsLoading(true);
     setError(null);
@@ -120,6 +170,7 @@ export function SettingsClient({
           quietHoursEnd,
           allowVoiceReminderControl,
           voicemailBehavior,
+          ...(hasKeymapChanges && { dtmfKeymap }),
         });
 
         if (!result.success) {
@@ -146,6 +197,8 @@ export function SettingsClient({
           weekly_summary_time: weeklySummaryTime,
           alert_missed_calls_enabled: missedCallsEnabled,
           alert_missed_calls_threshold: missedCallsThreshold,
+          alert_missed_doses_enabled: missedDosesEnabled,
+          alert_missed_doses_threshold: missedDosesThreshold,
         });
       }
 
@@ -161,7 +214,10 @@ export function SettingsClient({
 
   const normalizeCodes = (codes: string[]) => [...codes].sort().join('|');
 
+  const hasKeymapChanges = serializeKeymap(dtmfKeymap) !== serializeKeymap(initialKeymap);
+
   const hasLineChanges =
+    hasKeymapChanges ||
     timezone !== line.timezone ||
     quietHoursStart !== line.quiet_hours_start ||
     quietHoursEnd !== line.quiet_hours_end ||
@@ -181,7 +237,9 @@ export function SettingsClient({
     weeklySummaryDay !== notificationDefaults.weekly_summary_day ||
     weeklySummaryTime !== notificationDefaults.weekly_summary_time ||
     missedCallsEnabled !== notificationDefaults.alert_missed_calls_enabled ||
-    missedCallsThreshold !== notificationDefaults.alert_missed_calls_threshold;
+    missedCallsThreshold !== notificationDefaults.alert_missed_calls_threshold ||
+    missedDosesEnabled !== notificationDefaults.alert_missed_doses_enabled ||
+    missedDosesThreshold !== notificationDefaults.alert_missed_doses_threshold;
 
   const hasChanges =
     hasLineChanges ||
@@ -347,6 +405,56 @@ export function SettingsClient({
             </div>
           </div>
 
+          {/* Keypad Shortcuts */}
+          <div className="pt-6 border-t border-border">
+            <div className="flex items-center gap-2 text-sm font-medium text-foreground mb-2">
+              <Hash className="w-4 h-4 text-muted-foreground" />
+              Keypad Shortcuts
+            </div>
+            <p className="text-sm text-muted-foreground mb-4">
+              Choose what happens when {line.display_name} presses a key during a call.
+            </p>
+            <div className="grid gap-3 sm:grid-cols-2">
+              {DTMF_KEYS.map((key) => (
+                <div key={key} className="flex items-center gap-3">
+                  <span className="w-9 h-9 shrink-0 rounded-lg border border-border bg-muted/40 flex items-center justify-center text-sm font-semibold text-foreground">
+                    {key}
+                  </span>
+                  <Select
+                    value={dtmfKeymap[key] ?? NO_DTMF_ACTION}
+                    onValueChange={(value) => setKeyAction(key, value)}
+                    disabled={disabled}
+                  >
+                    <SelectTrigger className="w-full py-2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_DTMF_ACTION}>No action</SelectItem>
+                      {DTMF_ACTION_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            {!hasOptOutKey && (
+              <p className="text-sm text-destructive mt-3">
+                At least one key must be set to &quot;Stop calls&quot;.
+              </p>
+            )}
+            <button
+              type="button"
+              onClick={() => setDtmfKeymap(DEFAULT_DTMF_KEYMAP)}
+              disabled={disabled}
+              className="mt-3 text-sm text-muted-foreground hover:text-foreground underline-offset-4 hover:underline disabled:opacity-50"
+            >
+              Reset to defaults
+            </button>
+          </div>
+
           {/* Insights & Privacy */}
           <div className="pt-6 border-t border-border space-y-6">
             <div>
@@ -548,6 +656,44 @@ export function SettingsClient({
                 </Select>
               </div>
             </div>
+
+            <div className="pt-4 border-t border-border/60 space-y-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex-1">
+                  <label className="flex items-center gap-2 text-sm font-medium text-foreground">
+                    <ClipboardCheck className="w-4 h-4 text-muted-foreground" />
+                    Missed dose alerts
+                  </label>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Send an email when reminders that ask for confirmation go unconfirmed in a row.
+                  </p>
+                </div>
+                <Switch
+                  checked={missedDosesEnabled}
+                  onCheckedChange={setMissedDosesEnabled}
+                  disabled={disabled}
+                />
+              </div>
+              <div className="max-w-xs">
+                <label className="text-xs text-muted-foreground block mb-1">Alert after</label>
+                <Select
+                  value={String(missedDosesThreshold)}
+                  onValueChange={(value) => setMissedDosesThreshold(Number(value))}
+                  disabled={disabled || !missedDosesEnabled}
+                >
+                  <SelectTrigger className="w-full py-3">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[1, 2, 3, 4, 5].map((threshold) => (
+                      <SelectItem key={threshold} value={String(threshold)}>
+                        {threshold} missed {threshold === 1 ? 'dose' : 'doses'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
           </div>
         </div>
 
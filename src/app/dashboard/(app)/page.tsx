@@ -1,5 +1,6 @@
 import Link from 'next/link';
 import { Repeat, Phone, Clock, Zap } from 'lucide-react';
+import { describeRecurrence } from '@ultaura/schemas';
 
 import AppHeader from './components/AppHeader';
 import { DashboardUpcomingTabs } from './components/DashboardUpcomingTabs';
@@ -15,51 +16,15 @@ import { getLineActivity, getUsageSummary } from '~/lib/ultaura/usage';
 import { BILLING, PLANS } from '~/lib/ultaura/constants';
 import { TrialExpiredBanner } from '~/components/ultaura/TrialExpiredBanner';
 
-const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 const RATE_CENTS = BILLING.OVERAGE_RATE_CENTS;
 
 function formatCurrency(cents: number) {
   return `$${(cents / 100).toFixed(2)}`;
 }
 
-function getOrdinalSuffix(n: number): string {
-  if (n > 3 && n < 21) return 'th';
-  switch (n % 10) {
-    case 1: return 'st';
-    case 2: return 'nd';
-    case 3: return 'rd';
-    default: return 'th';
-  }
-}
-
-function formatRecurrence(reminder: {
-  isRecurring: boolean;
-  rrule: string | null;
-  intervalDays: number | null;
-  daysOfWeek: number[] | null;
-  dayOfMonth: number | null;
-}): string {
+function formatRecurrence(reminder: { isRecurring: boolean; rrule: string | null }): string {
   if (!reminder.isRecurring || !reminder.rrule) return '';
-
-  if (reminder.rrule.includes('FREQ=DAILY')) {
-    const interval = reminder.intervalDays || 1;
-    return interval === 1 ? 'Daily' : `Every ${interval} days`;
-  }
-
-  if (reminder.rrule.includes('FREQ=WEEKLY')) {
-    if (reminder.daysOfWeek && reminder.daysOfWeek.length > 0) {
-      const days = reminder.daysOfWeek.map(d => DAY_NAMES[d]).join(', ');
-      return `Weekly on ${days}`;
-    }
-    return 'Weekly';
-  }
-
-  if (reminder.rrule.includes('FREQ=MONTHLY')) {
-    const day = reminder.dayOfMonth || 1;
-    return `Monthly on the ${day}${getOrdinalSuffix(day)}`;
-  }
-
-  return 'Recurring';
+  return describeRecurrence(reminder.rrule);
 }
 
 export const metadata = {
@@ -15,6 +15,7 @@ import {
   XCircle,
   Repeat,
 } from 'lucide-react';
+import { describeRecurrence } from '@ultaura/schemas';
 import type { LineRow } from '~/lib/ultaura/types';
 import { cancelReminder } from '~/lib/ultaura/reminders';
 import { ConfirmationDialog } from '~/core/ui/ConfirmationDialog';
@@ -35,40 +36,10 @@ interface Reminder {
   dayOfMonth: number | null;
 }
 
-const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-
-function getOrdinalSuffix(n: number): string {
-  if (n > 3 && n < 21) return 'th';
-  switch (n % 10) {
-    case 1: return 'st';
-    case 2: return 'nd';
-    case 3: return 'rd';
-    default: return 'th';
-  }
-}
 
 function formatRecurrence(reminder: Reminder): string {
   if (!reminder.isRecurring || !reminder.rrule) return '';
-
-  if (reminder.rrule.includes('FREQ=DAILY')) {
-    const interval = reminder.intervalDays || 1;
-    return interval === 1 ? 'Daily' : `Every ${interval} days`;
-  }
-
-  if (reminder.rrule.includes('FREQ=WEEKLY')) {
-    if (reminder.daysOfWeek && reminder.daysOfWeek.length > 0) {
-      const days = reminder.daysOfWeek.map(d => DAY_NAMES[d]).join(', ');
-      return `Weekly on ${days}`;
-    }
-    return 'Weekly';
-  }
-
-  if (reminder.rrule.includes('FREQ=MONTHLY')) {
-    const day = reminder.dayOfMonth || 1;
-    return `Monthly on the ${day}${getOrdinalSuffix(day)}`;
-  }
-
-  return 'Recurring';
+  return describeRecurrence(reminder.rrule);
 }
 
 interface RemindersPageClientProps {
@@ -1,6 +1,6 @@
 'use client';
 
-import { BugAntIcon } from '@heroicons/react/24/outline';
+import { BeakerIcon, BugAntIcon, CommandLineIcon } from '@heroicons/react/24/outline';
 import Sidebar, { SidebarContent, SidebarItem } from '~/core/ui/Sidebar';
 import Logo from '~/core/ui/Logo';
 
@@ -18,6 +18,20 @@ function UltauraAdminSidebar() {
         >
           Debug Logs
         </SidebarItem>
+
+        <SidebarItem
+          path={'/ultaura-admin/prompt-experiments'}
+          Icon={() => <BeakerIcon className={'h-6'} />}
+        >
+          Prompt Experiments
+        </SidebarItem>
+
+        <SidebarItem
+          path={'/ultaura-admin/prompt-playground'}
+          Icon={() => <CommandLineIcon className={'h-6'} />}
+        >
+          Prompt Playground
+        </SidebarItem>
       </SidebarContent>
     </Sidebar>
   );
@@ -0,0 +1,66 @@
+'use client';
+
+import type { ColumnDef } from '@tanstack/react-table';
+
+import DataTable from '~/core/ui/DataTable';
+import type { PromptVersionMetrics } from '~/lib/ultaura/admin-types';
+
+function formatNumber(value: number | null, suffix = '') {
+  if (value === null) return <span className="text-muted-foreground">-</span>;
+  return `${value}${suffix}`;
+}
+
+const columns: Array<ColumnDef<PromptVersionMetrics>> = [
+  {
+    header: 'Prompt version',
+    id: 'promptVersion',
+    cell: ({ row }) => <span className="font-mono text-xs">{row.original.promptVersion}</span>,
+  },
+  {
+    header: 'Lines',
+    id: 'lines',
+    cell: ({ row }) => row.original.lines,
+  },
+  {
+    header: 'Answer rate',
+    id: 'answerRate',
+    cell: ({ row }) => {
+      const { answerRate, answeredScheduledCalls, scheduledCalls } = row.original;
+      if (answerRate === null) return <span className="text-muted-foreground">-</span>;
+      return `${Math.round(answerRate * 100)}% (${answeredScheduledCalls}/${scheduledCalls})`;
+    },
+  },
+  {
+    header: 'Answered calls',
+    id: 'answeredCalls',
+    cell: ({ row }) => row.original.answeredCalls,
+  },
+  {
+    header: 'Avg duration',
+    id: 'avgDurationMinutes',
+    cell: ({ row }) => formatNumber(row.original.avgDurationMinutes, 'm'),
+  },
+  {
+    header: 'Avg engagement',
+    id: 'avgEngagement',
+    cell: ({ row }) => formatNumber(row.original.avgEngagement, '/10'),
+  },
+  {
+    header: 'Calls with insights',
+    id: 'callsWithInsights',
+    cell: ({ row }) => row.original.callsWithInsights,
+  },
+];
+
+export function PromptMetricsTable({ metrics }: { metrics: PromptVersionMetrics[] }) {
+  return (
+    <DataTable
+      tableProps={{
+        'data-cy': 'ultaura-prompt-metrics-table',
+      }}
+      pageSize={Math.max(metrics.length, 1)}
+      columns={columns}
+      data={metrics}
+    />
+  );
+}
@@ -0,0 +1,98 @@
+import { Metadata } from 'next';
+
+import AdminHeader from '~/app/admin/components/AdminHeader';
+import Button from '~/core/ui/Button';
+import { PageBody } from '~/core/ui/Page';
+import { getPromptVersionMetrics } from '~/lib/ultaura/insights';
+import { PROMPT_EXPERIMENTS, PROMPT_VERSIONS } from '~/lib/ultaura/prompts';
+import { PromptMetricsTable } from './components/PromptMetricsTable';
+
+export const metadata: Metadata = {
+  title: 'Ultaura Prompt Experiments',
+};
+
+const WINDOW_OPTIONS = [7, 30, 90];
+const DEFAULT_WINDOW_DAYS = 30;
+
+const selectClassName =
+  'flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ' +
+  'ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring ' +
+  'focus-visible:ring-offset-2';
+
+interface PromptExperimentsPageProps {
+  searchParams: {
+    days?: string;
+  };
+}
+
+export default async function PromptExperimentsPage({ searchParams }: PromptExperimentsPageProps) {
+  const requestedDays = Number(searchParams.days);
+  const days = WINDOW_OPTIONS.includes(requestedDays) ? requestedDays : DEFAULT_WINDOW_DAYS;
+  const metrics = await getPromptVersionMetrics({ days });
+  const unassigned = metrics.filter((row) => row.experimentId === null);
+
+  return (
+    <div className={'flex flex-1 flex-col'}>
+      <AdminHeader>Prompt Experiments</AdminHeader>
+
+      <PageBody>
+        <div className="flex flex-col gap-6 pb-12">
+          <div className="text-sm text-muted-foreground">
+            Lines are bucketed into prompt versions deterministically, and every companion call
+            records the version it used. Answer rate counts scheduled calls; engagement comes from
+            post-call insights. Edit experiments in the prompt registry (packages/prompts).
+          </div>
+
+          <form method="GET" className="flex items-end gap-3">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Window</label>
+              <select name="days" defaultValue={String(days)} className={selectClassName}>
+                {WINDOW_OPTIONS.map((option) => (
+                  <option key={option} value={option}>
+                    Last {option} days
+                  </option>
+                ))}
+              </select>
+            </div>
+            <Button type="submit">Apply</Button>
+          </form>
+
+          {PROMPT_EXPERIMENTS.map((experiment) => {
+            const totalWeight = experiment.arms.reduce((sum, arm) => sum + arm.weight, 0);
+
+            return (
+              <section key={experiment.id} className="space-y-3 rounded-xl border border-border bg-card p-4">
+                <div className="flex items-center gap-3">
+                  <h2 className="font-mono text-sm font-semibold">{experiment.id}</h2>
+                  <span className="text-xs uppercase tracking-wide text-muted-foreground">
+                    {experiment.status}
+                  </span>
+                </div>
+                <p className="text-sm text-muted-foreground">{experiment.description}</p>
+                <ul className="text-sm">
+                  {experiment.arms.map((arm) => (
+                    <li key={arm.promptVersion}>
+                      <span className="font-mono text-xs">{arm.promptVersion}</span>
+                      {totalWeight > 0 ? ` - ${Math.round((arm.weight / totalWeight) * 100)}% of lines` : ''}
+                      {PROMPT_VERSIONS[arm.promptVersion]
+                        ? ` - ${PROMPT_VERSIONS[arm.promptVersion].description}`
+                        : ' - unknown version, lines fall back to the default prompt'}
+                    </li>
+                  ))}
+                </ul>
+                <PromptMetricsTable
+                  metrics={metrics.filter((row) => row.experimentId === experiment.id)}
+                />
+              </section>
+            );
+          })}
+
+          <section className="space-y-3 rounded-xl border border-border bg-card p-4">
+            <h2 className="text-sm font-semibold">Calls outside experiments</h2>
+            <PromptMetricsTable metrics={unassigned} />
+          </section>
+        </div>
+      </PageBody>
+    </div>
+  );
+}
@@ -0,0 +1,378 @@
+'use client';
+
+import { useState, useTransition, type ChangeEvent } from 'react';
+import classNames from 'clsx';
+
+import Button from '~/core/ui/Button';
+import { TextFieldInput } from '~/core/ui/TextField';
+import Textarea from '~/core/ui/Textarea';
+import { compilePromptPlayground, getPromptPlaygroundLine } from '~/lib/ultaura/admin-actions';
+import type {
+  PromptPlaygroundInput,
+  PromptPlaygroundPrompt,
+  PromptPlaygroundResult,
+} from '~/lib/ultaura/admin-types';
+
+interface PlaygroundVersion {
+  id: string;
+  description: string;
+  previousId: string | null;
+}
+
+const PLAN_OPTIONS: PromptPlaygroundInput['currentPlanId'][] = ['free_trial', 'care', 'comfort', 'family', 'payg'];
+const ACCOUNT_STATUS_OPTIONS: PromptPlaygroundInput['accountStatus'][] = ['trial', 'active', 'past_due', 'canceled'];
+
+const selectClassName =
+  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ' +
+  'ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring ' +
+  'focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50';
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function PromptColumn({ title, prompt }: { title: string; prompt: PromptPlaygroundPrompt }) {
+  return (
+    <section className="min-w-0 space-y-3 rounded-xl border border-border bg-card p-4">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-sm font-semibold">{title}</h2>
+        <span className="text-xs text-muted-foreground">
+          ~{prompt.tokens} tokens, {prompt.sections.length} sections
+        </span>
+      </div>
+
+      {prompt.sections.map((section, index) => (
+        <div key={`${section.tag}-${index}`} className="border-t border-dashed border-border pt-2">
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span className="font-mono">{section.tag}</span>
+            <span>~{section.tokens} tokens</span>
+          </div>
+          <pre className="mt-1 whitespace-pre-wrap break-words font-mono text-xs">{section.text}</pre>
+        </div>
+      ))}
+    </section>
+  );
+}
+
+export function PromptPlaygroundClient({
+  versions,
+  defaultVersion,
+}: {
+  versions: PlaygroundVersion[];
+  defaultVersion: string;
+}) {
+  const [input, setInput] = useState<PromptPlaygroundInput>({
+    userName: 'Margaret',
+    promptVersion: defaultVersion,
+    compareVersion: versions.find((version) => version.id === defaultVersion)?.previousId ?? null,
+    isFirstCall: false,
+    memoryEnabled: true,
+    memoriesText: 'favorite_song: Moon River\ngranddaughter: Emma, visits on Sundays',
+    seedInterests: [],
+    seedAvoidTopics: [],
+    lowMinutesWarning: false,
+    minutesRemaining: 10,
+    isReminderCall: false,
+    reminderMessage: '',
+    startingLanguage: 'en',
+    timezone: 'America/New_York',
+    currentPlanId: 'care',
+    accountStatus: 'active',
+  });
+  const [lineRef, setLineRef] = useState('');
+  const [result, setResult] = useState<(PromptPlaygroundResult & { promptVersion: string }) | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  function update<K extends keyof PromptPlaygroundInput>(key: K, value: PromptPlaygroundInput[K]) {
+    setInput((current) => ({ ...current, [key]: value }));
+  }
+
+  function handleVersionChange(promptVersion: string) {
+    const previousId = versions.find((version) => version.id === promptVersion)?.previousId ?? null;
+    setInput((current) => ({ ...current, promptVersion, compareVersion: previousId }));
+  }
+
+  function handleLoadLine() {
+    if (!lineRef.trim()) return;
+
+    startTransition(async () => {
+      try {
+        const line = await getPromptPlaygroundLine(lineRef);
+        if (!line) {
+          setError('Line not found');
+          return;
+        }
+
+        setError(null);
+        setInput((current) => ({
+          ...current,
+          ...line,
+          compareVersion: line.promptVersion
+            ? versions.find((version) => version.id === line.promptVersion)?.previousId ?? null
+            : current.compareVersion,
+        }));
+      } catch (err) {
+        console.error(err);
+        setError('Failed to load line');
+      }
+    });
+  }
+
+  function handleCompile(e: React.FormEvent) {
+    e.preventDefault();
+
+    startTransition(async () => {
+      try {
+        const compiled = await compilePromptPlayground(input);
+        setResult({ ...compiled, promptVersion: input.promptVersion });
+        setError(null);
+      } catch (err) {
+        console.error(err);
+        setError('Failed to compile prompt');
+      }
+    });
+  }
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex items-end gap-3 rounded-xl border border-border bg-card p-4">
+        <div className="flex-1 space-y-2">
+          <label className="text-sm font-medium">Load from line</label>
+          <TextFieldInput
+            type="text"
+            placeholder="Line ID or short ID"
+            value={lineRef}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => setLineRef(e.target.value)}
+          />
+        </div>
+        <Button type="button" variant="outline" onClick={handleLoadLine} disabled={isPending}>
+          Load
+        </Button>
+      </div>
+
+      <form onSubmit={handleCompile} className="grid gap-4 rounded-xl border border-border bg-card p-4 lg:grid-cols-3">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Prompt version</label>
+          <select
+            value={input.promptVersion}
+            onChange={(e) => handleVersionChange(e.target.value)}
+            className={selectClassName}
+          >
+            {versions.map((version) => (
+              <option key={version.id} value={version.id}>
+                {version.id} - {version.description}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Diff against</label>
+          <select
+            value={input.compareVersion ?? ''}
+            onChange={(e) => update('compareVersion', e.target.value || null)}
+            className={selectClassName}
+          >
+            <option value="">No diff</option>
+            {versions.map((version) => (
+              <option key={version.id} value={version.id}>
+                {version.id}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Name</label>
+          <TextFieldInput
+            type="text"
+            value={input.userName}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => update('userName', e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Language</label>
+          <TextFieldInput
+            type="text"
+            value={input.startingLanguage}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => update('startingLanguage', e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Timezone</label>
+          <TextFieldInput
+            type="text"
+            value={input.timezone}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => update('timezone', e.target.value)}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Plan</label>
+            <select
+              value={input.currentPlanId}
+              onChange={(e) => update('currentPlanId', e.target.value as PromptPlaygroundInput['currentPlanId'])}
+              className={selectClassName}
+            >
+              {PLAN_OPTIONS.map((plan) => (
+                <option key={plan} value={plan}>
+                  {plan}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Account status</label>
+            <select
+              value={input.accountStatus}
+              onChange={(e) => update('accountStatus', e.target.value as PromptPlaygroundInput['accountStatus'])}
+              className={selectClassName}
+            >
+              {ACCOUNT_STATUS_OPTIONS.map((status) => (
+                <option key={status} value={status}>
+                  {status}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Seed interests</label>
+          <TextFieldInput
+            type="text"
+            placeholder="Comma separated"
+            value={input.seedInterests.join(', ')}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => update('seedInterests', splitList(e.target.value))}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Topics to avoid</label>
+          <TextFieldInput
+            type="text"
+            placeholder="Comma separated"
+            value={input.seedAvoidTopics.join(', ')}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => update('seedAvoidTopics', splitList(e.target.value))}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Minutes remaining</label>
+          <TextFieldInput
+            type="number"
+            min={0}
+            value={input.minutesRemaining}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => update('minutesRemaining', Number(e.target.value) || 0)}
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-4 text-sm lg:col-span-3">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={input.isFirstCall}
+              onChange={(e) => update('isFirstCall', e.target.checked)}
+            />
+            First call
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={input.memoryEnabled}
+              onChange={(e) => update('memoryEnabled', e.target.checked)}
+            />
+            Memory enabled
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={input.lowMinutesWarning}
+              onChange={(e) => update('lowMinutesWarning', e.target.checked)}
+            />
+            Low minutes warning
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={input.isReminderCall}
+              onChange={(e) => update('isReminderCall', e.target.checked)}
+            />
+            Reminder call
+          </label>
+        </div>
+
+        <div className="space-y-2 lg:col-span-2">
+          <label className="text-sm font-medium">Memories</label>
+          <Textarea
+            rows={4}
+            placeholder="One key: value per line"
+            value={input.memoriesText}
+            disabled={!input.memoryEnabled}
+            onChange={(e: ChangeEvent<HTMLTextAreaElement>) => update('memoriesText', e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Reminder message</label>
+          <Textarea
+            rows={4}
+            value={input.reminderMessage}
+            disabled={!input.isReminderCall}
+            onChange={(e: ChangeEvent<HTMLTextAreaElement>) => update('reminderMessage', e.target.value)}
+          />
+        </div>
+
+        <div className="flex items-center gap-3 lg:col-span-3">
+          <Button type="submit" disabled={isPending}>
+            Compile
+          </Button>
+          {error && <span className="text-sm text-red-600">{error}</span>}
+        </div>
+      </form>
+
+      {result && (
+        <>
+          <div className="grid gap-4 lg:grid-cols-2">
+            <PromptColumn title="Realtime (voice bridge)" prompt={result.realtime} />
+            <PromptColumn title="Preview (admin_preview)" prompt={result.preview} />
+          </div>
+
+          {result.realtimeDiff && (
+            <section className="space-y-3 rounded-xl border border-border bg-card p-4">
+              <h2 className="text-sm font-semibold">
+                Realtime diff: {result.compareVersion} to {result.promptVersion}
+              </h2>
+              {result.realtimeDiff.every((line) => line.type === 'same') ? (
+                <p className="text-sm text-muted-foreground">No differences for these inputs.</p>
+              ) : (
+                <pre className="whitespace-pre-wrap break-words font-mono text-xs">
+                  {result.realtimeDiff.map((line, index) => (
+                    <div
+                      key={index}
+                      className={classNames({
+                        'bg-green-500/10 text-green-700 dark:text-green-400': line.type === 'added',
+                        'bg-red-500/10 text-red-700 dark:text-red-400': line.type === 'removed',
+                        'text-muted-foreground': line.type === 'same',
+                      })}
+                    >
+                      {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                      {line.text}
+                    </div>
+                  ))}
+                </pre>
+              )}
+            </section>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
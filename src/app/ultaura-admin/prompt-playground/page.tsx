@@ -0,0 +1,40 @@
+import { Metadata } from 'next';
+
+import AdminHeader from '~/app/admin/components/AdminHeader';
+import { PageBody } from '~/core/ui/Page';
+import {
+  DEFAULT_PROMPT_VERSION,
+  PROMPT_VERSIONS,
+  getPreviousPromptVersion,
+} from '~/lib/ultaura/prompts';
+import { PromptPlaygroundClient } from './components/PromptPlaygroundClient';
+
+export const metadata: Metadata = {
+  title: 'Ultaura Prompt Playground',
+};
+
+export default function PromptPlaygroundPage() {
+  const versions = Object.values(PROMPT_VERSIONS).map((version) => ({
+    id: version.id,
+    description: version.description,
+    previousId: getPreviousPromptVersion(version.id)?.id ?? null,
+  }));
+
+  return (
+    <div className={'flex flex-1 flex-col'}>
+      <AdminHeader>Prompt Playground</AdminHeader>
+
+      <PageBody>
+        <div className="flex flex-col gap-6 pb-12">
+          <div className="text-sm text-muted-foreground">
+            Compile the companion prompt for a real line or for made-up inputs. The realtime prompt
+            is what the voice bridge sends at the start of a call; the preview uses the
+            admin_preview profile. Token counts are estimates.
+          </div>
+
+          <PromptPlaygroundClient versions={versions} defaultVersion={DEFAULT_PROMPT_VERSION} />
+        </div>
+      </PageBody>
+    </div>
+  );
+}
@@ -372,6 +372,7 @@ export type Database = {
           trial_ends_at: string | null
           trial_plan_id: string | null
           trial_starts_at: string | null
+          voice_provider: string | null
         }
         Insert: {
           billing_email: string
@@ -391,6 +392,7 @@ export type Database = {
           trial_ends_at?: string | null
           trial_plan_id?: string | null
           trial_starts_at?: string | null
+          voice_provider?: string | null
         }
         Update: {
           billing_email?: string
@@ -410,6 +412,7 @@ export type Database = {
           trial_ends_at?: string | null
           trial_plan_id?: string | null
           trial_starts_at?: string | null
+          voice_provider?: string | null
         }
         Relationships: [
           {
@@ -435,6 +438,74 @@ export type Database = {
           },
         ]
       }
+      ultaura_briefing_items: {
+        Row: {
+          account_id: string
+          briefing_date: string
+          call_session_id: string
+          content_item_id: string
+          created_at: string
+          id: string
+          line_id: string
+          mentioned: boolean
+          mentioned_at: string | null
+          position: number
+        }
+        Insert: {
+          account_id: string
+          briefing_date: string
+          call_session_id: string
+          content_item_id: string
+          created_at?: string
+          id?: string
+          line_id: string
+          mentioned?: boolean
+          mentioned_at?: string | null
+          position: number
+        }
+        Update: {
+          account_id?: string
+          briefing_date?: string
+          call_session_id?: string
+          content_item_id?: string
+          created_at?: string
+          id?: string
+          line_id?: string
+          mentioned?: boolean
+          mentioned_at?: string | null
+          position?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ultaura_briefing_items_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "ultaura_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ultaura_briefing_items_call_session_id_fkey"
+            columns: ["call_session_id"]
+            isOneToOne: false
+            referencedRelation: "ultaura_call_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ultaura_briefing_items_content_item_id_fkey"
+            columns: ["content_item_id"]
+            isOneToOne: false
+            referencedRelation: "ultaura_content_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ultaura_briefing_items_line_id_fkey"
+            columns: ["line_id"]
+            isOneToOne: false
+            referencedRelation: "ultaura_lines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ultaura_call_events: {
         Row: {
           call_session_id: string
@@ -543,6 +614,92 @@ export type Database = {
           },
         ]
       }
+      ultaura_call_previews: {
+        Row: {
+          account_id: string
+          call_session_id: string | null
+          created_at: string
+          expected_by: string | null
+          follow_through_response: string | null
+          id: string
+          line_id: string
+          missed_calls: number
+          offered_topics: string[]
+          segment_id: string | null
+          status: string
+          topic_display: string
+          topic_key: string
+          topic_type: string
+          used_at: string | null
+          used_call_session_id: string | null
+        }
+        Insert: {
+          account_id: string
+          call_session_id?: string | null
+          created_at?: string
+          expected_by?: string | null
+          follow_through_response?: string | null
+          id?: string
+          line_id: string
+          missed_calls?: number
+          offered_topics?: string[]
+          segment_id?: string | null
+          status?: string
+          topic_display: string
+          topic_key: string
+          topic_type: string
+          used_at?: string | null
+          used_call_session_id?: string | null
+        }
+        Update: {
+          account_id?: string
+          call_session_id?: string | null
+          created_at?: string
+          expected_by?: string | null
+          follow_through_response?: string | null
+          id?: string
+          line_id?: string
+          missed_calls?: number
+          offered_topics?: string[]
+          segment_id?: string | null
+          status?: string
+          topic_display?: string
+          topic_key?: string
+          topic_type?: string
+          used_at?: string | null
+          used_call_session_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ultaura_call_previews_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "ultaura_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ultaura_call_previews_call_session_id_fkey"
+            columns: ["call_session_id"]
+            isOneToOne: false
+            referencedRelation: "ultaura_call_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ultaura_call_previews_line_id_fkey"
+            columns: ["line_id"]
+            isOneToOne: false
+            referencedRelation: "ultaura_lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ultaura_call_previews_used_call_session_id_fkey"
+            columns: ["used_call_session_id"]
+            isOneToOne: false
+            referencedRelation: "ultaura_call_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ultaura_call_sessions: {
         Row: {
           account_id: string
@@ -561,9 +718,12 @@ export type Database = {
           is_test_call: boolean
           language_detected: string | null
           line_id: string
+          prompt_experiment_id: string | null
+          prompt_version: string | null
           recording_deleted_at: string | null
           recording_deletion_reason: string | null
           recording_sid: string | null
+          reminder_delivery_method: string | null
           reminder_id: string | null
           reminder_message: string | null
           scheduler_idempotency_key: string | null
@@ -592,9 +752,12 @@ export type Database = {
           is_test_call?: boolean
           language_detected?: string | null
           line_id: string
+          prompt_experiment_id?: string | null
+          prompt_version?: string | null
           recording_deleted_at?: string | null
           recording_deletion_reason?: string | null
           recording_sid?: string | null
+          reminder_delivery_method?: string | null
           reminder_id?: string | null
           reminder_message?: string | null
           scheduler_idempotency_key?: string | null
@@ -623,9 +786,12 @@ export type Database = {
           is_test_call?: boolean
           language_detected?: string | null
           line_id?: string
+          prompt_experiment_id?: string | null
+          prompt_version?: string | null
           recording_deleted_at?: string | null
           recording_deletion_reason?: string | null
           recording_sid?: string | null
+          reminder_delivery_method?: string | null
           reminder_id?: string | null
           reminder_message?: string | null
           scheduler_idempotency_key?: string | null
@@ -792,6 +958,142 @@ export type Database = {
           },
         ]
       }
+      ultaura_content_feeds: {
+        Row: {
+          account_id: string | null
+          created_at: string
+          enabled: boolean
+          id: string
+          last_error: string | null
+          last_fetched_at: string | null
+          line_id: string | null
+          name: string
+          region: string | null
+          source_type: string
+          topics: string[]
+          url: string
+        }
+        Insert: {
+          account_id?: string | null
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          last_error?: string | null
+          last_fetched_at?: string | null
+          line_id?: string | null
+          name: string
+          region?: string | null
+          source_type: string
+          topics?: string[]
+          url: string
+        }
+        Update: {
+          account_id?: string | null
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          last_error?: string | null
+          last_fetched_at?: string | null
+          line_id?: string | null
+          name?: string
+          region?: string | null
+          source_type?: string
+          topics?: string[]
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ultaura_content_feeds_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "ultaura_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ultaura_content_feeds_line_id_fkey"
+            columns: ["line_id"]
+            isOneToOne: false
+            referencedRelation: "ultaura_lines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ultaura_content_items: {
+        Row: {
+          account_id: string | null
+          created_at: string
+          created_by: string | null
+          expires_at: string | null
+          external_id: string | null
+          feed_id: string | null
+          id: string
+          line_id: string | null
+          published_at: string
+          region: string | null
+          source_type: string
+          summary: string | null
+          title: string
+          topics: string[]
+          url: string | null
+        }
+        Insert: {
+          account_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          external_id?: string | null
+          feed_id?: string | null
+          id?: string
+          line_id?: string | null
+          published_at?: string
+          region?: string | null
+          source_type: string
+          summary?: string | null
+          title: string
+          topics?: string[]
+          url?: string | null
+        }
+        Update: {
+          account_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          external_id?: string | null
+          feed_id?: string | null
+          id?: string
+          line_id?: string | null
+          published_at?: string
+          region?: string | null
+          source_type?: string
+          summary?: string | null
+          title?: string
+          topics?: string[]
+          url?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ultaura_content_items_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "ultaura_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ultaura_content_items_feed_id_fkey"
+            columns: ["feed_id"]
+            isOneToOne: false
+            referencedRelation: "ultaura_content_feeds"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ultaura_content_items_line_id_fkey"
+            columns: ["line_id"]
+            isOneToOne: false
+            referencedRelation: "ultaura_lines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ultaura_data_export_requests: {
         Row: {
           account_id: string
@@ -950,6 +1252,38 @@ export type Database = {
           },
         ]
       }
+      ultaura_line_answer_patterns: {
+        Row: {
+          answer_rate: number | null
+          line_id: string
+          sample_size: number
+          slots: Json
+          updated_at: string
+        }
+        Insert: {
+          answer_rate?: number | null
+          line_id: string
+          sample_size?: number
+          slots?: Json
+          updated_at?: string
+        }
+        Update: {
+          answer_rate?: number | null
+          line_id?: string
+          sample_size?: number
+          slots?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ultaura_line_answer_patterns_line_id_fkey"
+            columns: ["line_id"]
+            isOneToOne: true
+            referencedRelation: "ultaura_lines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ultaura_line_baselines: {
         Row: {
           answer_rate: number | null
@@ -1056,16 +1390,20 @@ export type Database = {
         Row: {
           account_id: string
           allow_voice_reminder_control: boolean
+          briefing_region: string | null
           consecutive_missed_calls: number
+          consecutive_missed_doses: number
           created_at: string
           display_name: string
           do_not_call: boolean
+          dtmf_keymap: Json | null
           id: string
           inbound_allowed: boolean
           last_answered_call_at: string | null
           last_successful_call_at: string | null
           last_weekly_summary_at: string | null
           missed_alert_sent_at: string | null
+          missed_dose_alert_sent_at: string | null
           next_scheduled_call_at: string | null
           phone_e164: string
           phone_verified_at: string | null
@@ -1076,21 +1414,26 @@ export type Database = {
           short_id: string
           status: Database["public"]["Enums"]["ultaura_line_status"]
           timezone: string
+          voice_provider: string | null
           voicemail_behavior: string
         }
         Insert: {
           account_id: string
           allow_voice_reminder_control?: boolean
+          briefing_region?: string | null
           consecutive_missed_calls?: number
+          consecutive_missed_doses?: number
           created_at?: string
           display_name: string
           do_not_call?: boolean
+          dtmf_keymap?: Json | null
           id?: string
           inbound_allowed?: boolean
           last_answered_call_at?: string | null
           last_successful_call_at?: string | null
           last_weekly_summary_at?: string | null
           missed_alert_sent_at?: string | null
+          missed_dose_alert_sent_at?: string | null
           next_scheduled_call_at?: string | null
           phone_e164: string
           phone_verified_at?: string | null
@@ -1101,21 +1444,26 @@ export type Database = {
           short_id: string
           status?: Database["public"]["Enums"]["ultaura_line_status"]
           timezone?: string
+          voice_provider?: string | null
           voicemail_behavior?: string
         }
         Update: {
           account_id?: string
           allow_voice_reminder_control?: boolean
+          briefing_region?: string | null
           consecutive_missed_calls?: number
+          consecutive_missed_doses?: number
           created_at?: string
           display_name?: string
           do_not_call?: boolean
+          dtmf_keymap?: Json | null
           id?: string
           inbound_allowed?: boolean
           last_answered_call_at?: string | null
           last_successful_call_at?: string | null
           last_weekly_summary_at?: string | null
           missed_alert_sent_at?: string | null
+          missed_dose_alert_sent_at?: string | null
           next_scheduled_call_at?: string | null
           phone_e164?: string
           phone_verified_at?: string | null
@@ -1126,6 +1474,7 @@ export type Database = {
           short_id?: string
           status?: Database["public"]["Enums"]["ultaura_line_status"]
           timezone?: string
+          voice_provider?: string | null
           voicemail_behavior?: string
         }
         Relationships: [
@@ -1144,12 +1493,16 @@ export type Database = {
           active: boolean
           confidence: number | null
           created_at: string
+          due_at: string | null
           id: string
           key: string
           line_id: string
           privacy_scope: Database["public"]["Enums"]["ultaura_privacy_scope"]
           redaction_level: string
+          resolved_at: string | null
           source: string | null
+          superseded_at: string | null
+          superseded_by: string | null
           type: Database["public"]["Enums"]["ultaura_memory_type"]
           updated_at: string | null
           value_alg: string
@@ -1164,12 +1517,16 @@ export type Database = {
           active?: boolean
           confidence?: number | null
           created_at?: string
+          due_at?: string | null
           id?: string
           key: string
           line_id: string
           privacy_scope?: Database["public"]["Enums"]["ultaura_privacy_scope"]
           redaction_level?: string
+          resolved_at?: string | null
           source?: string | null
+          superseded_at?: string | null
+          superseded_by?: string | null
           type: Database["public"]["Enums"]["ultaura_memory_type"]
           updated_at?: string | null
           value_alg?: string
@@ -1184,12 +1541,16 @@ export type Database = {
           active?: boolean
           confidence?: number | null
           created_at?: string
+          due_at?: string | null
           id?: string
           key?: string
           line_id?: string
           privacy_scope?: Database["public"]["Enums"]["ultaura_privacy_scope"]
           redaction_level?: string
+          resolved_at?: string | null
           source?: string | null
+          superseded_at?: string | null
+          superseded_by?: string | null
           type?: Database["public"]["Enums"]["ultaura_memory_type"]
           updated_at?: string | null
           value_alg?: string
@@ -1214,6 +1575,102 @@ export type Database = {
             referencedRelation: "ultaura_lines"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "ultaura_memories_superseded_by_fkey"
+            columns: ["superseded_by"]
+            isOneToOne: false
+            referencedRelation: "ultaura_memories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ultaura_memory_update_proposals: {
+        Row: {
+          account_id: string
+          call_session_id: string | null
+          confidence: number | null
+          created_at: string
+          id: string
+          key: string
+          line_id: string
+          memory_id: string
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          type: Database["public"]["Enums"]["ultaura_memory_type"]
+          value_alg: string
+          value_ciphertext: string
+          value_iv: string
+          value_kid: string
+          value_tag: string
+        }
+        Insert: {
+          account_id: string
+          call_session_id?: string | null
+          confidence?: number | null
+          created_at?: string
+          id?: string
+          key: string
+          line_id: string
+          memory_id: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          type: Database["public"]["Enums"]["ultaura_memory_type"]
+          value_alg?: string
+          value_ciphertext: string
+          value_iv: string
+          value_kid: string
+          value_tag: string
+        }
+        Update: {
+          account_id?: string
+          call_session_id?: string | null
+          confidence?: number | null
+          created_at?: string
+          id?: string
+          key?: string
+          line_id?: string
+          memory_id?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          type?: Database["public"]["Enums"]["ultaura_memory_type"]
+          value_alg?: string
+          value_ciphertext?: string
+          value_iv?: string
+          value_kid?: string
+          value_tag?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ultaura_memory_update_proposals_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "ultaura_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ultaura_memory_update_proposals_call_session_id_fkey"
+            columns: ["call_session_id"]
+            isOneToOne: false
+            referencedRelation: "ultaura_call_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ultaura_memory_update_proposals_line_id_fkey"
+            columns: ["line_id"]
+            isOneToOne: false
+            referencedRelation: "ultaura_lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ultaura_memory_update_proposals_memory_id_fkey"
+            columns: ["memory_id"]
+            isOneToOne: false
+            referencedRelation: "ultaura_memories"
+            referencedColumns: ["id"]
+          },
         ]
       }
       ultaura_minute_ledger: {
@@ -1287,6 +1744,8 @@ export type Database = {
           account_id: string
           alert_missed_calls_enabled: boolean
           alert_missed_calls_threshold: number
+          alert_missed_doses_enabled: boolean
+          alert_missed_doses_threshold: number
           created_at: string
           id: string
           line_id: string
@@ -1300,6 +1759,8 @@ export type Database = {
           account_id: string
           alert_missed_calls_enabled?: boolean
           alert_missed_calls_threshold?: number
+          alert_missed_doses_enabled?: boolean
+          alert_missed_doses_threshold?: number
           created_at?: string
           id?: string
           line_id: string
@@ -1313,6 +1774,8 @@ export type Database = {
           account_id?: string
           alert_missed_calls_enabled?: boolean
           alert_missed_calls_threshold?: number
+          alert_missed_doses_enabled?: boolean
+          alert_missed_doses_threshold?: number
           created_at?: string
           id?: string
           line_id?: string
@@ -1585,6 +2048,77 @@ export type Database = {
           },
         ]
       }
+      ultaura_reminder_confirmations: {
+        Row: {
+          account_id: string
+          call_session_id: string | null
+          created_at: string
+          follow_up_attempts: number
+          id: string
+          line_id: string
+          next_follow_up_at: string | null
+          occurrence_due_at: string
+          reminder_id: string
+          responded_at: string | null
+          status: string
+        }
+        Insert: {
+          account_id: string
+          call_session_id?: string | null
+          created_at?: string
+          follow_up_attempts?: number
+          id?: string
+          line_id: string
+          next_follow_up_at?: string | null
+          occurrence_due_at: string
+          reminder_id: string
+          responded_at?: string | null
+          status?: string
+        }
+        Update: {
+          account_id?: string
+          call_session_id?: string | null
+          created_at?: string
+          follow_up_attempts?: number
+          id?: string
+          line_id?: string
+          next_follow_up_at?: string | null
+          occurrence_due_at?: string
+          reminder_id?: string
+          responded_at?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ultaura_reminder_confirmations_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "ultaura_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ultaura_reminder_confirmations_call_session_id_fkey"
+            columns: ["call_session_id"]
+            isOneToOne: false
+            referencedRelation: "ultaura_call_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ultaura_reminder_confirmations_line_id_fkey"
+            columns: ["line_id"]
+            isOneToOne: false
+            referencedRelation: "ultaura_lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ultaura_reminder_confirmations_reminder_id_fkey"
+            columns: ["reminder_id"]
+            isOneToOne: false
+            referencedRelation: "ultaura_reminders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ultaura_reminder_events: {
         Row: {
           account_id: string
@@ -1661,6 +2195,7 @@ export type Database = {
           delivery_method: string
           due_at: string
           ends_at: string | null
+          excluded_dates: string[]
           id: string
           interval_days: number | null
           is_paused: boolean
@@ -1674,6 +2209,7 @@ export type Database = {
           privacy_scope: Database["public"]["Enums"]["ultaura_privacy_scope"]
           processing_claimed_at: string | null
           processing_claimed_by: string | null
+          requires_confirmation: boolean
           rrule: string | null
           snoozed_until: string | null
           status: Database["public"]["Enums"]["ultaura_reminder_status"]
@@ -1690,6 +2226,7 @@ export type Database = {
           delivery_method?: string
           due_at: string
           ends_at?: string | null
+          excluded_dates?: string[]
           id?: string
           interval_days?: number | null
           is_paused?: boolean
@@ -1703,6 +2240,7 @@ export type Database = {
           privacy_scope?: Database["public"]["Enums"]["ultaura_privacy_scope"]
           processing_claimed_at?: string | null
           processing_claimed_by?: string | null
+          requires_confirmation?: boolean
           rrule?: string | null
           snoozed_until?: string | null
           status?: Database["public"]["Enums"]["ultaura_reminder_status"]
@@ -1719,6 +2257,7 @@ export type Database = {
           delivery_method?: string
           due_at?: string
           ends_at?: string | null
+          excluded_dates?: string[]
           id?: string
           interval_days?: number | null
           is_paused?: boolean
@@ -1732,6 +2271,7 @@ export type Database = {
           privacy_scope?: Database["public"]["Enums"]["ultaura_privacy_scope"]
           processing_claimed_at?: string | null
           processing_claimed_by?: string | null
+          requires_confirmation?: boolean
           rrule?: string | null
           snoozed_until?: string | null
           status?: Database["public"]["Enums"]["ultaura_reminder_status"]
@@ -1762,38 +2302,127 @@ export type Database = {
           },
         ]
       }
+      ultaura_safety_escalation_attempts: {
+        Row: {
+          account_id: string
+          channel: string
+          contact_id: string | null
+          created_at: string
+          id: string
+          safety_event_id: string
+          status: string
+          step: number
+          twilio_sid: string | null
+        }
+        Insert: {
+          account_id: string
+          channel: string
+          contact_id?: string | null
+          created_at?: string
+          id?: string
+          safety_event_id: string
+          status: string
+          step: number
+          twilio_sid?: string | null
+        }
+        Update: {
+          account_id?: string
+          channel?: string
+          contact_id?: string | null
+          created_at?: string
+          id?: string
+          safety_event_id?: string
+          status?: string
+          step?: number
+          twilio_sid?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ultaura_safety_escalation_attempts_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "ultaura_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ultaura_safety_escalation_attempts_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "ultaura_trusted_contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ultaura_safety_escalation_attempts_safety_event_id_fkey"
+            columns: ["safety_event_id"]
+            isOneToOne: false
+            referencedRelation: "ultaura_safety_events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ultaura_safety_events: {
         Row: {
           account_id: string
+          acknowledged_at: string | null
+          acknowledged_by_contact_id: string | null
           action_taken: string | null
           call_session_id: string | null
           created_at: string
+          escalation_status: string | null
+          escalation_step: number
           id: string
           line_id: string
+          next_escalation_at: string | null
           signals: Json | null
           tier: Database["public"]["Enums"]["ultaura_safety_tier"]
+          transfer_contact_id: string | null
+          transfer_status: string | null
+          transfer_updated_at: string | null
         }
         Insert: {
           account_id: string
+          acknowledged_at?: string | null
+          acknowledged_by_contact_id?: string | null
           action_taken?: string | null
           call_session_id?: string | null
           created_at?: string
+          escalation_status?: string | null
+          escalation_step?: number
           id?: string
           line_id: string
+          next_escalation_at?: string | null
           signals?: Json | null
           tier: Database["public"]["Enums"]["ultaura_safety_tier"]
+          transfer_contact_id?: string | null
+          transfer_status?: string | null
+          transfer_updated_at?: string | null
         }
         Update: {
           account_id?: string
+          acknowledged_at?: string | null
+          acknowledged_by_contact_id?: string | null
           action_taken?: string | null
           call_session_id?: string | null
           created_at?: string
+          escalation_status?: string | null
+          escalation_step?: number
           id?: string
           line_id?: string
+          next_escalation_at?: string | null
           signals?: Json | null
           tier?: Database["public"]["Enums"]["ultaura_safety_tier"]
+          transfer_contact_id?: string | null
+          transfer_status?: string | null
+          transfer_updated_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "ultaura_safety_events_acknowledged_by_contact_id_fkey"
+            columns: ["acknowledged_by_contact_id"]
+            isOneToOne: false
+            referencedRelation: "ultaura_trusted_contacts"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "ultaura_safety_events_account_id_fkey"
             columns: ["account_id"]
@@ -1815,6 +2444,13 @@ export type Database = {
             referencedRelation: "ultaura_lines"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "ultaura_safety_events_transfer_contact_id_fkey"
+            columns: ["transfer_contact_id"]
+            isOneToOne: false
+            referencedRelation: "ultaura_trusted_contacts"
+            referencedColumns: ["id"]
+          },
         ]
       }
       ultaura_scheduler_leases: {
@@ -1847,10 +2483,12 @@ export type Database = {
       ultaura_schedules: {
         Row: {
           account_id: string
+          call_windows: Json
           created_at: string
           days_of_week: number[]
           enabled: boolean
           id: string
+          is_one_off: boolean
           last_result:
             | Database["public"]["Enums"]["ultaura_schedule_result"]
             | null
@@ -1866,10 +2504,12 @@ export type Database = {
         }
         Insert: {
           account_id: string
+          call_windows?: Json
           created_at?: string
           days_of_week?: number[]
           enabled?: boolean
           id?: string
+          is_one_off?: boolean
           last_result?:
             | Database["public"]["Enums"]["ultaura_schedule_result"]
             | null
@@ -1885,10 +2525,12 @@ export type Database = {
         }
         Update: {
           account_id?: string
+          call_windows?: Json
           created_at?: string
           days_of_week?: number[]
           enabled?: boolean
           id?: string
+          is_one_off?: boolean
           last_result?:
             | Database["public"]["Enums"]["ultaura_schedule_result"]
             | null
@@ -1919,6 +2561,73 @@ export type Database = {
           },
         ]
       }
+      ultaura_segment_engagement: {
+        Row: {
+          account_id: string
+          call_engagement_score: number | null
+          call_session_id: string
+          completed: boolean
+          created_at: string
+          id: string
+          line_id: string
+          responded_at: string | null
+          segment_domain: string | null
+          segment_id: string
+          segment_type: string
+          senior_response: string | null
+        }
+        Insert: {
+          account_id: string
+          call_engagement_score?: number | null
+          call_session_id: string
+          completed?: boolean
+          created_at?: string
+          id?: string
+          line_id: string
+          responded_at?: string | null
+          segment_domain?: string | null
+          segment_id: string
+          segment_type: string
+          senior_response?: string | null
+        }
+        Update: {
+          account_id?: string
+          call_engagement_score?: number | null
+          call_session_id?: string
+          completed?: boolean
+          created_at?: string
+          id?: string
+          line_id?: string
+          responded_at?: string | null
+          segment_domain?: string | null
+          segment_id?: string
+          segment_type?: string
+          senior_response?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ultaura_segment_engagement_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "ultaura_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ultaura_segment_engagement_call_session_id_fkey"
+            columns: ["call_session_id"]
+            isOneToOne: true
+            referencedRelation: "ultaura_call_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ultaura_segment_engagement_line_id_fkey"
+            columns: ["line_id"]
+            isOneToOne: false
+            referencedRelation: "ultaura_lines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ultaura_subscriptions: {
         Row: {
           account_id: string
@@ -2184,6 +2893,7 @@ export type Database = {
           privacy_scope: Database["public"]["Enums"]["ultaura_privacy_scope"]
           processing_claimed_at: string | null
           processing_claimed_by: string | null
+          requires_confirmation: boolean
           rrule: string | null
           snoozed_until: string | null
           status: Database["public"]["Enums"]["ultaura_reminder_status"]
@@ -2395,6 +3105,9 @@ export type Database = {
         | "vendor_acknowledged"
         | "data_export_requested"
         | "data_deletion_requested"
+        | "memory_added"
+        | "memory_corrected"
+        | "memory_deactivated"
       ultaura_consent_type:
         | "outbound_calls"
         | "trusted_contact_notify"
@@ -3204,6 +3917,9 @@ export const Constants = {
         "vendor_acknowledged",
         "data_export_requested",
         "data_deletion_requested",
+        "memory_added",
+        "memory_corrected",
+        "memory_deactivated",
       ],
       ultaura_consent_type: [
         "outbound_calls",
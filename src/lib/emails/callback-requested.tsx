@@ -0,0 +1,59 @@
+import {
+  Body,
+  Button,
+  Container,
+  Head,
+  Html,
+  Preview,
+  Text,
+  Tailwind,
+  render,
+} from '@react-email/components';
+
+import { brandColors } from '~/lib/brand-colors';
+
+interface CallbackRequestedProps {
+  lineName: string;
+  callbackAtLocal: string;
+  scheduleUrl: string;
+}
+
+export default function renderCallbackRequestedEmail(props: CallbackRequestedProps) {
+  const previewText = `${props.lineName} asked for a callback`;
+
+  return render(
+    <Html>
+      <Head />
+      <Preview>{previewText}</Preview>
+
+      <Tailwind>
+        <Body className="bg-stone-50 my-auto mx-auto font-sans">
+          <Container className="border border-solid border-[#e7e5e4] rounded-lg my-[32px] mx-auto p-[24px] w-[560px] bg-white">
+            <Text className="text-[14px] text-stone-700 m-0">Hi,</Text>
+
+            <Text className="text-[14px] text-stone-700 mt-[12px] mb-0">
+              {props.lineName} called Ultaura but we couldn&apos;t take the call, so they asked us
+              to call them back.
+            </Text>
+
+            <Text className="text-[14px] text-stone-700 mt-[12px] mb-0">
+              We&apos;ll call them back on {props.callbackAtLocal}.
+            </Text>
+
+            <Button
+              href={props.scheduleUrl}
+              className="mt-[20px] rounded text-white text-[12px] px-[20px] py-[12px] font-semibold no-underline text-center"
+              style={{ backgroundColor: brandColors.primary }}
+            >
+              View Call Schedule
+            </Button>
+
+            <Text className="text-[14px] text-stone-700 mt-[18px] mb-0">
+              -- Ultaura
+            </Text>
+          </Container>
+        </Body>
+      </Tailwind>
+    </Html>,
+  );
+}
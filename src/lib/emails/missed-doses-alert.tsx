@@ -0,0 +1,86 @@
+import {
+  Body,
+  Button,
+  Container,
+  Head,
+  Html,
+  Preview,
+  Section,
+  Text,
+  Tailwind,
+  render,
+  Link,
+} from '@react-email/components';
+
+import { brandColors } from '~/lib/brand-colors';
+
+interface MissedDosesAlertProps {
+  lineName: string;
+  reminderMessage: string | null;
+  consecutiveMissedCount: number;
+  dashboardUrl: string;
+  settingsUrl: string;
+}
+
+export default function renderMissedDosesAlertEmail(props: MissedDosesAlertProps) {
+  const previewText = `Missed doses for ${props.lineName}`;
+
+  return render(
+    <Html>
+      <Head />
+      <Preview>{previewText}</Preview>
+
+      <Tailwind>
+        <Body className="bg-stone-50 my-auto mx-auto font-sans">
+          <Container className="border border-solid border-[#e7e5e4] rounded-lg my-[32px] mx-auto p-[24px] w-[560px] bg-white">
+            <Text className="text-[14px] text-stone-700 m-0">Hi,</Text>
+
+            <Text className="text-[14px] text-stone-700 mt-[12px] mb-0">
+              {props.lineName} has not confirmed {props.consecutiveMissedCount} reminders in a
+              row. They either said they wouldn&apos;t take it or didn&apos;t answer our follow-up
+              calls.
+            </Text>
+
+            {props.reminderMessage ? (
+              <Text className="text-[14px] text-stone-700 mt-[12px] mb-0">
+                Reminder: &ldquo;{props.reminderMessage}&rdquo;
+              </Text>
+            ) : null}
+
+            <Section className="mt-[16px]">
+              <Text className="text-[14px] text-stone-700 m-0">What you can do:</Text>
+              <Text className="text-[14px] text-stone-700 mt-[6px] mb-0">
+                - Give them a call to check in
+              </Text>
+              <Text className="text-[14px] text-stone-700 mt-[4px] mb-0">
+                - Review their confirmation history in your dashboard
+              </Text>
+            </Section>
+
+            <Section className="mt-[20px] text-center">
+              <Button
+                href={props.dashboardUrl}
+                className="rounded text-white text-[12px] px-[20px] py-[12px] font-semibold no-underline text-center"
+                style={{ backgroundColor: brandColors.primary }}
+              >
+                View Reminders
+              </Button>
+            </Section>
+
+            <Text className="text-[14px] text-stone-700 mt-[16px] mb-0">
+              You can change when we send these alerts in{' '}
+              <Link href={props.settingsUrl} style={{ color: brandColors.primary }}>
+                Notification Settings
+              </Link>
+              .
+            </Text>
+
+            <Text className="text-[14px] text-stone-700 mt-[18px] mb-0">
+              -- Ultaura
+            </Text>
+          </Container>
+        </Body>
+      </Tailwind>
+    </Html>,
+  );
+}
@@ -191,6 +191,26 @@ export default function renderWeeklySummaryEmail(summary: WeeklySummaryData) {
               </Section>
             ) : null}
 
+            {summary.openFollowUps.length > 0 ? (
+              <Section className="mt-[18px]">
+                <Heading className="text-[16px] font-semibold text-stone-900 m-0">
+                  Coming Up
+                </Heading>
+                <Text className="text-[14px] text-stone-700 mt-[6px] mb-0">
+                  Ultaura will ask {summary.lineName} how these went:
+                </Text>
+                {summary.openFollowUps.map((followUp, index) => (
+                  <Text
+                    key={`${followUp.label}-${index}`}
+                    className="text-[14px] text-stone-700 mt-[6px] mb-0"
+                  >
+                    {followUp.label}
+                    {followUp.dueDate ? ` (${followUp.dueDate})` : ''}
+                  </Text>
+                ))}
+              </Section>
+            ) : null}
+
             <Hr className="border border-solid border-[#e7e5e4] my-[20px] mx-0 w-full" />
 
             <Section className="text-center">
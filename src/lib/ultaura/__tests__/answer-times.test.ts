@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { applySuggestedTime, getAnswerTimeSuggestion } from '../answer-times';
+
+const quietHours = { start: '21:00', end: '08:00' };
+
+function slot(weekday: number, time: string, calls: number, rate: number) {
+  return { weekday, time, calls, answered: Math.round(calls * rate), rate };
+}
+
+describe('answer time suggestions', () => {
+  it('suggests the slot the line answers most across the schedule days', () => {
+    const suggestion = getAnswerTimeSuggestion({
+      pattern: {
+        answer_rate: 0.6,
+        slots: [
+          slot(1, '09:00', 4, 0.4),
+          slot(3, '09:00', 4, 0.42),
+          slot(1, '10:30', 3, 0.9),
+          slot(3, '10:30', 3, 0.94),
+        ],
+      },
+      daysOfWeek: [1, 3],
+      windows: [{ start: '09:00', end: '10:00' }],
+      quietHours,
+    });
+
+    expect(suggestion).toEqual({
+      currentTime: '09:00',
+      currentRate: expect.closeTo(0.41, 5),
+      suggestedTime: '10:30',
+      suggestedRate: expect.closeTo(0.92, 5),
+    });
+  });
+
+  it('needs enough calls at the current time', () => {
+    const suggestion = getAnswerTimeSuggestion({
+      pattern: { answer_rate: 0.6, slots: [slot(1, '09:00', 1, 0.2), slot(1, '10:30', 5, 0.9)] },
+      daysOfWeek: [1],
+      windows: [{ start: '09:00', end: '10:00' }],
+      quietHours,
+    });
+
+    expect(suggestion).toBeNull();
+  });
+
+  it('ignores small improvements and quiet hours', () => {
+    const suggestion = getAnswerTimeSuggestion({
+      pattern: {
+        answer_rate: 0.6,
+        slots: [slot(1, '09:00', 4, 0.6), slot(1, '10:00', 4, 0.7), slot(1, '07:00', 4, 0.95)],
+      },
+      daysOfWeek: [1],
+      windows: [{ start: '09:00', end: '10:00' }],
+      quietHours,
+    });
+
+    expect(suggestion).toBeNull();
+  });
+
+  it('keeps the first window clear of the next one', () => {
+    const suggestion = getAnswerTimeSuggestion({
+      pattern: {
+        answer_rate: 0.5,
+        slots: [slot(1, '09:00', 4, 0.3), slot(1, '17:30', 4, 0.95), slot(1, '11:00', 4, 0.7)],
+      },
+      daysOfWeek: [1],
+      windows: [{ start: '09:00', end: '10:00' }, { start: '18:00', end: '19:00' }],
+      quietHours,
+    });
+
+    expect(suggestion?.suggestedTime).toBe('11:00');
+  });
+
+  it('moves the first window and keeps its length', () => {
+    expect(
+      applySuggestedTime(
+        [{ start: '09:00', end: '10:30' }, { start: '18:00', end: '19:00' }],
+        '11:00'
+      )
+    ).toEqual([{ start: '11:00', end: '12:30' }, { start: '18:00', end: '19:00' }]);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { getCallPreviewDelivery } from '../call-preview-delivery';
+
+const now = new Date('2026-02-10T20:00:00Z').getTime();
+
+function preview(overrides: Partial<Parameters<typeof getCallPreviewDelivery>[0]> = {}) {
+  return { status: 'pending' as const, expectedBy: null, missedCalls: 0, ...overrides };
+}
+
+describe('call preview delivery', () => {
+  it('counts used and declined previews as delivered', () => {
+    expect(getCallPreviewDelivery(preview({ status: 'used' }), now)).toBe('delivered');
+    expect(getCallPreviewDelivery(preview({ status: 'declined', missedCalls: 2 }), now)).toBe('delivered');
+  });
+
+  it('labels expired previews as expired', () => {
+    expect(getCallPreviewDelivery(preview({ status: 'expired', missedCalls: 1 }), now)).toBe('expired');
+  });
+
+  it('labels a pending preview missed once a call went by without it', () => {
+    expect(getCallPreviewDelivery(preview({ missedCalls: 1, expectedBy: '2026-02-10T19:00:00Z' }), now)).toBe('missed');
+  });
+
+  it('labels a pending preview overdue six hours after its expected call', () => {
+    expect(getCallPreviewDelivery(preview({ expectedBy: '2026-02-10T13:59:00Z' }), now)).toBe('overdue');
+    expect(getCallPreviewDelivery(preview({ expectedBy: '2026-02-10T14:00:00Z' }), now)).toBe('upcoming');
+  });
+
+  it('treats a pending preview with no expected call as upcoming', () => {
+    expect(getCallPreviewDelivery(preview(), now)).toBe('upcoming');
+  });
+});
@@ -3,6 +3,8 @@ import { DateTime } from 'luxon';
 import { ErrorCodes } from '@ultaura/schemas';
 import {
   createReminder,
+  editReminder,
+  getReminder,
   pauseReminder,
   snoozeReminder,
 } from '../reminders';
@@ -113,6 +115,145 @@ describe('reminders', () => {
     }
   });
 
+  it('stores and edits the confirmation requirement', async () => {
+    const dueAt = DateTime.now()
+      .setZone('America/Los_Angeles')
+      .plus({ days: 2 })
+      .toFormat("yyyy-MM-dd'T'HH:mm:ss");
+
+    const created = await createReminder({
+      lineId,
+      dueAt,
+      message: 'Take blood pressure pill',
+      timezone: 'America/Los_Angeles',
+      requiresConfirmation: true,
+    });
+
+    expect(created.success).toBe(true);
+    if (!created.success) return;
+    expect(created.data.requires_confirmation).toBe(true);
+
+    const edited = await editReminder(created.data.id, { requiresConfirmation: false }, lineShortId);
+    expect(edited.success).toBe(true);
+
+    const reminder = await getReminder(created.data.id);
+    expect(reminder?.requires_confirmation).toBe(false);
+  });
+
+  it('stores and edits the delivery method', async () => {
+    const dueAt = DateTime.now()
+      .setZone('America/Los_Angeles')
+      .plus({ days: 2 })
+      .toFormat("yyyy-MM-dd'T'HH:mm:ss");
+
+    const created = await createReminder({
+      lineId,
+      dueAt,
+      message: 'Dentist at 3pm',
+      timezone: 'America/Los_Angeles',
+      deliveryMethod: 'sms',
+    });
+
+    expect(created.success).toBe(true);
+    if (!created.success) return;
+    expect(created.data.delivery_method).toBe('sms');
+
+    const edited = await editReminder(
+      created.data.id,
+      { deliveryMethod: 'call_then_sms_fallback' },
+      lineShortId
+    );
+    expect(edited.success).toBe(true);
+
+    const reminder = await getReminder(created.data.id);
+    expect(reminder?.delivery_method).toBe('call_then_sms_fallback');
+  });
+
+  it('starts a second-Tuesday reminder on the first second Tuesday after the entered date', async () => {
+    const created = await createReminder({
+      lineId,
+      dueAt: '2027-03-01T09:00:00',
+      message: 'Book club',
+      timezone: 'America/Los_Angeles',
+      recurrence: { frequency: 'monthly', daysOfWeek: [2], weekOfMonth: 2 },
+    });
+
+    expect(created.success).toBe(true);
+    if (!created.success) return;
+
+    const local = DateTime.fromISO(created.data.due_at).setZone('America/Los_Angeles');
+    expect(local.toISODate()).toBe('2027-03-09');
+    expect(local.hour).toBe(9);
+  });
+
+  it('does not start a reminder on a skipped date', async () => {
+    const created = await createReminder({
+      lineId,
+      dueAt: '2027-03-01T09:00:00',
+      message: 'Morning walk',
+      timezone: 'America/Los_Angeles',
+      recurrence: { frequency: 'daily', excludedDates: ['2027-03-01'] },
+    });
+
+    expect(created.success).toBe(true);
+    if (!created.success) return;
+
+    expect(DateTime.fromISO(created.data.due_at).setZone('America/Los_Angeles').toISODate())
+      .toBe('2027-03-02');
+
+    const edited = await editReminder(
+      created.data.id,
+      { excludedDates: ['2027-03-01', '2027-03-02'] },
+      lineShortId
+    );
+    expect(edited.success).toBe(true);
+
+    const reminder = await getReminder(created.data.id);
+    expect(DateTime.fromISO(reminder!.due_at).setZone('America/Los_Angeles').toISODate())
+      .toBe('2027-03-03');
+  });
+
+  it('moves the next call onto the edited repeat pattern', async () => {
+    const created = await createReminder({
+      lineId,
+      dueAt: '2027-03-01T09:00:00',
+      message: 'Water the plants',
+      timezone: 'America/Los_Angeles',
+      recurrence: { frequency: 'weekly', daysOfWeek: [1] },
+    });
+
+    expect(created.success).toBe(true);
+    if (!created.success) return;
+
+    const edited = await editReminder(
+      created.data.id,
+      { recurrence: { frequency: 'weekly', daysOfWeek: [3] } },
+      lineShortId
+    );
+    expect(edited.success).toBe(true);
+
+    const reminder = await getReminder(created.data.id);
+    expect(DateTime.fromISO(reminder!.due_at).setZone('America/Los_Angeles').toISODate())
+      .toBe('2027-03-03');
+  });
+
+  it('counts the start itself as the first occurrence when the rule produces it', () => {
+    const startAt = DateTime.fromISO('2026-02-10T09:00:00', { zone: 'America/New_York' })
+      .toUTC()
+      .toJSDate();
+    const params = {
+      rrule: 'FREQ=MONTHLY;BYDAY=2TU',
+      timezone: 'America/New_York',
+      timeOfDay: '09:00',
+      currentDueAt: startAt,
+      includeCurrent: true,
+    };
+
+    expect(getNextReminderOccurrence(params)?.toISOString()).toBe(startAt.toISOString());
+    expect(getNextReminderOccurrence({ ...params, excludedDates: ['2026-02-10'] })?.toISOString())
+      .toBe('2026-03-10T13:00:00.000Z');
+  });
+
   it('calculates next monthly occurrence by clamping to month length', () => {
     const currentDueAt = DateTime.fromISO('2023-01-31T09:00:00', {
       zone: 'America/New_York',
@@ -135,4 +276,26 @@ describe('reminders', () => {
     expect(local.month).toBe(2);
     expect(local.day).toBe(28);
   });
+
+  it('keeps the local time for an ordinal weekday across DST', () => {
+    const currentDueAt = DateTime.fromISO('2026-02-10T09:00:00', {
+      zone: 'America/New_York',
+    })
+      .toUTC()
+      .toJSDate();
+
+    const next = getNextReminderOccurrence({
+      rrule: 'FREQ=MONTHLY;BYDAY=2TU',
+      timezone: 'America/New_York',
+      timeOfDay: '09:00',
+      currentDueAt,
+    });
+
+    expect(next).not.toBeNull();
+    if (!next) return;
+
+    const local = DateTime.fromJSDate(next).setZone('America/New_York');
+    expect(local.toISODate()).toBe('2026-03-10');
+    expect(local.hour).toBe(9);
+  });
 });
@@ -0,0 +1,78 @@
+'use server';
+
+import getSupabaseServerComponentClient from '~/core/supabase/server-component-client';
+import getLogger from '~/core/logger';
+import type {
+  AdherenceSummary,
+  ReminderConfirmationEntry,
+  ReminderConfirmationStatus,
+} from './types';
+
+const logger = getLogger();
+
+const SETTLED_STATUSES: ReminderConfirmationStatus[] = ['taken', 'refused', 'missed'];
+
+// Confirmation history for reminders that ask the senior whether they took the dose, newest first
+export async function getAdherenceSummary(lineId: string, limit = 30): Promise<AdherenceSummary> {
+  const client = getSupabaseServerComponentClient();
+
+  const [confirmationsResult, lineResult] = await Promise.all([
+    client
+      .from('ultaura_reminder_confirmations')
+      .select(`
+        id, reminder_id, line_id, occurrence_due_at, status, follow_up_attempts, responded_at,
+        ultaura_reminders!inner(message)
+      `)
+      .eq('line_id', lineId)
+      .order('occurrence_due_at', { ascending: false })
+      .limit(limit),
+    client
+      .from('ultaura_lines')
+      .select('consecutive_missed_doses')
+      .eq('id', lineId)
+      .maybeSingle(),
+  ]);
+
+  if (confirmationsResult.error) {
+    logger.error({ error: confirmationsResult.error }, 'Failed to get reminder confirmations');
+  }
+
+  if (lineResult.error) {
+    logger.error({ error: lineResult.error }, 'Failed to get line missed doses');
+  }
+
+  const rows = (confirmationsResult.data || []) as Array<{
+    id: string;
+    reminder_id: string;
+    line_id: string;
+    occurrence_due_at: string;
+    status: string;
+    follow_up_attempts: number;
+    responded_at: string | null;
+    ultaura_reminders?: { message?: string } | null;
+  }>;
+
+  const history: ReminderConfirmationEntry[] = rows.map((row) => ({
+    id: row.id,
+    reminderId: row.reminder_id,
+    lineId: row.line_id,
+    occurrenceDueAt: row.occurrence_due_at,
+    status: row.status as ReminderConfirmationStatus,
+    followUpAttempts: row.follow_up_attempts,
+    respondedAt: row.responded_at,
+    reminderMessage: row.ultaura_reminders?.message ?? null,
+  }));
+
+  const settled = history.filter((entry) => SETTLED_STATUSES.includes(entry.status));
+  const takenCount = settled.filter((entry) => entry.status === 'taken').length;
+  const firstNotTaken = settled.findIndex((entry) => entry.status !== 'taken');
+
+  return {
+    settledCount: settled.length,
+    takenCount,
+    takenRate: settled.length > 0 ? takenCount / settled.length : null,
+    currentTakenStreak: firstNotTaken === -1 ? settled.length : firstNotTaken,
+    consecutiveMissedDoses: lineResult.data?.consecutive_missed_doses ?? 0,
+    history,
+  };
+}
@@ -6,7 +6,22 @@ import GlobalRole from '~/core/session/types/global-role';
 import getSupabaseServerActionClient from '~/core/supabase/action-client';
 import requireSession from '~/lib/user/require-session';
 import type { Database } from '~/database.types';
-import type { DebugLog } from './admin-types';
+import type { AccountStatus, Memory, PlanId } from '@ultaura/types';
+import {
+  buildReminderPrompt,
+  compilePromptSections,
+  diffPromptLines,
+  estimateTokens,
+  getPromptVersion,
+  type CompanionPromptParams,
+  type CompiledPromptSection,
+} from '@ultaura/prompts';
+import type {
+  DebugLog,
+  PromptPlaygroundInput,
+  PromptPlaygroundPrompt,
+  PromptPlaygroundResult,
+} from './admin-types';
 
 type Filters = {
   startDate?: string;
@@ -94,3 +109,155 @@ export async function getDebugLogs(
 
   return { data: (data as DebugLog[]) || [], count: count || 0 };
 }
+
+async function requireUltauraAdmin(): Promise<void> {
+  if (!(await isUltauraAdmin())) {
+    throw new Error('Unauthorized');
+  }
+}
+
+// Prompt inputs taken from a real line, looked up by id or short id. Memories are encrypted and
+// private to the senior, so they are never loaded here.
+export async function getPromptPlaygroundLine(
+  lineRef: string
+): Promise<Partial<PromptPlaygroundInput> | null> {
+  await requireUltauraAdmin();
+
+  const adminClient = getSupabaseServerActionClient({ admin: true }) as SupabaseClient<Database>;
+  const ref = lineRef.trim();
+  const isUuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(ref);
+
+  const { data: line } = await adminClient
+    .from('ultaura_lines')
+    .select('id, account_id, display_name, timezone, seed_interests, seed_avoid_topics, last_successful_call_at')
+    .eq(isUuid ? 'id' : 'short_id', ref)
+    .maybeSingle();
+
+  if (!line) {
+    return null;
+  }
+
+  const [{ data: account }, { data: lastSession }] = await Promise.all([
+    adminClient
+      .from('ultaura_accounts')
+      .select('plan_id, status')
+      .eq('id', line.account_id)
+      .maybeSingle(),
+    adminClient
+      .from('ultaura_call_sessions')
+      .select('language_detected, prompt_version')
+      .eq('line_id', line.id)
+      .not('language_detected', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  return {
+    userName: line.display_name,
+    timezone: line.timezone,
+    seedInterests: line.seed_interests ?? [],
+    seedAvoidTopics: line.seed_avoid_topics ?? [],
+    isFirstCall: !line.last_successful_call_at,
+    startingLanguage: lastSession?.language_detected ?? 'en',
+    ...(lastSession?.prompt_version ? { promptVersion: lastSession.prompt_version } : {}),
+    ...(account ? {
+      currentPlanId: account.plan_id as PlanId,
+      accountStatus: account.status as AccountStatus,
+    } : {}),
+  };
+}
+
+function parsePlaygroundMemories(text: string): Memory[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line, index) => {
+      const separator = line.indexOf(':');
+      const key = separator > 0 ? line.slice(0, separator).trim() : `note_${index + 1}`;
+      const value = separator > 0 ? line.slice(separator + 1).trim() : line;
+
+      return {
+        id: `playground-${index}`,
+        accountId: 'playground',
+        lineId: 'playground',
+        createdAt: new Date(0).toISOString(),
+        updatedAt: null,
+        type: 'fact',
+        key,
+        value,
+        confidence: 1,
+        source: null,
+        version: 1,
+        active: true,
+        privacyScope: 'line_only',
+        redactionLevel: 'none',
+        dueAt: null,
+        resolvedAt: null,
+      };
+    });
+}
+
+function toPlaygroundPrompt(sections: CompiledPromptSection[]): PromptPlaygroundPrompt {
+  const text = sections.map((section) => section.text).join('\n\n');
+
+  return {
+    sections: sections.map((section) => ({ ...section, tokens: estimateTokens(section.text) })),
+    text,
+    tokens: estimateTokens(text),
+  };
+}
+
+// The realtime prompt as the voice bridge would send it (reminder calls use their own prompt),
+// alongside the admin_preview profile
+function compilePlaygroundPrompts(input: PromptPlaygroundInput, promptVersion: string) {
+  const params: CompanionPromptParams = {
+    userName: input.userName.trim() || 'Friend',
+    startingLanguage: input.startingLanguage || 'en',
+    memories: input.memoryEnabled ? parsePlaygroundMemories(input.memoriesText) : [],
+    memoryEnabled: input.memoryEnabled,
+    isFirstCall: input.isFirstCall,
+    timezone: input.timezone || undefined,
+    seedInterests: input.seedInterests,
+    seedAvoidTopics: input.seedAvoidTopics,
+    lowMinutesWarning: input.lowMinutesWarning,
+    minutesRemaining: input.minutesRemaining,
+    currentPlanId: input.currentPlanId,
+    accountStatus: input.accountStatus,
+    promptVersion,
+  };
+
+  const realtime: CompiledPromptSection[] = input.isReminderCall && input.reminderMessage.trim()
+    ? [{
+        tag: 'reminder',
+        text: buildReminderPrompt({
+          userName: params.userName,
+          reminderMessage: input.reminderMessage.trim(),
+          startingLanguage: params.startingLanguage,
+        }),
+      }]
+    : compilePromptSections('voice_realtime', params);
+
+  return {
+    realtime: toPlaygroundPrompt(realtime),
+    preview: toPlaygroundPrompt(compilePromptSections('admin_preview', params)),
+  };
+}
+
+export async function compilePromptPlayground(
+  input: PromptPlaygroundInput
+): Promise<PromptPlaygroundResult> {
+  await requireUltauraAdmin();
+
+  const { realtime, preview } = compilePlaygroundPrompts(input, getPromptVersion(input.promptVersion).id);
+  const compareVersion = input.compareVersion ? getPromptVersion(input.compareVersion).id : null;
+  const baseline = compareVersion ? compilePlaygroundPrompts(input, compareVersion).realtime : null;
+
+  return {
+    realtime,
+    preview,
+    compareVersion,
+    realtimeDiff: baseline ? diffPromptLines(baseline.text, realtime.text) : null,
+  };
+}
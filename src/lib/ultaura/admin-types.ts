@@ -1,3 +1,6 @@
+import type { AccountStatus, PlanId } from '@ultaura/types';
+import type { PromptDiffLine } from '@ultaura/prompts';
+
 export interface DebugLog {
   id: string;
   created_at: string;
@@ -8,3 +11,52 @@ export interface DebugLog {
   payload: Record<string, unknown>;
   metadata: Record<string, unknown> | null;
 }
+
+// Call outcomes for one prompt version within an experiment (or outside any experiment)
+export interface PromptVersionMetrics {
+  promptVersion: string;
+  experimentId: string | null;
+  lines: number;
+  scheduledCalls: number;
+  answeredScheduledCalls: number;
+  answerRate: number | null;
+  answeredCalls: number;
+  avgDurationMinutes: number | null;
+  callsWithInsights: number;
+  avgEngagement: number | null;
+}
+
+// Synthetic or line-derived prompt inputs for the prompt playground
+export interface PromptPlaygroundInput {
+  userName: string;
+  promptVersion: string;
+  // Registry version to diff the realtime prompt against; null for none
+  compareVersion: string | null;
+  isFirstCall: boolean;
+  memoryEnabled: boolean;
+  // One "key: value" memory per line
+  memoriesText: string;
+  seedInterests: string[];
+  seedAvoidTopics: string[];
+  lowMinutesWarning: boolean;
+  minutesRemaining: number;
+  isReminderCall: boolean;
+  reminderMessage: string;
+  startingLanguage: string;
+  timezone: string;
+  currentPlanId: PlanId;
+  accountStatus: AccountStatus;
+}
+
+export interface PromptPlaygroundPrompt {
+  sections: Array<{ tag: string; text: string; tokens: number }>;
+  text: string;
+  tokens: number;
+}
+
+export interface PromptPlaygroundResult {
+  realtime: PromptPlaygroundPrompt;
+  preview: PromptPlaygroundPrompt;
+  compareVersion: string | null;
+  realtimeDiff: PromptDiffLine[] | null;
+}
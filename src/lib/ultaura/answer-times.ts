@@ -0,0 +1,116 @@
+import type { CallWindow } from '@ultaura/schemas';
+import type { AnswerPatternSlot, AnswerTimeSuggestion, LineAnswerPatternRow } from './types';
+
+const SLOT_MINUTES = 30;
+const LAST_SLOT_MINUTES = 23 * 60 + 30;
+// Calls needed across a schedule's days before a slot's rate is shown
+const MIN_SLOT_CALLS = 3;
+// Only suggest a move that lifts the answer rate by at least this much
+const MIN_IMPROVEMENT = 0.15;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function fromMinutes(total: number): string {
+  return `${Math.floor(total / 60).toString().padStart(2, '0')}:${(total % 60).toString().padStart(2, '0')}`;
+}
+
+function isQuietMinute(minute: number, quietStart: number, quietEnd: number): boolean {
+  if (quietStart > quietEnd) {
+    return minute >= quietStart || minute < quietEnd;
+  }
+  return minute >= quietStart && minute < quietEnd;
+}
+
+// Expected answer rate at a slot over the schedule's days. Days never called at that slot count
+// at the line's overall rate.
+function estimateSlot(
+  slots: AnswerPatternSlot[],
+  daysOfWeek: number[],
+  slotMinutes: number,
+  overallRate: number
+): { rate: number; calls: number } {
+  const time = fromMinutes(slotMinutes);
+  let rateTotal = 0;
+  let calls = 0;
+
+  for (const day of daysOfWeek) {
+    const slot = slots.find((s) => s.weekday === day && s.time === time);
+    rateTotal += slot ? slot.rate : overallRate;
+    calls += slot?.calls ?? 0;
+  }
+
+  return { rate: rateTotal / daysOfWeek.length, calls };
+}
+
+/**
+ * Suggest a better start for a schedule's first call window from the line's answer-time model,
+ * or null when there is too little history or no slot does clearly better.
+ */
+export function getAnswerTimeSuggestion(options: {
+  pattern: Pick<LineAnswerPatternRow, 'slots' | 'answer_rate'> | null;
+  daysOfWeek: number[];
+  windows: CallWindow[];
+  quietHours: { start: string; end: string };
+}): AnswerTimeSuggestion | null {
+  const { pattern, daysOfWeek, windows } = options;
+  if (!pattern || pattern.answer_rate === null || daysOfWeek.length === 0 || windows.length === 0) {
+    return null;
+  }
+
+  const slots = (pattern.slots as unknown as AnswerPatternSlot[] | null) ?? [];
+  const overallRate = Number(pattern.answer_rate);
+  const first = windows[0];
+  const currentSlot = Math.floor(toMinutes(first.start) / SLOT_MINUTES) * SLOT_MINUTES;
+  const current = estimateSlot(slots, daysOfWeek, currentSlot, overallRate);
+
+  if (current.calls < MIN_SLOT_CALLS) {
+    return null;
+  }
+
+  // The first window moves as a whole, so it must still end before the next window starts
+  const duration = toMinutes(first.end) - toMinutes(first.start);
+  const latestStart = Math.min(windows[1] ? toMinutes(windows[1].start) : LAST_SLOT_MINUTES, LAST_SLOT_MINUTES) - duration;
+  const quietStart = toMinutes(options.quietHours.start);
+  const quietEnd = toMinutes(options.quietHours.end);
+
+  let best: { minutes: number; rate: number } | null = null;
+
+  for (let minutes = 0; minutes <= latestStart; minutes += SLOT_MINUTES) {
+    if (minutes === currentSlot || isQuietMinute(minutes, quietStart, quietEnd)) {
+      continue;
+    }
+
+    const estimate = estimateSlot(slots, daysOfWeek, minutes, overallRate);
+    if (estimate.calls < MIN_SLOT_CALLS) {
+      continue;
+    }
+
+    const closer = best && Math.abs(minutes - currentSlot) < Math.abs(best.minutes - currentSlot);
+    if (!best || estimate.rate > best.rate || (estimate.rate === best.rate && closer)) {
+      best = { minutes, rate: estimate.rate };
+    }
+  }
+
+  if (!best || best.rate - current.rate < MIN_IMPROVEMENT) {
+    return null;
+  }
+
+  return {
+    currentTime: first.start,
+    currentRate: current.rate,
+    suggestedTime: fromMinutes(best.minutes),
+    suggestedRate: best.rate,
+  };
+}
+
+// Move the first call window to start at the suggested time, keeping its length
+export function applySuggestedTime(windows: CallWindow[], suggestedTime: string): CallWindow[] {
+  const [first, ...rest] = windows;
+  const duration = toMinutes(first.end) - toMinutes(first.start);
+  const start = toMinutes(suggestedTime);
+
+  return [{ start: suggestedTime, end: fromMinutes(start + duration) }, ...rest];
+}
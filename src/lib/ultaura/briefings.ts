@@ -0,0 +1,317 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { DateTime } from 'luxon';
+import getSupabaseServerComponentClient from '~/core/supabase/server-component-client';
+import getLogger from '~/core/logger';
+import {
+  ContentFeedInputSchema,
+  LocalContentItemInputSchema,
+  createError,
+  ErrorCodes,
+  type ActionResult,
+} from '@ultaura/schemas';
+import { getLineAndAccount, withTrialCheck } from './helpers';
+import type {
+  BriefingItem,
+  ContentFeed,
+  ContentItem,
+  LineRow,
+  UltauraAccountRow,
+} from './types';
+
+const logger = getLogger();
+
+function briefingPath(lineShortId: string): string {
+  return `/dashboard/lines/${lineShortId}/briefing`;
+}
+
+// Regions that have shared feeds a line can opt into
+export async function getBriefingRegions(): Promise<string[]> {
+  const client = getSupabaseServerComponentClient();
+
+  const { data, error } = await client
+    .from('ultaura_content_feeds')
+    .select('region')
+    .is('account_id', null)
+    .eq('enabled', true)
+    .not('region', 'is', null);
+
+  if (error) {
+    logger.error({ error }, 'Failed to get briefing regions');
+    return [];
+  }
+
+  return Array.from(new Set((data || []).map((row) => row.region as string))).sort();
+}
+
+export async function getContentFeeds(lineId: string): Promise<ContentFeed[]> {
+  const client = getSupabaseServerComponentClient();
+
+  const { data, error } = await client
+    .from('ultaura_content_feeds')
+    .select('*')
+    .eq('line_id', lineId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    logger.error({ error }, 'Failed to get content feeds');
+    return [];
+  }
+
+  return (data || []).map((row) => ({
+    id: row.id,
+    accountId: row.account_id,
+    lineId: row.line_id,
+    region: row.region,
+    name: row.name,
+    sourceType: row.source_type as ContentFeed['sourceType'],
+    url: row.url,
+    topics: row.topics,
+    enabled: row.enabled,
+    lastFetchedAt: row.last_fetched_at,
+    lastError: row.last_error,
+  }));
+}
+
+// Items the family entered by hand, newest first
+export async function getLocalContentItems(lineId: string): Promise<ContentItem[]> {
+  const client = getSupabaseServerComponentClient();
+
+  const { data, error } = await client
+    .from('ultaura_content_items')
+    .select('*')
+    .eq('line_id', lineId)
+    .eq('source_type', 'caregiver')
+    .order('published_at', { ascending: false })
+    .limit(50);
+
+  if (error) {
+    logger.error({ error }, 'Failed to get local content items');
+    return [];
+  }
+
+  return (data || []).map((row) => ({
+    id: row.id,
+    feedId: row.feed_id,
+    lineId: row.line_id,
+    region: row.region,
+    sourceType: 'caregiver',
+    title: row.title,
+    summary: row.summary,
+    url: row.url,
+    topics: row.topics,
+    publishedAt: row.published_at,
+    expiresAt: row.expires_at,
+  }));
+}
+
+// Items briefed on recent calls, newest call first, with whether each came up
+export async function getRecentBriefingItems(lineId: string, limit = 30): Promise<BriefingItem[]> {
+  const client = getSupabaseServerComponentClient();
+
+  const { data, error } = await client
+    .from('ultaura_briefing_items')
+    .select('id, call_session_id, content_item_id, briefing_date, position, mentioned, mentioned_at, ultaura_content_items(title, summary, source_type)')
+    .eq('line_id', lineId)
+    .order('created_at', { ascending: false })
+    .order('position', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    logger.error({ error }, 'Failed to get recent briefing items');
+    return [];
+  }
+
+  return (data || []).map((row) => {
+    const content = (Array.isArray(row.ultaura_content_items)
+      ? row.ultaura_content_items[0]
+      : row.ultaura_content_items) as { title: string; summary: string | null; source_type: string } | null;
+
+    return {
+      id: row.id,
+      callSessionId: row.call_session_id,
+      contentItemId: row.content_item_id,
+      briefingDate: row.briefing_date,
+      position: row.position,
+      title: content?.title ?? 'Removed item',
+      summary: content?.summary ?? null,
+      sourceType: (content?.source_type ?? 'caregiver') as BriefingItem['sourceType'],
+      mentioned: row.mentioned,
+      mentionedAt: row.mentioned_at,
+    };
+  });
+}
+
+const addContentFeedWithTrial = withTrialCheck(async (
+  account: UltauraAccountRow,
+  input: { lineId: string; lineShortId: string; feed: unknown }
+): Promise<ActionResult<void>> => {
+  const parsed = ContentFeedInputSchema.safeParse(input.feed);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createError(ErrorCodes.INVALID_INPUT, parsed.error.issues[0]?.message || 'Invalid input'),
+    };
+  }
+
+  const client = getSupabaseServerComponentClient();
+
+  const { error } = await client.from('ultaura_content_feeds').insert({
+    account_id: account.id,
+    line_id: input.lineId,
+    name: parsed.data.name,
+    source_type: parsed.data.sourceType,
+    url: parsed.data.url,
+  });
+
+  if (error) {
+    logger.error({ error }, 'Failed to add content feed');
+    return {
+      success: false,
+      error: createError(ErrorCodes.DATABASE_ERROR, 'Failed to add feed'),
+    };
+  }
+
+  revalidatePath(briefingPath(input.lineShortId));
+  return { success: true, data: undefined };
+});
+
+export async function addContentFeed(lineId: string, input: unknown): Promise<ActionResult<void>> {
+  const resolved = await getLineAndAccount(lineId);
+  if ('error' in resolved) {
+    return { success: false, error: resolved.error };
+  }
+
+  return addContentFeedWithTrial(resolved.account, {
+    lineId: resolved.line.id,
+    lineShortId: resolved.line.short_id,
+    feed: input,
+  });
+}
+
+const removeContentFeedWithTrial = withTrialCheck(async (
+  _account: UltauraAccountRow,
+  input: { lineId: string; lineShortId: string; feedId: string }
+): Promise<ActionResult<void>> => {
+  const client = getSupabaseServerComponentClient();
+
+  const { error } = await client
+    .from('ultaura_content_feeds')
+    .delete()
+    .eq('id', input.feedId)
+    .eq('line_id', input.lineId);
+
+  if (error) {
+    logger.error({ error }, 'Failed to remove content feed');
+    return {
+      success: false,
+      error: createError(ErrorCodes.DATABASE_ERROR, 'Failed to remove feed'),
+    };
+  }
+
+  revalidatePath(briefingPath(input.lineShortId));
+  return { success: true, data: undefined };
+});
+
+export async function removeContentFeed(lineId: string, feedId: string): Promise<ActionResult<void>> {
+  const resolved = await getLineAndAccount(lineId);
+  if ('error' in resolved) {
+    return { success: false, error: resolved.error };
+  }
+
+  return removeContentFeedWithTrial(resolved.account, {
+    lineId: resolved.line.id,
+    lineShortId: resolved.line.short_id,
+    feedId,
+  });
+}
+
+const addLocalContentItemWithTrial = withTrialCheck(async (
+  account: UltauraAccountRow,
+  input: { line: LineRow; item: unknown }
+): Promise<ActionResult<void>> => {
+  const parsed = LocalContentItemInputSchema.safeParse(input.item);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createError(ErrorCodes.INVALID_INPUT, parsed.error.issues[0]?.message || 'Invalid input'),
+    };
+  }
+
+  // An event stays in briefings until the end of its day where the caller lives
+  const expiresAt = parsed.data.eventDate
+    ? DateTime.fromISO(parsed.data.eventDate, { zone: input.line.timezone }).endOf('day').toUTC().toISO()
+    : null;
+
+  const client = getSupabaseServerComponentClient();
+  const { data: user } = await client.auth.getUser();
+
+  const { error } = await client.from('ultaura_content_items').insert({
+    account_id: account.id,
+    line_id: input.line.id,
+    source_type: 'caregiver',
+    title: parsed.data.title,
+    summary: parsed.data.summary || null,
+    expires_at: expiresAt,
+    created_by: user.user?.id ?? null,
+  });
+
+  if (error) {
+    logger.error({ error }, 'Failed to add local content item');
+    return {
+      success: false,
+      error: createError(ErrorCodes.DATABASE_ERROR, 'Failed to add item'),
+    };
+  }
+
+  revalidatePath(briefingPath(input.line.short_id));
+  return { success: true, data: undefined };
+});
+
+export async function addLocalContentItem(lineId: string, input: unknown): Promise<ActionResult<void>> {
+  const resolved = await getLineAndAccount(lineId);
+  if ('error' in resolved) {
+    return { success: false, error: resolved.error };
+  }
+
+  return addLocalContentItemWithTrial(resolved.account, { line: resolved.line, item: input });
+}
+
+const removeLocalContentItemWithTrial = withTrialCheck(async (
+  _account: UltauraAccountRow,
+  input: { lineId: string; lineShortId: string; itemId: string }
+): Promise<ActionResult<void>> => {
+  const client = getSupabaseServerComponentClient();
+
+  const { error } = await client
+    .from('ultaura_content_items')
+    .delete()
+    .eq('id', input.itemId)
+    .eq('line_id', input.lineId)
+    .eq('source_type', 'caregiver');
+
+  if (error) {
+    logger.error({ error }, 'Failed to remove local content item');
+    return {
+      success: false,
+      error: createError(ErrorCodes.DATABASE_ERROR, 'Failed to remove item'),
+    };
+  }
+
+  revalidatePath(briefingPath(input.lineShortId));
+  return { success: true, data: undefined };
+});
+
+export async function removeLocalContentItem(lineId: string, itemId: string): Promise<ActionResult<void>> {
+  const resolved = await getLineAndAccount(lineId);
+  if ('error' in resolved) {
+    return { success: false, error: resolved.error };
+  }
+
+  return removeLocalContentItemWithTrial(resolved.account, {
+    lineId: resolved.line.id,
+    lineShortId: resolved.line.short_id,
+    itemId,
+  });
+}
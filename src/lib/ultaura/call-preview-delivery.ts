@@ -0,0 +1,18 @@
+import type { CallPreviewDelivery, CallPreviewStatus } from './types';
+
+// A pending preview counts as overdue once the scheduled call it was meant for is this late
+const OVERDUE_GRACE_MS = 6 * 60 * 60 * 1000;
+
+// Whether a "next time" preview made it into a call, is still to come, or fell through
+export function getCallPreviewDelivery(
+  preview: { status: CallPreviewStatus; expectedBy: string | null; missedCalls: number },
+  now: number
+): CallPreviewDelivery {
+  if (preview.status === 'used' || preview.status === 'declined') return 'delivered';
+  if (preview.status === 'expired') return 'expired';
+  if (preview.missedCalls > 0) return 'missed';
+  if (preview.expectedBy && new Date(preview.expectedBy).getTime() + OVERDUE_GRACE_MS < now) {
+    return 'overdue';
+  }
+  return 'upcoming';
+}
@@ -0,0 +1,57 @@
+'use server';
+
+import getSupabaseServerComponentClient from '~/core/supabase/server-component-client';
+import getLogger from '~/core/logger';
+import { getCallPreviewDelivery } from './call-preview-delivery';
+import type {
+  CallPreviewResponse,
+  CallPreviewStatus,
+  CallPreviewSummary,
+  CallPreviewTopicType,
+} from './types';
+
+const logger = getLogger();
+
+// Topics the senior picked for their next call, newest first, with whether each was followed through
+export async function getCallPreviews(lineId: string, limit = 10): Promise<CallPreviewSummary[]> {
+  const client = getSupabaseServerComponentClient();
+
+  const { data, error } = await client
+    .from('ultaura_call_previews')
+    .select('id, line_id, created_at, topic_type, topic_key, topic_display, offered_topics, segment_id, expected_by, status, used_at, follow_through_response, missed_calls')
+    .eq('line_id', lineId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    logger.error({ error }, 'Failed to get call previews');
+    return [];
+  }
+
+  const now = Date.now();
+
+  return (data || []).map((row) => {
+    const preview = {
+      id: row.id,
+      lineId: row.line_id,
+      createdAt: row.created_at,
+      topicType: row.topic_type as CallPreviewTopicType,
+      topicKey: row.topic_key,
+      topicDisplay: row.topic_display,
+      offeredTopics: row.offered_topics ?? [],
+      segmentId: row.segment_id,
+      expectedBy: row.expected_by,
+      status: row.status as CallPreviewStatus,
+      usedAt: row.used_at,
+      followThroughResponse: row.follow_through_response as CallPreviewResponse | null,
+      missedCalls: row.missed_calls,
+    };
+    const delivery = getCallPreviewDelivery(preview, now);
+
+    return {
+      ...preview,
+      delivery,
+      unfulfilled: delivery === 'overdue' || delivery === 'missed' || delivery === 'expired',
+    };
+  });
+}
@@ -1,8 +1,13 @@
 // Ultaura Constants
 // Plans, pricing, limits, and configuration
 
-import type { Plan, PlanId } from './types';
-import { MAX_SNOOZE_COUNT, VALID_SNOOZE_MINUTES } from '@ultaura/schemas';
+import type { DtmfAction, Plan, PlanId, ReminderDeliveryMethod } from './types';
+import {
+  DEFAULT_DTMF_KEYMAP,
+  DTMF_KEYS,
+  MAX_SNOOZE_COUNT,
+  VALID_SNOOZE_MINUTES,
+} from '@ultaura/schemas';
 
 // ============================================
 // PLANS
@@ -132,20 +137,13 @@ export const TELEPHONY = {
   DEFAULT_RETRY_WINDOW_MINUTES: 30,
   RETRY_DELAY_MINUTES: 15,
 
-  // DTMF mappings
-  DTMF_REPEAT: '1',
-  DTMF_SLOWER: '2',
-  DTMF_CHANGE_TOPIC: '3',
-  DTMF_OPT_OUT: '9',
-  DTMF_HELP: '0',
-
   // Audio formats (for Grok/Twilio bridge)
   AUDIO_FORMAT_TWILIO: 'audio/x-mulaw',
   AUDIO_FORMAT_GROK: 'audio/pcmu',
   AUDIO_SAMPLE_RATE: 8000,
 } as const;
 
-export { MAX_SNOOZE_COUNT, VALID_SNOOZE_MINUTES };
+export { MAX_SNOOZE_COUNT, VALID_SNOOZE_MINUTES, DEFAULT_DTMF_KEYMAP, DTMF_KEYS };
 
 // ============================================
 // GROK VOICE AGENT
@@ -297,6 +295,28 @@ export const TIME_OPTIONS = Array.from({ length: 48 }, (_, index) => {
   return { value, label };
 });
 
+export const DTMF_ACTION_OPTIONS: { value: DtmfAction; label: string }[] = [
+  { value: 'repeat', label: 'Repeat' },
+  { value: 'slower', label: 'Slow down' },
+  { value: 'change_topic', label: 'Change topic' },
+  { value: 'repeat_next_reminder', label: 'Next reminder' },
+  { value: 'call_trusted_contact', label: 'Call trusted contact' },
+  { value: 'end_call', label: 'End call' },
+  { value: 'opt_out', label: 'Stop calls' },
+  { value: 'help', label: 'Help' },
+];
+
+export const REMINDER_DELIVERY_OPTIONS: {
+  value: ReminderDeliveryMethod;
+  label: string;
+  description: string;
+}[] = [
+  { value: 'outbound_call', label: 'Phone call', description: 'A short call that delivers the reminder and answers questions.' },
+  { value: 'sms', label: 'Text message', description: 'A text they can reply DONE or SNOOZE to. Uses no minutes.' },
+  { value: 'voicemail_drop', label: 'Recorded message', description: 'A call that plays the reminder, left as a voicemail if they miss it.' },
+  { value: 'call_then_sms_fallback', label: 'Call, then text if missed', description: 'A phone call, followed by a text if nobody picks up.' },
+];
+
 /**
  * Format a 24-hour time string (HH:MM) to 12-hour format with AM/PM
  */
@@ -1,7 +1,8 @@
-import type { ActionResult } from '@ultaura/schemas';
+import type { ActionError, ActionResult } from '@ultaura/schemas';
 import { createError, ErrorCodes } from '@ultaura/schemas';
 import getSupabaseServerComponentClient from '~/core/supabase/server-component-client';
-import type { UltauraAccountRow } from './types';
+import { getLine } from './lines';
+import type { LineRow, UltauraAccountRow } from './types';
 
 export async function getUltauraAccountById(accountId: string): Promise<UltauraAccountRow | null> {
   const client = getSupabaseServerComponentClient();
@@ -16,6 +17,23 @@ export async function getUltauraAccountById(accountId: string): Promise<UltauraA
   return data;
 }
 
+// The line and its account for an action, or the not-found error to return
+export async function getLineAndAccount(
+  lineId: string
+): Promise<{ error: ActionError } | { line: LineRow; account: UltauraAccountRow }> {
+  const line = await getLine(lineId);
+  if (!line) {
+    return { error: createError(ErrorCodes.NOT_FOUND, 'Line not found') };
+  }
+
+  const account = await getUltauraAccountById(line.account_id);
+  if (!account) {
+    return { error: createError(ErrorCodes.NOT_FOUND, 'Account not found') };
+  }
+
+  return { line, account };
+}
+
 export function getTrialStatus(account: UltauraAccountRow): {
   isOnTrial: boolean;
   isExpired: boolean;
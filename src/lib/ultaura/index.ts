@@ -3,6 +3,7 @@
 export * from './accounts';
 export * from './lines';
 export * from './contacts';
+export * from './memories';
 export * from './verification';
 export * from './schedules';
 export * from './reminders';
@@ -10,6 +11,7 @@ export * from './reminder-events';
 export * from './usage';
 export * from './checkout';
 export * from './privacy';
+export * from './safety';
 
 export * from './types';
 export * from './constants';
@@ -18,6 +18,8 @@ import type {
   WeeklySummaryRow,
 } from './types';
 import { INSIGHTS } from './constants';
+import { isUltauraAdmin } from './admin-actions';
+import type { PromptVersionMetrics } from './admin-types';
 
 const logger = getLogger();
 
@@ -362,6 +364,8 @@ export async function getNotificationPreferences(
       weekly_summary_time: '18:00',
       alert_missed_calls_enabled: true,
       alert_missed_calls_threshold: 3,
+      alert_missed_doses_enabled: true,
+      alert_missed_doses_threshold: 3,
     })
     .select('*')
     .single();
@@ -388,6 +392,8 @@ export async function getNotificationPreferences(
       weekly_summary_time: '18:00',
       alert_missed_calls_enabled: true,
       alert_missed_calls_threshold: 3,
+      alert_missed_doses_enabled: true,
+      alert_missed_doses_threshold: 3,
     } as NotificationPreferencesRow;
   }
 
@@ -985,6 +991,8 @@ export async function updateNotificationPreferences(
     weekly_summary_time: '18:00',
     alert_missed_calls_enabled: true,
     alert_missed_calls_threshold: 3,
+    alert_missed_doses_enabled: true,
+    alert_missed_doses_threshold: 3,
   };
 
   const { error } = await client
@@ -1107,3 +1115,136 @@ export async function setPauseMode(
     throw new Error('Failed to update pause mode');
   }
 }
+
+const PROMPT_METRICS_PAGE_SIZE = 1000;
+const PROMPT_METRICS_INSIGHT_BATCH = 200;
+
+// Answer rate, duration and engagement per prompt version, for comparing experiment arms.
+// Only aggregates leave this function; individual insights are decrypted in memory and dropped.
+export async function getPromptVersionMetrics(options: {
+  days: number;
+}): Promise<PromptVersionMetrics[]> {
+  if (!(await isUltauraAdmin())) {
+    throw new Error('Unauthorized');
+  }
+
+  const client = await getAdminClient();
+  const since = DateTime.utc().minus({ days: options.days }).toISO();
+
+  type VersionedSession = Pick<
+    CallSessionRow,
+    | 'id'
+    | 'account_id'
+    | 'line_id'
+    | 'answered_by'
+    | 'seconds_connected'
+    | 'scheduler_idempotency_key'
+    | 'prompt_version'
+    | 'prompt_experiment_id'
+  >;
+
+  const sessions: VersionedSession[] = [];
+  for (let offset = 0; ; offset += PROMPT_METRICS_PAGE_SIZE) {
+    const { data, error } = await client
+      .from('ultaura_call_sessions')
+      .select('id, account_id, line_id, answered_by, seconds_connected, scheduler_idempotency_key, prompt_version, prompt_experiment_id')
+      .not('prompt_version', 'is', null)
+      .eq('is_test_call', false)
+      .gte('created_at', since)
+      .order('created_at', { ascending: true })
+      .range(offset, offset + PROMPT_METRICS_PAGE_SIZE - 1);
+
+    if (error) {
+      logger.error({ error }, 'Failed to fetch call sessions for prompt metrics');
+      throw new Error('Failed to load prompt metrics');
+    }
+
+    sessions.push(...((data || []) as VersionedSession[]));
+    if (!data || data.length < PROMPT_METRICS_PAGE_SIZE) break;
+  }
+
+  const engagementBySession = new Map<string, number>();
+  const deks = new Map<string, Buffer>();
+  const sessionIds = sessions.map((session) => session.id);
+
+  for (let i = 0; i < sessionIds.length; i += PROMPT_METRICS_INSIGHT_BATCH) {
+    const { data, error } = await client
+      .from('ultaura_call_insights')
+      .select('account_id, line_id, call_session_id, insights_ciphertext, insights_iv, insights_tag')
+      .in('call_session_id', sessionIds.slice(i, i + PROMPT_METRICS_INSIGHT_BATCH));
+
+    if (error) {
+      logger.error({ error }, 'Failed to fetch call insights for prompt metrics');
+      throw new Error('Failed to load prompt metrics');
+    }
+
+    for (const row of data || []) {
+      try {
+        let dek = deks.get(row.account_id);
+        if (!dek) {
+          dek = await getOrCreateAccountDEK(client, row.account_id);
+          deks.set(row.account_id, dek);
+        }
+
+        const insights = decryptValue(
+          dek,
+          Buffer.from(row.insights_ciphertext),
+          Buffer.from(row.insights_iv),
+          Buffer.from(row.insights_tag),
+          buildInsightsAAD(row.account_id, row.line_id, row.call_session_id)
+        ) as CallInsights;
+        engagementBySession.set(row.call_session_id, insights.engagement_score);
+      } catch (decryptError) {
+        logger.warn({ decryptError, callSessionId: row.call_session_id }, 'Failed to decrypt insights for prompt metrics');
+      }
+    }
+  }
+
+  const groups = new Map<string, VersionedSession[]>();
+  for (const session of sessions) {
+    const key = `${session.prompt_experiment_id ?? ''}|${session.prompt_version}`;
+    const group = groups.get(key);
+    if (group) {
+      group.push(session);
+    } else {
+      groups.set(key, [session]);
+    }
+  }
+
+  const average = (values: number[]) =>
+    values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+  return Array.from(groups.values())
+    .map((group) => {
+      const answered = group.filter((session) =>
+        isCallAnswered({ answered_by: session.answered_by, seconds_connected: session.seconds_connected })
+      );
+      const scheduled = group.filter((session) =>
+        session.scheduler_idempotency_key?.startsWith('schedule:')
+      );
+      const answeredIds = new Set(answered.map((session) => session.id));
+      const answeredScheduled = scheduled.filter((session) => answeredIds.has(session.id));
+      const engagementScores = group
+        .map((session) => engagementBySession.get(session.id))
+        .filter((score): score is number => typeof score === 'number');
+      const avgDurationSeconds = average(answered.map((session) => session.seconds_connected ?? 0));
+      const avgEngagement = average(engagementScores);
+
+      return {
+        promptVersion: group[0].prompt_version as string,
+        experimentId: group[0].prompt_experiment_id,
+        lines: new Set(group.map((session) => session.line_id)).size,
+        scheduledCalls: scheduled.length,
+        answeredScheduledCalls: answeredScheduled.length,
+        answerRate: scheduled.length ? answeredScheduled.length / scheduled.length : null,
+        answeredCalls: answered.length,
+        avgDurationMinutes: avgDurationSeconds === null ? null : Math.round((avgDurationSeconds / 60) * 10) / 10,
+        callsWithInsights: engagementScores.length,
+        avgEngagement: avgEngagement === null ? null : Math.round(avgEngagement * 10) / 10,
+      };
+    })
+    .sort((a, b) =>
+      (a.experimentId ?? '').localeCompare(b.experimentId ?? '') ||
+      a.promptVersion.localeCompare(b.promptVersion)
+    );
+}
@@ -258,6 +258,8 @@ export async function updateLine(
   if (parsed.data.seedAvoidTopics !== undefined) updates.seed_avoid_topics = parsed.data.seedAvoidTopics;
   if (parsed.data.allowVoiceReminderControl !== undefined) updates.allow_voice_reminder_control = parsed.data.allowVoiceReminderControl;
   if (parsed.data.voicemailBehavior !== undefined) updates.voicemail_behavior = parsed.data.voicemailBehavior;
+  if (parsed.data.dtmfKeymap !== undefined) updates.dtmf_keymap = parsed.data.dtmfKeymap;
+  if (parsed.data.briefingRegion !== undefined) updates.briefing_region = parsed.data.briefingRegion || null;
   if (parsed.data.status !== undefined) updates.status = parsed.data.status;
 
   return updateLineWithTrial(account, { lineId, updates });
@@ -0,0 +1,384 @@
+'use server';
+
+import { headers } from 'next/headers';
+import { revalidatePath } from 'next/cache';
+import getLogger from '~/core/logger';
+import getSupabaseServerComponentClient from '~/core/supabase/server-component-client';
+import {
+  CaregiverMemoryInputSchema,
+  MemoryValueSchema,
+  createError,
+  ErrorCodes,
+  type ActionResult,
+} from '@ultaura/schemas';
+import { getLine } from './lines';
+import { getLineAndAccount, withTrialCheck } from './helpers';
+import { logConsentAudit } from './privacy';
+import type {
+  ConsentAuditAction,
+  Memory,
+  MemoryTimelineEntry,
+  MemoryType,
+  MemoryUpdateProposal,
+  UltauraAccountRow,
+} from './types';
+
+const logger = getLogger();
+const DEV_TELEPHONY_BACKEND_URL = 'http://localhost:3001';
+
+function getTelephonyBackendUrl(): string {
+  const backendUrl = process.env.ULTAURA_BACKEND_URL ||
+    (process.env.NODE_ENV === 'production' ? '' : DEV_TELEPHONY_BACKEND_URL);
+
+  if (!backendUrl) {
+    throw new Error('ULTAURA_BACKEND_URL is required in production');
+  }
+
+  return backendUrl;
+}
+
+function getInternalApiSecret(): string {
+  const secret = process.env.ULTAURA_INTERNAL_API_SECRET;
+
+  if (!secret) {
+    throw new Error('Missing ULTAURA_INTERNAL_API_SECRET');
+  }
+
+  return secret;
+}
+
+async function getAuthenticatedUserId(): Promise<string | null> {
+  const client = getSupabaseServerComponentClient();
+  const { data, error } = await client.auth.getUser();
+
+  if (error || !data.user) {
+    return null;
+  }
+
+  return data.user.id;
+}
+
+// Memories are encrypted with keys held by the telephony backend, so every read and
+// write goes through its internal endpoints
+async function callMemoriesEndpoint<T>(
+  path: string,
+  body: Record<string, unknown>
+): Promise<{ ok: true; data: T } | { ok: false; status: number; error: string }> {
+  try {
+    const response = await fetch(`${getTelephonyBackendUrl()}/internal/memories/${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Secret': getInternalApiSecret(),
+      },
+      body: JSON.stringify(body),
+      cache: 'no-store',
+    });
+
+    const payload = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      return { ok: false, status: response.status, error: payload?.error || 'Memory request failed' };
+    }
+
+    return { ok: true, data: payload as T };
+  } catch (error) {
+    logger.error({ error, path }, 'Failed to reach telephony memory endpoint');
+    return { ok: false, status: 502, error: 'Memory service unavailable' };
+  }
+}
+
+function toActionError(result: { status: number; error: string }): ActionResult<never> {
+  return {
+    success: false,
+    error: createError(
+      result.status === 404 ? ErrorCodes.NOT_FOUND : ErrorCodes.EXTERNAL_SERVICE_ERROR,
+      result.error
+    ),
+  };
+}
+
+// "Favorite song" -> "favorite_song"
+function toMemoryKey(label: string): string {
+  const key = label
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 60);
+
+  return key || 'caregiver_note';
+}
+
+async function auditMemoryChange(
+  account: UltauraAccountRow,
+  lineId: string,
+  action: ConsentAuditAction,
+  metadata: {
+    memoryId: string;
+    key: string;
+    type: MemoryType;
+    previousMemoryId?: string;
+    updateId?: string;
+  }
+): Promise<void> {
+  const headersList = await headers();
+
+  // Values stay encrypted; the audit log only records which memory changed
+  await logConsentAudit({
+    accountId: account.id,
+    lineId,
+    actorUserId: await getAuthenticatedUserId(),
+    actorType: 'payer',
+    action,
+    ipAddress: headersList.get('x-forwarded-for')?.split(',')[0] || null,
+    userAgent: headersList.get('user-agent') || null,
+    metadata,
+  });
+}
+
+// Memories shared with the payer, newest first
+export async function getLineMemories(lineId: string): Promise<Memory[]> {
+  const line = await getLine(lineId);
+  if (!line) return [];
+
+  const result = await callMemoriesEndpoint<{ memories: Memory[] }>('list', {
+    accountId: line.account_id,
+    lineId: line.id,
+  });
+
+  if (!result.ok) {
+    logger.error({ lineId, error: result.error }, 'Failed to load line memories');
+    return [];
+  }
+
+  return result.data.memories;
+}
+
+// Values heard on calls that contradict a shared memory, waiting for confirmation
+export async function getLineMemoryUpdates(lineId: string): Promise<MemoryUpdateProposal[]> {
+  const line = await getLine(lineId);
+  if (!line) return [];
+
+  const result = await callMemoriesEndpoint<{ updates: MemoryUpdateProposal[] }>('updates/list', {
+    accountId: line.account_id,
+    lineId: line.id,
+  });
+
+  if (!result.ok) {
+    logger.error({ lineId, error: result.error }, 'Failed to load memory updates');
+    return [];
+  }
+
+  return result.data.updates;
+}
+
+// Every value a shared memory key has held, oldest first
+export async function getLineMemoryHistory(lineId: string, key: string): Promise<MemoryTimelineEntry[]> {
+  const line = await getLine(lineId);
+  if (!line) return [];
+
+  const result = await callMemoriesEndpoint<{ timeline: MemoryTimelineEntry[] }>('history', {
+    accountId: line.account_id,
+    lineId: line.id,
+    key,
+  });
+
+  if (!result.ok) {
+    logger.error({ lineId, error: result.error }, 'Failed to load memory history');
+    return [];
+  }
+
+  return result.data.timeline;
+}
+
+const correctMemoryWithTrial = withTrialCheck(async (
+  account: UltauraAccountRow,
+  input: { lineId: string; lineShortId: string; memoryId: string; value: unknown }
+): Promise<ActionResult<void>> => {
+  const parsed = MemoryValueSchema.safeParse(input.value);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createError(ErrorCodes.INVALID_INPUT, parsed.error.issues[0]?.message || 'Invalid input'),
+    };
+  }
+
+  const result = await callMemoriesEndpoint<{ memoryId: string; key: string; type: MemoryType }>('correct', {
+    accountId: account.id,
+    lineId: input.lineId,
+    memoryId: input.memoryId,
+    value: parsed.data,
+  });
+
+  if (!result.ok) {
+    return toActionError(result);
+  }
+
+  await auditMemoryChange(account, input.lineId, 'memory_corrected', {
+    memoryId: result.data.memoryId,
+    previousMemoryId: input.memoryId,
+    key: result.data.key,
+    type: result.data.type,
+  });
+
+  revalidatePath(`/dashboard/lines/${input.lineShortId}/memories`);
+  return { success: true, data: undefined };
+});
+
+export async function correctMemory(
+  lineId: string,
+  memoryId: string,
+  value: unknown
+): Promise<ActionResult<void>> {
+  const resolved = await getLineAndAccount(lineId);
+  if ('error' in resolved) {
+    return { success: false, error: resolved.error };
+  }
+
+  return correctMemoryWithTrial(resolved.account, {
+    lineId: resolved.line.id,
+    lineShortId: resolved.line.short_id,
+    memoryId,
+    value,
+  });
+}
+
+const deactivateMemoryWithTrial = withTrialCheck(async (
+  account: UltauraAccountRow,
+  input: { lineId: string; lineShortId: string; memoryId: string }
+): Promise<ActionResult<void>> => {
+  const result = await callMemoriesEndpoint<{ key: string; type: MemoryType }>('deactivate', {
+    accountId: account.id,
+    lineId: input.lineId,
+    memoryId: input.memoryId,
+  });
+
+  if (!result.ok) {
+    return toActionError(result);
+  }
+
+  await auditMemoryChange(account, input.lineId, 'memory_deactivated', {
+    memoryId: input.memoryId,
+    key: result.data.key,
+    type: result.data.type,
+  });
+
+  revalidatePath(`/dashboard/lines/${input.lineShortId}/memories`);
+  return { success: true, data: undefined };
+});
+
+export async function deactivateLineMemory(
+  lineId: string,
+  memoryId: string
+): Promise<ActionResult<void>> {
+  const resolved = await getLineAndAccount(lineId);
+  if ('error' in resolved) {
+    return { success: false, error: resolved.error };
+  }
+
+  return deactivateMemoryWithTrial(resolved.account, {
+    lineId: resolved.line.id,
+    lineShortId: resolved.line.short_id,
+    memoryId,
+  });
+}
+
+const addCaregiverMemoryWithTrial = withTrialCheck(async (
+  account: UltauraAccountRow,
+  input: { lineId: string; lineShortId: string; memory: unknown }
+): Promise<ActionResult<void>> => {
+  const parsed = CaregiverMemoryInputSchema.safeParse(input.memory);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: createError(ErrorCodes.INVALID_INPUT, parsed.error.issues[0]?.message || 'Invalid input'),
+    };
+  }
+
+  const key = toMemoryKey(parsed.data.label);
+  const result = await callMemoriesEndpoint<{ memoryId: string }>('add', {
+    accountId: account.id,
+    lineId: input.lineId,
+    type: parsed.data.type,
+    key,
+    value: parsed.data.value,
+  });
+
+  if (!result.ok) {
+    return toActionError(result);
+  }
+
+  await auditMemoryChange(account, input.lineId, 'memory_added', {
+    memoryId: result.data.memoryId,
+    key,
+    type: parsed.data.type,
+  });
+
+  revalidatePath(`/dashboard/lines/${input.lineShortId}/memories`);
+  return { success: true, data: undefined };
+});
+
+export async function addCaregiverMemory(
+  lineId: string,
+  input: unknown
+): Promise<ActionResult<void>> {
+  const resolved = await getLineAndAccount(lineId);
+  if ('error' in resolved) {
+    return { success: false, error: resolved.error };
+  }
+
+  return addCaregiverMemoryWithTrial(resolved.account, {
+    lineId: resolved.line.id,
+    lineShortId: resolved.line.short_id,
+    memory: input,
+  });
+}
+
+const resolveMemoryUpdateWithTrial = withTrialCheck(async (
+  account: UltauraAccountRow,
+  input: { lineId: string; lineShortId: string; updateId: string; confirmed: boolean }
+): Promise<ActionResult<void>> => {
+  const result = await callMemoriesEndpoint<{ memoryId: string; key: string; type: MemoryType }>('updates/resolve', {
+    accountId: account.id,
+    lineId: input.lineId,
+    updateId: input.updateId,
+    confirmed: input.confirmed,
+  });
+
+  if (!result.ok) {
+    return toActionError(result);
+  }
+
+  // Dismissing leaves the memory unchanged, so only a confirmation is audited
+  if (input.confirmed) {
+    await auditMemoryChange(account, input.lineId, 'memory_corrected', {
+      memoryId: result.data.memoryId,
+      key: result.data.key,
+      type: result.data.type,
+      updateId: input.updateId,
+    });
+  }
+
+  revalidatePath(`/dashboard/lines/${input.lineShortId}/memories`);
+  return { success: true, data: undefined };
+});
+
+export async function resolveLineMemoryUpdate(
+  lineId: string,
+  updateId: string,
+  confirmed: boolean
+): Promise<ActionResult<void>> {
+  const resolved = await getLineAndAccount(lineId);
+  if ('error' in resolved) {
+    return { success: false, error: resolved.error };
+  }
+
+  return resolveMemoryUpdateWithTrial(resolved.account, {
+    lineId: resolved.line.id,
+    lineShortId: resolved.line.short_id,
+    updateId,
+    confirmed,
+  });
+}
@@ -10,6 +10,7 @@ import {
   SnoozeInputSchema,
   VALID_SNOOZE_MINUTES,
   MAX_SNOOZE_COUNT,
+  buildReminderRRule,
   createError,
   ErrorCodes,
   type ActionResult,
@@ -125,53 +126,80 @@ const createReminderWithTrial = withTrialCheck(async (
   let dayOfMonth: number | null = null;
   let timeOfDay: string | null = null;
   let endsAt: string | null = null;
+  let excludedDates: string[] = [];
 
   if (parsed.data.recurrence) {
     isRecurring = true;
-    const { frequency, interval, daysOfWeek: dow, dayOfMonth: dom, endsAt: ends } = parsed.data.recurrence;
+    const {
+      frequency,
+      interval,
+      daysOfWeek: dow,
+      dayOfMonth: dom,
+      weekOfMonth,
+      timesOfDay,
+      count,
+      endsAt: ends,
+    } = parsed.data.recurrence;
 
     timeOfDay = getLocalTimeOfDay(dueAtUtc, timezone);
-
-    const dayNames = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+    const dueLocal = DateTime.fromJSDate(dueAtUtc).setZone(timezone);
 
     switch (frequency) {
       case 'daily':
-        {
-          const dailyInterval = interval || 1;
-          intervalDays = dailyInterval;
-          rrule = dailyInterval > 1 ? `FREQ=DAILY;INTERVAL=${dailyInterval}` : 'FREQ=DAILY';
-        }
+      case 'custom':
+        intervalDays = interval || 1;
         break;
 
       case 'weekly':
-        {
-          const daysOfWeekValue: number[] = dow && dow.length > 0
-            ? dow
-            : [DateTime.fromJSDate(dueAtUtc).setZone(timezone).weekday % 7];
-          daysOfWeek = daysOfWeekValue;
-          const byDay = daysOfWeekValue.map((day) => dayNames[day]).join(',');
-          rrule = interval && interval > 1
-            ? `FREQ=WEEKLY;INTERVAL=${interval};BYDAY=${byDay}`
-            : `FREQ=WEEKLY;BYDAY=${byDay}`;
-        }
+        daysOfWeek = dow && dow.length > 0 ? dow : [dueLocal.weekday % 7];
         break;
 
       case 'monthly':
-        dayOfMonth = dom || DateTime.fromJSDate(dueAtUtc).setZone(timezone).day;
-        rrule = interval && interval > 1
-          ? `FREQ=MONTHLY;INTERVAL=${interval};BYMONTHDAY=${dayOfMonth}`
-          : `FREQ=MONTHLY;BYMONTHDAY=${dayOfMonth}`;
-        break;
-
-      case 'custom':
-        {
-          const customInterval = interval || 1;
-          intervalDays = customInterval;
-          rrule = `FREQ=DAILY;INTERVAL=${customInterval}`;
+        if (weekOfMonth !== undefined) {
+          daysOfWeek = dow && dow.length > 0 ? dow : [dueLocal.weekday % 7];
+        } else {
+          dayOfMonth = dom || dueLocal.day;
         }
         break;
     }
 
+    try {
+      rrule = buildReminderRRule({
+        frequency,
+        interval,
+        daysOfWeek: daysOfWeek ?? undefined,
+        dayOfMonth: dayOfMonth ?? undefined,
+        weekOfMonth,
+        timesOfDay: timesOfDay ? [timeOfDay, ...timesOfDay] : undefined,
+        count,
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(ErrorCodes.INVALID_INPUT, (error as Error).message),
+      };
+    }
+
+    excludedDates = Array.from(new Set(parsed.data.recurrence.excludedDates ?? [])).sort();
+
+    // The entered date only starts the series; the first call goes out on the first date the
+    // rule produces, e.g. the second Tuesday on or after it
+    const firstDueAt = getNextReminderOccurrence({
+      rrule,
+      timezone,
+      timeOfDay,
+      currentDueAt: dueAtUtc,
+      excludedDates,
+      includeCurrent: true,
+    });
+    if (!firstDueAt) {
+      return {
+        success: false,
+        error: createError(ErrorCodes.INVALID_INPUT, 'No upcoming date matches this repeat pattern'),
+      };
+    }
+    dueAtUtc = firstDueAt;
+
     if (ends) {
       try {
         const endsAtUtc = parseInputDateTime(ends, timezone);
@@ -195,7 +223,7 @@ const createReminderWithTrial = withTrialCheck(async (
       due_at: dueAtUtc.toISOString(),
       timezone,
       message: parsed.data.message.trim(),
-      delivery_method: 'outbound_call',
+      delivery_method: parsed.data.deliveryMethod ?? 'outbound_call',
       status: 'scheduled',
       privacy_scope: 'line_only',
       is_recurring: isRecurring,
@@ -205,6 +233,8 @@ const createReminderWithTrial = withTrialCheck(async (
       day_of_month: dayOfMonth,
       time_of_day: timeOfDay,
       ends_at: endsAt,
+      excluded_dates: excludedDates,
+      requires_confirmation: parsed.data.requiresConfirmation ?? false,
     })
     .select()
     .single();
@@ -324,10 +354,12 @@ function calculateNextReminderOccurrence(reminder: ReminderRow): string | null {
       rrule: reminder.rrule,
       timezone: reminder.timezone,
       timeOfDay: reminder.time_of_day,
-      currentDueAt: new Date(reminder.due_at),
+      currentDueAt: new Date(reminder.original_due_at || reminder.due_at),
       daysOfWeek: reminder.days_of_week,
       dayOfMonth: reminder.day_of_month,
       intervalDays: reminder.interval_days,
+      excludedDates: reminder.excluded_dates,
+      occurrenceCount: reminder.occurrence_count + 1,
     });
 
     return next ? next.toISOString() : null;
@@ -391,6 +423,10 @@ export async function skipNextOccurrence(reminderId: string, lineShortId: string
       .from('ultaura_reminders')
       .update({
         due_at: nextDueAt,
+        occurrence_count: input.reminder.occurrence_count + 1,
+        current_snooze_count: 0,
+        snoozed_until: null,
+        original_due_at: null,
       })
       .eq('id', input.reminder.id);
 
@@ -761,44 +797,47 @@ export async function editReminder(
         updates.days_of_week = null;
         updates.day_of_month = null;
         updates.ends_at = null;
+        updates.excluded_dates = [];
       } else {
         updates.is_recurring = true;
 
-        const { frequency, interval = 1, daysOfWeek, dayOfMonth, endsAt } = inputData.updates.recurrence;
-        let rrule = '';
-
-        switch (frequency) {
-          case 'daily':
-            rrule = interval > 1 ? `FREQ=DAILY;INTERVAL=${interval}` : 'FREQ=DAILY';
-            updates.interval_days = interval;
-            break;
-          case 'weekly':
-            if (!daysOfWeek || daysOfWeek.length === 0) {
-              return {
-                success: false,
-                error: createError(ErrorCodes.INVALID_INPUT, 'Weekly reminders require at least one day'),
-              };
-            }
-            const dayMap = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
-            const byDay = daysOfWeek.map((day: number) => dayMap[day]).join(',');
-            rrule = interval > 1
-              ? `FREQ=WEEKLY;INTERVAL=${interval};BYDAY=${byDay}`
-              : `FREQ=WEEKLY;BYDAY=${byDay}`;
-            updates.days_of_week = daysOfWeek;
-            break;
-          case 'monthly':
-            const day = dayOfMonth || 1;
-            rrule = interval > 1
-              ? `FREQ=MONTHLY;INTERVAL=${interval};BYMONTHDAY=${day}`
-              : `FREQ=MONTHLY;BYMONTHDAY=${day}`;
-            updates.day_of_month = day;
-            break;
-          case 'custom':
-            rrule = `FREQ=DAILY;INTERVAL=${interval}`;
-            updates.interval_days = interval;
-            break;
+        const {
+          frequency,
+          interval = 1,
+          daysOfWeek,
+          dayOfMonth,
+          weekOfMonth,
+          timesOfDay,
+          count,
+          endsAt,
+        } = inputData.updates.recurrence;
+        const timeOfDay = (updates.time_of_day as string | undefined)
+          ?? inputData.reminder.time_of_day
+          ?? getLocalTimeOfDay(new Date(inputData.reminder.due_at), inputData.reminder.timezone);
+
+        let rrule: string;
+        try {
+          rrule = buildReminderRRule({
+            frequency,
+            interval,
+            daysOfWeek,
+            dayOfMonth: frequency === 'monthly' && weekOfMonth === undefined ? dayOfMonth || 1 : undefined,
+            weekOfMonth,
+            timesOfDay: timesOfDay ? [timeOfDay.slice(0, 5), ...timesOfDay] : undefined,
+            count,
+          });
+        } catch (error) {
+          return {
+            success: false,
+            error: createError(ErrorCodes.INVALID_INPUT, (error as Error).message),
+          };
         }
 
+        updates.time_of_day = timeOfDay;
+        updates.interval_days = frequency === 'daily' || frequency === 'custom' ? interval : null;
+        updates.days_of_week = frequency === 'weekly' || weekOfMonth !== undefined ? daysOfWeek : null;
+        updates.day_of_month = frequency === 'monthly' && weekOfMonth === undefined ? dayOfMonth || 1 : null;
+
         updates.rrule = rrule;
 
         if (endsAt !== undefined) {
@@ -819,6 +858,67 @@ export async function editReminder(
       }
     }
 
+    if (inputData.updates.excludedDates !== undefined) {
+      const excludedDates = Array.from(new Set(inputData.updates.excludedDates)).sort();
+
+      if (excludedDates.join(',') !== inputData.reminder.excluded_dates.join(',')) {
+        oldValues.excludedDates = inputData.reminder.excluded_dates;
+        updates.excluded_dates = excludedDates;
+      }
+    }
+
+    const isRecurring = (updates.is_recurring as boolean | undefined) ?? inputData.reminder.is_recurring;
+    const rrule = updates.rrule !== undefined ? updates.rrule as string | null : inputData.reminder.rrule;
+    const excludedDates = (updates.excluded_dates as string[] | undefined) ?? inputData.reminder.excluded_dates;
+    const dueAt = (updates.due_at as string | undefined) ?? inputData.reminder.due_at;
+    const dueDate = DateTime.fromISO(dueAt).setZone(inputData.reminder.timezone).toISODate() ?? '';
+
+    // Keep the next call on a date the edited rule produces and that isn't skipped. A snoozed
+    // reminder is left alone unless its date is skipped.
+    if (
+      isRecurring &&
+      rrule &&
+      (updates.due_at !== undefined || updates.rrule !== undefined || excludedDates.includes(dueDate))
+    ) {
+      const firstDueAt = getNextReminderOccurrence({
+        rrule,
+        timezone: inputData.reminder.timezone,
+        timeOfDay: (updates.time_of_day as string | undefined)
+          ?? inputData.reminder.time_of_day
+          ?? getLocalTimeOfDay(new Date(dueAt), inputData.reminder.timezone),
+        currentDueAt: new Date(dueAt),
+        excludedDates,
+        includeCurrent: true,
+      });
+      if (!firstDueAt) {
+        return {
+          success: false,
+          error: createError(ErrorCodes.INVALID_INPUT, 'No upcoming date matches this repeat pattern'),
+        };
+      }
+
+      if (firstDueAt.getTime() !== new Date(dueAt).getTime()) {
+        oldValues.dueAt = inputData.reminder.due_at;
+        updates.due_at = firstDueAt.toISOString();
+      }
+    }
+
+    if (
+      inputData.updates.deliveryMethod !== undefined &&
+      inputData.updates.deliveryMethod !== inputData.reminder.delivery_method
+    ) {
+      oldValues.deliveryMethod = inputData.reminder.delivery_method;
+      updates.delivery_method = inputData.updates.deliveryMethod;
+    }
+
+    if (
+      inputData.updates.requiresConfirmation !== undefined &&
+      inputData.updates.requiresConfirmation !== inputData.reminder.requires_confirmation
+    ) {
+      oldValues.requiresConfirmation = inputData.reminder.requires_confirmation;
+      updates.requires_confirmation = inputData.updates.requiresConfirmation;
+    }
+
     if (Object.keys(updates).length === 0) {
       return {
         success: false,
@@ -0,0 +1,70 @@
+'use server';
+
+import getSupabaseServerComponentClient from '~/core/supabase/server-component-client';
+import getLogger from '~/core/logger';
+import type {
+  SafetyAlert,
+  SafetyEscalationAttemptStatus,
+  SafetyEscalationChannel,
+  SafetyEscalationStatus,
+} from './types';
+
+const logger = getLogger();
+
+// Safety events that alerted trusted contacts, newest first, with each escalation attempt
+export async function getSafetyAlerts(lineId: string, limit = 20): Promise<SafetyAlert[]> {
+  const client = getSupabaseServerComponentClient();
+
+  const { data: events, error } = await client
+    .from('ultaura_safety_events')
+    .select('id, created_at, escalation_status, acknowledged_at, acknowledged_by_contact_id')
+    .eq('line_id', lineId)
+    .not('escalation_status', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    logger.error({ error }, 'Failed to get safety alerts');
+    return [];
+  }
+
+  if (!events || events.length === 0) {
+    return [];
+  }
+
+  const [{ data: attempts, error: attemptsError }, { data: contacts }] = await Promise.all([
+    client
+      .from('ultaura_safety_escalation_attempts')
+      .select('id, safety_event_id, contact_id, created_at, step, channel, status')
+      .in('safety_event_id', events.map((event) => event.id))
+      .order('step', { ascending: true }),
+    client
+      .from('ultaura_trusted_contacts')
+      .select('id, name')
+      .eq('line_id', lineId),
+  ]);
+
+  if (attemptsError) {
+    logger.error({ error: attemptsError }, 'Failed to get safety escalation attempts');
+  }
+
+  const contactNames = new Map((contacts || []).map((contact) => [contact.id, contact.name]));
+  const contactName = (id: string | null) => (id ? contactNames.get(id) ?? null : null);
+
+  return events.map((event) => ({
+    id: event.id,
+    createdAt: event.created_at,
+    escalationStatus: event.escalation_status as SafetyEscalationStatus,
+    acknowledgedAt: event.acknowledged_at,
+    acknowledgedByName: contactName(event.acknowledged_by_contact_id),
+    attempts: (attempts || [])
+      .filter((attempt) => attempt.safety_event_id === event.id)
+      .map((attempt) => ({
+        id: attempt.id,
+        createdAt: attempt.created_at,
+        contactName: contactName(attempt.contact_id),
+        channel: attempt.channel as SafetyEscalationChannel,
+        status: attempt.status as SafetyEscalationAttemptStatus,
+      })),
+  }));
+}
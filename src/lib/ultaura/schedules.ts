@@ -13,7 +13,7 @@ import {
 import { TELEPHONY } from './constants';
 import { getNextOccurrence } from './timezone';
 import { getUltauraAccountById, withTrialCheck } from './helpers';
-import type { ScheduleRow, UltauraAccountRow } from './types';
+import type { LineAnswerPatternRow, ScheduleRow, UltauraAccountRow } from './types';
 
 const logger = getLogger();
 
@@ -24,6 +24,7 @@ export async function getSchedules(lineId: string): Promise<ScheduleRow[]> {
     .from('ultaura_schedules')
     .select('*')
     .eq('line_id', lineId)
+    .eq('is_one_off', false)
     .order('created_at', { ascending: false });
 
   if (error) {
@@ -51,6 +52,24 @@ export async function getSchedule(scheduleId: string): Promise<ScheduleRow | nul
   return data;
 }
 
+// The line's answer-time model, recalculated daily by the telephony scheduler
+export async function getLineAnswerPattern(lineId: string): Promise<LineAnswerPatternRow | null> {
+  const client = getSupabaseServerComponentClient();
+
+  const { data, error } = await client
+    .from('ultaura_line_answer_patterns')
+    .select('*')
+    .eq('line_id', lineId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error({ error }, 'Failed to get line answer pattern');
+    return null;
+  }
+
+  return data;
+}
+
 function getNextRunAt(timeOfDay: string, timezone: string, daysOfWeek: number[]): Date {
   return getNextOccurrence({
     timeOfDay,
@@ -59,6 +78,13 @@ function getNextRunAt(timeOfDay: string, timezone: string, daysOfWeek: number[])
   });
 }
 
+function toRetryPolicyRow(retryPolicy: { maxRetries: number; retryWindowMinutes: number }) {
+  return {
+    max_retries: retryPolicy.maxRetries,
+    retry_window_minutes: retryPolicy.retryWindowMinutes,
+  };
+}
+
 const createScheduleWithTrial = withTrialCheck(async (
   account: UltauraAccountRow,
   input: { accountId: string; schedule: unknown }
@@ -74,9 +100,13 @@ const createScheduleWithTrial = withTrialCheck(async (
     };
   }
 
+  // The day's call is placed at the start of the first call window
+  const callWindows = parsed.data.callWindows || [];
+  const timeOfDay = callWindows[0]?.start || parsed.data.timeOfDay;
+
   let next: Date;
   try {
-    next = getNextRunAt(parsed.data.timeOfDay, parsed.data.timezone, parsed.data.daysOfWeek);
+    next = getNextRunAt(timeOfDay, parsed.data.timezone, parsed.data.daysOfWeek);
   } catch (error) {
     return {
       success: false,
@@ -94,9 +124,12 @@ const createScheduleWithTrial = withTrialCheck(async (
       enabled: true,
       timezone: parsed.data.timezone,
       days_of_week: parsed.data.daysOfWeek,
-      time_of_day: parsed.data.timeOfDay,
+      time_of_day: timeOfDay,
+      call_windows: callWindows,
       next_run_at: next.toISOString(),
-      retry_policy: parsed.data.retryPolicy || { max_retries: 2, retry_window_minutes: 30 },
+      retry_policy: parsed.data.retryPolicy
+        ? toRetryPolicyRow(parsed.data.retryPolicy)
+        : { max_retries: 2, retry_window_minutes: 30 },
     })
     .select('id')
     .single();
@@ -212,9 +245,13 @@ export async function updateSchedule(
   if (parsed.data.timezone !== undefined) updates.timezone = parsed.data.timezone;
   if (parsed.data.daysOfWeek !== undefined) updates.days_of_week = parsed.data.daysOfWeek;
   if (parsed.data.timeOfDay !== undefined) updates.time_of_day = parsed.data.timeOfDay;
-  if (parsed.data.retryPolicy !== undefined) updates.retry_policy = parsed.data.retryPolicy;
+  if (parsed.data.callWindows !== undefined) {
+    updates.call_windows = parsed.data.callWindows;
+    if (parsed.data.callWindows.length > 0) updates.time_of_day = parsed.data.callWindows[0].start;
+  }
+  if (parsed.data.retryPolicy !== undefined) updates.retry_policy = toRetryPolicyRow(parsed.data.retryPolicy);
 
-  if (parsed.data.daysOfWeek || parsed.data.timeOfDay || parsed.data.timezone) {
+  if (parsed.data.daysOfWeek || updates.time_of_day || parsed.data.timezone) {
     const { data: current } = await client
       .from('ultaura_schedules')
       .select('days_of_week, time_of_day, timezone')
@@ -222,7 +259,7 @@ export async function updateSchedule(
       .single();
 
     const daysOfWeek = parsed.data.daysOfWeek || current?.days_of_week || [];
-    const timeOfDay = parsed.data.timeOfDay || current?.time_of_day || '18:00';
+    const timeOfDay = (updates.time_of_day as string | undefined) || current?.time_of_day || '18:00';
     const timezone = parsed.data.timezone || current?.timezone || TELEPHONY.DEFAULT_TIMEZONE;
 
     try {
@@ -363,6 +400,7 @@ export async function getAllSchedules(accountId: string): Promise<{
       )
     `)
     .eq('account_id', accountId)
+    .eq('is_one_off', false)
     .order('created_at', { ascending: false });
 
   if (error) {
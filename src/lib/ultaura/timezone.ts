@@ -1,4 +1,5 @@
 import { DateTime, IANAZone } from 'luxon';
+import { getRRuleTimes, parseRRule, rruleMatchesDate, type ParsedRRule } from '@ultaura/schemas';
 import getLogger from '~/core/logger';
 
 const logger = getLogger();
@@ -336,6 +337,9 @@ export function getNextOccurrence(params: {
   return result;
 }
 
+// Search far enough ahead for sparse rules (e.g. every 12 weeks with several skipped dates)
+const RECURRENCE_SEARCH_DAYS = 366 * 8;
+
 export function getNextReminderOccurrence(params: {
   rrule: string;
   timezone: string;
@@ -344,6 +348,12 @@ export function getNextReminderOccurrence(params: {
   daysOfWeek?: number[] | null;
   dayOfMonth?: number | null;
   intervalDays?: number | null;
+  // Local "yyyy-MM-dd" dates to skip (EXDATE)
+  excludedDates?: string[] | null;
+  // Occurrences that have come due so far, including currentDueAt; checked against COUNT
+  occurrenceCount?: number | null;
+  // Return currentDueAt itself when the rule produces it (the first occurrence of a new series)
+  includeCurrent?: boolean;
 }): Date | null {
   const {
     rrule,
@@ -353,76 +363,91 @@ export function getNextReminderOccurrence(params: {
     daysOfWeek,
     dayOfMonth,
     intervalDays,
+    excludedDates,
+    occurrenceCount,
+    includeCurrent = false,
   } = params;
 
   validateTimezone(timezone);
 
   const parsedTime = parseTimeOfDay(timeOfDay);
 
-  const freqMatch = rrule.match(/FREQ=(\w+)/);
-  const intervalMatch = rrule.match(/INTERVAL=(\d+)/);
+  let rule: ParsedRRule;
+  try {
+    rule = parseRRule(rrule);
+  } catch (error) {
+    logger.warn({ error: (error as Error).message, rrule }, 'Unsupported RRULE');
+    return null;
+  }
 
-  const freq = freqMatch?.[1] || 'DAILY';
-  const interval = intervalMatch ? parseInt(intervalMatch[1]) : (intervalDays || 1);
+  if (rule.count !== null && occurrenceCount != null && occurrenceCount >= rule.count) {
+    logger.debug({ rrule, occurrenceCount }, 'Recurrence COUNT reached');
+    return null;
+  }
 
   const currentDt = DateTime.fromJSDate(currentDueAt).setZone(timezone);
 
-  let nextDate = currentDt;
+  // Older rows kept the pattern in columns rather than the rule
+  if (!rrule.includes('INTERVAL=') && intervalDays) {
+    rule.interval = intervalDays;
+  }
+  if (rule.freq === 'WEEKLY' && rule.byDay.length === 0) {
+    const weekdays = daysOfWeek && daysOfWeek.length > 0 ? daysOfWeek : [currentDt.weekday % 7];
+    rule.byDay = weekdays.map((weekday) => ({ weekday, ordinal: null }));
+  }
+  if (rule.freq === 'MONTHLY' && rule.byDay.length === 0 && rule.byMonthDay.length === 0) {
+    rule.byMonthDay = [dayOfMonth || currentDt.day];
+  }
 
-  switch (freq) {
-    case 'DAILY':
-      nextDate = currentDt.plus({ days: interval });
-      break;
+  const anchor = { year: currentDt.year, month: currentDt.month, day: currentDt.day };
+  const currentWallTime = currentDt.toFormat("yyyy-MM-dd'T'HH:mm:ss");
+  const skipped = new Set(excludedDates ?? []);
+  const times = getRRuleTimes(rule, parsedTime);
 
-    case 'WEEKLY':
-      if (daysOfWeek && daysOfWeek.length > 0) {
-        let tempDate = currentDt.plus({ days: 1 });
-        const luxonToOurDay = (d: number) => d % 7;
-        let attempts = 0;
+  let nextDt: DateTime | null = null;
+  let date = DateTime.utc(anchor.year, anchor.month, anchor.day);
 
-        while (!daysOfWeek.includes(luxonToOurDay(tempDate.weekday)) && attempts < 14) {
-          tempDate = tempDate.plus({ days: 1 });
-          attempts++;
-        }
+  for (let i = 0; i <= RECURRENCE_SEARCH_DAYS && !nextDt; i++, date = date.plus({ days: 1 })) {
+    const localDate = { year: date.year, month: date.month, day: date.day };
+    if (!rruleMatchesDate(rule, localDate, anchor) || skipped.has(date.toISODate() ?? '')) {
+      continue;
+    }
 
-        if (interval > 1) {
-          tempDate = tempDate.plus({ weeks: interval - 1 });
-        }
+    for (const time of times) {
+      const wallTime = DateTime.utc(localDate.year, localDate.month, localDate.day, time.hour, time.minute, parsedTime.second)
+        .toFormat("yyyy-MM-dd'T'HH:mm:ss");
 
-        nextDate = tempDate;
-      } else {
-        nextDate = currentDt.plus({ weeks: interval });
+      // Compare wall-clock times so a repeated fall-back hour doesn't fire the same slot twice
+      if (wallTime < currentWallTime || (wallTime === currentWallTime && !includeCurrent)) {
+        continue;
       }
-      break;
-
-    case 'MONTHLY': {
-      nextDate = currentDt.plus({ months: interval });
-      const targetDay = dayOfMonth || currentDt.day;
-      const daysInMonth = nextDate.daysInMonth;
-      if (!daysInMonth) {
-        throw new Error(`Invalid month when calculating recurrence for timezone "${timezone}".`);
+
+      const candidate = buildZonedDateTime({
+        ...localDate,
+        hour: time.hour,
+        minute: time.minute,
+        second: parsedTime.second,
+        timezone,
+        preferLateAmbiguous: true,
+        operation: 'getNextReminderOccurrence',
+      });
+
+      if (candidate.toMillis() > currentDueAt.getTime() || (includeCurrent && wallTime === currentWallTime)) {
+        nextDt = candidate;
+        break;
       }
-      const actualDay = Math.min(targetDay, daysInMonth);
-      nextDate = nextDate.set({ day: actualDay });
-      break;
     }
+  }
 
-    default:
-      logger.warn({ freq, rrule }, 'Unknown frequency in RRULE');
-      return null;
+  if (!nextDt) {
+    logger.warn({ rrule, timezone, currentDueAt: currentDueAt.toISOString() }, 'No next occurrence found for RRULE');
+    return null;
   }
 
-  const nextDt = buildZonedDateTime({
-    year: nextDate.year,
-    month: nextDate.month,
-    day: nextDate.day,
-    hour: parsedTime.hour,
-    minute: parsedTime.minute,
-    second: parsedTime.second,
-    timezone,
-    preferLateAmbiguous: true,
-    operation: 'getNextReminderOccurrence',
-  });
+  if (rule.until && nextDt.toMillis() > rule.until.getTime()) {
+    logger.debug({ rrule, until: rule.until.toISOString() }, 'Recurrence UNTIL reached');
+    return null;
+  }
 
   const result = nextDt.toUTC().toJSDate();
 
@@ -430,8 +455,8 @@ export function getNextReminderOccurrence(params: {
     {
       operation: 'getNextReminderOccurrence',
       input: { rrule, timezone, timeOfDay, currentDueAt: currentDueAt.toISOString() },
-      freq,
-      interval,
+      freq: rule.freq,
+      interval: rule.interval,
       localInterpretation: nextDt.toISO(),
       utcOffset: nextDt.toFormat('ZZ'),
       isDst: nextDt.isInDST,
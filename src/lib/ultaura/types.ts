@@ -4,30 +4,47 @@
 import type {
   AccountStatus,
   CallInsights,
+  CallPreview,
   ConcernCode,
   FollowUpReasonCode,
   GrokTool,
   MemoryType,
   PlanId,
   PrivacyScope,
+  ReminderConfirmation,
   SafetyTier,
   TopicCode,
 } from '@ultaura/types';
+import type { CallWindow, DtmfKeymap } from '@ultaura/schemas';
 import type { Database } from '~/database.types';
+export type { DtmfAction, DtmfKey, DtmfKeymap } from '@ultaura/schemas';
 export type {
   AccountStatus,
+  AnswerPatternSlot,
+  BriefingItem,
   CallInsights,
+  CallPreview,
+  CallPreviewResponse,
+  CallPreviewStatus,
+  CallPreviewTopicType,
   ConcernCode,
   ConsentAuditAction,
   ConsentAuditEntry,
+  ContentFeed,
+  ContentItem,
   DataExportRequest,
   FollowUpReasonCode,
   GrokTool,
   Memory,
+  MemoryTimelineEntry,
   MemoryType,
+  MemoryUpdateProposal,
   AccountPrivacySettings,
   PlanId,
   PrivacyScope,
+  ReminderConfirmation,
+  ReminderConfirmationResponse,
+  ReminderConfirmationStatus,
   RetentionPeriod,
   SafetyActionTaken,
   SafetyTier,
@@ -46,7 +63,7 @@ export type BillableType = 'trial' | 'included' | 'overage' | 'payg';
 export type ScheduleResult = 'success' | 'missed' | 'suppressed_quiet_hours' | 'failed';
 export type ReminderStatus = 'scheduled' | 'sent' | 'missed' | 'canceled';
 export type ReminderDeliveryStatus = 'completed' | 'no_answer' | 'failed';
-export type ReminderDeliveryMethod = 'outbound_call';
+export type ReminderDeliveryMethod = 'outbound_call' | 'sms' | 'voicemail_drop' | 'call_then_sms_fallback';
 export type ReminderEventType =
   | 'created'
   | 'edited'
@@ -57,8 +74,9 @@ export type ReminderEventType =
   | 'canceled'
   | 'delivered'
   | 'no_answer'
-  | 'failed';
-export type ReminderEventTrigger = 'dashboard' | 'voice' | 'system';
+  | 'failed'
+  | 'acknowledged';
+export type ReminderEventTrigger = 'dashboard' | 'voice' | 'system' | 'sms';
 export type ConsentType =
   | 'outbound_calls'
   | 'trusted_contact_notify'
@@ -77,6 +95,10 @@ export type CallAnsweredBy =
   | 'fax'
   | 'unknown';
 export type VoicemailBehavior = 'none' | 'brief' | 'detailed';
+export type SafetyTransferStatus = 'initiated' | 'connected' | 'failed';
+export type SafetyEscalationStatus = 'pending' | 'acknowledged' | 'exhausted';
+export type SafetyEscalationChannel = 'sms' | 'voice';
+export type SafetyEscalationAttemptStatus = 'sent' | 'failed' | 'rate_limited';
 export type VerificationChannel = 'sms' | 'call';
 export type VerificationStatus = 'pending' | 'approved' | 'canceled' | 'expired';
 
@@ -146,6 +168,7 @@ export interface Line {
   seedAvoidTopics: string[] | null;
   allowVoiceReminderControl: boolean;
   voicemailBehavior: VoicemailBehavior;
+  dtmfKeymap: DtmfKeymap | null;
 }
 
 export interface CreateLineInput {
@@ -168,6 +191,7 @@ export interface UpdateLineInput {
   seedAvoidTopics?: string[];
   allowVoiceReminderControl?: boolean;
   voicemailBehavior?: VoicemailBehavior;
+  dtmfKeymap?: DtmfKeymap;
 }
 
 // ============================================
@@ -261,6 +285,7 @@ export interface Schedule {
   timezone: string;
   daysOfWeek: number[];
   timeOfDay: string;
+  callWindows: CallWindow[];
   nextRunAt: string | null;
   retryPolicy: {
     maxRetries: number;
@@ -275,6 +300,7 @@ export interface CreateScheduleInput {
   timezone: string;
   daysOfWeek: number[];
   timeOfDay: string;
+  callWindows?: CallWindow[];
   retryPolicy?: {
     maxRetries: number;
     retryWindowMinutes: number;
@@ -286,12 +312,20 @@ export interface UpdateScheduleInput {
   timezone?: string;
   daysOfWeek?: number[];
   timeOfDay?: string;
+  callWindows?: CallWindow[];
   retryPolicy?: {
     maxRetries: number;
     retryWindowMinutes: number;
   };
 }
 
+export interface AnswerTimeSuggestion {
+  currentTime: string;
+  currentRate: number;
+  suggestedTime: string;
+  suggestedRate: number;
+}
+
 // ============================================
 // REMINDERS
 // ============================================
@@ -399,7 +433,7 @@ export interface OptOut {
   createdAt: string;
   channel: OptOutChannel;
   reason: string | null;
-  source: 'dtmf' | 'voice' | 'dashboard';
+  source: 'dtmf' | 'voice' | 'dashboard' | 'sms';
   callSessionId: string | null;
 }
 
@@ -432,6 +466,63 @@ export interface SafetyEvent {
   tier: SafetyTier;
   signals: Record<string, unknown> | null;
   actionTaken: 'none' | 'suggested_988' | 'suggested_911' | 'notified_contact' | 'transferred_call' | null;
+  transferStatus: SafetyTransferStatus | null;
+  transferContactId: string | null;
+  escalationStatus: SafetyEscalationStatus | null;
+  acknowledgedAt: string | null;
+  acknowledgedByContactId: string | null;
+}
+
+// High-tier event as shown on the dashboard safety view (signals are never exposed)
+export interface SafetyAlert {
+  id: string;
+  createdAt: string;
+  escalationStatus: SafetyEscalationStatus;
+  acknowledgedAt: string | null;
+  acknowledgedByName: string | null;
+  attempts: SafetyAlertAttempt[];
+}
+
+export interface SafetyAlertAttempt {
+  id: string;
+  createdAt: string;
+  contactName: string | null;
+  channel: SafetyEscalationChannel;
+  status: SafetyEscalationAttemptStatus;
+}
+
+// ============================================
+// CALL PREVIEWS
+// ============================================
+
+// delivered: the next call opened with the topic; upcoming: waiting for the next call;
+// overdue, missed and expired are promises the companion did not keep
+export type CallPreviewDelivery = 'delivered' | 'upcoming' | 'overdue' | 'missed' | 'expired';
+
+export interface CallPreviewSummary extends CallPreview {
+  delivery: CallPreviewDelivery;
+  unfulfilled: boolean;
+}
+
+// ============================================
+// MEDICATION ADHERENCE
+// ============================================
+
+export interface ReminderConfirmationEntry extends ReminderConfirmation {
+  reminderMessage: string | null;
+}
+
+export interface AdherenceSummary {
+  // Settled occurrences in the window: taken, refused or missed
+  settledCount: number;
+  takenCount: number;
+  // Share of settled occurrences that were taken, or null before any were settled
+  takenRate: number | null;
+  // Occurrences taken in a row, most recent first
+  currentTakenStreak: number;
+  // Refused or missed in a row; drives the missed-dose alert
+  consecutiveMissedDoses: number;
+  history: ReminderConfirmationEntry[];
 }
 
 // ============================================
@@ -593,6 +684,10 @@ export interface WeeklySummaryData {
   }>;
   needsFollowUp: boolean;
   followUpReasons: string[];
+  openFollowUps: Array<{
+    label: string;
+    dueDate: string | null;
+  }>;
   isPaused: boolean;
   pausedNote: string | null;
   dashboardUrl: string;
@@ -662,11 +757,16 @@ export type LineRow = Database['public']['Tables']['ultaura_lines']['Row'];
 export type ScheduleRow = Database['public']['Tables']['ultaura_schedules']['Row'];
 export type CallSessionRow = Database['public']['Tables']['ultaura_call_sessions']['Row'];
 export type ReminderRow = Database['public']['Tables']['ultaura_reminders']['Row'];
+export type SafetyEventRow = Database['public']['Tables']['ultaura_safety_events']['Row'];
+export type SafetyEscalationAttemptRow =
+  Database['public']['Tables']['ultaura_safety_escalation_attempts']['Row'];
 export type ReminderEventRow = Database['public']['Tables']['ultaura_reminder_events']['Row'] & {
   reminder_message?: string;
 };
 export type InsightPrivacyRow = Database['public']['Tables']['ultaura_insight_privacy']['Row'];
 export type LineBaselineRow = Database['public']['Tables']['ultaura_line_baselines']['Row'];
+export type LineAnswerPatternRow =
+  Database['public']['Tables']['ultaura_line_answer_patterns']['Row'];
 export type NotificationPreferencesRow =
   Database['public']['Tables']['ultaura_notification_preferences']['Row'];
 export type WeeklySummaryRow = Database['public']['Tables']['ultaura_weekly_summaries']['Row'];
@@ -686,6 +786,12 @@ export interface EditReminderInput {
     interval?: number;
     daysOfWeek?: number[];
     dayOfMonth?: number;
+    weekOfMonth?: number;
+    timesOfDay?: string[];
+    count?: number;
     endsAt?: string | null;
   };
+  excludedDates?: string[];
+  deliveryMethod?: ReminderDeliveryMethod;
+  requiresConfirmation?: boolean;
 }
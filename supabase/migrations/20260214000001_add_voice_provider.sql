@@ -0,0 +1,15 @@
+-- Per-account and per-line realtime voice provider selection
+-- NULL means "inherit": line -> account -> telephony DEFAULT_VOICE_PROVIDER
+
+ALTER TABLE ultaura_accounts
+  ADD COLUMN IF NOT EXISTS voice_provider text
+    CHECK (voice_provider IN ('grok', 'openai'));
+
+ALTER TABLE ultaura_lines
+  ADD COLUMN IF NOT EXISTS voice_provider text
+    CHECK (voice_provider IN ('grok', 'openai'));
+
+COMMENT ON COLUMN ultaura_accounts.voice_provider IS
+  'Realtime voice provider override for all lines on the account (grok, openai)';
+COMMENT ON COLUMN ultaura_lines.voice_provider IS
+  'Realtime voice provider override for this line; takes precedence over the account';
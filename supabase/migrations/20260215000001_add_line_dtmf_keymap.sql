@@ -0,0 +1,9 @@
+-- Per-line keypad menu: maps DTMF digits to in-call actions
+-- NULL means the telephony default map (1 repeat, 2 slower, 3 change topic, 9 opt out, 0 help)
+
+ALTER TABLE ultaura_lines
+  ADD COLUMN IF NOT EXISTS dtmf_keymap jsonb
+    CHECK (dtmf_keymap IS NULL OR jsonb_typeof(dtmf_keymap) = 'object');
+
+COMMENT ON COLUMN ultaura_lines.dtmf_keymap IS
+  'Keypad map of digit -> action (repeat, slower, change_topic, repeat_next_reminder, call_trusted_contact, end_call, opt_out, help)';
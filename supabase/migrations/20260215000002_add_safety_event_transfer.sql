@@ -0,0 +1,14 @@
+-- Warm transfer of high-tier safety calls to a trusted contact
+-- The senior is held in a Twilio conference while the contact is briefed, then bridged
+
+ALTER TABLE ultaura_safety_events
+  ADD COLUMN IF NOT EXISTS transfer_status text
+    CHECK (transfer_status IN ('initiated', 'connected', 'failed')),
+  ADD COLUMN IF NOT EXISTS transfer_contact_id uuid
+    REFERENCES ultaura_trusted_contacts(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS transfer_updated_at timestamptz;
+
+COMMENT ON COLUMN ultaura_safety_events.transfer_status IS
+  'Warm transfer result: initiated (contact dialed), connected (contact accepted), failed (no answer or declined)';
+COMMENT ON COLUMN ultaura_safety_events.transfer_contact_id IS
+  'Trusted contact the call was transferred to';
@@ -0,0 +1,43 @@
+-- Escalation ladder for high-tier safety alerts
+-- Contact 1 is texted first; if nobody acknowledges, contacts are called in order
+
+ALTER TABLE ultaura_safety_events
+  ADD COLUMN IF NOT EXISTS escalation_status text
+    CHECK (escalation_status IN ('pending', 'acknowledged', 'exhausted')),
+  ADD COLUMN IF NOT EXISTS escalation_step integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS next_escalation_at timestamptz,
+  ADD COLUMN IF NOT EXISTS acknowledged_at timestamptz,
+  ADD COLUMN IF NOT EXISTS acknowledged_by_contact_id uuid
+    REFERENCES ultaura_trusted_contacts(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN ultaura_safety_events.escalation_status IS
+  'Trusted contact escalation: pending (ladder running), acknowledged (a contact responded), exhausted (nobody responded). Null when no escalation was started.';
+COMMENT ON COLUMN ultaura_safety_events.escalation_step IS
+  'Index of the last escalation step that was attempted';
+COMMENT ON COLUMN ultaura_safety_events.next_escalation_at IS
+  'When the escalation scheduler should try the next step if still unacknowledged';
+
+CREATE INDEX IF NOT EXISTS idx_safety_events_escalation_due
+  ON ultaura_safety_events(next_escalation_at)
+  WHERE escalation_status = 'pending';
+
+create table ultaura_safety_escalation_attempts (
+  id uuid primary key default gen_random_uuid(),
+  safety_event_id uuid not null references ultaura_safety_events(id) on delete cascade,
+  account_id uuid not null references ultaura_accounts(id) on delete cascade,
+  contact_id uuid references ultaura_trusted_contacts(id) on delete set null,
+  created_at timestamptz not null default now(),
+  step integer not null,
+  channel text not null check (channel in ('sms', 'voice')),
+  status text not null check (status in ('sent', 'failed', 'rate_limited')),
+  twilio_sid text
+);
+
+create index idx_safety_escalation_attempts_event
+  on ultaura_safety_escalation_attempts(safety_event_id, step);
+
+alter table ultaura_safety_escalation_attempts enable row level security;
+
+create policy "Users can view safety escalation attempts for their accounts"
+  on ultaura_safety_escalation_attempts for select
+  using (can_access_ultaura_account(account_id));
@@ -0,0 +1,24 @@
+-- Inbound SMS commands: DONE, SNOOZE <minutes> and STOP from a line's phone
+
+ALTER TABLE ultaura_opt_outs
+  DROP CONSTRAINT IF EXISTS ultaura_opt_outs_source_check;
+ALTER TABLE ultaura_opt_outs
+  ADD CONSTRAINT ultaura_opt_outs_source_check
+    CHECK (source IN ('dtmf', 'voice', 'dashboard', 'sms'));
+
+ALTER TABLE ultaura_reminder_events
+  DROP CONSTRAINT IF EXISTS chk_event_type;
+ALTER TABLE ultaura_reminder_events
+  ADD CONSTRAINT chk_event_type CHECK (event_type IN (
+    'created', 'edited', 'paused', 'resumed', 'snoozed',
+    'skipped', 'canceled', 'delivered', 'no_answer', 'failed',
+    'acknowledged'
+  ));
+
+ALTER TABLE ultaura_reminder_events
+  DROP CONSTRAINT IF EXISTS chk_triggered_by;
+ALTER TABLE ultaura_reminder_events
+  ADD CONSTRAINT chk_triggered_by CHECK (triggered_by IN ('dashboard', 'voice', 'system', 'sms'));
+
+COMMENT ON COLUMN ultaura_reminder_events.event_type IS 'Type of event: created, edited, paused, resumed, snoozed, skipped, canceled, delivered, no_answer, failed, acknowledged';
+COMMENT ON COLUMN ultaura_reminder_events.triggered_by IS 'Who triggered the event: dashboard, voice (phone), system, or sms (text reply)';
@@ -0,0 +1,8 @@
+-- One-off callback schedules
+-- Created when a senior whose inbound call was turned away presses 1 to be called back
+
+ALTER TABLE ultaura_schedules
+  ADD COLUMN IF NOT EXISTS is_one_off boolean NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN ultaura_schedules.is_one_off IS
+  'True for a single callback call; runs once at next_run_at and is not shown with recurring schedules';
@@ -0,0 +1,6 @@
+-- Audit actions for caregiver edits to a line's memories
+-- Logged from the dashboard's "What Ultaura remembers" page; only metadata is stored, never memory values
+
+ALTER TYPE ultaura_consent_audit_action ADD VALUE IF NOT EXISTS 'memory_added';
+ALTER TYPE ultaura_consent_audit_action ADD VALUE IF NOT EXISTS 'memory_corrected';
+ALTER TYPE ultaura_consent_audit_action ADD VALUE IF NOT EXISTS 'memory_deactivated';
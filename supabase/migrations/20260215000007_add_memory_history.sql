@@ -0,0 +1,42 @@
+-- Memory version history and possible updates
+-- Corrections keep the previous value as an inactive row linked to its replacement, so every key
+-- has a full timeline. Values extracted after a call that contradict an existing memory are queued
+-- as possible updates until the senior or a caregiver confirms them.
+
+ALTER TABLE ultaura_memories
+  ADD COLUMN IF NOT EXISTS superseded_by uuid REFERENCES ultaura_memories(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS superseded_at timestamptz;
+
+COMMENT ON COLUMN ultaura_memories.superseded_by IS
+  'The memory row that replaced this value. Inactive rows without it were forgotten rather than corrected.';
+
+CREATE INDEX IF NOT EXISTS idx_ultaura_memories_line_key_version
+  ON ultaura_memories (line_id, key, version);
+
+create table ultaura_memory_update_proposals (
+  id uuid primary key default gen_random_uuid(),
+  account_id uuid not null references ultaura_accounts(id) on delete cascade,
+  line_id uuid not null references ultaura_lines(id) on delete cascade,
+  memory_id uuid not null references ultaura_memories(id) on delete cascade,
+  call_session_id uuid references ultaura_call_sessions(id) on delete set null,
+  created_at timestamptz not null default now(),
+  type ultaura_memory_type not null,
+  key text not null,
+  -- Proposed value, encrypted with the account DEK like ultaura_memories.value_*
+  value_ciphertext bytea not null,
+  value_iv bytea not null,
+  value_tag bytea not null,
+  value_alg text not null default 'AES-256-GCM',
+  value_kid text not null,
+  confidence numeric check (confidence >= 0 and confidence <= 1),
+  status text not null default 'pending'
+    check (status in ('pending', 'confirmed', 'rejected', 'expired')),
+  resolved_at timestamptz,
+  resolved_by text check (resolved_by in ('senior', 'caregiver', 'system'))
+);
+
+create index idx_ultaura_memory_update_proposals_line_pending
+  on ultaura_memory_update_proposals(line_id, created_at)
+  where status = 'pending';
+
+alter table ultaura_memory_update_proposals enable row level security;
@@ -0,0 +1,17 @@
+-- Follow-up memories
+-- Follow-ups ("doctor's appointment on Thursday") carry the date they become worth asking about
+-- and when they were resolved. Open follow-ups that are due drive the next call's opener and are
+-- listed in the payer's weekly summary.
+
+ALTER TABLE ultaura_memories
+  ADD COLUMN IF NOT EXISTS due_at timestamptz,
+  ADD COLUMN IF NOT EXISTS resolved_at timestamptz;
+
+COMMENT ON COLUMN ultaura_memories.due_at IS
+  'For follow_up memories: when to start asking about it. Null means ask on the next call.';
+COMMENT ON COLUMN ultaura_memories.resolved_at IS
+  'For follow_up memories: when the senior answered it. Resolved follow-ups stay as history.';
+
+CREATE INDEX IF NOT EXISTS idx_ultaura_memories_open_follow_ups
+  ON ultaura_memories (line_id, due_at)
+  WHERE type = 'follow_up' AND active = true AND resolved_at IS NULL;
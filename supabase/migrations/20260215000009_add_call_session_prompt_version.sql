@@ -0,0 +1,15 @@
+-- Prompt versions on call sessions
+-- Each companion call records the registry prompt version it was (or would have been) run with and
+-- the experiment that assigned it. Stamped when the session is created, so unanswered calls count
+-- toward a variant's answer rate too.
+
+ALTER TABLE ultaura_call_sessions
+  ADD COLUMN IF NOT EXISTS prompt_version text,
+  ADD COLUMN IF NOT EXISTS prompt_experiment_id text;
+
+COMMENT ON COLUMN ultaura_call_sessions.prompt_version IS
+  'Prompt registry version (packages/prompts registry). Null for reminder calls and calls made before versioning.';
+
+CREATE INDEX IF NOT EXISTS idx_ultaura_call_sessions_prompt_version
+  ON ultaura_call_sessions (prompt_version, created_at)
+  WHERE prompt_version IS NOT NULL;
@@ -0,0 +1,26 @@
+-- Rotating conversation segments
+-- Each companion call may offer one segment (trivia, a story chapter, a learning journey or
+-- guided reminiscence). The row records which template was offered, how the senior responded,
+-- and the call's engagement score so later calls can favour what they enjoy.
+
+create table ultaura_segment_engagement (
+  id uuid primary key default gen_random_uuid(),
+  account_id uuid not null references ultaura_accounts(id) on delete cascade,
+  line_id uuid not null references ultaura_lines(id) on delete cascade,
+  call_session_id uuid not null references ultaura_call_sessions(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  segment_id text not null,
+  segment_type text not null check (segment_type in ('trivia', 'story', 'learning', 'memory_lane')),
+  segment_domain text,
+  completed boolean not null default false,
+  senior_response text check (senior_response in ('enjoyed', 'neutral', 'declined', 'interrupted')),
+  responded_at timestamptz,
+  -- engagement_score (1-10) copied from the call's insights when they are logged
+  call_engagement_score smallint check (call_engagement_score between 1 and 10),
+  unique (call_session_id)
+);
+
+create index idx_ultaura_segment_engagement_line
+  on ultaura_segment_engagement(line_id, created_at desc);
+
+alter table ultaura_segment_engagement enable row level security;
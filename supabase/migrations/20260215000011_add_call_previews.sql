@@ -0,0 +1,38 @@
+-- "Next time" call previews
+-- Near the end of a companion call the senior picks one of two or three topics for the next call.
+-- The next call opens with it; the row records whether it did (used_at), how the senior took it,
+-- and how many calls ended without it so the dashboard can flag broken promises.
+
+create table ultaura_call_previews (
+  id uuid primary key default gen_random_uuid(),
+  account_id uuid not null references ultaura_accounts(id) on delete cascade,
+  line_id uuid not null references ultaura_lines(id) on delete cascade,
+  call_session_id uuid references ultaura_call_sessions(id) on delete set null,
+  created_at timestamptz not null default now(),
+  topic_type text not null check (topic_type in ('memory_follow_up', 'web_search', 'segment', 'free_form')),
+  topic_key text not null,
+  topic_display text not null,
+  offered_topics text[] not null default '{}',
+  segment_id text,
+  -- The line's next scheduled call when the preview was stored; null when nothing is scheduled
+  expected_by timestamptz,
+  status text not null default 'pending' check (status in ('pending', 'used', 'declined', 'expired')),
+  used_at timestamptz,
+  used_call_session_id uuid references ultaura_call_sessions(id) on delete set null,
+  follow_through_response text check (follow_through_response in ('engaged', 'redirected', 'declined')),
+  -- Companion calls that ended without opening with the topic
+  missed_calls integer not null default 0
+);
+
+create index idx_ultaura_call_previews_pending
+  on ultaura_call_previews(line_id, created_at desc)
+  where status = 'pending';
+
+create index idx_ultaura_call_previews_line
+  on ultaura_call_previews(line_id, created_at desc);
+
+alter table ultaura_call_previews enable row level security;
+
+create policy "Users can view call previews for their accounts"
+  on ultaura_call_previews for select
+  using (can_access_ultaura_account(account_id));
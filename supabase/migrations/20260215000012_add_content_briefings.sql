@@ -0,0 +1,109 @@
+-- Local knowledge / news briefings
+-- Content comes from feeds (RSS, JSON Feed, or a local file for offline testing) and from items
+-- caregivers enter themselves (church events, team results). Feeds are scoped to one line, or to a
+-- region that lines opt into. Each companion call gets a short briefing of fresh items, filtered
+-- against the line's topics to avoid, and records which ones came up in conversation.
+
+alter table ultaura_lines
+  add column briefing_region text;
+
+create table ultaura_content_feeds (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  -- Null for platform-wide regional feeds, which are managed outside the dashboard
+  account_id uuid references ultaura_accounts(id) on delete cascade,
+  line_id uuid references ultaura_lines(id) on delete cascade,
+  region text,
+  name text not null,
+  source_type text not null check (source_type in ('rss', 'json', 'local_file')),
+  -- Feed URL, or a path relative to CONTENT_FEED_LOCAL_DIR for local_file
+  url text not null,
+  topics text[] not null default '{}',
+  enabled boolean not null default true,
+  last_fetched_at timestamptz,
+  last_error text,
+  check (line_id is not null or region is not null),
+  check (line_id is null or account_id is not null)
+);
+
+create index idx_ultaura_content_feeds_line on ultaura_content_feeds(line_id);
+create index idx_ultaura_content_feeds_region on ultaura_content_feeds(region) where region is not null;
+
+create table ultaura_content_items (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  feed_id uuid references ultaura_content_feeds(id) on delete cascade,
+  account_id uuid references ultaura_accounts(id) on delete cascade,
+  line_id uuid references ultaura_lines(id) on delete cascade,
+  region text,
+  source_type text not null check (source_type in ('rss', 'json', 'local_file', 'caregiver')),
+  -- Feed entry guid/id, used to skip entries already ingested
+  external_id text,
+  title text not null,
+  summary text,
+  url text,
+  topics text[] not null default '{}',
+  published_at timestamptz not null default now(),
+  -- Event items (a church supper on Friday) stop being briefed after this
+  expires_at timestamptz,
+  created_by uuid references auth.users(id) on delete set null,
+  unique (feed_id, external_id),
+  check (feed_id is not null or line_id is not null)
+);
+
+create index idx_ultaura_content_items_line on ultaura_content_items(line_id, published_at desc);
+create index idx_ultaura_content_items_region on ultaura_content_items(region, published_at desc)
+  where region is not null;
+
+create table ultaura_briefing_items (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  account_id uuid not null references ultaura_accounts(id) on delete cascade,
+  line_id uuid not null references ultaura_lines(id) on delete cascade,
+  call_session_id uuid not null references ultaura_call_sessions(id) on delete cascade,
+  content_item_id uuid not null references ultaura_content_items(id) on delete cascade,
+  -- Local date of the call in the line's timezone
+  briefing_date date not null,
+  position smallint not null,
+  mentioned boolean not null default false,
+  mentioned_at timestamptz,
+  unique (call_session_id, content_item_id)
+);
+
+create index idx_ultaura_briefing_items_line on ultaura_briefing_items(line_id, created_at desc);
+
+alter table ultaura_content_feeds enable row level security;
+alter table ultaura_content_items enable row level security;
+alter table ultaura_briefing_items enable row level security;
+
+-- Regional feeds (no account) are readable by everyone so lines can pick a region
+create policy "Users can view content feeds for their accounts"
+  on ultaura_content_feeds for select
+  using (account_id is null or can_access_ultaura_account(account_id));
+
+create policy "Users can insert content feeds for their accounts"
+  on ultaura_content_feeds for insert
+  with check (account_id is not null and line_id is not null and can_access_ultaura_account(account_id));
+
+create policy "Users can delete content feeds for their accounts"
+  on ultaura_content_feeds for delete
+  using (account_id is not null and can_access_ultaura_account(account_id));
+
+create policy "Users can view content items for their accounts"
+  on ultaura_content_items for select
+  using (account_id is null or can_access_ultaura_account(account_id));
+
+create policy "Users can insert content items for their accounts"
+  on ultaura_content_items for insert
+  with check (
+    account_id is not null and line_id is not null and feed_id is null
+    and can_access_ultaura_account(account_id)
+  );
+
+create policy "Users can delete content items for their accounts"
+  on ultaura_content_items for delete
+  using (account_id is not null and feed_id is null and can_access_ultaura_account(account_id));
+
+create policy "Users can view briefing items for their accounts"
+  on ultaura_briefing_items for select
+  using (can_access_ultaura_account(account_id));
@@ -0,0 +1,58 @@
+-- Medication-adherence confirmations
+-- Reminders marked requires_confirmation ask the senior whether they took the dose.
+-- Each delivered occurrence gets one confirmation row; unconfirmed ones get follow-up calls
+-- and become 'missed' once those run out. Refused and missed doses count towards the
+-- line's consecutive_missed_doses streak, which triggers a payer alert past the threshold.
+
+alter table ultaura_reminders
+  add column if not exists requires_confirmation boolean not null default false;
+
+alter table ultaura_lines
+  add column if not exists consecutive_missed_doses integer not null default 0,
+  add column if not exists missed_dose_alert_sent_at timestamptz;
+
+alter table ultaura_notification_preferences
+  add column if not exists alert_missed_doses_enabled boolean not null default true,
+  add column if not exists alert_missed_doses_threshold integer not null default 3;
+
+create table ultaura_reminder_confirmations (
+  id uuid primary key default gen_random_uuid(),
+  account_id uuid not null references ultaura_accounts(id) on delete cascade,
+  line_id uuid not null references ultaura_lines(id) on delete cascade,
+  reminder_id uuid not null references ultaura_reminders(id) on delete cascade,
+  -- The most recent call that asked about this occurrence
+  call_session_id uuid references ultaura_call_sessions(id) on delete set null,
+  created_at timestamptz not null default now(),
+  occurrence_due_at timestamptz not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'taken', 'will_take_later', 'refused', 'missed')),
+  follow_up_attempts integer not null default 0,
+  -- When the scheduler next calls back (or gives up); null once the occurrence is settled
+  next_follow_up_at timestamptz,
+  responded_at timestamptz,
+  unique (reminder_id, occurrence_due_at)
+);
+
+create index idx_ultaura_reminder_confirmations_follow_up
+  on ultaura_reminder_confirmations(next_follow_up_at)
+  where status in ('pending', 'will_take_later');
+
+create index idx_ultaura_reminder_confirmations_line
+  on ultaura_reminder_confirmations(line_id, occurrence_due_at desc);
+
+alter table ultaura_reminder_confirmations enable row level security;
+
+create policy "Users can view reminder confirmations for their accounts"
+  on ultaura_reminder_confirmations for select
+  using (can_access_ultaura_account(account_id));
+
+alter table ultaura_reminder_events
+  drop constraint if exists chk_event_type;
+alter table ultaura_reminder_events
+  add constraint chk_event_type check (event_type in (
+    'created', 'edited', 'paused', 'resumed', 'snoozed',
+    'skipped', 'canceled', 'delivered', 'no_answer', 'failed',
+    'acknowledged', 'confirmed', 'declined', 'dose_missed'
+  ));
+
+comment on column ultaura_reminder_events.event_type is 'Type of event: created, edited, paused, resumed, snoozed, skipped, canceled, delivered, no_answer, failed, acknowledged, confirmed, declined, dose_missed';
@@ -0,0 +1,28 @@
+-- Reminder delivery methods
+-- Besides a conversational call, reminders can go out as a text, as a voicemail drop (a
+-- pre-recorded message played to whoever or whatever answers), or as a call that falls back
+-- to a text when it is not answered by a person.
+
+alter table ultaura_reminders
+  drop constraint if exists chk_delivery_method;
+alter table ultaura_reminders
+  add constraint chk_delivery_method check (delivery_method in (
+    'outbound_call', 'sms', 'voicemail_drop', 'call_then_sms_fallback'
+  ));
+
+-- The delivery method a reminder call was placed for; confirmation follow-ups are always
+-- conversations, so this can differ from the reminder's own setting
+alter table ultaura_call_sessions
+  add column if not exists reminder_delivery_method text;
+
+alter table ultaura_reminder_events
+  drop constraint if exists chk_event_type;
+alter table ultaura_reminder_events
+  add constraint chk_event_type check (event_type in (
+    'created', 'edited', 'paused', 'resumed', 'snoozed',
+    'skipped', 'canceled', 'delivered', 'no_answer', 'failed',
+    'acknowledged', 'confirmed', 'declined', 'dose_missed',
+    'sms_sent', 'voicemail_dropped', 'sms_fallback_sent'
+  ));
+
+comment on column ultaura_reminder_events.event_type is 'Type of event: created, edited, paused, resumed, snoozed, skipped, canceled, delivered, no_answer, failed, acknowledged, confirmed, declined, dose_missed, sms_sent, voicemail_dropped, sms_fallback_sent';
@@ -0,0 +1,17 @@
+-- Full RFC 5545 recurrence for reminders
+-- Rules can now carry ordinal weekdays (BYDAY=2TU), negative month days (BYMONTHDAY=-1),
+-- several times a day (BYHOUR/BYMINUTE), COUNT and UNTIL. Skipped dates (EXDATE) live in
+-- their own column as local dates.
+
+alter table ultaura_reminders
+  add column if not exists excluded_dates date[] not null default '{}';
+
+alter table ultaura_reminders
+  drop constraint if exists check_rrule_format;
+alter table ultaura_reminders
+  add constraint check_rrule_format
+  check (rrule is null or rrule ~ '^FREQ=(DAILY|WEEKLY|MONTHLY)(;[A-Z]+=[A-Z0-9,+-]+)*$');
+
+comment on column ultaura_reminders.day_of_month is 'Day of month (1-31, or -1 for the last day) for monthly patterns';
+comment on column ultaura_reminders.excluded_dates is 'Local dates a recurring reminder skips (RFC 5545 EXDATE)';
+comment on column ultaura_reminders.occurrence_count is 'Number of occurrences that have come due, delivered or not; checked against COUNT';
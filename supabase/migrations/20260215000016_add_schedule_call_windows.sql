@@ -0,0 +1,16 @@
+-- Several preferred call windows per schedule day
+-- Each entry is {"start": "HH:mm", "end": "HH:mm"} in the schedule's timezone, sorted by start.
+-- time_of_day stays the first window's start so next_run_at keeps its meaning. An empty array
+-- keeps the legacy behaviour of one window from time_of_day for retry_window_minutes.
+
+alter table ultaura_schedules
+  add column if not exists call_windows jsonb not null default '[]'::jsonb;
+
+alter table ultaura_schedules
+  drop constraint if exists check_call_windows_array;
+alter table ultaura_schedules
+  add constraint check_call_windows_array
+  check (jsonb_typeof(call_windows) = 'array' and jsonb_array_length(call_windows) <= 4);
+
+comment on column ultaura_schedules.call_windows is 'Preferred local call windows [{start, end}] (HH:mm); retries stay inside them';
+comment on column ultaura_schedules.retry_policy is 'Retry limits; retry_window_minutes bounds retries for schedules without call windows';
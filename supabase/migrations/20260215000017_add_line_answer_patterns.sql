@@ -0,0 +1,26 @@
+-- Answer-time learning
+-- A daily job models how likely each line is to answer by local weekday and half-hour slot,
+-- from outbound calls over the last 90 days and their answering-machine detection results.
+-- The schedule editor uses it to suggest better call times.
+
+CREATE TABLE IF NOT EXISTS ultaura_line_answer_patterns (
+  line_id uuid PRIMARY KEY REFERENCES ultaura_lines(id) ON DELETE CASCADE,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  -- [{weekday 0-6 (Sunday first), time 'HH:mm', calls, answered, rate}] for slots with calls
+  slots jsonb NOT NULL DEFAULT '[]',
+
+  -- Overall answer rate the slot rates are smoothed towards
+  answer_rate decimal(4,3),
+  sample_size integer NOT NULL DEFAULT 0
+);
+
+ALTER TABLE ultaura_line_answer_patterns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view line answer patterns for their accounts"
+  ON ultaura_line_answer_patterns FOR SELECT
+  USING (line_id IN (
+    SELECT id FROM ultaura_lines WHERE can_access_ultaura_account(account_id)
+  ));
+
+COMMENT ON TABLE ultaura_line_answer_patterns IS 'Answer probability by local weekday and half-hour slot, recalculated daily by the telephony scheduler';
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { buildReminderRRule, describeRecurrence, parseRRule } from '@ultaura/schemas';
+
+describe('recurrence rules', () => {
+  describe('describeRecurrence', () => {
+    it('describes simple rules', () => {
+      expect(describeRecurrence('FREQ=DAILY')).toBe('Daily');
+      expect(describeRecurrence('FREQ=DAILY;INTERVAL=3')).toBe('Every 3 days');
+      expect(describeRecurrence('FREQ=WEEKLY;BYDAY=MO,WE,FR')).toBe('Weekly on Monday, Wednesday and Friday');
+      expect(describeRecurrence('FREQ=MONTHLY;BYMONTHDAY=15')).toBe('Monthly on the 15th');
+    });
+
+    it('describes ordinal weekdays and the last day of the month', () => {
+      expect(describeRecurrence('FREQ=MONTHLY;BYDAY=2TU')).toBe('Monthly on the second Tuesday');
+      expect(describeRecurrence('FREQ=MONTHLY;BYDAY=-1FR')).toBe('Monthly on the last Friday');
+      expect(describeRecurrence('FREQ=MONTHLY;BYMONTHDAY=-1')).toBe('Monthly on the last day');
+    });
+
+    it('lists several times a day, COUNT and skipped dates', () => {
+      expect(
+        describeRecurrence('FREQ=DAILY;BYHOUR=8,20;BYMINUTE=0;COUNT=10', { excludedDates: ['2026-12-25'] })
+      ).toBe('Daily at 8:00 AM and 8:00 PM, 10 times, skipping 1 date');
+    });
+
+    it('includes the time of day when given', () => {
+      expect(describeRecurrence('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU', { timeOfDay: '09:30:00' }))
+        .toBe('Every 2 weeks on Tuesday at 9:30 AM');
+    });
+
+    it('falls back for rules it cannot read', () => {
+      expect(describeRecurrence('FREQ=YEARLY')).toBe('Repeats');
+    });
+  });
+
+  describe('buildReminderRRule', () => {
+    it('builds monthly weekday and multi-time rules', () => {
+      expect(buildReminderRRule({ frequency: 'monthly', daysOfWeek: [2], weekOfMonth: 2 }))
+        .toBe('FREQ=MONTHLY;BYDAY=2TU');
+      expect(buildReminderRRule({ frequency: 'daily', timesOfDay: ['20:00', '08:00'], count: 5 }))
+        .toBe('FREQ=DAILY;BYHOUR=8,20;BYMINUTE=0;COUNT=5');
+    });
+
+    it('rejects times that BYHOUR and BYMINUTE cannot express', () => {
+      expect(() => buildReminderRRule({ frequency: 'daily', timesOfDay: ['08:00', '20:30'] }))
+        .toThrow('same minutes');
+    });
+
+    it('round-trips through parseRRule', () => {
+      const rrule = buildReminderRRule({ frequency: 'weekly', interval: 2, daysOfWeek: [3, 1] });
+      expect(rrule).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE');
+      expect(parseRRule(rrule).byDay).toEqual([
+        { weekday: 1, ordinal: null },
+        { weekday: 3, ordinal: null },
+      ]);
+    });
+  });
+});
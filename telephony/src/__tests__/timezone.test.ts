@@ -152,6 +152,141 @@ describe('timezone utilities', () => {
 
       expect(result?.toISOString()).toBe('2025-01-09T13:00:00.000Z');
     });
+
+    it('finds the second Tuesday of the next month', () => {
+      const result = getNextReminderOccurrence({
+        rrule: 'FREQ=MONTHLY;BYDAY=2TU',
+        timezone: 'America/New_York',
+        timeOfDay: '09:00',
+        currentDueAt: new Date('2026-01-13T14:00:00Z'),
+      });
+
+      expect(result?.toISOString()).toBe('2026-02-10T14:00:00.000Z');
+    });
+
+    it('keeps the last day of the month across the spring DST change', () => {
+      const february = getNextReminderOccurrence({
+        rrule: 'FREQ=MONTHLY;BYMONTHDAY=-1',
+        timezone: 'America/New_York',
+        timeOfDay: '09:00',
+        currentDueAt: new Date('2026-01-31T14:00:00Z'),
+      });
+      expect(february?.toISOString()).toBe('2026-02-28T14:00:00.000Z');
+
+      const march = getNextReminderOccurrence({
+        rrule: 'FREQ=MONTHLY;BYMONTHDAY=-1',
+        timezone: 'America/New_York',
+        timeOfDay: '09:00',
+        currentDueAt: february!,
+      });
+      expect(march?.toISOString()).toBe('2026-03-31T13:00:00.000Z');
+    });
+
+    it('fires at every BYHOUR time in a day', () => {
+      const evening = getNextReminderOccurrence({
+        rrule: 'FREQ=DAILY;BYHOUR=8,20;BYMINUTE=0',
+        timezone: 'America/New_York',
+        timeOfDay: '08:00',
+        currentDueAt: new Date('2026-01-06T13:00:00Z'),
+      });
+      expect(evening?.toISOString()).toBe('2026-01-07T01:00:00.000Z');
+
+      const nextMorning = getNextReminderOccurrence({
+        rrule: 'FREQ=DAILY;BYHOUR=8,20;BYMINUTE=0',
+        timezone: 'America/New_York',
+        timeOfDay: '08:00',
+        currentDueAt: evening!,
+      });
+      expect(nextMorning?.toISOString()).toBe('2026-01-07T13:00:00.000Z');
+    });
+
+    it('moves to the next day in the same week for a multi-day biweekly rule', () => {
+      const wednesday = getNextReminderOccurrence({
+        rrule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE',
+        timezone: 'America/New_York',
+        timeOfDay: '08:00',
+        currentDueAt: new Date('2026-01-05T13:00:00Z'),
+      });
+      expect(wednesday?.toISOString()).toBe('2026-01-07T13:00:00.000Z');
+
+      const monday = getNextReminderOccurrence({
+        rrule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE',
+        timezone: 'America/New_York',
+        timeOfDay: '08:00',
+        currentDueAt: wednesday!,
+      });
+      expect(monday?.toISOString()).toBe('2026-01-19T13:00:00.000Z');
+    });
+
+    it('skips excluded dates', () => {
+      const result = getNextReminderOccurrence({
+        rrule: 'FREQ=WEEKLY;BYDAY=MO',
+        timezone: 'America/New_York',
+        timeOfDay: '08:00',
+        currentDueAt: new Date('2026-01-05T13:00:00Z'),
+        excludedDates: ['2026-01-12'],
+      });
+
+      expect(result?.toISOString()).toBe('2026-01-19T13:00:00.000Z');
+    });
+
+    it('stops once COUNT occurrences have come due', () => {
+      const params = {
+        rrule: 'FREQ=DAILY;COUNT=3',
+        timezone: 'America/New_York',
+        timeOfDay: '08:00',
+        currentDueAt: new Date('2026-01-06T13:00:00Z'),
+      };
+
+      expect(getNextReminderOccurrence({ ...params, occurrenceCount: 2 })?.toISOString())
+        .toBe('2026-01-07T13:00:00.000Z');
+      expect(getNextReminderOccurrence({ ...params, occurrenceCount: 3 })).toBeNull();
+    });
+
+    it('stops after UNTIL', () => {
+      const result = getNextReminderOccurrence({
+        rrule: 'FREQ=DAILY;UNTIL=20260107T000000Z',
+        timezone: 'America/New_York',
+        timeOfDay: '08:00',
+        currentDueAt: new Date('2026-01-06T13:00:00Z'),
+      });
+
+      expect(result).toBeNull();
+    });
+
+    it('moves a time skipped by spring forward to after the gap', () => {
+      const result = getNextReminderOccurrence({
+        rrule: 'FREQ=DAILY',
+        timezone: 'America/New_York',
+        timeOfDay: '02:30',
+        currentDueAt: new Date('2026-03-07T07:30:00Z'),
+      });
+
+      expect(result?.toISOString()).toBe('2026-03-08T07:30:00.000Z');
+    });
+
+    it('does not repeat an occurrence in the fall-back hour', () => {
+      const result = getNextReminderOccurrence({
+        rrule: 'FREQ=DAILY',
+        timezone: 'America/New_York',
+        timeOfDay: '01:30',
+        // 01:30 EDT, the first of the two 01:30s on Nov 1
+        currentDueAt: new Date('2026-11-01T05:30:00Z'),
+      });
+
+      expect(result?.toISOString()).toBe('2026-11-02T06:30:00.000Z');
+    });
+
+    it('returns null for unsupported rules', () => {
+      const result = getNextReminderOccurrence({
+        rrule: 'FREQ=YEARLY',
+        timezone: 'America/New_York',
+        timeOfDay: '08:00',
+        currentDueAt: new Date('2026-01-06T13:00:00Z'),
+      });
+
+      expect(result).toBeNull();
+    });
   });
 
   describe('validateTimezoneSupport', () => {
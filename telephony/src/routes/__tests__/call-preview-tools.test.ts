@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+
+vi.mock('../../server.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('../../utils/supabase.js', async () => {
+  const { fakeSupabase } = await import('../../services/__tests__/fake-supabase.js');
+  return { getSupabaseClient: () => fakeSupabase };
+});
+
+vi.mock('../../services/call-session.js', () => ({
+  getCallSession: vi.fn(),
+  incrementToolInvocations: vi.fn(),
+  recordCallEvent: vi.fn(),
+}));
+
+vi.mock('../../services/ephemeral-buffer.js', () => ({
+  addStoredKey: vi.fn(),
+}));
+
+import { fakeSupabase } from '../../services/__tests__/fake-supabase.js';
+import { getCallSession, recordCallEvent } from '../../services/call-session.js';
+import { addStoredKey } from '../../services/ephemeral-buffer.js';
+import { storeCallPreviewRouter } from '../tools/store-call-preview.js';
+import { resolveCallPreviewRouter } from '../tools/resolve-call-preview.js';
+
+const PREVIEWS = 'ultaura_call_previews';
+
+let server: Server;
+let baseUrl: string;
+
+async function post(path: string, body: Record<string, unknown>) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  return { status: response.status, body: await response.json() as { success: boolean; error?: string } };
+}
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/tools/store_call_preview', storeCallPreviewRouter);
+  app.use('/tools/resolve_call_preview', resolveCallPreviewRouter);
+
+  await new Promise<void>((resolve) => {
+    server = app.listen(0, '127.0.0.1', () => resolve());
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  fakeSupabase.reset();
+  fakeSupabase.defaults(PREVIEWS, { created_at: new Date().toISOString(), status: 'pending', missed_calls: 0 });
+  vi.mocked(getCallSession).mockResolvedValue({ id: 'session-1', line_id: 'line-1', account_id: 'account-1' } as never);
+});
+
+describe('POST /tools/store_call_preview', () => {
+  const request = {
+    callSessionId: 'session-1',
+    lineId: 'line-1',
+    topicType: 'segment',
+    topicKey: ' trivia ',
+    topicDisplay: 'Music trivia',
+    offeredTopics: ['Music trivia', '', 42, 'The garden', 'Baseball', 'Recipes'],
+    segmentId: 'segment-1',
+  };
+
+  it('stores the pick as the pending preview', async () => {
+    fakeSupabase.seed(PREVIEWS, [{ line_id: 'line-1', topic_key: 'old_topic', status: 'pending' }]);
+
+    const { status, body } = await post('/tools/store_call_preview', request);
+
+    expect(status).toBe(200);
+    expect(body.success).toBe(true);
+    expect(fakeSupabase.rows(PREVIEWS).map((row) => [row.topic_key, row.status])).toEqual([
+      ['old_topic', 'expired'],
+      ['trivia', 'pending'],
+    ]);
+    expect(fakeSupabase.rows(PREVIEWS)[1]).toMatchObject({
+      offered_topics: ['Music trivia', 'The garden', 'Baseball'],
+      segment_id: 'segment-1',
+    });
+    expect(addStoredKey).toHaveBeenCalledWith('session-1', 'trivia');
+  });
+
+  it('rejects an unknown topic type', async () => {
+    const { status, body } = await post('/tools/store_call_preview', { ...request, topicType: 'gossip' });
+
+    expect(status).toBe(400);
+    expect(body.error).toBe('Invalid topic_type');
+  });
+
+  it('refuses to store a preview for another line', async () => {
+    const { status } = await post('/tools/store_call_preview', { ...request, lineId: 'line-2' });
+
+    expect(status).toBe(403);
+    expect(fakeSupabase.rows(PREVIEWS)).toEqual([]);
+    expect(recordCallEvent).toHaveBeenCalledWith('session-1', 'tool_call', expect.objectContaining({ success: false }), {
+      skipDebugLog: true,
+    });
+  });
+});
+
+describe('POST /tools/resolve_call_preview', () => {
+  const request = { callSessionId: 'session-1', lineId: 'line-1', previewId: 'preview-1', response: 'declined' };
+
+  beforeEach(() => {
+    fakeSupabase.seed(PREVIEWS, [{ id: 'preview-1', line_id: 'line-1', topic_key: 'trivia', status: 'pending' }]);
+  });
+
+  it('records how the senior took the preview', async () => {
+    const { body } = await post('/tools/resolve_call_preview', request);
+
+    expect(body.success).toBe(true);
+    expect(fakeSupabase.rows(PREVIEWS)[0]).toMatchObject({
+      status: 'declined',
+      follow_through_response: 'declined',
+      used_call_session_id: 'session-1',
+    });
+  });
+
+  it('reports a preview that was already resolved', async () => {
+    await post('/tools/resolve_call_preview', request);
+    const { body } = await post('/tools/resolve_call_preview', { ...request, response: 'engaged' });
+
+    expect(body.success).toBe(false);
+    expect(fakeSupabase.rows(PREVIEWS)[0]).toMatchObject({ status: 'declined' });
+  });
+
+  it('rejects an unknown response', async () => {
+    const { status } = await post('/tools/resolve_call_preview', { ...request, response: 'maybe' });
+
+    expect(status).toBe(400);
+    expect(fakeSupabase.rows(PREVIEWS)[0]).toMatchObject({ status: 'pending' });
+  });
+});
@@ -0,0 +1,257 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+
+vi.mock('../../server.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('../../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('../../utils/supabase.js', async () => {
+  const { fakeSupabase } = await import('../../services/__tests__/fake-supabase.js');
+  return { getSupabaseClient: () => fakeSupabase };
+});
+
+vi.mock('../../services/memory.js', () => ({
+  forgetMemory: vi.fn(),
+  getMemoriesForLine: vi.fn(),
+  getMemoryTimeline: vi.fn(),
+  storeMemory: vi.fn(),
+  updateMemory: vi.fn(),
+}));
+
+vi.mock('../../services/memory-updates.js', () => ({
+  getPendingMemoryUpdates: vi.fn(),
+  resolveMemoryUpdate: vi.fn(),
+}));
+
+import type { Memory } from '@ultaura/types';
+import { fakeSupabase } from '../../services/__tests__/fake-supabase.js';
+import {
+  forgetMemory,
+  getMemoriesForLine,
+  getMemoryTimeline,
+  storeMemory,
+  updateMemory,
+} from '../../services/memory.js';
+import { getPendingMemoryUpdates, resolveMemoryUpdate } from '../../services/memory-updates.js';
+import { internalMemoriesRouter } from '../internal/memories.js';
+
+const SECRET = 'internal-test-secret';
+const ids = { accountId: 'account-1', lineId: 'line-1' };
+
+function memory(id: string, key: string, privacyScope: Memory['privacyScope']): Memory {
+  return {
+    id,
+    accountId: 'account-1',
+    lineId: 'line-1',
+    createdAt: '2026-02-01T15:00:00Z',
+    updatedAt: null,
+    type: 'fact',
+    key,
+    value: `${key} value`,
+    confidence: 0.9,
+    source: 'conversation',
+    version: 1,
+    active: true,
+    privacyScope,
+    redactionLevel: 'none',
+    dueAt: null,
+    resolvedAt: null,
+  };
+}
+
+const shared = memory('memory-shared', 'favorite_flower', 'shareable_with_payer');
+const lineOnly = memory('memory-private', 'health_worry', 'line_only');
+
+let server: Server;
+let baseUrl: string;
+
+async function post(path: string, body: Record<string, unknown>, secret: string | null = SECRET) {
+  const response = await fetch(`${baseUrl}/internal${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(secret ? { 'X-Webhook-Secret': secret } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+  return { status: response.status, body: await response.json() as Record<string, unknown> };
+}
+
+beforeAll(async () => {
+  process.env.ULTAURA_INTERNAL_API_SECRET = SECRET;
+
+  const app = express();
+  app.use(express.json());
+  app.use('/internal', internalMemoriesRouter);
+
+  await new Promise<void>((resolve) => {
+    server = app.listen(0, '127.0.0.1', () => resolve());
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  fakeSupabase.reset();
+  fakeSupabase.seed('ultaura_lines', [{ id: 'line-1', account_id: 'account-1' }]);
+  vi.mocked(getMemoriesForLine).mockResolvedValue([shared, lineOnly]);
+  vi.mocked(getPendingMemoryUpdates).mockResolvedValue([]);
+});
+
+describe('internal memories access check', () => {
+  it('rejects requests without the internal secret', async () => {
+    const { status } = await post('/memories/list', ids, null);
+
+    expect(status).toBe(401);
+    expect(getMemoriesForLine).not.toHaveBeenCalled();
+  });
+
+  it('rejects requests with the wrong secret', async () => {
+    const { status } = await post('/memories/list', ids, 'not-the-secret-value!');
+
+    expect(status).toBe(401);
+    expect(getMemoriesForLine).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /internal/memories/list', () => {
+  it('returns only memories shared with the payer', async () => {
+    const { status, body } = await post('/memories/list', ids);
+
+    expect(status).toBe(200);
+    expect((body.memories as Memory[]).map((m) => m.id)).toEqual(['memory-shared']);
+  });
+
+  it('requires the account and line', async () => {
+    const { status } = await post('/memories/list', { accountId: 'account-1' });
+
+    expect(status).toBe(400);
+  });
+});
+
+describe('POST /internal/memories/correct', () => {
+  it('corrects a shared memory as a caregiver edit', async () => {
+    vi.mocked(updateMemory).mockResolvedValue('memory-shared-v2');
+
+    const { body } = await post('/memories/correct', { ...ids, memoryId: 'memory-shared', value: ' tulips ' });
+
+    expect(body).toMatchObject({ success: true, memoryId: 'memory-shared-v2', key: 'favorite_flower' });
+    expect(updateMemory).toHaveBeenCalledWith('account-1', 'line-1', 'memory-shared', 'tulips', {
+      source: 'caregiver_seed',
+    });
+  });
+
+  it('does not reveal or edit a line-only memory', async () => {
+    const { status } = await post('/memories/correct', { ...ids, memoryId: 'memory-private', value: 'edited' });
+
+    expect(status).toBe(404);
+    expect(updateMemory).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /internal/memories/deactivate', () => {
+  it('forgets a shared memory', async () => {
+    vi.mocked(forgetMemory).mockResolvedValue(true);
+
+    const { body } = await post('/memories/deactivate', { ...ids, memoryId: 'memory-shared' });
+
+    expect(body).toMatchObject({ success: true, key: 'favorite_flower' });
+  });
+
+  it('does not forget a line-only memory', async () => {
+    const { status } = await post('/memories/deactivate', { ...ids, memoryId: 'memory-private' });
+
+    expect(status).toBe(404);
+    expect(forgetMemory).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /internal/memories/add', () => {
+  const request = { ...ids, type: 'preference', key: 'favorite_show', value: 'Jeopardy' };
+
+  it('stores caregiver memories as shared with the payer', async () => {
+    vi.mocked(storeMemory).mockResolvedValue('memory-new');
+
+    const { body } = await post('/memories/add', request);
+
+    expect(body).toMatchObject({ success: true, memoryId: 'memory-new' });
+    expect(storeMemory).toHaveBeenCalledWith('account-1', 'line-1', 'preference', 'favorite_show', 'Jeopardy', {
+      source: 'caregiver_seed',
+      privacyScope: 'shareable_with_payer',
+    });
+  });
+
+  it('refuses a line from another account', async () => {
+    const { status } = await post('/memories/add', { ...request, accountId: 'account-2' });
+
+    expect(status).toBe(404);
+    expect(storeMemory).not.toHaveBeenCalled();
+  });
+
+  it('rejects an unknown memory type', async () => {
+    const { status } = await post('/memories/add', { ...request, type: 'secret' });
+
+    expect(status).toBe(400);
+  });
+});
+
+describe('POST /internal/memories/history', () => {
+  it('returns the timeline for a shared key', async () => {
+    vi.mocked(getMemoryTimeline).mockResolvedValue([]);
+
+    const { status } = await post('/memories/history', { ...ids, key: 'favorite_flower' });
+
+    expect(status).toBe(200);
+    expect(getMemoryTimeline).toHaveBeenCalledWith('account-1', 'line-1', 'favorite_flower');
+  });
+
+  it('hides the timeline of a line-only key', async () => {
+    const { status } = await post('/memories/history', { ...ids, key: 'health_worry' });
+
+    expect(status).toBe(404);
+    expect(getMemoryTimeline).not.toHaveBeenCalled();
+  });
+});
+
+describe('internal memory update endpoints', () => {
+  const proposals = [
+    { id: 'update-shared', memoryId: 'memory-shared', key: 'favorite_flower', type: 'fact' },
+    { id: 'update-private', memoryId: 'memory-private', key: 'health_worry', type: 'fact' },
+  ];
+
+  beforeEach(() => {
+    vi.mocked(getPendingMemoryUpdates).mockResolvedValue(proposals as never);
+  });
+
+  it('lists only updates to shared memories', async () => {
+    const { body } = await post('/memories/updates/list', ids);
+
+    expect((body.updates as Array<{ id: string }>).map((update) => update.id)).toEqual(['update-shared']);
+  });
+
+  it('resolves an update to a shared memory', async () => {
+    vi.mocked(resolveMemoryUpdate).mockResolvedValue({ success: true, memoryId: 'memory-shared-v2' } as never);
+
+    const { body } = await post('/memories/updates/resolve', { ...ids, updateId: 'update-shared', confirmed: true });
+
+    expect(body).toMatchObject({ success: true, memoryId: 'memory-shared-v2', key: 'favorite_flower' });
+    expect(resolveMemoryUpdate).toHaveBeenCalledWith('account-1', 'line-1', 'update-shared', true, 'caregiver');
+  });
+
+  it('does not resolve an update to a line-only memory', async () => {
+    const { status } = await post('/memories/updates/resolve', { ...ids, updateId: 'update-private', confirmed: false });
+
+    expect(status).toBe(404);
+    expect(resolveMemoryUpdate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+
+vi.mock('../../server.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('../../services/line-lookup.js', () => ({
+  findLineByPhone: vi.fn(),
+  getLineById: vi.fn(),
+  checkLineAccess: vi.fn(),
+  isInQuietHours: vi.fn(),
+}));
+
+vi.mock('../../services/call-session.js', () => ({
+  createCallSession: vi.fn(),
+  hasActiveCallForLine: vi.fn(),
+}));
+
+vi.mock('../../services/callback-request.js', () => ({
+  getCallbackTime: vi.fn(() => new Date('2026-02-10T14:00:00Z')),
+  describeCallbackTime: vi.fn(() => 'at 9 AM'),
+  requestCallback: vi.fn(),
+}));
+
+vi.mock('../../services/privacy.js', () => ({
+  getAccountPrivacySettings: vi.fn(async () => null),
+}));
+
+vi.mock('../../services/language.js', () => ({
+  getLastDetectedLanguageForLine: vi.fn(async () => null),
+}));
+
+import { twilioInboundRouter } from '../twilio-inbound.js';
+import { findLineByPhone, getLineById, checkLineAccess, isInQuietHours } from '../../services/line-lookup.js';
+import { createCallSession, hasActiveCallForLine } from '../../services/call-session.js';
+import { requestCallback } from '../../services/callback-request.js';
+
+const lineWithAccount = {
+  line: { id: 'line-1', timezone: 'America/New_York', quiet_hours_start: '21:00', quiet_hours_end: '08:00' },
+  account: { id: 'account-1' },
+};
+
+let server: Server;
+let baseUrl: string;
+
+async function post(path: string, body: Record<string, string> = {}): Promise<string> {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ From: '+15555550100', To: '+15555550199', CallSid: 'CA123', ...body }),
+  });
+  return response.text();
+}
+
+beforeAll(async () => {
+  process.env.SKIP_TWILIO_SIGNATURE_VALIDATION = 'true';
+  process.env.ULTAURA_PUBLIC_URL = 'https://telephony.example.com';
+  process.env.ULTAURA_WEBSOCKET_URL = 'wss://telephony.example.com/twilio/media';
+
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+  app.use('/twilio/voice', twilioInboundRouter);
+
+  await new Promise<void>((resolve) => {
+    server = app.listen(0, '127.0.0.1', () => resolve());
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  vi.mocked(findLineByPhone).mockResolvedValue(lineWithAccount as never);
+  vi.mocked(getLineById).mockResolvedValue(lineWithAccount as never);
+  vi.mocked(checkLineAccess).mockResolvedValue({ allowed: true });
+  vi.mocked(isInQuietHours).mockReturnValue(false);
+  vi.mocked(hasActiveCallForLine).mockResolvedValue(false);
+  vi.mocked(createCallSession).mockResolvedValue({ id: 'session-1' } as never);
+  vi.mocked(createCallSession).mockClear();
+  vi.mocked(requestCallback).mockClear();
+});
+
+describe('POST /twilio/voice/inbound', () => {
+  it('connects the call when the line is free outside quiet hours', async () => {
+    const twiml = await post('/twilio/voice/inbound');
+
+    expect(twiml).toContain('<Stream');
+    expect(twiml).not.toContain('<Gather');
+    expect(createCallSession).toHaveBeenCalledWith(expect.objectContaining({
+      lineId: 'line-1',
+      direction: 'inbound',
+      twilioCallSid: 'CA123',
+    }));
+  });
+
+  it('offers a callback while another call is under way', async () => {
+    vi.mocked(hasActiveCallForLine).mockResolvedValue(true);
+
+    const twiml = await post('/twilio/voice/inbound');
+
+    expect(twiml).toContain('<Gather');
+    expect(twiml).toContain('on another call');
+    expect(twiml).toContain('call you back at 9 AM, press 1.');
+    expect(twiml).toContain('/twilio/voice/callback?lineId=line-1"');
+    expect(twiml).toContain('<Hangup />');
+    expect(twiml).not.toContain('<Stream');
+    expect(createCallSession).not.toHaveBeenCalled();
+  });
+
+  it('offers a callback during quiet hours and lets the caller stay on the line', async () => {
+    vi.mocked(isInQuietHours).mockReturnValue(true);
+
+    const twiml = await post('/twilio/voice/inbound');
+
+    expect(twiml).toContain('<Gather');
+    expect(twiml).toContain('quiet hours');
+    expect(twiml).toContain('stay on the line');
+    expect(twiml).toContain('/twilio/voice/callback?lineId=line-1&amp;allowConnect=1');
+    expect(twiml).toContain('<Redirect method="POST">');
+    expect(twiml).not.toContain('<Hangup />');
+    expect(createCallSession).not.toHaveBeenCalled();
+  });
+
+  it('connects without an offer when the line cannot be called back', async () => {
+    vi.mocked(hasActiveCallForLine).mockResolvedValue(true);
+    vi.mocked(checkLineAccess).mockImplementation(async (_line, _account, direction) =>
+      direction === 'outbound' ? { allowed: false, reason: 'minutes_cap' } : { allowed: true }
+    );
+
+    const twiml = await post('/twilio/voice/inbound');
+
+    expect(twiml).toContain('<Stream');
+    expect(twiml).not.toContain('<Gather');
+  });
+});
+
+describe('POST /twilio/voice/callback', () => {
+  it('schedules a callback when the caller presses 1', async () => {
+    vi.mocked(requestCallback).mockResolvedValue(new Date('2026-02-10T14:00:00Z'));
+
+    const twiml = await post('/twilio/voice/callback?lineId=line-1&allowConnect=1', { Digits: '1' });
+
+    expect(requestCallback).toHaveBeenCalledTimes(1);
+    expect(twiml).toContain('Okay, I&apos;ll call you back at 9 AM.');
+    expect(createCallSession).not.toHaveBeenCalled();
+  });
+
+  it('connects the call when a quiet-hours offer gets no answer', async () => {
+    const twiml = await post('/twilio/voice/callback?lineId=line-1&allowConnect=1');
+
+    expect(twiml).toContain('<Stream');
+    expect(requestCallback).not.toHaveBeenCalled();
+    expect(createCallSession).toHaveBeenCalledTimes(1);
+  });
+
+  it('says goodbye when a busy-line offer gets no answer', async () => {
+    const twiml = await post('/twilio/voice/callback?lineId=line-1');
+
+    expect(twiml).toContain('Okay. Goodbye.');
+    expect(createCallSession).not.toHaveBeenCalled();
+  });
+});
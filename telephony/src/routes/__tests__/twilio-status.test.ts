@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+
+vi.mock('../../server.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('../../services/call-session.js', () => ({
+  getCallSessionByTwilioSid: vi.fn(),
+  updateCallStatus: vi.fn(),
+  completeCallSession: vi.fn(),
+  failCallSession: vi.fn(),
+  updateCallSessionRecording: vi.fn(),
+}));
+
+vi.mock('../../services/reminder-delivery.js', () => ({
+  isUnansweredCall: vi.fn(() => true),
+  sendReminderSmsFallback: vi.fn(),
+}));
+
+vi.mock('../../services/schedule-retry.js', () => ({
+  handleScheduledCallEnded: vi.fn(),
+}));
+
+import { twilioStatusRouter } from '../twilio-status.js';
+import { failCallSession, getCallSessionByTwilioSid } from '../../services/call-session.js';
+import { handleScheduledCallEnded } from '../../services/schedule-retry.js';
+
+const session = {
+  id: 'session-1',
+  scheduler_idempotency_key: 'schedule:schedule-1:2026-03-04T14:00:00.000Z',
+  answered_by: null,
+  end_reason: null,
+  reminder_delivery_method: null,
+};
+
+let server: Server;
+let baseUrl: string;
+
+async function postStatus(callStatus: string): Promise<number> {
+  const response = await fetch(`${baseUrl}/twilio/status`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ CallSid: 'CA123', CallStatus: callStatus }),
+  });
+  return response.status;
+}
+
+beforeAll(async () => {
+  process.env.SKIP_TWILIO_SIGNATURE_VALIDATION = 'true';
+
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+  app.use('/twilio', twilioStatusRouter);
+
+  await new Promise<void>((resolve) => {
+    server = app.listen(0, '127.0.0.1', () => resolve());
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(getCallSessionByTwilioSid).mockResolvedValue(session as never);
+});
+
+describe('POST /twilio/status', () => {
+  it('hands an unanswered scheduled call to the retry scheduler', async () => {
+    expect(await postStatus('no-answer')).toBe(200);
+
+    expect(failCallSession).toHaveBeenCalledWith('session-1', 'no_answer');
+    expect(handleScheduledCallEnded).toHaveBeenCalledWith(session, 'no-answer');
+  });
+
+  it('reports a finished call so the schedule can settle its retries', async () => {
+    await postStatus('completed');
+
+    expect(handleScheduledCallEnded).toHaveBeenCalledWith(session, 'completed');
+  });
+
+  it('waits for the call to end before deciding on a retry', async () => {
+    await postStatus('ringing');
+
+    expect(handleScheduledCallEnded).not.toHaveBeenCalled();
+  });
+});
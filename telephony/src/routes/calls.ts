@@ -15,7 +15,7 @@ callsRouter.use(requireInternalSecret);
 // Initiate an outbound call
 callsRouter.post('/outbound', async (req: Request, res: Response) => {
   try {
-    const { lineId, reason, reminderId, reminderMessage, schedulerIdempotencyKey } = req.body;
+    const { lineId, reason, reminderId, reminderMessage, reminderDeliveryMethod, schedulerIdempotencyKey } = req.body;
 
     if (!lineId) {
       res.status(400).json({ error: 'Missing lineId' });
@@ -69,6 +69,7 @@ callsRouter.post('/outbound', async (req: Request, res: Response) => {
       isTestCall,
       reminderId: isReminderCall ? reminderId : undefined,
       reminderMessage: isReminderCall ? reminderMessage : undefined,
+      reminderDeliveryMethod: isReminderCall ? reminderDeliveryMethod : undefined,
       schedulerIdempotencyKey,
     });
 
@@ -100,6 +101,11 @@ callsRouter.post('/outbound', async (req: Request, res: Response) => {
         callbackUrl: `${publicUrl}/twilio/voice/outbound`,
         statusCallbackUrl: `${publicUrl}/twilio/status`,
         callSessionId: session.id,
+        // A voicemail drop waits for the greeting to finish so the message lands after the beep
+        ...(session.reminder_delivery_method === 'voicemail_drop' && {
+          amdEnabled: true,
+          amdMode: 'DetectMessageEnd' as const,
+        }),
       });
 
       logger.info({ sessionId: session.id, callSid, lineId, isReminderCall }, 'Outbound call initiated');
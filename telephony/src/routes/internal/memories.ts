@@ -0,0 +1,259 @@
+// Internal memory endpoints for the dashboard's "What Ultaura remembers" page
+// Memories are encrypted with keys only this service holds, so the Next.js app reads and edits them here.
+// Only memories shared with the payer are visible or editable.
+
+import { Router, Request, Response } from 'express';
+import type { Memory, MemoryType } from '@ultaura/types';
+import { logger } from '../../server.js';
+import { requireInternalSecret } from '../../middleware/auth.js';
+import { getSupabaseClient } from '../../utils/supabase.js';
+import {
+  forgetMemory,
+  getMemoriesForLine,
+  getMemoryTimeline,
+  storeMemory,
+  updateMemory,
+} from '../../services/memory.js';
+import { getPendingMemoryUpdates, resolveMemoryUpdate } from '../../services/memory-updates.js';
+
+const MEMORY_TYPES: readonly MemoryType[] = ['fact', 'preference', 'follow_up', 'context', 'history', 'wellbeing'];
+
+export const internalMemoriesRouter = Router();
+
+internalMemoriesRouter.use(requireInternalSecret);
+
+async function getShareableMemories(accountId: string, lineId: string): Promise<Memory[]> {
+  const memories = await getMemoriesForLine(accountId, lineId, { limit: 500 });
+  return memories.filter((memory) => memory.privacyScope === 'shareable_with_payer');
+}
+
+async function findShareableMemory(
+  accountId: string,
+  lineId: string,
+  memoryId: string
+): Promise<Memory | null> {
+  const memories = await getShareableMemories(accountId, lineId);
+  return memories.find((memory) => memory.id === memoryId) ?? null;
+}
+
+internalMemoriesRouter.post('/memories/list', async (req: Request, res: Response) => {
+  try {
+    const { accountId, lineId } = req.body as { accountId?: string; lineId?: string };
+
+    if (!accountId || !lineId) {
+      res.status(400).json({ error: 'Missing required fields: accountId, lineId' });
+      return;
+    }
+
+    const memories = await getShareableMemories(accountId, lineId);
+    res.json({ success: true, memories });
+  } catch (error) {
+    logger.error({ error }, 'Failed to list memories via internal endpoint');
+    res.status(500).json({ error: 'Failed to list memories' });
+  }
+});
+
+internalMemoriesRouter.post('/memories/correct', async (req: Request, res: Response) => {
+  try {
+    const { accountId, lineId, memoryId, value } = req.body as {
+      accountId?: string;
+      lineId?: string;
+      memoryId?: string;
+      value?: string;
+    };
+
+    if (!accountId || !lineId || !memoryId || !value?.trim()) {
+      res.status(400).json({ error: 'Missing required fields: accountId, lineId, memoryId, value' });
+      return;
+    }
+
+    const existing = await findShareableMemory(accountId, lineId, memoryId);
+    if (!existing) {
+      res.status(404).json({ error: 'Memory not found' });
+      return;
+    }
+
+    const newMemoryId = await updateMemory(accountId, lineId, memoryId, value.trim(), {
+      source: 'caregiver_seed',
+    });
+    if (!newMemoryId) {
+      res.status(500).json({ error: 'Failed to update memory' });
+      return;
+    }
+
+    res.json({ success: true, memoryId: newMemoryId, key: existing.key, type: existing.type });
+  } catch (error) {
+    logger.error({ error }, 'Failed to correct memory via internal endpoint');
+    res.status(500).json({ error: 'Failed to update memory' });
+  }
+});
+
+internalMemoriesRouter.post('/memories/deactivate', async (req: Request, res: Response) => {
+  try {
+    const { accountId, lineId, memoryId } = req.body as {
+      accountId?: string;
+      lineId?: string;
+      memoryId?: string;
+    };
+
+    if (!accountId || !lineId || !memoryId) {
+      res.status(400).json({ error: 'Missing required fields: accountId, lineId, memoryId' });
+      return;
+    }
+
+    const existing = await findShareableMemory(accountId, lineId, memoryId);
+    if (!existing) {
+      res.status(404).json({ error: 'Memory not found' });
+      return;
+    }
+
+    if (!(await forgetMemory(accountId, lineId, memoryId))) {
+      res.status(500).json({ error: 'Failed to remove memory' });
+      return;
+    }
+
+    res.json({ success: true, key: existing.key, type: existing.type });
+  } catch (error) {
+    logger.error({ error }, 'Failed to deactivate memory via internal endpoint');
+    res.status(500).json({ error: 'Failed to remove memory' });
+  }
+});
+
+internalMemoriesRouter.post('/memories/add', async (req: Request, res: Response) => {
+  try {
+    const { accountId, lineId, type, key, value } = req.body as {
+      accountId?: string;
+      lineId?: string;
+      type?: MemoryType;
+      key?: string;
+      value?: string;
+    };
+
+    if (!accountId || !lineId || !type || !key || !value?.trim()) {
+      res.status(400).json({ error: 'Missing required fields: accountId, lineId, type, key, value' });
+      return;
+    }
+
+    if (!MEMORY_TYPES.includes(type)) {
+      res.status(400).json({ error: 'Invalid memory type' });
+      return;
+    }
+
+    const supabase = getSupabaseClient();
+    const { data: line } = await supabase
+      .from('ultaura_lines')
+      .select('id')
+      .eq('id', lineId)
+      .eq('account_id', accountId)
+      .maybeSingle();
+
+    if (!line) {
+      res.status(404).json({ error: 'Line not found' });
+      return;
+    }
+
+    // Caregiver seeds are shared with the payer so they stay visible and editable here
+    const memoryId = await storeMemory(accountId, lineId, type, key, value.trim(), {
+      source: 'caregiver_seed',
+      privacyScope: 'shareable_with_payer',
+    });
+    if (!memoryId) {
+      res.status(500).json({ error: 'Failed to add memory' });
+      return;
+    }
+
+    res.json({ success: true, memoryId });
+  } catch (error) {
+    logger.error({ error }, 'Failed to add memory via internal endpoint');
+    res.status(500).json({ error: 'Failed to add memory' });
+  }
+});
+
+internalMemoriesRouter.post('/memories/history', async (req: Request, res: Response) => {
+  try {
+    const { accountId, lineId, key } = req.body as { accountId?: string; lineId?: string; key?: string };
+
+    if (!accountId || !lineId || !key) {
+      res.status(400).json({ error: 'Missing required fields: accountId, lineId, key' });
+      return;
+    }
+
+    const memories = await getShareableMemories(accountId, lineId);
+    if (!memories.some((memory) => memory.key === key)) {
+      res.status(404).json({ error: 'Memory not found' });
+      return;
+    }
+
+    const timeline = await getMemoryTimeline(accountId, lineId, key);
+    res.json({ success: true, timeline });
+  } catch (error) {
+    logger.error({ error }, 'Failed to load memory history via internal endpoint');
+    res.status(500).json({ error: 'Failed to load memory history' });
+  }
+});
+
+internalMemoriesRouter.post('/memories/updates/list', async (req: Request, res: Response) => {
+  try {
+    const { accountId, lineId } = req.body as { accountId?: string; lineId?: string };
+
+    if (!accountId || !lineId) {
+      res.status(400).json({ error: 'Missing required fields: accountId, lineId' });
+      return;
+    }
+
+    const [memories, proposals] = await Promise.all([
+      getShareableMemories(accountId, lineId),
+      getPendingMemoryUpdates(accountId, lineId),
+    ]);
+    const shareableIds = new Set(memories.map((memory) => memory.id));
+
+    res.json({
+      success: true,
+      updates: proposals.filter((proposal) => shareableIds.has(proposal.memoryId)),
+    });
+  } catch (error) {
+    logger.error({ error }, 'Failed to list memory updates via internal endpoint');
+    res.status(500).json({ error: 'Failed to list memory updates' });
+  }
+});
+
+internalMemoriesRouter.post('/memories/updates/resolve', async (req: Request, res: Response) => {
+  try {
+    const { accountId, lineId, updateId, confirmed } = req.body as {
+      accountId?: string;
+      lineId?: string;
+      updateId?: string;
+      confirmed?: boolean;
+    };
+
+    if (!accountId || !lineId || !updateId || typeof confirmed !== 'boolean') {
+      res.status(400).json({ error: 'Missing required fields: accountId, lineId, updateId, confirmed' });
+      return;
+    }
+
+    const proposals = await getPendingMemoryUpdates(accountId, lineId);
+    const proposal = proposals.find((candidate) => candidate.id === updateId);
+    if (!proposal || !(await findShareableMemory(accountId, lineId, proposal.memoryId))) {
+      res.status(404).json({ error: 'Update not found' });
+      return;
+    }
+
+    const result = await resolveMemoryUpdate(accountId, lineId, updateId, confirmed, 'caregiver');
+    if (!result.success) {
+      res.status(result.reason === 'not_found' ? 404 : 500).json({
+        error: result.reason === 'not_found' ? 'Update not found' : 'Failed to update memory',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      memoryId: result.memoryId ?? proposal.memoryId,
+      key: proposal.key,
+      type: proposal.type,
+    });
+  } catch (error) {
+    logger.error({ error }, 'Failed to resolve memory update via internal endpoint');
+    res.status(500).json({ error: 'Failed to resolve memory update' });
+  }
+});
@@ -1,5 +1,5 @@
 import { Router, Request, Response } from 'express';
-import { getGrokBridge } from '../websocket/grok-bridge-registry.js';
+import { getVoiceBridge } from '../websocket/voice-bridge-registry.js';
 import { logger } from '../server.js';
 
 const router = Router();
@@ -12,13 +12,13 @@ router.post('/simulate-failure', async (req: Request, res: Response) => {
     return;
   }
 
-  const bridge = getGrokBridge(callSessionId);
+  const bridge = getVoiceBridge(callSessionId);
   if (!bridge) {
     res.status(404).json({ error: 'No active call session found' });
     return;
   }
 
-  logger.info({ callSessionId }, 'Simulating Grok failure for testing');
+  logger.info({ callSessionId }, 'Simulating voice provider failure for testing');
 
   bridge.forceClose();
 
@@ -0,0 +1,79 @@
+import { Router, Request, Response } from 'express';
+import { logger } from '../../server.js';
+import { getCallSession, incrementToolInvocations, recordCallEvent } from '../../services/call-session.js';
+import { resolveMemoryUpdate } from '../../services/memory-updates.js';
+import { addStoredKey } from '../../services/ephemeral-buffer.js';
+
+export const confirmMemoryUpdateRouter = Router();
+
+confirmMemoryUpdateRouter.post('/', async (req: Request, res: Response) => {
+  try {
+    const { callSessionId, lineId, updateId, confirmed } = req.body as {
+      callSessionId?: string;
+      lineId?: string;
+      updateId?: string;
+      confirmed?: boolean;
+    };
+
+    if (!callSessionId || !lineId || !updateId || typeof confirmed !== 'boolean') {
+      res.status(400).json({ success: false, error: 'Missing required fields' });
+      return;
+    }
+
+    const session = await getCallSession(callSessionId);
+    if (!session) {
+      res.status(404).json({ success: false, error: 'Call session not found' });
+      return;
+    }
+
+    const recordFailure = async (errorCode?: string) => {
+      await recordCallEvent(callSessionId, 'tool_call', {
+        tool: 'confirm_memory_update',
+        success: false,
+        errorCode,
+      }, { skipDebugLog: true });
+    };
+
+    if (lineId !== session.line_id) {
+      await recordFailure();
+      res.status(403).json({ success: false, error: 'Unauthorized' });
+      return;
+    }
+
+    const result = await resolveMemoryUpdate(session.account_id, lineId, updateId, confirmed, 'senior');
+
+    if (!result.success) {
+      await recordFailure(result.reason);
+      res.json({
+        success: false,
+        error: result.reason === 'not_found'
+          ? 'That update was already resolved. Continue the conversation.'
+          : 'Failed to update memory',
+      });
+      return;
+    }
+
+    // Keep end-of-call extraction from proposing the same change again
+    addStoredKey(callSessionId, result.proposal.key);
+
+    await incrementToolInvocations(callSessionId);
+    await recordCallEvent(callSessionId, 'tool_call', {
+      tool: 'confirm_memory_update',
+      success: true,
+      key: result.proposal.key,
+      confirmed,
+    }, { skipDebugLog: true });
+
+    logger.info({ lineId, updateId, confirmed }, 'Memory update resolved by senior');
+
+    res.json({
+      success: true,
+      message: confirmed
+        ? 'Memory updated. Continue naturally without mentioning it.'
+        : 'Memory kept as it was. Continue naturally without mentioning it.',
+    });
+  } catch (error) {
+    logger.error({ error }, 'Error confirming memory update');
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
@@ -8,8 +8,15 @@ import { forgetMemoryRouter } from './forget-memory.js';
 import { markPrivateRouter } from './mark-private.js';
 import { storeMemoryRouter } from './store-memory.js';
 import { updateMemoryRouter } from './update-memory.js';
+import { confirmMemoryUpdateRouter } from './confirm-memory-update.js';
+import { resolveFollowUpRouter } from './resolve-follow-up.js';
+import { logSegmentEngagementRouter } from './log-segment-engagement.js';
+import { markBriefingMentionedRouter } from './mark-briefing-mentioned.js';
+import { storeCallPreviewRouter } from './store-call-preview.js';
+import { resolveCallPreviewRouter } from './resolve-call-preview.js';
 import { voiceConsentRouter } from './voice-consent.js';
 import { safetyEventRouter } from './safety-event.js';
+import { transferToContactRouter } from './transfer-to-contact.js';
 import { overageActionRouter } from './overage-action.js';
 import { requestUpgradeRouter } from './request-upgrade.js';
 import { reportConversationLanguageRouter } from './report-conversation-language.js';
@@ -23,6 +30,7 @@ import { pauseReminderRouter } from './pause-reminder.js';
 import { resumeReminderRouter } from './resume-reminder.js';
 import { snoozeReminderRouter } from './snooze-reminder.js';
 import { cancelReminderRouter } from './cancel-reminder.js';
+import { recordReminderConfirmationRouter } from './record-reminder-confirmation.js';
 import { requireInternalSecret } from '../../middleware/auth.js';
 
 export const toolsRouter = Router();
@@ -36,8 +44,15 @@ toolsRouter.use('/forget_memory', forgetMemoryRouter);
 toolsRouter.use('/mark_private', markPrivateRouter);
 toolsRouter.use('/store_memory', storeMemoryRouter);
 toolsRouter.use('/update_memory', updateMemoryRouter);
+toolsRouter.use('/confirm_memory_update', confirmMemoryUpdateRouter);
+toolsRouter.use('/resolve_follow_up', resolveFollowUpRouter);
+toolsRouter.use('/log_segment_engagement', logSegmentEngagementRouter);
+toolsRouter.use('/mark_briefing_mentioned', markBriefingMentionedRouter);
+toolsRouter.use('/store_call_preview', storeCallPreviewRouter);
+toolsRouter.use('/resolve_call_preview', resolveCallPreviewRouter);
 toolsRouter.use('/', voiceConsentRouter);
 toolsRouter.use('/safety_event', safetyEventRouter);
+toolsRouter.use('/transfer_to_trusted_contact', transferToContactRouter);
 toolsRouter.use('/overage_action', overageActionRouter);
 toolsRouter.use('/request_upgrade', requestUpgradeRouter);
 toolsRouter.use('/report_conversation_language', reportConversationLanguageRouter);
@@ -51,3 +66,4 @@ toolsRouter.use('/pause_reminder', pauseReminderRouter);
 toolsRouter.use('/resume_reminder', resumeReminderRouter);
 toolsRouter.use('/snooze_reminder', snoozeReminderRouter);
 toolsRouter.use('/cancel_reminder', cancelReminderRouter);
+toolsRouter.use('/record_reminder_confirmation', recordReminderConfirmationRouter);
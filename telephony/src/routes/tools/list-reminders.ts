@@ -1,6 +1,7 @@
 // List reminders tool handler
 
 import { Router, Request, Response } from 'express';
+import { describeRecurrence } from '@ultaura/schemas';
 import { getSupabaseClient } from '../../utils/supabase.js';
 import { logger } from '../../server.js';
 import { getCallSession, incrementToolInvocations, recordCallEvent } from '../../services/call-session.js';
@@ -54,7 +55,7 @@ listRemindersRouter.post('/', async (req: Request, res: Response) => {
     // Get upcoming reminders
     const { data: reminders, error } = await supabase
       .from('ultaura_reminders')
-      .select('id, message, due_at, is_recurring, is_paused, current_snooze_count')
+      .select('id, message, due_at, is_recurring, rrule, time_of_day, excluded_dates, is_paused, current_snooze_count')
       .eq('line_id', lineId)
       .eq('status', 'scheduled')
       .order('due_at', { ascending: true })
@@ -104,12 +105,17 @@ listRemindersRouter.post('/', async (req: Request, res: Response) => {
         status = ' (snoozed)';
       }
 
+      const recurrence = r.is_recurring && r.rrule
+        ? describeRecurrence(r.rrule, { timeOfDay: r.time_of_day, excludedDates: r.excluded_dates })
+        : null;
+
       return {
         id: r.id,
         index: i + 1,
         message: r.message,
         dateTime: `${dateStr} at ${timeStr}`,
         isRecurring: r.is_recurring,
+        recurrence,
         isPaused: r.is_paused,
         status,
       };
@@ -121,6 +127,9 @@ listRemindersRouter.post('/', async (req: Request, res: Response) => {
 
     formattedReminders.slice(0, 3).forEach((r, i) => {
       voiceMessage += `${i + 1}: "${r.message}" on ${r.dateTime}${r.status}. `;
+      if (r.recurrence) {
+        voiceMessage += `It repeats ${r.recurrence.charAt(0).toLowerCase()}${r.recurrence.slice(1)}. `;
+      }
     });
 
     if (count > 3) {
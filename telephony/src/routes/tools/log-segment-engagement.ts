@@ -0,0 +1,79 @@
+import { Router, Request, Response } from 'express';
+import type { SegmentResponse } from '@ultaura/types';
+import { logger } from '../../server.js';
+import { getCallSession, incrementToolInvocations, recordCallEvent } from '../../services/call-session.js';
+import { recordSegmentEngagement } from '../../services/segments.js';
+
+const SEGMENT_RESPONSES: readonly SegmentResponse[] = ['enjoyed', 'neutral', 'declined', 'interrupted'];
+
+export const logSegmentEngagementRouter = Router();
+
+logSegmentEngagementRouter.post('/', async (req: Request, res: Response) => {
+  try {
+    const { callSessionId, lineId, segmentId, completed, seniorResponse } = req.body as {
+      callSessionId?: string;
+      lineId?: string;
+      segmentId?: string;
+      completed?: boolean;
+      seniorResponse?: SegmentResponse;
+    };
+
+    if (!callSessionId || !lineId || !segmentId || typeof completed !== 'boolean' || !seniorResponse) {
+      res.status(400).json({ success: false, error: 'Missing required fields' });
+      return;
+    }
+
+    if (!SEGMENT_RESPONSES.includes(seniorResponse)) {
+      res.status(400).json({ success: false, error: 'Invalid senior_response' });
+      return;
+    }
+
+    const session = await getCallSession(callSessionId);
+    if (!session) {
+      res.status(404).json({ success: false, error: 'Call session not found' });
+      return;
+    }
+
+    const recordFailure = async (errorCode?: string) => {
+      await recordCallEvent(callSessionId, 'tool_call', {
+        tool: 'log_segment_engagement',
+        success: false,
+        errorCode,
+      }, { skipDebugLog: true });
+    };
+
+    if (lineId !== session.line_id) {
+      await recordFailure();
+      res.status(403).json({ success: false, error: 'Unauthorized' });
+      return;
+    }
+
+    if (!(await recordSegmentEngagement(callSessionId, segmentId, { completed, seniorResponse }))) {
+      await recordFailure('not_found');
+      res.json({
+        success: false,
+        error: 'That segment was not offered on this call. Continue the conversation.',
+      });
+      return;
+    }
+
+    await incrementToolInvocations(callSessionId);
+    await recordCallEvent(callSessionId, 'tool_call', {
+      tool: 'log_segment_engagement',
+      success: true,
+      segmentId,
+      completed,
+      seniorResponse,
+    }, { skipDebugLog: true });
+
+    logger.info({ lineId, segmentId, seniorResponse }, 'Segment engagement recorded');
+
+    res.json({
+      success: true,
+      message: 'Noted. Continue naturally without mentioning it.',
+    });
+  } catch (error) {
+    logger.error({ error }, 'Error logging segment engagement');
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
@@ -0,0 +1,67 @@
+import { Router, Request, Response } from 'express';
+import { logger } from '../../server.js';
+import { getCallSession, incrementToolInvocations, recordCallEvent } from '../../services/call-session.js';
+import { markBriefingItemMentioned } from '../../services/briefing.js';
+
+export const markBriefingMentionedRouter = Router();
+
+markBriefingMentionedRouter.post('/', async (req: Request, res: Response) => {
+  try {
+    const { callSessionId, lineId, itemId } = req.body as {
+      callSessionId?: string;
+      lineId?: string;
+      itemId?: string;
+    };
+
+    if (!callSessionId || !lineId || !itemId) {
+      res.status(400).json({ success: false, error: 'Missing required fields' });
+      return;
+    }
+
+    const session = await getCallSession(callSessionId);
+    if (!session) {
+      res.status(404).json({ success: false, error: 'Call session not found' });
+      return;
+    }
+
+    const recordFailure = async (errorCode?: string) => {
+      await recordCallEvent(callSessionId, 'tool_call', {
+        tool: 'mark_briefing_mentioned',
+        success: false,
+        errorCode,
+      }, { skipDebugLog: true });
+    };
+
+    if (lineId !== session.line_id) {
+      await recordFailure();
+      res.status(403).json({ success: false, error: 'Unauthorized' });
+      return;
+    }
+
+    if (!(await markBriefingItemMentioned(callSessionId, itemId))) {
+      await recordFailure('not_found');
+      res.json({
+        success: false,
+        error: 'That item is not in today\'s briefing. Continue the conversation.',
+      });
+      return;
+    }
+
+    await incrementToolInvocations(callSessionId);
+    await recordCallEvent(callSessionId, 'tool_call', {
+      tool: 'mark_briefing_mentioned',
+      success: true,
+      itemId,
+    }, { skipDebugLog: true });
+
+    logger.info({ lineId, itemId }, 'Briefing item mentioned');
+
+    res.json({
+      success: true,
+      message: 'Noted. Continue naturally without mentioning it.',
+    });
+  } catch (error) {
+    logger.error({ error }, 'Error marking briefing item mentioned');
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
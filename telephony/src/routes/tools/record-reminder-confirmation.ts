@@ -0,0 +1,88 @@
+import { Router, Request, Response } from 'express';
+import type { ReminderConfirmationResponse } from '@ultaura/types';
+import { logger } from '../../server.js';
+import { getCallSession, incrementToolInvocations, recordCallEvent } from '../../services/call-session.js';
+import { recordReminderConfirmation } from '../../services/reminder-confirmations.js';
+
+const CONFIRMATION_RESPONSES: readonly ReminderConfirmationResponse[] = ['taken', 'will_take_later', 'refused'];
+
+const RESPONSE_MESSAGES: Record<ReminderConfirmationResponse, string> = {
+  taken: 'Recorded. Thank them warmly and wrap up the call.',
+  will_take_later: 'Recorded. Encourage them gently not to forget, then wrap up the call.',
+  refused: 'Recorded. Accept their answer kindly, suggest they mention it to their family or doctor, then wrap up the call.',
+};
+
+export const recordReminderConfirmationRouter = Router();
+
+recordReminderConfirmationRouter.post('/', async (req: Request, res: Response) => {
+  try {
+    const { callSessionId, lineId, status } = req.body as {
+      callSessionId?: string;
+      lineId?: string;
+      status?: ReminderConfirmationResponse;
+    };
+
+    if (!callSessionId || !lineId || !status) {
+      res.status(400).json({ success: false, error: 'Missing required fields' });
+      return;
+    }
+
+    if (!CONFIRMATION_RESPONSES.includes(status)) {
+      res.status(400).json({ success: false, error: 'Invalid status' });
+      return;
+    }
+
+    const session = await getCallSession(callSessionId);
+    if (!session) {
+      res.status(404).json({ success: false, error: 'Call session not found' });
+      return;
+    }
+
+    const recordFailure = async (errorCode?: string) => {
+      await recordCallEvent(callSessionId, 'tool_call', {
+        tool: 'record_reminder_confirmation',
+        success: false,
+        errorCode,
+      }, { skipDebugLog: true });
+    };
+
+    if (lineId !== session.line_id) {
+      await recordFailure();
+      res.status(403).json({ success: false, error: 'Unauthorized' });
+      return;
+    }
+
+    if (!session.is_reminder_call || !session.reminder_id) {
+      await recordFailure('not_reminder_call');
+      res.json({ success: false, error: 'This is not a reminder call. Continue the conversation.' });
+      return;
+    }
+
+    const recorded = await recordReminderConfirmation({
+      reminderId: session.reminder_id,
+      response: status,
+      triggeredBy: 'voice',
+      callSessionId,
+    });
+
+    if (!recorded) {
+      await recordFailure('not_found');
+      res.json({ success: false, error: 'Their answer was already recorded. Wrap up the call.' });
+      return;
+    }
+
+    await incrementToolInvocations(callSessionId);
+    await recordCallEvent(callSessionId, 'tool_call', {
+      tool: 'record_reminder_confirmation',
+      success: true,
+      status,
+    }, { skipDebugLog: true });
+
+    logger.info({ lineId, reminderId: session.reminder_id, status }, 'Reminder confirmation recorded');
+
+    res.json({ success: true, message: RESPONSE_MESSAGES[status] });
+  } catch (error) {
+    logger.error({ error }, 'Error recording reminder confirmation');
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
@@ -2,7 +2,7 @@ import { Router, Request, Response } from 'express';
 import { normalizeLanguageCode } from '@ultaura/prompts';
 import { logger } from '../../server.js';
 import { getCallSession, incrementToolInvocations, recordCallEvent } from '../../services/call-session.js';
-import { getGrokBridge } from '../../websocket/grok-bridge-registry.js';
+import { getVoiceBridge } from '../../websocket/voice-bridge-registry.js';
 
 export const reportConversationLanguageRouter = Router();
 
@@ -41,12 +41,12 @@ reportConversationLanguageRouter.post('/', async (req: Request, res: Response) =
     }
 
     const normalizedCode = normalizeLanguageCode(rawCode);
-    const grokBridge = getGrokBridge(callSessionId);
+    const voiceBridge = getVoiceBridge(callSessionId);
 
-    if (grokBridge) {
-      grokBridge.setDetectedLanguage(normalizedCode);
+    if (voiceBridge) {
+      voiceBridge.setDetectedLanguage(normalizedCode);
     } else {
-      logger.warn({ callSessionId }, 'Grok bridge not found for language report');
+      logger.warn({ callSessionId }, 'Voice bridge not found for language report');
     }
 
     await incrementToolInvocations(callSessionId);
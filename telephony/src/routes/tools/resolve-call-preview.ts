@@ -0,0 +1,76 @@
+import { Router, Request, Response } from 'express';
+import type { CallPreviewResponse } from '@ultaura/types';
+import { logger } from '../../server.js';
+import { getCallSession, incrementToolInvocations, recordCallEvent } from '../../services/call-session.js';
+import { resolveCallPreview } from '../../services/call-preview.js';
+
+const PREVIEW_RESPONSES: readonly CallPreviewResponse[] = ['engaged', 'redirected', 'declined'];
+
+export const resolveCallPreviewRouter = Router();
+
+resolveCallPreviewRouter.post('/', async (req: Request, res: Response) => {
+  try {
+    const { callSessionId, lineId, previewId, response } = req.body as {
+      callSessionId?: string;
+      lineId?: string;
+      previewId?: string;
+      response?: CallPreviewResponse;
+    };
+
+    if (!callSessionId || !lineId || !previewId || !response) {
+      res.status(400).json({ success: false, error: 'Missing required fields' });
+      return;
+    }
+
+    if (!PREVIEW_RESPONSES.includes(response)) {
+      res.status(400).json({ success: false, error: 'Invalid response' });
+      return;
+    }
+
+    const session = await getCallSession(callSessionId);
+    if (!session) {
+      res.status(404).json({ success: false, error: 'Call session not found' });
+      return;
+    }
+
+    const recordFailure = async (errorCode?: string) => {
+      await recordCallEvent(callSessionId, 'tool_call', {
+        tool: 'resolve_call_preview',
+        success: false,
+        errorCode,
+      }, { skipDebugLog: true });
+    };
+
+    if (lineId !== session.line_id) {
+      await recordFailure();
+      res.status(403).json({ success: false, error: 'Unauthorized' });
+      return;
+    }
+
+    if (!(await resolveCallPreview(lineId, previewId, callSessionId, response))) {
+      await recordFailure('not_found');
+      res.json({
+        success: false,
+        error: 'That topic was already recorded. Continue the conversation.',
+      });
+      return;
+    }
+
+    await incrementToolInvocations(callSessionId);
+    await recordCallEvent(callSessionId, 'tool_call', {
+      tool: 'resolve_call_preview',
+      success: true,
+      response,
+    }, { skipDebugLog: true });
+
+    logger.info({ lineId, previewId, response }, 'Call preview followed through');
+
+    res.json({
+      success: true,
+      message: 'Noted. Continue naturally without mentioning it.',
+    });
+  } catch (error) {
+    logger.error({ error }, 'Error resolving call preview');
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
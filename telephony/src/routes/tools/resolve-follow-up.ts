@@ -0,0 +1,73 @@
+import { Router, Request, Response } from 'express';
+import { logger } from '../../server.js';
+import { getCallSession, incrementToolInvocations, recordCallEvent } from '../../services/call-session.js';
+import { resolveFollowUp } from '../../services/memory.js';
+import { addStoredKey } from '../../services/ephemeral-buffer.js';
+
+export const resolveFollowUpRouter = Router();
+
+resolveFollowUpRouter.post('/', async (req: Request, res: Response) => {
+  try {
+    const { callSessionId, lineId, followUpId } = req.body as {
+      callSessionId?: string;
+      lineId?: string;
+      followUpId?: string;
+    };
+
+    if (!callSessionId || !lineId || !followUpId) {
+      res.status(400).json({ success: false, error: 'Missing required fields' });
+      return;
+    }
+
+    const session = await getCallSession(callSessionId);
+    if (!session) {
+      res.status(404).json({ success: false, error: 'Call session not found' });
+      return;
+    }
+
+    const recordFailure = async (errorCode?: string) => {
+      await recordCallEvent(callSessionId, 'tool_call', {
+        tool: 'resolve_follow_up',
+        success: false,
+        errorCode,
+      }, { skipDebugLog: true });
+    };
+
+    if (lineId !== session.line_id) {
+      await recordFailure();
+      res.status(403).json({ success: false, error: 'Unauthorized' });
+      return;
+    }
+
+    const followUp = await resolveFollowUp(session.account_id, lineId, followUpId);
+
+    if (!followUp) {
+      await recordFailure('not_found');
+      res.json({
+        success: false,
+        error: 'That follow-up was not found. Continue the conversation.',
+      });
+      return;
+    }
+
+    // Keep end-of-call extraction from storing the answered follow-up again
+    addStoredKey(callSessionId, followUp.key);
+
+    await incrementToolInvocations(callSessionId);
+    await recordCallEvent(callSessionId, 'tool_call', {
+      tool: 'resolve_follow_up',
+      success: true,
+      key: followUp.key,
+    }, { skipDebugLog: true });
+
+    logger.info({ lineId, followUpId }, 'Follow-up resolved by senior');
+
+    res.json({
+      success: true,
+      message: 'Follow-up noted. Continue naturally without mentioning it.',
+    });
+  } catch (error) {
+    logger.error({ error }, 'Error resolving follow-up');
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
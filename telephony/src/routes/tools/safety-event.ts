@@ -6,120 +6,10 @@ import {
 import { logger } from '../../server.js';
 import { getCallSession, recordCallEvent, recordSafetyEvent } from '../../services/call-session.js';
 import { markSafetyTier, wasBackstopTriggered } from '../../services/safety-state.js';
-import { enforceRateLimit } from '../../services/rate-limiter.js';
-import { getSupabaseClient } from '../../utils/supabase.js';
-import { sendSms } from '../../utils/twilio.js';
+import { startSafetyEscalation } from '../../services/safety-escalation.js';
 
 export const safetyEventRouter = Router();
 
-// Notify trusted contacts for high-tier safety events
-async function notifyTrustedContacts(
-  accountId: string,
-  callSessionId: string,
-  lineId: string,
-  tier: string,
-  actionTaken: string
-): Promise<void> {
-  const supabase = getSupabaseClient();
-
-  try {
-    // Check for trusted_contact_notify consent
-    const { data: consent } = await supabase
-      .from('ultaura_consents')
-      .select('granted')
-      .eq('line_id', lineId)
-      .eq('type', 'trusted_contact_notify')
-      .eq('granted', true)
-      .is('revoked_at', null)
-      .maybeSingle();
-
-    if (!consent) {
-      logger.info({ lineId }, 'No trusted contact consent found, skipping notification');
-      return;
-    }
-
-    // Get enabled trusted contacts for this line
-    const { data: contacts } = await supabase
-      .from('ultaura_trusted_contacts')
-      .select('id, name, phone_e164, notify_on')
-      .eq('line_id', lineId)
-      .eq('enabled', true);
-
-    if (!contacts || contacts.length === 0) {
-      logger.info({ lineId }, 'No enabled trusted contacts found');
-      return;
-    }
-
-    // Filter to contacts who want high-tier notifications
-    const contactsToNotify = contacts.filter(
-      (c) => c.notify_on && Array.isArray(c.notify_on) && c.notify_on.includes('high')
-    );
-
-    if (contactsToNotify.length === 0) {
-      logger.info({ lineId }, 'No contacts configured for high-tier notifications');
-      return;
-    }
-
-    // Get line info for personalized message
-    const { data: line } = await supabase
-      .from('ultaura_lines')
-      .select('display_name')
-      .eq('id', lineId)
-      .single();
-
-    const lovedOneName = line?.display_name || 'Your loved one';
-
-    // Send SMS to each contact
-    let skippedCount = 0;
-
-    for (const contact of contactsToNotify) {
-      try {
-        const rateLimitResult = await enforceRateLimit({
-          action: 'sms',
-          accountId,
-          callSessionId,
-          phoneNumber: contact.phone_e164,
-        });
-
-        if (!rateLimitResult.allowed) {
-          skippedCount++;
-          logger.warn(
-            { accountId, contactId: contact.id, limit: rateLimitResult.limitType },
-            'SMS rate limit exceeded, skipping trusted contact notification'
-          );
-          continue;
-        }
-
-        const message = `Ultaura safety alert: ${lovedOneName} may need support. Action taken: ${actionTaken === 'suggested_988' ? 'Suggested calling 988 crisis line' : actionTaken === 'suggested_911' ? 'Suggested calling 911' : 'Provided support'}. Please check in with them.`;
-
-        await sendSms({
-          to: contact.phone_e164,
-          body: message,
-        });
-
-        logger.info(
-          { contactId: contact.id, lineId, tier },
-          'Notified trusted contact of safety event'
-        );
-      } catch (smsError) {
-        logger.error(
-          { error: smsError, contactId: contact.id, lineId },
-          'Failed to send SMS to trusted contact'
-        );
-      }
-    }
-
-    if (skippedCount > 0) {
-      logger.warn(
-        { accountId, lineId, skippedCount },
-        'Trusted contact notifications skipped due to SMS rate limits'
-      );
-    }
-  } catch (error) {
-    logger.error({ error, lineId }, 'Error notifying trusted contacts');
-  }
-}
-
 safetyEventRouter.post('/', async (req: Request, res: Response) => {
   try {
     const rawBody = req.body as Partial<SafetyEventInput>;
@@ -155,30 +45,33 @@ safetyEventRouter.post('/', async (req: Request, res: Response) => {
 
     const accountId = session.account_id;
 
-    const sourceValue = source === 'keyword_backstop' ? 'keyword_backstop' : 'model';
     const backstopWasTriggered =
-      sourceValue === 'model' ? wasBackstopTriggered(callSessionId, tier) : false;
+      source === 'model' ? wasBackstopTriggered(callSessionId, tier) : false;
 
     logger.info({
-      event: sourceValue === 'keyword_backstop' ? 'safety_backstop_triggered' : 'safety_model_confirmed',
+      event: source === 'keyword_backstop'
+        ? 'safety_backstop_triggered'
+        : source === 'classifier'
+          ? 'safety_classifier_triggered'
+          : 'safety_model_confirmed',
       callSessionId,
       lineId,
       tier,
-      source: sourceValue,
-      backstopWasTriggered: sourceValue === 'model' ? backstopWasTriggered : undefined,
+      source,
+      backstopWasTriggered: source === 'model' ? backstopWasTriggered : undefined,
       timestamp: Date.now(),
-    }, `Safety event logged via ${sourceValue}`);
+    }, `Safety event logged via ${source}`);
 
-    markSafetyTier(callSessionId, tier, sourceValue);
+    markSafetyTier(callSessionId, tier, source);
 
-    await recordSafetyEvent({
+    const safetyEventId = await recordSafetyEvent({
       accountId,
       lineId,
       callSessionId,
       tier,
       signals: {
         description: signals,
-        source: sourceValue,
+        source,
       },
       actionTaken,
     });
@@ -194,13 +87,23 @@ safetyEventRouter.post('/', async (req: Request, res: Response) => {
       { skipDebugLog: true }
     );
 
-    // For high-tier events, notify trusted contacts
-    if (tier === 'high' && sourceValue === 'model') {
+    // For high-tier events, start the trusted contact escalation ladder
+    if (tier === 'high' && source === 'model') {
       logger.warn({ callSessionId, lineId, tier, actionTaken }, 'HIGH SAFETY TIER EVENT');
-      // Run notification in background to not block the response
-      notifyTrustedContacts(accountId, callSessionId, lineId, tier, actionTaken).catch((error) => {
-        logger.error({ error, lineId }, 'Background trusted contact notification failed');
-      });
+
+      if (safetyEventId) {
+        // Run the first step in background to not block the response
+        startSafetyEscalation({
+          id: safetyEventId,
+          account_id: accountId,
+          line_id: lineId,
+          call_session_id: callSessionId,
+          action_taken: actionTaken,
+          escalation_step: 0,
+        }).catch((error) => {
+          logger.error({ error, lineId }, 'Background safety escalation failed');
+        });
+      }
     }
 
     res.json({ success: true, message: 'Safety concern logged' });
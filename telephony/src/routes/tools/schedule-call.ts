@@ -139,6 +139,7 @@ scheduleCallRouter.post('/', async (req: Request, res: Response) => {
         .select('id')
         .eq('line_id', lineId)
         .eq('enabled', true)
+        .eq('is_one_off', false)
         .order('created_at', { ascending: false })
         .limit(1)
         .single();
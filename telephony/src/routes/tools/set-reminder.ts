@@ -17,6 +17,14 @@ export const setReminderRouter = Router();
 
 type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'custom';
 
+// How the confirmation describes non-call delivery
+const DELIVERY_METHOD_NOTES: Record<NonNullable<SetReminderInput['deliveryMethod']>, string | null> = {
+  outbound_call: null,
+  sms: 'delivered by text message',
+  voicemail_drop: 'delivered as a short recorded voicemail',
+  call_then_sms_fallback: 'delivered by call, with a text if the call is missed',
+};
+
 /**
  * Build RRULE string and related fields from recurrence parameters.
  */
@@ -137,6 +145,7 @@ setReminderRouter.post('/', async (req: Request, res: Response) => {
       daysOfWeek,
       dayOfMonth,
       endsAtLocal,
+      deliveryMethod = 'outbound_call',
     } = parsed.data;
 
     logger.info({
@@ -146,6 +155,7 @@ setReminderRouter.post('/', async (req: Request, res: Response) => {
       message,
       isRecurring,
       frequency,
+      deliveryMethod,
     }, 'Set reminder request');
 
     // Get call session to verify and get account ID
@@ -300,7 +310,7 @@ setReminderRouter.post('/', async (req: Request, res: Response) => {
         due_at: dueAt.toISOString(),
         timezone: tz,
         message: finalMessage.slice(0, 500), // Limit message length
-        delivery_method: 'outbound_call',
+        delivery_method: deliveryMethod,
         status: 'scheduled',
         privacy_scope: privacyScope,
         created_by_call_session_id: callSessionId,
@@ -343,6 +353,7 @@ setReminderRouter.post('/', async (req: Request, res: Response) => {
       success: true,
       reminderId: reminder.id,
       messageDefaulted,
+      deliveryMethod,
     }, { skipDebugLog: true });
 
     logger.info({ reminderId: reminder.id, dueAt: reminder.due_at }, 'Reminder created');
@@ -365,6 +376,11 @@ setReminderRouter.post('/', async (req: Request, res: Response) => {
       }
     }
 
+    const deliveryNote = DELIVERY_METHOD_NOTES[deliveryMethod];
+    if (deliveryNote) {
+      responseMessage = `${responseMessage} (${deliveryNote})`;
+    }
+
     res.json({
       success: true,
       reminderId: reminder.id,
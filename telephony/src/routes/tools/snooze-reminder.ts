@@ -9,6 +9,7 @@ import {
 import { getSupabaseClient } from '../../utils/supabase.js';
 import { logger } from '../../server.js';
 import { getCallSession, incrementToolInvocations, recordCallEvent } from '../../services/call-session.js';
+import { snoozeReminder } from '../../services/reminders.js';
 
 export const snoozeReminderRouter = Router();
 
@@ -149,45 +150,19 @@ snoozeReminderRouter.post('/', async (req: Request, res: Response) => {
       return;
     }
 
-    // Calculate new due time
-    const now = new Date();
-    const newDueAt = new Date(now.getTime() + snoozeMinutes * 60 * 1000);
-    const originalDueAt = reminder.original_due_at || reminder.due_at;
+    const snoozed = await snoozeReminder({
+      reminder,
+      snoozeMinutes,
+      triggeredBy: 'voice',
+      callSessionId,
+    });
 
-    // Update the reminder
-    const { error: updateError } = await supabase
-      .from('ultaura_reminders')
-      .update({
-        due_at: newDueAt.toISOString(),
-        original_due_at: originalDueAt,
-        snoozed_until: newDueAt.toISOString(),
-        current_snooze_count: reminder.current_snooze_count + 1,
-      })
-      .eq('id', targetReminderId);
-
-    if (updateError) {
-      logger.error({ error: updateError }, 'Failed to snooze reminder');
-      await recordFailure(updateError.code);
+    if (!snoozed) {
+      await recordFailure();
       res.status(500).json({ error: 'Failed to snooze reminder' });
       return;
     }
 
-    // Log the event
-    await supabase.from('ultaura_reminder_events').insert({
-      account_id: session.account_id,
-      reminder_id: targetReminderId,
-      line_id: lineId,
-      event_type: 'snoozed',
-      triggered_by: 'voice',
-      call_session_id: callSessionId,
-      metadata: {
-        snoozeMinutes,
-        snoozeCount: reminder.current_snooze_count + 1,
-        originalDueAt,
-        newDueAt: newDueAt.toISOString(),
-      },
-    });
-
     await incrementToolInvocations(callSessionId);
     await recordCallEvent(callSessionId, 'tool_call', {
       tool: 'snooze_reminder',
@@ -206,15 +181,15 @@ snoozeReminderRouter.post('/', async (req: Request, res: Response) => {
       snoozeDuration = `for ${snoozeMinutes} minutes`;
     }
 
-    const remainingSnoozes = MAX_SNOOZE_COUNT - (reminder.current_snooze_count + 1);
+    const remainingSnoozes = MAX_SNOOZE_COUNT - snoozed.snoozeCount;
     const snoozeNote = remainingSnoozes > 0
       ? ` You can snooze ${remainingSnoozes} more time${remainingSnoozes > 1 ? 's' : ''}.`
       : " That was your last snooze for this reminder.";
 
     res.json({
       success: true,
-      newDueAt: newDueAt.toISOString(),
-      snoozeCount: reminder.current_snooze_count + 1,
+      newDueAt: snoozed.newDueAt,
+      snoozeCount: snoozed.snoozeCount,
       message: `Okay, I've snoozed your reminder ${snoozeDuration}.${snoozeNote} Is there anything else?`,
     });
   } catch (error) {
@@ -0,0 +1,101 @@
+import { Router, Request, Response } from 'express';
+import type { CallPreviewTopicType } from '@ultaura/types';
+import { logger } from '../../server.js';
+import { getCallSession, incrementToolInvocations, recordCallEvent } from '../../services/call-session.js';
+import { storeCallPreview } from '../../services/call-preview.js';
+import { addStoredKey } from '../../services/ephemeral-buffer.js';
+
+const TOPIC_TYPES: readonly CallPreviewTopicType[] = ['memory_follow_up', 'web_search', 'segment', 'free_form'];
+const MAX_OFFERED_TOPICS = 3;
+
+export const storeCallPreviewRouter = Router();
+
+storeCallPreviewRouter.post('/', async (req: Request, res: Response) => {
+  try {
+    const { callSessionId, lineId, topicType, topicKey, topicDisplay, offeredTopics, segmentId } = req.body as {
+      callSessionId?: string;
+      lineId?: string;
+      topicType?: CallPreviewTopicType;
+      topicKey?: string;
+      topicDisplay?: string;
+      offeredTopics?: unknown;
+      segmentId?: string;
+    };
+
+    if (!callSessionId || !lineId || !topicType || !topicKey?.trim() || !topicDisplay?.trim()) {
+      res.status(400).json({ success: false, error: 'Missing required fields' });
+      return;
+    }
+
+    if (!TOPIC_TYPES.includes(topicType)) {
+      res.status(400).json({ success: false, error: 'Invalid topic_type' });
+      return;
+    }
+
+    const session = await getCallSession(callSessionId);
+    if (!session) {
+      res.status(404).json({ success: false, error: 'Call session not found' });
+      return;
+    }
+
+    const recordFailure = async (errorCode?: string) => {
+      await recordCallEvent(callSessionId, 'tool_call', {
+        tool: 'store_call_preview',
+        success: false,
+        errorCode,
+      }, { skipDebugLog: true });
+    };
+
+    if (lineId !== session.line_id) {
+      await recordFailure();
+      res.status(403).json({ success: false, error: 'Unauthorized' });
+      return;
+    }
+
+    const offered = Array.isArray(offeredTopics)
+      ? offeredTopics
+        .filter((topic): topic is string => typeof topic === 'string' && topic.trim().length > 0)
+        .map((topic) => topic.trim())
+        .slice(0, MAX_OFFERED_TOPICS)
+      : [];
+
+    const preview = await storeCallPreview({
+      accountId: session.account_id,
+      lineId,
+      callSessionId,
+      preview: {
+        topicType,
+        topicKey: topicKey.trim(),
+        topicDisplay: topicDisplay.trim(),
+        offeredTopics: offered,
+        segmentId: topicType === 'segment' ? segmentId ?? null : null,
+      },
+    });
+
+    if (!preview) {
+      await recordFailure('store_failed');
+      res.json({ success: false, error: 'Failed to save the topic for next time' });
+      return;
+    }
+
+    // The pick is tracked as a preview, so end-of-call extraction should not store it again
+    addStoredKey(callSessionId, preview.topicKey);
+
+    await incrementToolInvocations(callSessionId);
+    await recordCallEvent(callSessionId, 'tool_call', {
+      tool: 'store_call_preview',
+      success: true,
+      topicType,
+    }, { skipDebugLog: true });
+
+    logger.info({ lineId, previewId: preview.id, topicType }, 'Call preview stored');
+
+    res.json({
+      success: true,
+      message: 'Saved. Let them know you will start with it next time.',
+    });
+  } catch (error) {
+    logger.error({ error }, 'Error storing call preview');
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
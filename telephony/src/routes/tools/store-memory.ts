@@ -4,6 +4,7 @@ import { getCallSession, incrementToolInvocations, recordCallEvent } from '../..
 import { storeMemory } from '../../services/memory.js';
 import { addStoredKey } from '../../services/ephemeral-buffer.js';
 import { getAccountPrivacySettings, getLineVoiceConsent } from '../../services/privacy.js';
+import { localToUtc } from '../../utils/timezone.js';
 
 export const storeMemoryRouter = Router();
 
@@ -17,6 +18,8 @@ storeMemoryRouter.post('/', async (req: Request, res: Response) => {
       value,
       confidence = 1.0,
       suggestReminder = false,
+      dueDate,
+      timezone,
     } = req.body as {
       callSessionId?: string;
       lineId?: string;
@@ -25,6 +28,8 @@ storeMemoryRouter.post('/', async (req: Request, res: Response) => {
       value?: string;
       confidence?: number;
       suggestReminder?: boolean;
+      dueDate?: string;
+      timezone?: string;
     };
 
     if (!callSessionId || !lineId || !memoryType || !key || !value) {
@@ -61,10 +66,21 @@ storeMemoryRouter.post('/', async (req: Request, res: Response) => {
       return;
     }
 
+    // A follow-up's due date is a local calendar day; start asking from that morning's midnight
+    let dueAt: string | null = null;
+    if (memoryType === 'follow_up' && dueDate) {
+      try {
+        dueAt = localToUtc(`${dueDate}T00:00:00`, timezone || 'America/Los_Angeles').toISOString();
+      } catch (parseError) {
+        logger.warn({ parseError, dueDate, timezone }, 'Ignoring invalid follow-up due date');
+      }
+    }
+
     const memoryId = await storeMemory(accountId, lineId, memoryType as any, key, value, {
       confidence,
       source: 'conversation',
       privacyScope: 'line_only',
+      dueAt,
     });
 
     if (!memoryId) {
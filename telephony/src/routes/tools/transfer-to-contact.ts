@@ -0,0 +1,112 @@
+import { Router, Request, Response } from 'express';
+import {
+  TransferToContactInputSchema,
+  type TransferToContactInput,
+} from '@ultaura/schemas/telephony';
+import { logger } from '../../server.js';
+import { getCallSession, recordCallEvent } from '../../services/call-session.js';
+import { getLineById } from '../../services/line-lookup.js';
+import { hasTriggeredTier } from '../../services/safety-state.js';
+import {
+  getLatestHighSafetyEventId,
+  getSafetyTransferContact,
+  startWarmTransfer,
+} from '../../services/call-transfer.js';
+
+export const transferToContactRouter = Router();
+
+transferToContactRouter.post('/', async (req: Request, res: Response) => {
+  try {
+    const rawBody = req.body as Partial<TransferToContactInput>;
+    const parsed = TransferToContactInputSchema.safeParse(rawBody);
+
+    if (!parsed.success) {
+      const missingRequired = parsed.error.issues.some((issue) =>
+        issue.code === 'invalid_type' && issue.received === 'undefined'
+      );
+      if (missingRequired) {
+        res.status(400).json({ error: 'Missing required fields' });
+        return;
+      }
+
+      res.status(400).json({ error: parsed.error.issues[0]?.message || 'Invalid input' });
+      return;
+    }
+
+    const { callSessionId, lineId } = parsed.data;
+
+    const session = await getCallSession(callSessionId);
+    if (!session) {
+      res.status(404).json({ error: 'Call session not found' });
+      return;
+    }
+
+    const recordResult = async (success: boolean, result: string) => {
+      await recordCallEvent(callSessionId, 'tool_call', {
+        tool: 'transfer_to_trusted_contact',
+        success,
+        result,
+      }, { skipDebugLog: true });
+    };
+
+    // Transfers are a crisis response only
+    if (!hasTriggeredTier(callSessionId, 'high')) {
+      await recordResult(false, 'not_high_tier');
+      res.json({
+        success: false,
+        message: 'Transfers are only available after a high-tier safety concern. Keep supporting the user.',
+      });
+      return;
+    }
+
+    if (!session.twilio_call_sid) {
+      await recordResult(false, 'no_call_sid');
+      res.json({
+        success: false,
+        message: 'The call cannot be transferred right now. Stay with the user and suggest calling or texting 988.',
+      });
+      return;
+    }
+
+    const contact = await getSafetyTransferContact(lineId);
+    if (!contact) {
+      await recordResult(false, 'no_contact');
+      res.json({
+        success: false,
+        message: 'No trusted contact is available to connect. Stay with the user and suggest calling or texting 988.',
+      });
+      return;
+    }
+
+    const lineWithAccount = await getLineById(lineId);
+    const safetyEventId = await getLatestHighSafetyEventId(callSessionId);
+
+    const started = await startWarmTransfer({
+      callSessionId,
+      callSid: session.twilio_call_sid,
+      safetyEventId,
+      contact,
+      lovedOneName: lineWithAccount?.line.display_name || 'Your loved one',
+    });
+
+    await recordResult(started, started ? 'initiated' : 'dial_failed');
+
+    if (!started) {
+      res.json({
+        success: false,
+        message: `Could not reach ${contact.name}. Stay with the user and suggest calling or texting 988.`,
+      });
+      return;
+    }
+
+    logger.warn({ callSessionId, lineId, safetyEventId }, 'Safety warm transfer initiated');
+
+    res.json({
+      success: true,
+      message: `Calling ${contact.name} now. Tell the user you are connecting them with ${contact.name} and to stay on the line. Keep it to one or two short sentences.`,
+    });
+  } catch (error) {
+    logger.error({ error }, 'Error starting safety transfer');
+    res.status(500).json({ error: 'Failed to start transfer' });
+  }
+});
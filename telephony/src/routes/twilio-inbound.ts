@@ -2,11 +2,24 @@
 
 import { Router, Request, Response } from 'express';
 import { logger } from '../server.js';
-import { findLineByPhone, checkLineAccess } from '../services/line-lookup.js';
+import {
+  findLineByPhone,
+  getLineById,
+  checkLineAccess,
+  isInQuietHours,
+  LineWithAccount,
+} from '../services/line-lookup.js';
 import { getLastDetectedLanguageForLine } from '../services/language.js';
 import { getAccountPrivacySettings } from '../services/privacy.js';
-import { createCallSession } from '../services/call-session.js';
-import { generateStreamTwiML, generateMessageTwiML, formatToE164, validateTwilioSignature } from '../utils/twilio.js';
+import { createCallSession, hasActiveCallForLine } from '../services/call-session.js';
+import { describeCallbackTime, getCallbackTime, requestCallback } from '../services/callback-request.js';
+import {
+  generateStreamTwiML,
+  generateMessageTwiML,
+  generateCallbackOfferTwiML,
+  formatToE164,
+  validateTwilioSignature,
+} from '../utils/twilio.js';
 import { getPublicUrl, getWebsocketUrl } from '../utils/env.js';
 import { redactPhone } from '../utils/redact.js';
 
@@ -56,8 +69,58 @@ const MESSAGES = {
   INBOUND_BLOCKED: "Hello, inbound calls are not enabled for this line. Please contact your family member or caregiver. Goodbye.",
   NOT_VERIFIED: "Hello, this phone number has not been verified yet. Please ask your family member to complete the verification process. Goodbye.",
   ACCOUNT_CANCELED: "Hello, the account associated with this phone number is no longer active. Goodbye.",
+  LINE_BUSY: "Hello, this is Ultaura. I'm on another call with this line right now.",
+  QUIET_HOURS: "Hello, this is Ultaura. It's during your quiet hours right now.",
 };
 
+const TECHNICAL_DIFFICULTIES = "I'm sorry, I'm having technical difficulties. Please try again later.";
+
+function getCallbackActionUrl(lineId: string, allowConnect = false): string {
+  const url = `${getPublicUrl()}/twilio/voice/callback?lineId=${encodeURIComponent(lineId)}`;
+  return allowConnect ? `${url}&allowConnect=1` : url;
+}
+
+// Create the call session and connect the caller to the media stream
+async function connectInboundCall(
+  res: Response,
+  { line, account }: LineWithAccount,
+  call: { callSid: string; from: string; to: string }
+): Promise<void> {
+  const session = await createCallSession({
+    accountId: account.id,
+    lineId: line.id,
+    direction: 'inbound',
+    twilioCallSid: call.callSid,
+    twilioFrom: call.from,
+    twilioTo: call.to,
+  });
+
+  if (!session) {
+    logger.error({ lineId: line.id }, 'Failed to create call session');
+    res.type('text/xml').send(generateMessageTwiML(TECHNICAL_DIFFICULTIES));
+    return;
+  }
+
+  const privacySettings = await getAccountPrivacySettings(account.id);
+  const recordingActive = process.env.ULTAURA_ENABLE_RECORDING === 'true' &&
+    !!privacySettings?.recordingEnabled;
+  const startingLanguage = await getLastDetectedLanguageForLine(line.id);
+  const publicUrl = getPublicUrl().replace(/\/$/, '');
+
+  // Generate TwiML to connect to WebSocket stream
+  const websocketUrl = getWebsocketUrl();
+  const twiml = generateStreamTwiML(session.id, websocketUrl, {
+    includeDisclosure: true,
+    disclosureLanguage: startingLanguage || undefined,
+    recordCall: recordingActive,
+    recordingStatusCallback: recordingActive ? `${publicUrl}/twilio/recording-status` : undefined,
+  });
+
+  logger.info({ sessionId: session.id, lineId: line.id }, 'Connecting to media stream');
+
+  res.type('text/xml').send(twiml);
+}
+
 // Handle inbound voice calls from Twilio
 twilioInboundRouter.post('/inbound', async (req: Request, res: Response) => {
   try {
@@ -114,46 +177,105 @@ twilioInboundRouter.post('/inbound', async (req: Request, res: Response) => {
           message = MESSAGES.DISABLED;
       }
 
+      // Offer a callback when we could still call them (e.g. inbound calls are turned off)
+      const outboundCheck = await checkLineAccess(line, account, 'outbound');
+      if (outboundCheck.allowed) {
+        const callbackAt = getCallbackTime(line);
+        res.type('text/xml').send(generateCallbackOfferTwiML({
+          message: message.replace(/\s*Goodbye\.$/, ''),
+          offer: `If you'd like me to call you back ${describeCallbackTime(callbackAt, line.timezone)}, press 1.`,
+          actionUrl: getCallbackActionUrl(line.id),
+        }));
+        return;
+      }
+
       res.type('text/xml').send(generateMessageTwiML(message));
       return;
     }
 
-    // Create a call session
-    const session = await createCallSession({
-      accountId: account.id,
-      lineId: line.id,
-      direction: 'inbound',
-      twilioCallSid: CallSid,
-      twilioFrom: From,
-      twilioTo: To,
-    });
-
-    if (!session) {
-      logger.error({ lineId: line.id }, 'Failed to create call session');
-      res.type('text/xml').send(generateMessageTwiML("I'm sorry, I'm having technical difficulties. Please try again later."));
+    // While another call is under way, or during quiet hours, offer a callback first.
+    // In quiet hours the senior can still stay on the line and talk now.
+    const busy = await hasActiveCallForLine(line.id);
+    const quietHours = !busy && isInQuietHours(line);
+
+    if (busy || quietHours) {
+      const outboundCheck = await checkLineAccess(line, account, 'outbound');
+      if (outboundCheck.allowed) {
+        logger.info({ lineId: line.id, busy, quietHours }, 'Offering callback before connecting');
+
+        const callbackAt = getCallbackTime(line);
+        const when = describeCallbackTime(callbackAt, line.timezone);
+        res.type('text/xml').send(generateCallbackOfferTwiML(busy
+          ? {
+            message: MESSAGES.LINE_BUSY,
+            offer: `If you'd like me to call you back ${when}, press 1.`,
+            actionUrl: getCallbackActionUrl(line.id),
+          }
+          : {
+            message: MESSAGES.QUIET_HOURS,
+            offer: `If you'd like me to call you back ${when}, press 1. Or stay on the line and we can talk now.`,
+            actionUrl: getCallbackActionUrl(line.id, true),
+            noInputUrl: getCallbackActionUrl(line.id, true),
+          }));
+        return;
+      }
+    }
+
+    await connectInboundCall(res, lineWithAccount, { callSid: CallSid, from: From, to: To });
+  } catch (error) {
+    logger.error({ error }, 'Error handling inbound call');
+    res.type('text/xml').send(generateMessageTwiML(TECHNICAL_DIFFICULTIES));
+  }
+});
+
+// Caller responded to a callback offer. Offers made with allowConnect connect the call
+// for any answer other than 1, including no answer at all.
+twilioInboundRouter.post('/callback', async (req: Request, res: Response) => {
+  const { lineId, allowConnect } = req.query;
+  const { Digits, CallSid, From, To } = req.body;
+  const wantsCallback = Digits === '1';
+  const connectNow = !wantsCallback && allowConnect === '1';
+
+  if (!lineId || typeof lineId !== 'string' || (!wantsCallback && !connectNow)) {
+    res.type('text/xml').send(generateMessageTwiML('Okay. Goodbye.'));
+    return;
+  }
+
+  try {
+    const lineWithAccount = await getLineById(lineId);
+    if (!lineWithAccount) {
+      res.type('text/xml').send(generateMessageTwiML(MESSAGES.DISABLED));
       return;
     }
 
-    const privacySettings = await getAccountPrivacySettings(account.id);
-    const recordingActive = process.env.ULTAURA_ENABLE_RECORDING === 'true' &&
-      !!privacySettings?.recordingEnabled;
-    const startingLanguage = await getLastDetectedLanguageForLine(line.id);
-    const publicUrl = getPublicUrl().replace(/\/$/, '');
+    const { line, account } = lineWithAccount;
+
+    if (connectNow) {
+      const accessCheck = await checkLineAccess(line, account, 'inbound');
+      if (!accessCheck.allowed) {
+        logger.info({ lineId, reason: accessCheck.reason }, 'Line access denied');
+        res.type('text/xml').send(generateMessageTwiML(MESSAGES.DISABLED));
+        return;
+      }
 
-    // Generate TwiML to connect to WebSocket stream
-    const websocketUrl = getWebsocketUrl();
-    const twiml = generateStreamTwiML(session.id, websocketUrl, {
-      includeDisclosure: true,
-      disclosureLanguage: startingLanguage || undefined,
-      recordCall: recordingActive,
-      recordingStatusCallback: recordingActive ? `${publicUrl}/twilio/recording-status` : undefined,
-    });
+      await connectInboundCall(res, lineWithAccount, { callSid: CallSid, from: From, to: To });
+      return;
+    }
 
-    logger.info({ sessionId: session.id, lineId: line.id }, 'Connecting to media stream');
+    // Access may have changed since the offer was made
+    const outboundCheck = await checkLineAccess(line, account, 'outbound');
+    const callbackAt = outboundCheck.allowed ? await requestCallback(line) : null;
 
-    res.type('text/xml').send(twiml);
+    if (!callbackAt) {
+      res.type('text/xml').send(generateMessageTwiML("I'm sorry, I wasn't able to schedule a callback. Please try again later. Goodbye."));
+      return;
+    }
+
+    res.type('text/xml').send(generateMessageTwiML(
+      `Okay, I'll call you back ${describeCallbackTime(callbackAt, line.timezone)}. Goodbye.`
+    ));
   } catch (error) {
-    logger.error({ error }, 'Error handling inbound call');
-    res.type('text/xml').send(generateMessageTwiML("I'm sorry, I'm having technical difficulties. Please try again later."));
+    logger.error({ error, lineId }, 'Error handling callback request');
+    res.type('text/xml').send(generateMessageTwiML(TECHNICAL_DIFFICULTIES));
   }
 });
@@ -9,7 +9,8 @@ import { getLastDetectedLanguageForLine } from '../services/language.js';
 import { getAccountPrivacySettings } from '../services/privacy.js';
 import { generateStreamTwiML, generateMessageTwiML, generateHangupTwiML, validateTwilioSignature } from '../utils/twilio.js';
 import { getPublicUrl, getWebsocketUrl } from '../utils/env.js';
-import { getVoicemailMessage } from '../utils/voicemail-messages.js';
+import { getReminderDropMessage, getVoicemailMessage } from '../utils/voicemail-messages.js';
+import { recordVoicemailDrop } from '../services/reminder-delivery.js';
 
 export const twilioOutboundRouter = Router();
 
@@ -156,6 +157,21 @@ twilioOutboundRouter.post('/outbound', async (req: Request, res: Response) => {
     const startingLanguage = await getLastDetectedLanguageForLine(line.id);
     const publicUrl = getPublicUrl().replace(/\/$/, '');
 
+    // Voicemail-drop reminders play the reminder to whoever picks up instead of starting a conversation
+    if (session.reminder_delivery_method === 'voicemail_drop' && session.reminder_message) {
+      logger.info({ callSessionId, answeredBy }, 'Playing voicemail-drop reminder');
+      await recordVoicemailDrop(session, answeredBy);
+
+      const message = getReminderDropMessage({
+        name: line.display_name,
+        language: startingLanguage,
+        reminderMessage: session.reminder_message,
+      });
+
+      res.type('text/xml').send(generateMessageTwiML(message, startingLanguage));
+      return;
+    }
+
     if (isMachine) {
       logger.info({ callSessionId, answeredBy }, 'Answering machine detected');
       const voicemailBehavior = line.voicemail_behavior || 'brief';
@@ -0,0 +1,63 @@
+// Twilio webhooks for automated safety alert calls
+
+import { Router, Request, Response } from 'express';
+import { logger } from '../server.js';
+import { acknowledgeSafetyEscalation } from '../services/safety-escalation.js';
+import { generateHangupTwiML, generateMessageTwiML, validateTwilioSignature } from '../utils/twilio.js';
+
+export const twilioSafetyRouter = Router();
+
+// Twilio signature validation middleware
+function validateTwilioWebhook(req: Request, res: Response, next: () => void) {
+  if (process.env.SKIP_TWILIO_SIGNATURE_VALIDATION === 'true') {
+    logger.warn('Twilio signature validation skipped (development mode)');
+    next();
+    return;
+  }
+
+  const signature = req.headers['x-twilio-signature'] as string;
+
+  if (!signature) {
+    logger.warn('Missing Twilio signature');
+    res.status(403).send('Forbidden');
+    return;
+  }
+
+  const protocol = req.headers['x-forwarded-proto'] || req.protocol;
+  const host = req.headers['x-forwarded-host'] || req.headers.host;
+  const url = `${protocol}://${host}${req.originalUrl}`;
+
+  const isValid = validateTwilioSignature(url, req.body, signature);
+
+  if (!isValid) {
+    logger.warn({ url }, 'Invalid Twilio signature');
+    res.status(403).send('Forbidden');
+    return;
+  }
+
+  next();
+}
+
+twilioSafetyRouter.use(validateTwilioWebhook);
+
+// Contact pressed a key during a safety alert call
+twilioSafetyRouter.post('/ack', async (req: Request, res: Response) => {
+  const { safetyEventId, contactId } = req.query;
+
+  if (!safetyEventId || typeof safetyEventId !== 'string') {
+    logger.error('Missing safetyEventId in safety alert acknowledgement');
+    res.type('text/xml').send(generateHangupTwiML());
+    return;
+  }
+
+  try {
+    await acknowledgeSafetyEscalation(safetyEventId, typeof contactId === 'string' ? contactId : null);
+
+    res.type('text/xml').send(
+      generateMessageTwiML('Thank you. We have recorded that you received this alert. Goodbye.')
+    );
+  } catch (error) {
+    logger.error({ error, safetyEventId }, 'Error acknowledging safety alert call');
+    res.type('text/xml').send(generateHangupTwiML());
+  }
+});
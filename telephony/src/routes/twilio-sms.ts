@@ -0,0 +1,149 @@
+// Inbound SMS webhook for our Twilio number
+
+import { Router, Request, Response } from 'express';
+import { MAX_SNOOZE_COUNT, VALID_SNOOZE_MINUTES } from '@ultaura/schemas';
+import { logger } from '../server.js';
+import { acknowledgeEscalationsByPhone, isAcknowledgementReply } from '../services/safety-escalation.js';
+import { findLineByPhone, recordOptOut, type LineWithAccount } from '../services/line-lookup.js';
+import { acknowledgeReminder, getRecentlyDeliveredReminder, snoozeReminder } from '../services/reminders.js';
+import { recordReminderConfirmation } from '../services/reminder-confirmations.js';
+import { parseSmsCommand, type SmsCommand } from '../utils/sms-commands.js';
+import { generateSmsReplyTwiML, validateTwilioSignature } from '../utils/twilio.js';
+import { redactPhone } from '../utils/redact.js';
+
+export const twilioSmsRouter = Router();
+
+// Twilio signature validation middleware
+function validateTwilioWebhook(req: Request, res: Response, next: () => void) {
+  if (process.env.SKIP_TWILIO_SIGNATURE_VALIDATION === 'true') {
+    logger.warn('Twilio signature validation skipped (development mode)');
+    next();
+    return;
+  }
+
+  const signature = req.headers['x-twilio-signature'] as string;
+
+  if (!signature) {
+    logger.warn('Missing Twilio signature');
+    res.status(403).send('Forbidden');
+    return;
+  }
+
+  const protocol = req.headers['x-forwarded-proto'] || req.protocol;
+  const host = req.headers['x-forwarded-host'] || req.headers.host;
+  const url = `${protocol}://${host}${req.originalUrl}`;
+
+  const isValid = validateTwilioSignature(url, req.body, signature);
+
+  if (!isValid) {
+    logger.warn({ url }, 'Invalid Twilio signature');
+    res.status(403).send('Forbidden');
+    return;
+  }
+
+  next();
+}
+
+twilioSmsRouter.use(validateTwilioWebhook);
+
+const HELP_REPLY = 'Ultaura: reply DONE when you have finished a reminder, SNOOZE 15 to be reminded again in 15 minutes, or STOP to stop calls.';
+
+// Handle a command texted from a line's own phone; returns the reply text
+async function handleLineCommand(lineWithAccount: LineWithAccount, command: SmsCommand | null): Promise<string> {
+  const { line, account } = lineWithAccount;
+
+  if (!command || command.type === 'help') {
+    return HELP_REPLY;
+  }
+
+  if (command.type === 'stop') {
+    if (!line.do_not_call) {
+      await recordOptOut(account.id, line.id, null, 'sms', 'Texted STOP');
+      logger.info({ lineId: line.id }, 'Line opted out by SMS');
+    }
+    return 'You will no longer receive calls from Ultaura. Your family member can turn calls back on from their dashboard.';
+  }
+
+  // Same caregiver setting that governs reminder changes made by voice
+  if (!line.allow_voice_reminder_control) {
+    return 'Reminder changes by phone are turned off. Please ask your family member to update reminders in the app.';
+  }
+
+  const recent = await getRecentlyDeliveredReminder(line.id);
+  if (!recent) {
+    return 'We could not find a recent reminder to update.';
+  }
+
+  const { reminder, callSessionId } = recent;
+
+  if (command.type === 'done') {
+    await acknowledgeReminder({ reminder, triggeredBy: 'sms', callSessionId });
+    // DONE also answers a reminder that was waiting for the dose to be confirmed
+    if (reminder.requires_confirmation) {
+      await recordReminderConfirmation({ reminderId: reminder.id, response: 'taken', triggeredBy: 'sms', callSessionId });
+    }
+    logger.info({ lineId: line.id, reminderId: reminder.id }, 'Reminder marked done by SMS');
+    return 'Thanks! We marked your reminder as done.';
+  }
+
+  if (command.minutes === null) {
+    return `Reply SNOOZE followed by ${VALID_SNOOZE_MINUTES.join(', ')} minutes.`;
+  }
+
+  if (reminder.status === 'canceled' || reminder.is_paused) {
+    return 'This reminder is no longer active.';
+  }
+
+  if (reminder.current_snooze_count >= MAX_SNOOZE_COUNT) {
+    return `This reminder has already been snoozed ${MAX_SNOOZE_COUNT} times and cannot be snoozed again.`;
+  }
+
+  const snoozed = await snoozeReminder({
+    reminder,
+    snoozeMinutes: command.minutes,
+    triggeredBy: 'sms',
+    callSessionId,
+  });
+
+  if (!snoozed) {
+    return 'Sorry, we could not snooze your reminder. Please try again.';
+  }
+
+  logger.info({ lineId: line.id, reminderId: reminder.id, snoozeMinutes: command.minutes }, 'Reminder snoozed by SMS');
+  return `Okay, we will remind you again in ${command.minutes} minutes.`;
+}
+
+twilioSmsRouter.post('/', async (req: Request, res: Response) => {
+  const { From, Body } = req.body as { From?: string; Body?: string };
+
+  if (!From || typeof Body !== 'string') {
+    res.type('text/xml').send(generateSmsReplyTwiML());
+    return;
+  }
+
+  try {
+    // Trusted contacts reply to safety alert texts to stop the escalation ladder
+    if (isAcknowledgementReply(Body)) {
+      const acknowledgedCount = await acknowledgeEscalationsByPhone(From);
+
+      if (acknowledgedCount > 0) {
+        logger.info({ from: redactPhone(From), acknowledgedCount }, 'Safety alert acknowledged by SMS');
+        res.type('text/xml').send(generateSmsReplyTwiML('Thank you. We have recorded that you are checking in.'));
+        return;
+      }
+    }
+
+    // Seniors text their line's number to manage reminders or opt out
+    const lineWithAccount = await findLineByPhone(From);
+    if (!lineWithAccount) {
+      res.type('text/xml').send(generateSmsReplyTwiML());
+      return;
+    }
+
+    const reply = await handleLineCommand(lineWithAccount, parseSmsCommand(Body));
+    res.type('text/xml').send(generateSmsReplyTwiML(reply));
+  } catch (error) {
+    logger.error({ error, from: redactPhone(From) }, 'Error handling inbound SMS');
+    res.type('text/xml').send(generateSmsReplyTwiML());
+  }
+});
@@ -10,6 +10,8 @@ import {
   updateCallSessionRecording,
 } from '../services/call-session.js';
 import { validateTwilioSignature } from '../utils/twilio.js';
+import { isUnansweredCall, sendReminderSmsFallback } from '../services/reminder-delivery.js';
+import { handleScheduledCallEnded } from '../services/schedule-retry.js';
 
 export const twilioStatusRouter = Router();
 
@@ -167,6 +169,17 @@ twilioStatusRouter.post('/status', async (req: Request, res: Response) => {
         break;
     }
 
+    if (
+      session.reminder_delivery_method === 'call_then_sms_fallback' &&
+      isUnansweredCall(session, CallStatus)
+    ) {
+      await sendReminderSmsFallback(session);
+    }
+
+    if (internalStatus === 'completed' || internalStatus === 'failed') {
+      await handleScheduledCallEnded(session, CallStatus);
+    }
+
     res.sendStatus(200);
   } catch (error) {
     logger.error({ error }, 'Error handling status callback');
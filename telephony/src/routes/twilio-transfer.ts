@@ -0,0 +1,125 @@
+// Twilio webhooks for warm transfers to a trusted contact
+
+import { Router, Request, Response } from 'express';
+import { logger } from '../server.js';
+import { getCallSession, recordCallEvent } from '../services/call-session.js';
+import {
+  finishTransfer,
+  getTransferConferenceName,
+  getTransferEventName,
+  markTransferAccepted,
+  returnCallerToCompanion,
+  updateSafetyEventTransfer,
+} from '../services/call-transfer.js';
+import { generateConferenceTwiML, generateHangupTwiML, validateTwilioSignature } from '../utils/twilio.js';
+
+export const twilioTransferRouter = Router();
+
+// Twilio signature validation middleware
+function validateTwilioWebhook(req: Request, res: Response, next: () => void) {
+  if (process.env.SKIP_TWILIO_SIGNATURE_VALIDATION === 'true') {
+    logger.warn('Twilio signature validation skipped (development mode)');
+    next();
+    return;
+  }
+
+  const signature = req.headers['x-twilio-signature'] as string;
+
+  if (!signature) {
+    logger.warn('Missing Twilio signature');
+    res.status(403).send('Forbidden');
+    return;
+  }
+
+  const protocol = req.headers['x-forwarded-proto'] || req.protocol;
+  const host = req.headers['x-forwarded-host'] || req.headers.host;
+  const url = `${protocol}://${host}${req.originalUrl}`;
+
+  const isValid = validateTwilioSignature(url, req.body, signature);
+
+  if (!isValid) {
+    logger.warn({ url }, 'Invalid Twilio signature');
+    res.status(403).send('Forbidden');
+    return;
+  }
+
+  next();
+}
+
+twilioTransferRouter.use(validateTwilioWebhook);
+
+// Contact pressed a key after the briefing: bridge them into the caller's conference
+twilioTransferRouter.post('/accept', async (req: Request, res: Response) => {
+  const { callSessionId, safetyEventId, reason } = req.query;
+  const event = getTransferEventName(reason);
+
+  if (!callSessionId || typeof callSessionId !== 'string') {
+    logger.error('Missing callSessionId in transfer accept');
+    res.type('text/xml').send(generateHangupTwiML());
+    return;
+  }
+
+  try {
+    markTransferAccepted(callSessionId);
+
+    if (typeof safetyEventId === 'string') {
+      await updateSafetyEventTransfer(safetyEventId, { status: 'connected' });
+    }
+
+    await recordCallEvent(callSessionId, 'state_change', {
+      event,
+      action: 'connected',
+    }, { skipDebugLog: true });
+
+    logger.info({ callSessionId }, 'Trusted contact accepted transfer');
+
+    res.type('text/xml').send(generateConferenceTwiML({
+      conferenceName: getTransferConferenceName(callSessionId),
+      message: 'Connecting you now.',
+      startConferenceOnEnter: true,
+      endConferenceOnExit: true,
+    }));
+  } catch (error) {
+    logger.error({ error, callSessionId }, 'Error accepting transfer');
+    res.type('text/xml').send(generateHangupTwiML());
+  }
+});
+
+// Contact call ended. If they never accepted, return the caller to the companion.
+twilioTransferRouter.post('/status', async (req: Request, res: Response) => {
+  const { callSessionId, safetyEventId, reason } = req.query;
+  const event = getTransferEventName(reason);
+  const { CallStatus } = req.body;
+
+  res.sendStatus(200);
+
+  if (!callSessionId || typeof callSessionId !== 'string') {
+    return;
+  }
+
+  try {
+    const { callerOnHold, contactAccepted } = finishTransfer(callSessionId);
+
+    if (contactAccepted) {
+      return;
+    }
+
+    logger.warn({ callSessionId, contactCallStatus: CallStatus }, 'Trusted contact did not accept transfer');
+
+    if (typeof safetyEventId === 'string') {
+      await updateSafetyEventTransfer(safetyEventId, { status: 'failed' });
+    }
+
+    await recordCallEvent(callSessionId, 'state_change', {
+      event,
+      action: 'failed',
+    }, { skipDebugLog: true });
+
+    const session = await getCallSession(callSessionId);
+    if (callerOnHold && session?.twilio_call_sid && session.status === 'in_progress') {
+      await returnCallerToCompanion(callSessionId, session.twilio_call_sid);
+    }
+  } catch (error) {
+    logger.error({ error, callSessionId }, 'Error handling transfer status callback');
+  }
+});
@@ -4,12 +4,24 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import { DateTime } from 'luxon';
-import { getSupabaseClient, ScheduleRow, ReminderRow } from '../utils/supabase.js';
+import { getSupabaseClient, ScheduleRow, ReminderRow, LineRow } from '../utils/supabase.js';
 import { logger } from '../utils/logger.js';
 import { getBackendUrl, getInternalApiSecret } from '../utils/env.js';
 import { isInQuietHours, checkLineAccess, getLineById } from '../services/line-lookup.js';
 import { recalculateBaselinesForAllLines } from '../services/baseline.js';
+import { recalculateAnswerPatternsForAllLines } from '../services/answer-patterns.js';
+import { getNextScheduleRetryAt } from '../services/schedule-retry.js';
 import { getNextOccurrence, getNextReminderOccurrence } from '../utils/timezone.js';
+import {
+  claimConfirmationFollowUp,
+  deferConfirmationFollowUp,
+  getDueReminderConfirmations,
+  hasFollowUpsRemaining,
+  markReminderConfirmationMissed,
+  openReminderConfirmation,
+  setConfirmationFollowUpCall,
+} from '../services/reminder-confirmations.js';
+import { sendReminderSms } from '../services/reminder-delivery.js';
 
 // Configuration
 const POLL_INTERVAL_MS = 30_000; // 30 seconds
@@ -36,7 +48,7 @@ let lastBaselineRunDate: string | null = null;
  * Returns ISO string in UTC, or null if no next occurrence.
  */
 function calculateNextReminderOccurrence(reminder: ReminderRow): string | null {
-  const { rrule, interval_days, days_of_week, day_of_month, time_of_day, timezone, due_at } = reminder;
+  const { rrule, interval_days, days_of_week, day_of_month, time_of_day, timezone, due_at, original_due_at } = reminder;
 
   if (!reminder.is_recurring || !rrule || !time_of_day) {
     return null;
@@ -47,10 +59,13 @@ function calculateNextReminderOccurrence(reminder: ReminderRow): string | null {
       rrule,
       timezone,
       timeOfDay: time_of_day,
-      currentDueAt: new Date(due_at),
+      // A snoozed delivery still belongs to the occurrence it was snoozed from
+      currentDueAt: new Date(original_due_at || due_at),
       daysOfWeek: days_of_week,
       dayOfMonth: day_of_month,
       intervalDays: interval_days,
+      excludedDates: reminder.excluded_dates,
+      occurrenceCount: (reminder.occurrence_count || 0) + 1,
     });
     return nextUtc ? nextUtc.toISOString() : null;
   } catch (error) {
@@ -125,7 +140,10 @@ async function runSchedulerCycle(): Promise<void> {
     // Process schedules and reminders in parallel with separate leases
     await Promise.all([
       processWithLease('schedules', processScheduledCalls),
-      processWithLease('reminders', processReminders),
+      processWithLease('reminders', async () => {
+        await processReminders();
+        await processConfirmationFollowUps();
+      }),
     ]);
   } catch (error) {
     logger.error({ error, workerId: WORKER_ID }, 'Scheduler cycle error');
@@ -173,6 +191,8 @@ async function maybeRecalculateBaselines(): Promise<void> {
 
   logger.info({ runDate: today }, 'Running baseline recalculation');
   await recalculateBaselinesForAllLines();
+  logger.info({ runDate: today }, 'Running answer pattern recalculation');
+  await recalculateAnswerPatternsForAllLines();
   lastBaselineRunDate = today;
 }
 
@@ -322,14 +342,14 @@ async function processSchedule(schedule: ScheduleRow): Promise<void> {
   // Check if line is opted out
   if (line.do_not_call) {
     logger.info({ scheduleId: schedule.id }, 'Line opted out, skipping');
-    await completeScheduleWithResult(schedule, 'suppressed_quiet_hours', calculateNextRun(schedule), false);
+    await completeScheduleWithResult(schedule, 'suppressed_quiet_hours', calculateNextRun(schedule), true);
     return;
   }
 
   // Check quiet hours
   if (isInQuietHours(line)) {
     logger.info({ scheduleId: schedule.id }, 'In quiet hours, skipping');
-    await completeScheduleWithResult(schedule, 'suppressed_quiet_hours', calculateNextRun(schedule), false);
+    await completeScheduleWithResult(schedule, 'suppressed_quiet_hours', calculateNextRun(schedule), true);
     return;
   }
 
@@ -337,7 +357,7 @@ async function processSchedule(schedule: ScheduleRow): Promise<void> {
   const accessCheck = await checkLineAccess(line, account, 'outbound');
   if (!accessCheck.allowed) {
     logger.info({ scheduleId: schedule.id, reason: accessCheck.reason }, 'Access denied, skipping');
-    await completeScheduleWithResult(schedule, 'failed', calculateNextRun(schedule), false);
+    await completeScheduleWithResult(schedule, 'failed', calculateNextRun(schedule), true);
     return;
   }
 
@@ -374,8 +394,8 @@ async function processSchedule(schedule: ScheduleRow): Promise<void> {
     const result = (await response.json()) as Record<string, unknown>;
     logger.info({ scheduleId: schedule.id, sessionId: result.sessionId }, 'Scheduled call initiated');
 
-    // Update schedule
-    await completeScheduleWithResult(schedule, 'success', calculateNextRun(schedule), true);
+    // Keep the retry count: if nobody answers, the status callback books the next retry
+    await completeScheduleWithResult(schedule, 'success', calculateNextRun(schedule), false);
 
     // Update line's next scheduled call
     const nextRun = calculateNextRun(schedule);
@@ -391,26 +411,29 @@ async function processSchedule(schedule: ScheduleRow): Promise<void> {
 
     const retryPolicy = schedule.retry_policy || { max_retries: 2, retry_window_minutes: 30 };
     const currentRetries = schedule.retry_count || 0;
+    const retryAt = await getNextScheduleRetryAt(schedule, line);
 
-    if (currentRetries < retryPolicy.max_retries) {
-      // Schedule a retry
-      const retryAt = new Date(Date.now() + (15 * 60 * 1000)); // 15 minutes
-
+    if (retryAt) {
       const { error: retryError } = await supabase.rpc('increment_schedule_retry', {
         p_schedule_id: schedule.id,
         p_worker_id: WORKER_ID,
-        p_next_run_at: retryAt.toISOString(),
+        p_next_run_at: retryAt.toUTC().toISO(),
       });
 
       if (retryError) {
         logger.error({ error: retryError, scheduleId: schedule.id }, 'Failed to schedule retry');
       } else {
-        logger.info({ scheduleId: schedule.id, retryAt, attempt: currentRetries + 1 }, 'Scheduled retry');
+        logger.info({ scheduleId: schedule.id, retryAt: retryAt.toISO(), attempt: currentRetries + 1 }, 'Scheduled retry');
       }
     } else {
-      // Max retries exceeded, move to next scheduled time
+      // Out of retries or out of call windows for today, move to next scheduled time
       await completeScheduleWithResult(schedule, 'failed', calculateNextRun(schedule), true);
-      logger.warn({ scheduleId: schedule.id }, 'Max retries exceeded for scheduled call');
+      logger.warn(
+        { scheduleId: schedule.id, retries: currentRetries, maxRetries: retryPolicy.max_retries },
+        currentRetries < retryPolicy.max_retries
+          ? 'No call window left today for a retry'
+          : 'Max retries exceeded for scheduled call'
+      );
     }
   }
 }
@@ -547,6 +570,11 @@ async function processReminder(reminder: ReminderRow): Promise<void> {
     return;
   }
 
+  if (reminder.delivery_method === 'sms') {
+    await deliverReminderBySms(supabase, reminder, line);
+    return;
+  }
+
   // Initiate reminder call
   try {
     const baseUrl = getBackendUrl();
@@ -562,6 +590,7 @@ async function processReminder(reminder: ReminderRow): Promise<void> {
         reason: 'reminder',
         reminderId: reminder.id,
         reminderMessage: reminder.message,
+        reminderDeliveryMethod: reminder.delivery_method,
         schedulerIdempotencyKey: idempotencyKey,
       }),
     });
@@ -572,6 +601,9 @@ async function processReminder(reminder: ReminderRow): Promise<void> {
       // Check for idempotency conflict
       if (errorData.code === 'DUPLICATE_SCHEDULED_CALL') {
         logger.warn({ reminderId: reminder.id, idempotencyKey }, 'Duplicate reminder call, already processed');
+        if (reminder.requires_confirmation) {
+          await openReminderConfirmation(reminder, (errorData.existingSessionId as string | undefined) ?? null);
+        }
         // Still need to handle recurring logic
         if (reminder.is_recurring) {
           await handleRecurringReminderSuccess(supabase, reminder);
@@ -590,32 +622,13 @@ async function processReminder(reminder: ReminderRow): Promise<void> {
 
     logger.info({ reminderId: reminder.id }, 'Reminder call initiated');
 
-    // Handle recurring vs one-time reminders
-    if (reminder.is_recurring) {
-      await handleRecurringReminderSuccess(supabase, reminder);
-    } else {
-      // One-time reminder: mark as sent
-      await supabase
-        .from('ultaura_reminders')
-        .update({
-          status: 'sent',
-          last_delivery_status: 'completed',
-          current_snooze_count: 0,
-          snoozed_until: null,
-          original_due_at: null,
-        })
-        .eq('id', reminder.id);
-
-      // Log delivery event
-      await supabase.from('ultaura_reminder_events').insert({
-        account_id: reminder.account_id,
-        reminder_id: reminder.id,
-        line_id: reminder.line_id,
-        event_type: 'delivered',
-        triggered_by: 'system',
-      });
+    if (reminder.requires_confirmation) {
+      const { sessionId } = (await response.json()) as { sessionId?: string };
+      await openReminderConfirmation(reminder, sessionId ?? null);
     }
 
+    await markReminderDelivered(supabase, reminder, 'delivered');
+
     // Release the claim
     await releaseReminderClaim(reminder.id);
 
@@ -625,6 +638,81 @@ async function processReminder(reminder: ReminderRow): Promise<void> {
   }
 }
 
+/**
+ * Text a reminder instead of calling. Quiet hours apply as they do to reminder calls.
+ */
+async function deliverReminderBySms(
+  supabase: ReturnType<typeof getSupabaseClient>,
+  reminder: ReminderRow,
+  line: LineRow
+): Promise<void> {
+  if (isInQuietHours(line)) {
+    logger.info({ reminderId: reminder.id }, 'In quiet hours, marking text reminder missed');
+    await handleReminderFailure(supabase, reminder, 'missed');
+    return;
+  }
+
+  const result = await sendReminderSms({
+    accountId: reminder.account_id,
+    phoneE164: line.phone_e164,
+    message: reminder.message,
+    isFallback: false,
+    callSessionId: null,
+  });
+
+  if (result !== 'sent') {
+    await handleReminderFailure(supabase, reminder, 'missed', {
+      eventType: 'failed',
+      metadata: { reason: `sms_${result}` },
+    });
+    return;
+  }
+
+  logger.info({ reminderId: reminder.id }, 'Reminder text sent');
+
+  if (reminder.requires_confirmation) {
+    await openReminderConfirmation(reminder, null);
+  }
+
+  await markReminderDelivered(supabase, reminder, 'sms_sent');
+  await releaseReminderClaim(reminder.id);
+}
+
+/**
+ * Record a delivered reminder: reschedule a recurring one, mark a one-time one sent.
+ */
+async function markReminderDelivered(
+  supabase: ReturnType<typeof getSupabaseClient>,
+  reminder: ReminderRow,
+  eventType: 'delivered' | 'sms_sent'
+): Promise<void> {
+  if (reminder.is_recurring) {
+    await handleRecurringReminderSuccess(supabase, reminder, eventType);
+    return;
+  }
+
+  // One-time reminder: mark as sent
+  await supabase
+    .from('ultaura_reminders')
+    .update({
+      status: 'sent',
+      last_delivery_status: 'completed',
+      current_snooze_count: 0,
+      snoozed_until: null,
+      original_due_at: null,
+    })
+    .eq('id', reminder.id);
+
+  // Log delivery event
+  await supabase.from('ultaura_reminder_events').insert({
+    account_id: reminder.account_id,
+    reminder_id: reminder.id,
+    line_id: reminder.line_id,
+    event_type: eventType,
+    triggered_by: 'system',
+  });
+}
+
 /**
  * Release a reminder processing claim.
  */
@@ -647,7 +735,8 @@ async function releaseReminderClaim(reminderId: string): Promise<void> {
  */
 async function handleRecurringReminderSuccess(
   supabase: ReturnType<typeof getSupabaseClient>,
-  reminder: ReminderRow
+  reminder: ReminderRow,
+  eventType: 'delivered' | 'sms_sent' = 'delivered'
 ): Promise<void> {
   const nextDueAt = calculateNextReminderOccurrence(reminder);
 
@@ -671,7 +760,7 @@ async function handleRecurringReminderSuccess(
       account_id: reminder.account_id,
       reminder_id: reminder.id,
       line_id: reminder.line_id,
-      event_type: 'delivered',
+      event_type: eventType,
       triggered_by: 'system',
     });
     return;
@@ -696,7 +785,7 @@ async function handleRecurringReminderSuccess(
       account_id: reminder.account_id,
       reminder_id: reminder.id,
       line_id: reminder.line_id,
-      event_type: 'delivered',
+      event_type: eventType,
       triggered_by: 'system',
     });
     return;
@@ -721,7 +810,7 @@ async function handleRecurringReminderSuccess(
     account_id: reminder.account_id,
     reminder_id: reminder.id,
     line_id: reminder.line_id,
-    event_type: 'delivered',
+    event_type: eventType,
     triggered_by: 'system',
     metadata: { nextDueAt },
   });
@@ -740,9 +829,10 @@ async function handleRecurringReminderSuccess(
 async function handleReminderFailure(
   supabase: ReturnType<typeof getSupabaseClient>,
   reminder: ReminderRow,
-  status: 'missed' | 'canceled'
+  status: 'missed' | 'canceled',
+  options: { eventType?: 'no_answer' | 'failed'; metadata?: Record<string, unknown> } = {}
 ): Promise<void> {
-  const eventType = status === 'missed' ? 'no_answer' : 'failed';
+  const eventType = options.eventType ?? (status === 'missed' ? 'no_answer' : 'failed');
 
   if (reminder.is_recurring) {
     // For recurring reminders that fail, still advance to next occurrence
@@ -754,6 +844,7 @@ async function handleReminderFailure(
         .update({
           due_at: nextDueAt,
           status: 'scheduled',
+          occurrence_count: (reminder.occurrence_count || 0) + 1,
           last_delivery_status: 'no_answer',
           current_snooze_count: 0,
           snoozed_until: null,
@@ -768,7 +859,7 @@ async function handleReminderFailure(
         line_id: reminder.line_id,
         event_type: eventType,
         triggered_by: 'system',
-        metadata: { nextDueAt },
+        metadata: { ...options.metadata, nextDueAt },
       });
 
       // Release the claim
@@ -795,8 +886,95 @@ async function handleReminderFailure(
     line_id: reminder.line_id,
     event_type: eventType,
     triggered_by: 'system',
+    metadata: options.metadata ?? null,
   });
 
   // Release the claim
   await releaseReminderClaim(reminder.id);
 }
+
+/**
+ * Call back about reminders that still need confirmation.
+ * Once the call-backs run out, the dose is recorded as missed.
+ */
+async function processConfirmationFollowUps(): Promise<void> {
+  const confirmations = await getDueReminderConfirmations(BATCH_SIZE);
+
+  for (const confirmation of confirmations) {
+    if (shuttingDown) return;
+
+    if (!hasFollowUpsRemaining(confirmation)) {
+      logger.info({ confirmationId: confirmation.id, reminderId: confirmation.reminderId }, 'Reminder not confirmed, dose missed');
+      await markReminderConfirmationMissed(confirmation.id);
+      continue;
+    }
+
+    await processConfirmationFollowUp(confirmation);
+  }
+}
+
+/**
+ * Place one follow-up call for an unconfirmed reminder.
+ */
+async function processConfirmationFollowUp(
+  confirmation: Awaited<ReturnType<typeof getDueReminderConfirmations>>[number]
+): Promise<void> {
+  const supabase = getSupabaseClient();
+
+  const { data: reminder } = await supabase
+    .from('ultaura_reminders')
+    .select('*')
+    .eq('id', confirmation.reminderId)
+    .maybeSingle();
+
+  // Canceled or paused since delivery: nothing to follow up on
+  if (!reminder || reminder.status === 'canceled' || reminder.is_paused) {
+    await markReminderConfirmationMissed(confirmation.id);
+    return;
+  }
+
+  // Snoozed: the re-delivery asks again, so wait for it instead of calling now
+  if (reminder.snoozed_until && new Date(reminder.snoozed_until) > new Date()) {
+    await deferConfirmationFollowUp(confirmation.id, reminder.snoozed_until);
+    return;
+  }
+
+  if (!(await claimConfirmationFollowUp(confirmation))) {
+    return;
+  }
+
+  const attempt = confirmation.followUpAttempts + 1;
+
+  try {
+    const response = await fetch(`${getBackendUrl()}/calls/outbound`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Secret': getInternalApiSecret(),
+      },
+      body: JSON.stringify({
+        lineId: confirmation.lineId,
+        reason: 'reminder',
+        reminderId: confirmation.reminderId,
+        reminderMessage: (reminder as ReminderRow).message,
+        schedulerIdempotencyKey: `reminder-confirmation:${confirmation.id}:${attempt}`,
+      }),
+    });
+
+    const body = (await response.json().catch(() => ({}))) as { sessionId?: string; code?: string };
+
+    // Quiet hours, opted out, no minutes and the like still use up the attempt
+    if (!response.ok) {
+      logger.warn({ confirmationId: confirmation.id, attempt, code: body.code }, 'Confirmation follow-up call not placed');
+      return;
+    }
+
+    if (body.sessionId) {
+      await setConfirmationFollowUpCall(confirmation.id, body.sessionId);
+    }
+
+    logger.info({ confirmationId: confirmation.id, reminderId: confirmation.reminderId, attempt }, 'Confirmation follow-up call initiated');
+  } catch (error) {
+    logger.error({ error, confirmationId: confirmation.id }, 'Failed to initiate confirmation follow-up call');
+  }
+}
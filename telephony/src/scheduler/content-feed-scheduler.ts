@@ -0,0 +1,44 @@
+import { logger } from '../utils/logger.js';
+import { refreshContentFeeds } from '../services/content-feeds.js';
+
+// Feeds themselves are only re-fetched every CONTENT_FEED_REFRESH_MINUTES; this just checks for stale ones
+const POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+let pollInterval: NodeJS.Timeout | null = null;
+let isRunning = false;
+
+async function processStaleFeeds(): Promise<void> {
+  if (isRunning) {
+    return;
+  }
+
+  isRunning = true;
+
+  try {
+    await refreshContentFeeds();
+  } catch (error) {
+    logger.error({ error }, 'Content feed scheduler error');
+  } finally {
+    isRunning = false;
+  }
+}
+
+export function startContentFeedScheduler(): void {
+  if (process.env.SCHEDULER_DISABLED === 'true') {
+    logger.info('Content feed scheduler disabled via SCHEDULER_DISABLED env var');
+    return;
+  }
+
+  if (pollInterval) return;
+  pollInterval = setInterval(processStaleFeeds, POLL_INTERVAL_MS);
+  processStaleFeeds().catch((error) => {
+    logger.error({ error }, 'Initial content feed run failed');
+  });
+}
+
+export function stopContentFeedScheduler(): void {
+  if (pollInterval) {
+    clearInterval(pollInterval);
+    pollInterval = null;
+  }
+}
@@ -0,0 +1,61 @@
+import { getSupabaseClient } from '../utils/supabase.js';
+import { logger } from '../utils/logger.js';
+import { advanceSafetyEscalation, type EscalatingSafetyEvent } from '../services/safety-escalation.js';
+
+const POLL_INTERVAL_MS = 60 * 1000;
+const BATCH_LIMIT = 25;
+
+let pollInterval: NodeJS.Timeout | null = null;
+let isRunning = false;
+
+async function processDueEscalations(): Promise<void> {
+  if (isRunning) {
+    return;
+  }
+
+  isRunning = true;
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('ultaura_safety_events')
+      .select('id, account_id, line_id, call_session_id, action_taken, escalation_step')
+      .eq('escalation_status', 'pending')
+      .lte('next_escalation_at', new Date().toISOString())
+      .order('next_escalation_at', { ascending: true })
+      .limit(BATCH_LIMIT);
+
+    if (error) {
+      logger.error({ error }, 'Failed to load due safety escalations');
+      return;
+    }
+
+    for (const event of (data || []) as EscalatingSafetyEvent[]) {
+      await advanceSafetyEscalation(event);
+    }
+  } catch (error) {
+    logger.error({ error }, 'Safety escalation scheduler error');
+  } finally {
+    isRunning = false;
+  }
+}
+
+export function startSafetyEscalationScheduler(): void {
+  if (process.env.SAFETY_ESCALATION_DISABLED === 'true') {
+    logger.info('Safety escalation scheduler disabled via SAFETY_ESCALATION_DISABLED');
+    return;
+  }
+
+  if (pollInterval) return;
+  pollInterval = setInterval(processDueEscalations, POLL_INTERVAL_MS);
+  processDueEscalations().catch((error) => {
+    logger.error({ error }, 'Initial safety escalation run failed');
+  });
+}
+
+export function stopSafetyEscalationScheduler(): void {
+  if (pollInterval) {
+    clearInterval(pollInterval);
+    pollInterval = null;
+  }
+}
@@ -3,22 +3,27 @@
 
 import express from 'express';
 import http from 'http';
-import { WebSocketServer } from 'ws';
 import cors from 'cors';
 
 import { twilioInboundRouter } from './routes/twilio-inbound.js';
 import { twilioOutboundRouter } from './routes/twilio-outbound.js';
 import { twilioStatusRouter } from './routes/twilio-status.js';
+import { twilioTransferRouter } from './routes/twilio-transfer.js';
+import { twilioSafetyRouter } from './routes/twilio-safety.js';
+import { twilioSmsRouter } from './routes/twilio-sms.js';
 import { callsRouter } from './routes/calls.js';
 import { toolsRouter } from './routes/tools/index.js';
-import { handleMediaStreamConnection } from './websocket/media-stream.js';
+import { createMediaStreamServer } from './websocket/media-stream-server.js';
 import { startScheduler, stopScheduler } from './scheduler/call-scheduler.js';
 import { startWeeklySummaryScheduler, stopWeeklySummaryScheduler } from './scheduler/weekly-summary-scheduler.js';
 import { startRecordingDeletionScheduler, stopRecordingDeletionScheduler } from './scheduler/recording-deletion.js';
+import { startSafetyEscalationScheduler, stopSafetyEscalationScheduler } from './scheduler/safety-escalation-scheduler.js';
+import { startContentFeedScheduler, stopContentFeedScheduler } from './scheduler/content-feed-scheduler.js';
 import { verifyRouter } from './routes/verify.js';
 import { internalSmsRouter } from './routes/internal/sms.js';
 import { internalRecordingsRouter } from './routes/internal/recordings.js';
 import { internalExportsRouter } from './routes/internal/exports.js';
+import { internalMemoriesRouter } from './routes/internal/memories.js';
 import testRoutes from './routes/test.js';
 import { getSupabaseClient } from './utils/supabase.js';
 import { getTwilioClient } from './utils/twilio.js';
@@ -121,6 +126,9 @@ app.get('/health', async (_req, res) => {
 // Twilio webhook routes
 app.use('/twilio/voice', twilioInboundRouter);
 app.use('/twilio/voice', twilioOutboundRouter);
+app.use('/twilio/transfer', twilioTransferRouter);
+app.use('/twilio/safety', twilioSafetyRouter);
+app.use('/twilio/sms', twilioSmsRouter);
 app.use('/twilio', twilioStatusRouter);
 
 // Internal API routes
@@ -130,6 +138,7 @@ app.use('/verify', verifyRouter);
 app.use('/internal', internalSmsRouter);
 app.use('/internal', internalRecordingsRouter);
 app.use('/internal', internalExportsRouter);
+app.use('/internal', internalMemoriesRouter);
 if (process.env.NODE_ENV !== 'production') {
   app.use('/test', testRoutes);
 }
@@ -144,29 +153,7 @@ app.use((err: Error, _req: express.Request, res: express.Response, _next: expres
 const server = http.createServer(app);
 
 // Create WebSocket server for Twilio Media Streams
-const wss = new WebSocketServer({
-  server,
-  path: '/twilio/media',
-});
-
-// Handle WebSocket connections
-wss.on('connection', (ws, req) => {
-  const url = new URL(req.url || '', `http://${req.headers.host}`);
-  const callSessionId = url.searchParams.get('callSessionId');
-
-  if (!callSessionId) {
-    logger.error('WebSocket connection without callSessionId');
-    ws.close(1008, 'Missing callSessionId');
-    return;
-  }
-
-  logger.info({ callSessionId }, 'WebSocket connection established');
-  handleMediaStreamConnection(ws, callSessionId);
-});
-
-wss.on('error', (error) => {
-  logger.error({ error }, 'WebSocket server error');
-});
+createMediaStreamServer(server);
 
 // Start server
 const PORT = process.env.PORT || 3001;
@@ -196,6 +183,8 @@ server.listen(PORT, () => {
   startScheduler();
   startWeeklySummaryScheduler();
   startRecordingDeletionScheduler();
+  startSafetyEscalationScheduler();
+  startContentFeedScheduler();
 });
 
 // Graceful shutdown
@@ -204,6 +193,8 @@ process.on('SIGTERM', () => {
   stopScheduler();
   stopWeeklySummaryScheduler();
   stopRecordingDeletionScheduler();
+  stopSafetyEscalationScheduler();
+  stopContentFeedScheduler();
   server.close(() => {
     logger.info('HTTP server closed');
     process.exit(0);
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../server.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { calculateAnswerPatterns, getAnswerSlot } from '../answer-patterns.js';
+
+const timezone = 'America/New_York';
+
+function call(createdAt: string, answeredBy: string | null, secondsConnected = 0) {
+  return { created_at: createdAt, answered_by: answeredBy, seconds_connected: secondsConnected };
+}
+
+describe('getAnswerSlot', () => {
+  it('uses the local weekday and half-hour slot', () => {
+    // Tuesday 10:47 in New York
+    expect(getAnswerSlot('2026-03-03T15:47:00Z', timezone)).toEqual({ weekday: 2, time: '10:30' });
+  });
+
+  it('counts Sunday as weekday 0', () => {
+    expect(getAnswerSlot('2026-03-08T13:05:00Z', timezone)).toEqual({ weekday: 0, time: '09:00' });
+  });
+});
+
+describe('calculateAnswerPatterns', () => {
+  it('counts answering machines as unanswered', () => {
+    const patterns = calculateAnswerPatterns([
+      call('2026-02-03T14:00:00Z', 'human', 300),
+      call('2026-02-10T14:05:00Z', 'machine_end_beep'),
+      call('2026-02-17T14:10:00Z', null, 120),
+      call('2026-02-24T14:15:00Z', 'fax'),
+    ], timezone);
+
+    expect(patterns.sampleSize).toBe(4);
+    expect(patterns.answerRate).toBe(0.5);
+    expect(patterns.slots).toEqual([
+      { weekday: 2, time: '09:00', calls: 4, answered: 2, rate: 0.5 },
+    ]);
+  });
+
+  it('smooths thin slots towards the overall rate', () => {
+    const patterns = calculateAnswerPatterns([
+      call('2026-02-03T14:00:00Z', 'human', 300),
+      call('2026-02-03T15:30:00Z', 'machine_start'),
+      call('2026-02-10T15:30:00Z', 'human', 200),
+      call('2026-02-17T15:30:00Z', 'human', 200),
+    ], timezone);
+
+    const morning = patterns.slots.find((slot) => slot.time === '09:00');
+    const later = patterns.slots.find((slot) => slot.time === '10:30');
+
+    // One answered call: (1 + 2 * 0.75) / 3
+    expect(morning?.rate).toBeCloseTo(0.833, 3);
+    // Two of three answered: (2 + 2 * 0.75) / 5
+    expect(later?.rate).toBeCloseTo(0.7, 3);
+  });
+
+  it('returns no slots without calls', () => {
+    expect(calculateAnswerPatterns([], timezone)).toEqual({ slots: [], answerRate: 0, sampleSize: 0 });
+  });
+});
@@ -0,0 +1,197 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+vi.mock('../../server.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import type { ContentItem } from '@ultaura/types';
+import { matchesAvoidTopic, selectBriefingItems } from '../briefing.js';
+import {
+  assertPublicFeedUrl,
+  fetchFeedItems,
+  isBlockedAddress,
+  parseRssFeed,
+  readLimitedBody,
+  resolveLocalFeedPath,
+} from '../content-feeds.js';
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+const NOW = new Date('2026-03-03T12:00:00Z');
+
+function item(overrides: Partial<ContentItem> & Pick<ContentItem, 'id' | 'title'>): ContentItem {
+  return {
+    feedId: 'feed-1',
+    lineId: null,
+    region: 'maple-grove',
+    sourceType: 'rss',
+    summary: null,
+    url: null,
+    topics: [],
+    publishedAt: '2026-03-03T08:00:00Z',
+    expiresAt: null,
+    ...overrides,
+  };
+}
+
+const select = (candidates: ContentItem[], options: Partial<Parameters<typeof selectBriefingItems>[1]> = {}) =>
+  selectBriefingItems(candidates, {
+    avoidTopics: [],
+    interests: [],
+    mentionedItemIds: new Set(),
+    now: NOW,
+    ...options,
+  }).map((entry) => entry.id);
+
+describe('content feed sources', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('parses RSS items with categories and dates', () => {
+    const items = parseRssFeed(`<?xml version="1.0"?>
+      <rss><channel><title>Local</title>
+        <item>
+          <title><![CDATA[Tigers win 3-1 &amp; clinch title]]></title>
+          <link>https://example.com/tigers</link>
+          <guid>tigers-1</guid>
+          <description>&lt;p&gt;A late rally at Comerica Park.&lt;/p&gt;</description>
+          <category>sports</category>
+          <pubDate>Tue, 03 Mar 2026 02:00:00 GMT</pubDate>
+        </item>
+      </channel></rss>`);
+
+    expect(items).toEqual([{
+      externalId: 'tigers-1',
+      title: 'Tigers win 3-1 & clinch title',
+      summary: 'A late rally at Comerica Park.',
+      url: 'https://example.com/tigers',
+      topics: ['sports'],
+      publishedAt: '2026-03-03T02:00:00.000Z',
+      expiresAt: null,
+    }]);
+  });
+
+  it('reads a local JSON feed and skips entries without a title', async () => {
+    vi.stubEnv('CONTENT_FEED_LOCAL_DIR', FIXTURES_DIR);
+
+    const items = await fetchFeedItems({ sourceType: 'local_file', url: 'local-feed.json' });
+
+    expect(items.map((entry) => entry.externalId)).toEqual(['pancake-breakfast', 'council-vote']);
+    expect(items[0].expiresAt).toBe('2026-03-07T14:00:00.000Z');
+    expect(items[1].summary).toBe('Voters returned two incumbents to the town council.');
+  });
+
+  it('refuses local feed paths outside the feed directory', () => {
+    expect(resolveLocalFeedPath('local-feed.json', FIXTURES_DIR)).toBe(path.join(FIXTURES_DIR, 'local-feed.json'));
+    expect(() => resolveLocalFeedPath('../briefing.test.ts', FIXTURES_DIR)).toThrow();
+  });
+});
+
+describe('content feed URL checks', () => {
+  const PUBLIC_FEED = 'http://93.184.216.34/feed.xml';
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('blocks loopback, private, link-local and metadata addresses', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.16.0.9',
+      '172.31.255.255',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::1',
+      '::',
+      'fe80::1',
+      'fd00:ec2::254',
+      '::ffff:127.0.0.1',
+      '::ffff:7f00:1',
+    ]) {
+      expect(isBlockedAddress(address), address).toBe(true);
+    }
+  });
+
+  it('allows public addresses', () => {
+    for (const address of ['93.184.216.34', '172.32.0.1', '8.8.8.8', '2606:4700:4700::1111', '::ffff:8.8.8.8']) {
+      expect(isBlockedAddress(address), address).toBe(false);
+    }
+  });
+
+  it('rejects feed URLs for local hosts and hosts resolving to private addresses', async () => {
+    const resolve = vi.fn(async (hostname: string) => (
+      hostname === 'intranet.example.com' ? [{ address: '10.0.0.5' }] : [{ address: '93.184.216.34' }]
+    ));
+
+    await expect(assertPublicFeedUrl('http://localhost:3000/feed', resolve)).rejects.toThrow('public address');
+    await expect(assertPublicFeedUrl('http://169.254.169.254/latest/meta-data', resolve)).rejects.toThrow('public address');
+    await expect(assertPublicFeedUrl('http://[::1]/feed', resolve)).rejects.toThrow('public address');
+    await expect(assertPublicFeedUrl('https://intranet.example.com/feed', resolve)).rejects.toThrow('public address');
+    await expect(assertPublicFeedUrl('file:///etc/passwd', resolve)).rejects.toThrow('http or https');
+    await expect(assertPublicFeedUrl('https://news.example.com/feed', resolve)).resolves.toBeInstanceOf(URL);
+  });
+
+  it('does not follow redirects to private addresses', async () => {
+    const fetchMock = vi.fn(async () => new Response(null, {
+      status: 302,
+      headers: { location: 'http://169.254.169.254/latest/meta-data' },
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(fetchFeedItems({ sourceType: 'rss', url: PUBLIC_FEED })).rejects.toThrow('public address');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0]).toEqual([expect.any(URL), expect.objectContaining({ redirect: 'manual' })]);
+  });
+
+  it('stops reading feeds over the size limit', async () => {
+    const oversized = new Response('x'.repeat(64), { headers: { 'content-type': 'text/xml' } });
+    await expect(readLimitedBody(oversized, 32)).rejects.toThrow('too large');
+
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('<rss></rss>', {
+      headers: { 'content-length': String(50 * 1024 * 1024) },
+    })));
+    await expect(fetchFeedItems({ sourceType: 'rss', url: PUBLIC_FEED })).rejects.toThrow('too large');
+  });
+});
+
+describe('selectBriefingItems', () => {
+  it('leaves out items touching topics to avoid', () => {
+    const candidates = [
+      item({ id: 'vote', title: 'Council election results', topics: ['politics'] }),
+      item({ id: 'hospital', title: 'New wing opens at the hospital' }),
+      item({ id: 'garden', title: 'Garden club spring sale' }),
+    ];
+
+    expect(select(candidates, { avoidTopics: ['Politics', 'hospitals'] })).toEqual(['garden']);
+    expect(matchesAvoidTopic(candidates[1], ['hospital'])).toBe(true);
+    expect(matchesAvoidTopic(candidates[2], ['den'])).toBe(false);
+  });
+
+  it('puts family items and interests first, and skips stale, expired or mentioned items', () => {
+    const candidates = [
+      item({ id: 'news', title: 'Weather turns mild', publishedAt: '2026-03-03T11:00:00Z' }),
+      item({ id: 'baseball', title: 'Tigers open spring training', topics: ['baseball'] }),
+      item({ id: 'supper', title: 'Church supper Friday', sourceType: 'caregiver', feedId: null, publishedAt: '2026-02-25T12:00:00Z' }),
+      item({ id: 'old', title: 'Snow day', publishedAt: '2026-02-27T12:00:00Z' }),
+      item({ id: 'past', title: 'Bake sale', sourceType: 'caregiver', expiresAt: '2026-03-02T12:00:00Z' }),
+      item({ id: 'heard', title: 'Library reopens' }),
+    ];
+
+    expect(select(candidates, { interests: ['Baseball'], mentionedItemIds: new Set(['heard']) }))
+      .toEqual(['supper', 'baseball', 'news']);
+  });
+
+  it('keeps one copy of a story carried by several feeds', () => {
+    const candidates = [
+      item({ id: 'a', title: 'Tigers win!' }),
+      item({ id: 'b', title: 'Tigers win', feedId: 'feed-2' }),
+    ];
+
+    expect(select(candidates)).toEqual(['a']);
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../server.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('../../utils/supabase.js', async () => {
+  const { fakeSupabase } = await import('./fake-supabase.js');
+  return { getSupabaseClient: () => fakeSupabase };
+});
+
+import { fakeSupabase } from './fake-supabase.js';
+import {
+  getPendingCallPreview,
+  isCallPreviewExpired,
+  recordCallPreviewMissed,
+  resolveCallPreview,
+  storeCallPreview,
+} from '../call-preview.js';
+
+const PREVIEWS = 'ultaura_call_previews';
+
+const topic = {
+  topicType: 'memory_follow_up' as const,
+  topicKey: 'granddaughter_recital',
+  topicDisplay: "Emma's piano recital",
+  offeredTopics: ["Emma's piano recital", 'The garden'],
+  segmentId: null,
+};
+
+function seedPreview(overrides: Record<string, unknown> = {}) {
+  fakeSupabase.seed(PREVIEWS, [{
+    id: 'preview-1',
+    account_id: 'account-1',
+    line_id: 'line-1',
+    created_at: '2026-02-09T20:00:00.000Z',
+    topic_type: 'free_form',
+    topic_key: 'bird_feeder',
+    topic_display: 'The new bird feeder',
+    offered_topics: [],
+    segment_id: null,
+    expected_by: null,
+    status: 'pending',
+    used_at: null,
+    follow_through_response: null,
+    missed_calls: 0,
+    ...overrides,
+  }]);
+}
+
+function previewRows() {
+  return fakeSupabase.rows(PREVIEWS);
+}
+
+beforeEach(() => {
+  fakeSupabase.reset();
+  fakeSupabase.defaults(PREVIEWS, {
+    created_at: '2026-02-10T20:00:00.000Z',
+    status: 'pending',
+    used_at: null,
+    follow_through_response: null,
+    missed_calls: 0,
+  });
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-02-10T20:00:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('storeCallPreview', () => {
+  it('replaces the pending preview and records when the next call is due', async () => {
+    seedPreview();
+    fakeSupabase.seed('ultaura_schedules', [
+      { line_id: 'line-1', enabled: true, next_run_at: '2026-02-12T14:00:00.000Z' },
+      { line_id: 'line-1', enabled: true, next_run_at: '2026-02-11T14:00:00.000Z' },
+      { line_id: 'line-1', enabled: false, next_run_at: '2026-02-10T22:00:00.000Z' },
+    ]);
+
+    const preview = await storeCallPreview({
+      accountId: 'account-1',
+      lineId: 'line-1',
+      callSessionId: 'session-1',
+      preview: topic,
+    });
+
+    expect(preview).toMatchObject({
+      lineId: 'line-1',
+      topicKey: 'granddaughter_recital',
+      status: 'pending',
+      expectedBy: '2026-02-11T14:00:00.000Z',
+      missedCalls: 0,
+    });
+    expect(previewRows().map((row) => [row.topic_key, row.status])).toEqual([
+      ['bird_feeder', 'expired'],
+      ['granddaughter_recital', 'pending'],
+    ]);
+  });
+
+  it('leaves previews for other lines alone', async () => {
+    seedPreview({ line_id: 'line-2' });
+
+    await storeCallPreview({ accountId: 'account-1', lineId: 'line-1', callSessionId: 'session-1', preview: topic });
+
+    expect(previewRows()[0]).toMatchObject({ line_id: 'line-2', status: 'pending' });
+  });
+});
+
+describe('getPendingCallPreview', () => {
+  it('returns a pending preview within the expiry window', async () => {
+    seedPreview();
+
+    expect(await getPendingCallPreview('line-1')).toMatchObject({ id: 'preview-1', topicKey: 'bird_feeder' });
+  });
+
+  it('expires a preview older than the expiry window instead of returning it', async () => {
+    seedPreview({ created_at: '2026-02-02T19:00:00.000Z' });
+
+    expect(await getPendingCallPreview('line-1')).toBeNull();
+    expect(previewRows()[0]).toMatchObject({ status: 'expired' });
+  });
+
+  it('reports previews as expired after seven days', () => {
+    const now = new Date('2026-02-10T20:00:00Z');
+
+    expect(isCallPreviewExpired({ createdAt: '2026-02-03T20:00:00Z' }, now)).toBe(false);
+    expect(isCallPreviewExpired({ createdAt: '2026-02-03T19:59:00Z' }, now)).toBe(true);
+  });
+});
+
+describe('resolveCallPreview', () => {
+  it('marks an engaged preview as used', async () => {
+    seedPreview();
+
+    expect(await resolveCallPreview('line-1', 'preview-1', 'session-2', 'engaged')).toBe(true);
+    expect(previewRows()[0]).toMatchObject({
+      status: 'used',
+      used_at: '2026-02-10T20:00:00.000Z',
+      used_call_session_id: 'session-2',
+      follow_through_response: 'engaged',
+    });
+  });
+
+  it('marks a declined preview as declined', async () => {
+    seedPreview();
+
+    expect(await resolveCallPreview('line-1', 'preview-1', 'session-2', 'declined')).toBe(true);
+    expect(previewRows()[0]).toMatchObject({ status: 'declined', follow_through_response: 'declined' });
+  });
+
+  it('only resolves a pending preview on its own line', async () => {
+    seedPreview();
+
+    expect(await resolveCallPreview('line-2', 'preview-1', 'session-2', 'engaged')).toBe(false);
+    expect(await resolveCallPreview('line-1', 'preview-1', 'session-2', 'redirected')).toBe(true);
+    expect(await resolveCallPreview('line-1', 'preview-1', 'session-3', 'engaged')).toBe(false);
+    expect(previewRows()[0]).toMatchObject({ used_call_session_id: 'session-2', follow_through_response: 'redirected' });
+  });
+});
+
+describe('recordCallPreviewMissed', () => {
+  it('counts each call that ended without the preview', async () => {
+    seedPreview();
+
+    await recordCallPreviewMissed('preview-1');
+    await recordCallPreviewMissed('preview-1');
+
+    expect(previewRows()[0]).toMatchObject({ missed_calls: 2, status: 'pending' });
+  });
+
+  it('does not count against a preview that was already resolved', async () => {
+    seedPreview({ status: 'used' });
+
+    await recordCallPreviewMissed('preview-1');
+
+    expect(previewRows()[0]).toMatchObject({ missed_calls: 0 });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../server.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('../../utils/supabase.js', async () => {
+  const { fakeSupabase } = await import('./fake-supabase.js');
+  return { getSupabaseClient: () => fakeSupabase };
+});
+
+const twilio = vi.hoisted(() => ({
+  create: vi.fn(),
+  update: vi.fn(),
+}));
+
+vi.mock('../../utils/twilio.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../utils/twilio.js')>()),
+  getTwilioClient: () => ({
+    calls: Object.assign(() => ({ update: twilio.update }), { create: twilio.create }),
+  }),
+}));
+
+import { fakeSupabase } from './fake-supabase.js';
+import {
+  finishTransfer,
+  getTransferEventName,
+  isTransferInProgress,
+  startWarmTransfer,
+} from '../call-transfer.js';
+
+const contact = { id: 'contact-1', name: 'Sarah', phoneE164: '+15555550123' };
+
+function transfer(overrides: Partial<Parameters<typeof startWarmTransfer>[0]> = {}) {
+  return startWarmTransfer({
+    callSessionId: 'session-1',
+    callSid: 'CA123',
+    safetyEventId: null,
+    contact,
+    lovedOneName: 'Mom',
+    ...overrides,
+  });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  fakeSupabase.reset();
+  twilio.create.mockResolvedValue({ sid: 'CA456' });
+  twilio.update.mockResolvedValue({});
+  process.env.TWILIO_PHONE_NUMBER = '+15555550100';
+  process.env.ULTAURA_PUBLIC_URL = 'https://telephony.example.com';
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  finishTransfer('session-1');
+  vi.useRealTimers();
+});
+
+describe('startWarmTransfer', () => {
+  it('briefs the contact on a caller request and tags the webhooks with the reason', async () => {
+    expect(await transfer({ reason: 'caller_request' })).toBe(true);
+
+    const call = twilio.create.mock.calls[0][0];
+    expect(call.to).toBe('+15555550123');
+    expect(call.twiml).toContain('Mom is on a call with us and asked to speak with you.');
+    expect(call.twiml).not.toContain('harming themselves');
+    expect(call.statusCallback).toContain('reason=caller_request');
+    expect(isTransferInProgress('session-1')).toBe(true);
+  });
+
+  it('uses the crisis briefing and records the transfer on the safety event', async () => {
+    fakeSupabase.seed('ultaura_safety_events', [{ id: 'event-1', tier: 'high' }]);
+
+    await transfer({ safetyEventId: 'event-1' });
+
+    expect(twilio.create.mock.calls[0][0].twiml).toContain('thoughts of harming themselves');
+    expect(fakeSupabase.rows('ultaura_safety_events')[0]).toMatchObject({
+      action_taken: 'transferred_call',
+      transfer_status: 'initiated',
+      transfer_contact_id: 'contact-1',
+    });
+  });
+
+  it('does not dial a second contact while a transfer is in progress', async () => {
+    await transfer({ reason: 'caller_request' });
+
+    expect(await transfer({ reason: 'caller_request' })).toBe(false);
+    expect(twilio.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('moves the caller into the conference after the handoff delay', async () => {
+    await transfer({ reason: 'caller_request' });
+    expect(twilio.update).not.toHaveBeenCalled();
+
+    await vi.runAllTimersAsync();
+
+    expect(twilio.update.mock.calls[0][0].twiml).toContain('ultaura-transfer-session-1');
+    expect(finishTransfer('session-1')).toEqual({ callerOnHold: true, contactAccepted: false });
+  });
+
+  it('reports a failed dial without tracking a transfer', async () => {
+    twilio.create.mockRejectedValue(new Error('unreachable'));
+
+    expect(await transfer({ reason: 'caller_request' })).toBe(false);
+    expect(isTransferInProgress('session-1')).toBe(false);
+  });
+});
+
+describe('getTransferEventName', () => {
+  it('records keypad transfers apart from safety transfers', () => {
+    expect(getTransferEventName('caller_request')).toBe('contact_transfer');
+    expect(getTransferEventName('safety')).toBe('safety_transfer');
+    expect(getTransferEventName(undefined)).toBe('safety_transfer');
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect, vi } from 'vitest';
+import { DateTime } from 'luxon';
+
+vi.mock('../../server.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import {
+  getEffectiveCallWindows,
+  getRetryBackoffMinutes,
+  getScheduleRetryAt,
+} from '../call-windows.js';
+
+const timezone = 'America/New_York';
+const quietHours = { start: '21:00', end: '08:00' };
+
+function schedule(overrides: Partial<{
+  time_of_day: string;
+  call_windows: Array<{ start: string; end: string }>;
+  retry_window_minutes: number;
+  max_retries: number;
+}> = {}) {
+  return {
+    timezone,
+    time_of_day: overrides.time_of_day ?? '09:00',
+    call_windows: overrides.call_windows ?? [],
+    retry_policy: {
+      max_retries: overrides.max_retries ?? 3,
+      retry_window_minutes: overrides.retry_window_minutes ?? 30,
+    },
+  };
+}
+
+function at(time: string): DateTime {
+  return DateTime.fromISO(`2026-03-04T${time}`, { zone: timezone });
+}
+
+// 2026-03-04 is a Wednesday (weekday 3)
+function slot(weekday: number, time: string, rate: number, calls = 5) {
+  return { weekday, time, calls, answered: Math.round(calls * rate), rate };
+}
+
+function patterns(answerRate: number, slots: ReturnType<typeof slot>[]) {
+  return { slots, answerRate, sampleSize: 40 };
+}
+
+function localTime(value: DateTime | null): string | null {
+  return value ? value.setZone(timezone).toFormat('HH:mm') : null;
+}
+
+describe('getEffectiveCallWindows', () => {
+  it('uses the retry window after time_of_day when a schedule has no windows', () => {
+    expect(getEffectiveCallWindows(schedule({ retry_window_minutes: 45 }))).toEqual([
+      { start: 540, end: 585 },
+    ]);
+  });
+
+  it('sorts configured windows by start', () => {
+    const windows = getEffectiveCallWindows(schedule({
+      call_windows: [{ start: '18:00', end: '19:00' }, { start: '09:00', end: '10:00' }],
+    }));
+
+    expect(windows.map((w) => w.start)).toEqual([540, 1080]);
+  });
+});
+
+describe('getRetryBackoffMinutes', () => {
+  it('doubles each attempt up to an hour', () => {
+    expect([1, 2, 3, 4, 5, 6].map(getRetryBackoffMinutes)).toEqual([5, 10, 20, 40, 60, 60]);
+  });
+});
+
+describe('getScheduleRetryAt', () => {
+  it('backs off within the legacy retry window', () => {
+    const retryAt = getScheduleRetryAt({ schedule: schedule(), attempt: 2, quietHours, now: at('09:05') });
+    expect(localTime(retryAt)).toBe('09:15');
+  });
+
+  it('gives up when the backoff runs past the only window', () => {
+    const retryAt = getScheduleRetryAt({ schedule: schedule(), attempt: 3, quietHours, now: at('09:15') });
+    expect(retryAt).toBeNull();
+  });
+
+  it('moves to the start of the next window', () => {
+    const retryAt = getScheduleRetryAt({
+      schedule: schedule({
+        call_windows: [{ start: '09:00', end: '10:00' }, { start: '18:00', end: '19:00' }],
+      }),
+      attempt: 3,
+      quietHours,
+      now: at('09:50'),
+    });
+
+    expect(localTime(retryAt)).toBe('18:00');
+  });
+
+  it('keeps a retry for the later window with the default retry policy', () => {
+    const twoWindows = schedule({
+      call_windows: [{ start: '09:00', end: '10:00' }, { start: '18:00', end: '19:00' }],
+      max_retries: 2,
+    });
+
+    const first = getScheduleRetryAt({ schedule: twoWindows, attempt: 1, quietHours, now: at('09:00') });
+    expect(localTime(first)).toBe('09:05');
+
+    const second = getScheduleRetryAt({ schedule: twoWindows, attempt: 2, quietHours, now: at('09:05') });
+    expect(localTime(second)).toBe('18:00');
+  });
+
+  it('calls each later window once when there are as many retries as windows left', () => {
+    const threeWindows = schedule({
+      call_windows: [
+        { start: '09:00', end: '10:00' },
+        { start: '13:00', end: '14:00' },
+        { start: '18:00', end: '19:00' },
+      ],
+      max_retries: 2,
+    });
+
+    const first = getScheduleRetryAt({ schedule: threeWindows, attempt: 1, quietHours, now: at('09:00') });
+    expect(localTime(first)).toBe('13:00');
+
+    const second = getScheduleRetryAt({ schedule: threeWindows, attempt: 2, quietHours, now: at('13:00') });
+    expect(localTime(second)).toBe('18:00');
+  });
+
+  it('waits for quiet hours to end inside the window', () => {
+    const retryAt = getScheduleRetryAt({
+      schedule: schedule({ call_windows: [{ start: '07:00', end: '09:00' }] }),
+      attempt: 1,
+      quietHours,
+      now: at('07:00'),
+    });
+
+    expect(localTime(retryAt)).toBe('08:00');
+  });
+
+  it('skips windows that fall entirely in quiet hours', () => {
+    const retryAt = getScheduleRetryAt({
+      schedule: schedule({ call_windows: [{ start: '20:00', end: '21:30' }] }),
+      attempt: 3,
+      quietHours,
+      now: at('20:50'),
+    });
+
+    expect(retryAt).toBeNull();
+  });
+
+  it('prefers a later slot in the window when the line answers more often then', () => {
+    const retryAt = getScheduleRetryAt({
+      schedule: schedule({ call_windows: [{ start: '09:00', end: '11:00' }] }),
+      attempt: 1,
+      quietHours,
+      answerPatterns: patterns(0.5, [slot(3, '09:00', 0.3), slot(3, '10:30', 0.9)]),
+      now: at('09:00'),
+    });
+
+    expect(localTime(retryAt)).toBe('10:30');
+  });
+
+  it('keeps the earliest slot when the model does not favour a later one', () => {
+    const retryAt = getScheduleRetryAt({
+      schedule: schedule({ call_windows: [{ start: '09:00', end: '11:00' }] }),
+      attempt: 1,
+      quietHours,
+      answerPatterns: patterns(0.8, [slot(3, '10:00', 0.6)]),
+      now: at('09:00'),
+    });
+
+    expect(localTime(retryAt)).toBe('09:05');
+  });
+
+  it('ignores slots on other weekdays and slots with too few calls', () => {
+    const retryAt = getScheduleRetryAt({
+      schedule: schedule({ call_windows: [{ start: '09:00', end: '11:00' }] }),
+      attempt: 1,
+      quietHours,
+      answerPatterns: patterns(0.5, [slot(4, '10:00', 0.95), slot(3, '10:30', 0.9, 2)]),
+      now: at('09:00'),
+    });
+
+    expect(localTime(retryAt)).toBe('09:05');
+  });
+});
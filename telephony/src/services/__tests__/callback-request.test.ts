@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../server.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { describeCallbackTime, getCallbackTime } from '../callback-request.js';
+
+const line = {
+  timezone: 'America/New_York',
+  quiet_hours_start: '21:00',
+  quiet_hours_end: '09:00',
+};
+
+describe('getCallbackTime', () => {
+  it('calls back shortly when outside quiet hours', () => {
+    const now = new Date('2026-02-16T15:00:00Z'); // 10:00 local
+
+    expect(getCallbackTime(line, now).toISOString()).toBe('2026-02-16T15:02:00.000Z');
+  });
+
+  it('waits until quiet hours end after midnight', () => {
+    const now = new Date('2026-02-16T07:30:00Z'); // 02:30 local
+
+    expect(getCallbackTime(line, now).toISOString()).toBe('2026-02-16T14:00:00.000Z');
+  });
+
+  it('waits until the next morning when called late in the evening', () => {
+    const now = new Date('2026-02-17T03:00:00Z'); // 22:00 local on Feb 16
+
+    expect(getCallbackTime(line, now).toISOString()).toBe('2026-02-17T14:00:00.000Z');
+  });
+
+  it('handles quiet hours that do not span midnight', () => {
+    const daytimeQuiet = { ...line, quiet_hours_start: '13:00', quiet_hours_end: '14:30' };
+    const now = new Date('2026-02-16T18:15:00Z'); // 13:15 local
+
+    expect(getCallbackTime(daytimeQuiet, now).toISOString()).toBe('2026-02-16T19:30:00.000Z');
+  });
+
+  it('treats the hour after midnight as quiet when quiet hours start at midnight', () => {
+    const earlyQuiet = { ...line, quiet_hours_start: '00:00', quiet_hours_end: '07:00' };
+    const now = new Date('2026-02-16T05:15:00Z'); // 00:15 local
+
+    expect(getCallbackTime(earlyQuiet, now).toISOString()).toBe('2026-02-16T12:00:00.000Z');
+  });
+});
+
+describe('describeCallbackTime', () => {
+  it('says "in a few minutes" for an immediate callback', () => {
+    const now = new Date('2026-02-16T15:00:00Z');
+
+    expect(describeCallbackTime(getCallbackTime(line, now), line.timezone, now)).toBe('in a few minutes');
+  });
+
+  it('names the local time for a later callback', () => {
+    const now = new Date('2026-02-16T07:30:00Z');
+
+    expect(describeCallbackTime(new Date('2026-02-16T14:00:00Z'), line.timezone, now)).toBe('at 9 AM');
+    expect(describeCallbackTime(new Date('2026-02-16T14:30:00Z'), line.timezone, now)).toBe('at 9:30 AM');
+  });
+});
@@ -0,0 +1,267 @@
+// In-memory stand-in for the Supabase client in service tests
+// Supports the query-builder calls the telephony services use against plain row arrays:
+// select/insert/update/upsert/delete with eq/neq/in/is/not-is/lt/lte/gt/gte filters, order,
+// limit and single/maybeSingle. Column defaults and unique keys (which give 23505 errors) can be
+// declared per table.
+
+type Row = Record<string, unknown>;
+type Filter = (row: Row) => boolean;
+type QueryResult = { data: unknown; error: { code?: string; message: string } | null };
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return -1;
+  if (b === null || b === undefined) return 1;
+  return (a as string | number) < (b as string | number) ? -1 : 1;
+}
+
+class FakeQuery implements PromiseLike<QueryResult> {
+  private action: 'select' | 'insert' | 'update' | 'upsert' | 'delete' = 'select';
+  private payload: Row | Row[] = {};
+  private conflictColumns: string[] = [];
+  private returning = false;
+  private filters: Filter[] = [];
+  private ordering: Array<{ column: string; ascending: boolean }> = [];
+  private limitCount: number | null = null;
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(private readonly db: FakeSupabase, private readonly table: string) {}
+
+  select(_columns?: string): this {
+    if (this.action !== 'select') {
+      this.returning = true;
+    }
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.action = 'insert';
+    this.payload = values;
+    return this;
+  }
+
+  update(values: Row): this {
+    this.action = 'update';
+    this.payload = values;
+    return this;
+  }
+
+  upsert(values: Row | Row[], options?: { onConflict?: string }): this {
+    this.action = 'upsert';
+    this.payload = values;
+    this.conflictColumns = options?.onConflict?.split(',').map((c) => c.trim()) ?? ['id'];
+    return this;
+  }
+
+  delete(): this {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  neq(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] !== value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]): this {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  is(column: string, value: null | boolean): this {
+    this.filters.push((row) => (value === null ? row[column] == null : row[column] === value));
+    return this;
+  }
+
+  not(column: string, operator: 'is', value: null): this {
+    if (operator !== 'is' || value !== null) {
+      throw new Error(`Unsupported not filter: ${operator} ${String(value)}`);
+    }
+    this.filters.push((row) => row[column] != null);
+    return this;
+  }
+
+  lt(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] != null && compare(row[column], value) < 0);
+    return this;
+  }
+
+  lte(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] != null && compare(row[column], value) <= 0);
+    return this;
+  }
+
+  gt(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] != null && compare(row[column], value) > 0);
+    return this;
+  }
+
+  gte(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] != null && compare(row[column], value) >= 0);
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.ordering.push({ column, ascending: options.ascending ?? true });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.limitCount = count;
+    return this;
+  }
+
+  single(): this {
+    this.mode = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.mode = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onFulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onRejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onFulfilled, onRejected);
+  }
+
+  private matching(): Row[] {
+    const rows = this.db.rows(this.table).filter((row) => this.filters.every((filter) => filter(row)));
+
+    for (const { column, ascending } of [...this.ordering].reverse()) {
+      rows.sort((a, b) => (ascending ? 1 : -1) * compare(a[column], b[column]));
+    }
+
+    return this.limitCount === null ? rows : rows.slice(0, this.limitCount);
+  }
+
+  private execute(): QueryResult {
+    const failure = this.db.takeFailure(this.table);
+    if (failure) {
+      return { data: null, error: failure };
+    }
+
+    let rows: Row[];
+    switch (this.action) {
+      case 'select':
+        rows = this.matching();
+        break;
+      case 'insert': {
+        const values = Array.isArray(this.payload) ? this.payload : [this.payload];
+        const conflict = values.find((value) => this.db.conflicts(this.table, value));
+        if (conflict) {
+          return { data: null, error: { code: '23505', message: 'duplicate key value violates unique constraint' } };
+        }
+        rows = values.map((value) => this.db.add(this.table, value));
+        break;
+      }
+      case 'update':
+        rows = this.matching();
+        rows.forEach((row) => Object.assign(row, this.payload));
+        break;
+      case 'upsert': {
+        const values = Array.isArray(this.payload) ? this.payload : [this.payload];
+        rows = values.map((value) => {
+          const existing = this.db.rows(this.table)
+            .find((row) => this.conflictColumns.every((column) => row[column] === value[column]));
+          return existing ? Object.assign(existing, value) : this.db.add(this.table, value);
+        });
+        break;
+      }
+      case 'delete':
+        rows = this.matching();
+        this.db.remove(this.table, rows);
+        break;
+    }
+
+    const returnsRows = this.action === 'select' || this.returning;
+    const data = rows.map((row) => ({ ...row }));
+
+    if (this.mode === 'many') {
+      return { data: returnsRows ? data : null, error: null };
+    }
+
+    if (data.length > 1 || (this.mode === 'single' && data.length === 0)) {
+      return { data: null, error: { code: 'PGRST116', message: 'JSON object requested, multiple (or no) rows returned' } };
+    }
+
+    return { data: data[0] ?? null, error: null };
+  }
+}
+
+export class FakeSupabase {
+  private tables = new Map<string, Row[]>();
+  private uniqueKeys = new Map<string, string[][]>();
+  private columnDefaults = new Map<string, Row>();
+  private failures = new Map<string, { code?: string; message: string }>();
+  private nextId = 1;
+
+  reset(): void {
+    this.tables.clear();
+    this.uniqueKeys.clear();
+    this.columnDefaults.clear();
+    this.failures.clear();
+    this.nextId = 1;
+  }
+
+  from(table: string): FakeQuery {
+    return new FakeQuery(this, table);
+  }
+
+  seed(table: string, rows: Row[]): void {
+    rows.forEach((row) => this.add(table, row));
+  }
+
+  rows(table: string): Row[] {
+    if (!this.tables.has(table)) {
+      this.tables.set(table, []);
+    }
+    return [...this.tables.get(table)!];
+  }
+
+  defaults(table: string, values: Row): void {
+    this.columnDefaults.set(table, values);
+  }
+
+  unique(table: string, columns: string[]): void {
+    this.uniqueKeys.set(table, [...(this.uniqueKeys.get(table) ?? []), columns]);
+  }
+
+  // Make the next query against the table return this error
+  failNext(table: string, error: { code?: string; message: string }): void {
+    this.failures.set(table, error);
+  }
+
+  takeFailure(table: string): { code?: string; message: string } | null {
+    const failure = this.failures.get(table) ?? null;
+    this.failures.delete(table);
+    return failure;
+  }
+
+  conflicts(table: string, value: Row): boolean {
+    return (this.uniqueKeys.get(table) ?? []).some((columns) =>
+      this.rows(table).some((row) => columns.every((column) => row[column] === value[column]))
+    );
+  }
+
+  add(table: string, value: Row): Row {
+    const row = { id: `${table}-${this.nextId++}`, ...this.columnDefaults.get(table), ...value };
+    this.rows(table);
+    this.tables.get(table)!.push(row);
+    return row;
+  }
+
+  remove(table: string, rows: Row[]): void {
+    this.tables.set(table, this.rows(table).filter((row) => !rows.includes(row)));
+  }
+}
+
+export const fakeSupabase = new FakeSupabase();
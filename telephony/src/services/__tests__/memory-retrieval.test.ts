@@ -0,0 +1,147 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../server.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import type { Memory } from '@ultaura/types';
+import { estimateTokens, selectDueFollowUps, selectMemoriesForPrompt } from '../memory-retrieval.js';
+
+const now = new Date('2026-03-01T12:00:00Z');
+
+function memory(overrides: Partial<Memory> & Pick<Memory, 'key' | 'value'>): Memory {
+  return {
+    id: overrides.key,
+    accountId: 'account-1',
+    lineId: 'line-1',
+    createdAt: '2026-02-01T12:00:00Z',
+    updatedAt: null,
+    type: 'fact',
+    confidence: 0.8,
+    source: 'conversation',
+    version: 1,
+    active: true,
+    privacyScope: 'line_only',
+    redactionLevel: 'none',
+    dueAt: null,
+    resolvedAt: null,
+    ...overrides,
+  };
+}
+
+const keys = (memories: Memory[]) => memories.map((m) => m.key);
+
+describe('selectMemoriesForPrompt', () => {
+  it('puts follow-ups ahead of history', () => {
+    const selected = selectMemoriesForPrompt(
+      [
+        memory({ key: 'childhood_home', value: 'Grew up in Ohio', type: 'history' }),
+        memory({ key: 'doctor_visit', value: 'Cardiologist on Thursday', type: 'follow_up' }),
+      ],
+      { now }
+    );
+
+    expect(keys(selected)).toEqual(['doctor_visit', 'childhood_home']);
+  });
+
+  it('prefers recently updated and confident memories', () => {
+    const selected = selectMemoriesForPrompt(
+      [
+        memory({ key: 'old_fact', value: 'Liked bowling', createdAt: '2025-01-01T00:00:00Z' }),
+        memory({ key: 'unsure_fact', value: 'Maybe likes jazz', confidence: 0.2 }),
+        memory({ key: 'new_fact', value: 'Started painting', updatedAt: '2026-02-28T00:00:00Z' }),
+      ],
+      { now }
+    );
+
+    expect(keys(selected)).toEqual(['new_fact', 'unsure_fact', 'old_fact']);
+  });
+
+  it('boosts memories that overlap recent and upcoming topics', () => {
+    const memories = [
+      memory({ key: 'pets', value: 'Dog named Biscuit' }),
+      memory({ key: 'family_members', value: 'Granddaughter Lucy studies nursing' }),
+    ];
+
+    expect(keys(selectMemoriesForPrompt(memories, { now, recentText: ['Biscuit chewed my slipper'] })))
+      .toEqual(['pets', 'family_members']);
+    expect(keys(selectMemoriesForPrompt(memories, { now, upcomingText: ['Call Lucy about nursing exam'] })))
+      .toEqual(['family_members', 'pets']);
+  });
+
+  it('always keeps the preferred name first', () => {
+    const selected = selectMemoriesForPrompt(
+      [
+        memory({ key: 'appointment', value: 'Dentist tomorrow', type: 'follow_up' }),
+        memory({ key: 'preferred_name', value: 'Dot', type: 'history', createdAt: '2024-01-01T00:00:00Z' }),
+      ],
+      { now }
+    );
+
+    expect(keys(selected)[0]).toBe('preferred_name');
+  });
+
+  it('stays within the token budget and fills leftover space with shorter memories', () => {
+    const long = memory({ key: 'long_story', value: 'x'.repeat(200), type: 'follow_up' });
+    const short = memory({ key: 'pets', value: 'Cat', type: 'history' });
+    const medium = memory({ key: 'hobbies', value: 'Gardening and crosswords' });
+
+    const budget = estimateTokens('- hobbies: Gardening and crosswords') + estimateTokens('- pets: Cat') + 2;
+    const selected = selectMemoriesForPrompt([long, short, medium], { now }, budget);
+
+    expect(keys(selected)).toEqual(['hobbies', 'pets']);
+  });
+
+  it('returns nothing when there are no memories', () => {
+    expect(selectMemoriesForPrompt([], { now })).toEqual([]);
+  });
+
+  it('leaves out answered follow-ups', () => {
+    const selected = selectMemoriesForPrompt(
+      [
+        memory({ key: 'doctor_visit', value: 'Cardiologist on Thursday', type: 'follow_up', resolvedAt: '2026-02-27T15:00:00Z' }),
+        memory({ key: 'pets', value: 'Dog named Biscuit' }),
+      ],
+      { now }
+    );
+
+    expect(keys(selected)).toEqual(['pets']);
+  });
+});
+
+describe('selectDueFollowUps', () => {
+  it('returns open follow-ups that are due, oldest first', () => {
+    const due = selectDueFollowUps(
+      [
+        memory({ key: 'grandson_visit', value: 'Grandson visiting', type: 'follow_up', dueAt: '2026-02-28T08:00:00Z' }),
+        memory({ key: 'doctor_visit', value: 'Cardiologist on Thursday', type: 'follow_up', dueAt: '2026-02-27T08:00:00Z' }),
+        memory({ key: 'pets', value: 'Dog named Biscuit' }),
+      ],
+      now
+    );
+
+    expect(keys(due)).toEqual(['doctor_visit', 'grandson_visit']);
+  });
+
+  it('treats undated follow-ups as due and skips future, answered and stale ones', () => {
+    const due = selectDueFollowUps(
+      [
+        memory({ key: 'undated', value: 'New neighbor', type: 'follow_up' }),
+        memory({ key: 'future', value: 'Dentist next week', type: 'follow_up', dueAt: '2026-03-05T08:00:00Z' }),
+        memory({ key: 'answered', value: 'Eye exam', type: 'follow_up', dueAt: '2026-02-25T08:00:00Z', resolvedAt: '2026-02-26T15:00:00Z' }),
+        memory({ key: 'stale', value: 'Flu shot', type: 'follow_up', dueAt: '2025-12-01T08:00:00Z' }),
+      ],
+      now
+    );
+
+    expect(keys(due)).toEqual(['undated']);
+  });
+
+  it('limits how many follow-ups open a call', () => {
+    const followUps = ['a', 'b', 'c'].map((key) =>
+      memory({ key, value: key, type: 'follow_up', dueAt: '2026-02-28T08:00:00Z' })
+    );
+
+    expect(selectDueFollowUps(followUps, now, 2)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../server.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { valuesConflict } from '../memory-updates.js';
+
+describe('valuesConflict', () => {
+  it('flags a changed value', () => {
+    expect(valuesConflict('Lives in Phoenix', 'Moved to Denver')).toBe(true);
+    expect(valuesConflict('Three grandchildren', 'Four grandchildren')).toBe(true);
+  });
+
+  it('ignores restatements that differ only in case, spacing or punctuation', () => {
+    expect(valuesConflict('Dog named Biscuit', 'dog named  biscuit.')).toBe(false);
+  });
+
+  it('ignores values that only add detail', () => {
+    expect(valuesConflict('Denver', 'Denver, Colorado')).toBe(false);
+    expect(valuesConflict('Gardening and crosswords', 'Gardening')).toBe(false);
+  });
+
+  it('compares list values by their contents', () => {
+    expect(valuesConflict(['tea', 'toast'], 'tea toast')).toBe(false);
+    expect(valuesConflict(['tea', 'toast'], 'coffee')).toBe(true);
+  });
+
+  it('never treats an empty value as a contradiction', () => {
+    expect(valuesConflict('', 'Denver')).toBe(false);
+    expect(valuesConflict('Phoenix', '  ')).toBe(false);
+  });
+});
@@ -0,0 +1,261 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../server.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('../../utils/supabase.js', async () => {
+  const { fakeSupabase } = await import('./fake-supabase.js');
+  return { getSupabaseClient: () => fakeSupabase };
+});
+
+import type { ReminderRow } from '../../utils/supabase.js';
+import { fakeSupabase } from './fake-supabase.js';
+import {
+  claimConfirmationFollowUp,
+  getOpenReminderConfirmation,
+  markReminderConfirmationMissed,
+  openReminderConfirmation,
+  recordReminderConfirmation,
+} from '../reminder-confirmations.js';
+
+const CONFIRMATIONS = 'ultaura_reminder_confirmations';
+const FIRST_DUE = '2026-02-10T14:00:00.000Z';
+const SECOND_DUE = '2026-02-11T14:00:00.000Z';
+
+function reminder(overrides: Partial<ReminderRow> = {}): ReminderRow {
+  return {
+    id: 'reminder-1',
+    account_id: 'account-1',
+    line_id: 'line-1',
+    due_at: FIRST_DUE,
+    original_due_at: null,
+    message: 'Take your blood pressure pill',
+    ...overrides,
+  } as ReminderRow;
+}
+
+function seedConfirmation(overrides: Record<string, unknown> = {}) {
+  fakeSupabase.seed(CONFIRMATIONS, [{
+    id: 'confirmation-1',
+    account_id: 'account-1',
+    line_id: 'line-1',
+    reminder_id: 'reminder-1',
+    call_session_id: 'session-1',
+    occurrence_due_at: FIRST_DUE,
+    status: 'pending',
+    follow_up_attempts: 0,
+    next_follow_up_at: '2026-02-10T14:30:00.000Z',
+    responded_at: null,
+    ...overrides,
+  }]);
+}
+
+function seedLine(consecutiveMissedDoses: number, threshold = 3) {
+  fakeSupabase.seed('ultaura_lines', [{
+    id: 'line-1',
+    display_name: 'Mom',
+    short_id: 'mom123',
+    consecutive_missed_doses: consecutiveMissedDoses,
+    missed_dose_alert_sent_at: null,
+  }]);
+  fakeSupabase.seed('ultaura_notification_preferences', [{
+    account_id: 'account-1',
+    line_id: 'line-1',
+    alert_missed_doses_enabled: true,
+    alert_missed_doses_threshold: threshold,
+  }]);
+  fakeSupabase.seed('ultaura_reminders', [{ id: 'reminder-1', message: 'Take your blood pressure pill' }]);
+}
+
+function confirmationRows() {
+  return fakeSupabase.rows(CONFIRMATIONS);
+}
+
+function eventTypes() {
+  return fakeSupabase.rows('ultaura_reminder_events').map((event) => event.event_type);
+}
+
+beforeEach(() => {
+  fakeSupabase.reset();
+  fakeSupabase.defaults(CONFIRMATIONS, { status: 'pending', follow_up_attempts: 0, responded_at: null });
+  fakeSupabase.unique(CONFIRMATIONS, ['reminder_id', 'occurrence_due_at']);
+  process.env.ULTAURA_INTERNAL_API_SECRET = 'test-secret';
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-02-10T14:00:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('openReminderConfirmation', () => {
+  it('opens a confirmation for the delivered occurrence', async () => {
+    await openReminderConfirmation(reminder(), 'session-1');
+
+    expect(confirmationRows()).toEqual([expect.objectContaining({
+      reminder_id: 'reminder-1',
+      occurrence_due_at: FIRST_DUE,
+      call_session_id: 'session-1',
+      status: 'pending',
+      next_follow_up_at: '2026-02-10T14:30:00.000Z',
+    })]);
+  });
+
+  it('refreshes the open confirmation when a snoozed occurrence is delivered again', async () => {
+    seedConfirmation();
+    vi.setSystemTime(new Date('2026-02-10T14:20:00Z'));
+
+    await openReminderConfirmation(
+      reminder({ due_at: '2026-02-10T14:15:00.000Z', original_due_at: FIRST_DUE }),
+      'session-2'
+    );
+
+    expect(confirmationRows()).toHaveLength(1);
+    expect(confirmationRows()[0]).toMatchObject({
+      call_session_id: 'session-2',
+      next_follow_up_at: '2026-02-10T14:50:00.000Z',
+    });
+  });
+
+  it('opens a new confirmation for the next occurrence while an older one is still open', async () => {
+    seedConfirmation();
+    vi.setSystemTime(new Date('2026-02-11T14:00:00Z'));
+
+    await openReminderConfirmation(reminder({ due_at: SECOND_DUE }), 'session-2');
+
+    const rows = confirmationRows();
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({ occurrence_due_at: FIRST_DUE, call_session_id: 'session-1' });
+    expect(rows[1]).toMatchObject({ occurrence_due_at: SECOND_DUE, call_session_id: 'session-2', status: 'pending' });
+  });
+});
+
+describe('recordReminderConfirmation', () => {
+  it('keeps a "will take later" answer open and re-arms the call-back', async () => {
+    seedConfirmation();
+    vi.setSystemTime(new Date('2026-02-10T14:05:00Z'));
+
+    const recorded = await recordReminderConfirmation({
+      reminderId: 'reminder-1',
+      response: 'will_take_later',
+      triggeredBy: 'voice',
+      callSessionId: 'session-1',
+    });
+
+    expect(recorded).toBe(true);
+    expect(confirmationRows()[0]).toMatchObject({
+      status: 'will_take_later',
+      next_follow_up_at: '2026-02-10T14:35:00.000Z',
+    });
+    expect(await getOpenReminderConfirmation('reminder-1')).toMatchObject({ status: 'will_take_later' });
+    expect(eventTypes()).toEqual([]);
+  });
+
+  it('settles a taken dose and resets the missed-dose streak', async () => {
+    seedConfirmation({ status: 'will_take_later' });
+    seedLine(2);
+
+    const recorded = await recordReminderConfirmation({
+      reminderId: 'reminder-1',
+      response: 'taken',
+      triggeredBy: 'sms',
+      callSessionId: null,
+    });
+
+    expect(recorded).toBe(true);
+    expect(confirmationRows()[0]).toMatchObject({ status: 'taken', next_follow_up_at: null });
+    expect(await getOpenReminderConfirmation('reminder-1')).toBeNull();
+    expect(eventTypes()).toEqual(['confirmed']);
+    expect(fakeSupabase.rows('ultaura_lines')[0]).toMatchObject({ consecutive_missed_doses: 0 });
+  });
+
+  it('returns false when nothing is waiting for an answer', async () => {
+    seedConfirmation({ status: 'taken' });
+
+    const recorded = await recordReminderConfirmation({
+      reminderId: 'reminder-1',
+      response: 'refused',
+      triggeredBy: 'voice',
+      callSessionId: null,
+    });
+
+    expect(recorded).toBe(false);
+  });
+});
+
+describe('claimConfirmationFollowUp', () => {
+  it('lets only the pass that saw the current attempt count claim the call-back', async () => {
+    seedConfirmation();
+
+    expect(await claimConfirmationFollowUp({ id: 'confirmation-1', followUpAttempts: 0 })).toBe(true);
+    expect(await claimConfirmationFollowUp({ id: 'confirmation-1', followUpAttempts: 0 })).toBe(false);
+    expect(confirmationRows()[0]).toMatchObject({
+      follow_up_attempts: 1,
+      next_follow_up_at: '2026-02-10T14:30:00.000Z',
+    });
+  });
+
+  it('does not claim a settled confirmation', async () => {
+    seedConfirmation({ status: 'taken' });
+
+    expect(await claimConfirmationFollowUp({ id: 'confirmation-1', followUpAttempts: 0 })).toBe(false);
+  });
+});
+
+describe('markReminderConfirmationMissed', () => {
+  it('marks the dose missed and counts it towards the streak once', async () => {
+    seedConfirmation({ follow_up_attempts: 2 });
+    seedLine(0);
+    vi.stubGlobal('fetch', vi.fn());
+
+    await markReminderConfirmationMissed('confirmation-1');
+    await markReminderConfirmationMissed('confirmation-1');
+
+    expect(confirmationRows()[0]).toMatchObject({ status: 'missed', next_follow_up_at: null });
+    expect(eventTypes()).toEqual(['dose_missed']);
+    expect(fakeSupabase.rows('ultaura_lines')[0]).toMatchObject({ consecutive_missed_doses: 1 });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('alerts the payer when the streak reaches the threshold', async () => {
+    seedConfirmation({ follow_up_attempts: 2 });
+    seedLine(2, 3);
+    const fetchMock = vi.fn(async () => new Response(null, { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await markReminderConfirmationMissed('confirmation-1');
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toMatch(/\/api\/telephony\/missed-doses$/);
+    expect(JSON.parse(init.body as string)).toMatchObject({
+      lineId: 'line-1',
+      consecutiveMissedCount: 3,
+      reminderMessage: 'Take your blood pressure pill',
+    });
+    expect(fakeSupabase.rows('ultaura_lines')[0]).toMatchObject({
+      consecutive_missed_doses: 3,
+      missed_dose_alert_sent_at: '2026-02-10T14:00:00.000Z',
+    });
+  });
+
+  it('counts a refused dose towards the threshold', async () => {
+    seedConfirmation();
+    seedLine(1, 2);
+    const fetchMock = vi.fn(async () => new Response(null, { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await recordReminderConfirmation({
+      reminderId: 'reminder-1',
+      response: 'refused',
+      triggeredBy: 'voice',
+      callSessionId: 'session-1',
+    });
+
+    expect(eventTypes()).toEqual(['declined']);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fakeSupabase.rows('ultaura_lines')[0]).toMatchObject({ consecutive_missed_doses: 2 });
+  });
+});
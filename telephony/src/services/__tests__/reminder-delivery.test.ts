@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../server.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { getReminderSmsBody, isUnansweredCall } from '../reminder-delivery.js';
+
+describe('getReminderSmsBody', () => {
+  it('includes the reminder and the reply commands', () => {
+    const body = getReminderSmsBody('Take your evening pills', false);
+
+    expect(body).toContain('Ultaura reminder: Take your evening pills');
+    expect(body).toContain('Reply DONE');
+    expect(body).toContain('SNOOZE 15');
+  });
+
+  it('explains a fallback text follows a missed call', () => {
+    expect(getReminderSmsBody('Dentist at 3pm', true)).toMatch(/^Ultaura: we tried to call with a reminder: Dentist at 3pm\./);
+  });
+});
+
+describe('isUnansweredCall', () => {
+  it('treats calls that never connected as unanswered', () => {
+    for (const status of ['no-answer', 'busy', 'failed']) {
+      expect(isUnansweredCall({ answered_by: null }, status)).toBe(true);
+    }
+  });
+
+  it('treats calls picked up by a machine as unanswered', () => {
+    expect(isUnansweredCall({ answered_by: 'machine_end_beep' }, 'completed')).toBe(true);
+    expect(isUnansweredCall({ answered_by: 'fax' }, 'completed')).toBe(true);
+  });
+
+  it('treats calls a person answered as answered', () => {
+    expect(isUnansweredCall({ answered_by: 'human' }, 'completed')).toBe(false);
+    expect(isUnansweredCall({ answered_by: null }, 'completed')).toBe(false);
+  });
+
+  it('ignores in-flight statuses', () => {
+    expect(isUnansweredCall({ answered_by: null }, 'ringing')).toBe(false);
+  });
+});
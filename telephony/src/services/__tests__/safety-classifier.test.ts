@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import type { SafetyTier } from '@ultaura/types';
+import { classifyWithRules } from '../safety-rules-classifier.js';
+import { scanForSafetyKeywords } from '../safety-keyword-scan.js';
+import { SAFETY_CORPUS } from './safety-corpus.js';
+
+const TIER_RANK: Record<SafetyTier, number> = { low: 1, medium: 2, high: 3 };
+
+function highestTier(tiers: SafetyTier[]): SafetyTier | null {
+  return tiers.reduce<SafetyTier | null>(
+    (highest, tier) => (!highest || TIER_RANK[tier] > TIER_RANK[highest] ? tier : highest),
+    null
+  );
+}
+
+// Detection precision/recall over the corpus (any tier counts as a detection),
+// plus recall on the high-tier cases
+function measure(detect: (text: string) => SafetyTier[]) {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+  let highCases = 0;
+  let highDetected = 0;
+
+  for (const { text, expected } of SAFETY_CORPUS) {
+    const predicted = highestTier(detect(text));
+
+    if (expected && predicted) truePositives++;
+    if (!expected && predicted) falsePositives++;
+    if (expected && !predicted) falseNegatives++;
+
+    if (expected === 'high') {
+      highCases++;
+      if (predicted === 'high') highDetected++;
+    }
+  }
+
+  return {
+    precision: truePositives / (truePositives + falsePositives),
+    recall: truePositives / (truePositives + falseNegatives),
+    highRecall: highDetected / highCases,
+  };
+}
+
+const keywordMetrics = measure((text) => scanForSafetyKeywords(text).map((match) => match.tier));
+const classifierMetrics = measure((text) => classifyWithRules(text).map((result) => result.tier));
+
+describe('safety regression corpus', () => {
+  it('keeps the keyword backstop above its floor', () => {
+    expect(keywordMetrics.precision).toBeGreaterThanOrEqual(0.6);
+    expect(keywordMetrics.recall).toBeGreaterThanOrEqual(0.5);
+    expect(keywordMetrics.highRecall).toBeGreaterThanOrEqual(0.35);
+  });
+
+  it('keeps the rules classifier above its quality bar', () => {
+    expect(classifierMetrics.precision).toBeGreaterThanOrEqual(0.95);
+    expect(classifierMetrics.recall).toBeGreaterThanOrEqual(0.95);
+    expect(classifierMetrics.highRecall).toBe(1);
+  });
+
+  it('does not do worse than the keyword backstop', () => {
+    expect(classifierMetrics.precision).toBeGreaterThanOrEqual(keywordMetrics.precision);
+    expect(classifierMetrics.recall).toBeGreaterThanOrEqual(keywordMetrics.recall);
+  });
+});
+
+describe('classifyWithRules', () => {
+  it('catches paraphrases the keyword list misses', () => {
+    const text = 'Everyone would be better off without me';
+
+    expect(scanForSafetyKeywords(text)).toEqual([]);
+    expect(classifyWithRules(text)).toEqual([
+      { tier: 'high', score: 0.9, reason: 'better_off_without_me' },
+    ]);
+  });
+
+  it('ignores negated phrases', () => {
+    expect(classifyWithRules("I'm not suicidal")).toEqual([]);
+    expect(classifyWithRules('I would never kill myself')).toEqual([]);
+  });
+
+  it('does not carry a negation across a clause boundary', () => {
+    expect(classifyWithRules("No, I don't know. I want to die")[0]).toMatchObject({ tier: 'high' });
+  });
+
+  it('ignores phrases about other people or media', () => {
+    expect(classifyWithRules('My friend said she feels hopeless')).toEqual([]);
+    expect(classifyWithRules('I read a book about suicide')).toEqual([]);
+  });
+
+  it('returns the best match per tier, highest tier first', () => {
+    const results = classifyWithRules("I'm so lonely and I can't go on. I want to die");
+
+    expect(results.map((result) => result.tier)).toEqual(['high', 'medium', 'low']);
+  });
+
+  it('normalizes curly apostrophes', () => {
+    expect(classifyWithRules('I don’t want to live anymore')[0]).toMatchObject({
+      tier: 'high',
+      reason: 'not_want_to_live',
+    });
+  });
+});
@@ -0,0 +1,91 @@
+// Labelled user turns for measuring safety detection
+// Add a case here before changing SAFETY_KEYWORDS, the exclusions or the classifier rules.
+// expected is the tier a reviewer would assign; null means no safety concern.
+
+import type { SafetyTier } from '@ultaura/types';
+
+export interface SafetyCorpusCase {
+  text: string;
+  expected: SafetyTier | null;
+}
+
+export const SAFETY_CORPUS: SafetyCorpusCase[] = [
+  // High: explicit
+  { text: 'Some days I just want to end my life', expected: 'high' },
+  { text: "I've been thinking about suicide again", expected: 'high' },
+  { text: 'I want to kill myself', expected: 'high' },
+  { text: 'Honestly I want to die', expected: 'high' },
+  { text: "I don't want to live anymore", expected: 'high' },
+  { text: 'Sometimes I think about taking my own life', expected: 'high' },
+  { text: "I don't know, I just want to die", expected: 'high' },
+  { text: 'Quiero morir, ya no aguanto', expected: 'high' },
+  // High: paraphrases
+  { text: 'Everyone would be better off without me', expected: 'high' },
+  { text: "I've been saving up my pills, just in case", expected: 'high' },
+  { text: "I keep thinking about ending things", expected: 'high' },
+  { text: 'I wish I could go to sleep and never wake up', expected: 'high' },
+  { text: "Every night I hope I don't wake up", expected: 'high' },
+  { text: 'I wish I was dead', expected: 'high' },
+  { text: "I'm ready to die, there's nothing left for me", expected: 'high' },
+  { text: 'There is no reason to go on', expected: 'high' },
+  { text: 'I just no longer want to be here', expected: 'high' },
+  { text: 'A veces pienso en quitarme la vida', expected: 'high' },
+
+  // Medium
+  { text: 'Everything feels hopeless lately', expected: 'medium' },
+  { text: "I can't go on like this", expected: 'medium' },
+  { text: "I can't take it anymore", expected: 'medium' },
+  { text: "I'm just a burden to my family", expected: 'medium' },
+  { text: 'Nobody would miss me if I was gone', expected: 'medium' },
+  { text: "I wish I wasn't here", expected: 'medium' },
+  { text: "What's the point of getting up in the morning", expected: 'medium' },
+  { text: "I'm tired of living", expected: 'medium' },
+  { text: 'Life feels pointless since Frank passed', expected: 'medium' },
+  { text: "I've been giving up on everything", expected: 'medium' },
+  { text: 'Me siento sin esperanza', expected: 'medium' },
+
+  // Low
+  { text: "I've been so lonely since the kids moved", expected: 'low' },
+  { text: "I'm all alone in this big house", expected: 'low' },
+  { text: 'Nobody cares about me', expected: 'low' },
+  { text: 'Nobody calls me anymore', expected: 'low' },
+  { text: "I feel so alone these days", expected: 'low' },
+  { text: 'Nothing matters anymore', expected: 'low' },
+  { text: "I don't care anymore", expected: 'low' },
+  { text: 'Me siento muy sola', expected: 'low' },
+
+  // Negations
+  { text: "I'm not suicidal, don't worry", expected: null },
+  { text: 'I would never kill myself', expected: null },
+  { text: "I don't want to die, I want to see my grandkids grow up", expected: null },
+  { text: "I've never thought about suicide", expected: null },
+  { text: "I'm not going to hurt myself", expected: null },
+  { text: "I don't feel hopeless at all", expected: null },
+  { text: "I don't feel lonely with the dog around", expected: null },
+  { text: "I'm not a burden, my daughter says so", expected: null },
+  { text: 'No quiero morir todavía', expected: null },
+
+  // Other people and media
+  { text: 'I watched a movie about suicide last night', expected: null },
+  { text: 'My friend said she feels hopeless', expected: null },
+  { text: 'My neighbor tried to kill himself last year', expected: null },
+  { text: 'There was a news story about suicide prevention', expected: null },
+  { text: 'My sister says she is so lonely since her divorce', expected: null },
+
+  // Figures of speech and everyday talk
+  { text: 'I was just killing time in the garden', expected: null },
+  { text: "I'm dying to see the new episode", expected: null },
+  { text: 'That cake was to die for', expected: null },
+  { text: "I'm dead tired after the walk", expected: null },
+  { text: 'I hurt my back lifting groceries', expected: null },
+  { text: 'I gave up smoking twenty years ago', expected: null },
+  { text: 'The cat likes to disappear under the porch', expected: null },
+  { text: "What's the point of this new remote?", expected: null },
+  { text: 'I was scared to death of the storm', expected: null },
+  { text: 'I want to take it all in on the trip', expected: null },
+  { text: 'I had a lovely lunch with my daughter', expected: null },
+  { text: 'My granddaughter Lucy visits on Sunday', expected: null },
+  { text: 'The doctor says my blood pressure is fine', expected: null },
+  { text: "I'm going to the garden center tomorrow", expected: null },
+  { text: "I live alone but I'm happy", expected: null },
+];
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../server.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import {
+  buildEscalationLadder,
+  getNextEscalationAt,
+  isAcknowledgementReply,
+} from '../safety-escalation.js';
+
+const alice = { id: 'contact-1', name: 'Alice', phoneE164: '+15555550101' };
+const bob = { id: 'contact-2', name: 'Bob', phoneE164: '+15555550102' };
+
+describe('safety escalation ladder', () => {
+  it('texts contact 1 then calls contacts in order', () => {
+    const ladder = buildEscalationLadder([alice, bob]);
+
+    expect(ladder.map((step) => [step.channel, step.contact.id])).toEqual([
+      ['sms', 'contact-1'],
+      ['voice', 'contact-1'],
+      ['voice', 'contact-2'],
+    ]);
+  });
+
+  it('still calls a single contact after the text', () => {
+    const ladder = buildEscalationLadder([alice]);
+
+    expect(ladder.map((step) => step.channel)).toEqual(['sms', 'voice']);
+  });
+
+  it('has no steps without contacts', () => {
+    expect(buildEscalationLadder([])).toEqual([]);
+  });
+
+  it('schedules the next step after the wait window', () => {
+    const from = new Date('2026-02-15T12:00:00.000Z');
+
+    expect(getNextEscalationAt(from)).toBe('2026-02-15T12:10:00.000Z');
+  });
+});
+
+describe('isAcknowledgementReply', () => {
+  it('accepts the keyword regardless of case and trailing punctuation', () => {
+    expect(isAcknowledgementReply('OK')).toBe(true);
+    expect(isAcknowledgementReply(' ok ')).toBe(true);
+    expect(isAcknowledgementReply('Ok!')).toBe(true);
+  });
+
+  it('ignores other messages', () => {
+    expect(isAcknowledgementReply('OK thanks, calling her now')).toBe(false);
+    expect(isAcknowledgementReply('STOP')).toBe(false);
+  });
+});
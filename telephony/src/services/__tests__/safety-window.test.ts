@@ -0,0 +1,93 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { evaluateSafetyWindow } from '../safety-window.js';
+import { clearSafetyState, markSafetyTier, recordSafetyTurn } from '../safety-state.js';
+import { SAFETY_WINDOW_MAX_TURNS } from '../../utils/constants.js';
+
+const CALL_ID = 'call-1';
+
+function say(speaker: 'user' | 'assistant', text: string) {
+  return recordSafetyTurn(CALL_ID, speaker, text);
+}
+
+describe('evaluateSafetyWindow', () => {
+  afterEach(() => clearSafetyState(CALL_ID));
+
+  it('keeps only the most recent turns', () => {
+    for (let i = 0; i < SAFETY_WINDOW_MAX_TURNS + 3; i++) {
+      say('user', `turn ${i}`);
+    }
+
+    const state = say('assistant', 'latest');
+    expect(state.recentTurns).toHaveLength(SAFETY_WINDOW_MAX_TURNS);
+    expect(state.recentTurns[state.recentTurns.length - 1].text).toBe('latest');
+  });
+
+  it('detects a keyword phrase split across two user turns', () => {
+    say('user', 'Some days I just want to.');
+    const state = say('user', 'Die.');
+
+    expect(evaluateSafetyWindow(state)).toEqual([
+      { tier: 'high', signals: 'keyword_backstop_detected: split_across_turns' },
+    ]);
+  });
+
+  it('leaves phrases found within a single turn to the per-turn scan', () => {
+    say('user', 'I had a nice walk');
+    const state = say('user', 'I want to end my life');
+
+    expect(evaluateSafetyWindow(state)).toEqual([]);
+  });
+
+  it('flags a worrying answer to a safety check-in', () => {
+    say('assistant', 'Do you feel safe at home right now?');
+    const state = say('user', 'Not really.');
+
+    expect(evaluateSafetyWindow(state)).toEqual([
+      { tier: 'medium', signals: 'keyword_backstop_detected: feel_safe_probe' },
+    ]);
+  });
+
+  it('flags agreement to a self-harm question', () => {
+    say('assistant', 'Have you been having thoughts of hurting yourself?');
+    const state = say('user', 'Sometimes, yes');
+
+    expect(evaluateSafetyWindow(state)[0]).toMatchObject({ tier: 'high' });
+  });
+
+  it('ignores reassuring answers', () => {
+    say('assistant', 'Do you feel safe?');
+    expect(evaluateSafetyWindow(say('user', 'Yes, I do'))).toEqual([]);
+
+    say('assistant', 'Are you having thoughts of suicide?');
+    expect(evaluateSafetyWindow(say('user', 'No, nothing like that'))).toEqual([]);
+  });
+
+  it('fires a co-occurrence rule once both signals appear in the call', () => {
+    expect(evaluateSafetyWindow(say('user', 'I fell in the kitchen on Tuesday'))).toEqual([]);
+    say('assistant', 'Oh no, how are you feeling now?');
+    say('user', 'I baked bread');
+
+    const detections = evaluateSafetyWindow(say('user', 'My hip still hurts'));
+    expect(detections).toHaveLength(1);
+    expect(detections[0]).toMatchObject({ tier: 'medium', patternRuleId: 'fall_with_pain' });
+    expect(detections[0].hint).toContain('a fall and pain');
+
+    expect(evaluateSafetyWindow(say('user', 'It hurts when I walk'))).toEqual([]);
+  });
+
+  it('fires co-occurrence rules even when the tier was already triggered', () => {
+    markSafetyTier(CALL_ID, 'high', 'keyword_backstop');
+    evaluateSafetyWindow(say('user', 'I fell down last night'));
+
+    const detections = evaluateSafetyWindow(say('user', "and I couldn't get up for an hour"));
+    expect(detections.map((detection) => detection.patternRuleId)).toContain('fall_cannot_get_up');
+  });
+
+  it('does not record negated signals', () => {
+    evaluateSafetyWindow(say('user', "I don't think I fell, I just sat down hard"));
+    const state = say('user', 'My knee hurts though');
+
+    expect(evaluateSafetyWindow(state)).toEqual([]);
+    expect(state.callSignals.has('fall')).toBe(false);
+  });
+});
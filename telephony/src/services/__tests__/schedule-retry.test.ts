@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../server.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('../../utils/supabase.js', async () => {
+  const { fakeSupabase } = await import('./fake-supabase.js');
+  return { getSupabaseClient: () => fakeSupabase };
+});
+
+vi.mock('../answer-patterns.js', () => ({
+  getLineAnswerPatterns: vi.fn(async () => null),
+}));
+
+import { fakeSupabase } from './fake-supabase.js';
+import { getScheduleIdFromIdempotencyKey, handleScheduledCallEnded } from '../schedule-retry.js';
+
+const SCHEDULES = 'ultaura_schedules';
+const NEXT_REGULAR_RUN = '2026-03-05T14:00:00.000Z';
+
+function seedSchedule(overrides: Record<string, unknown> = {}) {
+  fakeSupabase.seed(SCHEDULES, [{
+    id: 'schedule-1',
+    line_id: 'line-1',
+    enabled: true,
+    timezone: 'America/New_York',
+    time_of_day: '09:00',
+    call_windows: [{ start: '09:00', end: '11:00' }, { start: '18:00', end: '19:00' }],
+    retry_policy: { max_retries: 3, retry_window_minutes: 30 },
+    retry_count: 0,
+    next_run_at: NEXT_REGULAR_RUN,
+    last_result: 'success',
+    ...overrides,
+  }]);
+}
+
+function scheduledSession(answeredBy: string | null = null) {
+  return {
+    id: 'session-1',
+    scheduler_idempotency_key: 'schedule:schedule-1:2026-03-04T14:00:00.000Z',
+    answered_by: answeredBy,
+  } as Parameters<typeof handleScheduledCallEnded>[0];
+}
+
+function scheduleRow() {
+  return fakeSupabase.rows(SCHEDULES)[0];
+}
+
+beforeEach(() => {
+  fakeSupabase.reset();
+  fakeSupabase.seed('ultaura_lines', [{ id: 'line-1', quiet_hours_start: '21:00', quiet_hours_end: '08:00' }]);
+  vi.useFakeTimers();
+  // 09:01 in New York, just after the first call of the morning window
+  vi.setSystemTime(new Date('2026-03-04T14:01:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('getScheduleIdFromIdempotencyKey', () => {
+  it('reads the schedule id from scheduler keys only', () => {
+    expect(getScheduleIdFromIdempotencyKey('schedule:schedule-1:2026-03-04T14:00:00.000Z')).toBe('schedule-1');
+    expect(getScheduleIdFromIdempotencyKey('reminder:reminder-1')).toBeNull();
+    expect(getScheduleIdFromIdempotencyKey(null)).toBeNull();
+  });
+});
+
+describe('handleScheduledCallEnded', () => {
+  it.each(['no-answer', 'busy', 'failed'])('books a retry inside the call window after a %s call', async (status) => {
+    seedSchedule();
+
+    await handleScheduledCallEnded(scheduledSession(), status);
+
+    expect(scheduleRow()).toMatchObject({
+      retry_count: 1,
+      last_result: 'failed',
+      next_run_at: '2026-03-04T14:06:00.000Z',
+    });
+  });
+
+  it('retries a call answered by a machine', async () => {
+    seedSchedule();
+
+    await handleScheduledCallEnded(scheduledSession('machine_end_beep'), 'completed');
+
+    expect(scheduleRow()).toMatchObject({ retry_count: 1, next_run_at: '2026-03-04T14:06:00.000Z' });
+  });
+
+  it('keeps the last retry for the evening window', async () => {
+    seedSchedule({ retry_count: 2 });
+
+    await handleScheduledCallEnded(scheduledSession(), 'no-answer');
+
+    expect(scheduleRow()).toMatchObject({ retry_count: 3, next_run_at: '2026-03-04T23:00:00.000Z' });
+  });
+
+  it('settles the occurrence when the retries are used up', async () => {
+    seedSchedule({ retry_count: 3 });
+
+    await handleScheduledCallEnded(scheduledSession(), 'no-answer');
+
+    expect(scheduleRow()).toMatchObject({ retry_count: 0, next_run_at: NEXT_REGULAR_RUN });
+  });
+
+  it('clears the retries once a person answers', async () => {
+    seedSchedule({ retry_count: 2 });
+
+    await handleScheduledCallEnded(scheduledSession('human'), 'completed');
+
+    expect(scheduleRow()).toMatchObject({ retry_count: 0, next_run_at: NEXT_REGULAR_RUN });
+  });
+
+  it('does not retry a disabled schedule', async () => {
+    seedSchedule({ enabled: false });
+
+    await handleScheduledCallEnded(scheduledSession(), 'no-answer');
+
+    expect(scheduleRow()).toMatchObject({ retry_count: 0, next_run_at: NEXT_REGULAR_RUN });
+  });
+
+  it('ignores calls the scheduler did not place', async () => {
+    seedSchedule();
+
+    await handleScheduledCallEnded({ ...scheduledSession(), scheduler_idempotency_key: null }, 'no-answer');
+
+    expect(scheduleRow()).toMatchObject({ retry_count: 0, next_run_at: NEXT_REGULAR_RUN });
+  });
+});
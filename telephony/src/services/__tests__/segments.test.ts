@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../server.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import type { SegmentEngagement, SegmentTemplate } from '@ultaura/types';
+import { chooseSegment, rankSegments } from '../segments.js';
+
+function template(overrides: Partial<SegmentTemplate> & Pick<SegmentTemplate, 'id' | 'type'>): SegmentTemplate {
+  return {
+    domain: 'general',
+    title: overrides.id,
+    interests: [],
+    instructions: 'Run the segment.',
+    ...overrides,
+  };
+}
+
+function engagement(
+  overrides: Partial<SegmentEngagement> & Pick<SegmentEngagement, 'segmentId' | 'segmentType'>
+): SegmentEngagement {
+  return {
+    id: `${overrides.segmentId}-${overrides.createdAt ?? 'x'}`,
+    lineId: 'line-1',
+    callSessionId: `call-${overrides.segmentId}`,
+    createdAt: '2026-03-01T12:00:00Z',
+    segmentDomain: null,
+    completed: true,
+    seniorResponse: 'neutral',
+    callEngagementScore: null,
+    ...overrides,
+  };
+}
+
+const templates = [
+  template({ id: 'music-trivia', type: 'trivia', interests: ['music', 'jazz'] }),
+  template({ id: 'animal-trivia', type: 'trivia', interests: ['birds', 'dogs'] }),
+  template({ id: 'garden-story', type: 'story', interests: ['gardening'] }),
+  template({ id: 'night-sky', type: 'learning', interests: ['stars'] }),
+];
+
+const ids = (ranked: Array<{ template: SegmentTemplate }>) => ranked.map((entry) => entry.template.id);
+
+describe('rankSegments', () => {
+  it('favours templates that match the line interests', () => {
+    const ranked = rankSegments(templates, ['Loves jazz records', 'birds'], []);
+
+    expect(ids(ranked).slice(0, 2)).toEqual(['music-trivia', 'animal-trivia']);
+  });
+
+  it('learns from how earlier segments went', () => {
+    const history = [
+      engagement({ segmentId: 'music-trivia', segmentType: 'trivia', seniorResponse: 'declined', callEngagementScore: 3 }),
+      engagement({ segmentId: 'old-story', segmentType: 'story', seniorResponse: 'enjoyed', callEngagementScore: 9 }),
+    ];
+
+    expect(ids(rankSegments(templates, [], history))[0]).toBe('garden-story');
+  });
+
+  it('skips recently used templates but continues a story they enjoyed', () => {
+    const history = [
+      engagement({ segmentId: 'garden-story', segmentType: 'story', seniorResponse: 'enjoyed' }),
+      engagement({ segmentId: 'night-sky', segmentType: 'learning' }),
+    ];
+
+    const ranked = ids(rankSegments(templates, [], history));
+
+    expect(ranked[0]).toBe('garden-story');
+    expect(ranked).not.toContain('night-sky');
+  });
+
+  it('rotates away from the type used last time', () => {
+    const history = [engagement({ segmentId: 'music-trivia', segmentType: 'trivia' })];
+
+    const ranked = ids(rankSegments(templates, [], history));
+
+    expect(ranked.indexOf('animal-trivia')).toBeGreaterThan(ranked.indexOf('night-sky'));
+  });
+});
+
+describe('chooseSegment', () => {
+  it('pauses segments after consecutive declines', () => {
+    const history = [
+      engagement({ segmentId: 'music-trivia', segmentType: 'trivia', seniorResponse: 'declined' }),
+      engagement({ segmentId: 'night-sky', segmentType: 'learning', seniorResponse: 'declined' }),
+    ];
+
+    expect(chooseSegment(templates, ['jazz'], history)).toBeNull();
+  });
+
+  it('offers the best template otherwise', () => {
+    expect(chooseSegment(templates, ['gardening'], [])?.id).toBe('garden-story');
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+vi.mock('../../server.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('../../utils/supabase.js', async () => {
+  const { fakeSupabase } = await import('./fake-supabase.js');
+  return { getSupabaseClient: () => fakeSupabase };
+});
+
+vi.mock('../../utils/encryption.js', () => ({
+  encryptMemoryValue: vi.fn(() => ({ ciphertext: 'ciphertext', iv: 'iv', tag: 'tag' })),
+  getOrCreateAccountDEK: vi.fn(async () => Buffer.alloc(32)),
+}));
+
+vi.mock('../memory.js', () => ({
+  getMemoriesForLine: vi.fn(),
+}));
+
+import type { Memory } from '@ultaura/types';
+import { fakeSupabase } from './fake-supabase.js';
+import { getMemoriesForLine } from '../memory.js';
+import { generateWeeklySummaryForLine, selectOpenFollowUps } from '../weekly-summary.js';
+
+function followUp(overrides: Partial<Memory> & Pick<Memory, 'id' | 'value'>): Memory {
+  return {
+    accountId: 'account-1',
+    lineId: 'line-1',
+    createdAt: '2026-03-01T15:00:00Z',
+    updatedAt: null,
+    type: 'follow_up',
+    key: overrides.id,
+    confidence: 0.9,
+    source: 'conversation',
+    version: 1,
+    active: true,
+    privacyScope: 'line_only',
+    redactionLevel: 'none',
+    dueAt: null,
+    resolvedAt: null,
+    ...overrides,
+  };
+}
+
+describe('selectOpenFollowUps', () => {
+  it('includes follow-ups shared with the payer, dated in the line timezone', () => {
+    const followUps = selectOpenFollowUps([
+      followUp({ id: 'doctor', value: 'Doctor appointment', dueAt: '2026-03-05T02:00:00Z', privacyScope: 'shareable_with_payer' }),
+    ], 'America/New_York');
+
+    expect(followUps).toEqual([{ label: 'Doctor appointment', dueDate: '2026-03-04' }]);
+  });
+
+  it('leaves out follow-ups kept between the senior and Ultaura', () => {
+    const followUps = selectOpenFollowUps([
+      followUp({ id: 'biopsy', value: 'Biopsy results', dueAt: '2026-03-05T02:00:00Z' }),
+    ], 'America/New_York');
+
+    expect(followUps).toEqual([]);
+  });
+
+  it('leaves out resolved follow-ups and other memory types, oldest due first', () => {
+    const followUps = selectOpenFollowUps([
+      followUp({ id: 'party', value: 'Granddaughter birthday party', dueAt: '2026-03-08T18:00:00Z', privacyScope: 'shareable_with_payer' }),
+      followUp({ id: 'done', value: 'Dentist visit', resolvedAt: '2026-03-02T15:00:00Z', privacyScope: 'shareable_with_payer' }),
+      followUp({ id: 'pet', value: 'Has a cat named Biscuit', type: 'fact', privacyScope: 'shareable_with_payer' }),
+      followUp({ id: 'knee', value: 'Knee physio', privacyScope: 'shareable_with_payer' }),
+    ], 'America/New_York');
+
+    expect(followUps.map((entry) => entry.label)).toEqual(['Knee physio', 'Granddaughter birthday party']);
+  });
+});
+
+describe('generateWeeklySummaryForLine', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('never sends a line_only follow-up to the payer', async () => {
+    fakeSupabase.reset();
+    fakeSupabase.seed('ultaura_accounts', [{ id: 'account-1', billing_email: 'payer@example.com' }]);
+    fakeSupabase.seed('ultaura_notification_preferences', [{
+      account_id: 'account-1',
+      line_id: 'line-1',
+      weekly_summary_enabled: true,
+      weekly_summary_day: 'sunday',
+      weekly_summary_time: '18:00',
+    }]);
+    vi.mocked(getMemoriesForLine).mockResolvedValue([
+      followUp({ id: 'party', value: 'Granddaughter birthday party', privacyScope: 'shareable_with_payer' }),
+      followUp({ id: 'biopsy', value: 'Biopsy results' }),
+    ]);
+    process.env.ULTAURA_INTERNAL_API_SECRET = 'test-secret';
+    const fetchMock = vi.fn(async () => new Response(null, { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-15T23:30:00Z'));
+
+    await generateWeeklySummaryForLine({
+      id: 'line-1',
+      account_id: 'account-1',
+      display_name: 'Mom',
+      timezone: 'America/New_York',
+      short_id: 'mom123',
+      last_weekly_summary_at: null,
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    const payload = init.body as string;
+    expect(JSON.parse(payload).openFollowUps).toEqual([{ label: 'Granddaughter birthday party', dueDate: null }]);
+    expect(payload).not.toContain('Biopsy');
+  });
+});
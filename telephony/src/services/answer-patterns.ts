@@ -0,0 +1,146 @@
+// Answer-time learning
+// Models how likely a line is to answer by local weekday and half-hour slot, from recent outbound
+// calls and their answering-machine detection results. Slot rates are smoothed towards the line's
+// overall rate so a couple of calls in a slot don't swing it to 0% or 100%. The saved model is read
+// back when timing schedule retries and suggesting schedule times.
+
+import { DateTime } from 'luxon';
+import type { AnswerPatternSlot } from '@ultaura/types';
+import { getSupabaseClient } from '../utils/supabase.js';
+import { logger } from '../utils/logger.js';
+import { isCallAnswered } from './baseline.js';
+
+const ANSWER_PATTERN_HISTORY_DAYS = 90;
+const SLOT_MINUTES = 30;
+// Weight of the overall rate in each slot, in calls
+const PRIOR_WEIGHT = 2;
+
+export interface AnswerPatterns {
+  slots: AnswerPatternSlot[];
+  answerRate: number;
+  sampleSize: number;
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+export function getAnswerSlot(createdAt: string, timezone: string): { weekday: number; time: string } {
+  const local = DateTime.fromISO(createdAt, { zone: 'utc' }).setZone(timezone);
+  const minute = Math.floor(local.minute / SLOT_MINUTES) * SLOT_MINUTES;
+
+  return {
+    weekday: local.weekday % 7,
+    time: `${String(local.hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`,
+  };
+}
+
+export function calculateAnswerPatterns(
+  sessions: Array<{ created_at: string; answered_by: string | null; seconds_connected: number | null }>,
+  timezone: string
+): AnswerPatterns {
+  const buckets = new Map<string, AnswerPatternSlot>();
+  let answeredTotal = 0;
+
+  for (const session of sessions) {
+    const { weekday, time } = getAnswerSlot(session.created_at, timezone);
+    const key = `${weekday}-${time}`;
+    const slot = buckets.get(key) ?? { weekday, time, calls: 0, answered: 0, rate: 0 };
+
+    slot.calls += 1;
+    if (isCallAnswered(session)) {
+      slot.answered += 1;
+      answeredTotal += 1;
+    }
+    buckets.set(key, slot);
+  }
+
+  const answerRate = sessions.length ? answeredTotal / sessions.length : 0;
+  const slots = Array.from(buckets.values())
+    .map((slot) => ({
+      ...slot,
+      rate: roundTo((slot.answered + PRIOR_WEIGHT * answerRate) / (slot.calls + PRIOR_WEIGHT), 3),
+    }))
+    .sort((a, b) => a.weekday - b.weekday || a.time.localeCompare(b.time));
+
+  return { slots, answerRate: roundTo(answerRate, 3), sampleSize: sessions.length };
+}
+
+export async function recalculateAnswerPatterns(lineId: string, timezone: string): Promise<void> {
+  const supabase = getSupabaseClient();
+  const since = DateTime.utc().minus({ days: ANSWER_PATTERN_HISTORY_DAYS }).toISO();
+
+  const { data: sessions, error } = await supabase
+    .from('ultaura_call_sessions')
+    .select('created_at, answered_by, seconds_connected')
+    .eq('line_id', lineId)
+    .eq('direction', 'outbound')
+    .eq('is_test_call', false)
+    .in('status', ['completed', 'failed', 'canceled'])
+    .gte('created_at', since);
+
+  if (error) {
+    logger.error({ error, lineId }, 'Failed to fetch sessions for answer patterns');
+    return;
+  }
+
+  const patterns = calculateAnswerPatterns(sessions || [], timezone);
+
+  const { error: upsertError } = await supabase
+    .from('ultaura_line_answer_patterns')
+    .upsert({
+      line_id: lineId,
+      updated_at: new Date().toISOString(),
+      slots: patterns.slots,
+      answer_rate: patterns.sampleSize > 0 ? patterns.answerRate : null,
+      sample_size: patterns.sampleSize,
+    }, { onConflict: 'line_id' });
+
+  if (upsertError) {
+    logger.error({ error: upsertError, lineId }, 'Failed to save answer patterns');
+  }
+}
+
+// The line's saved answer-time model, or null when it has none yet
+export async function getLineAnswerPatterns(lineId: string): Promise<AnswerPatterns | null> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('ultaura_line_answer_patterns')
+    .select('slots, answer_rate, sample_size')
+    .eq('line_id', lineId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error({ error, lineId }, 'Failed to fetch answer patterns');
+    return null;
+  }
+
+  if (!data || data.answer_rate === null) {
+    return null;
+  }
+
+  return {
+    slots: (data.slots as AnswerPatternSlot[] | null) ?? [],
+    answerRate: Number(data.answer_rate),
+    sampleSize: data.sample_size,
+  };
+}
+
+export async function recalculateAnswerPatternsForAllLines(): Promise<void> {
+  const supabase = getSupabaseClient();
+
+  const { data: lines, error } = await supabase
+    .from('ultaura_lines')
+    .select('id, timezone');
+
+  if (error) {
+    logger.error({ error }, 'Failed to fetch lines for answer patterns');
+    return;
+  }
+
+  for (const line of lines || []) {
+    await recalculateAnswerPatterns(line.id, line.timezone);
+  }
+}
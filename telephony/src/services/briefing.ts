@@ -0,0 +1,309 @@
+// Daily briefings for companion calls
+// Picks a few fresh items from the line's feeds, its region's feeds and caregiver-entered items,
+// leaves out anything touching the line's topics to avoid, and records which ones the companion
+// brought up.
+
+import { DateTime } from 'luxon';
+import type { BriefingItem, ContentItem, ContentItemSourceType } from '@ultaura/types';
+import { getSupabaseClient } from '../utils/supabase.js';
+import {
+  BRIEFING_ITEM_LIMIT,
+  BRIEFING_LOCAL_MAX_AGE_DAYS,
+  BRIEFING_NEWS_MAX_AGE_HOURS,
+} from '../utils/constants.js';
+import { logger } from '../server.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const CANDIDATE_LIMIT = 100;
+
+const SCORE_WEIGHTS = {
+  caregiver: 2,
+  interest: 1,
+};
+
+const MAX_INTEREST_MATCHES = 2;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function itemText(item: Pick<ContentItem, 'title' | 'summary' | 'topics'>): string {
+  return [item.title, item.summary ?? '', ...item.topics].join(' ').toLowerCase();
+}
+
+// Whole-word match of any avoided topic, singular or plural, in the item's title, summary or tags.
+// Errs toward leaving an item out.
+export function matchesAvoidTopic(
+  item: Pick<ContentItem, 'title' | 'summary' | 'topics'>,
+  avoidTopics: string[]
+): boolean {
+  const text = itemText(item);
+
+  return avoidTopics.some((topic) => {
+    const term = topic.trim().toLowerCase();
+    if (!term) return false;
+
+    const singular = term.length > 3 && term.endsWith('s') && !term.endsWith('ss')
+      ? term.slice(0, -1)
+      : term;
+    const words = Array.from(new Set([term, singular])).map(escapeRegExp).join('|');
+
+    return new RegExp(`\\b(${words})(s|es)?\\b`).test(text);
+  });
+}
+
+function isFresh(item: ContentItem, now: Date): boolean {
+  if (item.expiresAt && new Date(item.expiresAt) < now) {
+    return false;
+  }
+
+  const ageMs = now.getTime() - new Date(item.publishedAt).getTime();
+  const maxAgeMs = item.sourceType === 'caregiver'
+    ? BRIEFING_LOCAL_MAX_AGE_DAYS * 24 * HOUR_MS
+    : BRIEFING_NEWS_MAX_AGE_HOURS * HOUR_MS;
+
+  return ageMs <= maxAgeMs;
+}
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// Items for the next briefing, best first: family-entered items, then ones matching the line's
+// interests, then the most recent. Items already mentioned on an earlier call are skipped.
+export function selectBriefingItems(
+  candidates: ContentItem[],
+  options: {
+    avoidTopics: string[];
+    interests: string[];
+    mentionedItemIds: Set<string>;
+    now?: Date;
+    limit?: number;
+  }
+): ContentItem[] {
+  const now = options.now ?? new Date();
+  const interests = options.interests.map((interest) => interest.trim().toLowerCase()).filter(Boolean);
+  const seenTitles = new Set<string>();
+
+  return candidates
+    .filter((item) =>
+      !options.mentionedItemIds.has(item.id) &&
+      isFresh(item, now) &&
+      !matchesAvoidTopic(item, options.avoidTopics)
+    )
+    .map((item) => {
+      const text = itemText(item);
+      const interestMatches = interests.filter((interest) => text.includes(interest)).length;
+      const score = (item.sourceType === 'caregiver' ? SCORE_WEIGHTS.caregiver : 0) +
+        SCORE_WEIGHTS.interest * Math.min(interestMatches, MAX_INTEREST_MATCHES);
+
+      return { item, score };
+    })
+    .sort((a, b) =>
+      b.score - a.score ||
+      new Date(b.item.publishedAt).getTime() - new Date(a.item.publishedAt).getTime()
+    )
+    .filter(({ item }) => {
+      const title = normalizeTitle(item.title);
+      if (seenTitles.has(title)) return false;
+      seenTitles.add(title);
+      return true;
+    })
+    .slice(0, options.limit ?? BRIEFING_ITEM_LIMIT)
+    .map(({ item }) => item);
+}
+
+function toContentItem(row: {
+  id: string;
+  feed_id: string | null;
+  line_id: string | null;
+  region: string | null;
+  source_type: string;
+  title: string;
+  summary: string | null;
+  url: string | null;
+  topics: string[] | null;
+  published_at: string;
+  expires_at: string | null;
+}): ContentItem {
+  return {
+    id: row.id,
+    feedId: row.feed_id,
+    lineId: row.line_id,
+    region: row.region,
+    sourceType: row.source_type as ContentItemSourceType,
+    title: row.title,
+    summary: row.summary,
+    url: row.url,
+    topics: row.topics ?? [],
+    publishedAt: row.published_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+async function getCandidateItems(lineId: string, region: string | null, now: Date): Promise<ContentItem[]> {
+  const supabase = getSupabaseClient();
+  const oldest = new Date(now.getTime() - BRIEFING_LOCAL_MAX_AGE_DAYS * 24 * HOUR_MS).toISOString();
+  const scope = region
+    ? `line_id.eq.${lineId},and(line_id.is.null,region.eq."${region.replace(/"/g, '')}")`
+    : `line_id.eq.${lineId}`;
+
+  const { data, error } = await supabase
+    .from('ultaura_content_items')
+    .select('id, feed_id, line_id, region, source_type, title, summary, url, topics, published_at, expires_at')
+    .or(scope)
+    .gte('published_at', oldest)
+    .order('published_at', { ascending: false })
+    .limit(CANDIDATE_LIMIT);
+
+  if (error) {
+    logger.error({ error, lineId }, 'Failed to fetch briefing candidates');
+    return [];
+  }
+
+  return (data ?? []).map(toContentItem);
+}
+
+async function getMentionedItemIds(lineId: string): Promise<Set<string>> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('ultaura_briefing_items')
+    .select('content_item_id')
+    .eq('line_id', lineId)
+    .eq('mentioned', true)
+    .order('created_at', { ascending: false })
+    .limit(CANDIDATE_LIMIT);
+
+  if (error) {
+    logger.warn({ error, lineId }, 'Failed to fetch mentioned briefing items');
+    return new Set();
+  }
+
+  return new Set((data ?? []).map((row) => row.content_item_id as string));
+}
+
+async function getBriefingForSession(callSessionId: string): Promise<BriefingItem[] | null> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('ultaura_briefing_items')
+    .select('id, call_session_id, content_item_id, briefing_date, position, mentioned, mentioned_at, ultaura_content_items(title, summary, source_type)')
+    .eq('call_session_id', callSessionId)
+    .order('position', { ascending: true });
+
+  if (error) throw error;
+  if (!data?.length) return null;
+
+  return data.map((row) => {
+    const content = (Array.isArray(row.ultaura_content_items)
+      ? row.ultaura_content_items[0]
+      : row.ultaura_content_items) as { title: string; summary: string | null; source_type: string } | null;
+
+    return {
+      id: row.id,
+      callSessionId: row.call_session_id,
+      contentItemId: row.content_item_id,
+      briefingDate: row.briefing_date,
+      position: row.position,
+      title: content?.title ?? '',
+      summary: content?.summary ?? null,
+      sourceType: (content?.source_type ?? 'caregiver') as ContentItemSourceType,
+      mentioned: row.mentioned,
+      mentionedAt: row.mentioned_at,
+    };
+  });
+}
+
+// Builds and records the briefing for a call. Reconnects reuse the briefing already built.
+export async function buildBriefingForCall(params: {
+  accountId: string;
+  lineId: string;
+  callSessionId: string;
+  region: string | null;
+  timezone: string;
+  avoidTopics: string[];
+  interests: string[];
+}): Promise<BriefingItem[]> {
+  const supabase = getSupabaseClient();
+
+  try {
+    const existing = await getBriefingForSession(params.callSessionId);
+    if (existing) {
+      return existing.filter((item) => !item.mentioned);
+    }
+
+    const now = new Date();
+    const [candidates, mentionedItemIds] = await Promise.all([
+      getCandidateItems(params.lineId, params.region, now),
+      getMentionedItemIds(params.lineId),
+    ]);
+
+    const selected = selectBriefingItems(candidates, {
+      avoidTopics: params.avoidTopics,
+      interests: params.interests,
+      mentionedItemIds,
+      now,
+    });
+
+    if (selected.length === 0) {
+      return [];
+    }
+
+    const briefingDate = DateTime.fromJSDate(now).setZone(params.timezone).toISODate() ??
+      now.toISOString().slice(0, 10);
+
+    const { data, error } = await supabase
+      .from('ultaura_briefing_items')
+      .insert(selected.map((item, index) => ({
+        account_id: params.accountId,
+        line_id: params.lineId,
+        call_session_id: params.callSessionId,
+        content_item_id: item.id,
+        briefing_date: briefingDate,
+        position: index,
+      })))
+      .select('id, content_item_id, position');
+
+    if (error) throw error;
+
+    return (data ?? [])
+      .sort((a, b) => a.position - b.position)
+      .map((row) => {
+        const item = selected.find((candidate) => candidate.id === row.content_item_id)!;
+        return {
+          id: row.id,
+          callSessionId: params.callSessionId,
+          contentItemId: item.id,
+          briefingDate,
+          position: row.position,
+          title: item.title,
+          summary: item.summary,
+          sourceType: item.sourceType,
+          mentioned: false,
+          mentionedAt: null,
+        };
+      });
+  } catch (error) {
+    logger.error({ error, lineId: params.lineId }, 'Failed to build briefing for call');
+    return [];
+  }
+}
+
+export async function markBriefingItemMentioned(callSessionId: string, briefingItemId: string): Promise<boolean> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('ultaura_briefing_items')
+    .update({ mentioned: true, mentioned_at: new Date().toISOString() })
+    .eq('id', briefingItemId)
+    .eq('call_session_id', callSessionId)
+    .select('id');
+
+  if (error) {
+    logger.error({ error, callSessionId, briefingItemId }, 'Failed to mark briefing item mentioned');
+    return false;
+  }
+
+  return (data ?? []).length > 0;
+}
@@ -0,0 +1,224 @@
+// "Next time" call previews
+// Stores the topic the senior picked at the end of a call, hands it to the next companion call
+// as its opener, and records whether that call followed through.
+
+import type {
+  CallPreview,
+  CallPreviewResponse,
+  CallPreviewStatus,
+  CallPreviewTopicType,
+} from '@ultaura/types';
+import { getSupabaseClient } from '../utils/supabase.js';
+import { CALL_PREVIEW_EXPIRY_DAYS } from '../utils/constants.js';
+import { logger } from '../server.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CallPreviewInput {
+  topicType: CallPreviewTopicType;
+  topicKey: string;
+  topicDisplay: string;
+  offeredTopics: string[];
+  segmentId: string | null;
+}
+
+interface CallPreviewRow {
+  id: string;
+  line_id: string;
+  created_at: string;
+  topic_type: string;
+  topic_key: string;
+  topic_display: string;
+  offered_topics: string[] | null;
+  segment_id: string | null;
+  expected_by: string | null;
+  status: string;
+  used_at: string | null;
+  follow_through_response: string | null;
+  missed_calls: number;
+}
+
+function toCallPreview(row: CallPreviewRow): CallPreview {
+  return {
+    id: row.id,
+    lineId: row.line_id,
+    createdAt: row.created_at,
+    topicType: row.topic_type as CallPreviewTopicType,
+    topicKey: row.topic_key,
+    topicDisplay: row.topic_display,
+    offeredTopics: row.offered_topics ?? [],
+    segmentId: row.segment_id,
+    expectedBy: row.expected_by,
+    status: row.status as CallPreviewStatus,
+    usedAt: row.used_at,
+    followThroughResponse: row.follow_through_response as CallPreviewResponse | null,
+    missedCalls: row.missed_calls,
+  };
+}
+
+export function isCallPreviewExpired(preview: Pick<CallPreview, 'createdAt'>, now = new Date()): boolean {
+  return now.getTime() - new Date(preview.createdAt).getTime() > CALL_PREVIEW_EXPIRY_DAYS * DAY_MS;
+}
+
+// When the line's next scheduled call is due, so the dashboard can tell a late preview from an early one
+async function getNextScheduledCallAt(lineId: string): Promise<string | null> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('ultaura_schedules')
+    .select('next_run_at')
+    .eq('line_id', lineId)
+    .eq('enabled', true)
+    .not('next_run_at', 'is', null)
+    .order('next_run_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    logger.warn({ error, lineId }, 'Failed to fetch next scheduled call for preview');
+    return null;
+  }
+
+  return data?.next_run_at ?? null;
+}
+
+// Stores the senior's pick for next time. Only one preview is pending per line; a newer pick
+// replaces an older one that was never used.
+export async function storeCallPreview(params: {
+  accountId: string;
+  lineId: string;
+  callSessionId: string;
+  preview: CallPreviewInput;
+}): Promise<CallPreview | null> {
+  const supabase = getSupabaseClient();
+
+  try {
+    const { error: expireError } = await supabase
+      .from('ultaura_call_previews')
+      .update({ status: 'expired' })
+      .eq('line_id', params.lineId)
+      .eq('status', 'pending');
+
+    if (expireError) throw expireError;
+
+    const { data, error } = await supabase
+      .from('ultaura_call_previews')
+      .insert({
+        account_id: params.accountId,
+        line_id: params.lineId,
+        call_session_id: params.callSessionId,
+        topic_type: params.preview.topicType,
+        topic_key: params.preview.topicKey,
+        topic_display: params.preview.topicDisplay,
+        offered_topics: params.preview.offeredTopics,
+        segment_id: params.preview.segmentId,
+        expected_by: await getNextScheduledCallAt(params.lineId),
+      })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+
+    return toCallPreview(data as CallPreviewRow);
+  } catch (error) {
+    logger.error({ error, lineId: params.lineId }, 'Failed to store call preview');
+    return null;
+  }
+}
+
+// The topic the next companion call should open with. Previews nobody got to in time are expired.
+export async function getPendingCallPreview(lineId: string): Promise<CallPreview | null> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('ultaura_call_previews')
+    .select('*')
+    .eq('line_id', lineId)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    logger.error({ error, lineId }, 'Failed to fetch pending call preview');
+    return null;
+  }
+
+  if (!data) return null;
+
+  const preview = toCallPreview(data as CallPreviewRow);
+  if (!isCallPreviewExpired(preview)) {
+    return preview;
+  }
+
+  const { error: expireError } = await supabase
+    .from('ultaura_call_previews')
+    .update({ status: 'expired' })
+    .eq('id', preview.id)
+    .eq('status', 'pending');
+
+  if (expireError) {
+    logger.warn({ error: expireError, previewId: preview.id }, 'Failed to expire call preview');
+  }
+
+  return null;
+}
+
+// Records that the call opened with the preview and how the senior took it
+export async function resolveCallPreview(
+  lineId: string,
+  previewId: string,
+  callSessionId: string,
+  response: CallPreviewResponse
+): Promise<boolean> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('ultaura_call_previews')
+    .update({
+      status: response === 'declined' ? 'declined' : 'used',
+      used_at: new Date().toISOString(),
+      used_call_session_id: callSessionId,
+      follow_through_response: response,
+    })
+    .eq('id', previewId)
+    .eq('line_id', lineId)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (error) {
+    logger.error({ error, previewId }, 'Failed to resolve call preview');
+    return false;
+  }
+
+  return (data ?? []).length > 0;
+}
+
+// Counts a companion call that was given the preview but ended without opening with it
+export async function recordCallPreviewMissed(previewId: string): Promise<void> {
+  const supabase = getSupabaseClient();
+
+  try {
+    const { data, error } = await supabase
+      .from('ultaura_call_previews')
+      .select('missed_calls')
+      .eq('id', previewId)
+      .eq('status', 'pending')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return;
+
+    const { error: updateError } = await supabase
+      .from('ultaura_call_previews')
+      .update({ missed_calls: (data.missed_calls ?? 0) + 1 })
+      .eq('id', previewId)
+      .eq('status', 'pending');
+
+    if (updateError) throw updateError;
+
+    logger.warn({ previewId }, 'Call ended without opening with the chosen preview');
+  } catch (error) {
+    logger.error({ error, previewId }, 'Failed to record missed call preview');
+  }
+}
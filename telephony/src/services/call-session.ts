@@ -2,6 +2,8 @@
 // Manages call session lifecycle
 
 import { v4 as uuidv4 } from 'uuid';
+import { assignPromptVersion } from '@ultaura/prompts';
+import type { ReminderDeliveryMethod } from '@ultaura/schemas';
 import { getSupabaseClient, CallSessionRow } from '../utils/supabase.js';
 import { logger } from '../server.js';
 import { recordUsage } from './metering.js';
@@ -11,6 +13,7 @@ import { clearInsightState } from './insight-state.js';
 import { updateInsightsDuration } from './insights.js';
 import { checkMissedCallAlert } from './weekly-summary.js';
 import { sanitizePayload, getStrippedFieldsInfo, CallEventType } from '../utils/event-sanitizer.js';
+import { ACTIVE_CALL_STALE_MINUTES } from '../utils/constants.js';
 
 export type CallStatus = 'created' | 'ringing' | 'in_progress' | 'completed' | 'failed' | 'canceled';
 export type CallDirection = 'inbound' | 'outbound';
@@ -165,6 +168,7 @@ export async function createCallSession(options: {
   isReminderCall?: boolean;
   reminderId?: string;
   reminderMessage?: string;
+  reminderDeliveryMethod?: ReminderDeliveryMethod;
   // Test call flag
   isTestCall?: boolean;
   // Scheduler idempotency key for preventing duplicate scheduled calls
@@ -174,6 +178,9 @@ export async function createCallSession(options: {
 
   const sessionId = uuidv4();
 
+  // Reminder calls use their own short prompt, so only companion calls join prompt experiments
+  const promptAssignment = options.isReminderCall ? null : assignPromptVersion(options.lineId);
+
   const { data, error } = await supabase
     .from('ultaura_call_sessions')
     .insert({
@@ -188,8 +195,11 @@ export async function createCallSession(options: {
       is_reminder_call: options.isReminderCall || false,
       reminder_id: options.reminderId || null,
       reminder_message: options.reminderMessage || null,
+      reminder_delivery_method: options.reminderDeliveryMethod || null,
       is_test_call: options.isTestCall || false,
       scheduler_idempotency_key: options.schedulerIdempotencyKey || null,
+      prompt_version: promptAssignment?.promptVersion ?? null,
+      prompt_experiment_id: promptAssignment?.experimentId ?? null,
     })
     .select()
     .single();
@@ -207,7 +217,11 @@ export async function createCallSession(options: {
     return null;
   }
 
-  logger.info({ sessionId, direction: options.direction }, 'Call session created');
+  logger.info({
+    sessionId,
+    direction: options.direction,
+    promptVersion: promptAssignment?.promptVersion,
+  }, 'Call session created');
 
   return data;
 }
@@ -272,6 +286,27 @@ export async function getCallSessionByIdempotencyKey(
   return data;
 }
 
+// Whether the line already has a call being placed or under way
+export async function hasActiveCallForLine(lineId: string): Promise<boolean> {
+  const supabase = getSupabaseClient();
+  const staleBefore = new Date(Date.now() - ACTIVE_CALL_STALE_MINUTES * 60 * 1000).toISOString();
+
+  const { data, error } = await supabase
+    .from('ultaura_call_sessions')
+    .select('id')
+    .eq('line_id', lineId)
+    .in('status', ['created', 'ringing', 'in_progress'])
+    .gte('created_at', staleBefore)
+    .limit(1);
+
+  if (error) {
+    logger.error({ error, lineId }, 'Failed to check for an active call');
+    return false;
+  }
+
+  return (data ?? []).length > 0;
+}
+
 // Update call session status
 export async function updateCallStatus(
   sessionId: string,
@@ -465,6 +500,7 @@ export async function completeCallSession(
       lineId: session.line_id,
       accountId: session.account_id,
       backstopTiersTriggered: safetySummary.backstopTiersTriggered,
+      classifierTiersTriggered: safetySummary.classifierTiersTriggered,
       modelTiersLogged: safetySummary.modelTiersLogged,
       potentialFalsePositives: safetySummary.potentialFalsePositives,
     }, 'Safety detection summary for call');
@@ -647,21 +683,21 @@ export async function recordSafetyEvent(options: {
   tier: 'low' | 'medium' | 'high';
   signals?: Record<string, unknown>;
   actionTaken?: 'none' | 'suggested_988' | 'suggested_911' | 'notified_contact' | 'transferred_call';
-}): Promise<void> {
+}): Promise<string | null> {
   const supabase = getSupabaseClient();
 
-  const { error } = await supabase.from('ultaura_safety_events').insert({
+  const { data, error } = await supabase.from('ultaura_safety_events').insert({
     account_id: options.accountId,
     line_id: options.lineId,
     call_session_id: options.callSessionId,
     tier: options.tier,
     signals: options.signals || null,
     action_taken: options.actionTaken || 'none',
-  });
+  }).select('id').single();
 
   if (error) {
     logger.error({ error, options }, 'Failed to record safety event');
-    return;
+    return null;
   }
 
   // Also record as call event
@@ -671,4 +707,5 @@ export async function recordSafetyEvent(options: {
   }, { skipDebugLog: true });
 
   logger.warn({ ...options }, 'Safety event recorded');
+  return data.id;
 }
@@ -3,6 +3,7 @@
 
 import { clearBuffer, type EphemeralBuffer } from './ephemeral-buffer.js';
 import { storeMemory, getMemoriesForLine } from './memory.js';
+import { queueMemoryUpdate, valuesConflict } from './memory-updates.js';
 import { logger } from '../server.js';
 import { getAccountPrivacySettings, getLineVoiceConsent } from './privacy.js';
 
@@ -28,6 +29,7 @@ IMPORTANT:
 - Skip anything that was already stored during the call (marked as [STORED])
 - Focus on things that would help personalize future conversations
 - For follow_ups, include time context if mentioned
+- If the user said something that changes a known memory (e.g. they moved), reuse its key from the EXISTING MEMORY KEYS list
 
 Respond with JSON array only, no explanation:
 [{"type": "...", "key": "...", "value": "...", "confidence": 0.9}, ...]
@@ -82,19 +84,35 @@ export async function summarizeAndExtractMemoriesFromBuffer(buffer: EphemeralBuf
       .join('\n');
 
     const existingMemories = await getMemoriesForLine(buffer.accountId, buffer.lineId, { limit: 100 });
-    const existingKeys = new Set(existingMemories.map(m => m.key.toLowerCase()));
+    const existingByKey = new Map(existingMemories.map(m => [m.key.toLowerCase(), m]));
     const storedDuringCall = new Set([...buffer.storedKeys].map(k => k.toLowerCase()));
 
-    const extractedMemories = await extractMemoriesWithGrok(turnText);
+    const extractedMemories = await extractMemoriesWithGrok(turnText, [...existingByKey.keys()]);
 
     let storedCount = 0;
+    let proposedCount = 0;
     for (const memory of extractedMemories) {
       const keyLower = memory.key.toLowerCase();
-      if (existingKeys.has(keyLower) || storedDuringCall.has(keyLower)) {
+      if (storedDuringCall.has(keyLower)) {
         logger.debug({ key: memory.key }, 'Skipping already-stored memory key');
         continue;
       }
 
+      // A different value for a remembered key waits for confirmation instead of overwriting it
+      const existing = existingByKey.get(keyLower);
+      if (existing) {
+        if (valuesConflict(existing.value, memory.value)) {
+          const proposalId = await queueMemoryUpdate(existing, memory.value, {
+            confidence: memory.confidence,
+            callSessionId: buffer.callSessionId,
+          });
+          if (proposalId) proposedCount++;
+        } else {
+          logger.debug({ key: memory.key }, 'Skipping already-stored memory key');
+        }
+        continue;
+      }
+
       try {
         await storeMemory(
           buffer.accountId,
@@ -119,6 +137,7 @@ export async function summarizeAndExtractMemoriesFromBuffer(buffer: EphemeralBuf
       turnsProcessed: buffer.turns.length,
       memoriesExtracted: extractedMemories.length,
       memoriesStored: storedCount,
+      memoryUpdatesProposed: proposedCount,
     }, 'End-of-call summarization complete');
 
   } catch (error) {
@@ -126,7 +145,10 @@ export async function summarizeAndExtractMemoriesFromBuffer(buffer: EphemeralBuf
   }
 }
 
-async function extractMemoriesWithGrok(turnText: string): Promise<ExtractedMemory[]> {
+async function extractMemoriesWithGrok(
+  turnText: string,
+  existingKeys: string[]
+): Promise<ExtractedMemory[]> {
   // Skip silently if no API key
   if (!process.env.XAI_API_KEY) {
     return [];
@@ -146,7 +168,10 @@ async function extractMemoriesWithGrok(turnText: string): Promise<ExtractedMemor
         model: process.env.XAI_GROK_MODEL || 'grok-3-fast',
         messages: [
           { role: 'system', content: EXTRACTION_PROMPT },
-          { role: 'user', content: turnText },
+          {
+            role: 'user',
+            content: `${turnText}\n\nEXISTING MEMORY KEYS: ${existingKeys.join(', ') || 'none'}`,
+          },
         ],
         temperature: 0.3,
       }),
@@ -0,0 +1,257 @@
+// Warm transfer service
+// Conferences a trusted contact into a live call after a high-tier safety concern,
+// or when the caller asks for their contact from the keypad
+
+import { getSupabaseClient } from '../utils/supabase.js';
+import {
+  getTwilioClient,
+  generateConferenceTwiML,
+  generateStreamTwiML,
+  generateTransferBriefingTwiML,
+} from '../utils/twilio.js';
+import { getPublicUrl, getWebsocketUrl } from '../utils/env.js';
+import { TRANSFER_CONTACT_RING_TIMEOUT_SECONDS, TRANSFER_HANDOFF_DELAY_MS } from '../utils/constants.js';
+import { redactPhone } from '../utils/redact.js';
+import { logger } from '../server.js';
+
+export type TransferStatus = 'initiated' | 'connected' | 'failed';
+
+export type TransferReason = 'safety' | 'caller_request';
+
+export interface SafetyTransferContact {
+  id: string;
+  name: string;
+  phoneE164: string;
+}
+
+interface TransferState {
+  // True once the caller has left the companion for the conference hold
+  callerOnHold: boolean;
+  contactAccepted: boolean;
+}
+
+// In-flight transfers by call session; cleared when the contact's call ends
+const transfersInProgress = new Map<string, TransferState>();
+
+export function isTransferInProgress(callSessionId: string): boolean {
+  return transfersInProgress.has(callSessionId);
+}
+
+export function markTransferAccepted(callSessionId: string): void {
+  const state = transfersInProgress.get(callSessionId);
+  if (state) {
+    state.contactAccepted = true;
+  }
+}
+
+// Ends tracking for a transfer and reports how far it got
+export function finishTransfer(callSessionId: string): { callerOnHold: boolean; contactAccepted: boolean } {
+  const state = transfersInProgress.get(callSessionId);
+  transfersInProgress.delete(callSessionId);
+  return {
+    callerOnHold: state?.callerOnHold ?? false,
+    contactAccepted: state?.contactAccepted ?? false,
+  };
+}
+
+export function getTransferConferenceName(callSessionId: string): string {
+  return `ultaura-transfer-${callSessionId}`;
+}
+
+// Name of the call event a transfer's progress is recorded under; reason comes from the webhook query
+export function getTransferEventName(reason: unknown): string {
+  return reason === 'caller_request' ? 'contact_transfer' : 'safety_transfer';
+}
+
+function getTransferBriefing(reason: TransferReason, contactName: string, lovedOneName: string): string {
+  if (reason === 'caller_request') {
+    return `Hello ${contactName}, this is Ultaura. ${lovedOneName} is on a call with us and asked to speak with you.`;
+  }
+
+  return `Hello ${contactName}, this is Ultaura. ${lovedOneName} is on a call with us and has shared that they are going through a very hard time, including thoughts of harming themselves. They agreed to talk with you now. Please stay calm, listen, and if they are in immediate danger call 911. The 988 Suicide and Crisis Lifeline is also available.`;
+}
+
+// Find the trusted contact to transfer to. Requires trusted_contact_notify consent;
+// prefers contacts who asked to hear about high-tier concerns.
+export async function getSafetyTransferContact(lineId: string): Promise<SafetyTransferContact | null> {
+  const supabase = getSupabaseClient();
+
+  const { data: consent } = await supabase
+    .from('ultaura_consents')
+    .select('granted')
+    .eq('line_id', lineId)
+    .eq('type', 'trusted_contact_notify')
+    .eq('granted', true)
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (!consent) {
+    logger.info({ lineId }, 'No trusted contact consent found, cannot transfer');
+    return null;
+  }
+
+  const { data: contacts, error } = await supabase
+    .from('ultaura_trusted_contacts')
+    .select('id, name, phone_e164, notify_on')
+    .eq('line_id', lineId)
+    .eq('enabled', true)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    logger.error({ error, lineId }, 'Failed to load trusted contacts for transfer');
+    return null;
+  }
+
+  if (!contacts || contacts.length === 0) {
+    return null;
+  }
+
+  const contact = contacts.find(
+    (c) => Array.isArray(c.notify_on) && c.notify_on.includes('high')
+  ) ?? contacts[0];
+
+  return { id: contact.id, name: contact.name, phoneE164: contact.phone_e164 };
+}
+
+// Most recent high-tier safety event for the call (the one the transfer result is recorded on)
+export async function getLatestHighSafetyEventId(callSessionId: string): Promise<string | null> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('ultaura_safety_events')
+    .select('id')
+    .eq('call_session_id', callSessionId)
+    .eq('tier', 'high')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    logger.error({ error, callSessionId }, 'Failed to find safety event for transfer');
+    return null;
+  }
+
+  return data?.id ?? null;
+}
+
+export async function updateSafetyEventTransfer(
+  safetyEventId: string,
+  update: { status: TransferStatus; contactId?: string }
+): Promise<void> {
+  const supabase = getSupabaseClient();
+
+  const { error } = await supabase
+    .from('ultaura_safety_events')
+    .update({
+      action_taken: 'transferred_call',
+      transfer_status: update.status,
+      ...(update.contactId && { transfer_contact_id: update.contactId }),
+      transfer_updated_at: new Date().toISOString(),
+    })
+    .eq('id', safetyEventId);
+
+  if (error) {
+    logger.error({ error, safetyEventId, status: update.status }, 'Failed to record transfer on safety event');
+  }
+}
+
+// Dial the contact with a briefing, then move the caller into the conference.
+// The contact joins only after pressing a key, so voicemail never gets bridged.
+export async function startWarmTransfer(options: {
+  callSessionId: string;
+  callSid: string;
+  safetyEventId: string | null;
+  contact: SafetyTransferContact;
+  lovedOneName: string;
+  reason?: TransferReason;
+}): Promise<boolean> {
+  const { callSessionId, callSid, safetyEventId, contact, lovedOneName, reason = 'safety' } = options;
+  const from = process.env.TWILIO_PHONE_NUMBER;
+
+  if (isTransferInProgress(callSessionId)) {
+    logger.warn({ callSessionId, reason }, 'Transfer already in progress, not starting another');
+    return false;
+  }
+
+  if (!from) {
+    logger.error({ callSessionId }, 'Missing TWILIO_PHONE_NUMBER, cannot transfer');
+    return false;
+  }
+
+  const publicUrl = getPublicUrl();
+  const query = new URLSearchParams({ callSessionId, reason, ...(safetyEventId && { safetyEventId }) });
+
+  try {
+    const client = getTwilioClient();
+
+    await client.calls.create({
+      to: contact.phoneE164,
+      from,
+      twiml: generateTransferBriefingTwiML({
+        briefing: getTransferBriefing(reason, contact.name, lovedOneName),
+        acceptUrl: `${publicUrl}/twilio/transfer/accept?${query.toString()}`,
+      }),
+      timeout: TRANSFER_CONTACT_RING_TIMEOUT_SECONDS,
+      statusCallback: `${publicUrl}/twilio/transfer/status?${query.toString()}`,
+      statusCallbackEvent: ['completed'],
+      statusCallbackMethod: 'POST',
+    });
+  } catch (error) {
+    logger.error({ error, callSessionId, to: redactPhone(contact.phoneE164) }, 'Failed to dial trusted contact');
+    if (safetyEventId) {
+      await updateSafetyEventTransfer(safetyEventId, { status: 'failed', contactId: contact.id });
+    }
+    return false;
+  }
+
+  if (safetyEventId) {
+    await updateSafetyEventTransfer(safetyEventId, { status: 'initiated', contactId: contact.id });
+  }
+
+  transfersInProgress.set(callSessionId, { callerOnHold: false, contactAccepted: false });
+
+  // Give the companion time to tell the caller what is happening before the stream closes
+  setTimeout(() => {
+    moveCallerToConference(callSessionId, callSid, contact.name).catch((error) => {
+      logger.error({ error, callSessionId }, 'Failed to move caller into transfer conference');
+    });
+  }, TRANSFER_HANDOFF_DELAY_MS);
+
+  logger.info({ callSessionId, contactId: contact.id, reason }, 'Warm transfer started');
+  return true;
+}
+
+async function moveCallerToConference(callSessionId: string, callSid: string, contactName: string): Promise<void> {
+  const state = transfersInProgress.get(callSessionId);
+  if (!state) {
+    // Contact call already ended; the caller is still with the companion
+    return;
+  }
+
+  const client = getTwilioClient();
+
+  await client.calls(callSid).update({
+    twiml: generateConferenceTwiML({
+      conferenceName: getTransferConferenceName(callSessionId),
+      message: `Please stay on the line while I connect you with ${contactName}.`,
+      // Caller hears hold music until the contact accepts
+      startConferenceOnEnter: false,
+      endConferenceOnExit: true,
+    }),
+  });
+  state.callerOnHold = true;
+}
+
+// Send the caller back to the companion when the contact could not be reached
+export async function returnCallerToCompanion(callSessionId: string, callSid: string): Promise<void> {
+  try {
+    const client = getTwilioClient();
+    await client.calls(callSid).update({
+      twiml: generateStreamTwiML(callSessionId, getWebsocketUrl(), {
+        introMessage: "I wasn't able to reach your contact. I'm still here with you.",
+      }),
+    });
+  } catch (error) {
+    logger.error({ error, callSessionId }, 'Failed to return caller to companion after transfer');
+  }
+}
@@ -0,0 +1,160 @@
+// Call windows and retry timing for scheduled calls
+// A schedule calls at the start of its first window. When a call can't be placed or goes
+// unanswered, retries back off exponentially but stay inside a call window and outside quiet
+// hours, and lean towards the half-hour slots in which the line has historically answered (the
+// saved answer-time model).
+// Retries are shared out so that every later window still gets at least one call.
+
+import { DateTime } from 'luxon';
+import type { ScheduleRow } from '../utils/supabase.js';
+import type { AnswerPatterns } from './answer-patterns.js';
+
+const RETRY_BASE_DELAY_MINUTES = 5;
+const RETRY_MAX_DELAY_MINUTES = 60;
+const DEFAULT_MAX_RETRIES = 2;
+const SLOT_MINUTES = 30;
+// Calls needed in a slot before its answer rate is trusted over the line's overall rate
+const MIN_SLOT_CALLS = 3;
+const LAST_MINUTE_OF_DAY = 24 * 60 - 1;
+
+interface WindowMinutes {
+  start: number;
+  end: number;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function fromMinutes(total: number): string {
+  return `${Math.floor(total / 60).toString().padStart(2, '0')}:${(total % 60).toString().padStart(2, '0')}`;
+}
+
+// Schedules without call windows get one window from time_of_day lasting retry_window_minutes
+export function getEffectiveCallWindows(
+  schedule: Pick<ScheduleRow, 'time_of_day' | 'call_windows' | 'retry_policy'>
+): WindowMinutes[] {
+  if (schedule.call_windows?.length) {
+    return schedule.call_windows
+      .map((window) => ({ start: toMinutes(window.start), end: toMinutes(window.end) }))
+      .sort((a, b) => a.start - b.start);
+  }
+
+  const start = toMinutes(schedule.time_of_day);
+  const windowMinutes = schedule.retry_policy?.retry_window_minutes ?? 30;
+  return [{ start, end: Math.min(start + windowMinutes, LAST_MINUTE_OF_DAY) }];
+}
+
+export function getRetryBackoffMinutes(attempt: number): number {
+  return Math.min(RETRY_BASE_DELAY_MINUTES * 2 ** Math.max(attempt - 1, 0), RETRY_MAX_DELAY_MINUTES);
+}
+
+function isQuietMinute(minute: number, quietStart: number, quietEnd: number): boolean {
+  if (quietStart > quietEnd) {
+    return minute >= quietStart || minute < quietEnd;
+  }
+  return minute >= quietStart && minute < quietEnd;
+}
+
+// First minute in [from, end] outside quiet hours, or null
+function firstCallableMinute(from: number, end: number, quietStart: number, quietEnd: number): number | null {
+  if (!isQuietMinute(from, quietStart, quietEnd)) {
+    return from;
+  }
+
+  return quietEnd > from && quietEnd <= end ? quietEnd : null;
+}
+
+function getSlotRate(patterns: AnswerPatterns, weekday: number, slotMinutes: number): number {
+  const time = fromMinutes(slotMinutes);
+  const slot = patterns.slots.find((s) => s.weekday === weekday && s.time === time);
+  return slot && slot.calls >= MIN_SLOT_CALLS ? slot.rate : patterns.answerRate;
+}
+
+// Move the retry to a later half-hour slot in the window when the line answers more often then
+function preferAnsweringSlot(
+  candidate: number,
+  end: number,
+  weekday: number,
+  patterns: AnswerPatterns | null,
+  quietStart: number,
+  quietEnd: number
+): number {
+  if (!patterns || patterns.slots.length === 0) {
+    return candidate;
+  }
+
+  const firstSlot = Math.floor(candidate / SLOT_MINUTES) * SLOT_MINUTES;
+  let best = candidate;
+  let bestRate = getSlotRate(patterns, weekday, firstSlot);
+
+  for (let slot = firstSlot + SLOT_MINUTES; slot <= end; slot += SLOT_MINUTES) {
+    const rate = getSlotRate(patterns, weekday, slot);
+    if (rate > bestRate && !isQuietMinute(slot, quietStart, quietEnd)) {
+      best = slot;
+      bestRate = rate;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * When to retry a scheduled call that could not be placed or was not answered, or null when no
+ * call window has room left today. `attempt` is 1 for the first retry.
+ */
+export function getScheduleRetryAt(options: {
+  schedule: Pick<ScheduleRow, 'timezone' | 'time_of_day' | 'call_windows' | 'retry_policy'>;
+  attempt: number;
+  quietHours: { start: string; end: string };
+  answerPatterns?: AnswerPatterns | null;
+  now?: DateTime;
+}): DateTime | null {
+  const local = (options.now ?? DateTime.now()).setZone(options.schedule.timezone);
+  const currentMinute = local.hour * 60 + local.minute;
+  const earliest = currentMinute + getRetryBackoffMinutes(options.attempt);
+  const quietStart = toMinutes(options.quietHours.start);
+  const quietEnd = toMinutes(options.quietHours.end);
+
+  // First callable minute in each window that still has room
+  const slots: Array<{ window: WindowMinutes; minute: number }> = [];
+  for (const window of getEffectiveCallWindows(options.schedule)) {
+    const from = Math.max(earliest, window.start);
+    if (from > window.end) {
+      continue;
+    }
+
+    const minute = firstCallableMinute(from, window.end, quietStart, quietEnd);
+    if (minute !== null) {
+      slots.push({ window, minute });
+    }
+  }
+
+  if (slots.length === 0) {
+    return null;
+  }
+
+  // Inside a window, move on to the next one once the retries left are only enough for one call
+  // in each later window
+  const maxRetries = options.schedule.retry_policy?.max_retries ?? DEFAULT_MAX_RETRIES;
+  const retriesLeft = Math.max(maxRetries - options.attempt + 1, 1);
+  const inCurrentWindow = slots[0].window.start <= currentMinute;
+  const slot = inCurrentWindow && slots.length > 1 && retriesLeft <= slots.length - 1 ? slots[1] : slots[0];
+
+  const minute = preferAnsweringSlot(
+    slot.minute,
+    slot.window.end,
+    local.weekday % 7,
+    options.answerPatterns ?? null,
+    quietStart,
+    quietEnd
+  );
+
+  return local.set({
+    hour: Math.floor(minute / 60),
+    minute: minute % 60,
+    second: 0,
+    millisecond: 0,
+  });
+}
@@ -0,0 +1,133 @@
+// Callback requests from inbound calls that were turned away
+// The callback is a one-off schedule, placed after quiet hours if the senior called during them
+
+import { DateTime } from 'luxon';
+import { getSupabaseClient, LineRow } from '../utils/supabase.js';
+import { getInternalApiSecret } from '../utils/env.js';
+import { CALLBACK_DELAY_MINUTES } from '../utils/constants.js';
+import { logger } from '../server.js';
+import { isInQuietHours } from './line-lookup.js';
+
+type QuietHoursLine = Pick<LineRow, 'timezone' | 'quiet_hours_start' | 'quiet_hours_end'>;
+
+// Earliest time we may call the line back: shortly after now, or when quiet hours end
+export function getCallbackTime(line: QuietHoursLine, now: Date = new Date()): Date {
+  if (!isInQuietHours(line, now)) {
+    return new Date(now.getTime() + CALLBACK_DELAY_MINUTES * 60 * 1000);
+  }
+
+  const local = DateTime.fromJSDate(now).setZone(line.timezone);
+  const [endHour, endMinute] = line.quiet_hours_end.split(':').map(Number);
+  let callbackAt = local.set({ hour: endHour, minute: endMinute, second: 0, millisecond: 0 });
+  if (callbackAt <= local) {
+    callbackAt = callbackAt.plus({ days: 1 });
+  }
+
+  return callbackAt.toJSDate();
+}
+
+// Spoken description, e.g. "in a few minutes" or "at 9 AM"
+export function describeCallbackTime(callbackAt: Date, timezone: string, now: Date = new Date()): string {
+  if (callbackAt.getTime() - now.getTime() <= CALLBACK_DELAY_MINUTES * 60 * 1000) {
+    return 'in a few minutes';
+  }
+
+  const local = DateTime.fromJSDate(callbackAt).setZone(timezone);
+  return `at ${local.toFormat(local.minute === 0 ? 'h a' : 'h:mm a')}`;
+}
+
+function getAppBaseUrl(): string {
+  return (
+    process.env.ULTAURA_APP_URL ||
+    process.env.NEXT_PUBLIC_SITE_URL ||
+    'http://localhost:3000'
+  ).replace(/\/$/, '');
+}
+
+async function notifyPayerOfCallback(line: LineRow, callbackAt: Date): Promise<void> {
+  const url = `${getAppBaseUrl()}/api/telephony/callback-requested`;
+  const callbackLocal = DateTime.fromJSDate(callbackAt).setZone(line.timezone);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Secret': getInternalApiSecret(),
+      },
+      body: JSON.stringify({
+        accountId: line.account_id,
+        lineName: line.display_name,
+        callbackAt: callbackAt.toISOString(),
+        callbackAtLocal: callbackLocal.toFormat("ccc, LLL d 'at' h:mm a ZZZZ"),
+        scheduleUrl: `${getAppBaseUrl()}/dashboard/lines/${line.short_id}/schedule`,
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      logger.error({ status: response.status, body, lineId: line.id }, 'Callback request notification failed');
+    }
+  } catch (error) {
+    logger.error({ error, lineId: line.id }, 'Callback request notification request failed');
+  }
+}
+
+// Create a one-off callback schedule for the line, reusing any callback still pending.
+// Returns when the callback will happen, or null if it could not be scheduled.
+export async function requestCallback(line: LineRow): Promise<Date | null> {
+  const supabase = getSupabaseClient();
+
+  const { data: pending, error: pendingError } = await supabase
+    .from('ultaura_schedules')
+    .select('id, next_run_at')
+    .eq('line_id', line.id)
+    .eq('is_one_off', true)
+    .eq('enabled', true)
+    .not('next_run_at', 'is', null)
+    .order('next_run_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (pendingError) {
+    logger.error({ error: pendingError, lineId: line.id }, 'Failed to check for pending callback');
+    return null;
+  }
+
+  if (pending?.next_run_at) {
+    logger.info({ lineId: line.id, scheduleId: pending.id }, 'Callback already pending');
+    return new Date(pending.next_run_at);
+  }
+
+  const callbackAt = getCallbackTime(line);
+  const callbackLocal = DateTime.fromJSDate(callbackAt).setZone(line.timezone);
+
+  const { data: schedule, error } = await supabase
+    .from('ultaura_schedules')
+    .insert({
+      account_id: line.account_id,
+      line_id: line.id,
+      enabled: true,
+      is_one_off: true,
+      timezone: line.timezone,
+      // No days: the scheduler computes no next run once the callback has been placed
+      days_of_week: [],
+      time_of_day: callbackLocal.toFormat('HH:mm'),
+      next_run_at: callbackAt.toISOString(),
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    logger.error({ error, lineId: line.id }, 'Failed to create callback schedule');
+    return null;
+  }
+
+  logger.info({ lineId: line.id, scheduleId: schedule.id, callbackAt: callbackAt.toISOString() }, 'Callback scheduled');
+
+  notifyPayerOfCallback(line, callbackAt).catch((notifyError) => {
+    logger.error({ error: notifyError, lineId: line.id }, 'Background callback notification failed');
+  });
+
+  return callbackAt;
+}
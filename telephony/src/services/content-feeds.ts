@@ -0,0 +1,418 @@
+// Content feed ingestion for call briefings
+// Fetches RSS/Atom and JSON Feed sources, or reads a local file under CONTENT_FEED_LOCAL_DIR so
+// briefings can be exercised offline, and stores new entries as content items.
+
+import { readFile } from 'fs/promises';
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import path from 'path';
+import type { ContentFeed, ContentFeedSourceType } from '@ultaura/types';
+import { getSupabaseClient } from '../utils/supabase.js';
+import {
+  CONTENT_FEED_FETCH_TIMEOUT_MS,
+  CONTENT_FEED_MAX_BYTES,
+  CONTENT_FEED_MAX_ITEMS,
+  CONTENT_FEED_MAX_REDIRECTS,
+  CONTENT_FEED_REFRESH_MINUTES,
+} from '../utils/constants.js';
+import { logger } from '../server.js';
+
+export interface ParsedFeedItem {
+  externalId: string;
+  title: string;
+  summary: string | null;
+  url: string | null;
+  topics: string[];
+  publishedAt: string | null;
+  expiresAt: string | null;
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function decodeXmlText(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&([a-z]+);/gi, (match, name: string) => XML_ENTITIES[name.toLowerCase()] ?? match)
+    // Descriptions often carry escaped HTML; only the text is wanted
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function getTag(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'));
+  return match ? decodeXmlText(match[1]) || null : null;
+}
+
+function getTags(block: string, tag: string): string[] {
+  const matches = block.matchAll(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'gi'));
+  return Array.from(matches, (match) => decodeXmlText(match[1])).filter(Boolean);
+}
+
+function toIsoDate(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function cleanText(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const text = decodeXmlText(value);
+  return text || null;
+}
+
+// RSS 2.0 <item>s and Atom <entry>s
+export function parseRssFeed(xml: string): ParsedFeedItem[] {
+  const blocks = xml.match(/<(item|entry)(?:\s[^>]*)?>[\s\S]*?<\/\1>/gi) ?? [];
+
+  return blocks.flatMap((block) => {
+    const title = getTag(block, 'title');
+    if (!title) return [];
+
+    const atomLink = block.match(/<link[^>]*href="([^"]+)"/i)?.[1] ?? null;
+    const url = getTag(block, 'link') ?? atomLink;
+    const externalId = getTag(block, 'guid') ?? getTag(block, 'id') ?? url ?? title;
+
+    return [{
+      externalId,
+      title,
+      summary: getTag(block, 'description') ?? getTag(block, 'summary') ?? getTag(block, 'content'),
+      url,
+      topics: getTags(block, 'category'),
+      publishedAt: toIsoDate(getTag(block, 'pubDate') ?? getTag(block, 'published') ?? getTag(block, 'updated')),
+      expiresAt: null,
+    }];
+  });
+}
+
+// JSON Feed 1.1 ({ items: [...] }) or a bare array of the same item objects. Event items may carry
+// an `_expires_at` extension so they stop being briefed once the event has passed.
+export function parseJsonFeed(json: unknown): ParsedFeedItem[] {
+  const items = Array.isArray(json)
+    ? json
+    : (json as { items?: unknown })?.items;
+
+  if (!Array.isArray(items)) {
+    throw new Error('JSON feed has no items array');
+  }
+
+  return items.flatMap((raw) => {
+    if (!raw || typeof raw !== 'object') return [];
+    const item = raw as Record<string, unknown>;
+
+    const title = cleanText(item.title);
+    if (!title) return [];
+
+    const url = typeof item.url === 'string' ? item.url : null;
+
+    return [{
+      externalId: String(item.id ?? url ?? title),
+      title,
+      summary: cleanText(item.summary) ?? cleanText(item.content_text) ?? cleanText(item.content_html),
+      url,
+      topics: Array.isArray(item.tags) ? item.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+      publishedAt: toIsoDate(item.date_published ?? item.date_modified),
+      expiresAt: toIsoDate(item._expires_at),
+    }];
+  });
+}
+
+// Resolves a local_file feed path, refusing anything outside CONTENT_FEED_LOCAL_DIR
+export function resolveLocalFeedPath(feedPath: string, baseDir = process.env.CONTENT_FEED_LOCAL_DIR): string {
+  if (!baseDir) {
+    throw new Error('CONTENT_FEED_LOCAL_DIR is not set');
+  }
+
+  const root = path.resolve(baseDir);
+  const resolved = path.resolve(root, feedPath);
+
+  if (resolved !== root && !resolved.startsWith(`${root}${path.sep}`)) {
+    throw new Error('Local feed path is outside CONTENT_FEED_LOCAL_DIR');
+  }
+
+  return resolved;
+}
+
+function parseFeedBody(body: string, format: 'json' | 'rss'): ParsedFeedItem[] {
+  return format === 'json' ? parseJsonFeed(JSON.parse(body)) : parseRssFeed(body);
+}
+
+// IPv4 ranges a feed may never point at: this network, private, carrier-grade NAT, loopback,
+// link-local (including cloud metadata at 169.254.169.254), protocol assignments, benchmarking,
+// multicast and reserved
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+const BLOCKED_HOSTNAMES = new Set(['localhost', 'metadata.google.internal']);
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((total, octet) => total * 256 + Number(octet), 0);
+}
+
+function isBlockedIpv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  return BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+    const size = 2 ** (32 - bits);
+    return Math.floor(value / size) === Math.floor(ipv4ToNumber(base) / size);
+  });
+}
+
+// Whether an address is loopback, private, link-local or otherwise not on the public internet
+export function isBlockedAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) {
+    return isBlockedIpv4(address);
+  }
+  if (version !== 6) {
+    return true;
+  }
+
+  const normalized = address.toLowerCase();
+  const mappedIpv4 = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)?.[1];
+  if (mappedIpv4) {
+    return isBlockedIpv4(mappedIpv4);
+  }
+
+  return (
+    normalized.startsWith('::') || // unspecified, loopback and IPv4-compatible forms
+    /^f[cd]/.test(normalized) || // unique local, fc00::/7
+    /^fe[89ab]/.test(normalized) || // link-local, fe80::/10
+    /^ff/.test(normalized) || // multicast
+    normalized.startsWith('64:ff9b:') // NAT64 to any IPv4 address
+  );
+}
+
+type LookupAddresses = (hostname: string) => Promise<Array<{ address: string }>>;
+
+const lookupAll: LookupAddresses = (hostname) => lookup(hostname, { all: true, verbatim: true });
+
+// Feeds are payer-supplied URLs fetched by this server, so each one must resolve only to public
+// addresses
+export async function assertPublicFeedUrl(url: string, resolve: LookupAddresses = lookupAll): Promise<URL> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error('Feed URL is not valid');
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error('Feed URL must use http or https');
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (BLOCKED_HOSTNAMES.has(hostname) || hostname.endsWith('.localhost')) {
+    throw new Error('Feed URL must point to a public address');
+  }
+
+  const addresses = isIP(hostname) ? [{ address: hostname }] : await resolve(hostname).catch(() => []);
+  if (addresses.length === 0) {
+    throw new Error('Feed host could not be resolved');
+  }
+  if (addresses.some(({ address }) => isBlockedAddress(address))) {
+    throw new Error('Feed URL must point to a public address');
+  }
+
+  return parsed;
+}
+
+// Reads a response body, giving up once it passes CONTENT_FEED_MAX_BYTES
+export async function readLimitedBody(response: Response, maxBytes = CONTENT_FEED_MAX_BYTES): Promise<string> {
+  const declared = Number(response.headers.get('content-length'));
+  if (Number.isFinite(declared) && declared > maxBytes) {
+    throw new Error('Feed is too large');
+  }
+
+  if (!response.body) {
+    return '';
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      throw new Error('Feed is too large');
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+// Fetches a remote feed, checking the target again before following each redirect
+async function fetchRemoteFeed(feed: Pick<ContentFeed, 'sourceType' | 'url'>): Promise<string> {
+  let target = await assertPublicFeedUrl(feed.url);
+
+  for (let redirects = 0; ; redirects++) {
+    const response = await fetch(target, {
+      headers: { Accept: feed.sourceType === 'json' ? 'application/feed+json, application/json' : 'application/rss+xml, application/atom+xml, text/xml' },
+      redirect: 'manual',
+      signal: AbortSignal.timeout(CONTENT_FEED_FETCH_TIMEOUT_MS),
+    });
+
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      if (redirects >= CONTENT_FEED_MAX_REDIRECTS) {
+        throw new Error('Feed redirected too many times');
+      }
+      target = await assertPublicFeedUrl(new URL(location, target).toString());
+      continue;
+    }
+
+    if (!response.ok) {
+      throw new Error(`Feed request failed with status ${response.status}`);
+    }
+
+    return readLimitedBody(response);
+  }
+}
+
+export async function fetchFeedItems(feed: Pick<ContentFeed, 'sourceType' | 'url'>): Promise<ParsedFeedItem[]> {
+  let items: ParsedFeedItem[];
+
+  if (feed.sourceType === 'local_file') {
+    const filePath = resolveLocalFeedPath(feed.url);
+    const body = await readFile(filePath, 'utf8');
+    items = parseFeedBody(body, path.extname(filePath).toLowerCase() === '.json' ? 'json' : 'rss');
+  } else {
+    items = parseFeedBody(await fetchRemoteFeed(feed), feed.sourceType);
+  }
+
+  return items.slice(0, CONTENT_FEED_MAX_ITEMS);
+}
+
+function toContentFeed(row: {
+  id: string;
+  account_id: string | null;
+  line_id: string | null;
+  region: string | null;
+  name: string;
+  source_type: string;
+  url: string;
+  topics: string[] | null;
+  enabled: boolean;
+  last_fetched_at: string | null;
+  last_error: string | null;
+}): ContentFeed {
+  return {
+    id: row.id,
+    accountId: row.account_id,
+    lineId: row.line_id,
+    region: row.region,
+    name: row.name,
+    sourceType: row.source_type as ContentFeedSourceType,
+    url: row.url,
+    topics: row.topics ?? [],
+    enabled: row.enabled,
+    lastFetchedAt: row.last_fetched_at,
+    lastError: row.last_error,
+  };
+}
+
+// Fetches one feed and stores entries it has not seen before. Returns the number of new items.
+export async function ingestContentFeed(feed: ContentFeed): Promise<number> {
+  const supabase = getSupabaseClient();
+
+  try {
+    const items = await fetchFeedItems(feed);
+
+    let inserted = 0;
+    if (items.length > 0) {
+      const { data, error } = await supabase
+        .from('ultaura_content_items')
+        .upsert(
+          items.map((item) => ({
+            feed_id: feed.id,
+            account_id: feed.accountId,
+            line_id: feed.lineId,
+            region: feed.region,
+            source_type: feed.sourceType,
+            external_id: item.externalId,
+            title: item.title,
+            summary: item.summary,
+            url: item.url,
+            topics: Array.from(new Set([...feed.topics, ...item.topics])),
+            published_at: item.publishedAt ?? new Date().toISOString(),
+            expires_at: item.expiresAt,
+          })),
+          { onConflict: 'feed_id,external_id', ignoreDuplicates: true }
+        )
+        .select('id');
+
+      if (error) throw error;
+      inserted = (data ?? []).length;
+    }
+
+    await supabase
+      .from('ultaura_content_feeds')
+      .update({ last_fetched_at: new Date().toISOString(), last_error: null })
+      .eq('id', feed.id);
+
+    return inserted;
+  } catch (error) {
+    logger.warn({ error, feedId: feed.id }, 'Failed to ingest content feed');
+
+    await supabase
+      .from('ultaura_content_feeds')
+      .update({
+        last_fetched_at: new Date().toISOString(),
+        last_error: error instanceof Error ? error.message.slice(0, 500) : 'Unknown error',
+      })
+      .eq('id', feed.id);
+
+    return 0;
+  }
+}
+
+// Ingests every enabled feed not fetched within CONTENT_FEED_REFRESH_MINUTES
+export async function refreshContentFeeds(): Promise<void> {
+  const supabase = getSupabaseClient();
+  const staleBefore = new Date(Date.now() - CONTENT_FEED_REFRESH_MINUTES * 60 * 1000).toISOString();
+
+  const { data, error } = await supabase
+    .from('ultaura_content_feeds')
+    .select('*')
+    .eq('enabled', true)
+    .or(`last_fetched_at.is.null,last_fetched_at.lt.${staleBefore}`);
+
+  if (error) {
+    logger.error({ error }, 'Failed to fetch content feeds');
+    return;
+  }
+
+  let inserted = 0;
+  for (const row of data ?? []) {
+    inserted += await ingestContentFeed(toContentFeed(row));
+  }
+
+  if ((data ?? []).length > 0) {
+    logger.info({ feeds: (data ?? []).length, inserted }, 'Content feeds refreshed');
+  }
+}
@@ -0,0 +1,82 @@
+// DTMF keypad map service
+// Resolves key presses to the in-call action configured for the line
+
+import { DEFAULT_DTMF_KEYMAP, DtmfKeymapSchema } from '@ultaura/schemas';
+import type { DtmfAction, DtmfKey, DtmfKeymap } from '@ultaura/schemas';
+import { getSupabaseClient, LineRow } from '../utils/supabase.js';
+import { logger } from '../server.js';
+
+export interface UpcomingReminder {
+  message: string;
+  dueAt: string;
+}
+
+export interface TransferContact {
+  id: string;
+  name: string;
+  phoneE164: string;
+}
+
+// Get the keypad map for a line, falling back to the defaults if unset or invalid
+export function getLineKeymap(line: Pick<LineRow, 'id' | 'dtmf_keymap'>): DtmfKeymap {
+  if (!line.dtmf_keymap) {
+    return DEFAULT_DTMF_KEYMAP;
+  }
+
+  const parsed = DtmfKeymapSchema.safeParse(line.dtmf_keymap);
+  if (!parsed.success) {
+    logger.warn({ lineId: line.id }, 'Invalid DTMF keymap, using defaults');
+    return DEFAULT_DTMF_KEYMAP;
+  }
+
+  return parsed.data;
+}
+
+// Resolve a pressed digit to an action (null when the key is unmapped)
+export function resolveDtmfAction(keymap: DtmfKeymap, digit: string): DtmfAction | null {
+  return keymap[digit as DtmfKey] ?? null;
+}
+
+// Get the next scheduled, unpaused reminder for a line
+export async function getNextReminder(lineId: string): Promise<UpcomingReminder | null> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('ultaura_reminders')
+    .select('message, due_at')
+    .eq('line_id', lineId)
+    .eq('status', 'scheduled')
+    .eq('is_paused', false)
+    .gte('due_at', new Date().toISOString())
+    .order('due_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    logger.error({ error, lineId }, 'Failed to get next reminder');
+    return null;
+  }
+
+  return data ? { message: data.message, dueAt: data.due_at } : null;
+}
+
+// Get the first enabled trusted contact for a line
+export async function getTransferContact(lineId: string): Promise<TransferContact | null> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('ultaura_trusted_contacts')
+    .select('id, name, phone_e164')
+    .eq('line_id', lineId)
+    .eq('enabled', true)
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    logger.error({ error, lineId }, 'Failed to get trusted contact');
+    return null;
+  }
+
+  return data ? { id: data.id, name: data.name, phoneE164: data.phone_e164 } : null;
+}
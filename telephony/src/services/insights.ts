@@ -3,6 +3,7 @@ import type { LogCallInsightsInput } from '@ultaura/schemas/telephony';
 import { getSupabaseClient } from '../utils/supabase.js';
 import { encryptInsights } from '../utils/insights-crypto.js';
 import { getPrivateTopics } from './insight-state.js';
+import { recordSegmentCallEngagement } from './segments.js';
 
 export type LogCallInsightsData = Omit<LogCallInsightsInput, 'callSessionId' | 'lineId'>;
 
@@ -111,6 +112,8 @@ export async function storeCallInsights(
     throw error;
   }
 
+  await recordSegmentCallEngagement(callSessionId, data.engagement_score);
+
   return {
     id: inserted.id,
     hasConcerns: concerns.length > 0,
@@ -169,15 +169,17 @@ export async function getMinutesRemaining(accountId: string): Promise<number> {
 }
 
 // Check if we're in quiet hours
-export function isInQuietHours(line: LineRow): boolean {
-  const now = new Date();
-
+export function isInQuietHours(
+  line: Pick<LineRow, 'timezone' | 'quiet_hours_start' | 'quiet_hours_end'>,
+  now: Date = new Date()
+): boolean {
   // Convert to line's timezone
   const formatter = new Intl.DateTimeFormat('en-US', {
     timeZone: line.timezone,
     hour: '2-digit',
     minute: '2-digit',
-    hour12: false,
+    // h23 so the hour after midnight reads 00 rather than 24
+    hourCycle: 'h23',
   });
 
   const timeStr = formatter.format(now);
@@ -237,7 +239,7 @@ export async function recordOptOut(
   accountId: string,
   lineId: string,
   callSessionId: string | null,
-  source: 'dtmf' | 'voice' | 'dashboard',
+  source: 'dtmf' | 'voice' | 'dashboard' | 'sms',
   reason?: string
 ): Promise<void> {
   const supabase = getSupabaseClient();
@@ -0,0 +1,211 @@
+// Memory retrieval for prompt assembly
+// Ranks a line's memories by type, recency, confidence and overlap with recent and upcoming
+// topics, then keeps the best ones that fit the prompt token budget
+
+import { formatMemoriesForPrompt } from '@ultaura/prompts';
+import type { Memory, MemoryType } from '@ultaura/types';
+import { getSupabaseClient } from '../utils/supabase.js';
+import {
+  DEFAULT_MEMORY_PROMPT_TOKEN_BUDGET,
+  FOLLOW_UP_OPENER_LIMIT,
+  FOLLOW_UP_STALE_DAYS,
+  MEMORY_CANDIDATE_LIMIT,
+  MEMORY_RECENCY_HALF_LIFE_DAYS,
+  MEMORY_UPCOMING_WINDOW_DAYS,
+} from '../utils/constants.js';
+import { getMemoriesForLine, MEMORY_KEYS } from './memory.js';
+import { logger } from '../server.js';
+
+export interface MemoryRetrievalContext {
+  // What the user has been talking about: recent turns, the last conversation topic
+  recentText?: string[];
+  // What is coming up for the line, e.g. reminder messages due soon
+  upcomingText?: string[];
+  now?: Date;
+}
+
+const TYPE_WEIGHTS: Record<MemoryType, number> = {
+  follow_up: 1,
+  preference: 0.8,
+  fact: 0.75,
+  wellbeing: 0.7,
+  context: 0.5,
+  history: 0.3,
+};
+
+const SCORE_WEIGHTS = {
+  type: 0.35,
+  recency: 0.25,
+  confidence: 0.15,
+  overlap: 0.25,
+};
+
+// Always worth their tokens: getting the name wrong or raising an avoided topic is worse than any gap
+const PINNED_KEYS = new Set<string>([MEMORY_KEYS.PREFERRED_NAME, MEMORY_KEYS.TOPICS_TO_AVOID]);
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'was', 'are', 'her', 'his', 'she', 'him',
+  'they', 'you', 'your', 'have', 'has', 'had', 'but', 'not', 'from', 'about', 'just',
+  'what', 'when', 'will', 'would', 'there', 'their', 'them', 'been', 'into', 'like', 'very',
+]);
+
+const DEFAULT_CONFIDENCE = 0.7;
+
+export function getMemoryTokenBudget(): number {
+  const configured = Number(process.env.MEMORY_PROMPT_TOKEN_BUDGET);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_MEMORY_PROMPT_TOKEN_BUDGET;
+}
+
+// Rough token count; close enough for budgeting prompt sections
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function toTerms(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9áéíóúñü]+/)
+      .filter((word) => word.length >= 3 && !STOPWORDS.has(word))
+  );
+}
+
+function overlapScore(memoryTerms: Set<string>, contextTerms: Set<string>): number {
+  let shared = 0;
+  for (const term of memoryTerms) {
+    if (contextTerms.has(term)) shared++;
+  }
+  // Two shared terms is already a strong signal
+  return Math.min(1, shared / 2);
+}
+
+function recencyScore(memory: Memory, now: Date): number {
+  const touchedAt = new Date(memory.updatedAt || memory.createdAt).getTime();
+  const ageDays = Math.max(0, (now.getTime() - touchedAt) / (24 * 60 * 60 * 1000));
+  return Math.pow(0.5, ageDays / MEMORY_RECENCY_HALF_LIFE_DAYS);
+}
+
+export function scoreMemory(
+  memory: Memory,
+  contextTerms: Set<string>,
+  now: Date = new Date()
+): number {
+  const memoryTerms = toTerms(`${memory.key.replace(/_/g, ' ')} ${formatMemoriesForPrompt([memory])}`);
+
+  const score =
+    SCORE_WEIGHTS.type * TYPE_WEIGHTS[memory.type] +
+    SCORE_WEIGHTS.recency * recencyScore(memory, now) +
+    SCORE_WEIGHTS.confidence * (memory.confidence ?? DEFAULT_CONFIDENCE) +
+    SCORE_WEIGHTS.overlap * overlapScore(memoryTerms, contextTerms);
+
+  return PINNED_KEYS.has(memory.key) ? score + 1 : score;
+}
+
+function isResolvedFollowUp(memory: Memory): boolean {
+  return memory.type === 'follow_up' && Boolean(memory.resolvedAt);
+}
+
+// Open follow-ups worth asking about now, oldest due first. Undated ones are due right away;
+// ones nobody has answered long after they were due are left out.
+export function selectDueFollowUps(
+  memories: Memory[],
+  now: Date = new Date(),
+  limit: number = FOLLOW_UP_OPENER_LIMIT
+): Memory[] {
+  const staleBefore = now.getTime() - FOLLOW_UP_STALE_DAYS * 24 * 60 * 60 * 1000;
+  const dueTime = (memory: Memory) => new Date(memory.dueAt || memory.createdAt).getTime();
+
+  return memories
+    .filter((memory) => memory.type === 'follow_up' && memory.active && !memory.resolvedAt)
+    .filter((memory) => dueTime(memory) <= now.getTime() && dueTime(memory) >= staleBefore)
+    .sort((a, b) => dueTime(a) - dueTime(b))
+    .slice(0, limit);
+}
+
+// Highest-scoring memories first; a memory that would overflow the budget is skipped
+// so shorter, lower-ranked ones can still fill the remaining space.
+// Answered follow-ups are left out so they are not raised again.
+export function selectMemoriesForPrompt(
+  memories: Memory[],
+  context: MemoryRetrievalContext = {},
+  tokenBudget: number = getMemoryTokenBudget()
+): Memory[] {
+  const now = context.now ?? new Date();
+  const lastTopic = memories
+    .filter((memory) => memory.key === MEMORY_KEYS.LAST_CONVERSATION_TOPIC)
+    .map((memory) => formatMemoriesForPrompt([memory]));
+  const contextTerms = toTerms(
+    [...(context.recentText ?? []), ...lastTopic, ...(context.upcomingText ?? [])].join(' ')
+  );
+
+  const ranked = memories
+    .filter((memory) => !isResolvedFollowUp(memory))
+    .map((memory) => ({ memory, score: scoreMemory(memory, contextTerms, now) }))
+    .sort((a, b) => b.score - a.score);
+
+  const selected: Memory[] = [];
+  let usedTokens = 0;
+
+  for (const { memory } of ranked) {
+    const cost = estimateTokens(formatMemoriesForPrompt([memory])) + 1;
+    if (usedTokens + cost > tokenBudget) continue;
+
+    selected.push(memory);
+    usedTokens += cost;
+  }
+
+  return selected;
+}
+
+// Reminder messages due for the line in the next few days
+export async function getUpcomingScheduleText(lineId: string): Promise<string[]> {
+  const supabase = getSupabaseClient();
+  const now = new Date();
+  const until = new Date(now.getTime() + MEMORY_UPCOMING_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+  const { data, error } = await supabase
+    .from('ultaura_reminders')
+    .select('message')
+    .eq('line_id', lineId)
+    .eq('status', 'scheduled')
+    .eq('is_paused', false)
+    .gte('due_at', now.toISOString())
+    .lte('due_at', until.toISOString())
+    .order('due_at', { ascending: true })
+    .limit(20);
+
+  if (error) {
+    logger.warn({ error, lineId }, 'Failed to load upcoming reminders for memory ranking');
+    return [];
+  }
+
+  return (data || []).map((reminder) => reminder.message as string);
+}
+
+// Fetch candidates and select the ones to put in the prompt
+export async function getMemoriesForPrompt(
+  accountId: string,
+  lineId: string,
+  context: Omit<MemoryRetrievalContext, 'upcomingText'> = {}
+): Promise<Memory[]> {
+  const [memories, upcomingText] = await Promise.all([
+    getMemoriesForLine(accountId, lineId, { limit: MEMORY_CANDIDATE_LIMIT }),
+    getUpcomingScheduleText(lineId),
+  ]);
+
+  const selected = selectMemoriesForPrompt(memories, { ...context, upcomingText });
+
+  logger.debug({
+    lineId,
+    candidates: memories.length,
+    selected: selected.length,
+  }, 'Selected memories for prompt');
+
+  return selected;
+}
+
+// Follow-ups to open the call with
+export async function getDueFollowUps(accountId: string, lineId: string): Promise<Memory[]> {
+  const memories = await getMemoriesForLine(accountId, lineId, { limit: MEMORY_CANDIDATE_LIMIT });
+  return selectDueFollowUps(memories);
+}
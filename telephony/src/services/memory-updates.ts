@@ -0,0 +1,232 @@
+// Possible memory updates
+// A value heard on a call that contradicts an existing memory is queued here instead of being
+// dropped or silently overwriting it. The senior confirms it on the next call, or a caregiver
+// confirms it from the dashboard.
+
+import crypto from 'crypto';
+import type {
+  Memory,
+  MemoryType,
+  MemoryUpdateProposal,
+  MemoryUpdateProposalStatus,
+  MemoryUpdateResolver,
+} from '@ultaura/types';
+import { getSupabaseClient } from '../utils/supabase.js';
+import {
+  buildMemoryAAD,
+  decryptMemoryValue,
+  encryptMemoryValue,
+  getOrCreateAccountDEK,
+} from '../utils/encryption.js';
+import { getMemoriesForLine, updateMemory } from './memory.js';
+import { logger } from '../server.js';
+
+function normalizeMemoryValue(value: unknown): string {
+  const text = Array.isArray(value)
+    ? value.join(' ')
+    : typeof value === 'string'
+      ? value
+      : JSON.stringify(value ?? '');
+
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// True when the proposed value says something different from what is remembered.
+// Restating the value, or only adding detail to it, is not a contradiction.
+export function valuesConflict(existing: unknown, proposed: unknown): boolean {
+  const current = normalizeMemoryValue(existing);
+  const next = normalizeMemoryValue(proposed);
+
+  if (!current || !next || current === next) return false;
+
+  return !next.includes(current) && !current.includes(next);
+}
+
+async function setProposalStatus(
+  proposalIds: string[],
+  status: Exclude<MemoryUpdateProposalStatus, 'pending'>,
+  resolvedBy: MemoryUpdateResolver
+): Promise<void> {
+  if (proposalIds.length === 0) return;
+
+  const supabase = getSupabaseClient();
+  const { error } = await supabase
+    .from('ultaura_memory_update_proposals')
+    .update({ status, resolved_by: resolvedBy, resolved_at: new Date().toISOString() })
+    .in('id', proposalIds)
+    .eq('status', 'pending');
+
+  if (error) {
+    logger.error({ error, proposalIds, status }, 'Failed to update memory proposal status');
+    throw new Error('Failed to update memory proposal');
+  }
+}
+
+// Pending proposals for the line, oldest first, each with the value it would replace.
+// Proposals whose memory was corrected or forgotten in the meantime are expired.
+export async function getPendingMemoryUpdates(
+  accountId: string,
+  lineId: string
+): Promise<MemoryUpdateProposal[]> {
+  const supabase = getSupabaseClient();
+
+  try {
+    const { data: rows, error } = await supabase
+      .from('ultaura_memory_update_proposals')
+      .select('*')
+      .eq('line_id', lineId)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    if (!rows || rows.length === 0) return [];
+
+    const memories = await getMemoriesForLine(accountId, lineId, { limit: 1000 });
+    const activeById = new Map(memories.map((memory) => [memory.id, memory]));
+    const dek = await getOrCreateAccountDEK(supabase, accountId);
+
+    const stale: string[] = [];
+    const proposals: MemoryUpdateProposal[] = [];
+
+    for (const row of rows) {
+      const memory = activeById.get(row.memory_id);
+      if (!memory) {
+        stale.push(row.id);
+        continue;
+      }
+
+      try {
+        // Proposals are encrypted like memories, with the proposal id in the AAD
+        const proposedValue = decryptMemoryValue(
+          dek,
+          Buffer.from(row.value_ciphertext),
+          Buffer.from(row.value_iv),
+          Buffer.from(row.value_tag),
+          buildMemoryAAD(row.account_id, row.line_id, row.id, row.type, row.key)
+        );
+
+        proposals.push({
+          id: row.id,
+          accountId: row.account_id,
+          lineId: row.line_id,
+          memoryId: row.memory_id,
+          callSessionId: row.call_session_id,
+          createdAt: row.created_at,
+          type: row.type as MemoryType,
+          key: row.key,
+          currentValue: memory.value,
+          proposedValue,
+          confidence: row.confidence,
+          status: 'pending',
+        });
+      } catch (err) {
+        logger.error({ error: err, proposalId: row.id }, 'Failed to decrypt memory proposal');
+      }
+    }
+
+    await setProposalStatus(stale, 'expired', 'system');
+
+    return proposals;
+  } catch (error) {
+    logger.error({ error, lineId }, 'Failed to fetch pending memory updates');
+    return [];
+  }
+}
+
+// Queue a contradicting value for confirmation. A newer proposal for the same memory replaces
+// an older pending one; the same value proposed twice is only queued once.
+export async function queueMemoryUpdate(
+  memory: Memory,
+  proposedValue: unknown,
+  options?: {
+    confidence?: number;
+    callSessionId?: string;
+  }
+): Promise<string | null> {
+  const supabase = getSupabaseClient();
+
+  try {
+    const pending = (await getPendingMemoryUpdates(memory.accountId, memory.lineId))
+      .filter((proposal) => proposal.memoryId === memory.id);
+
+    const duplicate = pending.find((proposal) => !valuesConflict(proposal.proposedValue, proposedValue));
+    if (duplicate) {
+      return duplicate.id;
+    }
+
+    await setProposalStatus(pending.map((proposal) => proposal.id), 'expired', 'system');
+
+    const dek = await getOrCreateAccountDEK(supabase, memory.accountId);
+    const proposalId = crypto.randomUUID();
+    const { ciphertext, iv, tag } = encryptMemoryValue(
+      dek,
+      proposedValue,
+      buildMemoryAAD(memory.accountId, memory.lineId, proposalId, memory.type, memory.key)
+    );
+
+    const { error } = await supabase.from('ultaura_memory_update_proposals').insert({
+      id: proposalId,
+      account_id: memory.accountId,
+      line_id: memory.lineId,
+      memory_id: memory.id,
+      call_session_id: options?.callSessionId ?? null,
+      type: memory.type,
+      key: memory.key,
+      value_ciphertext: ciphertext,
+      value_iv: iv,
+      value_tag: tag,
+      value_alg: 'AES-256-GCM',
+      value_kid: 'kek_v1',
+      confidence: options?.confidence ?? null,
+    });
+
+    if (error) throw error;
+
+    logger.info({ proposalId, memoryId: memory.id, key: memory.key }, 'Queued possible memory update');
+    return proposalId;
+  } catch (error) {
+    logger.error({ error, memoryId: memory.id }, 'Failed to queue possible memory update');
+    return null;
+  }
+}
+
+export type ResolveMemoryUpdateResult =
+  | { success: true; proposal: MemoryUpdateProposal; memoryId: string | null }
+  | { success: false; reason: 'not_found' | 'update_failed' };
+
+// Confirm applies the proposed value as a new version of the memory; reject leaves it unchanged
+export async function resolveMemoryUpdate(
+  accountId: string,
+  lineId: string,
+  proposalId: string,
+  confirmed: boolean,
+  resolvedBy: MemoryUpdateResolver
+): Promise<ResolveMemoryUpdateResult> {
+  const pending = await getPendingMemoryUpdates(accountId, lineId);
+  const proposal = pending.find((candidate) => candidate.id === proposalId);
+
+  if (!proposal) {
+    return { success: false, reason: 'not_found' };
+  }
+
+  let memoryId: string | null = null;
+
+  if (confirmed) {
+    memoryId = await updateMemory(accountId, lineId, proposal.memoryId, proposal.proposedValue, {
+      source: 'conversation',
+    });
+
+    if (!memoryId) {
+      return { success: false, reason: 'update_failed' };
+    }
+  }
+
+  await setProposalStatus([proposal.id], confirmed ? 'confirmed' : 'rejected', resolvedBy);
+
+  logger.info({ proposalId, confirmed, resolvedBy }, 'Resolved possible memory update');
+  return { success: true, proposal, memoryId };
+}
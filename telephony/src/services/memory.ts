@@ -6,9 +6,11 @@ import {
   fetchDecryptedMemories,
   storeEncryptedMemory,
   deactivateMemory,
+  supersedeMemory,
+  resolveFollowUpMemory,
 } from '../utils/encryption.js';
 import { logger } from '../server.js';
-import type { Memory, MemoryType, PrivacyScope } from '@ultaura/types';
+import type { Memory, MemoryTimelineEntry, MemoryType, PrivacyScope } from '@ultaura/types';
 
 // Fetch memories for a line (for prompt assembly)
 export async function getMemoriesForLine(
@@ -42,6 +44,8 @@ export async function getMemoriesForLine(
       active: m.active,
       privacyScope: m.privacyScope as PrivacyScope,
       redactionLevel: m.redactionLevel as Memory['redactionLevel'],
+      dueAt: m.dueAt,
+      resolvedAt: m.resolvedAt,
     }));
   } catch (error) {
     logger.error({
@@ -66,6 +70,7 @@ export async function storeMemory(
     confidence?: number;
     source?: 'onboarding' | 'conversation' | 'caregiver_seed';
     privacyScope?: PrivacyScope;
+    dueAt?: string | null;
   }
 ): Promise<string | null> {
   const supabase = getSupabaseClient();
@@ -82,6 +87,7 @@ export async function storeMemory(
         confidence: options?.confidence,
         source: options?.source || 'conversation',
         privacyScope: options?.privacyScope || 'line_only',
+        dueAt: type === 'follow_up' ? options?.dueAt : null,
       }
     );
 
@@ -97,7 +103,10 @@ export async function updateMemory(
   accountId: string,
   lineId: string,
   memoryId: string,
-  value: unknown
+  value: unknown,
+  options?: {
+    source?: 'onboarding' | 'conversation' | 'caregiver_seed';
+  }
 ): Promise<string | null> {
   const supabase = getSupabaseClient();
 
@@ -111,10 +120,7 @@ export async function updateMemory(
       return null;
     }
 
-    // Deactivate old version
-    await deactivateMemory(supabase, memoryId);
-
-    // Create new version
+    // Create the new version, then keep the old one as history
     const newId = await storeEncryptedMemory(
       supabase,
       accountId,
@@ -124,10 +130,15 @@ export async function updateMemory(
       value,
       {
         confidence: existing.confidence || 1.0,
+        source: options?.source ?? (existing.source as Memory['source']) ?? undefined,
         privacyScope: existing.privacyScope as PrivacyScope,
+        version: existing.version + 1,
+        dueAt: existing.dueAt,
       }
     );
 
+    await supersedeMemory(supabase, memoryId, newId);
+
     return newId;
   } catch (error) {
     logger.error({ error, memoryId }, 'Failed to update memory');
@@ -152,6 +163,34 @@ export async function forgetMemory(
   }
 }
 
+// Mark a follow-up answered so it stops driving call openers
+export async function resolveFollowUp(
+  accountId: string,
+  lineId: string,
+  memoryId: string
+): Promise<Memory | null> {
+  const supabase = getSupabaseClient();
+
+  try {
+    const followUp = (await getMemoriesForLine(accountId, lineId, { limit: 1000 }))
+      .find((memory) => memory.id === memoryId && memory.type === 'follow_up');
+
+    if (!followUp) {
+      logger.warn({ memoryId, lineId }, 'Follow-up not found to resolve');
+      return null;
+    }
+
+    if (!followUp.resolvedAt) {
+      await resolveFollowUpMemory(supabase, memoryId);
+    }
+
+    return followUp;
+  } catch (error) {
+    logger.error({ error, memoryId }, 'Failed to resolve follow-up');
+    return null;
+  }
+}
+
 // Mark a memory as line-only (don't tell family)
 export async function markMemoryPrivate(
   _accountId: string,
@@ -180,6 +219,34 @@ export async function markMemoryPrivate(
   }
 }
 
+// Every value a key has held for the line, oldest first
+export async function getMemoryTimeline(
+  accountId: string,
+  lineId: string,
+  key: string
+): Promise<MemoryTimelineEntry[]> {
+  const supabase = getSupabaseClient();
+
+  try {
+    const rows = await fetchDecryptedMemories(supabase, accountId, lineId, { active: false, key });
+
+    return rows
+      .map((row) => ({
+        id: row.id,
+        version: row.version,
+        value: row.value,
+        source: row.source as Memory['source'],
+        createdAt: row.createdAt,
+        status: row.active ? 'current' as const : row.supersededBy ? 'superseded' as const : 'forgotten' as const,
+        supersededAt: row.supersededAt,
+      }))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  } catch (error) {
+    logger.error({ error, lineId, key }, 'Failed to fetch memory timeline');
+    return [];
+  }
+}
+
 // Common memory keys
 export const MEMORY_KEYS = {
   PREFERRED_NAME: 'preferred_name',
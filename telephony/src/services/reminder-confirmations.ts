@@ -0,0 +1,360 @@
+// Medication-adherence confirmations
+// Reminders marked requires_confirmation ask the senior whether they did it. Each delivered
+// occurrence gets one confirmation row; the scheduler calls back while it stays unconfirmed,
+// and refused or missed doses build the line's missed-dose streak for payer alerts.
+
+import type {
+  ReminderConfirmation,
+  ReminderConfirmationResponse,
+  ReminderConfirmationStatus,
+} from '@ultaura/types';
+import { getSupabaseClient, ReminderRow } from '../utils/supabase.js';
+import {
+  REMINDER_CONFIRMATION_FOLLOW_UP_MINUTES,
+  REMINDER_CONFIRMATION_MAX_FOLLOW_UPS,
+} from '../utils/constants.js';
+import { logger } from '../server.js';
+import { checkMissedDoseAlert } from './weekly-summary.js';
+
+const OPEN_STATUSES: ReminderConfirmationStatus[] = ['pending', 'will_take_later'];
+
+export type ReminderConfirmationTrigger = 'voice' | 'sms';
+
+interface ReminderConfirmationRow {
+  id: string;
+  account_id: string;
+  reminder_id: string;
+  line_id: string;
+  occurrence_due_at: string;
+  status: string;
+  follow_up_attempts: number;
+  next_follow_up_at: string | null;
+  responded_at: string | null;
+}
+
+function toReminderConfirmation(row: ReminderConfirmationRow): ReminderConfirmation {
+  return {
+    id: row.id,
+    reminderId: row.reminder_id,
+    lineId: row.line_id,
+    occurrenceDueAt: row.occurrence_due_at,
+    status: row.status as ReminderConfirmationStatus,
+    followUpAttempts: row.follow_up_attempts,
+    respondedAt: row.responded_at,
+  };
+}
+
+function getNextFollowUpAt(from = Date.now()): string {
+  return new Date(from + REMINDER_CONFIRMATION_FOLLOW_UP_MINUTES * 60 * 1000).toISOString();
+}
+
+// The latest open confirmation for a reminder, or the open one for a given occurrence
+async function getOpenConfirmationRow(
+  reminderId: string,
+  occurrenceDueAt?: string
+): Promise<ReminderConfirmationRow | null> {
+  const supabase = getSupabaseClient();
+
+  let query = supabase
+    .from('ultaura_reminder_confirmations')
+    .select('*')
+    .eq('reminder_id', reminderId)
+    .in('status', OPEN_STATUSES);
+
+  if (occurrenceDueAt) {
+    query = query.eq('occurrence_due_at', occurrenceDueAt);
+  }
+
+  const { data, error } = await query
+    .order('occurrence_due_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    logger.error({ error, reminderId }, 'Failed to fetch open reminder confirmation');
+    return null;
+  }
+
+  return (data as ReminderConfirmationRow | null) ?? null;
+}
+
+// The unsettled confirmation for a reminder, if its last delivery is still waiting for an answer
+export async function getOpenReminderConfirmation(reminderId: string): Promise<ReminderConfirmation | null> {
+  const row = await getOpenConfirmationRow(reminderId);
+  return row ? toReminderConfirmation(row) : null;
+}
+
+// Start (or, for a snoozed re-delivery of the same occurrence, restart) waiting for an answer
+// after a reminder call was placed
+export async function openReminderConfirmation(
+  reminder: ReminderRow,
+  callSessionId: string | null
+): Promise<void> {
+  const supabase = getSupabaseClient();
+  const nextFollowUpAt = getNextFollowUpAt();
+  // Snoozed deliveries keep the occurrence they were snoozed from
+  const occurrenceDueAt = reminder.original_due_at || reminder.due_at;
+
+  const existing = await getOpenConfirmationRow(reminder.id, occurrenceDueAt);
+  if (existing) {
+    const { error } = await supabase
+      .from('ultaura_reminder_confirmations')
+      .update({ call_session_id: callSessionId, next_follow_up_at: nextFollowUpAt })
+      .eq('id', existing.id);
+
+    if (error) {
+      logger.error({ error, reminderId: reminder.id }, 'Failed to refresh reminder confirmation');
+    }
+    return;
+  }
+
+  const { error } = await supabase.from('ultaura_reminder_confirmations').insert({
+    account_id: reminder.account_id,
+    line_id: reminder.line_id,
+    reminder_id: reminder.id,
+    call_session_id: callSessionId,
+    occurrence_due_at: occurrenceDueAt,
+    next_follow_up_at: nextFollowUpAt,
+  });
+
+  // A duplicate means this occurrence was already settled (e.g. retried after a crash)
+  if (error && error.code !== '23505') {
+    logger.error({ error, reminderId: reminder.id }, 'Failed to open reminder confirmation');
+  }
+}
+
+async function logConfirmationEvent(
+  row: ReminderConfirmationRow,
+  eventType: 'confirmed' | 'declined' | 'dose_missed',
+  triggeredBy: ReminderConfirmationTrigger | 'system',
+  callSessionId: string | null
+): Promise<void> {
+  const supabase = getSupabaseClient();
+
+  const { error } = await supabase.from('ultaura_reminder_events').insert({
+    account_id: row.account_id,
+    reminder_id: row.reminder_id,
+    line_id: row.line_id,
+    event_type: eventType,
+    triggered_by: triggeredBy,
+    call_session_id: callSessionId,
+    metadata: { occurrenceDueAt: row.occurrence_due_at, followUpAttempts: row.follow_up_attempts },
+  });
+
+  if (error) {
+    logger.error({ error, reminderId: row.reminder_id, eventType }, 'Failed to log reminder confirmation event');
+  }
+}
+
+async function resetMissedDoses(lineId: string): Promise<void> {
+  const supabase = getSupabaseClient();
+
+  const { error } = await supabase
+    .from('ultaura_lines')
+    .update({ consecutive_missed_doses: 0, missed_dose_alert_sent_at: null })
+    .eq('id', lineId);
+
+  if (error) {
+    logger.error({ error, lineId }, 'Failed to reset missed doses');
+  }
+}
+
+// Refused and missed doses both count towards the streak the payer is alerted about
+async function recordMissedDose(row: ReminderConfirmationRow): Promise<void> {
+  const supabase = getSupabaseClient();
+
+  const { data: line, error } = await supabase
+    .from('ultaura_lines')
+    .select('display_name, short_id, consecutive_missed_doses, missed_dose_alert_sent_at')
+    .eq('id', row.line_id)
+    .single();
+
+  if (error || !line) {
+    logger.error({ error, lineId: row.line_id }, 'Failed to load line for missed dose');
+    return;
+  }
+
+  const missedCount = (line.consecutive_missed_doses ?? 0) + 1;
+
+  const { error: updateError } = await supabase
+    .from('ultaura_lines')
+    .update({ consecutive_missed_doses: missedCount })
+    .eq('id', row.line_id);
+
+  if (updateError) {
+    logger.error({ error: updateError, lineId: row.line_id }, 'Failed to record missed dose');
+    return;
+  }
+
+  const { data: reminder } = await supabase
+    .from('ultaura_reminders')
+    .select('message')
+    .eq('id', row.reminder_id)
+    .maybeSingle();
+
+  await checkMissedDoseAlert({
+    lineId: row.line_id,
+    accountId: row.account_id,
+    lineName: line.display_name,
+    lineShortId: line.short_id,
+    reminderMessage: reminder?.message ?? null,
+    consecutiveMissedDoses: missedCount,
+    missedDoseAlertSentAt: line.missed_dose_alert_sent_at ?? null,
+    lastMissedAt: new Date().toISOString(),
+  });
+}
+
+// Record the senior's answer for a reminder's open confirmation.
+// Returns false when there is nothing waiting for an answer.
+export async function recordReminderConfirmation(options: {
+  reminderId: string;
+  response: ReminderConfirmationResponse;
+  triggeredBy: ReminderConfirmationTrigger;
+  callSessionId: string | null;
+}): Promise<boolean> {
+  const { reminderId, response, triggeredBy, callSessionId } = options;
+  const supabase = getSupabaseClient();
+
+  const row = await getOpenConfirmationRow(reminderId);
+  if (!row) {
+    return false;
+  }
+
+  // "Later" keeps the occurrence open so the scheduler checks back
+  const { data: updated, error } = await supabase
+    .from('ultaura_reminder_confirmations')
+    .update({
+      status: response,
+      responded_at: new Date().toISOString(),
+      next_follow_up_at: response === 'will_take_later' ? getNextFollowUpAt() : null,
+    })
+    .eq('id', row.id)
+    .in('status', OPEN_STATUSES)
+    .select('id');
+
+  if (error) {
+    logger.error({ error, reminderId }, 'Failed to record reminder confirmation');
+    return false;
+  }
+
+  if (!updated?.length) {
+    return false;
+  }
+
+  if (response === 'taken') {
+    await logConfirmationEvent(row, 'confirmed', triggeredBy, callSessionId);
+    await resetMissedDoses(row.line_id);
+  } else if (response === 'refused') {
+    await logConfirmationEvent(row, 'declined', triggeredBy, callSessionId);
+    await recordMissedDose(row);
+  }
+
+  return true;
+}
+
+// Open confirmations whose call-back (or give-up) time has come
+export async function getDueReminderConfirmations(limit: number): Promise<Array<ReminderConfirmation & {
+  accountId: string;
+}>> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('ultaura_reminder_confirmations')
+    .select('*')
+    .in('status', OPEN_STATUSES)
+    .lte('next_follow_up_at', new Date().toISOString())
+    .order('next_follow_up_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    logger.error({ error }, 'Failed to fetch due reminder confirmations');
+    return [];
+  }
+
+  return ((data ?? []) as ReminderConfirmationRow[]).map((row) => ({
+    ...toReminderConfirmation(row),
+    accountId: row.account_id,
+  }));
+}
+
+export function hasFollowUpsRemaining(confirmation: Pick<ReminderConfirmation, 'followUpAttempts'>): boolean {
+  return confirmation.followUpAttempts < REMINDER_CONFIRMATION_MAX_FOLLOW_UPS;
+}
+
+// Take the next call-back for a confirmation. The attempt count acts as a version so only
+// one scheduler pass places the call.
+export async function claimConfirmationFollowUp(
+  confirmation: Pick<ReminderConfirmation, 'id' | 'followUpAttempts'>
+): Promise<boolean> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('ultaura_reminder_confirmations')
+    .update({
+      follow_up_attempts: confirmation.followUpAttempts + 1,
+      next_follow_up_at: getNextFollowUpAt(),
+    })
+    .eq('id', confirmation.id)
+    .eq('follow_up_attempts', confirmation.followUpAttempts)
+    .in('status', OPEN_STATUSES)
+    .select('id');
+
+  if (error) {
+    logger.error({ error, confirmationId: confirmation.id }, 'Failed to claim confirmation follow-up');
+    return false;
+  }
+
+  return Boolean(data?.length);
+}
+
+export async function setConfirmationFollowUpCall(confirmationId: string, callSessionId: string): Promise<void> {
+  const supabase = getSupabaseClient();
+
+  const { error } = await supabase
+    .from('ultaura_reminder_confirmations')
+    .update({ call_session_id: callSessionId })
+    .eq('id', confirmationId);
+
+  if (error) {
+    logger.error({ error, confirmationId }, 'Failed to record confirmation follow-up call');
+  }
+}
+
+// Push the next call-back past a snooze without spending an attempt
+export async function deferConfirmationFollowUp(confirmationId: string, until: string): Promise<void> {
+  const supabase = getSupabaseClient();
+
+  const { error } = await supabase
+    .from('ultaura_reminder_confirmations')
+    .update({ next_follow_up_at: getNextFollowUpAt(new Date(until).getTime()) })
+    .eq('id', confirmationId);
+
+  if (error) {
+    logger.error({ error, confirmationId }, 'Failed to defer confirmation follow-up');
+  }
+}
+
+// Call-backs ran out (or the reminder went away) without an answer
+export async function markReminderConfirmationMissed(confirmationId: string): Promise<void> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('ultaura_reminder_confirmations')
+    .update({ status: 'missed', next_follow_up_at: null })
+    .eq('id', confirmationId)
+    .in('status', OPEN_STATUSES)
+    .select('*');
+
+  if (error) {
+    logger.error({ error, confirmationId }, 'Failed to mark reminder confirmation missed');
+    return;
+  }
+
+  const row = (data as ReminderConfirmationRow[] | null)?.[0];
+  if (!row) {
+    return;
+  }
+
+  await logConfirmationEvent(row, 'dose_missed', 'system', null);
+  await recordMissedDose(row);
+}
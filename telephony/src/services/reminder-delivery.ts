@@ -0,0 +1,132 @@
+// Reminder delivery other than a conversational call
+// SMS reminders are texted by the scheduler; call_then_sms_fallback texts the reminder once its
+// call ends without reaching a person; voicemail_drop calls play a pre-recorded message.
+
+import { getSupabaseClient, CallSessionRow } from '../utils/supabase.js';
+import { sendSms } from '../utils/twilio.js';
+import { logger } from '../server.js';
+import { enforceRateLimit } from './rate-limiter.js';
+import { getLineById } from './line-lookup.js';
+
+export type ReminderSmsResult = 'sent' | 'rate_limited' | 'failed';
+
+const MACHINE_ANSWERS = new Set<CallSessionRow['answered_by']>([
+  'machine_start',
+  'machine_end_beep',
+  'machine_end_silence',
+  'machine_end_other',
+  'fax',
+]);
+
+export function getReminderSmsBody(message: string, isFallback: boolean): string {
+  const intro = isFallback ? 'Ultaura: we tried to call with a reminder' : 'Ultaura reminder';
+  return `${intro}: ${message}. Reply DONE when finished or SNOOZE 15 to be reminded again.`;
+}
+
+// Whether a finished call never reached a person: it rang out, was busy or failed, or a
+// machine picked up
+export function isUnansweredCall(
+  session: Pick<CallSessionRow, 'answered_by'>,
+  twilioStatus: string
+): boolean {
+  if (twilioStatus === 'no-answer' || twilioStatus === 'busy' || twilioStatus === 'failed') {
+    return true;
+  }
+
+  return twilioStatus === 'completed' && MACHINE_ANSWERS.has(session.answered_by);
+}
+
+// Text a reminder to the line, counted against the account's SMS limit
+export async function sendReminderSms(options: {
+  accountId: string;
+  phoneE164: string;
+  message: string;
+  isFallback: boolean;
+  callSessionId: string | null;
+}): Promise<ReminderSmsResult> {
+  const rateLimitResult = await enforceRateLimit({
+    action: 'sms',
+    accountId: options.accountId,
+    callSessionId: options.callSessionId ?? undefined,
+    phoneNumber: options.phoneE164,
+  });
+
+  if (!rateLimitResult.allowed) {
+    logger.warn(
+      { accountId: options.accountId, limit: rateLimitResult.limitType },
+      'SMS rate limit exceeded, skipping reminder text'
+    );
+    return 'rate_limited';
+  }
+
+  try {
+    await sendSms({
+      to: options.phoneE164,
+      body: getReminderSmsBody(options.message, options.isFallback),
+    });
+    return 'sent';
+  } catch {
+    return 'failed';
+  }
+}
+
+async function logDeliveryEvent(
+  session: CallSessionRow,
+  eventType: 'voicemail_dropped' | 'sms_fallback_sent' | 'failed',
+  metadata: Record<string, unknown>
+): Promise<void> {
+  const supabase = getSupabaseClient();
+
+  const { error } = await supabase.from('ultaura_reminder_events').insert({
+    account_id: session.account_id,
+    reminder_id: session.reminder_id,
+    line_id: session.line_id,
+    event_type: eventType,
+    triggered_by: 'system',
+    call_session_id: session.id,
+    metadata,
+  });
+
+  if (error) {
+    logger.error({ error, sessionId: session.id, eventType }, 'Failed to log reminder delivery event');
+  }
+}
+
+export async function recordVoicemailDrop(session: CallSessionRow, answeredBy: string | null): Promise<void> {
+  if (!session.reminder_id) {
+    return;
+  }
+
+  await logDeliveryEvent(session, 'voicemail_dropped', { answeredBy });
+}
+
+// Text the reminder after its call went unanswered, for call_then_sms_fallback reminders
+export async function sendReminderSmsFallback(session: CallSessionRow): Promise<void> {
+  if (
+    session.reminder_delivery_method !== 'call_then_sms_fallback' ||
+    !session.reminder_id ||
+    !session.reminder_message
+  ) {
+    return;
+  }
+
+  const lineWithAccount = await getLineById(session.line_id);
+  if (!lineWithAccount || lineWithAccount.line.do_not_call) {
+    return;
+  }
+
+  const result = await sendReminderSms({
+    accountId: session.account_id,
+    phoneE164: lineWithAccount.line.phone_e164,
+    message: session.reminder_message,
+    isFallback: true,
+    callSessionId: session.id,
+  });
+
+  if (result === 'sent') {
+    await logDeliveryEvent(session, 'sms_fallback_sent', {});
+    logger.info({ sessionId: session.id, reminderId: session.reminder_id }, 'Sent reminder text after unanswered call');
+  } else {
+    await logDeliveryEvent(session, 'failed', { reason: `sms_fallback_${result}` });
+  }
+}
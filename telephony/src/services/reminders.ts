@@ -0,0 +1,145 @@
+// Reminder actions shared by voice tools and inbound SMS commands
+
+import { getSupabaseClient, ReminderRow } from '../utils/supabase.js';
+import { SMS_REMINDER_REPLY_WINDOW_HOURS } from '../utils/constants.js';
+import { logger } from '../server.js';
+
+export type ReminderActionTrigger = 'voice' | 'sms';
+
+// Push a reminder back by snoozeMinutes and log the snooze.
+// Returns null if the update failed.
+export async function snoozeReminder(options: {
+  reminder: ReminderRow;
+  snoozeMinutes: number;
+  triggeredBy: ReminderActionTrigger;
+  callSessionId: string | null;
+}): Promise<{ newDueAt: string; snoozeCount: number } | null> {
+  const { reminder, snoozeMinutes, triggeredBy, callSessionId } = options;
+  const supabase = getSupabaseClient();
+
+  const newDueAt = new Date(Date.now() + snoozeMinutes * 60 * 1000).toISOString();
+  const originalDueAt = reminder.original_due_at || reminder.due_at;
+  const snoozeCount = reminder.current_snooze_count + 1;
+
+  // A one-time reminder is already marked sent once delivered; snoozing reschedules it
+  const { error: updateError } = await supabase
+    .from('ultaura_reminders')
+    .update({
+      status: 'scheduled',
+      due_at: newDueAt,
+      original_due_at: originalDueAt,
+      snoozed_until: newDueAt,
+      current_snooze_count: snoozeCount,
+    })
+    .eq('id', reminder.id);
+
+  if (updateError) {
+    logger.error({ error: updateError, reminderId: reminder.id }, 'Failed to snooze reminder');
+    return null;
+  }
+
+  await supabase.from('ultaura_reminder_events').insert({
+    account_id: reminder.account_id,
+    reminder_id: reminder.id,
+    line_id: reminder.line_id,
+    event_type: 'snoozed',
+    triggered_by: triggeredBy,
+    call_session_id: callSessionId,
+    metadata: {
+      snoozeMinutes,
+      snoozeCount,
+      originalDueAt,
+      newDueAt,
+    },
+  });
+
+  return { newDueAt, snoozeCount };
+}
+
+// Record that the user confirmed they acted on a delivered reminder
+export async function acknowledgeReminder(options: {
+  reminder: ReminderRow;
+  triggeredBy: ReminderActionTrigger;
+  callSessionId: string | null;
+}): Promise<void> {
+  const { reminder, triggeredBy, callSessionId } = options;
+  const supabase = getSupabaseClient();
+
+  const { error } = await supabase.from('ultaura_reminder_events').insert({
+    account_id: reminder.account_id,
+    reminder_id: reminder.id,
+    line_id: reminder.line_id,
+    event_type: 'acknowledged',
+    triggered_by: triggeredBy,
+    call_session_id: callSessionId,
+  });
+
+  if (error) {
+    logger.error({ error, reminderId: reminder.id }, 'Failed to record reminder acknowledgement');
+  }
+}
+
+// The reminder delivered by the line's most recent reminder call or text, if it was recent
+// enough for a text reply to plausibly refer to it
+export async function getRecentlyDeliveredReminder(
+  lineId: string
+): Promise<{ reminder: ReminderRow; callSessionId: string | null } | null> {
+  const supabase = getSupabaseClient();
+  const since = new Date(Date.now() - SMS_REMINDER_REPLY_WINDOW_HOURS * 60 * 60 * 1000).toISOString();
+
+  const [sessionResult, textResult] = await Promise.all([
+    supabase
+      .from('ultaura_call_sessions')
+      .select('id, reminder_id, created_at')
+      .eq('line_id', lineId)
+      .not('reminder_id', 'is', null)
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    // Texted reminders have no call session of their own
+    supabase
+      .from('ultaura_reminder_events')
+      .select('reminder_id, created_at')
+      .eq('line_id', lineId)
+      .eq('event_type', 'sms_sent')
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  if (sessionResult.error) {
+    logger.error({ error: sessionResult.error, lineId }, 'Failed to find recent reminder call');
+  }
+
+  if (textResult.error) {
+    logger.error({ error: textResult.error, lineId }, 'Failed to find recent reminder text');
+  }
+
+  const session = sessionResult.data as { id: string; reminder_id: string; created_at: string } | null;
+  const text = textResult.data as { reminder_id: string; created_at: string } | null;
+
+  const latest = text && (!session || text.created_at > session.created_at)
+    ? { reminderId: text.reminder_id, callSessionId: null }
+    : session
+      ? { reminderId: session.reminder_id, callSessionId: session.id }
+      : null;
+
+  if (!latest) {
+    return null;
+  }
+
+  const { data: reminder, error: reminderError } = await supabase
+    .from('ultaura_reminders')
+    .select('*')
+    .eq('id', latest.reminderId)
+    .eq('line_id', lineId)
+    .maybeSingle();
+
+  if (reminderError || !reminder) {
+    return null;
+  }
+
+  return { reminder: reminder as ReminderRow, callSessionId: latest.callSessionId };
+}
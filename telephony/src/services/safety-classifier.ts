@@ -0,0 +1,91 @@
+// Pluggable safety classifier stage
+// Scores each user transcript turn alongside the keyword backstop. Selected with SAFETY_CLASSIFIER:
+// rules (default) | local_model (POSTs to SAFETY_CLASSIFIER_URL) | none
+
+import type { SafetyTier } from '@ultaura/types';
+import { SAFETY_CLASSIFIER_MIN_SCORE, SAFETY_CLASSIFIER_TIMEOUT_MS } from '../utils/constants.js';
+import { RulesSafetyClassifier } from './safety-rules-classifier.js';
+import { logger } from '../server.js';
+
+export type SafetyClassifierId = 'rules' | 'local_model';
+
+export interface SafetyClassification {
+  tier: SafetyTier;
+  // 0-1 confidence that the turn belongs to this tier
+  score: number;
+  // Rule or label that produced the classification
+  reason: string;
+}
+
+export interface SafetyClassifier {
+  readonly id: SafetyClassifierId;
+  classify(transcript: string): Promise<SafetyClassification[]>;
+}
+
+const SAFETY_TIERS: readonly SafetyTier[] = ['low', 'medium', 'high'];
+
+// Client for a locally hosted model server.
+// Request: { text }. Response: { labels: [{ tier, score, label? }] }
+export class LocalModelSafetyClassifier implements SafetyClassifier {
+  readonly id = 'local_model' as const;
+
+  constructor(private readonly url: string) {}
+
+  async classify(transcript: string): Promise<SafetyClassification[]> {
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text: transcript }),
+        signal: AbortSignal.timeout(SAFETY_CLASSIFIER_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        logger.warn({ status: response.status }, 'Safety classifier model returned an error');
+        return [];
+      }
+
+      const body = (await response.json()) as {
+        labels?: Array<{ tier?: string; score?: number; label?: string }>;
+      };
+
+      return (body.labels ?? [])
+        .filter((label): label is { tier: SafetyTier; score: number; label?: string } =>
+          SAFETY_TIERS.includes(label.tier as SafetyTier) &&
+          typeof label.score === 'number' &&
+          label.score >= SAFETY_CLASSIFIER_MIN_SCORE
+        )
+        .map((label) => ({ tier: label.tier, score: label.score, reason: label.label || 'local_model' }));
+    } catch (error) {
+      logger.warn({ error }, 'Safety classifier model request failed');
+      return [];
+    }
+  }
+}
+
+let classifier: SafetyClassifier | null | undefined;
+
+// Shared classifier for all calls, or null when the stage is disabled
+export function getSafetyClassifier(): SafetyClassifier | null {
+  if (classifier !== undefined) {
+    return classifier;
+  }
+
+  const configured = process.env.SAFETY_CLASSIFIER || 'rules';
+
+  if (configured === 'none') {
+    classifier = null;
+  } else if (configured === 'local_model') {
+    const url = process.env.SAFETY_CLASSIFIER_URL;
+    if (url) {
+      classifier = new LocalModelSafetyClassifier(url);
+    } else {
+      logger.warn('SAFETY_CLASSIFIER_URL is not set, using the rules safety classifier');
+      classifier = new RulesSafetyClassifier();
+    }
+  } else {
+    classifier = new RulesSafetyClassifier();
+  }
+
+  return classifier;
+}
@@ -0,0 +1,344 @@
+// Safety escalation ladder
+// Texts the first trusted contact about a high-tier safety event, then calls
+// contacts in order until someone acknowledges the alert
+
+import { getSupabaseClient } from '../utils/supabase.js';
+import { generateSafetyAlertCallTwiML, getTwilioClient, sendSms } from '../utils/twilio.js';
+import { getPublicUrl } from '../utils/env.js';
+import {
+  SAFETY_ACK_SMS_KEYWORD,
+  SAFETY_ESCALATION_RING_TIMEOUT_SECONDS,
+  SAFETY_ESCALATION_STEP_MINUTES,
+} from '../utils/constants.js';
+import { redactPhone } from '../utils/redact.js';
+import { enforceRateLimit } from './rate-limiter.js';
+import { logger } from '../server.js';
+
+export type EscalationStatus = 'pending' | 'acknowledged' | 'exhausted';
+export type EscalationChannel = 'sms' | 'voice';
+type EscalationAttemptStatus = 'sent' | 'failed' | 'rate_limited';
+
+export interface EscalationContact {
+  id: string;
+  name: string;
+  phoneE164: string;
+}
+
+export interface EscalationStep {
+  channel: EscalationChannel;
+  contact: EscalationContact;
+}
+
+export interface EscalatingSafetyEvent {
+  id: string;
+  account_id: string;
+  line_id: string;
+  call_session_id: string | null;
+  action_taken: string | null;
+  escalation_step: number;
+}
+
+// Contact 1 is texted first, then each contact is called in order
+export function buildEscalationLadder(contacts: EscalationContact[]): EscalationStep[] {
+  if (contacts.length === 0) {
+    return [];
+  }
+
+  return [
+    { channel: 'sms', contact: contacts[0] },
+    ...contacts.map((contact) => ({ channel: 'voice' as const, contact })),
+  ];
+}
+
+export function getNextEscalationAt(from: Date = new Date()): string {
+  return new Date(from.getTime() + SAFETY_ESCALATION_STEP_MINUTES * 60 * 1000).toISOString();
+}
+
+export function isAcknowledgementReply(body: string): boolean {
+  return body.trim().replace(/[.!]+$/, '').toUpperCase() === SAFETY_ACK_SMS_KEYWORD;
+}
+
+function describeActionTaken(actionTaken: string | null): string {
+  if (actionTaken === 'suggested_988') return 'Suggested calling 988 crisis line';
+  if (actionTaken === 'suggested_911') return 'Suggested calling 911';
+  return 'Provided support';
+}
+
+// Trusted contacts who asked for high-tier alerts, oldest first.
+// Requires trusted_contact_notify consent on the line.
+export async function getEscalationContacts(lineId: string): Promise<EscalationContact[]> {
+  const supabase = getSupabaseClient();
+
+  const { data: consent } = await supabase
+    .from('ultaura_consents')
+    .select('granted')
+    .eq('line_id', lineId)
+    .eq('type', 'trusted_contact_notify')
+    .eq('granted', true)
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (!consent) {
+    logger.info({ lineId }, 'No trusted contact consent found, skipping escalation');
+    return [];
+  }
+
+  const { data: contacts, error } = await supabase
+    .from('ultaura_trusted_contacts')
+    .select('id, name, phone_e164, notify_on')
+    .eq('line_id', lineId)
+    .eq('enabled', true)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    logger.error({ error, lineId }, 'Failed to load trusted contacts for escalation');
+    return [];
+  }
+
+  return (contacts || [])
+    .filter((c) => Array.isArray(c.notify_on) && c.notify_on.includes('high'))
+    .map((c) => ({ id: c.id, name: c.name, phoneE164: c.phone_e164 }));
+}
+
+async function getLovedOneName(lineId: string): Promise<string> {
+  const supabase = getSupabaseClient();
+
+  const { data: line } = await supabase
+    .from('ultaura_lines')
+    .select('display_name')
+    .eq('id', lineId)
+    .single();
+
+  return line?.display_name || 'Your loved one';
+}
+
+async function recordEscalationAttempt(
+  event: EscalatingSafetyEvent,
+  step: number,
+  attempt: EscalationStep,
+  status: EscalationAttemptStatus,
+  twilioSid: string | null
+): Promise<void> {
+  const supabase = getSupabaseClient();
+
+  const { error } = await supabase.from('ultaura_safety_escalation_attempts').insert({
+    safety_event_id: event.id,
+    account_id: event.account_id,
+    contact_id: attempt.contact.id,
+    step,
+    channel: attempt.channel,
+    status,
+    twilio_sid: twilioSid,
+  });
+
+  if (error) {
+    logger.error({ error, safetyEventId: event.id, step }, 'Failed to record escalation attempt');
+  }
+}
+
+async function runEscalationStep(
+  event: EscalatingSafetyEvent,
+  step: number,
+  attempt: EscalationStep
+): Promise<void> {
+  const { contact } = attempt;
+  const lovedOneName = await getLovedOneName(event.line_id);
+
+  if (attempt.channel === 'sms') {
+    const rateLimitResult = await enforceRateLimit({
+      action: 'sms',
+      accountId: event.account_id,
+      callSessionId: event.call_session_id ?? undefined,
+      phoneNumber: contact.phoneE164,
+    });
+
+    if (!rateLimitResult.allowed) {
+      logger.warn(
+        { accountId: event.account_id, contactId: contact.id, limit: rateLimitResult.limitType },
+        'SMS rate limit exceeded, skipping safety alert text'
+      );
+      await recordEscalationAttempt(event, step, attempt, 'rate_limited', null);
+      return;
+    }
+
+    try {
+      const messageSid = await sendSms({
+        to: contact.phoneE164,
+        body: `Ultaura safety alert: ${lovedOneName} may need support. Action taken: ${describeActionTaken(event.action_taken)}. Please check in with them. Reply ${SAFETY_ACK_SMS_KEYWORD} to let us know you are on it.`,
+      });
+      await recordEscalationAttempt(event, step, attempt, 'sent', messageSid);
+      logger.info({ safetyEventId: event.id, contactId: contact.id, step }, 'Sent safety alert text');
+    } catch (error) {
+      logger.error({ error, safetyEventId: event.id, contactId: contact.id }, 'Failed to text trusted contact');
+      await recordEscalationAttempt(event, step, attempt, 'failed', null);
+    }
+    return;
+  }
+
+  const from = process.env.TWILIO_PHONE_NUMBER;
+  if (!from) {
+    logger.error({ safetyEventId: event.id }, 'Missing TWILIO_PHONE_NUMBER, cannot place safety alert call');
+    await recordEscalationAttempt(event, step, attempt, 'failed', null);
+    return;
+  }
+
+  const query = new URLSearchParams({ safetyEventId: event.id, contactId: contact.id });
+
+  try {
+    const call = await getTwilioClient().calls.create({
+      to: contact.phoneE164,
+      from,
+      twiml: generateSafetyAlertCallTwiML({
+        message: `Hello ${contact.name}, this is an automated safety alert from Ultaura. ${lovedOneName} may need support and nobody has responded to our earlier alert yet. Please check in with them as soon as you can.`,
+        ackUrl: `${getPublicUrl()}/twilio/safety/ack?${query.toString()}`,
+      }),
+      timeout: SAFETY_ESCALATION_RING_TIMEOUT_SECONDS,
+    });
+    await recordEscalationAttempt(event, step, attempt, 'sent', call.sid);
+    logger.info({ safetyEventId: event.id, contactId: contact.id, step }, 'Placed safety alert call');
+  } catch (error) {
+    logger.error(
+      { error, safetyEventId: event.id, to: redactPhone(contact.phoneE164) },
+      'Failed to call trusted contact'
+    );
+    await recordEscalationAttempt(event, step, attempt, 'failed', null);
+  }
+}
+
+// Start the ladder for a newly logged high-tier safety event
+export async function startSafetyEscalation(event: EscalatingSafetyEvent): Promise<void> {
+  const ladder = buildEscalationLadder(await getEscalationContacts(event.line_id));
+
+  if (ladder.length === 0) {
+    logger.info({ lineId: event.line_id }, 'No contacts configured for high-tier notifications');
+    return;
+  }
+
+  const supabase = getSupabaseClient();
+  const { error } = await supabase
+    .from('ultaura_safety_events')
+    .update({
+      escalation_status: 'pending',
+      escalation_step: 0,
+      next_escalation_at: getNextEscalationAt(),
+    })
+    .eq('id', event.id);
+
+  if (error) {
+    logger.error({ error, safetyEventId: event.id }, 'Failed to start safety escalation');
+    return;
+  }
+
+  await runEscalationStep(event, 0, ladder[0]);
+}
+
+// Run the next step for an unacknowledged event whose wait has elapsed.
+// The step is claimed with a conditional update so concurrent runs cannot repeat it.
+export async function advanceSafetyEscalation(event: EscalatingSafetyEvent): Promise<void> {
+  const supabase = getSupabaseClient();
+  const nextStep = event.escalation_step + 1;
+  const ladder = buildEscalationLadder(await getEscalationContacts(event.line_id));
+
+  if (nextStep >= ladder.length) {
+    await supabase
+      .from('ultaura_safety_events')
+      .update({ escalation_status: 'exhausted', next_escalation_at: null })
+      .eq('id', event.id)
+      .eq('escalation_status', 'pending');
+
+    logger.warn({ safetyEventId: event.id, lineId: event.line_id }, 'Safety escalation exhausted without acknowledgement');
+    return;
+  }
+
+  const { data: claimed, error } = await supabase
+    .from('ultaura_safety_events')
+    .update({ escalation_step: nextStep, next_escalation_at: getNextEscalationAt() })
+    .eq('id', event.id)
+    .eq('escalation_status', 'pending')
+    .eq('escalation_step', event.escalation_step)
+    .select('id');
+
+  if (error) {
+    logger.error({ error, safetyEventId: event.id }, 'Failed to claim safety escalation step');
+    return;
+  }
+
+  if (!claimed || claimed.length === 0) {
+    return;
+  }
+
+  await runEscalationStep({ ...event, escalation_step: nextStep }, nextStep, ladder[nextStep]);
+}
+
+export async function acknowledgeSafetyEscalation(
+  safetyEventId: string,
+  contactId: string | null
+): Promise<boolean> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('ultaura_safety_events')
+    .update({
+      escalation_status: 'acknowledged',
+      acknowledged_at: new Date().toISOString(),
+      acknowledged_by_contact_id: contactId,
+      next_escalation_at: null,
+    })
+    .eq('id', safetyEventId)
+    .eq('escalation_status', 'pending')
+    .select('id');
+
+  if (error) {
+    logger.error({ error, safetyEventId }, 'Failed to acknowledge safety escalation');
+    return false;
+  }
+
+  const acknowledged = (data?.length ?? 0) > 0;
+  if (acknowledged) {
+    logger.info({ safetyEventId, contactId }, 'Safety escalation acknowledged');
+  }
+  return acknowledged;
+}
+
+// Acknowledge every pending escalation on lines where this phone is a trusted contact.
+// Returns the number of events acknowledged.
+export async function acknowledgeEscalationsByPhone(phoneE164: string): Promise<number> {
+  const supabase = getSupabaseClient();
+
+  const { data: contacts, error: contactsError } = await supabase
+    .from('ultaura_trusted_contacts')
+    .select('id, line_id')
+    .eq('phone_e164', phoneE164)
+    .eq('enabled', true);
+
+  if (contactsError) {
+    logger.error({ error: contactsError, from: redactPhone(phoneE164) }, 'Failed to look up trusted contact');
+    return 0;
+  }
+
+  if (!contacts || contacts.length === 0) {
+    return 0;
+  }
+
+  const contactByLine = new Map(contacts.map((c) => [c.line_id as string, c.id as string]));
+
+  const { data: events, error: eventsError } = await supabase
+    .from('ultaura_safety_events')
+    .select('id, line_id')
+    .in('line_id', [...contactByLine.keys()])
+    .eq('escalation_status', 'pending');
+
+  if (eventsError) {
+    logger.error({ error: eventsError }, 'Failed to load pending safety escalations');
+    return 0;
+  }
+
+  let acknowledgedCount = 0;
+  for (const event of events || []) {
+    if (await acknowledgeSafetyEscalation(event.id, contactByLine.get(event.line_id) ?? null)) {
+      acknowledgedCount++;
+    }
+  }
+
+  return acknowledgedCount;
+}
@@ -0,0 +1,77 @@
+// Keyword backstop for safety detection
+// Flags transcripts containing a SAFETY_KEYWORDS phrase that is not part of an excluded figure of speech
+
+import { SAFETY_EXCLUSION_PATTERNS, SAFETY_KEYWORDS } from '@ultaura/prompts/safety';
+import type { SafetyMatch, SafetyTier } from '@ultaura/types';
+
+function findKeywordMatch(
+  text: string,
+  keyword: string,
+  fromIndex = 0
+): { start: number; end: number } | null {
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const regex = new RegExp(`\\b${escaped}\\b`, 'gi');
+  regex.lastIndex = fromIndex;
+  const match = regex.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  return { start: match.index, end: match.index + match[0].length };
+}
+
+function isExcludedAtPosition(text: string, keywordStart: number, keywordEnd: number): boolean {
+  for (const pattern of SAFETY_EXCLUSION_PATTERNS) {
+    const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const regex = new RegExp(`\\b${escaped}\\b`, 'gi');
+    let match: RegExpExecArray | null;
+
+    while ((match = regex.exec(text)) !== null) {
+      const exclStart = match.index;
+      const exclEnd = match.index + match[0].length;
+      if (keywordStart < exclEnd && keywordEnd > exclStart) {
+        return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+// At most one match per tier; tiers in skipTiers are not scanned
+export function scanForSafetyKeywords(
+  transcript: string,
+  skipTiers: ReadonlySet<SafetyTier> = new Set()
+): SafetyMatch[] {
+  const text = transcript.toLowerCase().trim();
+  const matches: SafetyMatch[] = [];
+
+  for (const tier of ['high', 'medium', 'low'] as const) {
+    if (skipTiers.has(tier)) {
+      continue;
+    }
+
+    const keywords = SAFETY_KEYWORDS[tier];
+    let matchedTier = false;
+
+    for (const keyword of keywords) {
+      let keywordMatch = findKeywordMatch(text, keyword);
+
+      while (keywordMatch) {
+        if (!isExcludedAtPosition(text, keywordMatch.start, keywordMatch.end)) {
+          matches.push({ tier, matchedKeyword: keyword });
+          matchedTier = true;
+          break;
+        }
+
+        keywordMatch = findKeywordMatch(text, keyword, keywordMatch.end);
+      }
+
+      if (matchedTier) {
+        break;
+      }
+    }
+  }
+
+  return matches;
+}
@@ -0,0 +1,173 @@
+// Rules-engine safety classifier
+// Matches paraphrases of safety phrases, then scores each match down when a negation
+// or a reported-speech cue ("a movie about", "my friend") appears shortly before it
+
+import { SAFETY_EXCLUSION_PATTERNS } from '@ultaura/prompts/safety';
+import type { SafetyTier } from '@ultaura/types';
+import { SAFETY_CLASSIFIER_MIN_SCORE } from '../utils/constants.js';
+import type { SafetyClassification, SafetyClassifier } from './safety-classifier.js';
+
+interface SafetyRule {
+  id: string;
+  tier: SafetyTier;
+  score: number;
+  pattern: RegExp;
+}
+
+const SAFETY_RULES: SafetyRule[] = [
+  // High
+  { id: 'suicide_mention', tier: 'high', score: 0.95, pattern: /\bsuicid(?:e|al)\b/ },
+  { id: 'self_harm', tier: 'high', score: 0.95, pattern: /\b(?:kill|harm|cut|hang|shoot|poison|starve) myself\b/ },
+  { id: 'self_harm', tier: 'high', score: 0.9, pattern: /\bself[- ]harm\b/ },
+  { id: 'self_harm_intent', tier: 'high', score: 0.85, pattern: /\b(?:want to|going to|gonna|might|could) hurt myself\b/ },
+  { id: 'end_life', tier: 'high', score: 0.95, pattern: /\b(?:end|ending) (?:my (?:own )?life|it all)\b/ },
+  { id: 'end_life', tier: 'high', score: 0.95, pattern: /\b(?:take|taking) my (?:own )?life\b/ },
+  { id: 'end_things', tier: 'high', score: 0.85, pattern: /\b(?:thinking about|thought about|want to|going to|ready to) end(?:ing)? (?:things|everything)\b/ },
+  { id: 'wish_dead', tier: 'high', score: 0.9, pattern: /\b(?:want to|wanna|wish i could) die\b/ },
+  { id: 'wish_dead', tier: 'high', score: 0.9, pattern: /\b(?:wish i (?:was|were)|want to be) dead\b/ },
+  { id: 'wish_dead', tier: 'high', score: 0.8, pattern: /\bready to die\b/ },
+  { id: 'not_want_to_live', tier: 'high', score: 0.9, pattern: /\b(?:don't|do not|no longer) want to (?:live|be alive|be here|go on|wake up)\b/ },
+  { id: 'not_wake_up', tier: 'high', score: 0.85, pattern: /\b(?:go to sleep|fall asleep) and (?:never|not) wake up\b/ },
+  { id: 'not_wake_up', tier: 'high', score: 0.9, pattern: /\bhope i (?:don't|do not|never) wake up\b/ },
+  { id: 'better_off_without_me', tier: 'high', score: 0.9, pattern: /\bbetter off (?:dead|without me)\b/ },
+  { id: 'no_reason_to_live', tier: 'high', score: 0.85, pattern: /\bno (?:reason|point) (?:to|in) (?:live|living|go on|going on)\b/ },
+  { id: 'stockpiling_medication', tier: 'high', score: 0.85, pattern: /\b(?:saving|saved|stockpiling|hoarding|collecting) (?:up )?(?:my )?(?:pills|tablets|medication|medicine|meds)\b/ },
+  { id: 'wish_dead_es', tier: 'high', score: 0.9, pattern: /\b(?:quiero|quisiera) (?:morir(?:me)?|matarme)\b/ },
+  { id: 'end_life_es', tier: 'high', score: 0.9, pattern: /\b(?:quitarme la vida|acabar con (?:todo|mi vida)|suicidarme|suicidio)\b/ },
+
+  // Medium
+  { id: 'hopeless', tier: 'medium', score: 0.8, pattern: /\b(?:hopeless|no hope left|lost all hope)\b/ },
+  { id: 'cannot_go_on', tier: 'medium', score: 0.8, pattern: /\b(?:can't|cannot|can not) (?:go on|keep going|do this anymore|take (?:it|this) anymore|take much more)\b/ },
+  { id: 'life_pointless', tier: 'medium', score: 0.8, pattern: /\bwhat's the point (?:of|in) (?:anything|living|life|it all|going on|getting up)\b/ },
+  { id: 'life_pointless', tier: 'medium', score: 0.8, pattern: /\b(?:life|living) (?:is|feels) (?:pointless|meaningless|not worth it)\b/ },
+  { id: 'life_pointless', tier: 'medium', score: 0.85, pattern: /\bnot worth living\b/ },
+  { id: 'burden', tier: 'medium', score: 0.8, pattern: /\b(?:i'm|i am|i've become|i feel like) (?:just )?a burden\b/ },
+  { id: 'burden', tier: 'medium', score: 0.8, pattern: /\bburden (?:to|on) (?:everyone|everybody|my family|my kids|my children)\b/ },
+  { id: 'nobody_would_miss_me', tier: 'medium', score: 0.85, pattern: /\b(?:nobody|no one) would (?:miss|notice|care) (?:me|if i)\b/ },
+  { id: 'disappear', tier: 'medium', score: 0.75, pattern: /\b(?:want to|wanna|wish i could) disappear\b/ },
+  { id: 'disappear', tier: 'medium', score: 0.85, pattern: /\bwish i (?:wasn't|weren't) (?:here|around|alive)\b/ },
+  { id: 'giving_up', tier: 'medium', score: 0.8, pattern: /\bgiv(?:e|ing) up on (?:life|everything|myself|living)\b/ },
+  { id: 'tired_of_living', tier: 'medium', score: 0.8, pattern: /\b(?:tired|sick) of (?:living|life|being alive)\b/ },
+  { id: 'hopeless_es', tier: 'medium', score: 0.8, pattern: /\b(?:sin esperanza|no vale la pena (?:vivir|seguir)|ya no puedo seguir|rendirme)\b/ },
+
+  // Low
+  { id: 'lonely', tier: 'low', score: 0.7, pattern: /\b(?:so|very|really|terribly|awfully) lonely\b/ },
+  { id: 'lonely', tier: 'low', score: 0.7, pattern: /\b(?:feel|feeling) (?:so |very |really )?(?:lonely|alone)\b/ },
+  { id: 'lonely', tier: 'low', score: 0.7, pattern: /\b(?:i'm|i am) (?:so |very |really )?lonely\b/ },
+  { id: 'lonely', tier: 'low', score: 0.65, pattern: /\ball alone\b/ },
+  { id: 'nobody_cares', tier: 'low', score: 0.7, pattern: /\b(?:nobody|no one) (?:cares|calls|visits|talks to me|checks on me)\b/ },
+  { id: 'apathy', tier: 'low', score: 0.7, pattern: /\bnothing matters\b/ },
+  { id: 'apathy', tier: 'low', score: 0.7, pattern: /\bdon't care (?:about anything )?anymore\b/ },
+  { id: 'apathy', tier: 'low', score: 0.65, pattern: /\btired of everything\b/ },
+  { id: 'lonely_es', tier: 'low', score: 0.7, pattern: /\b(?:muy sol[oa]|me siento sol[oa]|nadie me quiere)\b/ },
+];
+
+// Cues only count within this many words before a match, and never across a clause boundary
+const NEGATION_WINDOW_WORDS = 3;
+const CONTEXT_WINDOW_WORDS = 8;
+
+const CLAUSE_BOUNDARY = /[.,;:!?]|\b(?:but|though|although|because|except)\b/g;
+const NEGATION_CUES = /\b(?:not|never|no|don't|doesn't|didn't|won't|wouldn't|isn't|wasn't|aren't|ain't|hardly|nunca)\b/;
+// Phrases that contain a negation word without negating what follows
+const PSEUDO_NEGATIONS = /\b(?:don't know|do not know|not only|no doubt|not sure why)\b/g;
+const REPORTED_CONTEXT_CUES = [
+  /\b(?:movie|film|book|article|news|show|story|program|documentary|song|podcast)\b/,
+  /\b(?:my|his|her|their|our) (?:friend|neighbou?r|sister|brother|cousin|son|daughter|husband|wife)\b/,
+  /\b(?:he|she|they|someone|somebody) (?:said|says|told|tried)\b/,
+];
+
+const NEGATED_SCORE_FACTOR = 0.1;
+const REPORTED_SCORE_FACTOR = 0.3;
+
+export function normalizeTranscript(transcript: string): string {
+  return transcript
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Words between the start of the match's clause and the match, at most maxWords of them
+function windowBefore(text: string, matchStart: number, maxWords: number): string {
+  const prefix = text.slice(0, matchStart);
+  let clauseStart = 0;
+  for (const boundary of prefix.matchAll(CLAUSE_BOUNDARY)) {
+    clauseStart = (boundary.index ?? 0) + boundary[0].length;
+  }
+
+  const words = prefix.slice(clauseStart).trim().split(' ').filter(Boolean);
+  return words.slice(-maxWords).join(' ');
+}
+
+// True when a negation cue shortly precedes the given position in the same clause
+export function isNegatedBefore(text: string, start: number): boolean {
+  const negationWindow = windowBefore(text, start, NEGATION_WINDOW_WORDS).replace(PSEUDO_NEGATIONS, '');
+  return NEGATION_CUES.test(negationWindow);
+}
+
+function overlapsExclusion(text: string, start: number, end: number): boolean {
+  return SAFETY_EXCLUSION_PATTERNS.some((pattern) => {
+    let index = text.indexOf(pattern);
+    while (index !== -1) {
+      if (start < index + pattern.length && end > index) {
+        return true;
+      }
+      index = text.indexOf(pattern, index + 1);
+    }
+    return false;
+  });
+}
+
+function scoreMatch(text: string, rule: SafetyRule, start: number, end: number): number {
+  if (overlapsExclusion(text, start, end)) {
+    return 0;
+  }
+
+  let score = rule.score;
+
+  if (isNegatedBefore(text, start)) {
+    score *= NEGATED_SCORE_FACTOR;
+  }
+
+  const contextWindow = windowBefore(text, start, CONTEXT_WINDOW_WORDS);
+  if (REPORTED_CONTEXT_CUES.some((cue) => cue.test(contextWindow))) {
+    score *= REPORTED_SCORE_FACTOR;
+  }
+
+  return score;
+}
+
+// Highest-scoring rule per tier, highest tier first; matches below the minimum score are dropped
+export function classifyWithRules(transcript: string): SafetyClassification[] {
+  const text = normalizeTranscript(transcript);
+  const best = new Map<SafetyTier, SafetyClassification>();
+
+  for (const rule of SAFETY_RULES) {
+    const pattern = new RegExp(rule.pattern.source, 'g');
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const score = scoreMatch(text, rule, start, start + match[0].length);
+
+      if (score < SAFETY_CLASSIFIER_MIN_SCORE) {
+        continue;
+      }
+
+      const current = best.get(rule.tier);
+      if (!current || score > current.score) {
+        best.set(rule.tier, { tier: rule.tier, score, reason: rule.id });
+      }
+    }
+  }
+
+  return (['high', 'medium', 'low'] as const)
+    .map((tier) => best.get(tier))
+    .filter((classification): classification is SafetyClassification => Boolean(classification));
+}
+
+export class RulesSafetyClassifier implements SafetyClassifier {
+  readonly id = 'rules' as const;
+
+  async classify(transcript: string): Promise<SafetyClassification[]> {
+    return classifyWithRules(transcript);
+  }
+}
@@ -1,12 +1,25 @@
 import type { SafetyTier } from '@ultaura/types';
+import { SAFETY_WINDOW_MAX_TURNS } from '../utils/constants.js';
 
-type SafetySource = 'keyword_backstop' | 'model';
+export type SafetySource = 'keyword_backstop' | 'classifier' | 'model';
+
+export interface SafetyWindowTurn {
+  speaker: 'user' | 'assistant';
+  text: string;
+  timestamp: number;
+}
 
 export interface SafetyState {
   triggeredTiers: Set<SafetyTier>;
   backstopTiersTriggered: Set<SafetyTier>;
+  classifierTiersTriggered: Set<SafetyTier>;
   modelTiersLogged: Set<SafetyTier>;
   lastDetectionTime: number;
+  // Most recent turns from both speakers, oldest first
+  recentTurns: SafetyWindowTurn[];
+  // Signals mentioned by the user at any point in the call, e.g. 'fall' or 'pain'
+  callSignals: Set<string>;
+  firedPatternRules: Set<string>;
 }
 
 const safetyStates = new Map<string, SafetyState>();
@@ -23,8 +36,12 @@ export function getOrCreateSafetyState(callSessionId: string): SafetyState {
   const state: SafetyState = {
     triggeredTiers: new Set(),
     backstopTiersTriggered: new Set(),
+    classifierTiersTriggered: new Set(),
     modelTiersLogged: new Set(),
     lastDetectionTime: 0,
+    recentTurns: [],
+    callSignals: new Set(),
+    firedPatternRules: new Set(),
   };
 
   safetyStates.set(callSessionId, state);
@@ -41,6 +58,8 @@ export function markSafetyTier(
 
   if (source === 'keyword_backstop') {
     state.backstopTiersTriggered.add(tier);
+  } else if (source === 'classifier') {
+    state.classifierTiersTriggered.add(tier);
   } else {
     state.modelTiersLogged.add(tier);
   }
@@ -49,6 +68,21 @@ export function markSafetyTier(
   return state;
 }
 
+export function recordSafetyTurn(
+  callSessionId: string,
+  speaker: SafetyWindowTurn['speaker'],
+  text: string
+): SafetyState {
+  const state = getOrCreateSafetyState(callSessionId);
+  state.recentTurns.push({ speaker, text, timestamp: Date.now() });
+
+  if (state.recentTurns.length > SAFETY_WINDOW_MAX_TURNS) {
+    state.recentTurns.splice(0, state.recentTurns.length - SAFETY_WINDOW_MAX_TURNS);
+  }
+
+  return state;
+}
+
 export function wasBackstopTriggered(callSessionId: string, tier?: SafetyTier): boolean {
   const state = safetyStates.get(callSessionId);
   if (!state) return false;
@@ -60,8 +94,13 @@ export function wasBackstopTriggered(callSessionId: string, tier?: SafetyTier):
   return state.backstopTiersTriggered.has(tier);
 }
 
+export function hasTriggeredTier(callSessionId: string, tier: SafetyTier): boolean {
+  return safetyStates.get(callSessionId)?.triggeredTiers.has(tier) ?? false;
+}
+
 export function getSafetySummary(callSessionId: string): {
   backstopTiersTriggered: SafetyTier[];
+  classifierTiersTriggered: SafetyTier[];
   modelTiersLogged: SafetyTier[];
   potentialFalsePositives: number;
 } {
@@ -69,6 +108,7 @@ export function getSafetySummary(callSessionId: string): {
   if (!state) {
     return {
       backstopTiersTriggered: [],
+      classifierTiersTriggered: [],
       modelTiersLogged: [],
       potentialFalsePositives: 0,
     };
@@ -77,15 +117,22 @@ export function getSafetySummary(callSessionId: string): {
   const backstopTiersTriggered = TIER_ORDER.filter((tier) =>
     state.backstopTiersTriggered.has(tier)
   );
+  const classifierTiersTriggered = TIER_ORDER.filter((tier) =>
+    state.classifierTiersTriggered.has(tier)
+  );
   const modelTiersLogged = TIER_ORDER.filter((tier) =>
     state.modelTiersLogged.has(tier)
   );
-  const potentialFalsePositives = backstopTiersTriggered.filter(
-    (tier) => !state.modelTiersLogged.has(tier)
+  // Tiers flagged by either automatic stage that the model never confirmed
+  const potentialFalsePositives = TIER_ORDER.filter(
+    (tier) =>
+      (state.backstopTiersTriggered.has(tier) || state.classifierTiersTriggered.has(tier)) &&
+      !state.modelTiersLogged.has(tier)
   ).length;
 
   return {
     backstopTiersTriggered,
+    classifierTiersTriggered,
     modelTiersLogged,
     potentialFalsePositives,
   };
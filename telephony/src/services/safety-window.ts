@@ -0,0 +1,150 @@
+// Multi-turn safety evaluation over the rolling window kept in SafetyState
+// Catches what a single transcript cannot show: a keyword phrase split across two user turns,
+// a worrying answer to the companion's own check-in question, and signals that only matter
+// together over the call (a fall plus pain)
+
+import type { SafetyTier } from '@ultaura/types';
+import { scanForSafetyKeywords } from './safety-keyword-scan.js';
+import { isNegatedBefore, normalizeTranscript } from './safety-rules-classifier.js';
+import type { SafetyState, SafetyWindowTurn } from './safety-state.js';
+
+export interface SafetyDetection {
+  tier: SafetyTier;
+  signals: string;
+  // System message to inject instead of the generic hint for the tier
+  hint?: string;
+  // Set for co-occurrence rules, which fire once per call regardless of tiers already triggered
+  patternRuleId?: string;
+}
+
+interface ProbeRule {
+  id: string;
+  tier: SafetyTier;
+  // Companion question that makes a short answer meaningful
+  question: RegExp;
+  // Answers that raise a concern
+  concerningAnswer: RegExp;
+}
+
+interface CoOccurrenceRule {
+  id: string;
+  tier: SafetyTier;
+  requires: string[];
+  description: string;
+}
+
+const AFFIRMATIVE_ANSWER = /^(?:yes|yeah|yep|yup|i have|i do|i am|sometimes|maybe|a little|kind of|sort of|i think so|often|lately|s[ií])\b/;
+const NEGATIVE_ANSWER = /^(?:no|nope|not really|not at all|not always|not very|not sure|i don't|i'm not|i am not)\b/;
+
+const PROBE_RULES: ProbeRule[] = [
+  {
+    id: 'self_harm_probe',
+    tier: 'high',
+    question: /\b(?:thinking|thoughts?|thought) (?:about|of) (?:hurting yourself|harming yourself|suicide|killing yourself|ending your life)\b|\bwant(?:ed)? to (?:hurt yourself|die|end your life)\b/,
+    concerningAnswer: AFFIRMATIVE_ANSWER,
+  },
+  {
+    id: 'feel_safe_probe',
+    tier: 'medium',
+    question: /\b(?:do|are) you (?:feel(?:ing)? )?safe\b/,
+    concerningAnswer: NEGATIVE_ANSWER,
+  },
+];
+
+// Signals recorded from user turns; each rule needs all of its signals somewhere in the call
+const SAFETY_SIGNALS: Record<string, RegExp> = {
+  fall: /\b(?:i (?:fell|tripped|slipped)|had a fall|(?:fell|fallen) (?:down|over))\b/,
+  pain: /\b(?:pain|hurts|hurting|aching|aches|sore)\b/,
+  cannot_get_up: /\b(?:can't|cannot|couldn't) get up\b/,
+  head_injury: /\bhit my head\b/,
+  dizzy: /\b(?:dizzy|lightheaded|light-headed|the room (?:is )?spinning)\b/,
+  chest_pain: /\bchest (?:pain|hurts|is tight|feels tight)\b/,
+  short_of_breath: /\b(?:short of breath|can't breathe|can't catch my breath|trouble breathing|hard to breathe)\b/,
+};
+
+const CO_OCCURRENCE_RULES: CoOccurrenceRule[] = [
+  { id: 'fall_cannot_get_up', tier: 'high', requires: ['fall', 'cannot_get_up'], description: 'a fall and not being able to get up' },
+  { id: 'fall_head_injury', tier: 'high', requires: ['fall', 'head_injury'], description: 'a fall and hitting their head' },
+  { id: 'chest_pain_breathing', tier: 'high', requires: ['chest_pain', 'short_of_breath'], description: 'chest pain and trouble breathing' },
+  { id: 'fall_with_pain', tier: 'medium', requires: ['fall', 'pain'], description: 'a fall and pain' },
+  { id: 'dizzy_fall', tier: 'medium', requires: ['dizzy', 'fall'], description: 'dizziness and a fall' },
+];
+
+function stripTrailingPunctuation(text: string): string {
+  return text.replace(/[.,;:!?…]+$/, '');
+}
+
+// Keyword phrases that only appear once the last two user turns are joined
+function findSplitPhrases(userTurns: SafetyWindowTurn[], state: SafetyState): SafetyDetection[] {
+  if (userTurns.length < 2) return [];
+
+  const [previous, current] = userTurns.slice(-2);
+  const alone = new Set(
+    [...scanForSafetyKeywords(previous.text), ...scanForSafetyKeywords(current.text)].map((match) => match.tier)
+  );
+  const joined = `${stripTrailingPunctuation(previous.text.trim())} ${current.text.trim()}`;
+
+  return scanForSafetyKeywords(joined, state.triggeredTiers)
+    .filter((match) => !alone.has(match.tier))
+    .map((match) => ({ tier: match.tier, signals: 'keyword_backstop_detected: split_across_turns' }));
+}
+
+// A short user reply to the companion's safety check-in question
+function findProbeAnswers(state: SafetyState): SafetyDetection[] {
+  const [question, answer] = state.recentTurns.slice(-2);
+  if (!question || question.speaker !== 'assistant' || answer?.speaker !== 'user') return [];
+
+  const questionText = normalizeTranscript(question.text);
+  const answerText = normalizeTranscript(answer.text).replace(/^[^a-z]+/, '');
+
+  return PROBE_RULES
+    .filter((rule) => rule.question.test(questionText) && rule.concerningAnswer.test(answerText))
+    .map((rule) => ({ tier: rule.tier, signals: `keyword_backstop_detected: ${rule.id}` }));
+}
+
+function recordSignals(text: string, state: SafetyState): void {
+  for (const [signal, pattern] of Object.entries(SAFETY_SIGNALS)) {
+    const match = pattern.exec(text);
+    if (match && !isNegatedBefore(text, match.index)) {
+      state.callSignals.add(signal);
+    }
+  }
+}
+
+function findCoOccurrences(state: SafetyState): SafetyDetection[] {
+  const detections: SafetyDetection[] = [];
+
+  for (const rule of CO_OCCURRENCE_RULES) {
+    if (state.firedPatternRules.has(rule.id)) continue;
+    if (!rule.requires.every((signal) => state.callSignals.has(signal))) continue;
+
+    state.firedPatternRules.add(rule.id);
+    detections.push({
+      tier: rule.tier,
+      signals: `keyword_backstop_detected: ${rule.id}`,
+      patternRuleId: rule.id,
+      hint: rule.tier === 'high'
+        ? `[SYSTEM: During this call the user has mentioned ${rule.description}. Ask right away whether they are hurt and whether anyone is with them. If this sounds like an emergency, suggest calling 911, and call log_safety_concern.]`
+        : `[SYSTEM: During this call the user has mentioned ${rule.description}. Gently ask whether they are hurt and whether they need help, and call log_safety_concern if warranted.]`,
+    });
+  }
+
+  return detections;
+}
+
+// Evaluate the window after a user turn has been recorded.
+// Records the turn's signals in the state and marks co-occurrence rules as fired.
+export function evaluateSafetyWindow(state: SafetyState): SafetyDetection[] {
+  const latest = state.recentTurns[state.recentTurns.length - 1];
+  if (!latest || latest.speaker !== 'user') return [];
+
+  recordSignals(normalizeTranscript(latest.text), state);
+
+  const userTurns = state.recentTurns.filter((turn) => turn.speaker === 'user');
+
+  return [
+    ...findSplitPhrases(userTurns, state),
+    ...findProbeAnswers(state),
+    ...findCoOccurrences(state),
+  ];
+}
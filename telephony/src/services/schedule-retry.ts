@@ -0,0 +1,136 @@
+// Retries for scheduled calls
+// retry_count counts the retries of the schedule's current occurrence. A placed call leaves it
+// alone; the status callback either books the next retry (no answer, busy, failed or a machine)
+// or settles the occurrence and clears the count.
+
+import type { DateTime } from 'luxon';
+import { getSupabaseClient, CallSessionRow, LineRow, ScheduleRow } from '../utils/supabase.js';
+import { logger } from '../utils/logger.js';
+import { getLineAnswerPatterns } from './answer-patterns.js';
+import { getScheduleRetryAt } from './call-windows.js';
+import { isUnansweredCall } from './reminder-delivery.js';
+
+const DEFAULT_RETRY_POLICY = { max_retries: 2, retry_window_minutes: 30 };
+
+// Scheduler idempotency keys look like schedule:<scheduleId>:<nextRunAt>
+export function getScheduleIdFromIdempotencyKey(idempotencyKey: string | null): string | null {
+  if (!idempotencyKey?.startsWith('schedule:')) {
+    return null;
+  }
+
+  return idempotencyKey.split(':')[1] || null;
+}
+
+/**
+ * When to make the next attempt for the schedule's current occurrence, or null when it is out of
+ * retries or today's call windows have no room left.
+ */
+export async function getNextScheduleRetryAt(
+  schedule: ScheduleRow,
+  line: Pick<LineRow, 'id' | 'quiet_hours_start' | 'quiet_hours_end'>
+): Promise<DateTime | null> {
+  const retryPolicy = schedule.retry_policy || DEFAULT_RETRY_POLICY;
+  const currentRetries = schedule.retry_count || 0;
+
+  if (currentRetries >= retryPolicy.max_retries) {
+    return null;
+  }
+
+  // Back off inside the schedule's call windows, outside quiet hours, favouring answering slots
+  return getScheduleRetryAt({
+    schedule,
+    attempt: currentRetries + 1,
+    quietHours: { start: line.quiet_hours_start, end: line.quiet_hours_end },
+    answerPatterns: await getLineAnswerPatterns(line.id),
+  });
+}
+
+async function clearScheduleRetries(schedule: ScheduleRow): Promise<void> {
+  if (!schedule.retry_count) {
+    return;
+  }
+
+  const supabase = getSupabaseClient();
+  const { error } = await supabase
+    .from('ultaura_schedules')
+    .update({ retry_count: 0 })
+    .eq('id', schedule.id)
+    .eq('retry_count', schedule.retry_count);
+
+  if (error) {
+    logger.error({ error, scheduleId: schedule.id }, 'Failed to clear schedule retries');
+  }
+}
+
+// Called once a scheduled call has finished: retry it if nobody answered
+export async function handleScheduledCallEnded(
+  session: Pick<CallSessionRow, 'id' | 'scheduler_idempotency_key' | 'answered_by'>,
+  twilioStatus: string
+): Promise<void> {
+  const scheduleId = getScheduleIdFromIdempotencyKey(session.scheduler_idempotency_key);
+  if (!scheduleId) {
+    return;
+  }
+
+  const supabase = getSupabaseClient();
+
+  const { data: schedule, error } = await supabase
+    .from('ultaura_schedules')
+    .select('*')
+    .eq('id', scheduleId)
+    .maybeSingle();
+
+  if (error || !schedule) {
+    logger.error({ error, scheduleId, sessionId: session.id }, 'Failed to load schedule for call outcome');
+    return;
+  }
+
+  if (!isUnansweredCall(session, twilioStatus) || !schedule.enabled) {
+    await clearScheduleRetries(schedule);
+    return;
+  }
+
+  const { data: line, error: lineError } = await supabase
+    .from('ultaura_lines')
+    .select('id, quiet_hours_start, quiet_hours_end')
+    .eq('id', schedule.line_id)
+    .single();
+
+  if (lineError || !line) {
+    logger.error({ error: lineError, scheduleId }, 'Failed to load line for schedule retry');
+    return;
+  }
+
+  const retryAt = await getNextScheduleRetryAt(schedule, line);
+
+  // A retry never pushes back the next regular call
+  if (!retryAt || (schedule.next_run_at && retryAt.toMillis() >= Date.parse(schedule.next_run_at))) {
+    logger.info({ scheduleId, retries: schedule.retry_count, twilioStatus }, 'Scheduled call unanswered, no retry left');
+    await clearScheduleRetries(schedule);
+    return;
+  }
+
+  // Matching on the count we read keeps overlapping callbacks from both booking a retry
+  const { data: updated, error: updateError } = await supabase
+    .from('ultaura_schedules')
+    .update({
+      next_run_at: retryAt.toUTC().toISO(),
+      retry_count: schedule.retry_count + 1,
+      last_result: 'failed',
+    })
+    .eq('id', scheduleId)
+    .eq('retry_count', schedule.retry_count)
+    .select('id');
+
+  if (updateError) {
+    logger.error({ error: updateError, scheduleId }, 'Failed to schedule retry for unanswered call');
+    return;
+  }
+
+  if (updated && updated.length > 0) {
+    logger.info(
+      { scheduleId, retryAt: retryAt.toISO(), attempt: schedule.retry_count + 1, twilioStatus },
+      'Scheduled retry for unanswered call'
+    );
+  }
+}
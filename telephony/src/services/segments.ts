@@ -0,0 +1,254 @@
+// Rotating conversation segments
+// Picks one segment template per companion call from the line's interests and how earlier
+// segments went (the senior's reaction and the call's engagement score), and records the outcome.
+
+import { SEGMENT_TEMPLATES, getSegmentTemplate } from '@ultaura/prompts';
+import type {
+  SegmentEngagement,
+  SegmentResponse,
+  SegmentTemplate,
+  SegmentType,
+} from '@ultaura/types';
+import { getSupabaseClient } from '../utils/supabase.js';
+import {
+  SEGMENT_DECLINE_PAUSE,
+  SEGMENT_HISTORY_LIMIT,
+  SEGMENT_REPEAT_WINDOW,
+} from '../utils/constants.js';
+import { logger } from '../server.js';
+
+const RESPONSE_WEIGHTS: Record<SegmentResponse, number> = {
+  enjoyed: 1,
+  neutral: 0.25,
+  interrupted: 0,
+  declined: -1,
+};
+
+const SCORE_WEIGHTS = {
+  interest: 0.75,
+  engagement: 0.5,
+  sameTypeAsLast: -0.5,
+  continueStory: 1,
+};
+
+const MAX_INTEREST_MATCHES = 3;
+
+export interface ScoredSegment {
+  template: SegmentTemplate;
+  score: number;
+}
+
+function outcomeScore(entry: SegmentEngagement): number {
+  const response = entry.seniorResponse ? RESPONSE_WEIGHTS[entry.seniorResponse] : 0;
+  // Map the 1-10 engagement score onto -1..1
+  const engagement = entry.callEngagementScore !== null
+    ? (entry.callEngagementScore - 5.5) / 4.5
+    : 0;
+
+  return response + SCORE_WEIGHTS.engagement * engagement;
+}
+
+// Mean outcome per segment type, shrunk toward zero while there are only a few samples
+function typeAffinity(history: SegmentEngagement[]): Map<SegmentType, number> {
+  const totals = new Map<SegmentType, { sum: number; count: number }>();
+
+  for (const entry of history) {
+    const total = totals.get(entry.segmentType) ?? { sum: 0, count: 0 };
+    total.sum += outcomeScore(entry);
+    total.count += 1;
+    totals.set(entry.segmentType, total);
+  }
+
+  return new Map(
+    Array.from(totals, ([type, total]) => [type, total.sum / (total.count + 1)])
+  );
+}
+
+function countInterestMatches(template: SegmentTemplate, interestText: string): number {
+  const matches = template.interests.filter((interest) => interestText.includes(interest.toLowerCase()));
+  return Math.min(matches.length, MAX_INTEREST_MATCHES);
+}
+
+// Candidate templates for the next call, best first. History is newest first. Templates used in
+// the last few segments are left out, except a story the senior enjoyed, which continues.
+export function rankSegments(
+  templates: SegmentTemplate[],
+  interests: string[],
+  history: SegmentEngagement[]
+): ScoredSegment[] {
+  const interestText = interests.join(' ').toLowerCase();
+  const affinity = typeAffinity(history);
+  const recent = history.slice(0, SEGMENT_REPEAT_WINDOW);
+  const last = history[0];
+
+  return templates
+    .flatMap((template) => {
+      const continuesStory = template.type === 'story' &&
+        last?.segmentId === template.id &&
+        last.seniorResponse === 'enjoyed';
+
+      if (!continuesStory && recent.some((entry) => entry.segmentId === template.id)) {
+        return [];
+      }
+
+      let score = SCORE_WEIGHTS.interest * countInterestMatches(template, interestText);
+      score += affinity.get(template.type) ?? 0;
+
+      if (continuesStory) {
+        score += SCORE_WEIGHTS.continueStory;
+      } else if (last?.segmentType === template.type) {
+        score += SCORE_WEIGHTS.sameTypeAsLast;
+      }
+
+      return [{ template, score }];
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+// The segment to offer next, or null when the senior turned down the last few
+export function chooseSegment(
+  templates: SegmentTemplate[],
+  interests: string[],
+  history: SegmentEngagement[]
+): SegmentTemplate | null {
+  const lastOffers = history.slice(0, SEGMENT_DECLINE_PAUSE);
+  if (
+    lastOffers.length === SEGMENT_DECLINE_PAUSE &&
+    lastOffers.every((entry) => entry.seniorResponse === 'declined')
+  ) {
+    return null;
+  }
+
+  return rankSegments(templates, interests, history)[0]?.template ?? null;
+}
+
+function toSegmentEngagement(row: {
+  id: string;
+  line_id: string;
+  call_session_id: string;
+  created_at: string;
+  segment_id: string;
+  segment_type: string;
+  segment_domain: string | null;
+  completed: boolean;
+  senior_response: string | null;
+  call_engagement_score: number | null;
+}): SegmentEngagement {
+  return {
+    id: row.id,
+    lineId: row.line_id,
+    callSessionId: row.call_session_id,
+    createdAt: row.created_at,
+    segmentId: row.segment_id,
+    segmentType: row.segment_type as SegmentType,
+    segmentDomain: row.segment_domain,
+    completed: row.completed,
+    seniorResponse: row.senior_response as SegmentResponse | null,
+    callEngagementScore: row.call_engagement_score,
+  };
+}
+
+// Segments offered to the line, newest first
+export async function getSegmentHistory(
+  lineId: string,
+  limit = SEGMENT_HISTORY_LIMIT
+): Promise<SegmentEngagement[]> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('ultaura_segment_engagement')
+    .select('*')
+    .eq('line_id', lineId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    logger.error({ error, lineId }, 'Failed to fetch segment history');
+    return [];
+  }
+
+  return (data ?? []).map(toSegmentEngagement);
+}
+
+// Picks and records the segment for a call. Reconnects reuse the segment already chosen.
+export async function selectSegmentForCall(params: {
+  accountId: string;
+  lineId: string;
+  callSessionId: string;
+  interests: string[];
+}): Promise<SegmentTemplate | null> {
+  const supabase = getSupabaseClient();
+
+  try {
+    const history = await getSegmentHistory(params.lineId);
+    const existing = history.find((entry) => entry.callSessionId === params.callSessionId);
+    if (existing) {
+      return getSegmentTemplate(existing.segmentId);
+    }
+
+    const template = chooseSegment(SEGMENT_TEMPLATES, params.interests, history);
+    if (!template) {
+      logger.info({ lineId: params.lineId }, 'Skipping segment after recent declines');
+      return null;
+    }
+
+    const { error } = await supabase.from('ultaura_segment_engagement').insert({
+      account_id: params.accountId,
+      line_id: params.lineId,
+      call_session_id: params.callSessionId,
+      segment_id: template.id,
+      segment_type: template.type,
+      segment_domain: template.domain,
+    });
+
+    if (error) throw error;
+
+    return template;
+  } catch (error) {
+    logger.error({ error, lineId: params.lineId }, 'Failed to select segment for call');
+    return null;
+  }
+}
+
+export async function recordSegmentEngagement(
+  callSessionId: string,
+  segmentId: string,
+  outcome: { completed: boolean; seniorResponse: SegmentResponse }
+): Promise<boolean> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('ultaura_segment_engagement')
+    .update({
+      completed: outcome.completed,
+      senior_response: outcome.seniorResponse,
+      responded_at: new Date().toISOString(),
+    })
+    .eq('call_session_id', callSessionId)
+    .eq('segment_id', segmentId)
+    .select('id');
+
+  if (error) {
+    logger.error({ error, callSessionId, segmentId }, 'Failed to record segment engagement');
+    return false;
+  }
+
+  return (data ?? []).length > 0;
+}
+
+// Copies the call's engagement score onto its segment so later picks can learn from it
+export async function recordSegmentCallEngagement(
+  callSessionId: string,
+  engagementScore: number
+): Promise<void> {
+  const supabase = getSupabaseClient();
+
+  const { error } = await supabase
+    .from('ultaura_segment_engagement')
+    .update({ call_engagement_score: Math.round(engagementScore) })
+    .eq('call_session_id', callSessionId);
+
+  if (error) {
+    logger.warn({ error, callSessionId }, 'Failed to record segment call engagement');
+  }
+}
@@ -1,12 +1,13 @@
 import crypto from 'crypto';
 import { DateTime } from 'luxon';
-import type { CallInsights, ConcernCode, FollowUpReasonCode, TopicCode } from '@ultaura/types';
+import type { CallInsights, ConcernCode, FollowUpReasonCode, Memory, TopicCode } from '@ultaura/types';
 import { getSupabaseClient, CallSessionRow, LineRow } from '../utils/supabase.js';
 import { decryptInsights } from '../utils/insights-crypto.js';
 import { encryptMemoryValue, getOrCreateAccountDEK } from '../utils/encryption.js';
 import { getInternalApiSecret } from '../utils/env.js';
 import { logger } from '../utils/logger.js';
 import { getBaselineWindow, isCallAnswered } from './baseline.js';
+import { getMemoriesForLine } from './memory.js';
 
 type CallSessionSummaryRow = Pick<
   CallSessionRow,
@@ -61,6 +62,11 @@ export interface WeeklySummaryData {
   }>;
   needsFollowUp: boolean;
   followUpReasons: string[];
+  // Follow-ups the senior mentioned (and agreed to share) that have not been answered yet
+  openFollowUps: Array<{
+    label: string;
+    dueDate: string | null;
+  }>;
   isPaused: boolean;
   pausedNote: string | null;
   dashboardUrl: string;
@@ -77,6 +83,17 @@ export interface MissedCallsAlertPayload {
   settingsUrl: string;
 }
 
+export interface MissedDosesAlertPayload {
+  lineId: string;
+  accountId: string;
+  lineName: string;
+  reminderMessage: string | null;
+  consecutiveMissedCount: number;
+  lastMissedAt: string;
+  dashboardUrl: string;
+  settingsUrl: string;
+}
+
 interface NotificationPreferencesRow {
   weekly_summary_enabled: boolean;
   weekly_summary_format: 'email' | 'sms' | 'both';
@@ -84,6 +101,8 @@ interface NotificationPreferencesRow {
   weekly_summary_time: string;
   alert_missed_calls_enabled: boolean;
   alert_missed_calls_threshold: number;
+  alert_missed_doses_enabled: boolean;
+  alert_missed_doses_threshold: number;
 }
 
 interface InsightPrivacyRow {
@@ -559,6 +578,8 @@ export async function getNotificationPreferences(
       weekly_summary_time: '18:00',
       alert_missed_calls_enabled: true,
       alert_missed_calls_threshold: 3,
+      alert_missed_doses_enabled: true,
+      alert_missed_doses_threshold: 3,
     })
     .select('*')
     .single();
@@ -585,6 +606,8 @@ export async function getNotificationPreferences(
       weekly_summary_time: '18:00',
       alert_missed_calls_enabled: true,
       alert_missed_calls_threshold: 3,
+      alert_missed_doses_enabled: true,
+      alert_missed_doses_threshold: 3,
     };
   }
 
@@ -646,6 +669,34 @@ function getFollowUpReasons(insights: CallInsights[]): string[] {
   return Array.from(reasonSet).map((reason) => FOLLOW_UP_LABELS[reason]);
 }
 
+// Only memories shared with the payer are included; dates are local to the line
+export function selectOpenFollowUps(
+  memories: Memory[],
+  timezone: string
+): WeeklySummaryData['openFollowUps'] {
+  return memories
+    .filter((memory) =>
+      memory.type === 'follow_up' &&
+      memory.privacyScope === 'shareable_with_payer' &&
+      memory.active &&
+      !memory.resolvedAt
+    )
+    .sort((a, b) => (a.dueAt ?? a.createdAt).localeCompare(b.dueAt ?? b.createdAt))
+    .map((memory) => ({
+      label: typeof memory.value === 'string' ? memory.value : JSON.stringify(memory.value),
+      dueDate: memory.dueAt ? DateTime.fromISO(memory.dueAt).setZone(timezone).toISODate() : null,
+    }));
+}
+
+async function getOpenFollowUps(
+  accountId: string,
+  lineId: string,
+  timezone: string
+): Promise<WeeklySummaryData['openFollowUps']> {
+  const memories = await getMemoriesForLine(accountId, lineId, { limit: 500 });
+  return selectOpenFollowUps(memories, timezone);
+}
+
 async function aggregateWeeklySummary(options: {
   line: WeeklySummaryLine;
   account: { id: string; billing_email: string | null };
@@ -680,6 +731,7 @@ async function aggregateWeeklySummary(options: {
     insightEntries,
     currentSessions,
     priorSessions,
+    openFollowUps,
   ] = await Promise.all([
     decryptInsightsForWindow({
       lineId: line.id,
@@ -697,6 +749,7 @@ async function aggregateWeeklySummary(options: {
       startUtc: priorWeekStartUtc,
       endUtc: weekStartUtc,
     }),
+    getOpenFollowUps(account.id, line.id, line.timezone),
   ]);
 
   const weekInsights = filterInsightsForWindow(insightEntries, {
@@ -905,6 +958,7 @@ async function aggregateWeeklySummary(options: {
     concerns,
     needsFollowUp,
     followUpReasons,
+    openFollowUps,
     isPaused: privacy?.is_paused ?? false,
     pausedNote: (privacy?.is_paused ?? false)
       ? privacy?.paused_reason || 'Calls are currently paused for this line.'
@@ -1092,3 +1146,84 @@ export async function checkMissedCallAlert(options: {
     logger.error({ error, lineId }, 'Failed to mark missed call alert as sent');
   }
 }
+
+async function sendMissedDoseAlert(payload: MissedDosesAlertPayload): Promise<boolean> {
+  const url = `${getAppBaseUrl()}/api/telephony/missed-doses`;
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Secret': getInternalApiSecret(),
+      },
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      logger.error({ status: response.status, body }, 'Missed dose alert failed');
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    logger.error({ error }, 'Missed dose alert request failed');
+    return false;
+  }
+}
+
+// Alert the payer once a confirmation reminder has gone unconfirmed or refused several times in a row.
+// One alert per streak; a confirmed dose resets it.
+export async function checkMissedDoseAlert(options: {
+  lineId: string;
+  accountId: string;
+  lineName: string;
+  lineShortId: string;
+  reminderMessage: string | null;
+  consecutiveMissedDoses: number;
+  missedDoseAlertSentAt: string | null;
+  lastMissedAt: string;
+}): Promise<void> {
+  const { lineId, accountId, lineName, lineShortId, consecutiveMissedDoses, missedDoseAlertSentAt } = options;
+
+  if (missedDoseAlertSentAt) {
+    return;
+  }
+
+  const preferences = await getNotificationPreferences(accountId, lineId);
+
+  if (!preferences.alert_missed_doses_enabled) {
+    return;
+  }
+
+  if (consecutiveMissedDoses < preferences.alert_missed_doses_threshold) {
+    return;
+  }
+
+  const payload: MissedDosesAlertPayload = {
+    lineId,
+    accountId,
+    lineName,
+    reminderMessage: options.reminderMessage,
+    consecutiveMissedCount: consecutiveMissedDoses,
+    lastMissedAt: options.lastMissedAt,
+    dashboardUrl: `${getAppBaseUrl()}/dashboard/lines/${lineShortId}/reminders`,
+    settingsUrl: `${getAppBaseUrl()}/dashboard/lines/${lineShortId}/settings`,
+  };
+
+  const ok = await sendMissedDoseAlert(payload);
+  if (!ok) {
+    return;
+  }
+
+  const supabase = getSupabaseClient();
+  const { error } = await supabase
+    .from('ultaura_lines')
+    .update({ missed_dose_alert_sent_at: new Date().toISOString() })
+    .eq('id', lineId);
+
+  if (error) {
+    logger.error({ error, lineId }, 'Failed to mark missed dose alert as sent');
+  }
+}
@@ -0,0 +1,7 @@
+export { TwilioMediaStreamSimulator, SILENCE_FRAME_BASE64 } from './twilio-media-simulator.js';
+export type { TwilioOutboundFrame, TwilioMediaSimulatorOptions } from './twilio-media-simulator.js';
+export { StubRealtimeServer } from './stub-realtime-server.js';
+export type { RealtimeClientEvent, StubRealtimeStep } from './stub-realtime-server.js';
+export { StubToolBackend } from './stub-tool-backend.js';
+export type { StubToolRequest } from './stub-tool-backend.js';
+export { waitFor } from './wait-for.js';
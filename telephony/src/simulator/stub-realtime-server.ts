@@ -0,0 +1,204 @@
+// Stub realtime-model server speaking the xAI/OpenAI Realtime event protocol
+// Records what the bridge sends and replays scripted transcripts and tool calls
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket, WebSocketServer } from 'ws';
+import { SILENCE_FRAME_BASE64 } from './twilio-media-simulator.js';
+import { waitFor } from './wait-for.js';
+
+// Events the bridge sends to the model
+export interface RealtimeClientEvent {
+  type: string;
+  session?: {
+    instructions?: string;
+    tools?: Array<{ type: string; name?: string }>;
+    [key: string]: unknown;
+  };
+  item?: {
+    type: string;
+    role?: string;
+    call_id?: string;
+    output?: string;
+    content?: Array<{ type: string; text?: string }>;
+  };
+  audio?: string;
+}
+
+export type StubRealtimeStep =
+  | { type: 'transcript'; text: string }
+  | { type: 'tool_call'; name: string; args: Record<string, unknown> }
+  | { type: 'assistant_audio'; payload?: string }
+  | { type: 'speech_started' }
+  | { type: 'wait'; ms: number };
+
+export class StubRealtimeServer {
+  readonly received: RealtimeClientEvent[] = [];
+  audioFramesReceived = 0;
+  connectionCount = 0;
+
+  private httpServer: http.Server;
+  private wss: WebSocketServer;
+  private socket: WebSocket | null = null;
+  private replies: string[];
+  private toolCallCounter = 0;
+
+  private constructor(httpServer: http.Server, wss: WebSocketServer, replies: string[]) {
+    this.httpServer = httpServer;
+    this.wss = wss;
+    this.replies = replies;
+
+    wss.on('connection', (ws) => {
+      this.connectionCount += 1;
+      this.socket = ws;
+      this.emit({ type: 'session.created' });
+
+      ws.on('message', (data: Buffer) => this.handleClientEvent(JSON.parse(data.toString())));
+    });
+  }
+
+  // Listen on an ephemeral localhost port; `replies` are spoken in order on each response.create
+  static async start(options: { replies?: string[] } = {}): Promise<StubRealtimeServer> {
+    const httpServer = http.createServer();
+    const wss = new WebSocketServer({ server: httpServer });
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+
+    return new StubRealtimeServer(httpServer, wss, [...(options.replies ?? [])]);
+  }
+
+  get url(): string {
+    const { port } = this.httpServer.address() as AddressInfo;
+    return `ws://127.0.0.1:${port}`;
+  }
+
+  async waitForConnection(timeoutMs?: number): Promise<void> {
+    await waitFor(() => this.socket?.readyState === WebSocket.OPEN, {
+      timeoutMs,
+      description: 'realtime bridge connection',
+    });
+  }
+
+  async waitForEvent(
+    predicate: (event: RealtimeClientEvent) => boolean,
+    timeoutMs?: number
+  ): Promise<RealtimeClientEvent> {
+    return waitFor(() => this.received.find(predicate), {
+      timeoutMs,
+      description: 'realtime client event',
+    });
+  }
+
+  // Text of every conversation item the bridge created with the given role
+  textItems(role: 'user' | 'system'): string[] {
+    return this.received
+      .filter(event => event.type === 'conversation.item.create' && event.item?.role === role)
+      .flatMap(event => event.item?.content ?? [])
+      .filter(part => part.type === 'input_text' && part.text)
+      .map(part => part.text as string);
+  }
+
+  sessionUpdates(): RealtimeClientEvent[] {
+    return this.received.filter(event => event.type === 'session.update');
+  }
+
+  sendTranscript(text: string): void {
+    this.emit({ type: 'conversation.item.input_audio_transcription.completed', transcript: text });
+  }
+
+  sendAssistantAudio(payload: string = SILENCE_FRAME_BASE64): void {
+    this.emit({ type: 'response.audio.delta', delta: payload });
+  }
+
+  sendSpeechStarted(): void {
+    this.emit({ type: 'input_audio_buffer.speech_started' });
+  }
+
+  // Ask the bridge to run a tool; resolves with the function_call_output it returns
+  async sendToolCall(name: string, args: Record<string, unknown>, timeoutMs?: number): Promise<unknown> {
+    this.toolCallCounter += 1;
+    const callId = `call_${this.toolCallCounter}`;
+
+    this.emit({
+      type: 'response.function_call_arguments.done',
+      call_id: callId,
+      name,
+      arguments: JSON.stringify(args),
+    });
+
+    const result = await this.waitForEvent(
+      event => event.item?.type === 'function_call_output' && event.item.call_id === callId,
+      timeoutMs
+    );
+
+    return JSON.parse(result.item?.output ?? 'null');
+  }
+
+  async runScript(steps: StubRealtimeStep[]): Promise<void> {
+    for (const step of steps) {
+      switch (step.type) {
+        case 'transcript':
+          this.sendTranscript(step.text);
+          break;
+        case 'tool_call':
+          await this.sendToolCall(step.name, step.args);
+          break;
+        case 'assistant_audio':
+          this.sendAssistantAudio(step.payload);
+          break;
+        case 'speech_started':
+          this.sendSpeechStarted();
+          break;
+        case 'wait':
+          await new Promise(resolve => setTimeout(resolve, step.ms));
+          break;
+      }
+    }
+  }
+
+  // Drop the bridge's socket as a degraded vendor would
+  dropConnection(code = 1011, reason = 'Stub provider failure'): void {
+    this.socket?.close(code, reason);
+  }
+
+  async close(): Promise<void> {
+    for (const client of this.wss.clients) {
+      client.terminate();
+    }
+    await new Promise<void>(resolve => this.wss.close(() => resolve()));
+    await new Promise<void>(resolve => this.httpServer.close(() => resolve()));
+  }
+
+  private handleClientEvent(event: RealtimeClientEvent): void {
+    if (event.type === 'input_audio_buffer.append') {
+      this.audioFramesReceived += 1;
+      return;
+    }
+
+    this.received.push(event);
+
+    if (event.type === 'session.update') {
+      this.emit({ type: 'session.updated' });
+    }
+
+    if (event.type === 'response.create') {
+      this.respond(this.replies.shift() ?? 'Okay.');
+    }
+  }
+
+  private respond(text: string): void {
+    this.emit({ type: 'response.audio.delta', delta: SILENCE_FRAME_BASE64 });
+    this.emit({ type: 'response.audio.done' });
+    this.emit({
+      type: 'response.done',
+      response: {
+        output: [{ type: 'message', content: [{ type: 'output_audio', transcript: text }] }],
+      },
+    });
+  }
+
+  private emit(event: Record<string, unknown>): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(event));
+    }
+  }
+}
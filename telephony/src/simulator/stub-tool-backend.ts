@@ -0,0 +1,74 @@
+// Stub for the /tools/* endpoints the realtime bridge calls
+// Records each request and answers with a canned JSON body
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { waitFor } from './wait-for.js';
+
+export interface StubToolRequest {
+  tool: string;
+  body: Record<string, unknown>;
+  webhookSecret: string | undefined;
+}
+
+export class StubToolBackend {
+  readonly requests: StubToolRequest[] = [];
+
+  private server: http.Server;
+  private responses = new Map<string, unknown>();
+
+  private constructor(server: http.Server) {
+    this.server = server;
+  }
+
+  static async start(): Promise<StubToolBackend> {
+    let backend: StubToolBackend | null = null;
+
+    const server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => { raw += chunk; });
+      req.on('end', () => {
+        const tool = (req.url ?? '').replace(/^\/tools\//, '');
+        const body = raw ? JSON.parse(raw) as Record<string, unknown> : {};
+        const secret = req.headers['x-webhook-secret'];
+
+        backend?.requests.push({
+          tool,
+          body,
+          webhookSecret: Array.isArray(secret) ? secret[0] : secret,
+        });
+
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(backend?.responses.get(tool) ?? { success: true }));
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    backend = new StubToolBackend(server);
+    return backend;
+  }
+
+  get url(): string {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  respondWith(tool: string, body: unknown): void {
+    this.responses.set(tool, body);
+  }
+
+  requestsFor(tool: string): StubToolRequest[] {
+    return this.requests.filter(request => request.tool === tool);
+  }
+
+  async waitForRequest(tool: string, timeoutMs?: number): Promise<StubToolRequest> {
+    return waitFor(() => this.requests.find(request => request.tool === tool), {
+      timeoutMs,
+      description: `POST /tools/${tool}`,
+    });
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+}
@@ -0,0 +1,151 @@
+// Scripted caller that speaks the Twilio Media Streams protocol
+// Connects to the media stream WebSocket the same way Twilio's <Stream> does
+
+import { WebSocket } from 'ws';
+import { waitFor } from './wait-for.js';
+
+// 20ms of μ-law silence at 8kHz
+export const SILENCE_FRAME_BASE64 = Buffer.alloc(160, 0xff).toString('base64');
+
+// Frames the server sends back to Twilio
+export interface TwilioOutboundFrame {
+  event: 'media' | 'clear' | 'mark';
+  streamSid: string;
+  media?: { payload: string };
+  mark?: { name: string };
+}
+
+export interface TwilioMediaSimulatorOptions {
+  callSid?: string;
+  streamSid?: string;
+  accountSid?: string;
+  customParameters?: Record<string, string>;
+}
+
+export class TwilioMediaStreamSimulator {
+  readonly callSid: string;
+  readonly streamSid: string;
+  readonly received: TwilioOutboundFrame[] = [];
+
+  private ws: WebSocket;
+  private options: TwilioMediaSimulatorOptions;
+  private sequenceNumber = 0;
+  private mediaChunk = 0;
+  private closed = false;
+
+  private constructor(ws: WebSocket, options: TwilioMediaSimulatorOptions) {
+    this.ws = ws;
+    this.options = options;
+    this.callSid = options.callSid ?? `CA${'0'.repeat(32)}`;
+    this.streamSid = options.streamSid ?? `MZ${'0'.repeat(32)}`;
+
+    ws.on('message', (data: Buffer) => {
+      this.received.push(JSON.parse(data.toString()) as TwilioOutboundFrame);
+    });
+    ws.on('close', () => {
+      this.closed = true;
+    });
+  }
+
+  // Open a stream for a call session, e.g. ws://localhost:3001/twilio/media
+  static async connect(
+    baseUrl: string,
+    callSessionId: string,
+    options: TwilioMediaSimulatorOptions = {}
+  ): Promise<TwilioMediaStreamSimulator> {
+    const url = new URL(baseUrl);
+    url.searchParams.set('callSessionId', callSessionId);
+
+    const ws = new WebSocket(url.toString());
+    await new Promise<void>((resolve, reject) => {
+      ws.once('open', () => resolve());
+      ws.once('error', reject);
+    });
+
+    return new TwilioMediaStreamSimulator(ws, options);
+  }
+
+  // connected + start, as Twilio sends when the <Stream> begins
+  start(): void {
+    this.send({ event: 'connected', protocol: 'Call', version: '1.0.0' });
+    this.send({
+      event: 'start',
+      streamSid: this.streamSid,
+      start: {
+        streamSid: this.streamSid,
+        callSid: this.callSid,
+        accountSid: this.options.accountSid ?? `AC${'0'.repeat(32)}`,
+        tracks: ['inbound'],
+        customParameters: this.options.customParameters ?? {},
+        mediaFormat: { encoding: 'audio/x-mulaw', sampleRate: 8000, channels: 1 },
+      },
+    });
+  }
+
+  sendAudio(payload: string = SILENCE_FRAME_BASE64, frames = 1): void {
+    for (let i = 0; i < frames; i++) {
+      this.mediaChunk += 1;
+      this.send({
+        event: 'media',
+        streamSid: this.streamSid,
+        media: {
+          track: 'inbound',
+          chunk: String(this.mediaChunk),
+          timestamp: String(this.mediaChunk * 20),
+          payload,
+        },
+      });
+    }
+  }
+
+  pressDigit(digit: string): void {
+    this.send({
+      event: 'dtmf',
+      streamSid: this.streamSid,
+      dtmf: { track: 'inbound_track', digit },
+    });
+  }
+
+  sendMark(name: string): void {
+    this.send({ event: 'mark', streamSid: this.streamSid, mark: { name } });
+  }
+
+  stop(): void {
+    this.send({
+      event: 'stop',
+      streamSid: this.streamSid,
+      stop: { accountSid: this.options.accountSid ?? `AC${'0'.repeat(32)}`, callSid: this.callSid },
+    });
+  }
+
+  // stop + socket close, as Twilio does when the caller hangs up
+  async hangUp(): Promise<void> {
+    if (this.closed) return;
+    this.stop();
+    this.ws.close(1000, 'Caller hung up');
+    await waitFor(() => this.closed, { description: 'media stream close' });
+  }
+
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  framesOfType(event: TwilioOutboundFrame['event']): TwilioOutboundFrame[] {
+    return this.received.filter(frame => frame.event === event);
+  }
+
+  async waitForFrame(
+    event: TwilioOutboundFrame['event'],
+    timeoutMs?: number
+  ): Promise<TwilioOutboundFrame> {
+    return waitFor(
+      () => this.received.find(frame => frame.event === event),
+      { timeoutMs, description: `Twilio ${event} frame` }
+    );
+  }
+
+  private send(message: Record<string, unknown>): void {
+    this.sequenceNumber += 1;
+    this.ws.send(JSON.stringify({ ...message, sequenceNumber: String(this.sequenceNumber) }));
+  }
+}
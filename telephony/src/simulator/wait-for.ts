@@ -0,0 +1,19 @@
+// Poll until a condition holds; used to keep simulator scenarios deterministic
+
+export async function waitFor<T>(
+  check: () => T | undefined | null | false,
+  options: { timeoutMs?: number; intervalMs?: number; description?: string } = {}
+): Promise<T> {
+  const { timeoutMs = 2000, intervalMs = 10, description = 'condition' } = options;
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    const result = check();
+    if (result) {
+      return result;
+    }
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+
+  throw new Error(`Timed out after ${timeoutMs}ms waiting for ${description}`);
+}
@@ -114,6 +114,24 @@ describe('sanitizePayload', () => {
     });
   });
 
+  describe('transfer_to_trusted_contact', () => {
+    it('should keep the transfer result only', () => {
+      const { sanitized, stripped } = sanitizePayload('tool_call', {
+        tool: 'transfer_to_trusted_contact',
+        success: true,
+        result: 'initiated',
+        contactName: 'Ann',
+      });
+
+      expect(sanitized).toEqual({
+        tool: 'transfer_to_trusted_contact',
+        success: true,
+        result: 'initiated',
+      });
+      expect(Object.keys(stripped)).toEqual(['contactName']);
+    });
+  });
+
   describe('state_change events', () => {
     it('should keep only allowed state_change fields', () => {
       const payload = {
@@ -132,6 +150,41 @@ describe('sanitizePayload', () => {
         sensitiveData: 'should be stripped',
       });
     });
+
+    it('should keep provider and latency fields on voice_failover', () => {
+      const payload = {
+        event: 'voice_failover',
+        fromProvider: 'grok',
+        toProvider: 'openai',
+        latencyMs: 1840,
+        success: true,
+        resumeTurns: [{ speaker: 'user', summary: 'private detail' }],
+      };
+
+      const { sanitized, stripped } = sanitizePayload('state_change', payload);
+
+      expect(sanitized).toEqual({
+        event: 'voice_failover',
+        fromProvider: 'grok',
+        toProvider: 'openai',
+        latencyMs: 1840,
+        success: true,
+      });
+      expect(Object.keys(stripped)).toEqual(['resumeTurns']);
+    });
+  });
+
+  describe('dtmf events', () => {
+    it('should keep the digit and resolved action', () => {
+      const { sanitized, stripped } = sanitizePayload('dtmf', {
+        digit: '2',
+        action: 'slower',
+        contactPhone: '+15555550100',
+      });
+
+      expect(sanitized).toEqual({ digit: '2', action: 'slower' });
+      expect(Object.keys(stripped)).toEqual(['contactPhone']);
+    });
   });
 
   describe('safety_tier events', () => {
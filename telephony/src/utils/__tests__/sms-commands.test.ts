@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { parseSmsCommand } from '../sms-commands.js';
+
+describe('parseSmsCommand', () => {
+  it('parses DONE regardless of case and punctuation', () => {
+    expect(parseSmsCommand('DONE')).toEqual({ type: 'done' });
+    expect(parseSmsCommand(' done. ')).toEqual({ type: 'done' });
+  });
+
+  it('defaults SNOOZE to 15 minutes', () => {
+    expect(parseSmsCommand('snooze')).toEqual({ type: 'snooze', minutes: 15 });
+  });
+
+  it('accepts supported snooze durations', () => {
+    expect(parseSmsCommand('SNOOZE 15')).toEqual({ type: 'snooze', minutes: 15 });
+    expect(parseSmsCommand('Snooze  60')).toEqual({ type: 'snooze', minutes: 60 });
+  });
+
+  it('flags unsupported snooze durations', () => {
+    expect(parseSmsCommand('SNOOZE 7')).toEqual({ type: 'snooze', minutes: null });
+    expect(parseSmsCommand('SNOOZE later')).toEqual({ type: 'snooze', minutes: null });
+  });
+
+  it('treats carrier opt-out keywords as STOP', () => {
+    expect(parseSmsCommand('STOP')).toEqual({ type: 'stop' });
+    expect(parseSmsCommand('unsubscribe')).toEqual({ type: 'stop' });
+  });
+
+  it('parses HELP', () => {
+    expect(parseSmsCommand('help')).toEqual({ type: 'help' });
+  });
+
+  it('ignores free-form messages', () => {
+    expect(parseSmsCommand('Done with my pills thanks')).toBeNull();
+    expect(parseSmsCommand('stop calling me at night')).toBeNull();
+    expect(parseSmsCommand('hello')).toBeNull();
+  });
+});
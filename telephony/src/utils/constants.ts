@@ -4,7 +4,84 @@ export const GROK_INITIAL_CONNECT_TIMEOUT_MS = 10000;
 export const GROK_RECONNECT_TIMEOUT_MS = 3000;
 export const GROK_RECONNECT_MAX_ATTEMPTS = 1;
 
+// Mid-call failover to SECONDARY_VOICE_PROVIDER
+export const VOICE_FAILOVER_CONNECT_TIMEOUT_MS = 4000;
+export const VOICE_FAILOVER_REPLAY_MAX_TURNS = 20;
+
 export const FALLBACK_TTS_WAIT_MS = 3000;
 
+// Time for the goodbye to play before an "end call" key press hangs up
+export const DTMF_END_CALL_GRACE_MS = 6000;
+export const DTMF_OPT_OUT_CONFIRM_WINDOW_MS = 30000;
+
+// Warm transfer to a trusted contact after a high-tier safety concern
+// Handoff delay lets the companion finish telling the caller what is happening
+export const TRANSFER_HANDOFF_DELAY_MS = 5000;
+export const TRANSFER_CONTACT_RING_TIMEOUT_SECONDS = 25;
+
+// Escalation ladder for unacknowledged high-tier safety alerts
+// Each step waits this long for a trusted contact to acknowledge before the next one runs
+export const SAFETY_ESCALATION_STEP_MINUTES = 10;
+export const SAFETY_ESCALATION_RING_TIMEOUT_SECONDS = 30;
+export const SAFETY_ACK_SMS_KEYWORD = 'OK';
+
+// Safety classifier stage that runs alongside the keyword backstop
+// Classifications scoring below the minimum are ignored; the local model is abandoned after the timeout
+export const SAFETY_CLASSIFIER_MIN_SCORE = 0.5;
+export const SAFETY_CLASSIFIER_TIMEOUT_MS = 1500;
+
+// Rolling window of recent turns (both speakers) the safety backstop evaluates
+export const SAFETY_WINDOW_MAX_TURNS = 6;
+
+// Memory retrieval for prompts: candidates are ranked and trimmed to MEMORY_PROMPT_TOKEN_BUDGET
+export const DEFAULT_MEMORY_PROMPT_TOKEN_BUDGET = 600;
+export const MEMORY_CANDIDATE_LIMIT = 200;
+export const MEMORY_RECENCY_HALF_LIFE_DAYS = 30;
+export const MEMORY_UPCOMING_WINDOW_DAYS = 7;
+// Recent turns used as topic context when memories are re-ranked mid-call
+export const MEMORY_RERANK_RECENT_TURNS = 10;
+// Possible memory updates raised with the senior in one call
+export const MEMORY_UPDATE_PROMPT_LIMIT = 3;
+// Follow-ups asked about in one call; ones left unanswered this long after they were due are dropped
+export const FOLLOW_UP_OPENER_LIMIT = 2;
+export const FOLLOW_UP_STALE_DAYS = 30;
+
+// Inbound SMS commands from a line's phone
+// DONE and SNOOZE apply to the reminder from the most recent reminder call within this window
+export const SMS_REMINDER_REPLY_WINDOW_HOURS = 12;
+export const SMS_DEFAULT_SNOOZE_MINUTES = 15;
+
+// Callback offered when an inbound call is turned away; placed this long after the request
+export const CALLBACK_DELAY_MINUTES = 2;
+// Open sessions older than this are treated as stale when checking whether a line is busy
+export const ACTIVE_CALL_STALE_MINUTES = 90;
+
 export const VAD_SILENCE_DURATION_MS = 500;
 export const VAD_THRESHOLD = 0.5;
+
+// Rotating segments: history considered when picking, calls before a template can repeat, and
+// consecutive declines after which segments are paused for a call
+export const SEGMENT_HISTORY_LIMIT = 30;
+export const SEGMENT_REPEAT_WINDOW = 6;
+export const SEGMENT_DECLINE_PAUSE = 2;
+
+// "Next time" previews left unused this long after they were stored are expired and flagged
+export const CALL_PREVIEW_EXPIRY_DAYS = 7;
+
+// Content feeds for call briefings: how often each feed is fetched, entries kept per fetch,
+// how long a fetch may take, the largest body read and the redirects followed
+export const CONTENT_FEED_REFRESH_MINUTES = 60;
+export const CONTENT_FEED_MAX_ITEMS = 25;
+export const CONTENT_FEED_FETCH_TIMEOUT_MS = 10_000;
+export const CONTENT_FEED_MAX_BYTES = 2 * 1024 * 1024;
+export const CONTENT_FEED_MAX_REDIRECTS = 3;
+// Briefing items per call; feed news older than the first window and caregiver items older
+// than the second are left out
+export const BRIEFING_ITEM_LIMIT = 3;
+export const BRIEFING_NEWS_MAX_AGE_HOURS = 72;
+export const BRIEFING_LOCAL_MAX_AGE_DAYS = 14;
+
+// Reminders that need confirmation: an unconfirmed dose gets this many call-backs,
+// this far apart, before it is recorded as missed
+export const REMINDER_CONFIRMATION_FOLLOW_UP_MINUTES = 30;
+export const REMINDER_CONFIRMATION_MAX_FOLLOW_UPS = 2;
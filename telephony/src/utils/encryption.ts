@@ -191,6 +191,8 @@ export async function storeEncryptedMemory(
     source?: 'onboarding' | 'conversation' | 'caregiver_seed';
     privacyScope?: 'line_only' | 'shareable_with_payer';
     redactionLevel?: 'none' | 'low' | 'high';
+    version?: number;
+    dueAt?: string | null;
   }
 ): Promise<string> {
   const dek = await getOrCreateAccountDEK(supabase, accountId);
@@ -220,6 +222,8 @@ export async function storeEncryptedMemory(
     source: options?.source ?? 'conversation',
     privacy_scope: options?.privacyScope ?? 'line_only',
     redaction_level: options?.redactionLevel ?? 'none',
+    version: options?.version ?? 1,
+    due_at: options?.dueAt ?? null,
   });
 
   if (error) {
@@ -240,6 +244,7 @@ export async function fetchDecryptedMemories(
   options?: {
     active?: boolean;
     limit?: number;
+    key?: string;
   }
 ): Promise<Array<{
   id: string;
@@ -256,6 +261,10 @@ export async function fetchDecryptedMemories(
   active: boolean;
   privacyScope: string;
   redactionLevel: string;
+  supersededBy: string | null;
+  supersededAt: string | null;
+  dueAt: string | null;
+  resolvedAt: string | null;
 }>> {
   const dek = await getOrCreateAccountDEK(supabase, accountId);
 
@@ -269,6 +278,10 @@ export async function fetchDecryptedMemories(
     query = query.eq('active', true);
   }
 
+  if (options?.key) {
+    query = query.eq('key', options.key);
+  }
+
   query = query.order('updated_at', { ascending: false, nullsFirst: false });
 
   if (options?.limit) {
@@ -322,6 +335,10 @@ export async function fetchDecryptedMemories(
         active: memory.active,
         privacyScope: memory.privacy_scope,
         redactionLevel: memory.redaction_level,
+        supersededBy: memory.superseded_by ?? null,
+        supersededAt: memory.superseded_at ?? null,
+        dueAt: memory.due_at ?? null,
+        resolvedAt: memory.resolved_at ?? null,
       });
     } catch (err) {
       logger.error({ error: err, memoryId: memory.id }, 'Failed to decrypt memory');
@@ -349,3 +366,43 @@ export async function deactivateMemory(
 
   logger.info({ memoryId }, 'Memory deactivated');
 }
+
+// Retire a memory replaced by a correction; the row stays as history linked to its replacement
+export async function supersedeMemory(
+  supabase: import('@supabase/supabase-js').SupabaseClient,
+  memoryId: string,
+  supersededBy: string
+): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('ultaura_memories')
+    .update({ active: false, superseded_by: supersededBy, superseded_at: now, updated_at: now })
+    .eq('id', memoryId);
+
+  if (error) {
+    logger.error({ error, memoryId }, 'Failed to supersede memory');
+    throw new Error('Failed to supersede memory');
+  }
+
+  logger.info({ memoryId, supersededBy }, 'Memory superseded');
+}
+
+// Mark a follow-up answered; it stays active so it remains part of the line's history
+export async function resolveFollowUpMemory(
+  supabase: import('@supabase/supabase-js').SupabaseClient,
+  memoryId: string
+): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('ultaura_memories')
+    .update({ resolved_at: now, updated_at: now })
+    .eq('id', memoryId)
+    .eq('type', 'follow_up');
+
+  if (error) {
+    logger.error({ error, memoryId }, 'Failed to resolve follow-up');
+    throw new Error('Failed to resolve follow-up');
+  }
+
+  logger.info({ memoryId }, 'Follow-up resolved');
+}
@@ -3,7 +3,7 @@ import { IANAZone } from 'luxon';
 interface EnvVariable {
   name: string;
   required: boolean;
-  format?: 'hex64' | 'url' | 'wss' | 'boolean' | 'number' | 'timezone' | 'min32' | 'decimal';
+  format?: 'hex64' | 'url' | 'wss' | 'boolean' | 'number' | 'timezone' | 'min32' | 'decimal' | 'voice_provider';
   default?: string;
 }
 
@@ -30,8 +30,26 @@ const ULTAURA_ENV_VARS: EnvVariable[] = [
   { name: 'ULTAURA_DEFAULT_TIMEZONE', required: false, format: 'timezone', default: 'America/Los_Angeles' },
   { name: 'ULTAURA_ENABLE_RECORDING', required: false, format: 'boolean', default: 'false' },
   { name: 'XAI_REALTIME_URL', required: false, format: 'wss', default: 'wss://api.x.ai/v1/realtime' },
+  { name: 'DEFAULT_VOICE_PROVIDER', required: false, format: 'voice_provider', default: 'grok' },
+  { name: 'SECONDARY_VOICE_PROVIDER', required: false, format: 'voice_provider' },
   { name: 'TWILIO_AMD_ENABLED', required: false, format: 'boolean', default: 'true' },
 
+  // Optional - OpenAI Realtime voice provider
+  { name: 'OPENAI_API_KEY', required: false },
+  { name: 'OPENAI_REALTIME_URL', required: false, format: 'wss' },
+  { name: 'OPENAI_REALTIME_MODEL', required: false, default: 'gpt-realtime' },
+  { name: 'OPENAI_REALTIME_VOICE', required: false, default: 'marin' },
+
+  // Optional - Safety classifier stage (rules | local_model | none)
+  { name: 'SAFETY_CLASSIFIER', required: false, default: 'rules' },
+  { name: 'SAFETY_CLASSIFIER_URL', required: false },
+
+  // Optional - Memory retrieval
+  { name: 'MEMORY_PROMPT_TOKEN_BUDGET', required: false, format: 'number', default: '600' },
+
+  // Optional - Content feeds (directory local_file feeds are read from)
+  { name: 'CONTENT_FEED_LOCAL_DIR', required: false },
+
   // Optional - Redis (rate limiting)
   { name: 'UPSTASH_REDIS_REST_URL', required: false, format: 'url' },
   { name: 'UPSTASH_REDIS_REST_TOKEN', required: false },
@@ -151,6 +169,14 @@ function validateFormat(name: string, value: string, format: EnvVariable['format
         return `${name} must be a valid IANA timezone (e.g., America/New_York). Got: ${value}`;
       }
       break;
+    case 'voice_provider':
+      if (!['grok', 'openai', 'fake'].includes(value)) {
+        return `${name} must be 'grok', 'openai' or 'fake'. Got: ${value}`;
+      }
+      if (production && value === 'fake') {
+        return `${name} cannot be 'fake' in production.`;
+      }
+      break;
   }
 
   return null;
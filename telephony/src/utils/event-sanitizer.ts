@@ -9,16 +9,23 @@ const TOOL_NAME_ALIASES: Record<string, string> = {
 const TOOL_BASE_FIELDS = ['tool', 'success', 'errorCode'] as const;
 
 const TOOL_ALLOWLISTS: Record<string, string[]> = {
-  set_reminder: ['reminderId', 'messageDefaulted'],
+  set_reminder: ['reminderId', 'messageDefaulted', 'deliveryMethod'],
   edit_reminder: ['reminderId'],
   pause_reminder: ['reminderId'],
   resume_reminder: ['reminderId'],
   snooze_reminder: ['reminderId', 'snoozeMinutes'],
   cancel_reminder: ['reminderId'],
+  record_reminder_confirmation: ['status'],
   list_reminders: ['reminderCount'],
   schedule_call: ['scheduleId', 'mode'],
   store_memory: ['key'],
   update_memory: ['key', 'action'],
+  confirm_memory_update: ['key', 'confirmed'],
+  resolve_follow_up: ['key'],
+  log_segment_engagement: ['segmentId', 'completed', 'seniorResponse'],
+  mark_briefing_mentioned: ['itemId'],
+  store_call_preview: ['topicType'],
+  resolve_call_preview: ['response'],
   grant_memory_consent: [],
   deny_memory_consent: [],
   forget_memory: ['result'],
@@ -30,10 +37,21 @@ const TOOL_ALLOWLISTS: Record<string, string[]> = {
   request_upgrade: ['planId', 'sendLink'],
   request_opt_out: ['confirmed'],
   log_safety_concern: ['tier', 'actionTaken'],
+  transfer_to_trusted_contact: ['result'],
   report_conversation_language: ['languageCode'],
 };
 
-const STATE_CHANGE_ALLOWLIST = ['event', 'action', 'planId', 'source', 'sendLink'];
+const STATE_CHANGE_ALLOWLIST = [
+  'event',
+  'action',
+  'planId',
+  'source',
+  'sendLink',
+  'fromProvider',
+  'toProvider',
+  'latencyMs',
+  'success',
+];
 
 function resolveToolName(toolName: string | undefined): string | undefined {
   if (!toolName) return toolName;
@@ -52,7 +70,7 @@ export function sanitizePayload(
 
   switch (eventType) {
     case 'dtmf':
-      allowlist = ['digit'];
+      allowlist = ['digit', 'action'];
       break;
 
     case 'tool_call':
@@ -0,0 +1,47 @@
+// Parse commands texted to our Twilio number from a line's phone
+
+import { VALID_SNOOZE_MINUTES } from '@ultaura/schemas';
+import { SMS_DEFAULT_SNOOZE_MINUTES } from './constants.js';
+
+export type SmsCommand =
+  | { type: 'done' }
+  // minutes is null when the requested duration is not one we support
+  | { type: 'snooze'; minutes: number | null }
+  | { type: 'stop' }
+  | { type: 'help' };
+
+// Carrier opt-out keywords; Twilio blocks further texts after these, so honor them too
+const STOP_KEYWORDS = new Set(['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT']);
+
+export function parseSmsCommand(body: string): SmsCommand | null {
+  const words = body.trim().replace(/[.!]+$/, '').toUpperCase().split(/\s+/);
+  const [keyword, argument, ...rest] = words;
+
+  if (rest.length > 0) {
+    return null;
+  }
+
+  if (STOP_KEYWORDS.has(keyword) && !argument) {
+    return { type: 'stop' };
+  }
+
+  if (keyword === 'DONE' && !argument) {
+    return { type: 'done' };
+  }
+
+  if ((keyword === 'HELP' || keyword === 'INFO') && !argument) {
+    return { type: 'help' };
+  }
+
+  if (keyword === 'SNOOZE') {
+    if (!argument) {
+      return { type: 'snooze', minutes: SMS_DEFAULT_SNOOZE_MINUTES };
+    }
+
+    const minutes = /^\d+$/.test(argument) ? Number(argument) : NaN;
+    const isValid = VALID_SNOOZE_MINUTES.includes(minutes as (typeof VALID_SNOOZE_MINUTES)[number]);
+    return { type: 'snooze', minutes: isValid ? minutes : null };
+  }
+
+  return null;
+}
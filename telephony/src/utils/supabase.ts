@@ -2,6 +2,7 @@
 // Uses service role key for full access
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { CallWindow, DtmfKeymap, ReminderDeliveryMethod } from '@ultaura/schemas';
 
 let supabaseClient: SupabaseClient | null = null;
 
@@ -46,6 +47,7 @@ export interface UltauraAccountRow {
   cycle_end: string | null;
   overage_cents_cap: number;
   created_by_user_id: string;
+  voice_provider: 'grok' | 'openai' | null;
 }
 
 export interface LineRow {
@@ -66,11 +68,17 @@ export interface LineRow {
   next_scheduled_call_at: string | null;
   seed_interests: string[] | null;
   seed_avoid_topics: string[] | null;
+  briefing_region: string | null;
   voicemail_behavior: 'none' | 'brief' | 'detailed';
+  allow_voice_reminder_control: boolean;
   consecutive_missed_calls: number;
+  consecutive_missed_doses: number;
   last_answered_call_at: string | null;
   missed_alert_sent_at: string | null;
+  missed_dose_alert_sent_at: string | null;
   last_weekly_summary_at: string | null;
+  voice_provider: 'grok' | 'openai' | null;
+  dtmf_keymap: DtmfKeymap | null;
 }
 
 export interface CallSessionRow {
@@ -98,8 +106,12 @@ export interface CallSessionRow {
   is_reminder_call: boolean;
   reminder_id: string | null;
   reminder_message: string | null;
+  reminder_delivery_method: ReminderDeliveryMethod | null;
   scheduler_idempotency_key: string | null;
   is_test_call: boolean;
+  // Prompt registry version and the experiment that assigned it (companion calls only)
+  prompt_version: string | null;
+  prompt_experiment_id: string | null;
 }
 
 export interface ScheduleRow {
@@ -111,11 +123,13 @@ export interface ScheduleRow {
   timezone: string;
   days_of_week: number[];
   time_of_day: string;
+  call_windows: CallWindow[];
   next_run_at: string | null;
   retry_policy: { max_retries: number; retry_window_minutes: number };
   last_run_at: string | null;
   last_result: 'success' | 'missed' | 'suppressed_quiet_hours' | 'failed' | null;
   retry_count: number;
+  is_one_off: boolean;
 }
 
 export interface MemoryRow {
@@ -164,7 +178,7 @@ export interface ReminderRow {
   due_at: string;
   timezone: string;
   message: string;
-  delivery_method: string;
+  delivery_method: ReminderDeliveryMethod;
   status: 'scheduled' | 'sent' | 'missed' | 'canceled';
   privacy_scope: 'line_only' | 'shareable_with_payer';
   created_by_call_session_id: string | null;
@@ -176,7 +190,15 @@ export interface ReminderRow {
   day_of_month: number | null;
   time_of_day: string | null;
   ends_at: string | null;
+  // Local "yyyy-MM-dd" dates the series skips (EXDATE)
+  excluded_dates: string[];
   occurrence_count: number;
+  // Pause and snooze state
+  is_paused: boolean;
+  current_snooze_count: number;
+  original_due_at: string | null;
+  snoozed_until: string | null;
+  requires_confirmation: boolean;
 }
 
 export interface AccountCryptoKeyRow {
@@ -78,6 +78,7 @@ export function generateStreamTwiML(
     disclosureLanguage?: string;
     recordCall?: boolean;
     recordingStatusCallback?: string;
+    introMessage?: string;
   }
 ): string {
   const streamUrl = `${websocketUrl}?callSessionId=${callSessionId}`;
@@ -88,6 +89,9 @@ export function generateStreamTwiML(
   const disclosure = includeDisclosure
     ? buildRecordingDisclosure(options?.disclosureLanguage)
     : '';
+  const intro = options?.introMessage
+    ? `  <Say voice="Polly.Joanna">${escapeXml(options.introMessage)}</Say>\n`
+    : '';
 
   const recordAttribute = recordCall ? ' record="record-from-answer"' : '';
   const recordingCallback = recordCall && recordingStatusCallback
@@ -96,7 +100,7 @@ export function generateStreamTwiML(
 
   return `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
-${disclosure}  <Connect${recordAttribute}${recordingCallback}>
+${intro}${disclosure}  <Connect${recordAttribute}${recordingCallback}>
     <Stream url="${streamUrl}">
       <Parameter name="callSessionId" value="${callSessionId}" />
     </Stream>
@@ -145,6 +149,19 @@ export function generateMessageTwiML(message: string, languageCode?: string): st
 </Response>`;
 }
 
+// Generate TwiML replying to an inbound SMS (no reply when message is omitted)
+export function generateSmsReplyTwiML(message?: string): string {
+  if (!message) {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<Response />`;
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Message>${escapeXml(message)}</Message>
+</Response>`;
+}
+
 // Generate TwiML to hang up without a message
 export function generateHangupTwiML(): string {
   return `<?xml version="1.0" encoding="UTF-8"?>
@@ -153,6 +170,77 @@ export function generateHangupTwiML(): string {
 </Response>`;
 }
 
+// Generate TwiML that places the call in a named conference (warm transfer)
+export function generateConferenceTwiML(options: {
+  conferenceName: string;
+  message?: string;
+  startConferenceOnEnter: boolean;
+  endConferenceOnExit: boolean;
+}): string {
+  const say = options.message
+    ? `  <Say voice="Polly.Joanna">${escapeXml(options.message)}</Say>\n`
+    : '';
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+${say}  <Dial>
+    <Conference startConferenceOnEnter="${options.startConferenceOnEnter}" endConferenceOnExit="${options.endConferenceOnExit}" beep="false">${escapeXml(options.conferenceName)}</Conference>
+  </Dial>
+</Response>`;
+}
+
+// Generate TwiML that briefs a transfer recipient and waits for a key press before bridging
+export function generateTransferBriefingTwiML(options: {
+  briefing: string;
+  acceptUrl: string;
+}): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Gather numDigits="1" action="${escapeXml(options.acceptUrl)}" method="POST" timeout="10">
+    <Say voice="Polly.Joanna">${escapeXml(options.briefing)} Press any key to be connected now.</Say>
+  </Gather>
+  <Say voice="Polly.Joanna">We did not receive a response. Goodbye.</Say>
+  <Hangup />
+</Response>`;
+}
+
+// Generate TwiML offering a callback; pressing 1 posts to actionUrl
+export function generateCallbackOfferTwiML(options: {
+  message: string;
+  offer: string;
+  actionUrl: string;
+  // Where to continue when no key is pressed; the call ends when omitted
+  noInputUrl?: string;
+}): string {
+  const noInput = options.noInputUrl
+    ? `<Redirect method="POST">${escapeXml(options.noInputUrl)}</Redirect>`
+    : `<Say voice="Polly.Joanna">Goodbye.</Say>
+  <Hangup />`;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Gather numDigits="1" action="${escapeXml(options.actionUrl)}" method="POST" timeout="8">
+    <Say voice="Polly.Joanna">${escapeXml(options.message)} ${escapeXml(options.offer)}</Say>
+  </Gather>
+  ${noInput}
+</Response>`;
+}
+
+// Generate TwiML for an automated safety alert call; any key press acknowledges
+export function generateSafetyAlertCallTwiML(options: {
+  message: string;
+  ackUrl: string;
+}): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Gather numDigits="1" action="${escapeXml(options.ackUrl)}" method="POST" timeout="10">
+    <Say voice="Polly.Joanna">${escapeXml(options.message)} Press any key to let us know you received this alert.</Say>
+  </Gather>
+  <Say voice="Polly.Joanna">We did not receive a response. We will try another contact. Goodbye.</Say>
+  <Hangup />
+</Response>`;
+}
+
 // Generate TwiML for hold message
 export function generateHoldTwiML(message: string): string {
   return `<?xml version="1.0" encoding="UTF-8"?>
@@ -198,6 +286,7 @@ export async function initiateOutboundCall(options: {
   statusCallbackUrl: string;
   callSessionId: string;
   amdEnabled?: boolean;
+  amdMode?: 'Enable' | 'DetectMessageEnd';
 }): Promise<string> {
   const client = getTwilioClient();
   const amdEnabled = options.amdEnabled ?? isAmdEnabled(process.env.TWILIO_AMD_ENABLED);
@@ -210,7 +299,7 @@ export async function initiateOutboundCall(options: {
     statusCallbackEvent: ['initiated', 'ringing', 'answered', 'completed'],
     statusCallbackMethod: 'POST',
     ...(amdEnabled && {
-      machineDetection: 'Enable',
+      machineDetection: options.amdMode ?? 'Enable',
       machineDetectionTimeout: 30,
     }),
   };
@@ -6,6 +6,8 @@ type VoicemailTemplates = {
   brief: (name: string) => string;
   detailed: (name: string) => string;
   reminderDetailed: (name: string, reminderMessage: string) => string;
+  // Voicemail-drop reminders: the whole delivery, so no promise to call back
+  reminderDrop: (name: string, reminderMessage: string) => string;
 };
 
 const VOICEMAIL_TEMPLATES: Record<string, VoicemailTemplates> = {
@@ -14,6 +16,8 @@ const VOICEMAIL_TEMPLATES: Record<string, VoicemailTemplates> = {
     detailed: (name) => `Hi ${name}, this is Ultaura. I was calling for your check-in. I'll try again later. Take care!`,
     reminderDetailed: (name, message) =>
       `Hi ${name}, this is Ultaura. I was calling to remind you: ${message}. I'll try again later. Take care!`,
+    reminderDrop: (name, message) =>
+      `Hi ${name}, this is Ultaura with a reminder: ${message}. Take care!`,
   },
   es: {
     brief: (name) => `Hola ${name}, soy Ultaura. Te llamare pronto. Cuidate!`,
@@ -21,6 +25,8 @@ const VOICEMAIL_TEMPLATES: Record<string, VoicemailTemplates> = {
       `Hola ${name}, soy Ultaura. Te llamaba para tu llamada de bienestar. Volvere a intentarlo mas tarde. Cuidate!`,
     reminderDetailed: (name, message) =>
       `Hola ${name}, soy Ultaura. Te llamaba para recordarte: ${message}. Volvere a intentarlo mas tarde. Cuidate!`,
+    reminderDrop: (name, message) =>
+      `Hola ${name}, soy Ultaura con un recordatorio: ${message}. Cuidate!`,
   },
   fr: {
     brief: (name) => `Bonjour ${name}, c'est Ultaura. Je rappellerai bientot. Prenez soin de vous!`,
@@ -28,6 +34,8 @@ const VOICEMAIL_TEMPLATES: Record<string, VoicemailTemplates> = {
       `Bonjour ${name}, c'est Ultaura. Je vous appelais pour votre appel de bien-etre. Je reessaierai plus tard. Prenez soin de vous!`,
     reminderDetailed: (name, message) =>
       `Bonjour ${name}, c'est Ultaura. Je vous appelais pour vous rappeler: ${message}. Je reessaierai plus tard. Prenez soin de vous!`,
+    reminderDrop: (name, message) =>
+      `Bonjour ${name}, c'est Ultaura avec un rappel: ${message}. Prenez soin de vous!`,
   },
   de: {
     brief: (name) => `Hallo ${name}, hier ist Ultaura. Ich rufe bald wieder an. Passen Sie auf sich auf!`,
@@ -35,6 +43,8 @@ const VOICEMAIL_TEMPLATES: Record<string, VoicemailTemplates> = {
       `Hallo ${name}, hier ist Ultaura. Ich habe wegen Ihres Check-ins angerufen. Ich versuche es spaeter noch einmal. Passen Sie auf sich auf!`,
     reminderDetailed: (name, message) =>
       `Hallo ${name}, hier ist Ultaura. Ich wollte Sie erinnern: ${message}. Ich versuche es spaeter noch einmal. Passen Sie auf sich auf!`,
+    reminderDrop: (name, message) =>
+      `Hallo ${name}, hier ist Ultaura mit einer Erinnerung: ${message}. Passen Sie auf sich auf!`,
   },
   it: {
     brief: (name) => `Ciao ${name}, sono Ultaura. Ti richiamero presto. Abbi cura di te!`,
@@ -42,6 +52,8 @@ const VOICEMAIL_TEMPLATES: Record<string, VoicemailTemplates> = {
       `Ciao ${name}, sono Ultaura. Ti chiamavo per il tuo check-in. Riprovero piu tardi. Abbi cura di te!`,
     reminderDetailed: (name, message) =>
       `Ciao ${name}, sono Ultaura. Ti chiamavo per ricordarti: ${message}. Riprovero piu tardi. Abbi cura di te!`,
+    reminderDrop: (name, message) =>
+      `Ciao ${name}, sono Ultaura con un promemoria: ${message}. Abbi cura di te!`,
   },
   pt: {
     brief: (name) => `Oi ${name}, aqui e a Ultaura. Vou ligar de novo em breve. Se cuide!`,
@@ -49,6 +61,8 @@ const VOICEMAIL_TEMPLATES: Record<string, VoicemailTemplates> = {
       `Oi ${name}, aqui e a Ultaura. Eu estava ligando para seu check-in. Vou tentar mais tarde. Se cuide!`,
     reminderDetailed: (name, message) =>
       `Oi ${name}, aqui e a Ultaura. Eu estava ligando para lembrar voce: ${message}. Vou tentar mais tarde. Se cuide!`,
+    reminderDrop: (name, message) =>
+      `Oi ${name}, aqui e a Ultaura com um lembrete: ${message}. Se cuide!`,
   },
   ja: {
     brief: (name) => `こんにちは${name}さん、ウルタウラです。またすぐにお電話します。お元気で。`,
@@ -56,6 +70,8 @@ const VOICEMAIL_TEMPLATES: Record<string, VoicemailTemplates> = {
       `こんにちは${name}さん、ウルタウラです。お元気確認のお電話でした。また後でお電話します。お元気で。`,
     reminderDetailed: (name, message) =>
       `こんにちは${name}さん、ウルタウラです。お知らせのためにお電話しました：${message}。また後でお電話します。お元気で。`,
+    reminderDrop: (name, message) =>
+      `こんにちは${name}さん、ウルタウラからのお知らせです：${message}。お元気で。`,
   },
   ko: {
     brief: (name) => `${name}님, 안녕하세요. 울타우라입니다. 곧 다시 전화드릴게요. 건강히 지내세요.`,
@@ -63,6 +79,8 @@ const VOICEMAIL_TEMPLATES: Record<string, VoicemailTemplates> = {
       `${name}님, 안녕하세요. 울타우라입니다. 안부 확인을 위해 전화드렸어요. 나중에 다시 전화드릴게요. 건강히 지내세요.`,
     reminderDetailed: (name, message) =>
       `${name}님, 안녕하세요. 울타우라입니다. 다음 내용을 알려드리려고 전화드렸어요: ${message}. 나중에 다시 전화드릴게요. 건강히 지내세요.`,
+    reminderDrop: (name, message) =>
+      `${name}님, 안녕하세요. 울타우라에서 알려드립니다: ${message}. 건강히 지내세요.`,
   },
   zh: {
     brief: (name) => `您好，${name}，我是Ultaura。很快再给您打电话。请保重！`,
@@ -70,6 +88,8 @@ const VOICEMAIL_TEMPLATES: Record<string, VoicemailTemplates> = {
       `您好，${name}，我是Ultaura。我是来做您的关怀通话的。稍后我会再联系您。请保重！`,
     reminderDetailed: (name, message) =>
       `您好，${name}，我是Ultaura。我打电话是提醒您：${message}。稍后我会再联系您。请保重！`,
+    reminderDrop: (name, message) =>
+      `您好，${name}，我是Ultaura，提醒您：${message}。请保重！`,
   },
 };
 
@@ -90,3 +110,12 @@ export function getVoicemailMessage(options: {
 
   return behavior === 'detailed' ? templates.detailed(name) : templates.brief(name);
 }
+
+export function getReminderDropMessage(options: {
+  name: string;
+  language: string;
+  reminderMessage: string;
+}): string {
+  const templates = VOICEMAIL_TEMPLATES[normalizeLanguageCode(options.language)] ?? VOICEMAIL_TEMPLATES.en;
+  return templates.reminderDrop(options.name, options.reminderMessage);
+}
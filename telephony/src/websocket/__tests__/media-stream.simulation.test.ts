@@ -0,0 +1,463 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeAll, afterAll, beforeEach, describe, it, expect, vi } from 'vitest';
+import type { CallSessionRow, LineRow, UltauraAccountRow } from '../../utils/supabase.js';
+
+const mocks = vi.hoisted(() => {
+  const noop = () => undefined;
+  return {
+    logger: { info: noop, debug: noop, warn: noop, error: noop, fatal: noop },
+    getCallSession: vi.fn(),
+    updateCallStatus: vi.fn(),
+    completeCallSession: vi.fn(),
+    recordCallEvent: vi.fn(),
+    recordDebugEvent: vi.fn(),
+    getLineById: vi.fn(),
+    recordOptOut: vi.fn(),
+    getMemoriesForPrompt: vi.fn(),
+    getDueFollowUps: vi.fn(),
+    getPendingMemoryUpdates: vi.fn(),
+    selectSegmentForCall: vi.fn(),
+    getPendingCallPreview: vi.fn(),
+    recordCallPreviewMissed: vi.fn(),
+    buildBriefingForCall: vi.fn(),
+    getOpenReminderConfirmation: vi.fn(),
+    getUsageSummary: vi.fn(),
+    getLastDetectedLanguageForLine: vi.fn(),
+    getAccountPrivacySettings: vi.fn(),
+    getLineVoiceConsent: vi.fn(),
+    summarizeAndExtractMemoriesFromBuffer: vi.fn(),
+    extractFallbackInsightsFromBuffer: vi.fn(),
+  };
+});
+
+vi.mock('../../server.js', () => ({ logger: mocks.logger }));
+vi.mock('../../utils/logger.js', () => ({ logger: mocks.logger }));
+vi.mock('../../services/call-session.js', () => ({
+  getCallSession: mocks.getCallSession,
+  updateCallStatus: mocks.updateCallStatus,
+  completeCallSession: mocks.completeCallSession,
+  recordCallEvent: mocks.recordCallEvent,
+  recordDebugEvent: mocks.recordDebugEvent,
+}));
+vi.mock('../../services/line-lookup.js', () => ({
+  getLineById: mocks.getLineById,
+  recordOptOut: mocks.recordOptOut,
+}));
+vi.mock('../../services/memory-retrieval.js', () => ({
+  getMemoriesForPrompt: mocks.getMemoriesForPrompt,
+  getDueFollowUps: mocks.getDueFollowUps,
+}));
+vi.mock('../../services/memory-updates.js', () => ({ getPendingMemoryUpdates: mocks.getPendingMemoryUpdates }));
+vi.mock('../../services/segments.js', () => ({ selectSegmentForCall: mocks.selectSegmentForCall }));
+vi.mock('../../services/briefing.js', () => ({ buildBriefingForCall: mocks.buildBriefingForCall }));
+vi.mock('../../services/reminder-confirmations.js', () => ({
+  getOpenReminderConfirmation: mocks.getOpenReminderConfirmation,
+}));
+vi.mock('../../services/call-preview.js', () => ({
+  getPendingCallPreview: mocks.getPendingCallPreview,
+  recordCallPreviewMissed: mocks.recordCallPreviewMissed,
+}));
+vi.mock('../../services/metering.js', () => ({ getUsageSummary: mocks.getUsageSummary }));
+vi.mock('../../services/language.js', () => ({
+  getLastDetectedLanguageForLine: mocks.getLastDetectedLanguageForLine,
+}));
+vi.mock('../../services/privacy.js', () => ({
+  getAccountPrivacySettings: mocks.getAccountPrivacySettings,
+  getLineVoiceConsent: mocks.getLineVoiceConsent,
+}));
+vi.mock('../../services/call-summarization.js', () => ({
+  summarizeAndExtractMemoriesFromBuffer: mocks.summarizeAndExtractMemoriesFromBuffer,
+}));
+vi.mock('../../services/insights-fallback.js', () => ({
+  extractFallbackInsightsFromBuffer: mocks.extractFallbackInsightsFromBuffer,
+}));
+
+import { createMediaStreamServer, MEDIA_STREAM_PATH } from '../media-stream-server.js';
+import { getBuffer } from '../../services/ephemeral-buffer.js';
+import {
+  StubRealtimeServer,
+  StubToolBackend,
+  TwilioMediaStreamSimulator,
+  waitFor,
+} from '../../simulator/index.js';
+
+const INTERNAL_SECRET = 'simulator-internal-secret-0123456789abcdef';
+
+const account: UltauraAccountRow = {
+  id: 'acct-1',
+  organization_id: 1,
+  created_at: '2026-01-01T00:00:00Z',
+  name: 'Test Family',
+  billing_email: 'family@example.com',
+  default_locale: 'en-US',
+  status: 'active',
+  plan_id: 'care',
+  trial_plan_id: null,
+  trial_starts_at: null,
+  trial_ends_at: null,
+  minutes_included: 300,
+  minutes_used: 10,
+  cycle_start: null,
+  cycle_end: null,
+  overage_cents_cap: 0,
+  created_by_user_id: 'user-1',
+  voice_provider: null,
+};
+
+const line: LineRow = {
+  id: 'line-1',
+  short_id: 'line1',
+  account_id: account.id,
+  created_at: '2026-01-01T00:00:00Z',
+  display_name: 'Margaret',
+  phone_e164: '+15555550123',
+  phone_verified_at: '2026-01-01T00:00:00Z',
+  status: 'active',
+  timezone: 'America/New_York',
+  quiet_hours_start: '21:00',
+  quiet_hours_end: '09:00',
+  do_not_call: false,
+  inbound_allowed: true,
+  last_successful_call_at: '2026-01-02T00:00:00Z',
+  next_scheduled_call_at: null,
+  seed_interests: ['gardening'],
+  seed_avoid_topics: null,
+  briefing_region: null,
+  voicemail_behavior: 'brief',
+  allow_voice_reminder_control: true,
+  consecutive_missed_calls: 0,
+  consecutive_missed_doses: 0,
+  last_answered_call_at: null,
+  missed_alert_sent_at: null,
+  missed_dose_alert_sent_at: null,
+  last_weekly_summary_at: null,
+  voice_provider: null,
+  dtmf_keymap: null,
+};
+
+let sessionCounter = 0;
+
+function buildSession(overrides: Partial<CallSessionRow> = {}): CallSessionRow {
+  sessionCounter += 1;
+  return {
+    id: `session-${sessionCounter}`,
+    account_id: account.id,
+    line_id: line.id,
+    created_at: '2026-01-03T00:00:00Z',
+    direction: 'outbound',
+    status: 'ringing',
+    started_at: null,
+    connected_at: null,
+    ended_at: null,
+    seconds_connected: null,
+    twilio_call_sid: null,
+    twilio_from: null,
+    twilio_to: null,
+    recording_sid: null,
+    end_reason: null,
+    language_detected: null,
+    tool_invocations: 0,
+    cost_estimate_cents_twilio: null,
+    cost_estimate_cents_model: null,
+    is_reminder_call: false,
+    reminder_id: null,
+    reminder_message: null,
+    reminder_delivery_method: null,
+    scheduler_idempotency_key: null,
+    is_test_call: true,
+    prompt_version: null,
+    prompt_experiment_id: null,
+    ...overrides,
+  } as CallSessionRow;
+}
+
+describe('media stream simulation', () => {
+  let mediaServer: http.Server;
+  let mediaStreamUrl: string;
+  let realtime: StubRealtimeServer;
+  let tools: StubToolBackend;
+  let caller: TwilioMediaStreamSimulator | null = null;
+
+  beforeAll(async () => {
+    mediaServer = http.createServer();
+    createMediaStreamServer(mediaServer);
+    await new Promise<void>(resolve => mediaServer.listen(0, '127.0.0.1', resolve));
+    const { port } = mediaServer.address() as AddressInfo;
+    mediaStreamUrl = `ws://127.0.0.1:${port}${MEDIA_STREAM_PATH}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => mediaServer.close(() => resolve()));
+  });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mocks.updateCallStatus.mockResolvedValue(undefined);
+    mocks.completeCallSession.mockResolvedValue(undefined);
+    mocks.recordCallEvent.mockResolvedValue(undefined);
+    mocks.recordDebugEvent.mockResolvedValue(undefined);
+    mocks.recordOptOut.mockResolvedValue(undefined);
+    mocks.getLineById.mockResolvedValue({ line, account });
+    mocks.getMemoriesForPrompt.mockResolvedValue([]);
+    mocks.getDueFollowUps.mockResolvedValue([]);
+    mocks.getPendingMemoryUpdates.mockResolvedValue([]);
+    mocks.selectSegmentForCall.mockResolvedValue(null);
+    mocks.getPendingCallPreview.mockResolvedValue(null);
+    mocks.buildBriefingForCall.mockResolvedValue([]);
+    mocks.getOpenReminderConfirmation.mockResolvedValue(null);
+    mocks.getUsageSummary.mockResolvedValue({ minutesRemaining: 120 });
+    mocks.getLastDetectedLanguageForLine.mockResolvedValue('en');
+    mocks.getAccountPrivacySettings.mockResolvedValue({ aiSummarizationEnabled: true });
+    mocks.getLineVoiceConsent.mockResolvedValue({ memoryConsent: 'granted', lastConsentPromptAt: null });
+    mocks.summarizeAndExtractMemoriesFromBuffer.mockResolvedValue(undefined);
+    mocks.extractFallbackInsightsFromBuffer.mockResolvedValue(undefined);
+
+    realtime = await StubRealtimeServer.start();
+    tools = await StubToolBackend.start();
+
+    vi.stubEnv('XAI_API_KEY', 'test-xai-key');
+    vi.stubEnv('XAI_REALTIME_URL', realtime.url);
+    vi.stubEnv('ULTAURA_BACKEND_URL', tools.url);
+    vi.stubEnv('ULTAURA_INTERNAL_API_SECRET', INTERNAL_SECRET);
+    vi.stubEnv('DEFAULT_VOICE_PROVIDER', 'grok');
+    vi.stubEnv('SECONDARY_VOICE_PROVIDER', '');
+  });
+
+  afterEach(async () => {
+    await caller?.hangUp();
+    caller = null;
+    await realtime.close();
+    await tools.close();
+    vi.unstubAllEnvs();
+  });
+
+  async function startCall(session: CallSessionRow): Promise<TwilioMediaStreamSimulator> {
+    mocks.getCallSession.mockResolvedValue(session);
+
+    caller = await TwilioMediaStreamSimulator.connect(mediaStreamUrl, session.id);
+    caller.start();
+
+    await realtime.waitForEvent(event => event.type === 'session.update');
+    await waitFor(
+      () => mocks.updateCallStatus.mock.calls.some(([id, status]) => id === session.id && status === 'in_progress'),
+      { description: 'call in progress' }
+    );
+
+    return caller;
+  }
+
+  it('relays audio in both directions', async () => {
+    const session = buildSession();
+    const sim = await startCall(session);
+
+    sim.sendAudio(undefined, 3);
+    await waitFor(() => realtime.audioFramesReceived === 3, { description: 'caller audio at provider' });
+
+    realtime.sendAssistantAudio();
+    const frame = await sim.waitForFrame('media');
+    expect(frame.streamSid).toBe(sim.streamSid);
+  });
+
+  it('routes model tool calls to the tools backend and returns the result', async () => {
+    const session = buildSession();
+    await startCall(session);
+
+    tools.respondWith('set_reminder', { success: true, reminderId: 'rem-1' });
+
+    const output = await realtime.sendToolCall('set_reminder', {
+      due_at_local: '2026-10-20T09:00',
+      message: 'Take your vitamins',
+    });
+
+    expect(output).toEqual({ success: true, reminderId: 'rem-1' });
+
+    const [request] = tools.requestsFor('set_reminder');
+    expect(request.webhookSecret).toBe(INTERNAL_SECRET);
+    expect(request.body).toMatchObject({
+      callSessionId: session.id,
+      lineId: line.id,
+      dueAtLocal: '2026-10-20T09:00',
+      timezone: line.timezone,
+      message: 'Take your vitamins',
+      isRecurring: false,
+    });
+    expect(mocks.recordDebugEvent).toHaveBeenCalledWith(
+      session.id,
+      'tool_call',
+      expect.objectContaining({ tool: 'set_reminder' }),
+      expect.anything(),
+      expect.anything()
+    );
+  });
+
+  it('requires a second 9 before recording a DTMF opt-out', async () => {
+    const session = buildSession();
+    const sim = await startCall(session);
+
+    sim.pressDigit('9');
+    await waitFor(
+      () => realtime.textItems('user').find(text => text.startsWith('DTMF_OPT_OUT:')),
+      { description: 'opt-out confirmation prompt' }
+    );
+    expect(mocks.recordOptOut).not.toHaveBeenCalled();
+
+    sim.pressDigit('9');
+    await waitFor(() => mocks.recordOptOut.mock.calls.length > 0, { description: 'opt-out recorded' });
+
+    expect(mocks.recordOptOut).toHaveBeenCalledWith(account.id, line.id, session.id, 'dtmf');
+    expect(realtime.textItems('user').some(text => text.startsWith('DTMF_OPT_OUT_CONFIRMED'))).toBe(true);
+    expect(mocks.recordCallEvent).toHaveBeenCalledWith(
+      session.id,
+      'dtmf',
+      { digit: '9', action: 'opt_out' },
+      { skipDebugLog: true }
+    );
+  });
+
+  it('follows the line keypad map and logs unmapped keys', async () => {
+    mocks.getLineById.mockResolvedValue({
+      line: { ...line, dtmf_keymap: { '4': 'slower', '5': 'opt_out' } },
+      account,
+    });
+    const session = buildSession();
+    const sim = await startCall(session);
+
+    sim.pressDigit('9');
+    await waitFor(
+      () => mocks.recordCallEvent.mock.calls.some(([, type]) => type === 'dtmf'),
+      { description: 'unmapped key event' }
+    );
+    expect(mocks.recordCallEvent).toHaveBeenCalledWith(
+      session.id,
+      'dtmf',
+      { digit: '9', action: 'none' },
+      { skipDebugLog: true }
+    );
+
+    sim.pressDigit('4');
+    await waitFor(
+      () => realtime.textItems('user').find(text => text.startsWith('DTMF_SLOWER:')),
+      { description: 'slow down prompt' }
+    );
+    expect(realtime.textItems('user').some(text => text.startsWith('DTMF_OPT_OUT'))).toBe(false);
+    expect(mocks.recordOptOut).not.toHaveBeenCalled();
+  });
+
+  it('routes a confirmed transfer request to the backend', async () => {
+    const session = buildSession();
+    await startCall(session);
+
+    tools.respondWith('transfer_to_trusted_contact', { success: true, message: 'Calling Ann now.' });
+    const output = await realtime.sendToolCall('transfer_to_trusted_contact', { confirmed: true });
+
+    const [request] = tools.requestsFor('transfer_to_trusted_contact');
+    expect(request.body).toEqual({ callSessionId: session.id, lineId: line.id });
+    expect(output).toMatchObject({ success: true });
+  });
+
+  it('fires the keyword safety backstop on a high-tier transcript', async () => {
+    const session = buildSession();
+    await startCall(session);
+
+    realtime.sendTranscript('Some days I just want to end my life');
+
+    const request = await tools.waitForRequest('safety_event');
+    expect(request.body).toMatchObject({
+      callSessionId: session.id,
+      lineId: line.id,
+      tier: 'high',
+      source: 'keyword_backstop',
+    });
+
+    await waitFor(
+      () => realtime.textItems('system').find(text => text.includes('high severity')),
+      { description: 'safety hint' }
+    );
+    expect(getBuffer(session.id)?.turns.some(turn => turn.speaker === 'user')).toBe(true);
+  });
+
+  it('ignores excluded figures of speech', async () => {
+    const session = buildSession();
+    await startCall(session);
+
+    realtime.sendTranscript('I was just killing time in the garden');
+    await waitFor(() => getBuffer(session.id)?.turns.length, { description: 'user turn' });
+
+    expect(tools.requestsFor('safety_event')).toHaveLength(0);
+    expect(realtime.textItems('system')).toHaveLength(0);
+  });
+
+  it('uses the reminder prompt for reminder calls', async () => {
+    const session = buildSession({
+      is_reminder_call: true,
+      reminder_message: 'Take your blood pressure pill',
+    });
+    await startCall(session);
+
+    const [config] = realtime.sessionUpdates();
+    expect(config.session?.instructions).toContain('Take your blood pressure pill');
+
+    await caller?.hangUp();
+    await waitFor(() => !getBuffer(session.id), { description: 'call cleanup' });
+    expect(mocks.summarizeAndExtractMemoriesFromBuffer).not.toHaveBeenCalled();
+  });
+
+  it('clears Twilio audio and cancels the response on barge-in', async () => {
+    const session = buildSession();
+    const sim = await startCall(session);
+
+    realtime.sendAssistantAudio();
+    await sim.waitForFrame('media');
+    realtime.sendSpeechStarted();
+
+    await sim.waitForFrame('clear');
+    await realtime.waitForEvent(event => event.type === 'response.cancel');
+    await waitFor(
+      () => mocks.recordCallEvent.mock.calls.some(([, type, payload]) =>
+        type === 'state_change' && (payload as { event?: string })?.event === 'barge_in'),
+      { description: 'barge-in event' }
+    );
+  });
+
+  it('fails over to the secondary provider with the conversation replayed', async () => {
+    const secondary = await StubRealtimeServer.start();
+    vi.stubEnv('SECONDARY_VOICE_PROVIDER', 'openai');
+    vi.stubEnv('OPENAI_API_KEY', 'test-openai-key');
+    vi.stubEnv('OPENAI_REALTIME_URL', secondary.url);
+
+    try {
+      const session = buildSession();
+      await startCall(session);
+
+      realtime.sendTranscript('My granddaughter Lucy visits on Sunday');
+      await waitFor(() => getBuffer(session.id)?.turns.length, { description: 'user turn' });
+
+      // Take the primary down entirely so the same-provider retry fails too
+      await realtime.close();
+
+      const config = await secondary.waitForEvent(event => event.type === 'session.update', 8000);
+      expect(config.session?.instructions).toContain('Call In Progress');
+      expect(config.session?.instructions).toContain('My granddaughter Lucy visits on Sunday');
+
+      await waitFor(
+        () => mocks.recordCallEvent.mock.calls.find(([, type, payload]) =>
+          type === 'state_change' && (payload as { event?: string })?.event === 'voice_failover'),
+        { timeoutMs: 8000, description: 'failover event' }
+      );
+      const failoverCall = mocks.recordCallEvent.mock.calls.find(([, , payload]) =>
+        (payload as { event?: string })?.event === 'voice_failover');
+      expect(failoverCall?.[2]).toMatchObject({
+        fromProvider: 'grok',
+        toProvider: 'openai',
+        success: true,
+        latencyMs: expect.any(Number),
+      });
+    } finally {
+      await caller?.hangUp();
+      caller = null;
+      await secondary.close();
+      realtime = await StubRealtimeServer.start();
+    }
+  }, 15000);
+});
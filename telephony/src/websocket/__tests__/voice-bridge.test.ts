@@ -0,0 +1,72 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import { parseVoiceProvider, resolveFailoverProvider, resolveVoiceProvider } from '../voice-bridge.js';
+
+describe('parseVoiceProvider', () => {
+  it('should accept known providers case-insensitively', () => {
+    expect(parseVoiceProvider('grok')).toBe('grok');
+    expect(parseVoiceProvider(' OpenAI ')).toBe('openai');
+    expect(parseVoiceProvider('fake')).toBe('fake');
+  });
+
+  it('should return null for unknown or empty values', () => {
+    expect(parseVoiceProvider('gemini')).toBeNull();
+    expect(parseVoiceProvider('')).toBeNull();
+    expect(parseVoiceProvider(null)).toBeNull();
+    expect(parseVoiceProvider(undefined)).toBeNull();
+  });
+});
+
+describe('resolveVoiceProvider', () => {
+  const originalNodeEnv = process.env.NODE_ENV;
+
+  afterEach(() => {
+    process.env.NODE_ENV = originalNodeEnv;
+  });
+
+  it('should prefer the line override over the account override', () => {
+    expect(resolveVoiceProvider({ line: 'openai', account: 'grok', fallback: 'grok' })).toBe('openai');
+  });
+
+  it('should fall back to the account override when the line inherits', () => {
+    expect(resolveVoiceProvider({ line: null, account: 'openai', fallback: 'grok' })).toBe('openai');
+  });
+
+  it('should fall back to the configured default, then grok', () => {
+    expect(resolveVoiceProvider({ fallback: 'openai' })).toBe('openai');
+    expect(resolveVoiceProvider({ fallback: 'not-a-provider' })).toBe('grok');
+  });
+
+  it('should never select the fake provider in production', () => {
+    process.env.NODE_ENV = 'production';
+    expect(resolveVoiceProvider({ fallback: 'fake' })).toBe('grok');
+
+    process.env.NODE_ENV = 'test';
+    expect(resolveVoiceProvider({ fallback: 'fake' })).toBe('fake');
+  });
+});
+
+describe('resolveFailoverProvider', () => {
+  const originalNodeEnv = process.env.NODE_ENV;
+
+  afterEach(() => {
+    process.env.NODE_ENV = originalNodeEnv;
+  });
+
+  it('should return the configured secondary provider', () => {
+    expect(resolveFailoverProvider('grok', 'openai')).toBe('openai');
+  });
+
+  it('should not fail over to the provider that just dropped', () => {
+    expect(resolveFailoverProvider('openai', 'openai')).toBeNull();
+  });
+
+  it('should return null when no secondary is configured', () => {
+    expect(resolveFailoverProvider('grok', undefined)).toBeNull();
+    expect(resolveFailoverProvider('grok', 'unknown')).toBeNull();
+  });
+
+  it('should never fail over to the fake provider in production', () => {
+    process.env.NODE_ENV = 'production';
+    expect(resolveFailoverProvider('grok', 'fake')).toBeNull();
+  });
+});
@@ -0,0 +1,86 @@
+// In-process voice provider for local development and tests
+// Speaks no network protocol: outbound frames are recorded, and every
+// response.create is answered with a short silent audio reply
+
+import type { GrokTool } from '@ultaura/types';
+import { logger } from '../server.js';
+import { RealtimeBridge } from './realtime-bridge.js';
+import type { RealtimeConnectionConfig, RealtimeMessage } from './realtime-bridge.js';
+
+// 20ms of μ-law silence at 8kHz
+const SILENCE_FRAME_BASE64 = Buffer.alloc(160, 0xff).toString('base64');
+
+export class FakeVoiceBridge extends RealtimeBridge {
+  readonly provider = 'fake' as const;
+
+  // Every non-audio frame the bridge would have sent to a real provider
+  readonly sentMessages: RealtimeMessage[] = [];
+  audioFramesReceived = 0;
+
+  protected getConnectionConfig(): RealtimeConnectionConfig {
+    throw new Error('Fake voice provider has no network endpoint');
+  }
+
+  protected buildSessionConfig(instructions: string, tools: GrokTool[]): RealtimeMessage {
+    return { type: 'session.update', session: { instructions, tools } };
+  }
+
+  protected buildSessionRefresh(instructions: string, tools: GrokTool[]): RealtimeMessage {
+    return { type: 'session.update', session: { instructions, tools } };
+  }
+
+  async connect(): Promise<void> {
+    this.connected = true;
+    logger.info({ callSessionId: this.options.callSessionId, provider: this.provider }, 'Connected to fake voice provider');
+    this.sendSessionConfig();
+  }
+
+  async reconnect(): Promise<boolean> {
+    await this.connect();
+    return true;
+  }
+
+  forceClose(): void {
+    if (!this.connected) return;
+    this.connected = false;
+    this.triggerRecovery('close', '1011: Simulated failure for testing');
+  }
+
+  close(): void {
+    this.connected = false;
+  }
+
+  // Feed a provider event into the bridge as if the vendor had sent it
+  emit(message: RealtimeMessage): void {
+    this.dispatchMessage(message);
+  }
+
+  protected sendMessage(message: unknown): void {
+    const frame = message as RealtimeMessage;
+
+    if (frame.type === 'input_audio_buffer.append') {
+      this.audioFramesReceived += 1;
+      return;
+    }
+
+    this.sentMessages.push(frame);
+
+    if (frame.type === 'response.create') {
+      setImmediate(() => this.respond());
+    }
+  }
+
+  private respond(): void {
+    if (!this.connected) return;
+
+    this.dispatchMessage({ type: 'response.audio.delta', delta: SILENCE_FRAME_BASE64 });
+    this.dispatchMessage({ type: 'response.audio.done' });
+    this.dispatchMessage({
+      type: 'response.done',
+      output: [{
+        type: 'message',
+        content: [{ type: 'output_audio', transcript: 'Okay.' }],
+      }],
+    });
+  }
+}
@@ -0,0 +1,37 @@
+// WebSocket endpoint for Twilio Media Streams
+// Routes each stream to handleMediaStreamConnection by its callSessionId
+
+import http from 'http';
+import { WebSocketServer } from 'ws';
+import { logger } from '../utils/logger.js';
+import { handleMediaStreamConnection } from './media-stream.js';
+
+export const MEDIA_STREAM_PATH = '/twilio/media';
+
+export function createMediaStreamServer(server: http.Server): WebSocketServer {
+  const wss = new WebSocketServer({
+    server,
+    path: MEDIA_STREAM_PATH,
+  });
+
+  // Handle WebSocket connections
+  wss.on('connection', (ws, req) => {
+    const url = new URL(req.url || '', `http://${req.headers.host}`);
+    const callSessionId = url.searchParams.get('callSessionId');
+
+    if (!callSessionId) {
+      logger.error('WebSocket connection without callSessionId');
+      ws.close(1008, 'Missing callSessionId');
+      return;
+    }
+
+    logger.info({ callSessionId }, 'WebSocket connection established');
+    handleMediaStreamConnection(ws, callSessionId);
+  });
+
+  wss.on('error', (error) => {
+    logger.error({ error }, 'WebSocket server error');
+  });
+
+  return wss;
+}
@@ -1,28 +1,47 @@
 // Twilio Media Stream WebSocket handler
-// Bridges Twilio audio to xAI Grok Voice Agent
+// Bridges Twilio audio to the line's realtime voice provider
 
 import { WebSocket } from 'ws';
 import { logger } from '../server.js';
 import { getCallSession, updateCallStatus, completeCallSession, recordCallEvent, recordDebugEvent } from '../services/call-session.js';
 import { getLineById, recordOptOut } from '../services/line-lookup.js';
-import { getMemoriesForLine } from '../services/memory.js';
+import { getDueFollowUps, getMemoriesForPrompt } from '../services/memory-retrieval.js';
+import { selectSegmentForCall } from '../services/segments.js';
+import { getPendingCallPreview, recordCallPreviewMissed } from '../services/call-preview.js';
+import { getOpenReminderConfirmation } from '../services/reminder-confirmations.js';
+import { buildBriefingForCall } from '../services/briefing.js';
+import { getPendingMemoryUpdates } from '../services/memory-updates.js';
 import { createBuffer, clearBuffer, getBuffer } from '../services/ephemeral-buffer.js';
 import { summarizeAndExtractMemoriesFromBuffer } from '../services/call-summarization.js';
 import { extractFallbackInsightsFromBuffer } from '../services/insights-fallback.js';
 import { getUsageSummary } from '../services/metering.js';
 import { getLastDetectedLanguageForLine } from '../services/language.js';
 import { getAccountPrivacySettings, getLineVoiceConsent } from '../services/privacy.js';
-import { GrokBridge } from './grok-bridge.js';
+import { getTransferEventName, isTransferInProgress, startWarmTransfer } from '../services/call-transfer.js';
+import { getLineKeymap, getNextReminder, getTransferContact, resolveDtmfAction } from '../services/dtmf-keymap.js';
+import { resolveFailoverProvider, resolveVoiceProvider } from './voice-bridge.js';
+import type { VoiceBridge, VoiceProviderId } from './voice-bridge.js';
+import { createVoiceBridge } from './voice-bridge-factory.js';
 import type { AccountStatus, PlanId } from '@ultaura/types';
 import { redactSensitive } from '../utils/redact.js';
-import { registerGrokBridge, unregisterGrokBridge, getGrokBridge } from './grok-bridge-registry.js';
+import { registerVoiceBridge, unregisterVoiceBridge, getVoiceBridge } from './voice-bridge-registry.js';
 import { getFallbackMessage } from '../utils/fallback-messages.js';
 import {
+  DTMF_END_CALL_GRACE_MS,
+  DTMF_OPT_OUT_CONFIRM_WINDOW_MS,
   FALLBACK_TTS_WAIT_MS,
   GROK_RECONNECT_MAX_ATTEMPTS,
   GROK_RECONNECT_TIMEOUT_MS,
+  MEMORY_UPDATE_PROMPT_LIMIT,
+  VOICE_FAILOVER_CONNECT_TIMEOUT_MS,
 } from '../utils/constants.js';
-import { getTwilioClient, getVoiceConfigForLanguage, getVoiceForLanguage, generateStreamTwiML } from '../utils/twilio.js';
+import {
+  getTwilioClient,
+  getVoiceConfigForLanguage,
+  getVoiceForLanguage,
+  generateStreamTwiML,
+} from '../utils/twilio.js';
+import { formatInTimezone } from '../utils/timezone.js';
 import { getWebsocketUrl } from '../utils/env.js';
 
 interface TwilioMessage {
@@ -63,7 +82,7 @@ export async function handleMediaStreamConnection(ws: WebSocket, callSessionId:
 
   let streamSid: string | null = null;
   let callSid: string | null = null;
-  let grokBridge: GrokBridge | null = null;
+  let voiceBridge: VoiceBridge | null = null;
   let isConnected = false;
   let connectedAt: string | null = null;
   let pendingOptOut = false;
@@ -131,7 +150,7 @@ export async function handleMediaStreamConnection(ws: WebSocket, callSessionId:
   };
 
   const sendOveragePrompt = () => {
-    if (!grokBridge || overagePromptActive) {
+    if (!voiceBridge || overagePromptActive) {
       return;
     }
 
@@ -140,14 +159,14 @@ export async function handleMediaStreamConnection(ws: WebSocket, callSessionId:
     const planOptions = formatPlanOptions();
     const prompt = `SYSTEM: The user has 0 included minutes remaining. Continuing will incur overage charges at $0.15 per minute. At the start of the call, explain this and ask if they would like to continue with overage charges, upgrade, or stop the call. If they want to upgrade, offer these options: ${planOptions}. Ask which plan they prefer. Once they decide, call choose_overage_action with action "continue", "upgrade", or "stop". If upgrading, include plan_id ("care", "comfort", "family", or "payg"). Do not ask for payment details; tell them you will email a secure link to the billing email on file. If they do not respond within one minute, give a short warm goodbye and end the call.`;
 
-    grokBridge.sendTextInput(prompt);
+    voiceBridge.sendTextInput(prompt);
 
     overagePromptTimeout = setTimeout(() => {
-      if (!overagePromptActive || !grokBridge) {
+      if (!overagePromptActive || !voiceBridge) {
         return;
       }
 
-      grokBridge.sendTextInput(
+      voiceBridge.sendTextInput(
         'SYSTEM: The user did not respond. Give a short warm goodbye and end the call now.'
       );
 
@@ -180,7 +199,7 @@ export async function handleMediaStreamConnection(ws: WebSocket, callSessionId:
           callSid = message.start?.callSid || null;
           logger.info({ callSessionId, streamSid }, 'Twilio stream started');
 
-          // Initialize Grok bridge
+          // Initialize voice bridge
           try {
             createBuffer(callSessionId, line.id, account.id);
 
@@ -201,12 +220,63 @@ export async function handleMediaStreamConnection(ws: WebSocket, callSessionId:
             );
             const memoryEnabled = aiSummarizationEnabled && memoryConsent === 'granted';
 
-            // Fetch memories for the line (use empty list when memory is disabled)
-            const memories = await getMemoriesForLine(account.id, line.id, { limit: 50 });
+            // Fetch the most relevant memories for the line (use empty list when memory is disabled)
+            const memories = await getMemoriesForPrompt(account.id, line.id);
             const memoriesForPrompt = memoryEnabled ? memories : [];
 
+            // Values heard on earlier calls that contradict a memory, for the senior to confirm
+            const pendingMemoryUpdates = memoryEnabled && !session.is_reminder_call
+              ? (await getPendingMemoryUpdates(account.id, line.id)).slice(0, MEMORY_UPDATE_PROMPT_LIMIT)
+              : [];
+
+            // Open follow-ups ("how did the appointment go?") that the call should start with
+            const dueFollowUps = memoryEnabled && !session.is_reminder_call
+              ? await getDueFollowUps(account.id, line.id)
+              : [];
+
             // Check if this is the first call
             const isFirstCall = !line.last_successful_call_at;
+
+            // One rotating segment per companion call; first calls are left to onboarding
+            const segment = !session.is_reminder_call && !isFirstCall
+              ? await selectSegmentForCall({
+                accountId: account.id,
+                lineId: line.id,
+                callSessionId,
+                interests: [
+                  ...(line.seed_interests ?? []),
+                  ...memoriesForPrompt
+                    .filter((memory) => memory.type === 'preference')
+                    .map((memory) => (typeof memory.value === 'string' ? memory.value : JSON.stringify(memory.value))),
+                ],
+              })
+              : null;
+
+            // A few local items and news for the companion to bring up, minus topics to avoid
+            const briefing = !session.is_reminder_call && !isFirstCall
+              ? await buildBriefingForCall({
+                accountId: account.id,
+                lineId: line.id,
+                callSessionId,
+                region: line.briefing_region ?? null,
+                timezone: line.timezone,
+                avoidTopics: line.seed_avoid_topics ?? [],
+                interests: line.seed_interests ?? [],
+              })
+              : [];
+
+            // Reminders that need confirmation ask whether it was done; follow-up calls only check in
+            const openConfirmation = session.is_reminder_call && session.reminder_id
+              ? await getOpenReminderConfirmation(session.reminder_id)
+              : null;
+            const reminderConfirmation = openConfirmation
+              ? { isFollowUp: openConfirmation.followUpAttempts > 0 }
+              : null;
+
+            // The topic the senior picked for this call at the end of the last one
+            const pendingCallPreview = !session.is_reminder_call
+              ? await getPendingCallPreview(line.id)
+              : null;
             const startingLanguage = await getLastDetectedLanguageForLine(line.id);
 
             // Check minutes status
@@ -237,7 +307,7 @@ export async function handleMediaStreamConnection(ws: WebSocket, callSessionId:
             };
 
             const onError = (error: Error) => {
-              logger.error({ error, callSessionId }, 'Grok bridge error');
+              logger.error({ error, callSessionId }, 'Voice bridge error');
             };
 
             const onToolCall = async (toolName: string, args: Record<string, unknown>) => {
@@ -245,7 +315,7 @@ export async function handleMediaStreamConnection(ws: WebSocket, callSessionId:
                 callSessionId,
                 toolName,
                 args: redactSensitive(args),
-              }, 'Tool call from Grok');
+              }, 'Tool call from voice provider');
               const phoneLast4 = line.phone_e164 ? line.phone_e164.slice(-4) : null;
               await recordDebugEvent(
                 callSessionId,
@@ -282,13 +352,66 @@ export async function handleMediaStreamConnection(ws: WebSocket, callSessionId:
               });
             };
 
+            // Swap the dropped bridge for one on another provider, replaying the
+            // conversation so far into its prompt
+            const failoverToProvider = async (provider: VoiceProviderId): Promise<boolean> => {
+              if (!voiceBridge) {
+                return false;
+              }
+
+              const startedAt = Date.now();
+              const fromProvider = voiceBridge.provider;
+              const previousOptions = voiceBridge.getOptions();
+              const detectedLanguage = voiceBridge.getDetectedLanguage();
+
+              voiceBridge.close();
+
+              const nextBridge = createVoiceBridge(provider, {
+                ...previousOptions,
+                startingLanguage: detectedLanguage ?? previousOptions.startingLanguage,
+                resumeTurns: getBuffer(callSessionId)?.turns ?? [],
+              });
+
+              let success = false;
+              try {
+                await nextBridge.connect(VOICE_FAILOVER_CONNECT_TIMEOUT_MS);
+                success = true;
+              } catch (error) {
+                logger.error({ error, callSessionId, provider }, 'Voice provider failover failed');
+                nextBridge.close();
+              }
+
+              const latencyMs = Date.now() - startedAt;
+              logger.warn({ callSessionId, fromProvider, toProvider: provider, latencyMs, success }, 'Voice provider failover');
+
+              await recordCallEvent(callSessionId, 'state_change', {
+                event: 'voice_failover',
+                fromProvider,
+                toProvider: provider,
+                latencyMs,
+                success,
+              }, { skipDebugLog: true });
+
+              if (!success) {
+                return false;
+              }
+
+              if (detectedLanguage) {
+                nextBridge.setDetectedLanguage(detectedLanguage);
+              }
+
+              voiceBridge = nextBridge;
+              registerVoiceBridge(callSessionId, nextBridge);
+              return true;
+            };
+
             const onDisconnect = async (type: 'error' | 'close', detail: string) => {
               if (isReconnecting) {
                 return;
               }
 
               if (reconnectAttempts >= GROK_RECONNECT_MAX_ATTEMPTS) {
-                logger.warn({ callSessionId, type, detail }, 'Grok disconnect ignored after max retries');
+                logger.warn({ callSessionId, type, detail }, 'Voice provider disconnect ignored after max retries');
                 return;
               }
 
@@ -296,7 +419,7 @@ export async function handleMediaStreamConnection(ws: WebSocket, callSessionId:
               reconnectAttempts += 1;
               keepBridgeAlive = true;
 
-              logger.warn({ callSessionId, type, detail }, 'Grok disconnected mid-call, attempting recovery');
+              logger.warn({ callSessionId, type, detail }, 'Voice provider disconnected mid-call, attempting recovery');
 
               await recordCallEvent(callSessionId, 'error', {
                 errorType: 'grok_disconnect_mid_call',
@@ -304,10 +427,13 @@ export async function handleMediaStreamConnection(ws: WebSocket, callSessionId:
                 reason: detail,
               });
 
-              const detectedLanguage = grokBridge?.getDetectedLanguage() ?? 'en';
+              const detectedLanguage = voiceBridge?.getDetectedLanguage() ?? 'en';
+              const failoverProvider = voiceBridge ? resolveFailoverProvider(voiceBridge.provider) : null;
               const waitMessage = getFallbackMessage(detectedLanguage, 'retry_wait');
               await playFallbackTTS(callSid, waitMessage, detectedLanguage, {
-                pauseSeconds: Math.ceil(GROK_RECONNECT_TIMEOUT_MS / 1000),
+                pauseSeconds: Math.ceil(
+                  (GROK_RECONNECT_TIMEOUT_MS + (failoverProvider ? VOICE_FAILOVER_CONNECT_TIMEOUT_MS : 0)) / 1000
+                ),
               });
 
               if (ws.readyState !== WebSocket.OPEN) {
@@ -316,10 +442,14 @@ export async function handleMediaStreamConnection(ws: WebSocket, callSessionId:
                 return;
               }
 
-              const reconnected = grokBridge ? await grokBridge.reconnect() : false;
+              let reconnected = voiceBridge ? await voiceBridge.reconnect() : false;
+
+              if (!reconnected && failoverProvider) {
+                reconnected = await failoverToProvider(failoverProvider);
+              }
 
               if (reconnected) {
-                logger.info({ callSessionId }, 'Grok reconnection successful');
+                logger.info({ callSessionId, provider: voiceBridge?.provider }, 'Voice provider reconnection successful');
                 reconnectAttempts = 0;
                 isReconnecting = false;
 
@@ -332,7 +462,7 @@ export async function handleMediaStreamConnection(ws: WebSocket, callSessionId:
                 return;
               }
 
-              logger.error({ callSessionId }, 'Grok reconnection failed, ending call');
+              logger.error({ callSessionId }, 'Voice provider reconnection failed, ending call');
 
               const failedMessage = getFallbackMessage(detectedLanguage, 'retry_failed');
               await playFallbackTTS(callSid, failedMessage, detectedLanguage, { hangup: true });
@@ -350,15 +480,15 @@ export async function handleMediaStreamConnection(ws: WebSocket, callSessionId:
 
               keepBridgeAlive = false;
               isReconnecting = false;
-              grokBridge?.close();
-              unregisterGrokBridge(callSessionId);
+              voiceBridge?.close();
+              unregisterVoiceBridge(callSessionId);
             };
 
-            const existingBridge = getGrokBridge(callSessionId);
+            const existingBridge = getVoiceBridge(callSessionId);
 
             if (existingBridge) {
-              grokBridge = existingBridge;
-              grokBridge.updateCallbacks({
+              voiceBridge = existingBridge;
+              voiceBridge.updateCallbacks({
                 onAudioReceived,
                 onClearBuffer,
                 onError,
@@ -367,7 +497,13 @@ export async function handleMediaStreamConnection(ws: WebSocket, callSessionId:
                 onDisconnect,
               });
             } else {
-              grokBridge = new GrokBridge({
+              const provider = resolveVoiceProvider({
+                line: line.voice_provider,
+                account: account.voice_provider,
+              });
+              logger.info({ callSessionId, provider }, 'Selected voice provider');
+
+              voiceBridge = createVoiceBridge(provider, {
                 callSessionId,
                 lineId: line.id,
                 accountId: account.id,
@@ -377,6 +513,11 @@ export async function handleMediaStreamConnection(ws: WebSocket, callSessionId:
                 isFirstCall,
                 memories: memoriesForPrompt,
                 memoryEnabled,
+                pendingMemoryUpdates,
+                dueFollowUps,
+                segment,
+                pendingCallPreview,
+                briefing,
                 needsConsentPrompt,
                 seedInterests: line.seed_interests,
                 seedAvoidTopics: line.seed_avoid_topics,
@@ -384,8 +525,10 @@ export async function handleMediaStreamConnection(ws: WebSocket, callSessionId:
                 minutesRemaining,
                 isReminderCall: session.is_reminder_call,
                 reminderMessage: session.reminder_message,
+                reminderConfirmation,
                 currentPlanId: account.plan_id as PlanId,
                 accountStatus: account.status as AccountStatus,
+                promptVersion: session.prompt_version,
                 onAudioReceived,
                 onClearBuffer,
                 onError,
@@ -394,14 +537,14 @@ export async function handleMediaStreamConnection(ws: WebSocket, callSessionId:
                 onDisconnect,
               });
 
-              registerGrokBridge(callSessionId, grokBridge);
+              registerVoiceBridge(callSessionId, voiceBridge);
             }
 
-            if (!grokBridge.isConnectedToGrok()) {
-              await grokBridge.connect();
+            if (!voiceBridge.isConnected()) {
+              await voiceBridge.connect();
             }
 
-            isConnected = grokBridge.isConnectedToGrok();
+            isConnected = voiceBridge.isConnected();
             connectedAt = new Date().toISOString();
 
             if (shouldPromptOverage) {
@@ -415,11 +558,11 @@ export async function handleMediaStreamConnection(ws: WebSocket, callSessionId:
 
               if (msUntilTrialEnds > 0 && msUntilTrialEnds <= 60 * 60 * 1000) {
                 trialExpiryTimeout = setTimeout(() => {
-                  if (!grokBridge || ws.readyState !== WebSocket.OPEN) {
+                  if (!voiceBridge || ws.readyState !== WebSocket.OPEN) {
                     return;
                   }
 
-                  grokBridge.sendTextInput(
+                  voiceBridge.sendTextInput(
                     `SYSTEM: The user's 3-day free trial has now ended. Please wrap up this call warmly and mention that to continue using Ultaura, their family member will need to subscribe to a plan in the dashboard. End with a kind goodbye.`
                   );
                 }, msUntilTrialEnds);
@@ -431,11 +574,11 @@ export async function handleMediaStreamConnection(ws: WebSocket, callSessionId:
               connectedAt,
             });
 
-            logger.info({ callSessionId }, 'Grok bridge connected, call in progress');
+            logger.info({ callSessionId }, 'Voice bridge connected, call in progress');
 
           } catch (error) {
-            logger.error({ error, callSessionId }, 'Failed to initialize Grok bridge');
-            unregisterGrokBridge(callSessionId);
+            logger.error({ error, callSessionId }, 'Failed to initialize voice bridge');
+            unregisterVoiceBridge(callSessionId);
 
             // Send fallback message via Twilio TTS
             // We can't easily send TTS through the WebSocket, so we need to close and let Twilio handle it
@@ -457,12 +600,12 @@ export async function handleMediaStreamConnection(ws: WebSocket, callSessionId:
           break;
 
         case 'media':
-          // Forward audio to Grok
+          // Forward audio to the voice provider
           if (isReconnecting) {
             break;
           }
-          if (grokBridge && isConnected && message.media?.payload) {
-            grokBridge.sendAudio(message.media.payload);
+          if (voiceBridge && isConnected && message.media?.payload) {
+            voiceBridge.sendAudio(message.media.payload);
           }
           break;
 
@@ -472,9 +615,10 @@ export async function handleMediaStreamConnection(ws: WebSocket, callSessionId:
               callSessionId,
               line,
               account,
-              grokBridge,
+              voiceBridge,
               ws,
               streamSid,
+              callSid,
               setPendingOptOut: (value: boolean) => { pendingOptOut = value; },
               getPendingOptOut: () => pendingOptOut,
             });
@@ -511,7 +655,7 @@ export async function handleMediaStreamConnection(ws: WebSocket, callSessionId:
       return;
     }
 
-    unregisterGrokBridge(callSessionId);
+    unregisterVoiceBridge(callSessionId);
 
     const duration = connectedAt
       ? Date.now() - new Date(connectedAt).getTime()
@@ -541,16 +685,23 @@ export async function handleMediaStreamConnection(ws: WebSocket, callSessionId:
 
     clearBuffer(callSessionId);
 
-    // Close Grok bridge
-    if (grokBridge) {
-      grokBridge.close();
+    // The call was given a preview to open with but never followed through on it
+    const unresolvedPreview = voiceBridge?.getOptions().pendingCallPreview;
+    if (isConnected && unresolvedPreview) {
+      void recordCallPreviewMissed(unresolvedPreview.id);
+    }
+
+    // Close voice bridge
+    if (voiceBridge) {
+      voiceBridge.close();
     }
 
-    // Complete the call session if it was in progress
-    if (session && isConnected && session.status === 'in_progress') {
+    // Complete the call session if it was in progress. During a warm transfer the
+    // call continues in a conference and the Twilio status callback completes it.
+    if (session && isConnected && session.status === 'in_progress' && !isTransferInProgress(callSessionId)) {
       await completeCallSession(callSessionId, {
         endReason: 'hangup',
-        languageDetected: grokBridge?.getDetectedLanguage() ?? undefined,
+        languageDetected: voiceBridge?.getDetectedLanguage() ?? undefined,
       });
     }
   });
@@ -563,75 +714,154 @@ export async function handleMediaStreamConnection(ws: WebSocket, callSessionId:
       return;
     }
 
-    if (grokBridge) {
-      grokBridge.close();
+    if (voiceBridge) {
+      voiceBridge.close();
     }
-    unregisterGrokBridge(callSessionId);
+    unregisterVoiceBridge(callSessionId);
   });
 }
 
-// Handle DTMF input
+// Handle DTMF input using the line's keypad map
 async function handleDTMF(
   digit: string,
   context: {
     callSessionId: string;
     line: any;
     account: any;
-    grokBridge: GrokBridge | null;
+    voiceBridge: VoiceBridge | null;
     ws: WebSocket;
     streamSid: string | null;
+    callSid: string | null;
     setPendingOptOut: (value: boolean) => void;
     getPendingOptOut: () => boolean;
   }
 ): Promise<void> {
-  const { callSessionId, line, account, grokBridge, setPendingOptOut, getPendingOptOut } = context;
+  const { callSessionId, line, account, voiceBridge, callSid, setPendingOptOut, getPendingOptOut } = context;
+
+  const action = resolveDtmfAction(getLineKeymap(line), digit);
 
-  logger.info({ callSessionId, digit }, 'DTMF received');
+  logger.info({ callSessionId, digit, action }, 'DTMF received');
 
-  // Record the DTMF event
-  await recordCallEvent(callSessionId, 'dtmf', { digit }, { skipDebugLog: true });
+  // Record the DTMF event with the action it resolved to
+  await recordCallEvent(callSessionId, 'dtmf', { digit, action: action ?? 'none' }, { skipDebugLog: true });
 
-  switch (digit) {
-    case '1':
-      // Repeat last response
-      if (grokBridge) {
-        grokBridge.sendTextInput('Please repeat what you just said.');
+  switch (action) {
+    case 'repeat':
+      if (voiceBridge) {
+        voiceBridge.sendTextInput('Please repeat what you just said.');
       }
       break;
 
-    case '9':
-      // Opt-out request
+    case 'slower':
+      if (voiceBridge) {
+        voiceBridge.sendTextInput(`DTMF_SLOWER: User pressed ${digit} to slow down. From now on speak more slowly, use shorter sentences and simpler words. Briefly acknowledge and repeat your last point that way.`);
+      }
+      break;
+
+    case 'change_topic':
+      if (voiceBridge) {
+        voiceBridge.sendTextInput(`DTMF_CHANGE_TOPIC: User pressed ${digit} to change the topic. Let go of the current subject and gently offer something different to talk about.`);
+      }
+      break;
+
+    case 'repeat_next_reminder': {
+      if (!voiceBridge) {
+        break;
+      }
+      const reminder = await getNextReminder(line.id);
+      if (reminder) {
+        const dueAt = formatInTimezone(new Date(reminder.dueAt), line.timezone, "cccc 'at' h:mm a");
+        voiceBridge.sendTextInput(`DTMF_NEXT_REMINDER: User pressed ${digit} to hear their next reminder. Tell them it is "${reminder.message}" on ${dueAt}.`);
+      } else {
+        voiceBridge.sendTextInput(`DTMF_NEXT_REMINDER: User pressed ${digit} to hear their next reminder. Tell them they have no upcoming reminders.`);
+      }
+      break;
+    }
+
+    case 'call_trusted_contact': {
+      if (isTransferInProgress(callSessionId)) {
+        break;
+      }
+      const contact = await getTransferContact(line.id);
+      if (!contact || !callSid) {
+        if (voiceBridge) {
+          voiceBridge.sendTextInput(`DTMF_CALL_CONTACT: User pressed ${digit} to call their trusted contact, but none is set up. Let them know their family can add one in the Ultaura dashboard.`);
+        }
+        break;
+      }
+      const started = await startWarmTransfer({
+        callSessionId,
+        callSid,
+        safetyEventId: null,
+        contact,
+        lovedOneName: line.display_name || 'Your loved one',
+        reason: 'caller_request',
+      });
+      await recordCallEvent(callSessionId, 'state_change', {
+        event: getTransferEventName('caller_request'),
+        action: started ? 'initiated' : 'failed',
+      }, { skipDebugLog: true });
+      if (voiceBridge) {
+        voiceBridge.sendTextInput(started
+          ? `DTMF_CALL_CONTACT: User pressed ${digit} to call their trusted contact. Tell them you are calling ${contact.name} now and to stay on the line. Keep it to one short sentence.`
+          : `DTMF_CALL_CONTACT: User pressed ${digit} to call their trusted contact, but ${contact.name} could not be reached. Let them know and carry on the conversation.`);
+      }
+      break;
+    }
+
+    case 'end_call':
+      if (voiceBridge) {
+        voiceBridge.sendTextInput(`DTMF_END_CALL: User pressed ${digit} to end the call. Say a warm, one-sentence goodbye.`);
+      }
+      setTimeout(() => {
+        void hangUpCall(callSid, callSessionId);
+      }, DTMF_END_CALL_GRACE_MS);
+      break;
+
+    case 'opt_out':
       if (getPendingOptOut()) {
         // Confirm opt-out
         await recordOptOut(account.id, line.id, callSessionId, 'dtmf');
-        if (grokBridge) {
-          grokBridge.sendTextInput('DTMF_9_CONFIRMED: User confirmed opt-out. Say goodbye and end the call.');
+        if (voiceBridge) {
+          voiceBridge.sendTextInput(`DTMF_OPT_OUT_CONFIRMED: User confirmed opt-out by pressing ${digit} again. Say goodbye and end the call.`);
         }
         setPendingOptOut(false);
       } else {
         // Ask for confirmation
-        if (grokBridge) {
-          grokBridge.sendTextInput('DTMF_9: User pressed 9 to opt out. Ask them to confirm by saying yes or pressing 9 again.');
+        if (voiceBridge) {
+          voiceBridge.sendTextInput(`DTMF_OPT_OUT: User pressed ${digit} to opt out. Ask them to confirm by saying yes or pressing ${digit} again.`);
         }
         setPendingOptOut(true);
-        // Reset pending after 30 seconds
-        setTimeout(() => setPendingOptOut(false), 30000);
+        // Reset pending after the confirmation window
+        setTimeout(() => setPendingOptOut(false), DTMF_OPT_OUT_CONFIRM_WINDOW_MS);
       }
       break;
 
-    case '0':
-      // Help/support request
-      if (grokBridge) {
-        grokBridge.sendTextInput('DTMF_0: User pressed 0 for help. Explain that they can call this number anytime, and if they need account help, ask their family member to contact support.');
+    case 'help':
+      if (voiceBridge) {
+        voiceBridge.sendTextInput(`DTMF_HELP: User pressed ${digit} for help. Explain that they can call this number anytime, and if they need account help, ask their family member to contact support.`);
       }
       break;
 
     default:
-      // Ignore other digits
+      // Unmapped key
       break;
   }
 }
 
+async function hangUpCall(callSid: string | null, callSessionId: string): Promise<void> {
+  if (!callSid) {
+    return;
+  }
+
+  try {
+    const client = getTwilioClient();
+    await client.calls(callSid).update({ status: 'completed' });
+  } catch (error) {
+    logger.error({ error, callSid, callSessionId }, 'Failed to hang up call');
+  }
+}
+
 function escapeXml(text: string): string {
   return text
     .replace(/&/g, '&amp;')
@@ -0,0 +1,86 @@
+// OpenAI Realtime API WebSocket bridge
+// Same conversation flow as GrokBridge; differs in session shape and event names
+
+import type { GrokTool } from '@ultaura/types';
+import { VAD_SILENCE_DURATION_MS, VAD_THRESHOLD } from '../utils/constants.js';
+import { RealtimeBridge } from './realtime-bridge.js';
+import type { RealtimeConnectionConfig, RealtimeMessage } from './realtime-bridge.js';
+
+const DEFAULT_OPENAI_REALTIME_MODEL = 'gpt-realtime';
+const DEFAULT_OPENAI_REALTIME_VOICE = 'marin';
+const OPENAI_TRANSCRIPTION_MODEL = 'gpt-4o-mini-transcribe';
+
+// GA event names -> the names RealtimeBridge dispatches on
+const EVENT_ALIASES: Record<string, string> = {
+  'response.output_audio.delta': 'response.audio.delta',
+  'response.output_audio.done': 'response.audio.done',
+};
+
+export class OpenAIRealtimeBridge extends RealtimeBridge {
+  readonly provider = 'openai' as const;
+
+  protected getConnectionConfig(): RealtimeConnectionConfig {
+    const apiKey = process.env.OPENAI_API_KEY;
+
+    if (!apiKey) {
+      throw new Error('Missing OPENAI_API_KEY environment variable');
+    }
+
+    return {
+      url: process.env.OPENAI_REALTIME_URL ||
+        `wss://api.openai.com/v1/realtime?model=${process.env.OPENAI_REALTIME_MODEL || DEFAULT_OPENAI_REALTIME_MODEL}`,
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+      },
+    };
+  }
+
+  protected buildSessionConfig(instructions: string, tools: GrokTool[]): RealtimeMessage {
+    return {
+      type: 'session.update',
+      session: {
+        type: 'realtime',
+        instructions,
+        output_modalities: ['audio'],
+        audio: {
+          input: {
+            format: { type: 'audio/pcmu' }, // μ-law for Twilio
+            // Needed for turn capture and the safety keyword backstop
+            transcription: { model: OPENAI_TRANSCRIPTION_MODEL },
+            turn_detection: {
+              type: 'server_vad',
+              threshold: VAD_THRESHOLD,
+              prefix_padding_ms: 300,
+              silence_duration_ms: VAD_SILENCE_DURATION_MS,
+            },
+          },
+          output: {
+            format: { type: 'audio/pcmu' },
+            voice: process.env.OPENAI_REALTIME_VOICE || DEFAULT_OPENAI_REALTIME_VOICE,
+          },
+        },
+        tools: this.toFunctionTools(tools),
+      },
+    };
+  }
+
+  protected buildSessionRefresh(instructions: string, tools: GrokTool[]): RealtimeMessage {
+    return {
+      type: 'session.update',
+      session: {
+        type: 'realtime',
+        instructions,
+        tools: this.toFunctionTools(tools),
+      },
+    };
+  }
+
+  protected normalizeEventType(type: string): string {
+    return EVENT_ALIASES[type] ?? type;
+  }
+
+  // OpenAI has no hosted web_search tool in realtime sessions
+  private toFunctionTools(tools: GrokTool[]): GrokTool[] {
+    return tools.filter((tool) => tool.type === 'function');
+  }
+}
@@ -0,0 +1,1232 @@
+// Shared bridge for OpenAI-Realtime-style voice protocols
+// Owns prompt building, tool routing, safety backstop and turn capture;
+// subclasses supply the endpoint, session config shape and event naming
+
+import { WebSocket } from 'ws';
+import {
+  compilePrompt,
+  buildBriefingSection,
+  buildReminderPrompt,
+  buildSegmentSection,
+  GROK_TOOLS,
+} from '@ultaura/prompts';
+import type {
+  CallPreview,
+  GrokTool,
+  Memory,
+  MemoryUpdateProposal,
+  SafetyTier,
+} from '@ultaura/types';
+import { logger } from '../server.js';
+import { addTurn, getBuffer, markConsentGranted, TurnSummary } from '../services/ephemeral-buffer.js';
+import { recordCallEvent } from '../services/call-session.js';
+import { getMemoriesForPrompt } from '../services/memory-retrieval.js';
+import { getOrCreateSafetyState, markSafetyTier, recordSafetyTurn } from '../services/safety-state.js';
+import type { SafetyState } from '../services/safety-state.js';
+import { scanForSafetyKeywords } from '../services/safety-keyword-scan.js';
+import { evaluateSafetyWindow } from '../services/safety-window.js';
+import type { SafetyDetection } from '../services/safety-window.js';
+import { getSafetyClassifier } from '../services/safety-classifier.js';
+import type { SafetyClassifier } from '../services/safety-classifier.js';
+import { getBackendUrl, getInternalApiSecret } from '../utils/env.js';
+import {
+  GROK_INITIAL_CONNECT_TIMEOUT_MS,
+  GROK_RECONNECT_TIMEOUT_MS,
+  MEMORY_RERANK_RECENT_TURNS,
+  VOICE_FAILOVER_REPLAY_MAX_TURNS,
+} from '../utils/constants.js';
+import type {
+  VoiceBridge,
+  VoiceBridgeCallbacks,
+  VoiceBridgeOptions,
+  VoiceProviderId,
+} from './voice-bridge.js';
+
+type ResponseOutput = Array<{
+  type: string;
+  content?: Array<{
+    type: string;
+    transcript?: string;
+    text?: string;
+  }>;
+}>;
+
+export interface RealtimeMessage {
+  type: string;
+  session?: Record<string, unknown>;
+  audio?: string;
+  delta?: string;
+  call_id?: string;
+  name?: string;
+  arguments?: string;
+  item?: {
+    type: string;
+    call_id?: string;
+    output?: string;
+    role?: string;
+    content?: unknown[];
+  };
+  output?: ResponseOutput;
+  response?: {
+    output?: ResponseOutput;
+  };
+  content?: Array<{
+    type: string;
+    transcript?: string;
+    text?: string;
+  }>;
+  text?: string;
+  transcript?: string;
+}
+
+export interface RealtimeConnectionConfig {
+  url: string;
+  headers: Record<string, string>;
+}
+
+export abstract class RealtimeBridge implements VoiceBridge {
+  abstract readonly provider: VoiceProviderId;
+
+  protected ws: WebSocket | null = null;
+  protected options: VoiceBridgeOptions;
+  protected connected = false;
+  private isGeneratingAudio = false;
+  private hasEverConnected = false;
+  private suppressDisconnect = false;
+  private safetyState: SafetyState;
+  private safetyClassifier: SafetyClassifier | null;
+  private detectedLanguage: string | null = null;
+
+  constructor(options: VoiceBridgeOptions) {
+    this.options = options;
+    this.safetyState = getOrCreateSafetyState(options.callSessionId);
+    this.safetyClassifier = getSafetyClassifier();
+  }
+
+  // Endpoint and auth headers; throws when the provider is not configured
+  protected abstract getConnectionConfig(): RealtimeConnectionConfig;
+
+  // Initial session config sent once the socket opens
+  protected abstract buildSessionConfig(instructions: string, tools: GrokTool[]): RealtimeMessage;
+
+  // Mid-call prompt/tool refresh (memory consent, stored memories)
+  protected abstract buildSessionRefresh(instructions: string, tools: GrokTool[]): RealtimeMessage;
+
+  // Map vendor event names onto the canonical names handled in dispatchMessage
+  protected normalizeEventType(type: string): string {
+    return type;
+  }
+
+  protected buildTextInputContent(text: string): unknown[] {
+    return [{ type: 'input_text', text }];
+  }
+
+  // Connect to the provider's realtime API
+  async connect(timeoutMs: number = GROK_INITIAL_CONNECT_TIMEOUT_MS): Promise<void> {
+    const { url, headers } = this.getConnectionConfig();
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const timeout = setTimeout(() => {
+        if (settled) return;
+        settled = true;
+        reject(new Error(`${this.provider} connection timeout`));
+      }, timeoutMs);
+
+      this.ws = new WebSocket(url, { headers });
+
+      this.ws.on('open', () => {
+        logger.info({ callSessionId: this.options.callSessionId, provider: this.provider }, 'Connected to realtime voice provider');
+        this.connected = true;
+        this.hasEverConnected = true;
+        this.sendSessionConfig();
+        if (!settled) {
+          settled = true;
+          clearTimeout(timeout);
+          resolve();
+        }
+      });
+
+      this.ws.on('message', (data: Buffer) => {
+        this.handleProviderMessage(data);
+      });
+
+      this.ws.on('error', (error) => {
+        logger.error({ error, callSessionId: this.options.callSessionId, provider: this.provider }, 'Realtime provider WebSocket error');
+        this.options.onError(error);
+        if (this.hasEverConnected && !this.suppressDisconnect) {
+          this.triggerRecovery('error', error.message);
+        }
+        if (!settled) {
+          settled = true;
+          clearTimeout(timeout);
+          reject(error);
+        }
+      });
+
+      this.ws.on('close', (code, reason) => {
+        const reasonStr = reason.toString();
+        logger.info({
+          callSessionId: this.options.callSessionId,
+          provider: this.provider,
+          code,
+          reason: reasonStr,
+        }, 'Realtime provider WebSocket closed');
+        const wasConnected = this.connected;
+        this.connected = false;
+        if (wasConnected && !this.suppressDisconnect) {
+          this.triggerRecovery('close', `${code}: ${reasonStr}`);
+        }
+        this.suppressDisconnect = false;
+      });
+    });
+  }
+
+  // Send session configuration
+  protected sendSessionConfig(): void {
+    const sessionConfig = this.buildSessionConfig(this.buildSystemPrompt(), this.getActiveTools());
+
+    this.sendMessage(sessionConfig);
+    logger.info({ callSessionId: this.options.callSessionId, provider: this.provider }, 'Sent realtime session config');
+  }
+
+  // Build the system prompt
+  private buildSystemPrompt(overrides?: { memories?: Memory[] }): string {
+    const {
+      userName,
+      startingLanguage,
+      isFirstCall,
+      seedInterests,
+      seedAvoidTopics,
+      lowMinutesWarning,
+      minutesRemaining,
+      isReminderCall,
+      reminderMessage,
+      timezone,
+      currentPlanId,
+      accountStatus,
+    } = this.options;
+    const memories = overrides?.memories ?? this.options.memories;
+    const memoryEnabled = this.options.memoryEnabled;
+
+    // Use dedicated short prompt for reminder calls
+    if (isReminderCall && reminderMessage) {
+      let prompt = buildReminderPrompt({
+        userName,
+        reminderMessage,
+        startingLanguage,
+        requiresConfirmation: Boolean(this.options.reminderConfirmation),
+        isConfirmationFollowUp: this.options.reminderConfirmation?.isFollowUp ?? false,
+      });
+
+      if (this.options.needsConsentPrompt) {
+        prompt += `\n\n${this.getConsentPromptSection()}`;
+      }
+
+      if (this.options.resumeTurns?.length) {
+        prompt += `\n\n${this.getResumePromptSection(this.options.resumeTurns)}`;
+      }
+
+      return prompt;
+    }
+
+    let prompt = compilePrompt('voice_realtime', {
+      userName,
+      startingLanguage,
+      memories,
+      memoryEnabled,
+      isFirstCall,
+      timezone,
+      seedInterests,
+      seedAvoidTopics,
+      lowMinutesWarning,
+      minutesRemaining,
+      currentPlanId,
+      accountStatus,
+      promptVersion: this.options.promptVersion,
+    });
+
+    if (this.options.needsConsentPrompt) {
+      prompt += `\n\n${this.getConsentPromptSection()}`;
+    }
+
+    if (this.options.pendingCallPreview) {
+      prompt += `\n\n${this.getCallPreviewPromptSection(this.options.pendingCallPreview)}`;
+    }
+
+    if (memoryEnabled && this.options.dueFollowUps?.length) {
+      prompt += `\n\n${this.getFollowUpsPromptSection(this.options.dueFollowUps, Boolean(this.options.pendingCallPreview))}`;
+    }
+
+    if (memoryEnabled && this.options.pendingMemoryUpdates?.length) {
+      prompt += `\n\n${this.getMemoryUpdatesPromptSection(this.options.pendingMemoryUpdates)}`;
+    }
+
+    if (this.options.segment) {
+      prompt += `\n\n${buildSegmentSection(this.options.segment)}`;
+    }
+
+    if (this.options.briefing?.length) {
+      prompt += `\n\n${buildBriefingSection(this.options.briefing)}`;
+    }
+
+    if (this.options.resumeTurns?.length) {
+      prompt += `\n\n${this.getResumePromptSection(this.options.resumeTurns)}`;
+    }
+
+    return prompt;
+  }
+
+  private getConsentPromptSection(): string {
+    return `## First Call Memory Consent\n\nAt the START of this call, you MUST ask for permission to remember things:\n\n\"Before we get started, I'd like to ask - would it be okay if I remember things you tell me?\nThis helps me personalize our conversations. You can say yes or no.\"\n\nBased on their response:\n- If they say YES or agree: Call the grant_memory_consent tool\n- If they say NO or decline: Call the deny_memory_consent tool\n\nDo NOT store any memories until you receive explicit consent.`;
+  }
+
+  // The topic the senior picked last time; it takes the opener over any follow-ups
+  private getCallPreviewPromptSection(preview: CallPreview): string {
+    const lookup = preview.topicType === 'web_search'
+      ? ' Use web_search to find something fresh about it before you bring it up.'
+      : '';
+
+    return `## Start With Their Chosen Topic\n\nAt the end of the last call the user chose to talk about this today:\n\n- id: ${preview.id} | ${preview.topicDisplay}\n\nRight after greeting them, open with it (for example: "Last time you picked ${preview.topicDisplay} for today - shall we start there?").${lookup} Once they respond, call resolve_call_preview with the id and whether they engaged, redirected to something else, or declined.`;
+  }
+
+  private formatMemoryValue(value: unknown): string {
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  }
+
+  // Open follow-ups from earlier calls; the first one becomes the call's opener
+  private getFollowUpsPromptSection(followUps: Memory[], hasCallPreview = false): string {
+    const items = followUps
+      .map((followUp) => `- id: ${followUp.id} | ${followUp.key.replace(/_/g, ' ')}: ${this.formatMemoryValue(followUp.value)}`)
+      .join('\n');
+    const opener = hasCallPreview
+      ? 'After their chosen topic, ask about the first one (for example: "How did the doctor\'s appointment go?").'
+      : 'Right after greeting them, open by asking about the first one (for example: "How did the doctor\'s appointment go?").';
+
+    return `## Follow-ups To Open With\n\nOn an earlier call the user mentioned something worth asking about:\n\n${items}\n\n${opener} Bring up any others later at a natural moment. Once they tell you how it went, call resolve_follow_up with its id. If they would rather not talk about it, move on without calling the tool.`;
+  }
+
+  // Values from earlier calls that contradict a memory, for the senior to confirm
+  private getMemoryUpdatesPromptSection(updates: MemoryUpdateProposal[]): string {
+    const items = updates
+      .map((update) => `- id: ${update.id} | ${update.key.replace(/_/g, ' ')}: you remember "${this.formatMemoryValue(update.currentValue)}"; on a recent call they mentioned "${this.formatMemoryValue(update.proposedValue)}"`)
+      .join('\n');
+
+    return `## Possible Memory Updates\n\nSomething the user said on a recent call may have changed what you remember:\n\n${items}\n\nAt a natural moment, gently check one at a time (for example: "Last time it sounded like you moved - is that right?"). Do not press if they would rather not say. After they answer, call confirm_memory_update with the id and whether the new information is right.`;
+  }
+
+  // Conversation carried over from another provider after a mid-call failover
+  private getResumePromptSection(turns: TurnSummary[]): string {
+    const transcript = turns
+      .slice(-VOICE_FAILOVER_REPLAY_MAX_TURNS)
+      .map((turn) => `${turn.speaker === 'user' ? 'User' : 'You'}: ${turn.summary}`)
+      .join('\n');
+
+    return `## Call In Progress\n\nThis call is already under way. Here is the conversation so far:\n\n${transcript}\n\nContinue naturally from where it left off. Do NOT greet the user again, re-introduce yourself, or mention any connection problem. Do not repeat questions that were already answered.`;
+  }
+
+  private async refreshMemoryContext(reason: string): Promise<void> {
+    try {
+      // Re-rank against what has been said so far in the call
+      const recentText = (getBuffer(this.options.callSessionId)?.turns ?? [])
+        .slice(-MEMORY_RERANK_RECENT_TURNS)
+        .map((turn) => turn.summary);
+      const memories = await getMemoriesForPrompt(
+        this.options.accountId,
+        this.options.lineId,
+        { recentText }
+      );
+      const memoriesForPrompt = this.options.memoryEnabled ? memories : [];
+      const tools = this.getActiveTools();
+
+      this.sendMessage(
+        this.buildSessionRefresh(this.buildSystemPrompt({ memories: memoriesForPrompt }), tools)
+      );
+
+      this.options.memories = memoriesForPrompt;
+      logger.debug({ lineId: this.options.lineId }, 'Memory context refreshed');
+    } catch (error) {
+      logger.warn({
+        error,
+        callSessionId: this.options.callSessionId,
+        reason,
+      }, 'Failed to refresh memory context, continuing without refresh');
+      void recordCallEvent(
+        this.options.callSessionId,
+        'error',
+        { errorType: 'memory_refresh_failed', reason },
+        { skipDebugLog: true }
+      );
+    }
+  }
+
+  private parseToolResponse(
+    raw: string,
+    toolName: string
+  ): { success?: boolean } | null {
+    try {
+      return JSON.parse(raw) as { success?: boolean };
+    } catch (error) {
+      const errorType = error instanceof SyntaxError
+        ? 'tool_response_invalid_json'
+        : 'tool_response_parse_error';
+
+      logger.warn({
+        error,
+        callSessionId: this.options.callSessionId,
+        toolName,
+      }, 'Failed to parse tool response');
+      void recordCallEvent(
+        this.options.callSessionId,
+        'error',
+        { errorType, reason: toolName },
+        { skipDebugLog: true }
+      );
+      return null;
+    }
+  }
+
+  protected getActiveTools(): GrokTool[] {
+    return GROK_TOOLS.filter((tool) => {
+      if (tool.type !== 'function') {
+        return true;
+      }
+
+      if (tool.name === 'store_memory' || tool.name === 'update_memory') {
+        return this.options.memoryEnabled;
+      }
+
+      if (tool.name === 'confirm_memory_update') {
+        return this.options.memoryEnabled && Boolean(this.options.pendingMemoryUpdates?.length);
+      }
+
+      if (tool.name === 'resolve_follow_up') {
+        return this.options.memoryEnabled && Boolean(this.options.dueFollowUps?.length);
+      }
+
+      if (tool.name === 'log_segment_engagement') {
+        return Boolean(this.options.segment);
+      }
+
+      if (tool.name === 'mark_briefing_mentioned') {
+        return Boolean(this.options.briefing?.length);
+      }
+
+      if (tool.name === 'store_call_preview') {
+        return !this.options.isReminderCall;
+      }
+
+      if (tool.name === 'resolve_call_preview') {
+        return Boolean(this.options.pendingCallPreview);
+      }
+
+      if (tool.name === 'record_reminder_confirmation') {
+        return this.options.isReminderCall && Boolean(this.options.reminderConfirmation);
+      }
+
+      if (tool.name === 'grant_memory_consent' || tool.name === 'deny_memory_consent') {
+        return this.options.needsConsentPrompt;
+      }
+
+      return true;
+    });
+  }
+
+  protected sendMessage(message: unknown): void {
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
+    }
+  }
+
+  protected triggerRecovery(type: 'error' | 'close', detail: string): void {
+    if (this.options.onDisconnect) {
+      this.options.onDisconnect(type, detail);
+    }
+  }
+
+  // Run the classifier stage on a user turn; tiers it finds that the keyword scan missed
+  // are handled like backstop matches
+  private async runSafetyClassifier(transcript: string): Promise<void> {
+    const classifier = this.safetyClassifier;
+    if (!classifier) return;
+
+    const classifications = await classifier.classify(transcript);
+    if (classifications.length === 0) return;
+
+    logger.debug({
+      callSessionId: this.options.callSessionId,
+      classifier: classifier.id,
+      classifications,
+    }, 'Safety classifier result');
+
+    await this.handleSafetyDetections(
+      classifications.map(({ tier, score, reason }) => ({
+        tier,
+        signals: `classifier_detected: ${reason} (${classifier.id}, score ${score.toFixed(2)})`,
+      })),
+      'classifier'
+    );
+  }
+
+  private async handleSafetyDetections(
+    detections: SafetyDetection[],
+    source: 'keyword_backstop' | 'classifier'
+  ): Promise<void> {
+    // Both stages share the call's triggered tiers, so each tier is acted on once.
+    // Co-occurrence rules are deduplicated per rule by the window instead.
+    const newDetections = detections.filter(
+      (detection) => detection.patternRuleId || !this.safetyState.triggeredTiers.has(detection.tier)
+    );
+    if (newDetections.length === 0) return;
+
+    for (const { tier } of newDetections) {
+      markSafetyTier(this.options.callSessionId, tier, source);
+    }
+
+    const highest =
+      newDetections.find((detection) => detection.tier === 'high') ||
+      newDetections.find((detection) => detection.tier === 'medium') ||
+      newDetections[0];
+
+    if (highest.hint) {
+      this.injectSystemMessage(highest.hint);
+    } else {
+      this.injectSafetyHint(highest.tier);
+    }
+
+    const baseUrl = getBackendUrl();
+
+    for (const { tier, signals } of newDetections) {
+      try {
+        await this.callToolEndpoint(`${baseUrl}/tools/safety_event`, {
+          callSessionId: this.options.callSessionId,
+          lineId: this.options.lineId,
+          tier,
+          signals,
+          actionTaken: 'none',
+          source,
+        });
+
+        logger.info({
+          event: source === 'classifier' ? 'safety_classifier_triggered' : 'safety_backstop_triggered',
+          callSessionId: this.options.callSessionId,
+          lineId: this.options.lineId,
+          tier,
+          timestamp: Date.now(),
+        }, source === 'classifier' ? 'Safety classifier triggered' : 'Safety backstop triggered');
+      } catch (error) {
+        logger.error({ error, tier, source, callSessionId: this.options.callSessionId }, 'Failed to log safety backstop event');
+      }
+    }
+  }
+
+  public markTierTriggeredByModel(tier: SafetyTier): void {
+    this.safetyState.triggeredTiers.add(tier);
+    this.safetyState.modelTiersLogged.add(tier);
+    this.safetyState.lastDetectionTime = Date.now();
+    logger.debug({ tier }, 'Tier marked as triggered by model');
+  }
+
+  private injectSafetyHint(tier: SafetyTier): void {
+    const hintText = tier === 'high'
+      ? '[SYSTEM: Safety keywords detected (high severity). Assess user wellbeing immediately and call log_safety_concern. Consider suggesting 988 crisis line.]'
+      : tier === 'medium'
+        ? '[SYSTEM: Safety keywords detected (medium severity). Assess user wellbeing and call log_safety_concern if warranted.]'
+        : '[SYSTEM: Potential distress keywords detected. Please respond with empathy and assess if follow-up is needed.]';
+
+    this.injectSystemMessage(hintText);
+
+    logger.debug({ tier }, 'Injected safety hint to model');
+  }
+
+  // Add a system-role item to the conversation and ask for a response
+  injectSystemMessage(text: string): void {
+    if (!this.connected) return;
+
+    this.sendMessage({
+      type: 'conversation.item.create',
+      item: {
+        type: 'message',
+        role: 'system',
+        content: [{ type: 'input_text', text }],
+      },
+    });
+    this.sendMessage({ type: 'response.create' });
+  }
+
+  // Parse a raw provider frame
+  protected handleProviderMessage(data: Buffer): void {
+    try {
+      const message: RealtimeMessage = JSON.parse(data.toString());
+      this.dispatchMessage(message);
+    } catch (error) {
+      logger.error({ error, callSessionId: this.options.callSessionId, provider: this.provider }, 'Error parsing realtime provider message');
+    }
+  }
+
+  // Handle a provider event
+  protected dispatchMessage(message: RealtimeMessage): void {
+    switch (this.normalizeEventType(message.type)) {
+      case 'session.created':
+      case 'session.updated':
+        logger.debug({ callSessionId: this.options.callSessionId, type: message.type }, 'Realtime session event');
+        break;
+
+      case 'response.audio.delta':
+        // Audio chunk from the model
+        if (message.delta) {
+          this.isGeneratingAudio = true;
+          this.options.onAudioReceived(message.delta);
+        }
+        break;
+
+      case 'response.audio.done':
+        // Audio response complete
+        this.isGeneratingAudio = false;
+        break;
+
+      case 'conversation.item.input_audio_transcription.completed': {
+        const transcript = message.text || message.transcript || message.item?.output || '';
+        if (transcript) {
+          addTurn(this.options.callSessionId, this.extractUserTurn(transcript));
+          recordSafetyTurn(this.options.callSessionId, 'user', transcript);
+
+          const safetyMatches = scanForSafetyKeywords(transcript, this.safetyState.triggeredTiers);
+          if (safetyMatches.length > 0) {
+            this.handleSafetyDetections(
+              safetyMatches.map(({ tier }) => ({ tier, signals: 'keyword_backstop_detected' })),
+              'keyword_backstop'
+            ).catch((err) => {
+              logger.error({ error: err }, 'Safety backstop handling failed');
+            });
+          }
+
+          const windowDetections = evaluateSafetyWindow(this.safetyState);
+          if (windowDetections.length > 0) {
+            this.handleSafetyDetections(windowDetections, 'keyword_backstop').catch((err) => {
+              logger.error({ error: err }, 'Safety window handling failed');
+            });
+          }
+
+          this.runSafetyClassifier(transcript).catch((err) => {
+            logger.error({ error: err }, 'Safety classifier handling failed');
+          });
+        }
+        break;
+      }
+
+      case 'response.done': {
+        this.isGeneratingAudio = false;
+        const turn = this.extractAssistantTurn(message);
+        if (turn.summary) {
+          addTurn(this.options.callSessionId, turn);
+          recordSafetyTurn(this.options.callSessionId, 'assistant', turn.summary);
+        }
+        break;
+      }
+
+      case 'input_audio_buffer.speech_started': {
+        // User started speaking - clear any pending audio (barge-in)
+        // Capture before cancelCurrentResponse resets the flag
+        const interruptedAudio = this.isGeneratingAudio;
+        this.options.onClearBuffer();
+        this.cancelCurrentResponse();
+        if (interruptedAudio) {
+          this.options.onBargeIn?.();
+        }
+        break;
+      }
+
+      case 'response.function_call_arguments.done':
+        // Tool call request from the model
+        if (message.call_id && message.name && message.arguments) {
+          void this.handleToolCall(message.call_id, message.name, message.arguments);
+        }
+        break;
+
+      case 'error':
+        logger.error({ message, callSessionId: this.options.callSessionId, provider: this.provider }, 'Realtime provider error');
+        this.options.onError(new Error(`${this.provider} error: ${JSON.stringify(message)}`));
+        break;
+
+      default:
+        // Log other message types for debugging
+        logger.debug({ type: message.type, callSessionId: this.options.callSessionId }, 'Realtime provider message');
+    }
+  }
+
+  // Handle tool calls from the model
+  private async handleToolCall(callId: string, name: string, argsJson: string): Promise<void> {
+    logger.info({ callId, name, callSessionId: this.options.callSessionId, provider: this.provider }, 'Realtime tool call');
+
+    try {
+      const args = JSON.parse(argsJson);
+      this.options.onToolCall(name, args);
+
+      // Make the tool call to our backend
+      const baseUrl = getBackendUrl();
+      let result: string;
+
+      switch (name) {
+        case 'set_reminder':
+          result = await this.callToolEndpoint(`${baseUrl}/tools/set_reminder`, {
+            callSessionId: this.options.callSessionId,
+            lineId: this.options.lineId,
+            dueAtLocal: args.due_at_local,
+            timezone: this.options.timezone,
+            message: args.message,
+            // Recurrence fields
+            isRecurring: args.is_recurring || false,
+            frequency: args.frequency,
+            interval: args.interval,
+            daysOfWeek: args.days_of_week,
+            dayOfMonth: args.day_of_month,
+            endsAtLocal: args.ends_at_local,
+            deliveryMethod: args.delivery_method,
+          });
+          break;
+
+        case 'schedule_call':
+          result = await this.callToolEndpoint(`${baseUrl}/tools/schedule_call`, {
+            callSessionId: this.options.callSessionId,
+            lineId: this.options.lineId,
+            mode: args.mode,
+            daysOfWeek: args.days_of_week,
+            timeLocal: args.time_local,
+          });
+          break;
+
+        case 'choose_overage_action':
+          result = await this.callToolEndpoint(`${baseUrl}/tools/overage_action`, {
+            callSessionId: this.options.callSessionId,
+            action: args.action,
+            planId: args.plan_id,
+          });
+          break;
+
+        case 'request_opt_out': {
+          const confirmed = args.confirmed;
+          if (confirmed) {
+            result = await this.callToolEndpoint(`${baseUrl}/tools/opt_out`, {
+              callSessionId: this.options.callSessionId,
+              lineId: this.options.lineId,
+              source: 'voice',
+            });
+          } else {
+            result = JSON.stringify({
+              success: true,
+              message: 'Ask the user to confirm they want to stop receiving calls.'
+            });
+          }
+          break;
+        }
+
+        case 'forget_memory':
+          result = await this.callToolEndpoint(`${baseUrl}/tools/forget_memory`, {
+            callSessionId: this.options.callSessionId,
+            lineId: this.options.lineId,
+            whatToForget: args.what_to_forget,
+          });
+          break;
+
+        case 'store_memory':
+          result = await this.callToolEndpoint(`${baseUrl}/tools/store_memory`, {
+            callSessionId: this.options.callSessionId,
+            lineId: this.options.lineId,
+            memoryType: args.memory_type,
+            key: args.key,
+            value: args.value,
+            confidence: args.confidence || 1.0,
+            suggestReminder: args.suggest_reminder || false,
+            dueDate: args.due_date,
+            timezone: this.options.timezone,
+          });
+          // Refresh context after storing
+          void this.refreshMemoryContext('store_memory');
+          break;
+
+        case 'update_memory':
+          result = await this.callToolEndpoint(`${baseUrl}/tools/update_memory`, {
+            callSessionId: this.options.callSessionId,
+            lineId: this.options.lineId,
+            existingKey: args.existing_key,
+            newValue: args.new_value,
+            memoryType: args.memory_type,
+            confidence: args.confidence || 1.0,
+          });
+          void this.refreshMemoryContext('update_memory');
+          break;
+
+        case 'confirm_memory_update': {
+          const raw = await this.callToolEndpoint(`${baseUrl}/tools/confirm_memory_update`, {
+            callSessionId: this.options.callSessionId,
+            lineId: this.options.lineId,
+            updateId: args.update_id,
+            confirmed: args.confirmed,
+          });
+
+          const parsed = this.parseToolResponse(raw, 'confirm_memory_update');
+          if (parsed?.success) {
+            this.options.pendingMemoryUpdates = (this.options.pendingMemoryUpdates ?? [])
+              .filter((update) => update.id !== args.update_id);
+            void this.refreshMemoryContext('confirm_memory_update');
+          }
+
+          result = raw;
+          break;
+        }
+
+        case 'resolve_follow_up': {
+          const raw = await this.callToolEndpoint(`${baseUrl}/tools/resolve_follow_up`, {
+            callSessionId: this.options.callSessionId,
+            lineId: this.options.lineId,
+            followUpId: args.follow_up_id,
+          });
+
+          const parsed = this.parseToolResponse(raw, 'resolve_follow_up');
+          if (parsed?.success) {
+            this.options.dueFollowUps = (this.options.dueFollowUps ?? [])
+              .filter((followUp) => followUp.id !== args.follow_up_id);
+            void this.refreshMemoryContext('resolve_follow_up');
+          }
+
+          result = raw;
+          break;
+        }
+
+        case 'log_segment_engagement': {
+          const raw = await this.callToolEndpoint(`${baseUrl}/tools/log_segment_engagement`, {
+            callSessionId: this.options.callSessionId,
+            lineId: this.options.lineId,
+            segmentId: args.segment_id,
+            completed: args.completed,
+            seniorResponse: args.senior_response,
+          });
+
+          // Logged once per call; drop the segment so it is not offered again
+          const parsed = this.parseToolResponse(raw, 'log_segment_engagement');
+          if (parsed?.success) {
+            this.options.segment = null;
+            this.sendMessage(this.buildSessionRefresh(this.buildSystemPrompt(), this.getActiveTools()));
+          }
+
+          result = raw;
+          break;
+        }
+
+        case 'mark_briefing_mentioned': {
+          const raw = await this.callToolEndpoint(`${baseUrl}/tools/mark_briefing_mentioned`, {
+            callSessionId: this.options.callSessionId,
+            lineId: this.options.lineId,
+            itemId: args.item_id,
+          });
+
+          const parsed = this.parseToolResponse(raw, 'mark_briefing_mentioned');
+          if (parsed?.success) {
+            this.options.briefing = (this.options.briefing ?? [])
+              .filter((item) => item.id !== args.item_id);
+            this.sendMessage(this.buildSessionRefresh(this.buildSystemPrompt(), this.getActiveTools()));
+          }
+
+          result = raw;
+          break;
+        }
+
+        case 'store_call_preview':
+          result = await this.callToolEndpoint(`${baseUrl}/tools/store_call_preview`, {
+            callSessionId: this.options.callSessionId,
+            lineId: this.options.lineId,
+            topicType: args.topic_type,
+            topicKey: args.topic_key,
+            topicDisplay: args.topic_display,
+            offeredTopics: args.offered_topics,
+            segmentId: args.segment_id,
+          });
+          break;
+
+        case 'resolve_call_preview': {
+          const raw = await this.callToolEndpoint(`${baseUrl}/tools/resolve_call_preview`, {
+            callSessionId: this.options.callSessionId,
+            lineId: this.options.lineId,
+            previewId: args.preview_id,
+            response: args.response,
+          });
+
+          // Followed through; drop the opener so it is not raised again
+          const parsed = this.parseToolResponse(raw, 'resolve_call_preview');
+          if (parsed?.success) {
+            this.options.pendingCallPreview = null;
+            this.sendMessage(this.buildSessionRefresh(this.buildSystemPrompt(), this.getActiveTools()));
+          }
+
+          result = raw;
+          break;
+        }
+
+        case 'grant_memory_consent': {
+          const raw = await this.callToolEndpoint(`${baseUrl}/tools/grant_memory_consent`, {
+            callSessionId: this.options.callSessionId,
+            lineId: this.options.lineId,
+          });
+
+          const parsed = this.parseToolResponse(raw, 'grant_memory_consent');
+          if (parsed?.success) {
+            this.options.needsConsentPrompt = false;
+            this.options.memoryEnabled = true;
+            markConsentGranted(this.options.callSessionId);
+            void this.refreshMemoryContext('grant_memory_consent');
+          }
+
+          result = raw;
+          break;
+        }
+
+        case 'deny_memory_consent': {
+          const raw = await this.callToolEndpoint(`${baseUrl}/tools/deny_memory_consent`, {
+            callSessionId: this.options.callSessionId,
+            lineId: this.options.lineId,
+          });
+
+          const parsed = this.parseToolResponse(raw, 'deny_memory_consent');
+          if (parsed?.success) {
+            this.options.needsConsentPrompt = false;
+            this.options.memoryEnabled = false;
+            void this.refreshMemoryContext('deny_memory_consent');
+          }
+
+          result = raw;
+          break;
+        }
+
+        case 'mark_private':
+          result = await this.callToolEndpoint(`${baseUrl}/tools/mark_private`, {
+            callSessionId: this.options.callSessionId,
+            lineId: this.options.lineId,
+            whatToKeepPrivate: args.what_to_keep_private,
+          });
+          break;
+
+        case 'mark_topic_private':
+          result = await this.callToolEndpoint(`${baseUrl}/tools/mark_topic_private`, {
+            callSessionId: this.options.callSessionId,
+            lineId: this.options.lineId,
+            topic_code: args.topic_code,
+          });
+          break;
+
+        case 'set_pause_mode':
+          result = await this.callToolEndpoint(`${baseUrl}/tools/set_pause_mode`, {
+            callSessionId: this.options.callSessionId,
+            lineId: this.options.lineId,
+            enabled: args.enabled,
+            reason: args.reason,
+          });
+          break;
+
+        case 'log_call_insights':
+          result = await this.callToolEndpoint(`${baseUrl}/tools/log_call_insights`, {
+            callSessionId: this.options.callSessionId,
+            lineId: this.options.lineId,
+            ...args,
+          });
+          break;
+
+        case 'log_safety_concern':
+          this.markTierTriggeredByModel(args.tier);
+          result = await this.callToolEndpoint(`${baseUrl}/tools/safety_event`, {
+            callSessionId: this.options.callSessionId,
+            lineId: this.options.lineId,
+            tier: args.tier,
+            signals: args.signals,
+            actionTaken: args.action_taken,
+            source: 'model',
+          });
+          break;
+
+        case 'transfer_to_trusted_contact':
+          if (args.confirmed) {
+            result = await this.callToolEndpoint(`${baseUrl}/tools/transfer_to_trusted_contact`, {
+              callSessionId: this.options.callSessionId,
+              lineId: this.options.lineId,
+            });
+          } else {
+            result = JSON.stringify({
+              success: true,
+              message: 'Ask the user whether they would like you to connect them with their trusted contact.',
+            });
+          }
+          break;
+
+        case 'report_conversation_language':
+          result = await this.callToolEndpoint(`${baseUrl}/tools/report_conversation_language`, {
+            callSessionId: this.options.callSessionId,
+            languageCode: args.language_code,
+          });
+          break;
+
+        // Reminder management tools
+        case 'list_reminders':
+          result = await this.callToolEndpoint(`${baseUrl}/tools/list_reminders`, {
+            callSessionId: this.options.callSessionId,
+            lineId: this.options.lineId,
+          });
+          break;
+
+        case 'edit_reminder':
+          result = await this.callToolEndpoint(`${baseUrl}/tools/edit_reminder`, {
+            callSessionId: this.options.callSessionId,
+            lineId: this.options.lineId,
+            reminderId: args.reminder_id,
+            newMessage: args.new_message,
+            newTimeLocal: args.new_time_local,
+            timezone: this.options.timezone,
+          });
+          break;
+
+        case 'pause_reminder':
+          result = await this.callToolEndpoint(`${baseUrl}/tools/pause_reminder`, {
+            callSessionId: this.options.callSessionId,
+            lineId: this.options.lineId,
+            reminderId: args.reminder_id,
+          });
+          break;
+
+        case 'resume_reminder':
+          result = await this.callToolEndpoint(`${baseUrl}/tools/resume_reminder`, {
+            callSessionId: this.options.callSessionId,
+            lineId: this.options.lineId,
+            reminderId: args.reminder_id,
+          });
+          break;
+
+        case 'snooze_reminder':
+          result = await this.callToolEndpoint(`${baseUrl}/tools/snooze_reminder`, {
+            callSessionId: this.options.callSessionId,
+            lineId: this.options.lineId,
+            reminderId: args.reminder_id,
+            snoozeMinutes: args.snooze_minutes,
+          });
+          break;
+
+        case 'cancel_reminder':
+          result = await this.callToolEndpoint(`${baseUrl}/tools/cancel_reminder`, {
+            callSessionId: this.options.callSessionId,
+            lineId: this.options.lineId,
+            reminderId: args.reminder_id,
+          });
+          break;
+
+        case 'record_reminder_confirmation': {
+          const raw = await this.callToolEndpoint(`${baseUrl}/tools/record_reminder_confirmation`, {
+            callSessionId: this.options.callSessionId,
+            lineId: this.options.lineId,
+            status: args.status,
+          });
+
+          // Answered; stop asking for the rest of the call
+          const parsed = this.parseToolResponse(raw, 'record_reminder_confirmation');
+          if (parsed?.success) {
+            this.options.reminderConfirmation = null;
+            this.sendMessage(this.buildSessionRefresh(this.buildSystemPrompt(), this.getActiveTools()));
+          }
+
+          result = raw;
+          break;
+        }
+
+        case 'request_upgrade':
+          result = await this.callToolEndpoint(`${baseUrl}/tools/request_upgrade`, {
+            callSessionId: this.options.callSessionId,
+            lineId: this.options.lineId,
+            planId: args.plan_id,
+            sendLink: args.send_link,
+          });
+          break;
+
+        default:
+          result = JSON.stringify({ error: `Unknown tool: ${name}` });
+      }
+
+      // Send the result back to the model
+      this.sendToolResult(callId, result);
+
+    } catch (error) {
+      logger.error({ error, name, callSessionId: this.options.callSessionId }, 'Tool call error');
+      this.sendToolResult(callId, JSON.stringify({ error: 'Tool execution failed' }));
+    }
+  }
+
+  private extractUserTurn(transcription: string): TurnSummary {
+    return {
+      timestamp: Date.now(),
+      speaker: 'user',
+      summary: transcription.slice(0, 500),
+      intent: this.inferIntent(transcription),
+      entities: this.extractEntities(transcription),
+    };
+  }
+
+  private extractAssistantTurn(message: RealtimeMessage): TurnSummary {
+    const output = message.output ?? message.response?.output;
+    const content = output
+      ?.find(o => o.type === 'message')
+      ?.content?.find(c => c.transcript || c.text);
+    const transcript = content?.transcript || content?.text || '';
+
+    return {
+      timestamp: Date.now(),
+      speaker: 'assistant',
+      summary: transcript.slice(0, 500),
+      intent: 'response',
+      entities: this.extractEntities(transcript),
+    };
+  }
+
+  private inferIntent(text: string): string {
+    if (text.includes('?')) return 'question';
+    if (/\b(can you|please|could you|would you)\b/i.test(text)) return 'request';
+    return 'statement';
+  }
+
+  private extractEntities(text: string): string[] {
+    const entities: string[] = [];
+    const names = text.match(/\b[A-Z][a-z]+\b/g);
+    if (names) entities.push(...names.slice(0, 5));
+    const dates = text.match(/\b(monday|tuesday|wednesday|thursday|friday|saturday|sunday|tomorrow|next week)\b/gi);
+    if (dates) entities.push(...dates);
+    return [...new Set(entities)];
+  }
+
+  // Call a tool endpoint
+  private async callToolEndpoint(url: string, body: Record<string, unknown>): Promise<string> {
+    const start = Date.now();
+    const toolName = url.split('/').pop();
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Secret': getInternalApiSecret(),
+      },
+      body: JSON.stringify(body),
+    });
+
+    logger.debug({
+      method: 'POST',
+      url,
+      toolName,
+      statusCode: response.status,
+      durationMs: Date.now() - start,
+    }, 'Tool endpoint response');
+
+    const data = await response.json();
+    return JSON.stringify(data);
+  }
+
+  // Send tool result back to the model
+  private sendToolResult(callId: string, output: string): void {
+    if (!this.connected) return;
+
+    this.sendMessage({
+      type: 'conversation.item.create',
+      item: {
+        type: 'function_call_output',
+        call_id: callId,
+        output,
+      },
+    });
+
+    // Trigger a response from the model
+    this.sendMessage({ type: 'response.create' });
+  }
+
+  // Send caller audio to the model
+  sendAudio(audioBase64: string): void {
+    if (!this.connected) return;
+
+    this.sendMessage({
+      type: 'input_audio_buffer.append',
+      audio: audioBase64,
+    });
+  }
+
+  // Send text input to the model (for DTMF handling)
+  sendTextInput(text: string): void {
+    if (!this.connected) return;
+
+    // Create a conversation item with user text
+    this.sendMessage({
+      type: 'conversation.item.create',
+      item: {
+        type: 'message',
+        role: 'user',
+        content: this.buildTextInputContent(text),
+      },
+    });
+
+    // Trigger a response
+    this.sendMessage({ type: 'response.create' });
+  }
+
+  public updateCallbacks(callbacks: Partial<VoiceBridgeCallbacks>): void {
+    this.options = { ...this.options, ...callbacks };
+  }
+
+  public isConnected(): boolean {
+    return this.connected;
+  }
+
+  public getOptions(): VoiceBridgeOptions {
+    return { ...this.options };
+  }
+
+  private cancelCurrentResponse(): void {
+    if (!this.connected) return;
+
+    this.sendMessage({ type: 'response.cancel' });
+    this.isGeneratingAudio = false;
+    logger.debug({ callSessionId: this.options.callSessionId }, 'Canceled realtime response due to barge-in');
+  }
+
+  public async reconnect(): Promise<boolean> {
+    try {
+      if (this.ws) {
+        this.suppressDisconnect = true;
+        this.ws.removeAllListeners();
+        this.ws.close();
+        this.ws = null;
+      }
+
+      this.connected = false;
+      this.suppressDisconnect = false;
+      await this.connect(GROK_RECONNECT_TIMEOUT_MS);
+      return true;
+    } catch (error) {
+      logger.error({ error, callSessionId: this.options.callSessionId, provider: this.provider }, 'Realtime provider reconnection failed');
+      return false;
+    }
+  }
+
+  public forceClose(): void {
+    if (this.ws) {
+      this.ws.close(1011, 'Simulated failure for testing');
+    }
+  }
+
+  public setDetectedLanguage(code: string): void {
+    this.detectedLanguage = code;
+  }
+
+  public getDetectedLanguage(): string | null {
+    return this.detectedLanguage;
+  }
+
+  // Close the connection
+  close(): void {
+    if (this.ws) {
+      this.suppressDisconnect = true;
+      this.ws.close();
+      this.ws = null;
+    }
+    this.connected = false;
+  }
+}
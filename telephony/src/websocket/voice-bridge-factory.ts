@@ -0,0 +1,16 @@
+import { FakeVoiceBridge } from './fake-voice-bridge.js';
+import { GrokBridge } from './grok-bridge.js';
+import { OpenAIRealtimeBridge } from './openai-realtime-bridge.js';
+import type { VoiceBridge, VoiceBridgeOptions, VoiceProviderId } from './voice-bridge.js';
+
+export function createVoiceBridge(provider: VoiceProviderId, options: VoiceBridgeOptions): VoiceBridge {
+  switch (provider) {
+    case 'openai':
+      return new OpenAIRealtimeBridge(options);
+    case 'fake':
+      return new FakeVoiceBridge(options);
+    case 'grok':
+    default:
+      return new GrokBridge(options);
+  }
+}
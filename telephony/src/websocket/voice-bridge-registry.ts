@@ -0,0 +1,15 @@
+import type { VoiceBridge } from './voice-bridge.js';
+
+const bridges = new Map<string, VoiceBridge>();
+
+export function registerVoiceBridge(callSessionId: string, bridge: VoiceBridge): void {
+  bridges.set(callSessionId, bridge);
+}
+
+export function unregisterVoiceBridge(callSessionId: string): void {
+  bridges.delete(callSessionId);
+}
+
+export function getVoiceBridge(callSessionId: string): VoiceBridge | undefined {
+  return bridges.get(callSessionId);
+}
@@ -0,0 +1,137 @@
+// Realtime voice provider contract
+// media-stream.ts talks to this interface; each vendor protocol lives behind it
+
+import type {
+  AccountStatus,
+  BriefingItem,
+  CallPreview,
+  Memory,
+  MemoryUpdateProposal,
+  PlanId,
+  SegmentTemplate,
+} from '@ultaura/types';
+import type { TurnSummary } from '../services/ephemeral-buffer.js';
+
+export type VoiceProviderId = 'grok' | 'openai' | 'fake';
+
+export const VOICE_PROVIDER_IDS: readonly VoiceProviderId[] = ['grok', 'openai', 'fake'];
+
+export interface VoiceBridgeCallbacks {
+  onAudioReceived: (audioBase64: string) => void;
+  onClearBuffer: () => void;
+  onError: (error: Error) => void;
+  onToolCall: (toolName: string, args: Record<string, unknown>) => void;
+  onBargeIn?: () => void;
+  onDisconnect?: (type: 'error' | 'close', detail: string) => void;
+}
+
+export interface VoiceBridgeOptions extends VoiceBridgeCallbacks {
+  callSessionId: string;
+  lineId: string;
+  accountId: string;
+  userName: string;
+  timezone: string;
+  startingLanguage?: string;
+  isFirstCall: boolean;
+  memories: Memory[];
+  memoryEnabled: boolean;
+  // Possible memory updates to confirm with the senior during the call
+  pendingMemoryUpdates?: MemoryUpdateProposal[];
+  // Open follow-up memories to ask about first
+  dueFollowUps?: Memory[];
+  // Rotating segment (trivia, story, learning, memory lane) to offer during the call
+  segment?: SegmentTemplate | null;
+  // Topic the senior picked at the end of their last call; the call opens with it
+  pendingCallPreview?: CallPreview | null;
+  // Local items and news for the call, not yet mentioned
+  briefing?: BriefingItem[];
+  needsConsentPrompt: boolean;
+  seedInterests: string[] | null;
+  seedAvoidTopics: string[] | null;
+  lowMinutesWarning: boolean;
+  minutesRemaining: number;
+  // Reminder call fields
+  isReminderCall: boolean;
+  reminderMessage: string | null;
+  // Set when the reminder asks whether it was done and that answer is still open
+  reminderConfirmation?: { isFollowUp: boolean } | null;
+  // Plan info for upgrade context
+  currentPlanId: PlanId;
+  accountStatus: AccountStatus;
+  // Prompt registry version stamped on the call session
+  promptVersion?: string | null;
+  // Turns replayed into the prompt when taking over a call from another provider
+  resumeTurns?: TurnSummary[];
+}
+
+export interface VoiceBridge {
+  readonly provider: VoiceProviderId;
+
+  // Open the provider session and send the initial session config
+  connect(timeoutMs?: number): Promise<void>;
+  // Tear down and re-open the provider session; resolves false on failure
+  reconnect(): Promise<boolean>;
+  isConnected(): boolean;
+  // Current session options, including consent/memory changes made mid-call
+  getOptions(): VoiceBridgeOptions;
+  close(): void;
+  // Test hook: drop the provider socket as if the vendor failed
+  forceClose(): void;
+
+  // Caller audio (base64 μ-law, 8kHz) from Twilio
+  sendAudio(audioBase64: string): void;
+  // User-role text turn (DTMF prompts, overage prompts) followed by a response
+  sendTextInput(text: string): void;
+  // System-role conversation item followed by a response
+  injectSystemMessage(text: string): void;
+
+  updateCallbacks(callbacks: Partial<VoiceBridgeCallbacks>): void;
+  setDetectedLanguage(code: string): void;
+  getDetectedLanguage(): string | null;
+}
+
+export function parseVoiceProvider(value: string | null | undefined): VoiceProviderId | null {
+  if (!value) return null;
+  const normalized = value.trim().toLowerCase();
+  return (VOICE_PROVIDER_IDS as readonly string[]).includes(normalized)
+    ? normalized as VoiceProviderId
+    : null;
+}
+
+// Line override wins over account override, which wins over DEFAULT_VOICE_PROVIDER.
+// The fake provider is never selected in production.
+export function resolveVoiceProvider(sources: {
+  line?: string | null;
+  account?: string | null;
+  fallback?: string | null;
+}): VoiceProviderId {
+  const provider =
+    parseVoiceProvider(sources.line) ??
+    parseVoiceProvider(sources.account) ??
+    parseVoiceProvider(sources.fallback ?? process.env.DEFAULT_VOICE_PROVIDER) ??
+    'grok';
+
+  if (provider === 'fake' && process.env.NODE_ENV === 'production') {
+    return 'grok';
+  }
+
+  return provider;
+}
+
+// Provider to fail over to when `current` drops mid-call, if one is configured
+export function resolveFailoverProvider(
+  current: VoiceProviderId,
+  configured: string | null | undefined = process.env.SECONDARY_VOICE_PROVIDER
+): VoiceProviderId | null {
+  const secondary = parseVoiceProvider(configured);
+
+  if (!secondary || secondary === current) {
+    return null;
+  }
+
+  if (secondary === 'fake' && process.env.NODE_ENV === 'production') {
+    return null;
+  }
+
+  return secondary;
+}